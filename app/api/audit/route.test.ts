@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET } from "./route";
+import {
+  createMemoryAuditRepository,
+  createMemoryUserRoleRepository,
+  getAuditRepository,
+  setAuditRepository,
+  setUserRoleRepository,
+} from "../../../lib/repositories";
+import type { AuditAccion } from "../../../lib/schemas/audit";
+import type { Role } from "../../../lib/schemas/role";
+
+vi.mock("../../../lib/supabase/server", () => ({
+  createSupabaseServerClient: async () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1", email: "ana@taller.co" } }, error: null }),
+    },
+  }),
+}));
+
+function list(role: Role, query = "") {
+  setUserRoleRepository(createMemoryUserRoleRepository([], role));
+  return GET(new Request(`http://test/api/audit${query}`));
+}
+
+function append(actor: string, accion: AuditAccion, service_code: string) {
+  return getAuditRepository().append({ actor, accion, service_code, cambios: {}, ip: null });
+}
+
+describe("GET /api/audit", () => {
+  beforeEach(async () => {
+    setAuditRepository(createMemoryAuditRepository());
+    await append("ana@taller.co", "crear", "SRV-0001");
+    await append("luis@taller.co", "registrar_pago", "SRV-0001");
+    await append("ana@taller.co", "crear", "SRV-0002");
+  });
+
+  it("solo un administrador consulta la auditoría", async () => {
+    expect((await list("vendedor")).status).toBe(403);
+  });
+
+  it("filtra por servicio y devuelve primero lo más reciente", async () => {
+    const res = await list("admin", "?service_code=SRV-0001");
+
+    expect(res.status).toBe(200);
+    const { entries } = await res.json();
+    expect(entries.map((e: { accion: string }) => e.accion)).toEqual(["registrar_pago", "crear"]);
+  });
+
+  it("rechaza una acción desconocida", async () => {
+    const res = await list("admin", "?accion=borrar_todo");
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields.accion).toMatch(/^Acción inválida/);
+  });
+});
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../middleware/auth";
+import { handleError, createValidationErrorResponse } from "../utils/errors";
+import { getAuditRepository } from "../../../lib/repositories";
+import { auditListQuerySchema } from "../../../lib/schemas/audit";
+import { toFieldErrors } from "../../../lib/schemas/fieldErrors";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Consultar el registro de auditoría (más recientes primero)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `auditoria.ver` (lib/roles/permissions)
+ * - Validación de parámetros de consulta
+ * - Registro de solo lectura (no hay POST/PUT/DELETE)
+ * - Manejo seguro de errores
+ *
+ * Query params soportados:
+ * - service_code=SER2026-0001
+ * - actor=correo del usuario
+ * - accion=crear|actualizar|eliminar|restaurar|purgar|imprimir_factura|imprimir_orden|imprimir_tiquete|verificar_retiro|verificar_retiro_fallido|registrar_pago|eliminar_pago|cambiar_estado|emitir_factura_electronica|subir_adjunto|eliminar_adjunto
+ * - desde=YYYY-MM-DD, hasta=YYYY-MM-DD
+ * - limit=number (default 100, max 500), offset=number
+ *
+ * Respuesta: { entries: AuditEntry[] }
+ */
+export async function GET(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("auditoria.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETROS DE CONSULTA
+    const url = new URL(req.url);
+    const parsed = auditListQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 3. CONSULTAR
+    const entries = await getAuditRepository().list(parsed.data);
+
+    return NextResponse.json({ entries }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo auditoría");
+  }
+}
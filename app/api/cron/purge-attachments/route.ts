@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { handleError, createErrorResponse } from "../../utils/errors";
+import { purgeOrphanFiles } from "../../../../lib/attachments/files";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Limpieza de archivos huérfanos del bucket de adjuntos (tarea programada)
+ *
+ * Elimina los archivos sin fila en `service_attachments` con más de
+ * ADJUNTOS_HUERFANOS_DIAS (subidas fallidas, adjuntos de servicios purgados).
+ * Pensado para un cron, que envía `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * Respuesta: { ok, eliminados: string[] }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Requiere CRON_SECRET configurado y enviado como Bearer token
+ * - Manejo seguro de errores
+ */
+export async function GET(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR SECRETO DEL CRON
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+      return createErrorResponse("No autorizado", 401);
+    }
+
+    // ✅ 2. PURGAR HUÉRFANOS
+    const result = await purgeOrphanFiles();
+
+    return NextResponse.json({ ok: true, eliminados: result.eliminados }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error limpiando adjuntos huérfanos");
+  }
+}
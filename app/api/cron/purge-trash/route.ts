@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { handleError, createErrorResponse } from "../../utils/errors";
+import { purgeExpiredTrash } from "../../../../lib/trash/purge";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Purga automática de la papelera (tarea programada)
+ *
+ * Elimina definitivamente los servicios que llevan en la papelera más de
+ * PAPELERA_RETENCION_DIAS. Pensado para un cron (p. ej. Vercel Cron), que
+ * envía `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * Respuesta: { ok, purgados: string[], bloqueados: { code, motivo }[] }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Requiere CRON_SECRET configurado y enviado como Bearer token
+ * - Manejo seguro de errores
+ */
+export async function GET(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR SECRETO DEL CRON
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+      return createErrorResponse("No autorizado", 401);
+    }
+
+    // ✅ 2. PURGAR
+    const result = await purgeExpiredTrash();
+
+    return NextResponse.json(
+      { ok: true, purgados: result.purgados.map((s) => s.code), bloqueados: result.bloqueados },
+      { status: 200 }
+    );
+  } catch (err) {
+    return handleError(err, "Error purgando la papelera");
+  }
+}
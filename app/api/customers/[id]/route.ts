@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../utils/errors";
+import { readIdParam, type RouteContext } from "../../utils/params";
+import { getCustomerRepository } from "../../../../lib/repositories";
+import {
+  CUSTOMER_NOT_FOUND_MESSAGE,
+  getCustomerHistory,
+} from "../../../../lib/customers/directory";
+import {
+  DOCUMENTO_DUPLICADO_MESSAGE,
+  DOCUMENTO_SIN_TIPO_MESSAGE,
+  customerUpdateSchema,
+} from "../../../../lib/schemas/customer";
+import { toFieldErrors } from "../../../../lib/schemas/fieldErrors";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Ficha del cliente
+ *
+ * Respuesta: { customer, services, resumen, garantias }
+ * (servicios con saldo, totales facturado/pagado/saldo y servicios en garantía)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `clientes.ver` (lib/roles/permissions)
+ * - Validación del parámetro id
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ id: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("clientes.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO ID
+    const id = await readIdParam(context, "Id de cliente inválido");
+    if (id instanceof NextResponse) return id;
+
+    // ✅ 3. BUSCAR CLIENTE + HISTORIAL
+    const customer = await getCustomerRepository().getById(id);
+    if (!customer) {
+      return createErrorResponse(CUSTOMER_NOT_FOUND_MESSAGE, 404);
+    }
+
+    const history = await getCustomerHistory(customer);
+
+    return NextResponse.json({ customer, ...history }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo cliente");
+  }
+}
+
+/**
+ * PUT → Actualizar cliente (JSON, solo los campos enviados)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `clientes.editar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Documento único por tipo
+ * - Manejo seguro de errores
+ */
+export async function PUT(req: Request, context: RouteContext<{ id: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("clientes.editar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO ID
+    const id = await readIdParam(context, "Id de cliente inválido");
+    if (id instanceof NextResponse) return id;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = customerUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+    const changes = parsed.data;
+
+    // ✅ 4. VERIFICAR EXISTENCIA Y DOCUMENTO
+    const customers = getCustomerRepository();
+    const existing = await customers.getById(id);
+    if (!existing) {
+      return createErrorResponse(CUSTOMER_NOT_FOUND_MESSAGE, 404);
+    }
+
+    const tipo = changes.tipo_documento !== undefined ? changes.tipo_documento : existing.tipo_documento;
+    const numero =
+      changes.numero_documento !== undefined ? changes.numero_documento : existing.numero_documento;
+    if (numero && !tipo) {
+      return createValidationErrorResponse({ tipo_documento: DOCUMENTO_SIN_TIPO_MESSAGE });
+    }
+    if (tipo && numero) {
+      const duplicate = await customers.findByDocument(tipo, numero);
+      if (duplicate && duplicate.id !== existing.id) {
+        return createValidationErrorResponse({ numero_documento: DOCUMENTO_DUPLICADO_MESSAGE });
+      }
+    }
+
+    // ✅ 5. ACTUALIZAR
+    const customer = await customers.update(existing.id, changes);
+
+    return NextResponse.json({ customer }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error actualizando cliente");
+  }
+}
+
+/**
+ * DELETE → Eliminar cliente sin servicios
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `clientes.eliminar` (lib/roles/permissions)
+ * - No se eliminan clientes con servicios (409)
+ * - Manejo seguro de errores
+ */
+export async function DELETE(_req: Request, context: RouteContext<{ id: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("clientes.eliminar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO ID
+    const id = await readIdParam(context, "Id de cliente inválido");
+    if (id instanceof NextResponse) return id;
+
+    // ✅ 3. VERIFICAR QUE NO TENGA SERVICIOS
+    const customers = getCustomerRepository();
+    const customer = await customers.getById(id);
+    if (!customer) {
+      return createErrorResponse(CUSTOMER_NOT_FOUND_MESSAGE, 404);
+    }
+
+    const { resumen } = await getCustomerHistory(customer);
+    if (resumen.servicios > 0) {
+      return createErrorResponse("No se puede eliminar un cliente con servicios registrados", 409);
+    }
+
+    // ✅ 4. ELIMINAR
+    await customers.delete(customer.id);
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error eliminando cliente");
+  }
+}
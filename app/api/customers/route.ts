@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../utils/errors";
+import { getCustomerRepository } from "../../../lib/repositories";
+import {
+  DOCUMENTO_DUPLICADO_MESSAGE,
+  customerCreateSchema,
+  customerListQuerySchema,
+} from "../../../lib/schemas/customer";
+import { toFieldErrors } from "../../../lib/schemas/fieldErrors";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Listar / buscar clientes (autocompletado del formulario de servicio)
+ *
+ * Query params:
+ * - q=texto (nombre, documento, teléfono o correo)
+ * - limit=number (default 50, max 200), offset=number
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `clientes.ver` (lib/roles/permissions)
+ * - Validación de parámetros de consulta
+ * - Manejo seguro de errores
+ */
+export async function GET(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("clientes.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETROS
+    const url = new URL(req.url);
+    const parsed = customerListQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 3. BUSCAR
+    const customers = await getCustomerRepository().list(parsed.data);
+
+    return NextResponse.json({ customers }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo clientes");
+  }
+}
+
+/**
+ * POST → Crear cliente (JSON)
+ *
+ * Body: { nombre, tipo_documento?, numero_documento?, telefonos?: string[], email?, direccion?, notas? }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `clientes.editar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Documento único por tipo
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("clientes.editar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = customerCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    const customers = getCustomerRepository();
+    const input = parsed.data;
+
+    // ✅ 3. EVITAR DUPLICADOS POR DOCUMENTO
+    if (input.tipo_documento && input.numero_documento) {
+      const duplicate = await customers.findByDocument(input.tipo_documento, input.numero_documento);
+      if (duplicate) {
+        return createValidationErrorResponse({ numero_documento: DOCUMENTO_DUPLICADO_MESSAGE });
+      }
+    }
+
+    // ✅ 4. CREAR
+    const customer = await customers.create(input);
+
+    return NextResponse.json({ customer }, { status: 201 });
+  } catch (err) {
+    return handleError(err, "Error creando cliente");
+  }
+}
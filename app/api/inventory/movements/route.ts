@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../utils/errors";
+import { getInventoryRepository } from "../../../../lib/repositories";
+import {
+  inventoryMovementCreateSchema,
+  inventoryMovementListQuerySchema,
+} from "../../../../lib/schemas/inventory";
+import { toFieldErrors } from "../../../../lib/schemas/fieldErrors";
+import { registerMovement } from "../../../../lib/inventory/stock";
+import { auditActor } from "../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Movimientos del inventario de metal (más recientes primero)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `inventario.ver` (lib/roles/permissions)
+ * - Validación de parámetros de consulta
+ * - Manejo seguro de errores
+ *
+ * Query params soportados:
+ * - material=Oro 18k|Oro de 14k|Plata 925|Plata 950
+ * - almacen=nombre del almacén
+ * - tipo=compra|ajuste|traslado|consumo
+ * - service_code=SER2026-0001
+ * - limit=number (default 100, max 500), offset=number
+ *
+ * Respuesta: { movimientos: InventoryMovement[] }
+ */
+export async function GET(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("inventario.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETROS DE CONSULTA
+    const url = new URL(req.url);
+    const parsed = inventoryMovementListQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 3. CONSULTAR
+    const movimientos = await getInventoryRepository().listMovements(parsed.data);
+
+    return NextResponse.json({ movimientos }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo movimientos de inventario");
+  }
+}
+
+/**
+ * POST → Registrar una compra, un ajuste o un traslado (JSON)
+ *
+ * Body: { tipo, material, almacen, gramos, costo?, sentido? (ajuste), almacen_destino? (traslado), nota? }
+ * Las salidas no pueden superar la existencia del almacén. El consumo de
+ * los servicios lo registra PUT /api/services/[code]/metals.
+ *
+ * Respuesta: { movimientos: InventoryMovement[] }  (dos en un traslado)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `inventario.gestionar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Movimientos de solo inserción, con el usuario que los registró
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("inventario.gestionar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = inventoryMovementCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 3. REGISTRAR (verifica la existencia en las salidas)
+    const result = await registerMovement(parsed.data, auditActor(user));
+    if ("fields" in result) {
+      return createValidationErrorResponse(result.fields);
+    }
+
+    return NextResponse.json({ movimientos: result.movimientos }, { status: 201 });
+  } catch (err) {
+    return handleError(err, "Error registrando movimiento de inventario");
+  }
+}
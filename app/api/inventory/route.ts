@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../middleware/auth";
+import { handleError } from "../utils/errors";
+import { stockReport } from "../../../lib/inventory/stock";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Existencias de metal por material y almacén, con alertas de stock bajo
+ *
+ * Los mínimos por material se configuran en INVENTARIO_STOCK_MINIMO
+ * (lib/inventory/stock).
+ *
+ * Respuesta: { existencias: StockReportRow[], totales: [{ material, gramos }], alertas: StockReportRow[] }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `inventario.ver` (lib/roles/permissions)
+ * - Manejo seguro de errores
+ */
+export async function GET() {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("inventario.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. REPORTE DE EXISTENCIAS
+    const report = await stockReport();
+
+    return NextResponse.json(report, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo inventario");
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { requireAuth, resolveRole } from "../middleware/auth";
+import { handleError } from "../utils/errors";
+import { permissionsOf } from "../../../lib/roles/permissions";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Usuario actual, su rol y sus permisos
+ *
+ * Respuesta: { user: { id, email }, role, permissions: Permission[] }
+ * La UI lo usa para ocultar las acciones que el usuario no puede hacer;
+ * cada ruta vuelve a verificar el permiso en el servidor.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Rol leído de `user_roles` (no de `user_metadata`)
+ * - Manejo seguro de errores
+ */
+export async function GET() {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN
+    const auth = await requireAuth();
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. ROL Y PERMISOS
+    const role = await resolveRole(user);
+
+    return NextResponse.json(
+      {
+        user: { id: user.id, email: user.email ?? null },
+        role,
+        permissions: permissionsOf(role),
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    return handleError(err, "Error obteniendo el usuario");
+  }
+}
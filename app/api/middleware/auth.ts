@@ -1,5 +1,8 @@
 import { createSupabaseServerClient } from "../../../lib/supabase/server";
 import { NextResponse } from "next/server";
+import { getUserRoleRepository } from "../../../lib/repositories";
+import { rolesWith, type Permission } from "../../../lib/roles/permissions";
+import { DEFAULT_ROLE, type Role } from "../../../lib/schemas/role";
 
 /**
  * Middleware de autenticación para rutas API
@@ -43,28 +46,48 @@ export async function requireAuth(): Promise<
 }
 
 /**
- * Opcional: Verificar roles específicos
- * Ejemplo: requireRole(['admin', 'manager'])
+ * Rol del usuario según la tabla `user_roles` (no `user_metadata`, que el
+ * usuario puede editar). Sin fila asignada: DEFAULT_ROLE (solo lectura).
+ */
+export async function resolveRole(user: { id: string }): Promise<Role> {
+  return (await getUserRoleRepository().getRole(user.id)) ?? DEFAULT_ROLE;
+}
+
+/**
+ * Verificar roles específicos
+ *
+ * Uso:
+ * ```typescript
+ * const auth = await requireRole(["admin"]);
+ * if (auth instanceof NextResponse) return auth; // 401 / 403
+ * const { user, role } = auth;
+ * ```
  */
 export async function requireRole(
-  allowedRoles: string[]
+  allowedRoles: readonly Role[]
 ): Promise<
-  | { user: any; supabase: any }
+  | { user: any; supabase: any; role: Role }
   | NextResponse<{ error: string }>
 > {
   const auth = await requireAuth();
   if (auth instanceof NextResponse) return auth;
 
-  const { user } = auth;
-  // Asumiendo que el rol está en user.user_metadata.role
-  const userRole = user.user_metadata?.role || user.role;
+  const role = await resolveRole(auth.user);
 
-  if (!allowedRoles.includes(userRole)) {
+  if (!allowedRoles.includes(role)) {
     return NextResponse.json(
       { error: "No tienes permisos suficientes" },
       { status: 403 }
     );
   }
 
-  return auth;
+  return { ...auth, role };
+}
+
+/**
+ * Verificar un permiso de la matriz (lib/roles/permissions)
+ * Ejemplo: requirePermission("servicios.eliminar")
+ */
+export async function requirePermission(permission: Permission) {
+  return requireRole(rolesWith(permission));
 }
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../utils/errors";
+import { getPricingRepository } from "../../../../lib/repositories";
+import { metalPricesUpdateSchema } from "../../../../lib/schemas/pricing";
+import { toFieldErrors } from "../../../../lib/schemas/fieldErrors";
+import { auditActor } from "../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * PUT → Registrar los precios del gramo de un día (JSON)
+ *
+ * Body: { fecha: "YYYY-MM-DD", precios: [{ material, precio_gramo }] }
+ * Rigen desde `fecha` hasta que se registre un precio más reciente; los
+ * servicios ya cotizados conservan el precio con el que se cotizaron.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `tarifas.gestionar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Manejo seguro de errores
+ */
+export async function PUT(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("tarifas.gestionar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = metalPricesUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 3. GUARDAR
+    const { fecha, precios } = parsed.data;
+    const saved = await getPricingRepository().saveMetalPrices(fecha, precios, auditActor(user));
+
+    return NextResponse.json({ precios: saved }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error guardando precios del metal");
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../utils/errors";
+import { getPricingRepository } from "../../../../lib/repositories";
+import { laborRatesUpdateSchema } from "../../../../lib/schemas/pricing";
+import { toFieldErrors } from "../../../../lib/schemas/fieldErrors";
+
+export const runtime = "nodejs";
+
+/**
+ * PUT → Reemplazar las tarifas de mano de obra y engaste (JSON)
+ *
+ * Body: { tarifas: [{ id?, tipo: "trabajo" | "engaste", nombre, valor }] }
+ * Las que traen `id` se actualizan, las nuevas se crean y las que no vienen
+ * se eliminan (las cotizaciones guardadas conservan nombre y valor).
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `tarifas.gestionar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Manejo seguro de errores
+ */
+export async function PUT(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("tarifas.gestionar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = laborRatesUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 3. GUARDAR
+    const tarifas = await getPricingRepository().replaceLaborRates(parsed.data.tarifas);
+
+    return NextResponse.json({ tarifas }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error guardando tarifas");
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../middleware/auth";
+import { handleError } from "../utils/errors";
+import { currentPricing } from "../../../lib/pricing/quote";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Tarifas vigentes para la calculadora de cotizaciones
+ *
+ * Respuesta: { fecha, precios: MetalPrice[], tarifas: LaborRate[] }
+ * (el último precio de cada material con fecha ≤ hoy)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Manejo seguro de errores
+ */
+export async function GET() {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. CONSULTAR
+    const pricing = await currentPricing();
+
+    return NextResponse.json(pricing, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo tarifas");
+  }
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE, GET } from "./route";
+import {
+  createMemoryAttachmentRepository,
+  createMemoryServiceRepository,
+  createMemoryUserRoleRepository,
+  getAttachmentRepository,
+  setAttachmentRepository,
+  setServiceRepository,
+  setUserRoleRepository,
+} from "../../../../../../lib/repositories";
+import type { ServiceAttachment } from "../../../../../../lib/schemas/attachment";
+import { serviceFixture } from "../../../../../../tests/fixtures";
+
+// Sesión de Supabase Auth: siempre el mismo usuario; el rol sale de user_roles
+vi.mock("../../../../../../lib/supabase/server", () => ({
+  createSupabaseServerClient: async () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1", email: "ana@taller.co" } }, error: null }),
+    },
+  }),
+}));
+
+const context = (code: string, id: string) => ({ params: { code, id } });
+const request = (code: string, id: string, method = "GET") =>
+  new Request(`http://test/api/services/${code}/attachments/${id}`, { method });
+
+describe("API /api/services/[code]/attachments/[id]", () => {
+  let own: ServiceAttachment;
+  let other: ServiceAttachment;
+
+  beforeEach(async () => {
+    setUserRoleRepository(createMemoryUserRoleRepository([], "admin"));
+    setServiceRepository(
+      createMemoryServiceRepository([serviceFixture(), serviceFixture({ code: "SRV-0002" })])
+    );
+    setAttachmentRepository(createMemoryAttachmentRepository());
+
+    const attachments = getAttachmentRepository();
+    const attach = async (service_code: string, path: string) => {
+      await attachments.uploadFile(path, { bytes: Buffer.from("%PDF-1.7"), contentType: "application/pdf" });
+      return attachments.create({
+        service_code,
+        categoria: "cotizacion",
+        path,
+        thumb_path: null,
+        nombre: "cotizacion.pdf",
+        content_type: "application/pdf",
+        size: 8,
+        created_by: "ana@taller.co",
+      });
+    };
+    own = await attach("SRV-0001", "2026/own.pdf");
+    other = await attach("SRV-0002", "2026/other.pdf");
+  });
+
+  it("sirve el adjunto del servicio aunque el código de la URL venga en minúsculas", async () => {
+    const res = await GET(request("srv-0001", own.id), context("srv-0001", own.id));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/pdf");
+  });
+
+  it("no sirve ni elimina el adjunto de otro servicio", async () => {
+    expect((await GET(request("srv-0001", other.id), context("srv-0001", other.id))).status).toBe(404);
+    expect((await DELETE(request("SRV-0001", other.id, "DELETE"), context("SRV-0001", other.id))).status).toBe(404);
+    expect(await getAttachmentRepository().getById(other.id)).not.toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../../middleware/auth";
+import { handleError, createErrorResponse } from "../../../../utils/errors";
+import { readIdParam, readServiceCode, type RouteContext } from "../../../../utils/params";
+import { getAttachmentRepository, getServiceRepository } from "../../../../../../lib/repositories";
+import { SIGNED_URL_SECONDS, deleteAttachment } from "../../../../../../lib/attachments/files";
+import { recordAudit } from "../../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+type AttachmentContext = RouteContext<{ code: string; id: string }>;
+
+/** Tipos que el navegador puede mostrar sin descargar */
+const INLINE_TYPES = ["application/pdf", "image/png", "image/jpeg", "image/jpg"];
+
+/** Content-Disposition con el nombre original (RFC 6266) */
+function contentDisposition(type: "inline" | "attachment", nombre: string) {
+  const ascii = nombre.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `${type}; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(nombre)}`;
+}
+
+/**
+ * Adjunto del servicio indicado (null si el servicio o el adjunto no existen
+ * o si el adjunto es de otro servicio). Se compara con el código guardado del
+ * servicio, no con el de la URL (que puede venir en minúsculas).
+ */
+async function findAttachment(context: AttachmentContext) {
+  const code = await readServiceCode(context);
+  if (code instanceof NextResponse) return code;
+
+  const id = await readIdParam(context, "Id de adjunto inválido");
+  if (id instanceof NextResponse) return id;
+
+  const service = await getServiceRepository().getByCode(code);
+  if (!service) return null;
+
+  const attachment = await getAttachmentRepository().getById(id);
+  return attachment && attachment.service_code === service.code ? attachment : null;
+}
+
+/**
+ * GET → Archivo del adjunto
+ *
+ * El bucket `cotizaciones` es privado: después de autorizar al usuario se
+ * redirige a una URL firmada que vence en SIGNED_URL_SECONDS. Imágenes y PDF
+ * se muestran en el navegador; el resto (o con `?download=1`) se descarga.
+ * `?variant=thumb` devuelve la miniatura JPEG de las imágenes.
+ * Sin URLs firmadas (DATA_BACKEND=memory) el archivo se sirve desde la API.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - El adjunto debe pertenecer al servicio indicado
+ * - URL firmada de corta duración (nunca una URL pública)
+ * - Solo se muestran en línea imágenes y PDF (nosniff)
+ * - Manejo seguro de errores
+ */
+export async function GET(req: Request, context: AttachmentContext) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETROS Y BUSCAR ADJUNTO
+    const attachment = await findAttachment(context);
+    if (attachment instanceof NextResponse) return attachment;
+    if (!attachment) {
+      return createErrorResponse("Adjunto no encontrado", 404);
+    }
+
+    const params = new URL(req.url).searchParams;
+    const thumbnail = params.get("variant") === "thumb";
+    if (thumbnail && !attachment.thumb_path) {
+      return createErrorResponse("El adjunto no tiene miniatura", 404);
+    }
+
+    const path = thumbnail ? attachment.thumb_path! : attachment.path;
+    const contentType = thumbnail ? "image/jpeg" : attachment.content_type;
+    const inline = params.get("download") !== "1" && INLINE_TYPES.includes(contentType);
+    const attachments = getAttachmentRepository();
+
+    // ✅ 3. REDIRIGIR A LA URL FIRMADA
+    const signedUrl = await attachments.signedUrl(
+      path,
+      SIGNED_URL_SECONDS,
+      inline ? undefined : attachment.nombre
+    );
+    if (signedUrl) {
+      return NextResponse.redirect(signedUrl, {
+        status: 302,
+        headers: { "Cache-Control": "private, no-store" },
+      });
+    }
+
+    // ✅ 4. SIN URLS FIRMADAS: SERVIR EL ARCHIVO
+    const file = await attachments.downloadFile(path);
+    if (!file) {
+      return createErrorResponse("El archivo del adjunto no está disponible", 404);
+    }
+
+    return new NextResponse(new Uint8Array(file.bytes), {
+      status: 200,
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": contentDisposition(inline ? "inline" : "attachment", attachment.nombre),
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (err) {
+    return handleError(err, "Error obteniendo adjunto");
+  }
+}
+
+/**
+ * DELETE → Eliminar un adjunto (fila y archivo)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `adjuntos.eliminar` (lib/roles/permissions)
+ * - El adjunto debe pertenecer al servicio indicado
+ * - Manejo seguro de errores
+ */
+export async function DELETE(req: Request, context: AttachmentContext) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("adjuntos.eliminar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETROS Y BUSCAR ADJUNTO
+    const attachment = await findAttachment(context);
+    if (attachment instanceof NextResponse) return attachment;
+    if (!attachment || !(await deleteAttachment(attachment))) {
+      return createErrorResponse("Adjunto no encontrado", 404);
+    }
+
+    // ✅ 3. AUDITORÍA
+    await recordAudit(req, user, "eliminar_adjunto", attachment.service_code, {
+      adjunto: { antes: attachment, despues: null },
+    });
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error eliminando adjunto");
+  }
+}
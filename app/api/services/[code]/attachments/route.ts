@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import { validateFile, formDataFields } from "../../../utils/validators";
+import { getAttachmentRepository, getServiceRepository } from "../../../../../lib/repositories";
+import { saveAttachment } from "../../../../../lib/attachments/files";
+import { inspectUpload, type InspectedUpload } from "../../../../../lib/attachments/inspect";
+import {
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  attachmentUploadSchema,
+  type ServiceAttachment,
+} from "../../../../../lib/schemas/attachment";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+import { auditActor, recordAudit } from "../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Adjuntos del servicio (cotizaciones, fotos y diseños)
+ *
+ * Respuesta: { attachments: ServiceAttachment[] } (los más antiguos primero).
+ * El archivo se lee en /api/services/[code]/attachments/[id].
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. ADJUNTOS
+    const attachments = await getAttachmentRepository().listByService(service.code);
+
+    return NextResponse.json({ attachments }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo adjuntos");
+  }
+}
+
+/**
+ * POST → Subir adjuntos (multipart/form-data)
+ *
+ * Campos: categoria ("cotizacion" | "foto_ingreso" | "foto_entrega" | "diseno")
+ * y uno o varios `files` (máximo MAX_ATTACHMENTS_PER_UPLOAD). Las imágenes
+ * se guardan sin metadatos, en tamaño web y con miniatura.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `adjuntos.subir` (lib/roles/permissions)
+ * - Validación de archivos (tamaño y cantidad) antes de subir ninguno
+ * - Tipo detectado por el contenido; PDF con JavaScript rechazados (lib/attachments/inspect)
+ * - Verificación de existencia del servicio
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("adjuntos.subir");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. LEER Y VALIDAR FORM DATA
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera multipart/form-data", 400);
+    }
+
+    const parsed = attachmentUploadSchema.safeParse(formDataFields(form));
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    const files = form.getAll("files").filter((f): f is File => f instanceof File);
+    if (!files.length) {
+      return createValidationErrorResponse({ files: "Selecciona al menos un archivo" });
+    }
+    if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+      return createValidationErrorResponse({
+        files: `Máximo ${MAX_ATTACHMENTS_PER_UPLOAD} archivos por envío`,
+      });
+    }
+    for (const file of files) {
+      const fileValidation = validateFile(file);
+      if (!fileValidation.valid) {
+        return createValidationErrorResponse({ files: `${file.name}: ${fileValidation.error}` });
+      }
+    }
+
+    // ✅ 4. VERIFICAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 5. REVISAR CONTENIDO (firma, PDF activos) Y PROCESAR IMÁGENES
+    const uploads: InspectedUpload[] = [];
+    for (const file of files) {
+      const inspection = await inspectUpload(file);
+      if (!inspection.valid) {
+        return createValidationErrorResponse({ files: `${file.name}: ${inspection.error}` });
+      }
+      uploads.push(inspection.upload);
+    }
+
+    // ✅ 6. SUBIR ARCHIVOS (uno a uno; los ya subidos se conservan si uno falla)
+    const created: ServiceAttachment[] = [];
+    let uploadError: unknown = null;
+    for (const upload of uploads) {
+      try {
+        created.push(
+          await saveAttachment(service.code, upload, parsed.data.categoria, auditActor(user))
+        );
+      } catch (err) {
+        uploadError = err;
+        break;
+      }
+    }
+
+    // ✅ 7. AUDITORÍA (de lo que sí se subió)
+    if (created.length) {
+      await recordAudit(req, user, "subir_adjunto", service.code, {
+        adjuntos: { antes: null, despues: created },
+      });
+    }
+
+    if (uploadError) {
+      return handleError(uploadError, "Error subiendo adjuntos");
+    }
+
+    return NextResponse.json({ attachments: created }, { status: 201 });
+  } catch (err) {
+    return handleError(err, "Error subiendo adjuntos");
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../../middleware/auth";
+import { handleError, createErrorResponse } from "../../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../../utils/params";
+import { getServiceRepository } from "../../../../../../lib/repositories";
+import { ensureClaim, trackingUrl } from "../../../../../../lib/claims/ticket";
+import { renderClaimTicket } from "../../../../../../lib/pdf/claimTicket";
+import { renderQrPng } from "../../../../../../lib/einvoice/qr";
+import { getCompanySettings } from "../../../../../../lib/settings/company";
+import { recordAudit } from "../../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Tiquete de retiro del cliente (PDF 80mm con QR de seguimiento y PIN)
+ *
+ * Se abre al crear el servicio y se puede reimprimir desde el detalle.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `retiros.gestionar` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ * - Auditoría de cada impresión
+ */
+export async function GET(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("retiros.gestionar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO Y TIQUETE
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    const claim = await ensureClaim(service.code);
+
+    // ✅ 4. GENERAR PDF (el QR apunta a la página pública de seguimiento)
+    let pdfBuffer: Buffer;
+    try {
+      const qr = await renderQrPng(trackingUrl(new URL(req.url).origin, claim.token));
+      const company = await getCompanySettings();
+      pdfBuffer = await renderClaimTicket({ service, company, pin: claim.pin, qr });
+    } catch (error) {
+      return handleError(error, "Error generando el tiquete de retiro");
+    }
+
+    // ✅ 5. AUDITORÍA (impresión)
+    await recordAudit(req, user, "imprimir_tiquete", service.code);
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${service.code}-retiro.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    return handleError(err, "Error generando el tiquete de retiro");
+  }
+}
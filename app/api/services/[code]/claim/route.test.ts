@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+import {
+  createMemoryAuditRepository,
+  createMemoryClaimRepository,
+  createMemoryServiceRepository,
+  createMemoryUserRoleRepository,
+  getAuditRepository,
+  getClaimRepository,
+  setAuditRepository,
+  setClaimRepository,
+  setServiceRepository,
+  setUserRoleRepository,
+} from "../../../../../lib/repositories";
+import { auditListQuerySchema } from "../../../../../lib/schemas/audit";
+import { CLAIM_MAX_ATTEMPTS } from "../../../../../lib/schemas/claim";
+import { serviceFixture } from "../../../../../tests/fixtures";
+
+vi.mock("../../../../../lib/supabase/server", () => ({
+  createSupabaseServerClient: async () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1", email: "ana@taller.co" } }, error: null }),
+    },
+  }),
+}));
+
+function verify(codigo: string) {
+  return POST(
+    new Request("http://test/api/services/SRV-0001/claim", { method: "POST", body: JSON.stringify({ codigo }) }),
+    { params: { code: "SRV-0001" } }
+  );
+}
+
+async function auditActions() {
+  const entries = await getAuditRepository().list(auditListQuerySchema.parse({ service_code: "SRV-0001" }));
+  return entries.map((e) => e.accion);
+}
+
+describe("POST /api/services/[code]/claim", () => {
+  beforeEach(async () => {
+    setServiceRepository(createMemoryServiceRepository([serviceFixture({ estado: "En fabricación" })]));
+    setClaimRepository(createMemoryClaimRepository());
+    setAuditRepository(createMemoryAuditRepository());
+    setUserRoleRepository(createMemoryUserRoleRepository([], "vendedor"));
+    await getClaimRepository().create("SRV-0001", { token: "q7Zk3V9mN2xR8tYb4LcW1pQs", pin: "042517" });
+  });
+
+  it("verifica el retiro con el PIN y lo audita", async () => {
+    const res = await verify("042517");
+    expect(res.status).toBe(200);
+    expect((await res.json()).claim.verified_at).toBeTruthy();
+    expect(await auditActions()).toEqual(["verificar_retiro"]);
+  });
+
+  it("audita cada intento fallido y bloquea tras el máximo", async () => {
+    for (let i = 1; i < CLAIM_MAX_ATTEMPTS; i++) {
+      expect((await verify("111111")).status).toBe(409);
+    }
+    expect((await verify("111111")).status).toBe(429);
+
+    const locked = await verify("042517");
+    expect(locked.status).toBe(429);
+    expect((await locked.json()).error).toMatch(/bloqueada/);
+
+    const actions = await auditActions();
+    expect(actions).toHaveLength(CLAIM_MAX_ATTEMPTS + 1);
+    expect(new Set(actions)).toEqual(new Set(["verificar_retiro_fallido"]));
+  });
+});
@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import { getServiceRepository } from "../../../../../lib/repositories";
+import { claimStatus, ensureClaim, verifyPickup } from "../../../../../lib/claims/ticket";
+import { claimVerifySchema } from "../../../../../lib/schemas/claim";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+import { auditActor, recordAudit } from "../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Estado del retiro del servicio
+ *
+ * Respuesta: { claim: { created_at, verified_at, verified_by } }
+ * El token y el PIN no se devuelven: solo van impresos en el tiquete.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. TIQUETE (se genera si el servicio es anterior al tiquete)
+    const claim = await ensureClaim(service.code);
+
+    return NextResponse.json({ claim: claimStatus(claim) }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo tiquete de retiro");
+  }
+}
+
+/**
+ * POST → Verificar el retiro con el QR escaneado o el PIN (JSON)
+ *
+ * Body: { codigo } — PIN, token o URL completa del QR
+ * La verificación habilita el paso a "Entregado". Responde 409 si no coincide
+ * y 429 mientras la verificación está bloqueada por intentos fallidos.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `retiros.gestionar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Comparación en tiempo constante del PIN y el token
+ * - Bloqueo por servicio tras varios intentos fallidos (lib/claims/ticket)
+ * - Auditoría de cada verificación, también las fallidas
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("retiros.gestionar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = claimVerifySchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 4. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    if (service.estado === "Entregado") {
+      return createErrorResponse("El servicio ya fue entregado", 409);
+    }
+
+    // ✅ 5. VERIFICAR QR / PIN
+    const result = await verifyPickup(service.code, parsed.data.codigo, auditActor(user));
+    if (!result.ok) {
+      await recordAudit(req, user, "verificar_retiro_fallido", service.code, {
+        intentos_fallidos: { antes: null, despues: result.intentos_fallidos },
+        ...(result.bloqueado_hasta ? { bloqueado_hasta: { antes: null, despues: result.bloqueado_hasta } } : {}),
+      });
+      return createErrorResponse(result.message, result.bloqueado_hasta ? 429 : 409);
+    }
+
+    // ✅ 6. AUDITORÍA
+    await recordAudit(req, user, "verificar_retiro", service.code);
+
+    return NextResponse.json({ claim: claimStatus(result.claim) }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error verificando el retiro");
+  }
+}
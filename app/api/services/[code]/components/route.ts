@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import { getComponentRepository, getServiceRepository } from "../../../../../lib/repositories";
+import { componentsTotal, componentsUpdateSchema } from "../../../../../lib/schemas/component";
+import { serviceTotal } from "../../../../../lib/schemas/service";
+import { COSTO_BELOW_PAID_MESSAGE } from "../../../../../lib/schemas/payment";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+import { getLedger, syncPaymentFlags } from "../../../../../lib/payments/ledger";
+import { componentsLock } from "../../../../../lib/roles/permissions";
+import { recordAudit } from "../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Piedras y componentes del servicio
+ *
+ * Respuesta: { componentes: ServiceComponent[], total: number }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. COMPONENTES
+    const componentes = await getComponentRepository().listByService(service.code);
+
+    return NextResponse.json({ componentes, total: componentsTotal(componentes) }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo componentes");
+  }
+}
+
+/**
+ * PUT → Reemplazar las piedras y componentes del servicio (JSON)
+ *
+ * Body: { componentes: [{ tipo, descripcion?, cantidad, medida?, aporta, precio_unitario }] }
+ * Lo que aporta el cliente va con precio 0. La suma se guarda en
+ * `componentes_total` en la misma transacción que las líneas y se cobra junto con el costo final (serviceTotal),
+ * así que el total no puede quedar por debajo de lo ya pagado.
+ * Errores en `componentes.<i>.<campo>`.
+ *
+ * Respuesta: { componentes: ServiceComponent[], total: number, service: Service }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.editar` (lib/roles/permissions)
+ * - Mismas reglas que el costo final (taller no; después de la entrega, solo admin)
+ * - Validación del body (errores por campo en `fields`)
+ * - Auditoría del cambio
+ * - Manejo seguro de errores
+ */
+export async function PUT(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.editar");
+    if (auth instanceof NextResponse) return auth;
+    const { user, role } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = componentsUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+    const { componentes } = parsed.data;
+    const total = componentsTotal(componentes);
+
+    // ✅ 4. VERIFICAR SERVICIO Y PERMISO SEGÚN SU ESTADO
+    const services = getServiceRepository();
+    const service = await services.getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    const lock = componentsLock(role, service);
+    if (lock) {
+      return NextResponse.json(
+        { error: "No tienes permisos suficientes", fields: { componentes: lock } },
+        { status: 403 }
+      );
+    }
+
+    // El total del servicio no puede quedar por debajo de lo ya pagado
+    const { payments, balance } = await getLedger(service);
+    if (serviceTotal({ ...service, componentes_total: total }) < balance.total_pagado) {
+      return createValidationErrorResponse({ componentes: COSTO_BELOW_PAID_MESSAGE });
+    }
+
+    // ✅ 5. GUARDAR COMPONENTES Y TOTAL DEL SERVICIO
+    const repository = getComponentRepository();
+    const antes = await repository.listByService(service.code);
+    const { componentes: despues } = await repository.replaceForService(service.code, componentes);
+
+    // El total cambió: puede cambiar qué está pagado según el libro de pagos
+    const synced = await syncPaymentFlags({ ...service, componentes_total: total }, payments);
+
+    // ✅ 6. AUDITORÍA
+    await recordAudit(req, user, "actualizar", service.code, {
+      componentes: { antes, despues },
+    });
+
+    return NextResponse.json(
+      { componentes: despues, total, service: synced.service },
+      { status: 200 }
+    );
+  } catch (err) {
+    return handleError(err, "Error guardando componentes");
+  }
+}
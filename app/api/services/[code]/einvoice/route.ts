@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import {
+  getElectronicInvoiceRepository,
+  getServiceRepository,
+} from "../../../../../lib/repositories";
+import { issueElectronicInvoice } from "../../../../../lib/einvoice/issue";
+import { DIAN_GATEWAY_MISSING_MESSAGE, getDianGateway } from "../../../../../lib/einvoice/gateway";
+import { einvoiceCreateSchema } from "../../../../../lib/schemas/einvoice";
+import { serviceTotal } from "../../../../../lib/schemas/service";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+import { recordAudit } from "../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Factura electrónica del servicio
+ *
+ * - JSON: { invoice } (incluye el XML firmado)
+ * - ?format=xml → descarga el XML UBL 2.1
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR FACTURA
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    const invoice = await getElectronicInvoiceRepository().getByServiceCode(service.code);
+    if (!invoice) {
+      return createErrorResponse("El servicio no tiene factura electrónica", 404);
+    }
+
+    if (new URL(req.url).searchParams.get("format") === "xml") {
+      return new NextResponse(invoice.xml, {
+        status: 200,
+        headers: {
+          "Content-Type": "application/xml; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${invoice.numero_factura}.xml"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+
+    return NextResponse.json({ invoice }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo factura electrónica");
+  }
+}
+
+/**
+ * POST → Emitir factura electrónica (JSON)
+ *
+ * Body: { tipo_documento?: "13" | "31" | "22" | "41" | "42", documento?, nombre?, email? }
+ * Sin documento se factura a consumidor final (222222222222).
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `facturas.emitir` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Una sola factura por servicio (409 si ya existe; la factura se reserva
+ *   antes del envío, así dos emisiones simultáneas no duplican el número)
+ * - Rechazo de la DIAN: 422 con sus mensajes (el número vuelve al rango)
+ * - Envío sin respuesta de la DIAN: 202 con la factura "Pendiente"
+ * - Sin proveedor tecnológico configurado responde 503 (en producción no se simula el envío)
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("facturas.emitir");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. VALIDAR BODY
+    const body = await req.json().catch(() => ({}));
+    const parsed = einvoiceCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 4. VERIFICAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    if (!(serviceTotal(service) > 0)) {
+      return createErrorResponse("El servicio no tiene costo final para facturar", 400);
+    }
+
+    const existing = await getElectronicInvoiceRepository().getByServiceCode(service.code);
+    if (existing) {
+      return createErrorResponse(
+        `El servicio ya tiene la factura electrónica ${existing.numero_factura}`,
+        409
+      );
+    }
+
+    if (!getDianGateway()) {
+      return createErrorResponse(DIAN_GATEWAY_MISSING_MESSAGE, 503);
+    }
+
+    // ✅ 5. EMITIR (consecutivo, CUFE, XML, firma y envío)
+    const issued = await issueElectronicInvoice(service, parsed.data);
+    if (!issued.ok) {
+      return createErrorResponse(issued.message, issued.status);
+    }
+    const { invoice } = issued;
+
+    // ✅ 6. AUDITORÍA
+    await recordAudit(req, user, "emitir_factura_electronica", service.code, {
+      factura_electronica: { antes: null, despues: invoice.numero_factura },
+    });
+
+    return NextResponse.json({ invoice }, { status: invoice.estado === "Pendiente" ? 202 : 201 });
+  } catch (err) {
+    return handleError(err, "Error emitiendo factura electrónica");
+  }
+}
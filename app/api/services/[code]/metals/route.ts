@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import { getMetalWeightRepository, getServiceRepository } from "../../../../../lib/repositories";
+import { metalWeightsUpdateSchema } from "../../../../../lib/schemas/metal";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+import { maxMermaPercent, validateMetalWeights } from "../../../../../lib/metals/weights";
+import { metalWeightsLock } from "../../../../../lib/roles/permissions";
+import { auditActor, recordAudit } from "../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Pesos de metal del servicio (g por material)
+ *
+ * Respuesta: { pesos: MetalWeight[], merma_maxima: number }  (merma_maxima en %)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. PESOS
+    const pesos = await getMetalWeightRepository().listByService(service.code);
+
+    return NextResponse.json({ pesos, merma_maxima: maxMermaPercent() }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo pesos de metal");
+  }
+}
+
+/**
+ * PUT → Reemplazar los pesos de metal del servicio (JSON)
+ *
+ * Body: { pesos: [{ material, recibido_g, taller_g, final_g, merma_g }] }
+ * Por material: final + merma ≤ recibido + taller, y la merma no supera
+ * MERMA_MAXIMA_PORCENTAJE (lib/metals/weights). Errores en `pesos.<i>.<campo>`.
+ * Si cambia el metal del taller, la diferencia se descuenta del inventario
+ * del almacén del servicio, en la misma transacción que los pesos
+ * (MetalWeightRepository.replaceForService).
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.editar` (lib/roles/permissions)
+ * - Después de la entrega solo un administrador los modifica
+ * - Validación del body (errores por campo en `fields`)
+ * - Auditoría del cambio
+ * - Manejo seguro de errores
+ */
+export async function PUT(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.editar");
+    if (auth instanceof NextResponse) return auth;
+    const { user, role } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = metalWeightsUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+    const { pesos } = parsed.data;
+
+    const balanceErrors = validateMetalWeights(pesos);
+    if (Object.keys(balanceErrors).length > 0) {
+      return createValidationErrorResponse(balanceErrors);
+    }
+
+    // ✅ 4. VERIFICAR SERVICIO Y PERMISO SEGÚN SU ESTADO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    const lock = metalWeightsLock(role, service);
+    if (lock) {
+      return NextResponse.json(
+        { error: "No tienes permisos suficientes", fields: { pesos: lock } },
+        { status: 403 }
+      );
+    }
+
+    // ✅ 5. GUARDAR PESOS Y CONSUMO DE INVENTARIO (metal del taller)
+    const { antes, despues } = await getMetalWeightRepository().replaceForService(
+      service.code,
+      pesos,
+      auditActor(user)
+    );
+
+    // ✅ 6. AUDITORÍA
+    await recordAudit(req, user, "actualizar", service.code, {
+      pesos: { antes, despues },
+    });
+
+    return NextResponse.json({ pesos: despues }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error guardando pesos de metal");
+  }
+}
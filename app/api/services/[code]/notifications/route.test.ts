@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+import {
+  createMemoryCustomerRepository,
+  createMemoryNotificationRepository,
+  createMemoryServiceRepository,
+  createMemoryUserRoleRepository,
+  getNotificationRepository,
+  setCustomerRepository,
+  setNotificationRepository,
+  setServiceRepository,
+  setUserRoleRepository,
+} from "../../../../../lib/repositories";
+import { setNotificationChannel } from "../../../../../lib/notifications/providers";
+import type { OutgoingNotification } from "../../../../../lib/notifications/channels";
+import {
+  NOTIFICATIONS_NOT_AUTHORIZED_MESSAGE,
+  READY_NOTICE_ESTADO_MESSAGE,
+} from "../../../../../lib/schemas/notification";
+import type { Service } from "../../../../../lib/schemas/service";
+import { customerFixture, serviceFixture } from "../../../../../tests/fixtures";
+
+vi.mock("../../../../../lib/supabase/server", () => ({
+  createSupabaseServerClient: async () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1", email: "ana@taller.co" } }, error: null }),
+    },
+  }),
+}));
+
+const pending = vi.hoisted(() => [] as (() => Promise<unknown>)[]);
+vi.mock("next/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/server")>()),
+  after: (task: () => Promise<unknown>) => {
+    pending.push(task);
+  },
+}));
+
+const customer = customerFixture();
+const sent: OutgoingNotification[] = [];
+
+function setup(service: Partial<Service>) {
+  setServiceRepository(
+    createMemoryServiceRepository([serviceFixture({ customer_id: customer.id, estado: "En fabricación", ...service })])
+  );
+}
+
+function sendReady(evento = "listo_para_recoger") {
+  return POST(
+    new Request("http://test/api/services/SRV-0001/notifications", {
+      method: "POST",
+      body: JSON.stringify({ evento }),
+    }),
+    { params: { code: "SRV-0001" } }
+  );
+}
+
+describe("POST /api/services/[code]/notifications", () => {
+  beforeEach(() => {
+    pending.length = 0;
+    sent.length = 0;
+    setCustomerRepository(createMemoryCustomerRepository([customer]));
+    setNotificationRepository(createMemoryNotificationRepository());
+    setUserRoleRepository(createMemoryUserRoleRepository([], "taller"));
+    setNotificationChannel("whatsapp", {
+      proveedor: "prueba",
+      async send(notification) {
+        sent.push(notification);
+        return { proveedorId: null };
+      },
+    });
+  });
+
+  it("avisa que la pieza está lista para recoger, con el saldo pendiente", async () => {
+    setup({});
+    const res = await sendReady();
+    expect(res.status).toBe(202);
+
+    await Promise.all(pending.map((task) => task()));
+
+    expect(sent[0].mensaje).toContain("está lista para recoger");
+    expect(sent[0].mensaje).toContain("Saldo pendiente");
+    const [entry] = await getNotificationRepository().listByService("SRV-0001");
+    expect(entry).toMatchObject({ evento: "listo_para_recoger", estado: "enviado" });
+  });
+
+  it("solo con la pieza en fabricación o en garantía", async () => {
+    setup({ estado: "Pendiente" });
+    const res = await sendReady();
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toBe(READY_NOTICE_ESTADO_MESSAGE);
+  });
+
+  it("no avisa a clientes que no autorizaron notificaciones", async () => {
+    setup({ customer_id: null });
+    const res = await sendReady();
+    expect(res.status).toBe(409);
+    expect((await res.json()).error).toBe(NOTIFICATIONS_NOT_AUTHORIZED_MESSAGE);
+    expect(pending).toEqual([]);
+  });
+
+  it("rechaza eventos que no se envían a mano", async () => {
+    setup({});
+    const res = await sendReady("entregado");
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields.evento).toBeTruthy();
+  });
+});
@@ -0,0 +1,125 @@
+import { NextResponse, after } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import {
+  getCustomerRepository,
+  getNotificationRepository,
+  getServiceRepository,
+} from "../../../../../lib/repositories";
+import {
+  NOTIFICATIONS_NOT_AUTHORIZED_MESSAGE,
+  READY_NOTICE_ESTADOS,
+  READY_NOTICE_ESTADO_MESSAGE,
+  notificationSendSchema,
+} from "../../../../../lib/schemas/notification";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+import { notifyReadyForPickup } from "../../../../../lib/notifications/notify";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Registro de notificaciones enviadas al cliente por el servicio
+ *
+ * Respuesta: { notifications: NotificationLogEntry[] } (más recientes primero)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. REGISTRO DE ENVÍOS
+    const notifications = await getNotificationRepository().listByService(service.code);
+
+    return NextResponse.json({ notifications }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo notificaciones");
+  }
+}
+
+/**
+ * POST → Avisar al cliente que la pieza está lista para recoger (JSON)
+ *
+ * Body: { evento: "listo_para_recoger" }
+ * Solo con el servicio en fabricación o en garantía y si el cliente autorizó
+ * notificaciones (409 si no). El envío sale después de responder y queda
+ * en el registro de notificaciones.
+ *
+ * Respuesta: 202 { evento }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `estados.cambiar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Verificación de existencia y estado del servicio
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("estados.cambiar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = notificationSendSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 4. VERIFICAR SERVICIO, ESTADO Y AUTORIZACIÓN DEL CLIENTE
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+    if (!READY_NOTICE_ESTADOS.includes(service.estado)) {
+      return createErrorResponse(READY_NOTICE_ESTADO_MESSAGE, 409);
+    }
+
+    const customer = service.customer_id
+      ? await getCustomerRepository().getById(service.customer_id)
+      : null;
+    if (!customer?.canal_notificaciones) {
+      return createErrorResponse(NOTIFICATIONS_NOT_AUTHORIZED_MESSAGE, 409);
+    }
+
+    // ✅ 5. ENVÍO DESPUÉS DE RESPONDER
+    const origin = new URL(req.url).origin;
+    after(() => notifyReadyForPickup(service, origin));
+
+    return NextResponse.json({ evento: parsed.data.evento }, { status: 202 });
+  } catch (err) {
+    return handleError(err, "Error enviando la notificación");
+  }
+}
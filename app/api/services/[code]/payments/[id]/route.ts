@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../../middleware/auth";
+import { handleError, createErrorResponse } from "../../../../utils/errors";
+import { readIdParam, readServiceCode, type RouteContext } from "../../../../utils/params";
+import { getPaymentRepository, getServiceRepository } from "../../../../../../lib/repositories";
+import { syncPaymentFlags } from "../../../../../../lib/payments/ledger";
+import { recordAudit } from "../../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * DELETE → Eliminar un pago registrado por error
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `pagos.eliminar` (lib/roles/permissions)
+ * - El pago debe pertenecer al servicio indicado
+ * - Manejo seguro de errores
+ */
+export async function DELETE(
+  req: Request,
+  context: RouteContext<{ code: string; id: string }>
+) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("pagos.eliminar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETROS
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    const paymentId = await readIdParam(context, "Id de pago inválido");
+    if (paymentId instanceof NextResponse) return paymentId;
+
+    // ✅ 3. VERIFICAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. ELIMINAR PAGO Y ACTUALIZAR BANDERAS
+    const payments = getPaymentRepository();
+    const payment = (await payments.listByService(service.code)).find((p) => p.id === paymentId);
+    const deleted = payment ? await payments.delete(service.code, paymentId) : false;
+    if (!deleted) {
+      return createErrorResponse("Pago no encontrado", 404);
+    }
+
+    const { balance } = await syncPaymentFlags(service);
+
+    // ✅ 5. AUDITORÍA
+    await recordAudit(req, user, "eliminar_pago", service.code, {
+      pago: { antes: payment, despues: null },
+    });
+
+    return NextResponse.json({ ok: true, balance }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error eliminando pago");
+  }
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+import {
+  createMemoryCustomerRepository,
+  createMemoryNotificationRepository,
+  createMemoryPaymentRepository,
+  createMemoryServiceRepository,
+  createMemoryUserRoleRepository,
+  getNotificationRepository,
+  setCustomerRepository,
+  setNotificationRepository,
+  setPaymentRepository,
+  setServiceRepository,
+  setUserRoleRepository,
+} from "../../../../../lib/repositories";
+import { setNotificationChannel } from "../../../../../lib/notifications/providers";
+import type { OutgoingNotification } from "../../../../../lib/notifications/channels";
+import { customerFixture, serviceFixture } from "../../../../../tests/fixtures";
+
+vi.mock("../../../../../lib/supabase/server", () => ({
+  createSupabaseServerClient: async () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1", email: "ana@taller.co" } }, error: null }),
+    },
+  }),
+}));
+
+// `after` de Next: las tareas quedan pendientes hasta que la prueba las corre
+const pending = vi.hoisted(() => [] as (() => Promise<unknown>)[]);
+vi.mock("next/server", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("next/server")>()),
+  after: (task: () => Promise<unknown>) => {
+    pending.push(task);
+  },
+}));
+
+const customer = customerFixture();
+const sent: OutgoingNotification[] = [];
+
+function registerPayment(monto: number) {
+  return POST(
+    new Request("http://test/api/services/SRV-0001/payments", {
+      method: "POST",
+      body: JSON.stringify({ fecha: "2026-10-19", monto, metodo: "Efectivo", agente: "Carlos" }),
+    }),
+    { params: { code: "SRV-0001" } }
+  );
+}
+
+describe("POST /api/services/[code]/payments", () => {
+  beforeEach(() => {
+    pending.length = 0;
+    sent.length = 0;
+    setServiceRepository(createMemoryServiceRepository([serviceFixture({ customer_id: customer.id })]));
+    setPaymentRepository(createMemoryPaymentRepository());
+    setCustomerRepository(createMemoryCustomerRepository([customer]));
+    setNotificationRepository(createMemoryNotificationRepository());
+    setUserRoleRepository(createMemoryUserRoleRepository([], "vendedor"));
+    setNotificationChannel("whatsapp", {
+      proveedor: "prueba",
+      async send(notification) {
+        sent.push(notification);
+        return { proveedorId: "msg-1" };
+      },
+    });
+  });
+
+  it("responde sin esperar la notificación y la envía después", async () => {
+    const res = await registerPayment(40_000);
+    expect(res.status).toBe(201);
+    expect(sent).toEqual([]);
+
+    await Promise.all(pending.map((task) => task()));
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0].mensaje).toContain("Saldo pendiente");
+    const [entry] = await getNotificationRepository().listByService("SRV-0001");
+    expect(entry).toMatchObject({ evento: "pago_registrado", estado: "enviado", proveedor: "prueba" });
+  });
+
+  it("no deja pagar más que el saldo", async () => {
+    const res = await registerPayment(150_000);
+    expect(res.status).toBe(400);
+    expect(pending).toEqual([]);
+  });
+});
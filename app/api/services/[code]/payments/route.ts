@@ -0,0 +1,120 @@
+import { NextResponse, after } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import { getPaymentRepository, getServiceRepository } from "../../../../../lib/repositories";
+import { getLedger, syncPaymentFlags } from "../../../../../lib/payments/ledger";
+import { SALDO_EXCEEDED_MESSAGE, paymentCreateSchema } from "../../../../../lib/schemas/payment";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+import { recordAudit } from "../../../../../lib/audit/log";
+import { notifyPayment } from "../../../../../lib/notifications/notify";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Pagos registrados del servicio y saldo pendiente
+ *
+ * Respuesta: { payments: Payment[], balance: { costo_final, total_pagado, saldo } }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. PAGOS + SALDO
+    const { payments, balance } = await getLedger(service);
+
+    return NextResponse.json({ payments, balance }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo pagos");
+  }
+}
+
+/**
+ * POST → Registrar un pago (JSON)
+ *
+ * Body: { fecha, monto, metodo: "Efectivo" | "Tarjeta" | "Transferencia", agente, referencia? }
+ * El monto no puede superar el saldo pendiente. Avisa al cliente si aceptó
+ * notificaciones (lib/notifications).
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `pagos.registrar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Verificación de existencia del servicio
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("pagos.registrar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = paymentCreateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 4. VERIFICAR SERVICIO Y SALDO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    const { payments, balance } = await getLedger(service);
+    if (parsed.data.monto > balance.saldo) {
+      return createValidationErrorResponse({ monto: SALDO_EXCEEDED_MESSAGE });
+    }
+
+    // ✅ 5. REGISTRAR PAGO Y ACTUALIZAR BANDERAS
+    const payment = await getPaymentRepository().create(service.code, parsed.data);
+    const { balance: updated } = await syncPaymentFlags(service, [...payments, payment]);
+
+    // ✅ 6. AUDITORÍA
+    await recordAudit(req, user, "registrar_pago", service.code, {
+      pago: { antes: null, despues: payment },
+    });
+
+    // ✅ 7. NOTIFICACIÓN AL CLIENTE (si la autorizó), después de responder
+    const origin = new URL(req.url).origin;
+    after(() => notifyPayment(service, payment.monto, origin));
+
+    return NextResponse.json({ payment, balance: updated }, { status: 201 });
+  } catch (err) {
+    return handleError(err, "Error registrando pago");
+  }
+}
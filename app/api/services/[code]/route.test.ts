@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PUT } from "./route";
+import {
+  createMemoryAuditRepository,
+  createMemoryPaymentRepository,
+  createMemoryServiceRepository,
+  createMemoryUserRoleRepository,
+  getServiceRepository,
+  setAuditRepository,
+  setPaymentRepository,
+  setServiceRepository,
+  setUserRoleRepository,
+} from "../../../../lib/repositories";
+import { FIELD_ADMIN_AFTER_DELIVERY_MESSAGE, FIELD_NOT_ALLOWED_MESSAGE } from "../../../../lib/roles/permissions";
+import type { Role } from "../../../../lib/schemas/role";
+import { serviceFixture, serviceForm } from "../../../../tests/fixtures";
+
+vi.mock("../../../../lib/supabase/server", () => ({
+  createSupabaseServerClient: async () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1", email: "ana@taller.co" } }, error: null }),
+    },
+  }),
+}));
+
+/** El formulario completo del servicio guardado, como lo envía la UI */
+function update(role: Role, overrides: Record<string, string>) {
+  setUserRoleRepository(createMemoryUserRoleRepository([], role));
+  const form = serviceForm({ abono: "0", estado: "Entregado", ...overrides });
+  return PUT(new Request("http://test/api/services/SRV-0001", { method: "PUT", body: form }), {
+    params: { code: "SRV-0001" },
+  });
+}
+
+describe("PUT /api/services/[code]: permisos por campo", () => {
+  beforeEach(() => {
+    setServiceRepository(createMemoryServiceRepository([serviceFixture({ estado: "Entregado" })]));
+    setPaymentRepository(createMemoryPaymentRepository());
+    setAuditRepository(createMemoryAuditRepository());
+  });
+
+  it("un vendedor no cambia el costo final de un servicio entregado", async () => {
+    const res = await update("vendedor", { costo_final: "90000" });
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).fields).toEqual({ costo_final: FIELD_ADMIN_AFTER_DELIVERY_MESSAGE });
+    expect((await getServiceRepository().getByCode("SRV-0001"))?.costo_final).toBe(100_000);
+  });
+
+  it("el taller guarda el formulario completo si solo cambió la descripción", async () => {
+    const res = await update("taller", { descripcion: "Ajuste de talla y pulido" });
+
+    expect(res.status).toBe(200);
+    expect((await getServiceRepository().getByCode("SRV-0001"))?.descripcion).toBe("Ajuste de talla y pulido");
+  });
+
+  it("el taller no cambia los datos del cliente", async () => {
+    const res = await update("taller", { cliente: "Ana María Gómez" });
+
+    expect(res.status).toBe(403);
+    expect((await res.json()).fields).toEqual({ cliente: FIELD_NOT_ALLOWED_MESSAGE });
+  });
+
+  it("un administrador corrige el costo final después de la entrega", async () => {
+    const res = await update("admin", { costo_final: "90000" });
+
+    expect(res.status).toBe(200);
+    expect((await getServiceRepository().getByCode("SRV-0001"))?.costo_final).toBe(90_000);
+  });
+});
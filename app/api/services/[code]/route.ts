@@ -1,108 +1,71 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-import crypto from "crypto";
-import { requireAuth } from "../../middleware/auth";
+import { requirePermission } from "../../middleware/auth";
+import { formDataFields } from "../../utils/validators";
 import {
-  validateDate,
-  validateTime,
-  validatePhone,
-  validateString,
-  validateEstado,
-  validatePrioridad,
-  validateMaterial,
-  validateMoney,
-  validateFile,
-  sanitizeString,
-} from "../../utils/validators";
-import { handleError, createErrorResponse } from "../../utils/errors";
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../utils/params";
+import { getCustomerRepository, getServiceRepository } from "../../../../lib/repositories";
+import { CUSTOMER_NOT_FOUND_MESSAGE } from "../../../../lib/customers/directory";
+import { getLedger, syncPaymentFlags, withBalances } from "../../../../lib/payments/ledger";
+import {
+  ABONO_EXCEEDS_COSTO_MESSAGE,
+  serviceTotal,
+  serviceUpdateSchema,
+} from "../../../../lib/schemas/service";
+import { COSTO_BELOW_PAID_MESSAGE } from "../../../../lib/schemas/payment";
+import { ESTADO_VIA_TRANSITION_MESSAGE } from "../../../../lib/schemas/status";
+import { computeFechaEntrega } from "../../../../lib/sla/due";
+import { diffFields, recordAudit } from "../../../../lib/audit/log";
+import {
+  changedServiceFields,
+  serviceFieldLock,
+  serviceFieldLockErrors,
+} from "../../../../lib/roles/permissions";
+import { quoteFromForm } from "../../../../lib/pricing/quote";
+import type { QuoteSnapshot } from "../../../../lib/schemas/quote";
+import { toFieldErrors } from "../../../../lib/schemas/fieldErrors";
 
 export const runtime = "nodejs";
 
-function requiredEnv(name: string) {
-  const v = process.env[name];
-  if (!v) throw new Error(`Missing env: ${name}`);
-  return v;
-}
-
-function normalizeTimeHHMMSS(hhmm: string) {
-  // "13:00" -> "13:00:00"
-  // "13:00:00" -> "13:00:00"
-  const t = String(hhmm || "").trim();
-  if (!t) return "";
-  if (t.length === 5) return `${t}:00`;
-  return t.slice(0, 8);
-}
-
-async function findServiceByCode(supabase: any, code: string) {
-  // 1) exact match
-  let { data, error } = await supabase
-    .from("services")
-    .select("*")
-    .eq("code", code)
-    .maybeSingle();
-
-  if (error) throw new Error(error.message);
-
-  // 2) fallback ilike
-  if (!data) {
-    const fallback = await supabase
-      .from("services")
-      .select("*")
-      .ilike("code", code)
-      .maybeSingle();
-
-    if (fallback.error) throw new Error(fallback.error.message);
-    data = fallback.data ?? null;
-  }
-
-  return data as any | null;
-}
-
 /**
  * GET → Obtener un servicio por código
  * 
  * ✅ SEGURIDAD IMPLEMENTADA:
  * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
  * - Validación del parámetro code
  * - Manejo seguro de errores
  */
 export async function GET(
   _req: Request,
-  context: { params: Promise<{ code: string }> | { code: string } }
+  context: RouteContext<{ code: string }>
 ) {
   try {
-    // ✅ 1. VERIFICAR AUTENTICACIÓN
-    const auth = await requireAuth();
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
     if (auth instanceof NextResponse) return auth;
     const { user } = auth;
 
-    // ✅ 2. Obtener cliente de Supabase
-    const supabaseUrl = requiredEnv("NEXT_PUBLIC_SUPABASE_URL");
-    const serviceKey = requiredEnv("SUPABASE_SERVICE_ROLE_KEY");
-    const supabase = createClient(supabaseUrl, serviceKey);
+    // ✅ 2. Repositorio de servicios
+    const services = getServiceRepository();
 
     // ✅ 3. VALIDAR PARÁMETRO CODE
-    const params = await Promise.resolve(context.params);
-    const raw = params?.code ?? "";
-    const code = decodeURIComponent(String(raw)).trim();
-
-    if (!code) {
-      return createErrorResponse("Falta el parámetro code", 400);
-    }
-
-    // Validar longitud del código
-    if (code.length > 100) {
-      return createErrorResponse("Código de servicio inválido", 400);
-    }
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
 
     // ✅ 4. BUSCAR SERVICIO
-    const data = await findServiceByCode(supabase, code);
+    const data = await services.getByCode(code);
 
     if (!data) {
       return createErrorResponse("Servicio no encontrado", 404);
     }
 
-    return NextResponse.json({ service: data }, { status: 200 });
+    const [service] = await withBalances([data]);
+
+    return NextResponse.json({ service }, { status: 200 });
   } catch (err: any) {
     return handleError(err, "Error procesando la solicitud");
   }
@@ -113,42 +76,35 @@ export async function GET(
  * 
  * ✅ SEGURIDAD IMPLEMENTADA:
  * - Autenticación requerida
- * - Validación completa de todos los campos
- * - Validación de archivos (tipo y tamaño)
+ * - Permiso `servicios.editar` (lib/roles/permissions)
+ * - Validación de los campos enviados (errores por campo en `fields`)
+ * - El estado no se cambia aquí (flujo de estados en /status)
+ * - Permisos por campo según el rol (403 con `fields`)
+ * - Cotización (campo `cotizacion`) recalculada con las tarifas vigentes (lib/pricing)
  * - Sanitización de inputs
  * - Verificación de existencia del servicio
+ * - Auditoría de los campos modificados
  * - Manejo seguro de errores
  */
 export async function PUT(
   req: Request,
-  context: { params: Promise<{ code: string }> | { code: string } }
+  context: RouteContext<{ code: string }>
 ) {
   try {
-    // ✅ 1. VERIFICAR AUTENTICACIÓN
-    const auth = await requireAuth();
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.editar");
     if (auth instanceof NextResponse) return auth;
-    const { user } = auth;
+    const { user, role } = auth;
 
-    // ✅ 2. Obtener cliente de Supabase
-    const supabaseUrl = requiredEnv("NEXT_PUBLIC_SUPABASE_URL");
-    const serviceKey = requiredEnv("SUPABASE_SERVICE_ROLE_KEY");
-    const supabase = createClient(supabaseUrl, serviceKey);
+    // ✅ 2. Repositorio de servicios
+    const services = getServiceRepository();
 
     // ✅ 3. VALIDAR PARÁMETRO CODE
-    const params = await Promise.resolve(context.params);
-    const raw = params?.code ?? "";
-    const code = decodeURIComponent(String(raw)).trim();
-
-    if (!code) {
-      return createErrorResponse("Falta el parámetro code", 400);
-    }
-
-    if (code.length > 100) {
-      return createErrorResponse("Código de servicio inválido", 400);
-    }
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
 
     // ✅ 4. VERIFICAR QUE EL SERVICIO EXISTA
-    const existing = await findServiceByCode(supabase, code);
+    const existing = await services.getByCode(code);
     if (!existing) {
       return createErrorResponse("Servicio no encontrado", 404);
     }
@@ -156,127 +112,89 @@ export async function PUT(
     // ✅ 5. LEER Y VALIDAR FORM DATA
     const form = await req.formData();
 
-    const cliente = sanitizeString(String(form.get("cliente") ?? ""));
-    const telefono = sanitizeString(String(form.get("telefono") ?? ""));
-    const maquina = sanitizeString(String(form.get("maquina") ?? ""));
-    const fecha = String(form.get("fecha") ?? "").trim();
-    const horaRaw = String(form.get("hora") ?? "").trim();
-    const estado = String(form.get("estado") ?? "").trim();
-    const descripcion = sanitizeString(String(form.get("descripcion") ?? ""));
-    const material = sanitizeString(String(form.get("material") ?? ""));
-    const agente = sanitizeString(String(form.get("agente") ?? ""));
-    const almacen = sanitizeString(String(form.get("almacen") ?? ""));
-    const prioridad = String(form.get("prioridad") ?? "").trim();
-    const abonoRaw = String(form.get("abono") ?? "").trim();
-    const costoFinalRaw = String(form.get("costo_final") ?? "").trim();
-    const abonoPagadoRaw = String(form.get("abono_pagado") ?? "false").trim();
-    const costoFinalPagadoRaw = String(form.get("costo_final_pagado") ?? "false").trim();
-
-    const parseBool = (v: string) => String(v).toLowerCase() === "true";
-    const abono_pagado = parseBool(abonoPagadoRaw);
-    const costo_final_pagado = parseBool(costoFinalPagadoRaw);
-
-    const parseMoney = (v: string) => {
-      const normalized = String(v ?? "").trim().replace(/\s+/g, "").replace(",", ".");
-      if (!normalized) return 0;
-      return Number(normalized);
-    };
-    const abono = parseMoney(abonoRaw);
-    const costo_final = parseMoney(costoFinalRaw);
-
-    // ✅ 6. VALIDAR TODOS LOS CAMPOS
-    const validations = [
-      validateString(cliente, "Cliente"),
-      validatePhone(telefono),
-      validateString(maquina, "Máquina"),
-      validateDate(fecha),
-      validateTime(horaRaw),
-      validateEstado(estado),
-      validateString(descripcion, "Descripción", 2000),
-      validateMaterial(material),
-      validateString(agente, "Agente"),
-      validateString(almacen, "Almacén"),
-      validatePrioridad(prioridad),
-      validateMoney(abonoRaw, "Abono", false),
-      validateMoney(costoFinalRaw, "Costo final", true),
-    ];
-
-    for (const validation of validations) {
-      if (!validation.valid) {
-        return createErrorResponse(validation.error!, 400);
+    // Solo se validan (y actualizan) los campos enviados
+    const parsed = serviceUpdateSchema.safeParse(formDataFields(form));
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+    const changes = parsed.data;
+
+    // Cotización de la calculadora: solo si se envía (vacía la quita)
+    let cotizacion: QuoteSnapshot | null | undefined;
+    if (form.has("cotizacion")) {
+      const result = await quoteFromForm(form.get("cotizacion"));
+      if ("fields" in result) {
+        return createValidationErrorResponse(result.fields);
       }
+      cotizacion = result.quote;
     }
 
-    if (Number.isFinite(abono) && Number.isFinite(costo_final) && abono > costo_final) {
-      return createErrorResponse("El abono no puede ser mayor al costo final", 400);
+    // ✅ 6. REGLAS QUE DEPENDEN DEL SERVICIO EXISTENTE
+    const abono = changes.abono ?? Number(existing.abono ?? 0);
+    const costoFinal = changes.costo_final ?? Number(existing.costo_final ?? 0);
+    if (abono > costoFinal) {
+      return createValidationErrorResponse({ abono: ABONO_EXCEEDS_COSTO_MESSAGE });
     }
 
-    const hora = normalizeTimeHHMMSS(horaRaw);
+    // El estado solo cambia con POST /api/services/[code]/status
+    if (changes.estado !== undefined && changes.estado !== existing.estado) {
+      return createValidationErrorResponse({ estado: ESTADO_VIA_TRANSITION_MESSAGE });
+    }
 
-    // ✅ 7. VALIDAR Y PROCESAR ARCHIVO (si existe)
-    let cotizacion_url: string | null = existing.cotizacion_url ?? null;
+    // Permisos por campo (p. ej. montos después de la entrega solo admin)
+    const changedFields = changedServiceFields(existing, changes);
+    const lockErrors = serviceFieldLockErrors(role, existing, changedFields);
+    // La cotización propone el costo final: mismas reglas que ese campo
+    const quoteLock = cotizacion !== undefined ? serviceFieldLock(role, existing, "costo_final") : null;
+    if (quoteLock) lockErrors.cotizacion = quoteLock;
+    if (Object.keys(lockErrors).length > 0) {
+      return NextResponse.json(
+        { error: "No tienes permisos suficientes", fields: lockErrors },
+        { status: 403 }
+      );
+    }
 
-    const file = form.get("cotizacionFile");
-    if (file instanceof File) {
-      const fileValidation = validateFile(file);
-      if (!fileValidation.valid) {
-        return createErrorResponse(fileValidation.error!, 400);
+    // El cliente enlazado debe existir en el directorio
+    if (changes.customer_id && changes.customer_id !== existing.customer_id) {
+      const customer = await getCustomerRepository().getById(changes.customer_id);
+      if (!customer) {
+        return createValidationErrorResponse({ customer_id: CUSTOMER_NOT_FOUND_MESSAGE });
       }
+    }
 
-      const ext = (file.name.split(".").pop() || "bin").toLowerCase();
-      const year = new Date().getFullYear();
-      const fileName = `${crypto.randomUUID()}.${ext}`;
-      const path = `${year}/${fileName}`;
-
-      const arrayBuffer = await file.arrayBuffer();
-      const bytes = new Uint8Array(arrayBuffer);
-
-      const { error: uploadError } = await supabase.storage
-        .from("cotizaciones")
-        .upload(path, bytes, {
-          contentType: file.type || "application/octet-stream",
-          upsert: false,
-        });
-
-      if (uploadError) {
-        return handleError(uploadError, "Error subiendo cotización");
+    // El total (costo final + componentes) no puede quedar por debajo de lo ya pagado
+    if (changes.costo_final !== undefined) {
+      const { balance } = await getLedger(existing);
+      if (serviceTotal({ ...existing, costo_final: changes.costo_final }) < balance.total_pagado) {
+        return createValidationErrorResponse({ costo_final: COSTO_BELOW_PAID_MESSAGE });
       }
-
-      const { data } = supabase.storage.from("cotizaciones").getPublicUrl(path);
-      cotizacion_url = data.publicUrl;
-
-      // (Opcional) borrar archivo anterior: lo dejamos para después
     }
 
-    // ✅ 8. ACTUALIZAR SERVICIO
-    const { data: updated, error: updateError } = await supabase
-      .from("services")
-      .update({
-        cliente,
-        telefono,
-        maquina,
-        fecha,
-        hora,
-        estado,
-        descripcion,
-        material,
-        agente,
-        almacen,
-        prioridad,
-        cotizacion_url,
-        abono,
-        costo_final,
-        abono_pagado,
-        costo_final_pagado,
-      })
-      .eq("code", existing.code)
-      .select("*")
-      .single();
-
-    if (updateError) {
+    // ✅ 7. ACTUALIZAR SERVICIO
+    let updated;
+    try {
+      // La fecha de entrega se recalcula si cambia la recepción o la prioridad
+      const fecha_entrega =
+        changes.fecha !== undefined || changes.hora !== undefined || changes.prioridad !== undefined
+          ? computeFechaEntrega({ ...existing, ...changes })
+          : existing.fecha_entrega ?? null;
+      updated = await services.update(existing.code, {
+        ...changes,
+        fecha_entrega,
+        ...(cotizacion !== undefined && { cotizacion }),
+      });
+      // Los montos pueden cambiar qué está pagado según el libro de pagos
+      updated = (await syncPaymentFlags(updated)).service;
+    } catch (updateError) {
       return handleError(updateError, "Error actualizando servicio");
     }
 
+    // ✅ 8. AUDITORÍA (solo si algo cambió)
+    const cambios = diffFields(existing, updated);
+    if (Object.keys(cambios).length > 0) {
+      await recordAudit(req, user, "actualizar", existing.code, cambios);
+    }
+
     return NextResponse.json({ service: updated }, { status: 200 });
   } catch (err: any) {
     return handleError(err, "Error procesando la solicitud");
@@ -0,0 +1,131 @@
+import { NextResponse, after } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import { getServiceRepository } from "../../../../../lib/repositories";
+import { getStatusTimeline, transitionService } from "../../../../../lib/status/workflow";
+import { allowedTransitions, statusTransitionSchema } from "../../../../../lib/schemas/status";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+import { auditActor, recordAudit } from "../../../../../lib/audit/log";
+import { notifyStatusChange } from "../../../../../lib/notifications/notify";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Historial de estados del servicio
+ *
+ * Respuesta: { estado, history: StatusHistoryEntry[], transitions: Estado[] }
+ * (`transitions`: estados a los que puede pasar desde el actual)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. HISTORIAL + TRANSICIONES PERMITIDAS
+    const { history, transitions } = await getStatusTimeline(service);
+
+    return NextResponse.json({ estado: service.estado, history, transitions }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo historial de estados");
+  }
+}
+
+/**
+ * POST → Cambiar el estado del servicio (JSON)
+ *
+ * Body: { estado, nota? }
+ * Solo se permiten las transiciones de STATUS_TRANSITIONS; "Entregado"
+ * exige saldo en cero y el retiro verificado. Responde 409 si la transición
+ * no procede. Avisa al cliente si aceptó notificaciones (lib/notifications).
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `estados.cambiar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Verificación de existencia del servicio
+ * - Transición y precondiciones validadas en el servidor
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("estados.cambiar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = statusTransitionSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 4. BUSCAR SERVICIO
+    const service = await getServiceRepository().getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 5. APLICAR TRANSICIÓN (valida flujo y precondiciones)
+    const result = await transitionService(service, parsed.data.estado, {
+      usuario: auditActor(user),
+      nota: parsed.data.nota,
+    });
+    if (!result.ok) {
+      return createErrorResponse(result.message, 409);
+    }
+
+    // ✅ 6. AUDITORÍA
+    await recordAudit(req, user, "cambiar_estado", service.code, {
+      estado: { antes: service.estado, despues: result.service.estado },
+      ...(result.entry.nota ? { nota: { antes: null, despues: result.entry.nota } } : {}),
+    });
+
+    // ✅ 7. NOTIFICACIÓN AL CLIENTE (si la autorizó), después de responder
+    const origin = new URL(req.url).origin;
+    after(() => notifyStatusChange(result.service, origin));
+
+    return NextResponse.json(
+      {
+        service: result.service,
+        entry: result.entry,
+        transitions: allowedTransitions(result.service.estado),
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    return handleError(err, "Error cambiando estado");
+  }
+}
@@ -0,0 +1,159 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import { getServiceRepository, getWarrantyRepository } from "../../../../../lib/repositories";
+import { ensureWarranty, warrantyCoverage } from "../../../../../lib/warranty/coverage";
+import { checkWarrantyClaim, warrantyClaimService } from "../../../../../lib/warranty/claim";
+import { nextServiceCode } from "../../../../../lib/codes/generate";
+import { syncPaymentFlags } from "../../../../../lib/payments/ledger";
+import { recordInitialStatus } from "../../../../../lib/status/workflow";
+import { ensureClaim } from "../../../../../lib/claims/ticket";
+import { auditActor, diffFields, recordAudit } from "../../../../../lib/audit/log";
+import { serviceListQuerySchema } from "../../../../../lib/schemas/service";
+import { warrantyClaimSchema, warrantyStatus } from "../../../../../lib/schemas/warranty";
+import { colombiaDateTime } from "../../../../../lib/sla/calendar";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Garantía del servicio y sus reclamos
+ *
+ * Respuesta: { garantia, estado, cobertura, reclamos: Service[] }
+ * - garantia: ServiceWarranty registrada al entregar (la del original si
+ *   el servicio es un reclamo); los entregados antes de existir las
+ *   garantías la reciben al consultarla
+ * - estado: { vigente, dias_restantes } (null sin garantía registrada)
+ * - cobertura: la que aplicará al entregarlo (null si ya está registrada)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ */
+export async function GET(_req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    const services = getServiceRepository();
+    const service = await services.getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. GARANTÍA (propia o del servicio original) Y VENCIMIENTO
+    const garantia =
+      service.estado === "Entregado" && !service.garantia_de
+        ? await ensureWarranty(service)
+        : await getWarrantyRepository().getByServiceCode(service.garantia_de ?? service.code);
+    const estado = garantia ? warrantyStatus(garantia, colombiaDateTime().fecha) : null;
+    const cobertura = garantia ? null : await warrantyCoverage(service);
+
+    // ✅ 5. RECLAMOS ABIERTOS SOBRE ESTE SERVICIO
+    const reclamos = service.garantia_de
+      ? []
+      : await services.list(serviceListQuerySchema.parse({ garantia_de: service.code, order: "created_at.asc" }));
+
+    return NextResponse.json({ garantia, estado, cobertura, reclamos }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo la garantía");
+  }
+}
+
+/**
+ * POST → Reclamar la garantía (JSON)
+ *
+ * Body: { motivo }
+ * Abre un servicio nuevo enlazado al original (`garantia_de`), en estado
+ * "Garantía", con costo cero y los datos del cliente y de la pieza.
+ * Responde 409 si el servicio no está entregado, ya es un reclamo o la
+ * garantía venció.
+ *
+ * Respuesta: 201 { service: Service (el reclamo), garantia: ServiceWarranty }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `garantias.reclamar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Vencimiento de la garantía validado en el servidor
+ * - Auditoría del servicio creado
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("garantias.reclamar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = warrantyClaimSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 4. BUSCAR SERVICIO
+    const services = getServiceRepository();
+    const service = await services.getByCode(code);
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 5. VERIFICAR ENTREGA Y VENCIMIENTO DE LA GARANTÍA
+    const check = await checkWarrantyClaim(service);
+    if (!check.ok) {
+      return createErrorResponse(check.message, 409);
+    }
+
+    // ✅ 6. CREAR EL SERVICIO DEL RECLAMO (código consecutivo, costo cero)
+    let created;
+    try {
+      created = await services.create({
+        ...warrantyClaimService(service, parsed.data.motivo),
+        code: await nextServiceCode(service.almacen),
+      });
+      created = (await syncPaymentFlags(created)).service;
+    } catch (insertError) {
+      return handleError(insertError, "Error creando el servicio de garantía");
+    }
+
+    // ✅ 7. ESTADO INICIAL Y TIQUETE DE RETIRO (como cualquier servicio nuevo)
+    try {
+      await recordInitialStatus(created, auditActor(user));
+      await ensureClaim(created.code);
+    } catch (statusError) {
+      return handleError(statusError, "Error registrando el servicio de garantía");
+    }
+
+    // ✅ 8. AUDITORÍA
+    await recordAudit(req, user, "crear", created.code, diffFields(null, created));
+
+    return NextResponse.json({ service: created, garantia: check.warranty }, { status: 201 });
+  } catch (err) {
+    return handleError(err, "Error reclamando la garantía");
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import { handleError, createErrorResponse } from "../../../utils/errors";
+import { readServiceCode, type RouteContext } from "../../../utils/params";
+import { getServiceRepository } from "../../../../../lib/repositories";
+import { loadInvoiceData } from "../../../../../lib/pdf/invoiceData";
+import { renderInvoicePdf } from "../../../../../lib/pdf/invoice";
+import { recordAudit } from "../../../../../lib/audit/log";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Orden de trabajo del taller (PDF media carta)
+ *
+ * Documento interno: descripción, material, pesos, piedras, fotos de
+ * referencia, fecha de entrega y firmas. No incluye precios ni pagos.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `ordenes.imprimir` (lib/roles/permissions)
+ * - Validación del parámetro code
+ * - Manejo seguro de errores
+ * - Auditoría de cada impresión
+ */
+export async function GET(req: Request, context: RouteContext<{ code: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("ordenes.imprimir");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO CODE
+    const code = await readServiceCode(context);
+    if (code instanceof NextResponse) return code;
+
+    // ✅ 3. BUSCAR SERVICIO
+    let service;
+    try {
+      service = await getServiceRepository().getByCode(code);
+    } catch (error) {
+      return handleError(error, "Error obteniendo servicio");
+    }
+
+    if (!service) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    // ✅ 4. DATOS DEL DOCUMENTO (incluye las fotos de referencia)
+    let data;
+    try {
+      data = await loadInvoiceData(service, { photos: true });
+    } catch (error) {
+      return handleError(error, "Error obteniendo los datos de la orden de trabajo");
+    }
+
+    // ✅ 5. GENERAR PDF
+    let pdfBuffer: Buffer;
+    try {
+      pdfBuffer = await renderInvoicePdf(data, "orden-taller", "letter");
+    } catch (error) {
+      return handleError(error, "Error cargando recursos del PDF");
+    }
+
+    // ✅ 6. AUDITORÍA (impresión)
+    await recordAudit(req, user, "imprimir_orden", service.code);
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${service.code}-orden.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    return handleError(err, "Error generando la orden de trabajo");
+  }
+}
@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "./route";
+import { GET as GET_ONE, PUT } from "./[code]/route";
+import {
+  createMemoryClaimRepository,
+  createMemoryPaymentRepository,
+  createMemoryServiceRepository,
+  createMemoryUserRoleRepository,
+  getPaymentRepository,
+  getServiceRepository,
+  setClaimRepository,
+  setPaymentRepository,
+  setServiceRepository,
+  setUserRoleRepository,
+} from "../../../lib/repositories";
+import { COSTO_BELOW_PAID_MESSAGE } from "../../../lib/schemas/payment";
+import { INITIAL_ESTADO_MESSAGE, serviceListQuerySchema } from "../../../lib/schemas/service";
+import type { Role } from "../../../lib/schemas/role";
+import { serviceForm } from "../../../tests/fixtures";
+
+// Sesión de Supabase Auth: siempre el mismo usuario; el rol sale de user_roles
+vi.mock("../../../lib/supabase/server", () => ({
+  createSupabaseServerClient: async () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1", email: "ana@taller.co" } }, error: null }),
+    },
+  }),
+}));
+
+function asRole(role: Role) {
+  setUserRoleRepository(createMemoryUserRoleRepository([], role));
+}
+
+const params = (code: string) => ({ params: { code } });
+
+function createService(overrides: Record<string, string> = {}) {
+  return POST(new Request("http://test/api/services", { method: "POST", body: serviceForm(overrides) }));
+}
+
+describe("API /api/services (repositorios en memoria)", () => {
+  beforeEach(() => {
+    setServiceRepository(createMemoryServiceRepository());
+    setPaymentRepository(createMemoryPaymentRepository());
+    asRole("admin");
+  });
+
+  it("crea el servicio con código, fecha de entrega y pagos iniciales", async () => {
+    const res = await createService({ abono_pagado: "true" });
+    expect(res.status).toBe(201);
+
+    const { service } = await res.json();
+    expect(service.code).toBeTruthy();
+    expect(service.fecha_entrega).toBeTruthy();
+    expect(service.abono_pagado).toBe(true);
+    expect(service.costo_final_pagado).toBe(false);
+    expect(service.saldo).toBe(80_000);
+
+    const payments = await getPaymentRepository().listByService(service.code);
+    expect(payments.map((p) => p.monto)).toEqual([20_000]);
+  });
+
+  it("responde errores por campo", async () => {
+    const res = await createService({ abono: "150000" });
+    expect(res.status).toBe(400);
+    const json = await res.json();
+    expect(json.fields.abono).toBeTruthy();
+  });
+
+  it("no registra servicios nuevos en Garantía ni Entregado", async () => {
+    for (const estado of ["Garantía", "Entregado"]) {
+      const res = await createService({ estado });
+      expect(res.status).toBe(400);
+      expect((await res.json()).fields.estado).toBe(INITIAL_ESTADO_MESSAGE);
+    }
+  });
+
+  it("lista y obtiene el servicio creado", async () => {
+    const { service } = await (await createService()).json();
+
+    const list = await (await GET(new Request("http://test/api/services?q=ana"))).json();
+    expect(JSON.stringify(list)).toContain(service.code);
+
+    const res = await GET_ONE(new Request(`http://test/api/services/${service.code}`), params(service.code.toLowerCase()));
+    expect(res.status).toBe(200);
+    expect((await res.json()).service.code).toBe(service.code);
+  });
+
+  it("no deja bajar el costo final por debajo de lo pagado", async () => {
+    const { service } = await (await createService({ costo_final_pagado: "true" })).json();
+
+    const form = new FormData();
+    form.set("costo_final", "50000");
+    const res = await PUT(new Request(`http://test/api/services/${service.code}`, { method: "PUT", body: form }), params(service.code));
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields.costo_final).toBe(COSTO_BELOW_PAID_MESSAGE);
+  });
+
+  it("si un paso después del alta falla, no queda el servicio a medias", async () => {
+    setClaimRepository({
+      ...createMemoryClaimRepository(),
+      create: async () => {
+        throw new Error("Sin conexión");
+      },
+    });
+    const res = await createService({ abono_pagado: "true" });
+    setClaimRepository(null);
+
+    expect(res.status).toBe(500);
+    expect(await getServiceRepository().list(serviceListQuerySchema.parse({}))).toEqual([]);
+    expect(await getServiceRepository().listDeleted({ limit: 10, offset: 0 })).toEqual([]);
+  });
+
+  it("exige el permiso de la matriz de roles", async () => {
+    asRole("consulta");
+    const res = await createService();
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,151 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../middleware/auth";
+import { readCodesBody } from "../../utils/validators";
+import { handleError, createValidationErrorResponse } from "../../utils/errors";
+import { getServiceRepository } from "../../../../lib/repositories";
+import { purgeDate, purgeExpiredTrash, purgeServices, retentionDays } from "../../../../lib/trash/purge";
+import { diffFields, recordAudit } from "../../../../lib/audit/log";
+import { trashListQuerySchema } from "../../../../lib/schemas/service";
+import { toFieldErrors } from "../../../../lib/schemas/fieldErrors";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Servicios en la papelera
+ *
+ * Antes de listar purga los que superaron la retención.
+ * Respuesta: { services: (Service & { purga_en })[], retencion_dias }
+ * - limit=number (default 200, max 500), offset=number
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `papelera.gestionar` (lib/roles/permissions)
+ * - Validación de parámetros de consulta
+ * - Manejo seguro de errores
+ */
+export async function GET(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("papelera.gestionar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETROS DE CONSULTA
+    const url = new URL(req.url);
+    const parsed = trashListQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 3. PURGAR VENCIDOS Y LISTAR
+    const dias = retentionDays();
+    let data;
+    try {
+      await purgeExpiredTrash();
+      data = await getServiceRepository().listDeleted(parsed.data);
+    } catch (error) {
+      return handleError(error, "Error obteniendo la papelera");
+    }
+
+    const services = data.map((s) => ({ ...s, purga_en: purgeDate(s.deleted_at!, dias) }));
+    return NextResponse.json({ services, retencion_dias: dias }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error procesando la solicitud");
+  }
+}
+
+/**
+ * POST → Restaurar servicios de la papelera
+ *
+ * Body: { codes: string[] }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `papelera.gestionar` (lib/roles/permissions)
+ * - Validación de entrada (array de códigos, máximo 100)
+ * - Auditoría de cada servicio restaurado
+ * - Manejo seguro de errores
+ */
+export async function POST(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("papelera.gestionar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR ENTRADA
+    const codes = await readCodesBody(req, "restaurar");
+    if (codes instanceof NextResponse) return codes;
+
+    // ✅ 3. RESTAURAR (se guarda una copia para la auditoría)
+    let snapshots;
+    let restored;
+    try {
+      const services = getServiceRepository();
+      snapshots = await services.listDeleted({ codes, limit: codes.length, offset: 0 });
+      restored = await services.restoreMany(codes);
+    } catch (error) {
+      return handleError(error, "Error restaurando servicios");
+    }
+
+    // ✅ 4. AUDITORÍA
+    for (const service of restored) {
+      const before = snapshots.find((s) => s.code === service.code) ?? null;
+      await recordAudit(req, user, "restaurar", service.code, {
+        deleted_at: { antes: before?.deleted_at ?? null, despues: null },
+        deleted_by: { antes: before?.deleted_by ?? null, despues: null },
+      });
+    }
+
+    return NextResponse.json({ ok: true, restored: restored.length }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error procesando la solicitud");
+  }
+}
+
+/**
+ * DELETE → Eliminar definitivamente servicios de la papelera
+ *
+ * Body: { codes: string[] }
+ * Respuesta: { ok, deleted, bloqueados: { code, motivo }[] }
+ * (no se eliminan los servicios con factura electrónica, número de factura o pagos)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `papelera.gestionar` (lib/roles/permissions)
+ * - Validación de entrada (array de códigos, máximo 100)
+ * - Solo se eliminan servicios que ya están en la papelera
+ * - Auditoría con el contenido de cada servicio eliminado
+ * - Manejo seguro de errores
+ */
+export async function DELETE(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("papelera.gestionar");
+    if (auth instanceof NextResponse) return auth;
+    const { user } = auth;
+
+    // ✅ 2. VALIDAR ENTRADA
+    const codes = await readCodesBody(req, "eliminar");
+    if (codes instanceof NextResponse) return codes;
+
+    // ✅ 3. ELIMINAR DEFINITIVAMENTE
+    let result;
+    try {
+      result = await purgeServices(codes);
+    } catch (error) {
+      return handleError(error, "Error eliminando servicios");
+    }
+
+    // ✅ 4. AUDITORÍA
+    for (const service of result.purgados) {
+      await recordAudit(req, user, "purgar", service.code, diffFields(service, null));
+    }
+
+    return NextResponse.json(
+      { ok: true, deleted: result.purgados.length, bloqueados: result.bloqueados },
+      { status: 200 }
+    );
+  } catch (err) {
+    return handleError(err, "Error procesando la solicitud");
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../middleware/auth";
+import { handleError, createErrorResponse } from "../../utils/errors";
+import { getCompanySettings, loadCompanyLogo } from "../../../../lib/settings/company";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Logo de la empresa (el configurado o el de /public)
+ *
+ * El bucket `branding` es privado: la imagen se sirve a través de la API.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `servicios.ver` (lib/roles/permissions)
+ * - Manejo seguro de errores
+ */
+export async function GET() {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("servicios.ver");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. LEER LOGO
+    const logo = await loadCompanyLogo(await getCompanySettings());
+    if (!logo) {
+      return createErrorResponse("No hay logo configurado", 404);
+    }
+
+    return new NextResponse(new Uint8Array(logo.bytes), {
+      status: 200,
+      headers: {
+        "Content-Type": logo.contentType,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    return handleError(err, "Error obteniendo el logo");
+  }
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, PUT } from "./route";
+import {
+  createMemorySettingsRepository,
+  createMemoryUserRoleRepository,
+  getSettingsRepository,
+  setSettingsRepository,
+  setUserRoleRepository,
+} from "../../../lib/repositories";
+import { DEFAULT_COMPANY_SETTINGS } from "../../../lib/schemas/settings";
+import { companyHeaderLines } from "../../../lib/settings/company";
+import type { Role } from "../../../lib/schemas/role";
+
+vi.mock("../../../lib/supabase/server", () => ({
+  createSupabaseServerClient: async () => ({
+    auth: {
+      getUser: async () => ({ data: { user: { id: "user-1", email: "ana@taller.co" } }, error: null }),
+    },
+  }),
+}));
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+
+function settingsForm(overrides: Record<string, string | File> = {}) {
+  const form = new FormData();
+  const fields: Record<string, string | File> = {
+    razon_social: "Joyería Briolete S.A.S.",
+    nombre_comercial: "Briolete",
+    nit: "900123456-7",
+    direcciones: "Cra 45c # 38b sur - 64\r\n\r\nEnvigado (Antioquia)",
+    telefonos: "604 444 0000",
+    redes: "@joyeriabriolete",
+    email: "",
+    garantia_dias: "60",
+    ...overrides,
+  };
+  for (const [key, value] of Object.entries(fields)) form.set(key, value);
+  return form;
+}
+
+function save(role: Role, form: FormData) {
+  setUserRoleRepository(createMemoryUserRoleRepository([], role));
+  return PUT(new Request("http://test/api/settings", { method: "PUT", body: form }));
+}
+
+describe("/api/settings", () => {
+  beforeEach(() => {
+    setSettingsRepository(createMemorySettingsRepository());
+  });
+
+  it("sin configuración guardada responde los valores por defecto", async () => {
+    setUserRoleRepository(createMemoryUserRoleRepository([], "admin"));
+    const res = await GET();
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).settings).toEqual(DEFAULT_COMPANY_SETTINGS);
+  });
+
+  it("solo un administrador cambia la configuración", async () => {
+    expect((await save("vendedor", settingsForm())).status).toBe(403);
+    expect(await getSettingsRepository().get()).toBeNull();
+  });
+
+  it("guarda una entrada por línea y arma el encabezado de los documentos", async () => {
+    const res = await save("admin", settingsForm());
+
+    expect(res.status).toBe(200);
+    const { settings } = await res.json();
+    expect(settings).toMatchObject({
+      direcciones: ["Cra 45c # 38b sur - 64", "Envigado (Antioquia)"],
+      email: null,
+      garantia_dias: 60,
+      logo_path: null,
+    });
+    expect(companyHeaderLines(settings)).toEqual([
+      "NIT 900123456-7",
+      "Cra 45c # 38b sur - 64",
+      "Envigado (Antioquia)",
+      "Tel. 604 444 0000",
+      "@joyeriabriolete",
+    ]);
+  });
+
+  it("devuelve los errores por campo", async () => {
+    const res = await save("admin", settingsForm({ razon_social: "", garantia_dias: "-1" }));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).fields).toEqual({
+      razon_social: "Razón social es requerido",
+      garantia_dias: "Días de garantía no puede ser negativo",
+    });
+  });
+
+  it("revisa el logo por su contenido, no por el nombre", async () => {
+    const fake = new File(["<svg onload=alert(1)>"], "logo.png", { type: "image/png" });
+    expect((await save("admin", settingsForm({ logoFile: fake }))).status).toBe(400);
+
+    const logo = new File([PNG_BYTES], "logo.png", { type: "image/png" });
+    const saved = await (await save("admin", settingsForm({ logoFile: logo }))).json();
+    expect(saved.settings.logo_path).toMatch(/^logo\/.+\.png$/);
+
+    // Sin archivo nuevo se conserva; quitar_logo vuelve al de /public
+    expect((await (await save("admin", settingsForm())).json()).settings.logo_path).toBe(saved.settings.logo_path);
+    expect((await (await save("admin", settingsForm({ quitar_logo: "true" }))).json()).settings.logo_path).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../middleware/auth";
+import { formDataFields, validateLogo } from "../utils/validators";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../utils/errors";
+import { getSettingsRepository } from "../../../lib/repositories";
+import { getCompanySettings } from "../../../lib/settings/company";
+import { companySettingsUpdateSchema } from "../../../lib/schemas/settings";
+import { toFieldErrors } from "../../../lib/schemas/fieldErrors";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Perfil de la empresa (valores por defecto si nunca se guardó)
+ *
+ * Respuesta: { settings: CompanySettings }
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `configuracion.gestionar` (lib/roles/permissions)
+ * - Manejo seguro de errores
+ */
+export async function GET() {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("configuracion.gestionar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. CONSULTAR
+    const settings = await getCompanySettings();
+
+    return NextResponse.json({ settings }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo la configuración");
+  }
+}
+
+/**
+ * PUT → Guardar el perfil de la empresa (FormData)
+ *
+ * Campos: razon_social, nombre_comercial, nit, direcciones, telefonos, redes
+ * (una entrada por línea), email, pie_legal, terminos_factura,
+ * garantia_dias y terminos_garantia (garantía general de los trabajos),
+ * logoFile (PNG/JPG, opcional), quitar_logo=true (vuelve al logo por defecto)
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `configuracion.gestionar` (lib/roles/permissions)
+ * - Validación de los campos (errores por campo en `fields`)
+ * - Validación del logo (tipo por su contenido y tamaño)
+ * - Manejo seguro de errores
+ */
+export async function PUT(req: Request) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("configuracion.gestionar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. LEER Y VALIDAR FORM DATA
+    const form = await req.formData();
+    const parsed = companySettingsUpdateSchema.safeParse(formDataFields(form));
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+    const { quitar_logo, ...fields } = parsed.data;
+
+    const settingsRepo = getSettingsRepository();
+    const current = await getCompanySettings();
+
+    // ✅ 3. VALIDAR Y SUBIR LOGO (si existe)
+    let logo_path = quitar_logo ? null : current.logo_path;
+
+    const file = form.get("logoFile");
+    if (file instanceof File && file.size > 0) {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const logoValidation = validateLogo(file, bytes);
+      if (!logoValidation.valid) {
+        return createErrorResponse(logoValidation.error, 400);
+      }
+
+      const { contentType, ext } = logoValidation.type;
+      try {
+        logo_path = await settingsRepo.uploadLogo({ bytes, contentType, ext });
+      } catch (uploadError) {
+        return handleError(uploadError, "Error subiendo el logo");
+      }
+    }
+
+    // ✅ 4. GUARDAR
+    const settings = await settingsRepo.save({ ...fields, logo_path });
+
+    return NextResponse.json({ settings }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error guardando la configuración");
+  }
+}
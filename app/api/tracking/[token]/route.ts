@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { handleError, createErrorResponse } from "../../utils/errors";
+import type { RouteContext } from "../../utils/params";
+import { getPublicTracking } from "../../../../lib/claims/tracking";
+import { createRateLimiter, rateLimitKey } from "../../../../lib/security/rateLimit";
+
+export const runtime = "nodejs";
+
+/** Consultas por IP cada 10 minutos */
+const trackingLimiter = createRateLimiter({ limit: 30, windowMs: 10 * 60 * 1000 });
+
+/**
+ * GET → Seguimiento público del servicio (página `/seguimiento/[token]`)
+ *
+ * Respuesta: { tracking: { code, estado, fecha_entrega, costo_final, saldo, tienda } }
+ * El token es el del QR del tiquete de retiro; no se puede adivinar.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Sin autenticación (el token es la credencial)
+ * - Límite de consultas por IP del proxy de confianza, no la del cliente (429 con Retry-After)
+ * - Validación del formato del token antes de consultar
+ * - Solo campos públicos (sin agente, almacén ni datos del cliente)
+ * - Token desconocido y servicio en papelera responden igual (404)
+ * - Manejo seguro de errores
+ */
+export async function GET(req: Request, context: RouteContext<{ token: string }>) {
+  try {
+    // ✅ 1. LÍMITE DE CONSULTAS
+    const limit = trackingLimiter.check(rateLimitKey(req));
+    if (!limit.ok) {
+      return NextResponse.json(
+        { error: "Demasiadas consultas. Intenta de nuevo en unos minutos." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    // ✅ 2. BUSCAR SERVICIO POR TOKEN
+    const params = await Promise.resolve(context.params);
+    const tracking = await getPublicTracking(String(params?.token ?? "").trim());
+    if (!tracking) {
+      return createErrorResponse("Servicio no encontrado", 404);
+    }
+
+    return NextResponse.json(
+      { tracking },
+      { status: 200, headers: { "Cache-Control": "no-store", "X-Robots-Tag": "noindex" } }
+    );
+  } catch (err) {
+    return handleError(err, "Error consultando el servicio");
+  }
+}
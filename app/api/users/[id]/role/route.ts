@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../../../middleware/auth";
+import {
+  handleError,
+  createErrorResponse,
+  createValidationErrorResponse,
+} from "../../../utils/errors";
+import { readIdParam, type RouteContext } from "../../../utils/params";
+import { getUserRoleRepository } from "../../../../../lib/repositories";
+import { LAST_ADMIN_MESSAGE, userRoleUpdateSchema } from "../../../../../lib/schemas/role";
+import { toFieldErrors } from "../../../../../lib/schemas/fieldErrors";
+
+export const runtime = "nodejs";
+
+/**
+ * PUT → Cambiar el rol de un empleado (JSON)
+ *
+ * Body: { role: "admin" | "vendedor" | "taller" | "consulta" }
+ * Responde 409 si el cambio dejaría la tienda sin administradores.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `usuarios.gestionar` (lib/roles/permissions)
+ * - Validación del body (errores por campo en `fields`)
+ * - Manejo seguro de errores
+ */
+export async function PUT(req: Request, context: RouteContext<{ id: string }>) {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("usuarios.gestionar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. VALIDAR PARÁMETRO ID
+    const id = await readIdParam(context, "Usuario inválido");
+    if (id instanceof NextResponse) return id;
+
+    // ✅ 3. VALIDAR BODY
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return createErrorResponse("Body inválido. Se espera JSON", 400);
+    }
+
+    const parsed = userRoleUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return createValidationErrorResponse(toFieldErrors(parsed.error));
+    }
+
+    // ✅ 4. VERIFICAR QUE EL USUARIO EXISTA Y QUE QUEDE UN ADMIN
+    const roles = getUserRoleRepository();
+    const users = await roles.list();
+    const target = users.find((u) => u.user_id === id);
+    if (!target) {
+      return createErrorResponse("Usuario no encontrado", 404);
+    }
+
+    const admins = users.filter((u) => u.role === "admin");
+    if (target.role === "admin" && parsed.data.role !== "admin" && admins.length <= 1) {
+      return createErrorResponse(LAST_ADMIN_MESSAGE, 409);
+    }
+
+    // ✅ 5. GUARDAR
+    const user = await roles.setRole(id, parsed.data.role);
+
+    return NextResponse.json({ user }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error actualizando el rol");
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { requirePermission } from "../middleware/auth";
+import { handleError } from "../utils/errors";
+import { getUserRoleRepository } from "../../../lib/repositories";
+
+export const runtime = "nodejs";
+
+/**
+ * GET → Empleados con su rol (administración de usuarios)
+ *
+ * Respuesta: { users: UserRole[] }
+ * Cada usuario de Supabase Auth recibe una fila (rol "consulta") al
+ * registrarse; ver la migración de `user_roles`.
+ *
+ * ✅ SEGURIDAD IMPLEMENTADA:
+ * - Autenticación requerida
+ * - Permiso `usuarios.gestionar` (lib/roles/permissions)
+ * - Manejo seguro de errores
+ */
+export async function GET() {
+  try {
+    // ✅ 1. VERIFICAR AUTENTICACIÓN Y PERMISOS
+    const auth = await requirePermission("usuarios.gestionar");
+    if (auth instanceof NextResponse) return auth;
+
+    // ✅ 2. CONSULTAR
+    const users = await getUserRoleRepository().list();
+
+    return NextResponse.json({ users }, { status: 200 });
+  } catch (err) {
+    return handleError(err, "Error obteniendo usuarios");
+  }
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import type { FieldErrors } from "../../../lib/schemas/fieldErrors";
 
 /**
  * Maneja errores de forma segura sin exponer información sensible en producción
@@ -27,3 +28,14 @@ export function createErrorResponse(message: string, status: number = 400): Next
     { status }
   );
 }
+
+/**
+ * Crea respuesta 400 con errores por campo (validación con Zod)
+ * Formato: { error: "Datos inválidos", fields: { campo: "mensaje" } }
+ */
+export function createValidationErrorResponse(fields: FieldErrors): NextResponse {
+  return NextResponse.json(
+    { error: "Datos inválidos", fields },
+    { status: 400 }
+  );
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createErrorResponse } from "./errors";
+
+/** `context` de las rutas dinámicas (Next entrega `params` como Promise u objeto) */
+export type RouteContext<P> = { params: Promise<P> | P };
+
+const MAX_CODE_LENGTH = 100;
+
+/**
+ * Lee y valida el parámetro `code` de las rutas `/api/services/[code]/...`
+ *
+ * Uso:
+ * ```typescript
+ * const code = await readServiceCode(context);
+ * if (code instanceof NextResponse) return code; // 400
+ * ```
+ */
+export async function readServiceCode(
+  context: RouteContext<{ code: string }>
+): Promise<string | NextResponse> {
+  const params = await Promise.resolve(context.params);
+  const code = decodeURIComponent(String(params?.code ?? "")).trim();
+
+  if (!code) {
+    return createErrorResponse("Falta el parámetro code", 400);
+  }
+
+  if (code.length > MAX_CODE_LENGTH) {
+    return createErrorResponse("Código de servicio inválido", 400);
+  }
+
+  return code;
+}
+
+/**
+ * Lee y valida el parámetro `id` (uuid u otro identificador corto)
+ */
+export async function readIdParam(
+  context: RouteContext<{ id: string }>,
+  invalidMessage = "Id inválido"
+): Promise<string | NextResponse> {
+  const params = await Promise.resolve(context.params);
+  const id = decodeURIComponent(String(params?.id ?? "")).trim();
+
+  if (!id || id.length > MAX_CODE_LENGTH) {
+    return createErrorResponse(invalidMessage, 400);
+  }
+
+  return id;
+}
@@ -1,191 +1,96 @@
-/**
- * Funciones de validación para inputs de la API
- * Previene ataques de inyección y valida formato de datos
- */
-
-const MAX_STRING_LENGTH = 500;
-const MAX_DESCRIPTION_LENGTH = 2000;
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-const MAX_MONEY_VALUE = 1_000_000_000; // 1B (ajusta si necesitas más)
-const ALLOWED_FILE_TYPES = [
-  "application/pdf",
-  "image/png",
-  "image/jpeg",
-  "image/jpg",
-  "application/msword",
-  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-];
+import { NextResponse } from "next/server";
+import { createErrorResponse } from "./errors";
+import { detectFileType, type DetectedFileType } from "../../../lib/security/fileType";
 
 /**
- * Valida formato de fecha YYYY-MM-DD
+ * Funciones de validación para inputs de la API
+ * Los campos del servicio se validan con los esquemas Zod de lib/schemas;
+ * aquí quedan las utilidades de archivos y lectura de FormData.
  */
-export function validateDate(dateStr: string): { valid: boolean; error?: string } {
-  if (!dateStr || typeof dateStr !== "string") {
-    return { valid: false, error: "La fecha es requerida" };
-  }
-
-  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-  if (!dateRegex.test(dateStr)) {
-    return { valid: false, error: "Formato de fecha inválido. Debe ser YYYY-MM-DD" };
-  }
-
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) {
-    return { valid: false, error: "Fecha inválida" };
-  }
 
-  return { valid: true };
-}
+/** Máximo de servicios por operación masiva (eliminar, restaurar, purgar) */
+const MAX_BULK_CODES = 100;
 
-/**
- * Valida formato de hora HH:mm o HH:mm:ss
- */
-export function validateTime(timeStr: string): { valid: boolean; error?: string } {
-  if (!timeStr || typeof timeStr !== "string") {
-    return { valid: false, error: "La hora es requerida" };
-  }
-
-  const timeRegex = /^([0-1][0-9]|2[0-3]):[0-5][0-9](:([0-5][0-9]))?$/;
-  if (!timeRegex.test(timeStr)) {
-    return { valid: false, error: "Formato de hora inválido. Debe ser HH:mm o HH:mm:ss" };
-  }
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
-  return { valid: true };
-}
+const MAX_LOGO_SIZE = 2 * 1024 * 1024; // 2MB
 
 /**
- * Valida formato de teléfono (permite números, espacios, guiones, paréntesis, +)
+ * Valida el tamaño del archivo subido. El tipo no se toma del navegador: lo
+ * detecta inspectUpload (lib/attachments/inspect) a partir del contenido.
  */
-export function validatePhone(phone: string): { valid: boolean; error?: string } {
-  if (!phone || typeof phone !== "string") {
-    return { valid: false, error: "El teléfono es requerido" };
+export function validateFile(file: File | null): { valid: boolean; error?: string } {
+  if (!file) {
+    return { valid: true }; // Archivo es opcional
   }
 
-  if (phone.length > 50) {
-    return { valid: false, error: "El teléfono es demasiado largo" };
+  if (file.size > MAX_FILE_SIZE) {
+    return { valid: false, error: `Archivo demasiado grande. Máximo ${MAX_FILE_SIZE / 1024 / 1024}MB` };
   }
 
-  // Permite números, espacios, guiones, paréntesis, +
-  const phoneRegex = /^[0-9+\-\s()]+$/;
-  if (!phoneRegex.test(phone)) {
-    return { valid: false, error: "Formato de teléfono inválido" };
+  if (file.size === 0) {
+    return { valid: false, error: "El archivo está vacío" };
   }
 
   return { valid: true };
 }
 
 /**
- * Valida string genérico con límite de longitud
+ * Valida el logo de la empresa (se dibuja en el PDF). PDFKit solo dibuja PNG
+ * y JPEG: el tipo se detecta por el contenido, no por lo que dice el navegador.
  */
-export function validateString(
-  value: string,
-  fieldName: string,
-  maxLength: number = MAX_STRING_LENGTH,
-  required: boolean = true
-): { valid: boolean; error?: string } {
-  if (required && (!value || typeof value !== "string" || value.trim().length === 0)) {
-    return { valid: false, error: `${fieldName} es requerido` };
+export function validateLogo(
+  file: File,
+  bytes: Uint8Array
+): { valid: true; type: DetectedFileType } | { valid: false; error: string } {
+  if (file.size > MAX_LOGO_SIZE) {
+    return { valid: false, error: `Logo demasiado grande. Máximo ${MAX_LOGO_SIZE / 1024 / 1024}MB` };
   }
 
-  if (value && value.length > maxLength) {
-    return { valid: false, error: `${fieldName} es demasiado largo (máximo ${maxLength} caracteres)` };
+  const type = detectFileType(bytes);
+  if (type?.kind !== "image") {
+    return { valid: false, error: "Tipo de logo no permitido. Permitidos: PNG, JPG" };
   }
 
-  return { valid: true };
+  return { valid: true, type };
 }
 
 /**
- * Valida estado del servicio
+ * Extrae los campos de texto de un FormData (ignora archivos)
+ * para validarlos con un esquema Zod.
  */
-export function validateEstado(estado: string): { valid: boolean; error?: string } {
-  const validEstados = ["Pendiente", "En fabricación", "Garantía", "Entregado"];
-  if (!validEstados.includes(estado)) {
-    return { valid: false, error: `Estado inválido. Debe ser uno de: ${validEstados.join(", ")}` };
+export function formDataFields(form: FormData): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [key, value] of form.entries()) {
+    if (typeof value === "string") fields[key] = value;
   }
-  return { valid: true };
+  return fields;
 }
 
 /**
- * Valida prioridad del servicio
+ * Lee `{ codes: string[] }` del body de una operación masiva.
+ * `accion` se usa en los mensajes ("eliminar", "restaurar"...).
+ * Devuelve los códigos o la respuesta 400 lista para retornar.
  */
-export function validatePrioridad(prioridad: string): { valid: boolean; error?: string } {
-  const validPrioridades = ["24 horas", "48 horas", "72 horas", "Normal"];
-  if (!validPrioridades.includes(prioridad)) {
-    return { valid: false, error: `Prioridad inválida. Debe ser una de: ${validPrioridades.join(", ")}` };
-  }
-  return { valid: true };
-}
+export async function readCodesBody(req: Request, accion: string): Promise<string[] | NextResponse> {
+  const body = await req.json().catch(() => ({}));
+  const codes: unknown[] = Array.isArray(body?.codes) ? body.codes : [];
 
-/**
- * Valida material del servicio
- */
-export function validateMaterial(material: string): { valid: boolean; error?: string } {
-  const validMateriales = ["Oro de 14k", "Oro 18k", "Plata 925", "Plata 950"];
-  if (!validMateriales.includes(material)) {
-    return { valid: false, error: `Material inválido. Debe ser uno de: ${validMateriales.join(", ")}` };
-  }
-  return { valid: true };
-}
-
-/**
- * Valida valores monetarios (abono / costo final).
- * Acepta números positivos (incluye decimales). Soporta "," como decimal.
- */
-export function validateMoney(
-  value: string,
-  fieldName: string,
-  required: boolean = false
-): { valid: boolean; error?: string } {
-  const raw = String(value ?? "").trim();
-  if (!raw) {
-    if (required) return { valid: false, error: `${fieldName} es requerido` };
-    return { valid: true };
-  }
-
-  const normalized = raw.replace(/\s+/g, "").replace(",", ".");
-  const num = Number(normalized);
-
-  if (!Number.isFinite(num)) {
-    return { valid: false, error: `${fieldName} debe ser un número válido` };
-  }
-  if (num < 0) {
-    return { valid: false, error: `${fieldName} no puede ser negativo` };
-  }
-  if (num > MAX_MONEY_VALUE) {
-    return { valid: false, error: `${fieldName} es demasiado alto` };
-  }
-
-  return { valid: true };
-}
-
-/**
- * Valida archivo subido
- */
-export function validateFile(file: File | null): { valid: boolean; error?: string } {
-  if (!file) {
-    return { valid: true }; // Archivo es opcional
+  if (!codes.length) {
+    return createErrorResponse(`No hay códigos para ${accion}`, 400);
   }
 
-  if (file.size > MAX_FILE_SIZE) {
-    return { valid: false, error: `Archivo demasiado grande. Máximo ${MAX_FILE_SIZE / 1024 / 1024}MB` };
+  // Prevenir operaciones masivas accidentales
+  if (codes.length > MAX_BULK_CODES) {
+    return createErrorResponse(`No se pueden ${accion} más de ${MAX_BULK_CODES} servicios a la vez`, 400);
   }
 
-  if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-    return {
-      valid: false,
-      error: `Tipo de archivo no permitido. Permitidos: PDF, PNG, JPG, DOC, DOCX`,
-    };
+  const validCodes = codes.filter(
+    (code): code is string => typeof code === "string" && code.trim().length > 0
+  );
+  if (validCodes.length !== codes.length) {
+    return createErrorResponse("Algunos códigos no son válidos", 400);
   }
 
-  return { valid: true };
-}
-
-/**
- * Sanitiza string para prevenir inyección XSS básica
- */
-export function sanitizeString(input: string): string {
-  return String(input)
-    .trim()
-    .replace(/[<>]/g, "") // Elimina < y > básicos
-    .slice(0, MAX_STRING_LENGTH);
+  return validCodes;
 }
@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import ServicesTable from "../../../../components/admin/ServicesTable";
+import CustomerForm, {
+  customerFormToBody,
+  customerToFormValues,
+  type CustomerFormValues,
+} from "../../../../components/admin/CustomerForm";
+import { DIAN_TIPOS_DOCUMENTO } from "../../../../lib/schemas/einvoice";
+import { NOTIFICATION_CANAL_LABELS } from "../../../../lib/schemas/notification";
+import type { Customer } from "../../../../lib/schemas/customer";
+import type { Service } from "../../../../lib/schemas/service";
+import type { CustomerSummary } from "../../../../lib/customers/directory";
+import { formatApiError, type FieldErrors } from "../../../../lib/schemas/fieldErrors";
+import { usePermissions } from "../../../../lib/hooks/usePermissions";
+
+function formatCOP(value: number) {
+  const v = Number(value ?? 0);
+  if (!Number.isFinite(v)) return "CO$ 0";
+  try {
+    return new Intl.NumberFormat("es-CO", {
+      style: "currency",
+      currency: "COP",
+      maximumFractionDigits: 0,
+    }).format(v);
+  } catch {
+    return `CO$ ${Math.round(v)}`;
+  }
+}
+
+type CustomerDetail = {
+  customer: Customer;
+  services: Service[];
+  resumen: CustomerSummary;
+  garantias: Service[];
+};
+
+export default function ClienteDetailPage() {
+  const params = useParams<{ id: string }>();
+  const router = useRouter();
+  const { can } = usePermissions();
+  const id = params?.id;
+
+  const [detail, setDetail] = useState<CustomerDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const [selectedCodes, setSelectedCodes] = useState<Set<string>>(new Set());
+
+  async function load() {
+    if (!id) return;
+    try {
+      setIsLoading(true);
+      setError("");
+      const res = await fetch(`/api/customers/${encodeURIComponent(id)}`, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando cliente"));
+        setDetail(null);
+        return;
+      }
+      setDetail(json);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  async function handleSave(values: CustomerFormValues) {
+    if (!detail) return;
+    try {
+      setIsSaving(true);
+      setErrors({});
+      const res = await fetch(`/api/customers/${encodeURIComponent(detail.customer.id)}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(customerFormToBody(values)),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        if (json?.fields) setErrors(json.fields);
+        else alert(formatApiError(json, "Error actualizando cliente"));
+        return;
+      }
+      setDetail((prev) => (prev ? { ...prev, customer: json.customer } : prev));
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!detail) return;
+    const ok = confirm(`¿Eliminar el cliente ${detail.customer.nombre}?`);
+    if (!ok) return;
+
+    const res = await fetch(`/api/customers/${encodeURIComponent(detail.customer.id)}`, {
+      method: "DELETE",
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      alert(formatApiError(json, "Error eliminando cliente"));
+      return;
+    }
+    router.push("/app/clientes");
+  }
+
+  function toggleRow(code: string) {
+    setSelectedCodes((prev) => {
+      const next = new Set(prev);
+      if (next.has(code)) next.delete(code);
+      else next.add(code);
+      return next;
+    });
+  }
+
+  function toggleAll() {
+    setSelectedCodes((prev) => {
+      const all = detail?.services.map((s) => s.code) ?? [];
+      const allSelected = all.length > 0 && all.every((c) => prev.has(c));
+      return allSelected ? new Set() : new Set(all);
+    });
+  }
+
+  function handleRowClick(code: string) {
+    router.push(`/app/services/${encodeURIComponent(code)}`);
+  }
+
+  if (isLoading && !detail) {
+    return <div className="text-sm text-slate-700">Cargando cliente...</div>;
+  }
+
+  if (!detail) {
+    return (
+      <div className="space-y-3">
+        <div className="text-sm text-red-600">{error || "Cliente no encontrado"}</div>
+        <button
+          onClick={() => router.push("/app/clientes")}
+          className="rounded-md border border-slate-200 bg-white px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+        >
+          Volver
+        </button>
+      </div>
+    );
+  }
+
+  const { customer, services, resumen, garantias } = detail;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <button
+          onClick={() => router.push("/app/clientes")}
+          className="text-sm font-semibold text-slate-600 hover:text-slate-900"
+        >
+          ← Clientes
+        </button>
+        {!isEditing && (
+          <div className="flex gap-2">
+            {can("clientes.editar") && (
+              <button
+                onClick={() => {
+                  setErrors({});
+                  setIsEditing(true);
+                }}
+                className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold"
+              >
+                Editar
+              </button>
+            )}
+            {can("clientes.eliminar") && (
+              <button
+                onClick={handleDelete}
+                className="rounded-md border border-red-500 text-red-600 bg-white hover:bg-red-50 px-4 py-2 text-sm font-semibold"
+              >
+                Eliminar
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white p-4 sm:p-5">
+        <div className="text-xs text-slate-500">Cliente</div>
+        <div className="text-xl sm:text-2xl font-bold text-slate-900 break-words">{customer.nombre}</div>
+
+        {isEditing ? (
+          <div className="mt-4">
+            <CustomerForm
+              initial={customerToFormValues(customer)}
+              errors={errors}
+              saving={isSaving}
+              submitLabel="Guardar"
+              onSubmit={handleSave}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        ) : (
+          <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm text-slate-700">
+            <div>
+              <span className="text-slate-500">Documento: </span>
+              {customer.tipo_documento && customer.numero_documento
+                ? `${DIAN_TIPOS_DOCUMENTO[customer.tipo_documento]} ${customer.numero_documento}`
+                : "—"}
+            </div>
+            <div>
+              <span className="text-slate-500">Teléfonos: </span>
+              {customer.telefonos.join(", ") || "—"}
+            </div>
+            <div>
+              <span className="text-slate-500">Correo: </span>
+              {customer.email ?? "—"}
+            </div>
+            <div>
+              <span className="text-slate-500">Dirección: </span>
+              {customer.direccion ?? "—"}
+            </div>
+            <div>
+              <span className="text-slate-500">Notificaciones: </span>
+              {customer.canal_notificaciones
+                ? NOTIFICATION_CANAL_LABELS[customer.canal_notificaciones]
+                : "No enviar"}
+            </div>
+            {customer.notas && (
+              <div className="sm:col-span-2 whitespace-pre-wrap">
+                <span className="text-slate-500">Notas: </span>
+                {customer.notas}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Resumen */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: "Servicios", value: String(resumen.servicios) },
+          { label: "Total facturado", value: formatCOP(resumen.total_facturado) },
+          { label: "Total pagado", value: formatCOP(resumen.total_pagado) },
+          { label: "Saldo pendiente", value: formatCOP(resumen.saldo) },
+        ].map((item) => (
+          <div key={item.label} className="rounded-lg border border-slate-200 bg-white p-4">
+            <div className="text-xs font-semibold text-slate-600">{item.label}</div>
+            <div className="mt-1 text-lg font-bold text-slate-900">{item.value}</div>
+          </div>
+        ))}
+      </div>
+
+      {garantias.length > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+          <div className="text-xs font-semibold text-amber-800">Garantías</div>
+          <ul className="mt-2 space-y-1 text-sm">
+            {garantias.map((s) => (
+              <li key={s.code}>
+                <button
+                  onClick={() => handleRowClick(s.code)}
+                  className="font-semibold text-amber-900 hover:underline"
+                >
+                  {s.code}
+                </button>
+                <span className="text-amber-800"> · {s.fecha} · {s.descripcion}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900 mb-2">Servicios</h2>
+        <ServicesTable
+          rows={services}
+          selectedCodes={selectedCodes}
+          onToggle={toggleRow}
+          onToggleAll={toggleAll}
+          onRowClick={handleRowClick}
+          currentPage={1}
+          totalPages={1}
+          totalRecords={services.length}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import CustomerForm, {
+  customerFormToBody,
+  customerToFormValues,
+  type CustomerFormValues,
+} from "../../../components/admin/CustomerForm";
+import { DIAN_TIPOS_DOCUMENTO } from "../../../lib/schemas/einvoice";
+import type { Customer } from "../../../lib/schemas/customer";
+import { formatApiError, type FieldErrors } from "../../../lib/schemas/fieldErrors";
+import { usePermissions } from "../../../lib/hooks/usePermissions";
+
+const CUSTOMERS_LIMIT = 100;
+
+export default function ClientesPage() {
+  const router = useRouter();
+  const { can } = usePermissions();
+
+  const [rows, setRows] = useState<Customer[]>([]);
+  const [search, setSearch] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [isNewOpen, setIsNewOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const debounceRef = useRef<number | null>(null);
+
+  async function loadCustomers(term: string) {
+    try {
+      setIsLoading(true);
+      const params = new URLSearchParams({ limit: String(CUSTOMERS_LIMIT) });
+      if (term.trim()) params.set("q", term.trim());
+
+      const res = await fetch(`/api/customers?${params.toString()}`, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        console.error(json?.error || "Error cargando clientes");
+        return;
+      }
+      setRows(json.customers ?? []);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Búsqueda con debounce
+  useEffect(() => {
+    if (debounceRef.current) window.clearTimeout(debounceRef.current);
+    debounceRef.current = window.setTimeout(() => loadCustomers(search), 300);
+    return () => {
+      if (debounceRef.current) window.clearTimeout(debounceRef.current);
+    };
+  }, [search]);
+
+  async function handleCreate(values: CustomerFormValues) {
+    try {
+      setIsSaving(true);
+      setErrors({});
+      const res = await fetch("/api/customers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(customerFormToBody(values)),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        if (json?.fields) setErrors(json.fields);
+        else alert(formatApiError(json, "Error creando cliente"));
+        return;
+      }
+      setIsNewOpen(false);
+      router.push(`/app/clientes/${encodeURIComponent(json.customer.id)}`);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <h1 className="text-2xl font-bold text-slate-900">Clientes</h1>
+        <div className="flex gap-2">
+          <input
+            className="w-full sm:w-72 rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Buscar por nombre, documento o teléfono"
+          />
+          {can("clientes.editar") && (
+            <button
+              onClick={() => {
+                setErrors({});
+                setIsNewOpen((v) => !v);
+              }}
+              className="shrink-0 rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold"
+            >
+              + Nuevo cliente
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isNewOpen && (
+        <div className="rounded-lg border border-slate-200 bg-white p-4 sm:p-5">
+          <div className="text-sm font-semibold text-slate-900 mb-3">Nuevo cliente</div>
+          <CustomerForm
+            initial={customerToFormValues()}
+            errors={errors}
+            saving={isSaving}
+            submitLabel="Crear cliente"
+            onSubmit={handleCreate}
+            onCancel={() => setIsNewOpen(false)}
+          />
+        </div>
+      )}
+
+      <div className="rounded-lg border border-slate-200 bg-white overflow-hidden">
+        {isLoading && rows.length === 0 ? (
+          <div className="p-4 text-sm text-slate-700">Cargando clientes...</div>
+        ) : rows.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">No hay clientes para mostrar.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs font-semibold text-slate-600">
+              <tr>
+                <th className="px-4 py-3 text-left">NOMBRE</th>
+                <th className="px-4 py-3 text-left hidden sm:table-cell">DOCUMENTO</th>
+                <th className="px-4 py-3 text-left">TELÉFONOS</th>
+                <th className="px-4 py-3 text-left hidden md:table-cell">CORREO</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.map((c) => (
+                <tr
+                  key={c.id}
+                  onClick={() => router.push(`/app/clientes/${encodeURIComponent(c.id)}`)}
+                  className="cursor-pointer hover:bg-slate-50"
+                >
+                  <td className="px-4 py-3 font-medium text-slate-900">{c.nombre}</td>
+                  <td className="px-4 py-3 text-slate-600 hidden sm:table-cell">
+                    {c.tipo_documento && c.numero_documento
+                      ? `${DIAN_TIPOS_DOCUMENTO[c.tipo_documento]} ${c.numero_documento}`
+                      : "—"}
+                  </td>
+                  <td className="px-4 py-3 text-slate-600">{c.telefonos.join(", ") || "—"}</td>
+                  <td className="px-4 py-3 text-slate-600 hidden md:table-cell">{c.email ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
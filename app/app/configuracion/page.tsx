@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import type { CompanySettings } from "../../../lib/schemas/settings";
+import { formatApiError, type FieldErrors } from "../../../lib/schemas/fieldErrors";
+
+type SettingsFormValues = {
+  razon_social: string;
+  nombre_comercial: string;
+  nit: string;
+  direcciones: string;
+  telefonos: string;
+  redes: string;
+  email: string;
+  pie_legal: string;
+  terminos_factura: string;
+  garantia_dias: string;
+  terminos_garantia: string;
+};
+
+const EMPTY_FORM: SettingsFormValues = {
+  razon_social: "",
+  nombre_comercial: "",
+  nit: "",
+  direcciones: "",
+  telefonos: "",
+  redes: "",
+  email: "",
+  pie_legal: "",
+  terminos_factura: "",
+  garantia_dias: "",
+  terminos_garantia: "",
+};
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/** Las listas se editan una entrada por línea */
+function settingsToFormValues(s: CompanySettings): SettingsFormValues {
+  return {
+    razon_social: s.razon_social,
+    nombre_comercial: s.nombre_comercial,
+    nit: s.nit ?? "",
+    direcciones: s.direcciones.join("\n"),
+    telefonos: s.telefonos.join("\n"),
+    redes: s.redes.join("\n"),
+    email: s.email ?? "",
+    pie_legal: s.pie_legal ?? "",
+    terminos_factura: s.terminos_factura ?? "",
+    garantia_dias: String(s.garantia_dias),
+    terminos_garantia: s.terminos_garantia ?? "",
+  };
+}
+
+export default function ConfiguracionPage() {
+  const [form, setForm] = useState<SettingsFormValues>(EMPTY_FORM);
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [hasCustomLogo, setHasCustomLogo] = useState(false);
+  const [quitarLogo, setQuitarLogo] = useState(false);
+  // Cambia al guardar para volver a pedir el logo
+  const [logoVersion, setLogoVersion] = useState(0);
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [saved, setSaved] = useState(false);
+
+  function applySettings(s: CompanySettings) {
+    setForm(settingsToFormValues(s));
+    setHasCustomLogo(Boolean(s.logo_path));
+    setLogoFile(null);
+    setQuitarLogo(false);
+    setLogoVersion((v) => v + 1);
+  }
+
+  async function loadSettings() {
+    try {
+      setIsLoading(true);
+      const res = await fetch("/api/settings", { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando la configuración"));
+        return;
+      }
+      setError("");
+      applySettings(json.settings);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSettings();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function setField<K extends keyof SettingsFormValues>(key: K, value: SettingsFormValues[K]) {
+    setForm((p) => ({ ...p, [key]: value }));
+    setSaved(false);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setIsSaving(true);
+      setErrors({});
+      setError("");
+
+      const fd = new FormData();
+      for (const [key, value] of Object.entries(form)) fd.append(key, value);
+      fd.append("quitar_logo", String(quitarLogo));
+      if (logoFile) fd.append("logoFile", logoFile);
+
+      const res = await fetch("/api/settings", { method: "PUT", body: fd });
+      const json = await res.json();
+      if (!res.ok) {
+        if (json?.fields) setErrors(json.fields);
+        setError(formatApiError(json, "Error guardando la configuración"));
+        return;
+      }
+      applySettings(json.settings);
+      setSaved(true);
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (isLoading) {
+    return <div className="text-sm text-slate-700">Cargando configuración...</div>;
+  }
+
+  const field = (key: keyof SettingsFormValues, label: string, opts?: { rows?: number; hint?: string }) => (
+    <div className={opts?.rows ? "sm:col-span-2" : undefined}>
+      <label className="text-xs font-semibold text-slate-600">{label}</label>
+      {opts?.rows ? (
+        <textarea
+          className={inputBase}
+          rows={opts.rows}
+          value={form[key]}
+          onChange={(e) => setField(key, e.target.value)}
+        />
+      ) : (
+        <input className={inputBase} value={form[key]} onChange={(e) => setField(key, e.target.value)} />
+      )}
+      {opts?.hint && <p className="mt-1 text-xs text-slate-500">{opts.hint}</p>}
+      {errors[key] && <p className="mt-1 text-xs text-red-600">{errors[key]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Configuración</h1>
+        <p className="text-sm text-slate-500">Datos de la empresa que aparecen en la factura impresa.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="rounded-lg border border-slate-200 bg-white p-4 sm:p-5 space-y-5">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {field("razon_social", "Razón social")}
+          {field("nombre_comercial", "Nombre comercial")}
+          {field("nit", "NIT")}
+          {field("email", "Correo")}
+          {field("direcciones", "Direcciones", { rows: 3, hint: "Una línea por renglón del encabezado" })}
+          {field("telefonos", "Teléfonos", { rows: 2, hint: "Uno por línea" })}
+          {field("redes", "Redes sociales", { rows: 2, hint: "Uno por línea, p. ej. @joyeria" })}
+          {field("terminos_factura", "Términos de la factura", { rows: 4 })}
+          {field("pie_legal", "Pie legal", { rows: 3 })}
+          {field("garantia_dias", "Garantía general (días)", {
+            hint: "Para los trabajos sin días de garantía propios en Tarifas",
+          })}
+          {field("terminos_garantia", "Condiciones de la garantía", { rows: 4 })}
+        </div>
+
+        <div>
+          <div className="text-xs font-semibold text-slate-600">Logo</div>
+          <div className="mt-2 flex flex-col sm:flex-row sm:items-center gap-4">
+            {!quitarLogo && (
+              <Image
+                key={logoVersion}
+                src={`/api/settings/logo?v=${logoVersion}`}
+                alt="Logo de la empresa"
+                width={160}
+                height={80}
+                unoptimized
+                className="h-20 w-auto rounded-md border border-slate-200 bg-white object-contain p-1"
+              />
+            )}
+            <div className="space-y-2">
+              <input
+                type="file"
+                accept=".png,.jpg,.jpeg"
+                className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm"
+                onChange={(e) => {
+                  setLogoFile(e.target.files?.[0] ?? null);
+                  setQuitarLogo(false);
+                  setSaved(false);
+                }}
+              />
+              {hasCustomLogo && !logoFile && (
+                <label className="flex items-center gap-2 text-xs text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={quitarLogo}
+                    onChange={(e) => {
+                      setQuitarLogo(e.target.checked);
+                      setSaved(false);
+                    }}
+                  />
+                  Usar el logo por defecto
+                </label>
+              )}
+              <p className="text-xs text-slate-500">PNG o JPG, máximo 2MB.</p>
+            </div>
+          </div>
+        </div>
+
+        {error && <div className="text-sm text-red-600 whitespace-pre-line">{error}</div>}
+        {saved && <div className="text-sm text-emerald-700">Configuración guardada.</div>}
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+          >
+            {isSaving ? "Guardando..." : "Guardar"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -2,43 +2,15 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import ServicesTable, { ServiceRow } from "../../../components/admin/ServicesTable";
-
-function formatDateDDMMYYYY(dateStr: string) {
-  const [yyyy, mm, dd] = String(dateStr).split("-");
-  if (yyyy && mm && dd) return `${dd}-${mm}-${yyyy}`;
-  return String(dateStr);
-}
-
-function mapDbToRow(s: any): ServiceRow {
-  const abono = Number(s.abono ?? 0);
-  const finalCost = Number(s.costo_final ?? 0);
-  const finalPaymentRaw = s.pago_final;
-  const finalPaymentFromDb = Number(finalPaymentRaw);
-  const finalPaymentFallback = finalCost - abono;
-  return {
-    code: s.code,
-    client: s.cliente,
-    phone: s.telefono,
-    machine: s.maquina,
-    description: s.descripcion,
-    material: s.material,
-    status: s.estado,
-    abono: Number.isFinite(abono) ? abono : 0,
-    abonoPaid: Boolean(s.abono_pagado),
-    finalCost: Number.isFinite(finalCost) ? finalCost : 0,
-    finalPaid: Boolean(s.costo_final_pagado),
-    finalPayment: Number.isFinite(finalPaymentFromDb) ? finalPaymentFromDb : (Number.isFinite(finalPaymentFallback) ? finalPaymentFallback : 0),
-    date: formatDateDDMMYYYY(s.fecha),
-  };
-}
+import ServicesTable from "../../../components/admin/ServicesTable";
+import type { Service } from "../../../lib/schemas/service";
 
 const SERVICES_PER_PAGE = 50; // Más servicios por página en historial
 
 export default function HistorialPage() {
   const router = useRouter();
 
-  const [rows, setRows] = useState<ServiceRow[]>([]);
+  const [rows, setRows] = useState<Service[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [hasMore, setHasMore] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
@@ -67,7 +39,7 @@ export default function HistorialPage() {
         return;
       }
 
-      const mapped: ServiceRow[] = (json.services ?? []).map(mapDbToRow);
+      const mapped: Service[] = json.services ?? [];
       
       if (append) {
         setRows((prev) => [...prev, ...mapped]);
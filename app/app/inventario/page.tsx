@@ -0,0 +1,470 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePermissions } from "../../../lib/hooks/usePermissions";
+import { SERVICE_MATERIALES } from "../../../lib/schemas/service";
+import { formatGrams } from "../../../lib/schemas/metal";
+import {
+  INVENTORY_MOVEMENT_TIPOS,
+  INVENTORY_MOVEMENT_TIPO_LABELS,
+  MANUAL_MOVEMENT_TIPOS,
+  type InventoryMovement,
+} from "../../../lib/schemas/inventory";
+import type { StockReport } from "../../../lib/inventory/stock";
+import { formatApiError, type FieldErrors } from "../../../lib/schemas/fieldErrors";
+
+type MovementForm = {
+  tipo: (typeof MANUAL_MOVEMENT_TIPOS)[number];
+  material: string;
+  almacen: string;
+  almacen_destino: string;
+  sentido: "entrada" | "salida";
+  gramos: string;
+  costo: string;
+  nota: string;
+};
+
+const EMPTY_FORM: MovementForm = {
+  tipo: "compra",
+  material: SERVICE_MATERIALES[0],
+  almacen: "",
+  almacen_destino: "",
+  sentido: "entrada",
+  gramos: "",
+  costo: "",
+  nota: "",
+};
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+function formatCOP(value: number) {
+  try {
+    return new Intl.NumberFormat("es-CO", {
+      style: "currency",
+      currency: "COP",
+      maximumFractionDigits: 0,
+    }).format(value);
+  } catch {
+    return `CO$ ${Math.round(value)}`;
+  }
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString("es-CO", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function InventarioPage() {
+  const { can } = usePermissions();
+
+  const [report, setReport] = useState<StockReport | null>(null);
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [filters, setFilters] = useState({ material: "", almacen: "", tipo: "" });
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const [form, setForm] = useState<MovementForm>(EMPTY_FORM);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  async function loadReport() {
+    const res = await fetch("/api/inventory", { method: "GET" });
+    const json = await res.json();
+    if (!res.ok) {
+      setError(formatApiError(json, "Error cargando inventario"));
+      return;
+    }
+    setReport(json);
+  }
+
+  async function loadMovements() {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) if (value) params.set(key, value);
+    const res = await fetch(`/api/inventory/movements?${params.toString()}`, { method: "GET" });
+    const json = await res.json();
+    if (!res.ok) {
+      setError(formatApiError(json, "Error cargando movimientos"));
+      return;
+    }
+    setMovements(json.movimientos ?? []);
+  }
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setIsLoading(true);
+        await loadReport();
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    loadMovements();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters]);
+
+  function setField<K extends keyof MovementForm>(key: K, value: MovementForm[K]) {
+    setForm((prev) => ({ ...prev, [key]: value }));
+    setErrors((prev) => ({ ...prev, [key]: "" }));
+    setSaved(false);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setErrors({});
+      setSaved(false);
+
+      const res = await fetch("/api/inventory/movements", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          tipo: form.tipo,
+          material: form.material,
+          almacen: form.almacen,
+          gramos: form.gramos,
+          nota: form.nota,
+          ...(form.tipo === "compra" && { costo: form.costo }),
+          ...(form.tipo === "ajuste" && { sentido: form.sentido }),
+          ...(form.tipo === "traslado" && { almacen_destino: form.almacen_destino }),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json?.fields ?? { _: formatApiError(json, "Error registrando movimiento") });
+        return;
+      }
+      setForm((prev) => ({ ...EMPTY_FORM, tipo: prev.tipo, material: prev.material, almacen: prev.almacen }));
+      setSaved(true);
+      await Promise.all([loadReport(), loadMovements()]);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (isLoading) {
+    return <div className="text-sm text-slate-700">Cargando inventario...</div>;
+  }
+
+  const almacenes = [...new Set((report?.existencias ?? []).map((row) => row.almacen))];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Inventario de metal</h1>
+        <p className="text-sm text-slate-500">
+          Existencias por material y almacén. El metal que pone el taller en un servicio se descuenta
+          automáticamente al guardar sus pesos.
+        </p>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {/* Alertas de stock bajo */}
+      {report && report.alertas.length > 0 && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4">
+          <div className="text-sm font-semibold text-amber-900">Stock bajo</div>
+          <ul className="mt-2 space-y-1 text-sm text-amber-900">
+            {report.alertas.map((row) => (
+              <li key={`${row.material}-${row.almacen}`}>
+                {row.material} en {row.almacen}: {formatGrams(row.gramos)}
+                {row.minimo !== null && ` (mínimo ${formatGrams(row.minimo)})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Existencias */}
+      <div className="rounded-lg border border-slate-200 bg-white p-4 sm:p-5">
+        <div className="text-sm font-semibold text-slate-900">Existencias</div>
+        {!report || report.existencias.length === 0 ? (
+          <div className="mt-3 text-sm text-slate-600">Aún no hay movimientos de inventario.</div>
+        ) : (
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3 font-semibold">MATERIAL</th>
+                  <th className="py-2 pr-3 font-semibold">ALMACÉN</th>
+                  <th className="py-2 pr-3 text-right font-semibold">EXISTENCIA</th>
+                  <th className="py-2 pr-3 text-right font-semibold">MÍNIMO</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-900">
+                {report.existencias.map((row) => (
+                  <tr key={`${row.material}-${row.almacen}`} className="border-t border-slate-100">
+                    <td className="py-2 pr-3">{row.material}</td>
+                    <td className="py-2 pr-3">{row.almacen}</td>
+                    <td className={["py-2 pr-3 text-right", row.bajo ? "font-semibold text-amber-700" : ""].join(" ")}>
+                      {formatGrams(row.gramos)}
+                    </td>
+                    <td className="py-2 pr-3 text-right text-slate-500">
+                      {row.minimo !== null ? formatGrams(row.minimo) : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="text-slate-900">
+                {report.totales.map((row) => (
+                  <tr key={row.material} className="border-t border-slate-200">
+                    <td className="py-2 pr-3 font-semibold">Total {row.material}</td>
+                    <td />
+                    <td className="py-2 pr-3 text-right font-semibold">{formatGrams(row.gramos)}</td>
+                    <td />
+                  </tr>
+                ))}
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Nuevo movimiento */}
+      {can("inventario.gestionar") && (
+        <form onSubmit={handleSubmit} className="rounded-lg border border-slate-200 bg-white p-4 sm:p-5 space-y-4">
+          <div className="text-sm font-semibold text-slate-900">Registrar movimiento</div>
+
+          <datalist id="inventario-almacenes">
+            {almacenes.map((a) => (
+              <option key={a} value={a} />
+            ))}
+          </datalist>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <label className="text-xs font-semibold text-slate-600">Tipo</label>
+              <select
+                className={inputBase}
+                value={form.tipo}
+                onChange={(e) => setField("tipo", e.target.value as MovementForm["tipo"])}
+              >
+                {MANUAL_MOVEMENT_TIPOS.map((tipo) => (
+                  <option key={tipo} value={tipo}>
+                    {INVENTORY_MOVEMENT_TIPO_LABELS[tipo]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-600">Material</label>
+              <select
+                className={inputBase}
+                value={form.material}
+                onChange={(e) => setField("material", e.target.value)}
+              >
+                {SERVICE_MATERIALES.map((m) => (
+                  <option key={m} value={m}>
+                    {m}
+                  </option>
+                ))}
+              </select>
+              {errors.material && <p className="mt-1 text-xs text-red-600">{errors.material}</p>}
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-600">
+                {form.tipo === "traslado" ? "Almacén de origen" : "Almacén"}
+              </label>
+              <input
+                className={inputBase}
+                list="inventario-almacenes"
+                value={form.almacen}
+                onChange={(e) => setField("almacen", e.target.value)}
+              />
+              {errors.almacen && <p className="mt-1 text-xs text-red-600">{errors.almacen}</p>}
+            </div>
+            {form.tipo === "traslado" && (
+              <div>
+                <label className="text-xs font-semibold text-slate-600">Almacén de destino</label>
+                <input
+                  className={inputBase}
+                  list="inventario-almacenes"
+                  value={form.almacen_destino}
+                  onChange={(e) => setField("almacen_destino", e.target.value)}
+                />
+                {errors.almacen_destino && (
+                  <p className="mt-1 text-xs text-red-600">{errors.almacen_destino}</p>
+                )}
+              </div>
+            )}
+            {form.tipo === "ajuste" && (
+              <div>
+                <label className="text-xs font-semibold text-slate-600">Sentido</label>
+                <select
+                  className={inputBase}
+                  value={form.sentido}
+                  onChange={(e) => setField("sentido", e.target.value as MovementForm["sentido"])}
+                >
+                  <option value="entrada">Entrada (sobrante)</option>
+                  <option value="salida">Salida (faltante)</option>
+                </select>
+                {errors.sentido && <p className="mt-1 text-xs text-red-600">{errors.sentido}</p>}
+              </div>
+            )}
+            <div>
+              <label className="text-xs font-semibold text-slate-600">Gramos</label>
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.01"
+                className={inputBase}
+                value={form.gramos}
+                onChange={(e) => setField("gramos", e.target.value)}
+              />
+              {errors.gramos && <p className="mt-1 text-xs text-red-600">{errors.gramos}</p>}
+            </div>
+            {form.tipo === "compra" && (
+              <div>
+                <label className="text-xs font-semibold text-slate-600">Costo total (COP)</label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="1"
+                  className={inputBase}
+                  value={form.costo}
+                  onChange={(e) => setField("costo", e.target.value)}
+                />
+                {errors.costo && <p className="mt-1 text-xs text-red-600">{errors.costo}</p>}
+              </div>
+            )}
+            <div className="sm:col-span-2">
+              <label className="text-xs font-semibold text-slate-600">
+                Nota{form.tipo === "ajuste" ? " (motivo del ajuste)" : ""}
+              </label>
+              <input className={inputBase} value={form.nota} onChange={(e) => setField("nota", e.target.value)} />
+              {errors.nota && <p className="mt-1 text-xs text-red-600">{errors.nota}</p>}
+            </div>
+          </div>
+
+          {errors._ && <div className="text-sm text-red-600">{errors._}</div>}
+          {saved && <div className="text-sm text-emerald-700">Movimiento registrado.</div>}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+            >
+              {saving ? "Guardando..." : "Registrar"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Movimientos */}
+      <div className="rounded-lg border border-slate-200 bg-white p-4 sm:p-5">
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3">
+          <div className="text-sm font-semibold text-slate-900">Movimientos</div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <select
+              className={inputBase}
+              value={filters.material}
+              onChange={(e) => setFilters((f) => ({ ...f, material: e.target.value }))}
+            >
+              <option value="">Todos los materiales</option>
+              {SERVICE_MATERIALES.map((m) => (
+                <option key={m} value={m}>
+                  {m}
+                </option>
+              ))}
+            </select>
+            <select
+              className={inputBase}
+              value={filters.almacen}
+              onChange={(e) => setFilters((f) => ({ ...f, almacen: e.target.value }))}
+            >
+              <option value="">Todos los almacenes</option>
+              {almacenes.map((a) => (
+                <option key={a} value={a}>
+                  {a}
+                </option>
+              ))}
+            </select>
+            <select
+              className={inputBase}
+              value={filters.tipo}
+              onChange={(e) => setFilters((f) => ({ ...f, tipo: e.target.value }))}
+            >
+              <option value="">Todos los tipos</option>
+              {INVENTORY_MOVEMENT_TIPOS.map((tipo) => (
+                <option key={tipo} value={tipo}>
+                  {INVENTORY_MOVEMENT_TIPO_LABELS[tipo]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {movements.length === 0 ? (
+          <div className="mt-3 text-sm text-slate-600">No hay movimientos.</div>
+        ) : (
+          <div className="mt-3 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3 font-semibold">FECHA</th>
+                  <th className="py-2 pr-3 font-semibold">TIPO</th>
+                  <th className="py-2 pr-3 font-semibold">MATERIAL</th>
+                  <th className="py-2 pr-3 font-semibold">ALMACÉN</th>
+                  <th className="py-2 pr-3 text-right font-semibold">GRAMOS</th>
+                  <th className="py-2 pr-3 font-semibold">DETALLE</th>
+                  <th className="py-2 pr-3 font-semibold">USUARIO</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-900">
+                {movements.map((m) => (
+                  <tr key={m.id} className="border-t border-slate-100 align-top">
+                    <td className="py-2 pr-3 whitespace-nowrap">{formatDateTime(m.created_at)}</td>
+                    <td className="py-2 pr-3">{INVENTORY_MOVEMENT_TIPO_LABELS[m.tipo]}</td>
+                    <td className="py-2 pr-3">{m.material}</td>
+                    <td className="py-2 pr-3">{m.almacen}</td>
+                    <td
+                      className={[
+                        "py-2 pr-3 text-right whitespace-nowrap",
+                        m.gramos < 0 ? "text-red-700" : "text-emerald-700",
+                      ].join(" ")}
+                    >
+                      {m.gramos > 0 ? "+" : ""}
+                      {formatGrams(m.gramos)}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {m.service_code && (
+                        <Link
+                          href={`/app/services/${encodeURIComponent(m.service_code)}`}
+                          className="font-semibold text-emerald-700 hover:text-emerald-800"
+                        >
+                          {m.service_code}
+                        </Link>
+                      )}
+                      {m.costo !== null && <span>{formatCOP(m.costo)}</span>}
+                      {m.nota && <div className="text-xs text-slate-500">{m.nota}</div>}
+                      {m.sobregiro && (
+                        <div className="text-xs font-semibold text-red-700">
+                          Sobregiro: superó la existencia del almacén
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-xs text-slate-500">{m.created_by ?? "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
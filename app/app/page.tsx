@@ -4,40 +4,14 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import Tabs from "../../components/admin/Tabs";
 import FiltersBar, { ServiceFilters } from "../../components/admin/FiltersBar";
-import ServicesTable, { ServiceRow } from "../../components/admin/ServicesTable";
+import ServicesTable from "../../components/admin/ServicesTable";
 import NewServiceModal, { ServiceFormData } from "../../components/admin/NewServiceModal";
+import { serviceFormToFormData, type Service } from "../../lib/schemas/service";
+import { formatApiError } from "../../lib/schemas/fieldErrors";
+import { usePermissions } from "../../lib/hooks/usePermissions";
 
 type TabKey = "servicios" | "pendientes" | "fabricacion" | "garantia" | "entregado";
 
-function formatDateDDMMYYYY(dateStr: string) {
-  const [yyyy, mm, dd] = String(dateStr).split("-");
-  if (yyyy && mm && dd) return `${dd}-${mm}-${yyyy}`;
-  return String(dateStr);
-}
-
-function mapDbToRow(s: any): ServiceRow {
-  const abono = Number(s.abono ?? 0);
-  const finalCost = Number(s.costo_final ?? 0);
-  const finalPaymentRaw = s.pago_final;
-  const finalPaymentFromDb = Number(finalPaymentRaw);
-  const finalPaymentFallback = finalCost - abono;
-  return {
-    code: s.code,
-    client: s.cliente,
-    phone: s.telefono,
-    machine: s.maquina,
-    description: s.descripcion,
-    material: s.material,
-    status: s.estado,
-    abono: Number.isFinite(abono) ? abono : 0,
-    abonoPaid: Boolean(s.abono_pagado),
-    finalCost: Number.isFinite(finalCost) ? finalCost : 0,
-    finalPaid: Boolean(s.costo_final_pagado),
-    finalPayment: Number.isFinite(finalPaymentFromDb) ? finalPaymentFromDb : (Number.isFinite(finalPaymentFallback) ? finalPaymentFallback : 0),
-    date: formatDateDDMMYYYY(s.fecha),
-  };
-}
-
 const DEFAULT_FILTERS: ServiceFilters = {
   estado: "",
   maquina: "",
@@ -50,10 +24,13 @@ const DEFAULT_FILTERS: ServiceFilters = {
   abonoMax: "",
   costoFinalMin: "",
   costoFinalMax: "",
+  vencidos: false,
+  orden: "",
 };
 
 export default function AdminHome() {
   const router = useRouter();
+  const { can } = usePermissions();
 
   const [tab, setTab] = useState<TabKey>("servicios");
   const [search, setSearch] = useState("");
@@ -61,7 +38,7 @@ export default function AdminHome() {
   const [filters, setFilters] = useState<ServiceFilters>(DEFAULT_FILTERS);
   const [showFilters, setShowFilters] = useState(false);
 
-  const [rows, setRows] = useState<ServiceRow[]>([]);
+  const [rows, setRows] = useState<Service[]>([]);
   const [isNewOpen, setIsNewOpen] = useState(false);
 
   const [isSaving, setIsSaving] = useState(false);
@@ -90,10 +67,10 @@ export default function AdminHome() {
   const counts = useMemo(() => {
     return {
       servicios: rows.length,
-      pendientes: rows.filter((r) => r.status === "Pendiente").length,
-      fabricacion: rows.filter((r) => r.status === "En fabricación").length,
-      garantia: rows.filter((r) => r.status === "Garantía").length,
-      entregado: rows.filter((r) => r.status === "Entregado").length,
+      pendientes: rows.filter((r) => r.estado === "Pendiente").length,
+      fabricacion: rows.filter((r) => r.estado === "En fabricación").length,
+      garantia: rows.filter((r) => r.estado === "Garantía").length,
+      entregado: rows.filter((r) => r.estado === "Entregado").length,
     } satisfies Record<TabKey, number>;
   }, [rows]);
 
@@ -136,6 +113,9 @@ export default function AdminHome() {
     if (cfMin) params.set("costo_final_min", cfMin);
     if (cfMax) params.set("costo_final_max", cfMax);
 
+    if (f.vencidos) params.set("vencidos", "true");
+    if (f.orden) params.set("order", f.orden);
+
     params.set("limit", "200");
     return params.toString();
   }
@@ -154,7 +134,7 @@ export default function AdminHome() {
         return;
       }
 
-      const mapped: ServiceRow[] = (json.services ?? []).map(mapDbToRow);
+      const mapped: Service[] = json.services ?? [];
       setRows(mapped);
       
       // Resetear a página 1 cuando cambian los filtros/búsqueda
@@ -192,40 +172,37 @@ export default function AdminHome() {
   }, [search, tab, filters]);
 
   async function handleCreateService(form: ServiceFormData) {
+    // La pestaña del tiquete de retiro se abre ya (dentro del clic) para que el
+    // navegador no la bloquee; se carga cuando el servicio queda creado.
+    const receiptWindow = can("retiros.gestionar") ? window.open("", "_blank") : null;
+    let receiptUrl: string | null = null;
+
     try {
       setIsSaving(true);
 
-      const fd = new FormData();
-      fd.append("cliente", form.cliente);
-      fd.append("telefono", form.telefono);
-      fd.append("maquina", form.maquina);
-      fd.append("fecha", form.fecha);
-      fd.append("hora", form.hora);
-      fd.append("estado", form.estado);
-      fd.append("descripcion", form.descripcion);
-      fd.append("material", form.material);
-      fd.append("agente", form.agente);
-      fd.append("almacen", form.almacen);
-      fd.append("prioridad", form.prioridad);
-      fd.append("abono", form.abono);
-      fd.append("costo_final", form.costoFinal);
-      fd.append("abono_pagado", String(form.abonoPagado));
-      fd.append("costo_final_pagado", String(form.costoFinalPagado));
-
-      if (form.cotizacionFile) fd.append("cotizacionFile", form.cotizacionFile);
+      const { cotizacionFile, cotizacion, ...values } = form;
+      const fd = serviceFormToFormData(values);
+      if (cotizacionFile) fd.append("cotizacionFile", cotizacionFile);
+      if (cotizacion) fd.append("cotizacion", JSON.stringify(cotizacion));
 
       const res = await fetch("/api/services", { method: "POST", body: fd });
       const json = await res.json();
 
       if (!res.ok) {
-        console.error(json?.error || "Error creando servicio");
-        alert(json?.error || "Error creando servicio");
+        const message = formatApiError(json, "Error creando servicio");
+        console.error(message);
+        alert(message);
         return;
       }
 
+      receiptUrl = `/api/services/${encodeURIComponent(json.service.code)}/claim/receipt`;
       await loadServices(search, tab, filters);
     } finally {
       setIsSaving(false);
+      if (receiptWindow) {
+        if (receiptUrl) receiptWindow.location.href = receiptUrl;
+        else receiptWindow.close();
+      }
     }
   }
 
@@ -266,7 +243,7 @@ export default function AdminHome() {
     const codes = Array.from(selectedCodes);
     if (codes.length === 0) return;
 
-    const ok = confirm(`¿Seguro que deseas eliminar ${codes.length} servicio(s)?`);
+    const ok = confirm(`¿Mover ${codes.length} servicio(s) a la papelera?`);
     if (!ok) return;
 
     try {
@@ -303,9 +280,9 @@ export default function AdminHome() {
       <FiltersBar
         search={search}
         setSearch={setSearch}
-        onNew={() => setIsNewOpen(true)}
+        onNew={can("servicios.crear") ? () => setIsNewOpen(true) : undefined}
         selectedCount={selectedCodes.size}
-        onDeleteSelected={handleDeleteSelected}
+        onDeleteSelected={can("servicios.eliminar") ? handleDeleteSelected : undefined}
         filters={filters}
         setFilters={setFilters}
         onApply={handleApplyFilters}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Service } from "../../../lib/schemas/service";
+import { formatApiError } from "../../../lib/schemas/fieldErrors";
+
+type TrashedService = Service & { purga_en: string };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatDateTime(iso: string | null | undefined) {
+  if (!iso) return "—";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("es-CO", { dateStyle: "short", timeStyle: "short" });
+}
+
+function daysUntil(iso: string) {
+  return Math.max(0, Math.ceil((new Date(iso).getTime() - Date.now()) / DAY_MS));
+}
+
+export default function PapeleraPage() {
+  const [rows, setRows] = useState<TrashedService[]>([]);
+  const [retencionDias, setRetencionDias] = useState<number | null>(null);
+  const [selectedCodes, setSelectedCodes] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function loadTrash() {
+    try {
+      setIsLoading(true);
+      const res = await fetch("/api/services/trash", { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        console.error(json?.error || "Error cargando la papelera");
+        return;
+      }
+      setRows(json.services ?? []);
+      setRetencionDias(json.retencion_dias ?? null);
+      setSelectedCodes(new Set());
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadTrash();
+  }, []);
+
+  function toggleOne(code: string) {
+    setSelectedCodes((prev) => {
+      const next = new Set(prev);
+      if (next.has(code)) next.delete(code);
+      else next.add(code);
+      return next;
+    });
+  }
+
+  function toggleAll() {
+    setSelectedCodes((prev) =>
+      rows.length > 0 && rows.every((r) => prev.has(r.code)) ? new Set() : new Set(rows.map((r) => r.code))
+    );
+  }
+
+  async function handleRestore() {
+    const codes = Array.from(selectedCodes);
+    if (codes.length === 0) return;
+
+    try {
+      setIsSaving(true);
+      const res = await fetch("/api/services/trash", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ codes }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(formatApiError(json, "Error restaurando servicios"));
+        return;
+      }
+      await loadTrash();
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handlePurge() {
+    const codes = Array.from(selectedCodes);
+    if (codes.length === 0) return;
+
+    const ok = confirm(
+      `¿Eliminar definitivamente ${codes.length} servicio(s)? Se borran también sus pagos e historial y no se puede deshacer.`
+    );
+    if (!ok) return;
+
+    try {
+      setIsSaving(true);
+      const res = await fetch("/api/services/trash", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ codes }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(formatApiError(json, "Error eliminando servicios"));
+        return;
+      }
+      const bloqueados: { code: string; motivo: string }[] = json.bloqueados ?? [];
+      if (bloqueados.length) {
+        alert(bloqueados.map((b) => `${b.code}: ${b.motivo}`).join("\n"));
+      }
+      await loadTrash();
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const allSelected = rows.length > 0 && rows.every((r) => selectedCodes.has(r.code));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Papelera</h1>
+          {retencionDias !== null && (
+            <p className="text-sm text-slate-500">
+              Los servicios se eliminan definitivamente {retencionDias} días después de enviarse a la papelera.
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleRestore}
+            disabled={isSaving || selectedCodes.size === 0}
+            className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-50"
+          >
+            Restaurar
+          </button>
+          <button
+            onClick={handlePurge}
+            disabled={isSaving || selectedCodes.size === 0}
+            className="rounded-md bg-red-500 hover:bg-red-600 text-white px-4 py-2 text-sm font-semibold disabled:opacity-50"
+          >
+            Eliminar definitivamente
+          </button>
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-slate-200 bg-white overflow-hidden">
+        {isLoading && rows.length === 0 ? (
+          <div className="p-4 text-sm text-slate-700">Cargando papelera...</div>
+        ) : rows.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">La papelera está vacía.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs font-semibold text-slate-600">
+              <tr>
+                <th className="px-4 py-3 text-left w-10">
+                  <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Seleccionar todo" />
+                </th>
+                <th className="px-4 py-3 text-left">CÓDIGO</th>
+                <th className="px-4 py-3 text-left">CLIENTE</th>
+                <th className="px-4 py-3 text-left hidden md:table-cell">ELIMINADO</th>
+                <th className="px-4 py-3 text-left hidden sm:table-cell">POR</th>
+                <th className="px-4 py-3 text-left">SE PURGA EN</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.map((s) => (
+                <tr key={s.code} onClick={() => toggleOne(s.code)} className="cursor-pointer hover:bg-slate-50">
+                  <td className="px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={selectedCodes.has(s.code)}
+                      onChange={() => toggleOne(s.code)}
+                      onClick={(e) => e.stopPropagation()}
+                      aria-label={`Seleccionar ${s.code}`}
+                    />
+                  </td>
+                  <td className="px-4 py-3 font-medium text-slate-900">{s.code}</td>
+                  <td className="px-4 py-3 text-slate-600">{s.cliente}</td>
+                  <td className="px-4 py-3 text-slate-600 hidden md:table-cell">{formatDateTime(s.deleted_at)}</td>
+                  <td className="px-4 py-3 text-slate-600 hidden sm:table-cell">{s.deleted_by ?? "—"}</td>
+                  <td className="px-4 py-3 text-slate-600">{daysUntil(s.purga_en)} días</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,38 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
 import { useParams, useRouter } from "next/navigation";
-
-type Service = {
-  id?: string;
-  code: string;
-  cliente: string;
-  telefono: string;
-  maquina: string;
-  fecha: string; // YYYY-MM-DD
-  hora: string; // HH:mm:ss o HH:mm
-  estado: "Pendiente" | "En fabricación" | "Garantía" | "Entregado";
-  descripcion: string;
-  material: string;
-  agente: string;
-  almacen: string;
-  prioridad: "24 horas" | "48 horas" | "72 horas" | "Normal";
-  abono?: number | null;
-  costo_final?: number | null;
-  pago_final?: number | null;
-  abono_pagado?: boolean | null;
-  costo_final_pagado?: boolean | null;
-  cotizacion_url: string | null;
-};
+import PaymentsPanel from "../../../../components/admin/PaymentsPanel";
+import StatusPanel from "../../../../components/admin/StatusPanel";
+import PickupPanel from "../../../../components/admin/PickupPanel";
+import ActivityPanel from "../../../../components/admin/ActivityPanel";
+import AttachmentsPanel from "../../../../components/admin/AttachmentsPanel";
+import MetalWeightsPanel from "../../../../components/admin/MetalWeightsPanel";
+import ComponentsPanel from "../../../../components/admin/ComponentsPanel";
+import WarrantyPanel from "../../../../components/admin/WarrantyPanel";
+import QuoteCalculator, { QuoteSummary } from "../../../../components/admin/QuoteCalculator";
+import NotificationsPanel from "../../../../components/admin/NotificationsPanel";
+import ElectronicInvoicePanel from "../../../../components/admin/ElectronicInvoicePanel";
+import InvoicePreviewPanel from "../../../../components/admin/InvoicePreviewPanel";
+import {
+  serviceBalance,
+  serviceFormToFormData,
+  serviceToFormValues,
+  type Service,
+  type ServiceFormValues,
+} from "../../../../lib/schemas/service";
+import { parseMoney } from "../../../../lib/schemas/fields";
+import type { QuoteRequest } from "../../../../lib/schemas/pricing";
+import { slaStatus } from "../../../../lib/sla/due";
+import { type FieldErrors } from "../../../../lib/schemas/fieldErrors";
+import { usePermissions } from "../../../../lib/hooks/usePermissions";
+import {
+  componentsLock,
+  metalWeightsLock,
+  serviceFieldLock,
+  type ServiceEditableField,
+} from "../../../../lib/roles/permissions";
 
 function formatDateDDMMYYYY(dateStr: string) {
   const [yyyy, mm, dd] = String(dateStr).split("-");
@@ -37,13 +46,14 @@ function formatTimeHHMM(timeStr: string) {
 }
 
 const inputBase =
-  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500";
 
 export default function ServiceDetailPage() {
   const router = useRouter();
   const params = useParams<{ code: string }>();
 
   const code = useMemo(() => decodeURIComponent(params.code), [params.code]);
+  const { role, can } = usePermissions();
 
   const [service, setService] = useState<Service | null>(null);
   const [loading, setLoading] = useState(true);
@@ -51,41 +61,37 @@ export default function ServiceDetailPage() {
 
   const [isEditing, setIsEditing] = useState(false);
 
-  const [form, setForm] = useState({
+  const [form, setForm] = useState<ServiceFormValues>({
+    customer_id: null,
     cliente: "",
     telefono: "",
     maquina: "",
     fecha: "",
     hora: "",
-    estado: "Pendiente" as Service["estado"],
+    estado: "Pendiente",
     descripcion: "",
     material: "",
     agente: "",
     almacen: "",
-    prioridad: "Normal" as Service["prioridad"],
+    prioridad: "Normal",
     abono: "",
-    costoFinal: "",
-    abonoPagado: false,
-    costoFinalPagado: false,
-    cotizacionFile: null as File | null,
+    costo_final: "",
   });
 
-  const [error, setError] = useState<string>("");
+  // Datos de la calculadora aplicados en esta edición (se envían como `cotizacion`)
+  const [quote, setQuote] = useState<QuoteRequest | null>(null);
 
-  const parseMoney = (v: string) => {
-    const normalized = String(v ?? "").trim().replace(/\s+/g, "").replace(",", ".");
-    if (!normalized) return 0;
-    return Number(normalized);
-  };
+  const [error, setError] = useState<string>("");
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const pagoFinalPreview = useMemo(() => {
-    if (!String(form.costoFinal ?? "").trim()) return 0;
+    if (!String(form.costo_final ?? "").trim()) return 0;
     const abonoNum = parseMoney(form.abono);
-    const finalNum = parseMoney(form.costoFinal);
+    const finalNum = parseMoney(form.costo_final);
     if (!Number.isFinite(abonoNum) || !Number.isFinite(finalNum)) return 0;
     const diff = finalNum - abonoNum;
     return Number.isFinite(diff) ? diff : 0;
-  }, [form.abono, form.costoFinal]);
+  }, [form.abono, form.costo_final]);
 
   function setField<K extends keyof typeof form>(
     key: K,
@@ -114,29 +120,19 @@ export default function ServiceDetailPage() {
       const s: Service = json.service;
       setService(s);
 
-      setForm({
-        cliente: s.cliente ?? "",
-        telefono: s.telefono ?? "",
-        maquina: s.maquina ?? "",
-        fecha: s.fecha ?? "",
-        hora: formatTimeHHMM(s.hora ?? ""),
-        estado: (s.estado as Service["estado"]) ?? "Pendiente",
-        descripcion: s.descripcion ?? "",
-        material: s.material ?? "",
-        agente: s.agente ?? "",
-        almacen: s.almacen ?? "",
-        prioridad: (s.prioridad as Service["prioridad"]) ?? "Normal",
-        abono: String(s.abono ?? ""),
-        costoFinal: String(s.costo_final ?? ""),
-        abonoPagado: Boolean(s.abono_pagado),
-        costoFinalPagado: Boolean(s.costo_final_pagado),
-        cotizacionFile: null,
-      });
+      setForm(serviceToFormValues(s));
     } finally {
       setLoading(false);
     }
   }
 
+  /** Recarga el servicio sin mostrar "Cargando" (p. ej. después de registrar un pago) */
+  async function refreshService() {
+    const res = await fetch(`/api/services/${encodeURIComponent(code)}`, { method: "GET" });
+    const json = await res.json();
+    if (res.ok) setService(json.service);
+  }
+
   useEffect(() => {
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -148,25 +144,10 @@ export default function ServiceDetailPage() {
     try {
       setSaving(true);
       setError("");
+      setFieldErrors({});
 
-      const fd = new FormData();
-      fd.append("cliente", form.cliente);
-      fd.append("telefono", form.telefono);
-      fd.append("maquina", form.maquina);
-      fd.append("fecha", form.fecha);
-      fd.append("hora", form.hora);
-      fd.append("estado", form.estado);
-      fd.append("descripcion", form.descripcion);
-      fd.append("material", form.material);
-      fd.append("agente", form.agente);
-      fd.append("almacen", form.almacen);
-      fd.append("prioridad", form.prioridad);
-      fd.append("abono", form.abono);
-      fd.append("costo_final", form.costoFinal);
-      fd.append("abono_pagado", String(form.abonoPagado));
-      fd.append("costo_final_pagado", String(form.costoFinalPagado));
-
-      if (form.cotizacionFile) fd.append("cotizacionFile", form.cotizacionFile);
+      const fd = serviceFormToFormData(form);
+      if (quote) fd.append("cotizacion", JSON.stringify(quote));
 
       const res = await fetch(`/api/services/${encodeURIComponent(code)}`, {
         method: "PUT",
@@ -177,10 +158,12 @@ export default function ServiceDetailPage() {
 
       if (!res.ok) {
         setError(json?.error || "Error actualizando servicio");
+        setFieldErrors(json?.fields ?? {});
         return;
       }
 
       setIsEditing(false);
+      setQuote(null);
       await load();
     } finally {
       setSaving(false);
@@ -191,25 +174,10 @@ export default function ServiceDetailPage() {
     if (!service) return;
 
     setIsEditing(false);
+    setFieldErrors({});
+    setQuote(null);
 
-    setForm({
-      cliente: service.cliente ?? "",
-      telefono: service.telefono ?? "",
-      maquina: service.maquina ?? "",
-      fecha: service.fecha ?? "",
-      hora: formatTimeHHMM(service.hora ?? ""),
-      estado: service.estado ?? "Pendiente",
-      descripcion: service.descripcion ?? "",
-      material: service.material ?? "",
-      agente: service.agente ?? "",
-      almacen: service.almacen ?? "",
-      prioridad: service.prioridad ?? "Normal",
-      abono: String(service.abono ?? ""),
-      costoFinal: String(service.costo_final ?? ""),
-      abonoPagado: Boolean(service.abono_pagado),
-      costoFinalPagado: Boolean(service.costo_final_pagado),
-      cotizacionFile: null,
-    });
+    setForm(serviceToFormValues(service));
   }
 
   if (loading) {
@@ -237,7 +205,18 @@ export default function ServiceDetailPage() {
   function handlePrintInvoice() {
     window.open(`/api/services/${encodeURIComponent(code)}/invoice`, "_blank");
   }
-  
+
+  function handlePrintWorkOrder() {
+    window.open(`/api/services/${encodeURIComponent(code)}/work-order`, "_blank");
+  }
+
+  const slaEstado = slaStatus(service);
+
+  /** Motivo por el que el rol no puede modificar el campo (deshabilita el input) */
+  function lockOf(field: ServiceEditableField) {
+    return role && service ? serviceFieldLock(role, service, field) : null;
+  }
+
 
   return (
     <div className="space-y-4">
@@ -256,20 +235,34 @@ export default function ServiceDetailPage() {
         <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
           {!isEditing ? (
             <>
-              <button
-                onClick={handlePrintInvoice}
-                className="rounded-md border border-slate-300 bg-white hover:bg-slate-100 text-slate-800 px-4 py-2 text-sm font-semibold flex items-center justify-center gap-2"
-              >
-                🧾 <span className="hidden sm:inline">Imprimir factura</span>
-                <span className="sm:hidden">Imprimir</span>
-              </button>
-
-              <button
-                onClick={() => setIsEditing(true)}
-                className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold"
-              >
-                Editar
-              </button>
+              {can("facturas.imprimir") && (
+                <button
+                  onClick={handlePrintInvoice}
+                  className="rounded-md border border-slate-300 bg-white hover:bg-slate-100 text-slate-800 px-4 py-2 text-sm font-semibold flex items-center justify-center gap-2"
+                >
+                  🧾 <span className="hidden sm:inline">Imprimir factura</span>
+                  <span className="sm:hidden">Imprimir</span>
+                </button>
+              )}
+
+              {can("ordenes.imprimir") && (
+                <button
+                  onClick={handlePrintWorkOrder}
+                  className="rounded-md border border-slate-300 bg-white hover:bg-slate-100 text-slate-800 px-4 py-2 text-sm font-semibold flex items-center justify-center gap-2"
+                >
+                  🛠️ <span className="hidden sm:inline">Imprimir orden de trabajo</span>
+                  <span className="sm:hidden">Orden</span>
+                </button>
+              )}
+
+              {can("servicios.editar") && (
+                <button
+                  onClick={() => setIsEditing(true)}
+                  className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold"
+                >
+                  Editar
+                </button>
+              )}
             </>
           ) : (
             <>
@@ -304,7 +297,16 @@ export default function ServiceDetailPage() {
 
             {!isEditing ? (
               <div className="text-xs sm:text-sm text-slate-600 mt-1 break-words">
-                <span className="block sm:inline">{service.cliente}</span>
+                {service.customer_id ? (
+                  <Link
+                    href={`/app/clientes/${encodeURIComponent(service.customer_id)}`}
+                    className="block sm:inline font-semibold text-emerald-700 hover:text-emerald-800"
+                  >
+                    {service.cliente}
+                  </Link>
+                ) : (
+                  <span className="block sm:inline">{service.cliente}</span>
+                )}
                 <span className="hidden sm:inline"> · </span>
                 <span className="block sm:inline">{service.telefono}</span>
                 <span className="hidden sm:inline"> · </span>
@@ -319,6 +321,8 @@ export default function ServiceDetailPage() {
                   <input
                     className={inputBase}
                     value={form.cliente}
+                    disabled={!!lockOf("cliente")}
+                    title={lockOf("cliente") ?? undefined}
                     onChange={(e) => setField("cliente", e.target.value)}
                   />
                 </div>
@@ -329,6 +333,8 @@ export default function ServiceDetailPage() {
                   <input
                     className={inputBase}
                     value={form.telefono}
+                    disabled={!!lockOf("telefono")}
+                    title={lockOf("telefono") ?? undefined}
                     onChange={(e) => setField("telefono", e.target.value)}
                   />
                 </div>
@@ -339,6 +345,8 @@ export default function ServiceDetailPage() {
                   <input
                     className={inputBase}
                     value={form.maquina}
+                    disabled={!!lockOf("maquina")}
+                    title={lockOf("maquina") ?? undefined}
                     onChange={(e) => setField("maquina", e.target.value)}
                   />
                 </div>
@@ -363,6 +371,13 @@ export default function ServiceDetailPage() {
         </div>
 
         {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+        {Object.keys(fieldErrors).length > 0 && (
+          <ul className="mt-1 list-disc pl-5 text-xs text-red-600">
+            {Object.entries(fieldErrors).map(([field, message]) => (
+              <li key={field}>{message}</li>
+            ))}
+          </ul>
+        )}
 
         {/* Fields */}
         <div className="mt-5 grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -378,6 +393,8 @@ export default function ServiceDetailPage() {
                 type="date"
                 className={inputBase}
                 value={form.fecha}
+                disabled={!!lockOf("fecha")}
+                title={lockOf("fecha") ?? undefined}
                 onChange={(e) => setField("fecha", e.target.value)}
               />
             )}
@@ -395,6 +412,8 @@ export default function ServiceDetailPage() {
                 type="time"
                 className={inputBase}
                 value={form.hora}
+                disabled={!!lockOf("hora")}
+                title={lockOf("hora") ?? undefined}
                 onChange={(e) => setField("hora", e.target.value)}
               />
             )}
@@ -406,15 +425,39 @@ export default function ServiceDetailPage() {
               Prioridad
             </div>
             {!isEditing ? (
-              <div className="text-sm font-semibold text-slate-900">
-                {service.prioridad}
-              </div>
+              <>
+                <div className="text-sm font-semibold text-slate-900">
+                  {service.prioridad}
+                </div>
+                {service.fecha_entrega && (
+                  <div className="mt-1 text-xs text-slate-600">
+                    Entrega:{" "}
+                    {new Date(service.fecha_entrega).toLocaleString("es-CO", {
+                      timeZone: "America/Bogota",
+                      dateStyle: "short",
+                      timeStyle: "short",
+                    })}
+                    {slaEstado && slaEstado !== "A tiempo" && (
+                      <span
+                        className={[
+                          "ml-2 font-semibold",
+                          slaEstado === "Vencido" ? "text-red-600" : "text-amber-700",
+                        ].join(" ")}
+                      >
+                        {slaEstado}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </>
             ) : (
               <select
                 className={inputBase}
                 value={form.prioridad}
+                disabled={!!lockOf("prioridad")}
+                title={lockOf("prioridad") ?? undefined}
                 onChange={(e) =>
-                  setField("prioridad", e.target.value as any)
+                  setField("prioridad", e.target.value as ServiceFormValues["prioridad"])
                 }
               >
                 <option value="24 horas">24 horas</option>
@@ -425,26 +468,41 @@ export default function ServiceDetailPage() {
             )}
           </div>
 
-          {/* Estado */}
-          <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
-            <div className="text-xs font-semibold text-slate-600">Estado</div>
-            {!isEditing ? (
-              <div className="text-sm font-semibold text-slate-900">
-                {service.estado}
-              </div>
-            ) : (
-              <select
-                className={inputBase}
-                value={form.estado}
-                onChange={(e) => setField("estado", e.target.value as any)}
-              >
-                <option value="Pendiente">Pendiente</option>
-                <option value="En fabricación">En fabricación</option>
-                <option value="Garantía">Garantía</option>
-                <option value="Entregado">Entregado</option>
-              </select>
-            )}
-          </div>
+          {/* Estado: solo cambia con transiciones del flujo */}
+          {!isEditing ? (
+            <StatusPanel
+              code={service.code}
+              estado={service.estado}
+              onChange={refreshService}
+              canChange={can("estados.cambiar")}
+            />
+          ) : (
+            <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+              <div className="text-xs font-semibold text-slate-600">Estado</div>
+              <div className="text-sm font-semibold text-slate-900">{service.estado}</div>
+            </div>
+          )}
+
+          {/* Retiro: QR o PIN del tiquete antes de entregar */}
+          {!isEditing && (
+            <PickupPanel
+              code={service.code}
+              estado={service.estado}
+              onChange={refreshService}
+              canManage={can("retiros.gestionar")}
+            />
+          )}
+
+          {/* Garantía: cobertura, vencimiento y reclamos enlazados */}
+          {!isEditing && (
+            <WarrantyPanel
+              code={service.code}
+              estado={service.estado}
+              garantiaDe={service.garantia_de ?? null}
+              canClaim={can("garantias.reclamar")}
+              onClaimed={(claim) => router.push(`/app/services/${encodeURIComponent(claim.code)}`)}
+            />
+          )}
 
           {/* Pagos */}
           <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
@@ -485,15 +543,22 @@ export default function ServiceDetailPage() {
                 </div>
                 <div className="sm:col-span-2 flex items-center justify-between rounded-md border border-slate-200 p-3">
                   <div>
-                    <div className="text-xs text-slate-500">Pago final</div>
+                    <div className="text-xs text-slate-500">Saldo pendiente</div>
                     <div className="text-sm font-semibold text-slate-900">
-                      CO$ {Number(service.pago_final ?? (Number(service.costo_final ?? 0) - Number(service.abono ?? 0))) || 0}
+                      CO$ {serviceBalance(service).saldo}
                     </div>
                   </div>
                   <span className="text-xs text-slate-500">
-                    (costo final - abono)
+                    {Number(service.componentes_total ?? 0) > 0
+                      ? `(costo final + componentes CO$ ${Number(service.componentes_total)} - pagos registrados)`
+                      : "(costo final - pagos registrados)"}
                   </span>
                 </div>
+                {service.cotizacion && (
+                  <div className="sm:col-span-2">
+                    <QuoteSummary quote={service.cotizacion} />
+                  </div>
+                )}
               </div>
             ) : (
               <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -505,17 +570,11 @@ export default function ServiceDetailPage() {
                     step="1"
                     className={inputBase}
                     value={form.abono}
+                    disabled={!!lockOf("abono")}
+                    title={lockOf("abono") ?? undefined}
                     onChange={(e) => setField("abono", e.target.value)}
                     placeholder="0"
                   />
-                  <label className="mt-2 inline-flex items-center gap-2 text-sm text-slate-700">
-                    <input
-                      type="checkbox"
-                      checked={form.abonoPagado}
-                      onChange={(e) => setField("abonoPagado", e.target.checked)}
-                    />
-                    Abono pagado
-                  </label>
                 </div>
                 <div>
                   <label className="text-xs font-semibold text-slate-600">Costo final (COP)</label>
@@ -524,19 +583,13 @@ export default function ServiceDetailPage() {
                     min="0"
                     step="1"
                     className={inputBase}
-                    value={form.costoFinal}
-                    onChange={(e) => setField("costoFinal", e.target.value)}
+                    value={form.costo_final}
+                    disabled={!!lockOf("costo_final")}
+                    title={lockOf("costo_final") ?? undefined}
+                    onChange={(e) => setField("costo_final", e.target.value)}
                     placeholder="0"
                     required
                   />
-                  <label className="mt-2 inline-flex items-center gap-2 text-sm text-slate-700">
-                    <input
-                      type="checkbox"
-                      checked={form.costoFinalPagado}
-                      onChange={(e) => setField("costoFinalPagado", e.target.checked)}
-                    />
-                    Costo final pagado
-                  </label>
                 </div>
                 <div className="sm:col-span-2">
                   <label className="text-xs font-semibold text-slate-600">Pago final (calculado)</label>
@@ -547,11 +600,53 @@ export default function ServiceDetailPage() {
                     readOnly
                     tabIndex={-1}
                   />
+                  <p className="mt-1 text-xs text-slate-600">
+                    Los pagos recibidos se registran en el historial de pagos.
+                  </p>
                 </div>
+                {!lockOf("costo_final") && (
+                  <div className="sm:col-span-2">
+                    <QuoteCalculator
+                      material={form.material}
+                      initialPeso={service.cotizacion?.peso_g}
+                      onApply={(total, request) => {
+                        setField("costo_final", String(total));
+                        setQuote(request);
+                      }}
+                    />
+                    {fieldErrors.cotizacion && (
+                      <p className="text-xs text-red-600 mt-1">{fieldErrors.cotizacion}</p>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
 
+          {/* Historial de pagos */}
+          {!isEditing && (
+            <PaymentsPanel
+              code={service.code}
+              defaultAgente={service.agente}
+              onChange={refreshService}
+              canRegister={can("pagos.registrar")}
+              canDelete={can("pagos.eliminar")}
+              refreshKey={service.componentes_total}
+            />
+          )}
+
+          {/* Factura electrónica DIAN */}
+          {!isEditing && (
+            <ElectronicInvoicePanel
+              code={service.code}
+              defaultNombre={service.cliente}
+              canIssue={can("facturas.emitir")}
+            />
+          )}
+
+          {/* Vista previa de las plantillas de impresión */}
+          {!isEditing && can("facturas.imprimir") && <InvoicePreviewPanel code={service.code} />}
+
           {/* Descripción */}
           <div className="rounded-md border border-slate-200 p-4 md:col-span-2">
             <div className="text-xs font-semibold text-slate-600">
@@ -566,6 +661,8 @@ export default function ServiceDetailPage() {
                 className={inputBase}
                 rows={4}
                 value={form.descripcion}
+                disabled={!!lockOf("descripcion")}
+                title={lockOf("descripcion") ?? undefined}
                 onChange={(e) => setField("descripcion", e.target.value)}
               />
             )}
@@ -582,7 +679,9 @@ export default function ServiceDetailPage() {
               <select
                 className={inputBase}
                 value={form.material}
-                onChange={(e) => setField("material", e.target.value)}
+                disabled={!!lockOf("material")}
+                title={lockOf("material") ?? undefined}
+                onChange={(e) => setField("material", e.target.value as ServiceFormValues["material"])}
                 required
               >
                 <option value="">Selecciona un material</option>
@@ -605,6 +704,8 @@ export default function ServiceDetailPage() {
               <input
                 className={inputBase}
                 value={form.agente}
+                disabled={!!lockOf("agente")}
+                title={lockOf("agente") ?? undefined}
                 onChange={(e) => setField("agente", e.target.value)}
               />
             )}
@@ -623,66 +724,53 @@ export default function ServiceDetailPage() {
               <input
                 className={inputBase}
                 value={form.almacen}
+                disabled={!!lockOf("almacen")}
+                title={lockOf("almacen") ?? undefined}
                 onChange={(e) => setField("almacen", e.target.value)}
               />
             )}
           </div>
 
-          {/* Cotización */}
-          <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
-            <div className="text-xs font-semibold text-slate-600">Cotización</div>
+          {/* Pesos de metal (recibido, taller, final y merma) */}
+          {!isEditing && (
+            <MetalWeightsPanel
+              code={service.code}
+              canEdit={!!role && metalWeightsLock(role, service) === null}
+            />
+          )}
 
-            {!isEditing ? (
-              service.cotizacion_url ? (
-                <a
-                  href={service.cotizacion_url}
-                  target="_blank"
-                  rel="noreferrer"
-                  className="text-sm font-semibold text-emerald-700 hover:underline"
-                >
-                  Ver/Descargar cotización
-                </a>
-              ) : (
-                <div className="text-sm text-slate-600">No hay cotización.</div>
-              )
-            ) : (
-              <div className="space-y-2">
-                {service.cotizacion_url && (
-                  <a
-                    href={service.cotizacion_url}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="text-sm font-semibold text-emerald-700 hover:underline"
-                  >
-                    Ver cotización actual
-                  </a>
-                )}
+          {/* Piedras y componentes (se cobran con el costo final) */}
+          {!isEditing && (
+            <ComponentsPanel
+              code={service.code}
+              canEdit={!!role && componentsLock(role, service) === null}
+              onChange={setService}
+            />
+          )}
 
-                <input
-                  type="file"
-                  className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm"
-                  accept=".pdf,.png,.jpg,.jpeg,.doc,.docx"
-                  onChange={(e) => {
-                    const file = e.target.files?.[0] ?? null;
-                    setField("cotizacionFile", file);
-                  }}
-                />
-
-                {form.cotizacionFile && (
-                  <div className="text-xs text-slate-700">
-                    Nuevo archivo:{" "}
-                    <span className="font-semibold">
-                      {form.cotizacionFile.name}
-                    </span>
-                  </div>
-                )}
+          {/* Adjuntos: cotizaciones, fotos y diseños */}
+          {!isEditing && (
+            <AttachmentsPanel
+              code={service.code}
+              canUpload={can("adjuntos.subir")}
+              canDelete={can("adjuntos.eliminar")}
+            />
+          )}
 
-                <div className="text-xs text-slate-500">
-                  Si subes un archivo nuevo, reemplazará la cotización.
-                </div>
-              </div>
-            )}
-          </div>
+          {/* Notificaciones enviadas al cliente */}
+          {!isEditing && (
+            <NotificationsPanel
+              code={service.code}
+              estado={service.estado}
+              canNotify={can("estados.cambiar")}
+              refreshKey={service}
+            />
+          )}
+
+          {/* Actividad (auditoría) */}
+          {!isEditing && can("auditoria.ver") && (
+            <ActivityPanel code={service.code} refreshKey={service} />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,324 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SERVICE_MATERIALES, type ServiceMaterial } from "../../../lib/schemas/service";
+import {
+  LABOR_RATE_TIPOS,
+  LABOR_RATE_TIPO_LABELS,
+  type LaborRate,
+  type LaborRateTipo,
+  type MetalPrice,
+} from "../../../lib/schemas/pricing";
+import { todayISODate } from "../../../lib/schemas/fields";
+import { formatApiError, type FieldErrors } from "../../../lib/schemas/fieldErrors";
+
+type RateRow = { id?: string; tipo: LaborRateTipo; nombre: string; valor: string; garantia_dias: string };
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+const buttonPrimary =
+  "rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60";
+
+function formatDateDDMMYYYY(dateStr: string) {
+  const [yyyy, mm, dd] = String(dateStr).split("-");
+  if (yyyy && mm && dd) return `${dd}-${mm}-${yyyy}`;
+  return String(dateStr);
+}
+
+function toRateRows(rates: LaborRate[]): RateRow[] {
+  return rates.map((r) => ({
+    id: r.id,
+    tipo: r.tipo,
+    nombre: r.nombre,
+    valor: String(r.valor),
+    garantia_dias: r.garantia_dias === null ? "" : String(r.garantia_dias),
+  }));
+}
+
+export default function TarifasPage() {
+  const [precios, setPrecios] = useState<MetalPrice[]>([]);
+  const [fecha, setFecha] = useState(todayISODate());
+  const [priceForm, setPriceForm] = useState<Record<ServiceMaterial, string>>(
+    () => Object.fromEntries(SERVICE_MATERIALES.map((m) => [m, ""])) as Record<ServiceMaterial, string>
+  );
+  const [rates, setRates] = useState<RateRow[]>([]);
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingPrices, setSavingPrices] = useState(false);
+  const [savingRates, setSavingRates] = useState(false);
+  const [error, setError] = useState("");
+  const [priceErrors, setPriceErrors] = useState<FieldErrors>({});
+  const [rateErrors, setRateErrors] = useState<FieldErrors>({});
+  const [saved, setSaved] = useState<"precios" | "tarifas" | null>(null);
+
+  function applyPrices(list: MetalPrice[]) {
+    setPrecios(list);
+    setPriceForm((prev) => {
+      const next = { ...prev };
+      for (const p of list) next[p.material] = String(p.precio_gramo);
+      return next;
+    });
+  }
+
+  async function loadPricing() {
+    try {
+      setIsLoading(true);
+      const res = await fetch("/api/pricing", { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando tarifas"));
+        return;
+      }
+      setError("");
+      applyPrices(json.precios ?? []);
+      setRates(toRateRows(json.tarifas ?? []));
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadPricing();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function handleSavePrices(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSavingPrices(true);
+      setPriceErrors({});
+      setSaved(null);
+
+      // Solo los materiales con precio; los vacíos conservan el último registrado
+      const entries = SERVICE_MATERIALES.filter((m) => priceForm[m].trim()).map((material) => ({
+        material,
+        precio_gramo: priceForm[material],
+      }));
+
+      const res = await fetch("/api/pricing/metals", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fecha, precios: entries }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        // Errores por índice del arreglo enviado → por material
+        const fields: FieldErrors = {};
+        for (const [key, message] of Object.entries((json?.fields ?? {}) as FieldErrors)) {
+          const [, index] = key.split(".");
+          fields[entries[Number(index)]?.material ?? key] = message;
+        }
+        setPriceErrors(json?.fields ? fields : { _: formatApiError(json, "Error guardando precios") });
+        return;
+      }
+      await loadPricing();
+      setSaved("precios");
+    } finally {
+      setSavingPrices(false);
+    }
+  }
+
+  function setRate(index: number, patch: Partial<RateRow>) {
+    setRates((rows) => rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+    setSaved(null);
+  }
+
+  async function handleSaveRates(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSavingRates(true);
+      setRateErrors({});
+      setSaved(null);
+
+      const res = await fetch("/api/pricing/rates", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tarifas: rates }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setRateErrors(json?.fields ?? { _: formatApiError(json, "Error guardando tarifas") });
+        return;
+      }
+      setRates(toRateRows(json.tarifas ?? []));
+      setSaved("tarifas");
+    } finally {
+      setSavingRates(false);
+    }
+  }
+
+  if (isLoading) {
+    return <div className="text-sm text-slate-700">Cargando tarifas...</div>;
+  }
+
+  const rateError = (index: number, field: string) => rateErrors[`tarifas.${index}.${field}`];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Tarifas</h1>
+        <p className="text-sm text-slate-500">
+          Precio del gramo por material y tarifas que usa la calculadora de cotizaciones.
+        </p>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {/* Precio del gramo del día */}
+      <form onSubmit={handleSavePrices} className="rounded-lg border border-slate-200 bg-white p-4 sm:p-5 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-slate-900">Precio del gramo (COP)</div>
+            <p className="text-xs text-slate-500">
+              Rige desde la fecha indicada hasta que se registre uno más reciente.
+            </p>
+          </div>
+          <div className="sm:w-48">
+            <label className="text-xs font-semibold text-slate-600">Fecha</label>
+            <input type="date" className={inputBase} value={fecha} onChange={(e) => setFecha(e.target.value)} />
+            {priceErrors.fecha && <p className="mt-1 text-xs text-red-600">{priceErrors.fecha}</p>}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {SERVICE_MATERIALES.map((material) => {
+            const current = precios.find((p) => p.material === material);
+            return (
+              <div key={material}>
+                <label className="text-xs font-semibold text-slate-600">{material}</label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="1"
+                  className={inputBase}
+                  value={priceForm[material]}
+                  onChange={(e) => {
+                    setPriceForm((prev) => ({ ...prev, [material]: e.target.value }));
+                    setSaved(null);
+                  }}
+                />
+                <p className="mt-1 text-xs text-slate-500">
+                  {current
+                    ? `Vigente desde el ${formatDateDDMMYYYY(current.fecha)}`
+                    : "Sin precio registrado"}
+                </p>
+                {priceErrors[material] && <p className="mt-1 text-xs text-red-600">{priceErrors[material]}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        {(priceErrors.precios || priceErrors._) && (
+          <div className="text-sm text-red-600">{priceErrors.precios || priceErrors._}</div>
+        )}
+        {saved === "precios" && <div className="text-sm text-emerald-700">Precios guardados.</div>}
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={savingPrices} className={buttonPrimary}>
+            {savingPrices ? "Guardando..." : "Guardar precios"}
+          </button>
+        </div>
+      </form>
+
+      {/* Mano de obra y engastes */}
+      <form onSubmit={handleSaveRates} className="rounded-lg border border-slate-200 bg-white p-4 sm:p-5 space-y-4">
+        <div>
+          <div className="text-sm font-semibold text-slate-900">Mano de obra y engastes (COP)</div>
+          <p className="text-xs text-slate-500">
+            La mano de obra es un valor por trabajo; el engaste se cobra por piedra. Los días de garantía
+            de cada trabajo se imprimen en la factura (vacío: la garantía general de Configuración).
+          </p>
+        </div>
+
+        {rates.length === 0 ? (
+          <div className="text-sm text-slate-600">Aún no hay tarifas.</div>
+        ) : (
+          <div className="space-y-3">
+            {rates.map((rate, i) => (
+              <div key={rate.id ?? `nueva-${i}`} className="grid grid-cols-1 sm:grid-cols-[12rem_1fr_10rem_8rem_auto] gap-2 items-start">
+                <select
+                  className={inputBase}
+                  value={rate.tipo}
+                  onChange={(e) => setRate(i, { tipo: e.target.value as LaborRateTipo })}
+                >
+                  {LABOR_RATE_TIPOS.map((tipo) => (
+                    <option key={tipo} value={tipo}>
+                      {LABOR_RATE_TIPO_LABELS[tipo]}
+                    </option>
+                  ))}
+                </select>
+                <div>
+                  <input
+                    className={inputBase}
+                    value={rate.nombre}
+                    placeholder="Soldadura, anillo a medida, engaste de garra..."
+                    onChange={(e) => setRate(i, { nombre: e.target.value })}
+                  />
+                  {rateError(i, "nombre") && <p className="mt-1 text-xs text-red-600">{rateError(i, "nombre")}</p>}
+                </div>
+                <div>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="1"
+                    className={inputBase}
+                    value={rate.valor}
+                    onChange={(e) => setRate(i, { valor: e.target.value })}
+                  />
+                  {rateError(i, "valor") && <p className="mt-1 text-xs text-red-600">{rateError(i, "valor")}</p>}
+                </div>
+                <div>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    className={inputBase}
+                    value={rate.tipo === "trabajo" ? rate.garantia_dias : ""}
+                    placeholder={rate.tipo === "trabajo" ? "Días gar." : "—"}
+                    title="Días de garantía del trabajo"
+                    disabled={rate.tipo !== "trabajo"}
+                    onChange={(e) => setRate(i, { garantia_dias: e.target.value })}
+                  />
+                  {rateError(i, "garantia_dias") && (
+                    <p className="mt-1 text-xs text-red-600">{rateError(i, "garantia_dias")}</p>
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setRates((rows) => rows.filter((_, j) => j !== i));
+                    setSaved(null);
+                  }}
+                  className="py-2 text-xs font-semibold text-red-600 hover:text-red-700"
+                >
+                  Quitar
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {(rateErrors.tarifas || rateErrors._) && (
+          <div className="text-sm text-red-600">{rateErrors.tarifas || rateErrors._}</div>
+        )}
+        {saved === "tarifas" && <div className="text-sm text-emerald-700">Tarifas guardadas.</div>}
+
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => setRates((rows) => [...rows, { tipo: "trabajo", nombre: "", valor: "", garantia_dias: "" }])}
+            className="text-sm font-semibold text-emerald-700 hover:text-emerald-800"
+          >
+            + Agregar tarifa
+          </button>
+          <button type="submit" disabled={savingRates} className={buttonPrimary}>
+            {savingRates ? "Guardando..." : "Guardar tarifas"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ROLES, ROLE_LABELS, type Role, type UserRole } from "../../../lib/schemas/role";
+import { formatApiError } from "../../../lib/schemas/fieldErrors";
+
+export default function UsuariosPage() {
+  const [rows, setRows] = useState<UserRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  async function loadUsers() {
+    try {
+      setIsLoading(true);
+      const res = await fetch("/api/users", { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando usuarios"));
+        return;
+      }
+      setError("");
+      setRows(json.users ?? []);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  async function handleRoleChange(userId: string, role: Role) {
+    try {
+      setSavingId(userId);
+      const res = await fetch(`/api/users/${encodeURIComponent(userId)}/role`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        alert(formatApiError(json, "Error actualizando el rol"));
+        return;
+      }
+      setRows((prev) => prev.map((u) => (u.user_id === userId ? json.user : u)));
+    } finally {
+      setSavingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Usuarios</h1>
+        <p className="text-sm text-slate-500">
+          Los usuarios nuevos entran como {ROLE_LABELS.consulta} hasta que un administrador les asigne un rol.
+        </p>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="rounded-lg border border-slate-200 bg-white overflow-hidden">
+        {isLoading && rows.length === 0 ? (
+          <div className="p-4 text-sm text-slate-700">Cargando usuarios...</div>
+        ) : rows.length === 0 ? (
+          <div className="p-4 text-sm text-slate-500">No hay usuarios para mostrar.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs font-semibold text-slate-600">
+              <tr>
+                <th className="px-4 py-3 text-left">CORREO</th>
+                <th className="px-4 py-3 text-left">ROL</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.map((u) => (
+                <tr key={u.user_id}>
+                  <td className="px-4 py-3 font-medium text-slate-900">{u.email ?? u.user_id}</td>
+                  <td className="px-4 py-3">
+                    <select
+                      className="rounded-md border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-60"
+                      value={u.role}
+                      disabled={savingId === u.user_id}
+                      onChange={(e) => handleRoleChange(u.user_id, e.target.value as Role)}
+                    >
+                      {ROLES.map((r) => (
+                        <option key={r} value={r}>
+                          {ROLE_LABELS[r]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
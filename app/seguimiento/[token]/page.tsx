@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import type { PublicTracking } from "../../../lib/schemas/claim";
+import type { ServiceEstado } from "../../../lib/schemas/service";
+import { formatApiError } from "../../../lib/schemas/fieldErrors";
+
+function formatCOP(value: number) {
+  const v = Number(value ?? 0);
+  if (!Number.isFinite(v)) return "CO$ 0";
+  try {
+    return new Intl.NumberFormat("es-CO", {
+      style: "currency",
+      currency: "COP",
+      maximumFractionDigits: 0,
+    }).format(v);
+  } catch {
+    return `CO$ ${Math.round(v)}`;
+  }
+}
+
+/** Estado interno → texto para el cliente */
+const ESTADO_CLIENTE: Record<ServiceEstado, string> = {
+  Pendiente: "Recibida, en espera de fabricación",
+  "En fabricación": "En fabricación",
+  Garantía: "En revisión por garantía",
+  Entregado: "Entregada",
+};
+
+export default function TrackingPage() {
+  const params = useParams<{ token: string }>();
+  const token = String(params?.token ?? "");
+
+  const [tracking, setTracking] = useState<PublicTracking | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  async function load() {
+    try {
+      setLoading(true);
+      setError("");
+      const res = await fetch(`/api/tracking/${encodeURIComponent(token)}`, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "No se pudo consultar el servicio"));
+        return;
+      }
+      setTracking(json.tracking);
+    } catch {
+      setError("No se pudo consultar el servicio");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  return (
+    <main className="mx-auto max-w-md px-4 py-10">
+      <div className="rounded-lg border border-slate-200 bg-white p-6 shadow-sm">
+        {loading ? (
+          <div className="text-sm text-slate-600">Cargando...</div>
+        ) : error || !tracking ? (
+          <div className="text-sm text-red-600">{error || "Servicio no encontrado"}</div>
+        ) : (
+          <>
+            <div className="text-xs font-semibold text-slate-500">{tracking.tienda.nombre}</div>
+            <h1 className="mt-1 text-lg font-semibold text-slate-900">Servicio {tracking.code}</h1>
+
+            <dl className="mt-5 space-y-4">
+              <div>
+                <dt className="text-xs font-semibold text-slate-600">Estado</dt>
+                <dd className="text-base font-semibold text-slate-900">
+                  {ESTADO_CLIENTE[tracking.estado] ?? tracking.estado}
+                </dd>
+              </div>
+
+              {tracking.estado !== "Entregado" && (
+                <div>
+                  <dt className="text-xs font-semibold text-slate-600">Entrega estimada</dt>
+                  <dd className="text-sm text-slate-900">
+                    {tracking.fecha_entrega
+                      ? new Date(tracking.fecha_entrega).toLocaleString("es-CO", {
+                          timeZone: "America/Bogota",
+                          dateStyle: "full",
+                          timeStyle: "short",
+                        })
+                      : "Por confirmar"}
+                  </dd>
+                </div>
+              )}
+
+              {tracking.costo_final > 0 && (
+                <div>
+                  <dt className="text-xs font-semibold text-slate-600">Saldo pendiente</dt>
+                  <dd
+                    className={[
+                      "text-sm font-semibold",
+                      tracking.saldo > 0 ? "text-amber-700" : "text-emerald-700",
+                    ].join(" ")}
+                  >
+                    {tracking.saldo > 0 ? formatCOP(tracking.saldo) : "Pagado"}
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            <p className="mt-6 text-xs text-slate-500">
+              Para retirar la pieza presenta tu tiquete (QR o PIN) en la tienda.
+              {tracking.tienda.telefonos.length > 0 &&
+                ` Contacto: ${tracking.tienda.telefonos.join(" · ")}`}
+            </p>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
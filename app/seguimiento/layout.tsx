@@ -0,0 +1,12 @@
+import type { Metadata } from "next";
+import "../globals.css";
+
+/** Página pública (sin sesión): no se indexa, el enlace solo está en el tiquete */
+export const metadata: Metadata = {
+  title: "Seguimiento de tu pieza",
+  robots: { index: false, follow: false },
+};
+
+export default function TrackingLayout({ children }: { children: React.ReactNode }) {
+  return <div className="min-h-screen bg-slate-50">{children}</div>;
+}
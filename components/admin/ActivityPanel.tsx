@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AUDIT_ACCION_LABELS, type AuditEntry } from "../../lib/schemas/audit";
+import { formatApiError } from "../../lib/schemas/fieldErrors";
+
+const MAX_ENTRIES = 50;
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("es-CO", { dateStyle: "short", timeStyle: "short" });
+}
+
+/** Valor legible de un campo auditado (los pagos se resumen) */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Sí" : "No";
+  if (typeof value === "object") {
+    const v = value as Record<string, unknown>;
+    if ("monto" in v) return [v.fecha, v.monto, v.metodo].filter(Boolean).join(" · ");
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Actividad del servicio (`/api/audit?service_code=`): quién hizo cada
+ * cambio, cuándo y qué campos se modificaron.
+ */
+export default function ActivityPanel({
+  code,
+  refreshKey,
+}: {
+  code: string;
+  /** Al cambiar se vuelve a consultar (p. ej. el servicio actualizado) */
+  refreshKey?: unknown;
+}) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  async function load() {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ service_code: code, limit: String(MAX_ENTRIES) });
+      const res = await fetch(`/api/audit?${params.toString()}`, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando actividad"));
+        return;
+      }
+      setError("");
+      setEntries(json.entries ?? []);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, refreshKey]);
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="text-xs font-semibold text-slate-600">Actividad</div>
+
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+
+      {loading && entries.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-600">Cargando...</div>
+      ) : entries.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-500">Sin actividad registrada.</div>
+      ) : (
+        <ul className="mt-2 divide-y divide-slate-100">
+          {entries.map((e) => (
+            <li key={e.id} className="py-2 text-sm">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <span className="text-slate-900">
+                  <span className="font-semibold">{e.actor}</span> ·{" "}
+                  {AUDIT_ACCION_LABELS[e.accion] ?? e.accion}
+                </span>
+                <span className="text-xs text-slate-500">
+                  {formatDateTime(e.created_at)}
+                  {e.ip ? ` · ${e.ip}` : ""}
+                </span>
+              </div>
+              {e.accion !== "crear" && e.accion !== "purgar" && Object.keys(e.cambios).length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs text-slate-600">
+                  {Object.entries(e.cambios).map(([field, change]) => (
+                    <li key={field} className="break-words">
+                      <span className="font-semibold">{field}:</span> {formatValue(change.antes)} →{" "}
+                      {formatValue(change.despues)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
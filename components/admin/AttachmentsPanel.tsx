@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ATTACHMENT_CATEGORIAS,
+  ATTACHMENT_CATEGORIA_LABELS,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+  isImageAttachment,
+  type AttachmentCategoria,
+  type ServiceAttachment,
+} from "../../lib/schemas/attachment";
+import { formatApiError } from "../../lib/schemas/fieldErrors";
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/**
+ * Adjuntos del servicio (`/api/services/[code]/attachments`): miniaturas de
+ * las fotos, enlaces a los documentos, subida de varios archivos por
+ * categoría y eliminación.
+ */
+export default function AttachmentsPanel({
+  code,
+  canUpload = false,
+  canDelete = false,
+}: {
+  code: string;
+  /** Permisos `adjuntos.subir` / `adjuntos.eliminar` del usuario */
+  canUpload?: boolean;
+  canDelete?: boolean;
+}) {
+  const [attachments, setAttachments] = useState<ServiceAttachment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [categoria, setCategoria] = useState<AttachmentCategoria>("foto_ingreso");
+  const [files, setFiles] = useState<File[]>([]);
+  // Cambia para limpiar el <input type="file"> después de subir
+  const [inputKey, setInputKey] = useState(0);
+
+  const url = `/api/services/${encodeURIComponent(code)}/attachments`;
+  const fileUrl = (a: ServiceAttachment) => `${url}/${encodeURIComponent(a.id)}`;
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(url, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando adjuntos"));
+        return;
+      }
+      setAttachments(json.attachments ?? []);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code]);
+
+  async function handleUpload(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+
+    if (!files.length) {
+      setError("Selecciona al menos un archivo");
+      return;
+    }
+    if (files.length > MAX_ATTACHMENTS_PER_UPLOAD) {
+      setError(`Máximo ${MAX_ATTACHMENTS_PER_UPLOAD} archivos por envío`);
+      return;
+    }
+
+    const fd = new FormData();
+    fd.append("categoria", categoria);
+    for (const file of files) fd.append("files", file);
+
+    try {
+      setSaving(true);
+      const res = await fetch(url, { method: "POST", body: fd });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(formatApiError(json, "Error subiendo adjuntos"));
+      } else {
+        setFiles([]);
+        setInputKey((k) => k + 1);
+      }
+      // Si falló a mitad, los archivos que sí se subieron aparecen en la lista
+      await load();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(attachment: ServiceAttachment) {
+    const ok = confirm(`¿Eliminar el adjunto "${attachment.nombre}"?`);
+    if (!ok) return;
+
+    const res = await fetch(fileUrl(attachment), { method: "DELETE" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(formatApiError(json, "Error eliminando adjunto"));
+      return;
+    }
+    await load();
+  }
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="text-xs font-semibold text-slate-600">Adjuntos (cotizaciones, fotos y diseños)</div>
+
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+
+      {loading && attachments.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-600">Cargando adjuntos...</div>
+      ) : attachments.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-600">No hay adjuntos.</div>
+      ) : (
+        <ul className="mt-3 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+          {attachments.map((a) => (
+            <li key={a.id} className="rounded-md border border-slate-200 p-2 text-xs">
+              <a href={fileUrl(a)} target="_blank" rel="noreferrer" className="block">
+                {isImageAttachment(a) ? (
+                  // Imagen privada servida por la API (con la sesión), sin optimizar
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={a.thumb_path ? `${fileUrl(a)}?variant=thumb` : fileUrl(a)}
+                    alt={a.nombre}
+                    loading="lazy"
+                    className="h-28 w-full rounded object-cover bg-slate-100"
+                  />
+                ) : (
+                  <div className="flex h-28 w-full items-center justify-center rounded bg-slate-100 text-3xl">
+                    📄
+                  </div>
+                )}
+              </a>
+              <div className="mt-1 font-semibold text-slate-700">
+                {ATTACHMENT_CATEGORIA_LABELS[a.categoria] ?? a.categoria}
+              </div>
+              <div className="truncate text-slate-900" title={a.nombre}>
+                {a.nombre}
+              </div>
+              <div className="flex items-center justify-between gap-2 text-slate-500">
+                <a href={`${fileUrl(a)}?download=1`} className="hover:underline">
+                  {formatSize(a.size)} · Descargar
+                </a>
+                {canDelete && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(a)}
+                    className="font-semibold text-red-600 hover:text-red-700"
+                  >
+                    Eliminar
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canUpload && (
+        <form onSubmit={handleUpload} className="mt-4 grid grid-cols-1 sm:grid-cols-[12rem_1fr_auto] gap-3 items-end">
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Categoría</label>
+            <select
+              className={inputBase}
+              value={categoria}
+              onChange={(e) => setCategoria(e.target.value as AttachmentCategoria)}
+            >
+              {ATTACHMENT_CATEGORIAS.map((c) => (
+                <option key={c} value={c}>
+                  {ATTACHMENT_CATEGORIA_LABELS[c]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600">
+              Archivos (PDF, PNG, JPG, DOC, DOCX · máx. {MAX_ATTACHMENTS_PER_UPLOAD})
+            </label>
+            <input
+              key={inputKey}
+              type="file"
+              multiple
+              className="w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm"
+              accept=".pdf,.png,.jpg,.jpeg,.doc,.docx"
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !files.length}
+            className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+          >
+            {saving ? "Subiendo..." : "Subir"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
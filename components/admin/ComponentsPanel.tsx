@@ -0,0 +1,365 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  COMPONENT_APORTA,
+  COMPONENT_APORTA_LABELS,
+  COMPONENT_TIPOS,
+  componentLabel,
+  componentSubtotal,
+  type ComponentAporta,
+  type ComponentTipo,
+  type ServiceComponent,
+} from "../../lib/schemas/component";
+import type { Service } from "../../lib/schemas/service";
+import { formatApiError, type FieldErrors } from "../../lib/schemas/fieldErrors";
+import { parseMoney } from "../../lib/schemas/fields";
+
+type ComponentFormRow = {
+  tipo: ComponentTipo;
+  descripcion: string;
+  cantidad: string;
+  medida: string;
+  aporta: ComponentAporta;
+  precio_unitario: string;
+};
+
+const EMPTY_ROW: ComponentFormRow = {
+  tipo: "Diamante",
+  descripcion: "",
+  cantidad: "1",
+  medida: "",
+  aporta: "joyeria",
+  precio_unitario: "",
+};
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+function formatCOP(value: number) {
+  const v = Number(value ?? 0);
+  if (!Number.isFinite(v)) return "CO$ 0";
+  try {
+    return new Intl.NumberFormat("es-CO", {
+      style: "currency",
+      currency: "COP",
+      maximumFractionDigits: 0,
+    }).format(v);
+  } catch {
+    return `CO$ ${Math.round(v)}`;
+  }
+}
+
+function toForm(components: ServiceComponent[]): ComponentFormRow[] {
+  return components.map((c) => ({
+    tipo: c.tipo,
+    descripcion: c.descripcion ?? "",
+    cantidad: String(c.cantidad),
+    medida: c.medida ?? "",
+    aporta: c.aporta,
+    precio_unitario: c.aporta === "cliente" ? "" : String(c.precio_unitario),
+  }));
+}
+
+/** Subtotal mientras se edita (el servidor recalcula al guardar) */
+function rowSubtotal(row: ComponentFormRow) {
+  const cantidad = Number(row.cantidad);
+  const precio = row.aporta === "cliente" ? 0 : parseMoney(row.precio_unitario);
+  return Number.isFinite(cantidad) && Number.isFinite(precio)
+    ? componentSubtotal({ cantidad, precio_unitario: precio })
+    : 0;
+}
+
+/**
+ * Piedras y componentes del servicio (`/api/services/[code]/components`):
+ * tipo, cantidad, medida o quilates, quién lo aporta y precio unitario.
+ * Su suma se cobra junto con el costo final.
+ */
+export default function ComponentsPanel({
+  code,
+  canEdit,
+  onChange,
+}: {
+  code: string;
+  /** El rol puede modificarlos (lib/roles/permissions → componentsLock) */
+  canEdit: boolean;
+  /** Servicio actualizado (el total cambia con los componentes) */
+  onChange?: (service: Service) => void;
+}) {
+  const [components, setComponents] = useState<ServiceComponent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [form, setForm] = useState<ComponentFormRow[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const url = `/api/services/${encodeURIComponent(code)}/components`;
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(url, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando componentes"));
+        return;
+      }
+      setComponents(json.componentes ?? []);
+      setTotal(Number(json.total ?? 0));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code]);
+
+  function startEditing() {
+    setForm(components.length ? toForm(components) : [{ ...EMPTY_ROW }]);
+    setErrors({});
+    setError("");
+    setEditing(true);
+  }
+
+  function setCell<K extends keyof ComponentFormRow>(index: number, key: K, value: ComponentFormRow[K]) {
+    setForm((rows) => rows.map((r, i) => (i === index ? { ...r, [key]: value } : r)));
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setErrors({});
+
+    try {
+      setSaving(true);
+      const res = await fetch(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          componentes: form.map((row) => ({
+            ...row,
+            precio_unitario: row.aporta === "cliente" ? "0" : row.precio_unitario,
+          })),
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json?.fields ?? {});
+        setError(json?.fields ? "" : formatApiError(json, "Error guardando componentes"));
+        return;
+      }
+      setComponents(json.componentes ?? []);
+      setTotal(Number(json.total ?? 0));
+      setEditing(false);
+      if (json.service) onChange?.(json.service);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const rowErrors = (index: number) =>
+    Object.entries(errors)
+      .filter(([key]) => key.startsWith(`componentes.${index}.`))
+      .map(([, message]) => message);
+  const generalErrors = Object.entries(errors)
+    .filter(([key]) => !/^componentes\.\d+\./.test(key))
+    .map(([, message]) => message);
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-slate-600">Piedras y componentes</div>
+        {canEdit && !editing && !loading && (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+          >
+            {components.length ? "Editar componentes" : "Agregar componentes"}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+      {!editing ? (
+        <div className="mt-3 overflow-x-auto">
+          {loading ? (
+            <div className="text-sm text-slate-600">Cargando componentes...</div>
+          ) : components.length === 0 ? (
+            <div className="text-sm text-slate-600">Sin piedras ni componentes.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3 font-semibold">COMPONENTE</th>
+                  <th className="py-2 pr-3 text-right font-semibold">CANTIDAD</th>
+                  <th className="py-2 pr-3 font-semibold">MEDIDA</th>
+                  <th className="py-2 pr-3 font-semibold">APORTA</th>
+                  <th className="py-2 pr-3 text-right font-semibold">VR. UNITARIO</th>
+                  <th className="py-2 pr-3 text-right font-semibold">SUBTOTAL</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-900">
+                {components.map((c) => (
+                  <tr key={c.id} className="border-t border-slate-100">
+                    <td className="py-2 pr-3">{componentLabel(c)}</td>
+                    <td className="py-2 pr-3 text-right">{c.cantidad}</td>
+                    <td className="py-2 pr-3">{c.medida ?? "—"}</td>
+                    <td className="py-2 pr-3">{COMPONENT_APORTA_LABELS[c.aporta]}</td>
+                    <td className="py-2 pr-3 text-right">
+                      {c.aporta === "cliente" ? "—" : formatCOP(c.precio_unitario)}
+                    </td>
+                    <td className="py-2 pr-3 text-right">{formatCOP(componentSubtotal(c))}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t border-slate-200">
+                  <td colSpan={5} className="py-2 pr-3 font-semibold text-slate-900">
+                    Total componentes (se suma al costo final)
+                  </td>
+                  <td className="py-2 pr-3 text-right font-semibold text-slate-900">{formatCOP(total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSave} className="mt-3 space-y-3">
+          {form.map((row, i) => (
+            <div key={i} className="rounded-md border border-slate-100 p-3">
+              <div className="grid grid-cols-2 lg:grid-cols-6 gap-3">
+                <div>
+                  <label className="text-xs text-slate-500">Tipo</label>
+                  <select
+                    className={inputBase}
+                    value={row.tipo}
+                    onChange={(e) => setCell(i, "tipo", e.target.value as ComponentTipo)}
+                  >
+                    {COMPONENT_TIPOS.map((tipo) => (
+                      <option key={tipo} value={tipo}>
+                        {tipo}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-2 lg:col-span-1">
+                  <label className="text-xs text-slate-500">Detalle</label>
+                  <input
+                    className={inputBase}
+                    value={row.descripcion}
+                    placeholder="Talla, color..."
+                    onChange={(e) => setCell(i, "descripcion", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-slate-500">Cantidad</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    className={inputBase}
+                    value={row.cantidad}
+                    onChange={(e) => setCell(i, "cantidad", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-slate-500">Medida / quilates</label>
+                  <input
+                    className={inputBase}
+                    value={row.medida}
+                    placeholder="0,25 ct · 3 mm"
+                    onChange={(e) => setCell(i, "medida", e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-slate-500">Aporta</label>
+                  <select
+                    className={inputBase}
+                    value={row.aporta}
+                    onChange={(e) => setCell(i, "aporta", e.target.value as ComponentAporta)}
+                  >
+                    {COMPONENT_APORTA.map((aporta) => (
+                      <option key={aporta} value={aporta}>
+                        {COMPONENT_APORTA_LABELS[aporta]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-slate-500">Precio unitario</label>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="1"
+                    className={inputBase}
+                    value={row.aporta === "cliente" ? "" : row.precio_unitario}
+                    disabled={row.aporta === "cliente"}
+                    title={row.aporta === "cliente" ? "Lo que aporta el cliente no se cobra" : undefined}
+                    onChange={(e) => setCell(i, "precio_unitario", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="mt-2 flex items-center justify-between gap-3">
+                <span className="text-xs text-slate-600">Subtotal: {formatCOP(rowSubtotal(row))}</span>
+                <button
+                  type="button"
+                  onClick={() => setForm((rows) => rows.filter((_, j) => j !== i))}
+                  className="text-xs font-semibold text-red-600 hover:text-red-700"
+                >
+                  Quitar
+                </button>
+              </div>
+              {rowErrors(i).map((message) => (
+                <p key={message} className="text-xs text-red-600 mt-1">
+                  {message}
+                </p>
+              ))}
+            </div>
+          ))}
+
+          {generalErrors.map((message) => (
+            <p key={message} className="text-xs text-red-600">
+              {message}
+            </p>
+          ))}
+
+          <div className="flex items-center justify-between gap-3">
+            <button
+              type="button"
+              onClick={() => setForm((rows) => [...rows, { ...EMPTY_ROW }])}
+              className="text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+            >
+              + Agregar componente
+            </button>
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-semibold text-slate-700">
+                Total: {formatCOP(form.reduce((acc, row) => acc + rowSubtotal(row), 0))}
+              </span>
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="rounded-md border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+              >
+                {saving ? "Guardando..." : "Guardar componentes"}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
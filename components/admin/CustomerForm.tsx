@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { DIAN_TIPOS_DOCUMENTO } from "../../lib/schemas/einvoice";
+import type { Customer } from "../../lib/schemas/customer";
+import type { FieldErrors } from "../../lib/schemas/fieldErrors";
+import { NOTIFICATION_CANAL_LABELS } from "../../lib/schemas/notification";
+
+/** Valores del formulario (teléfonos separados por coma) */
+export type CustomerFormValues = {
+  nombre: string;
+  tipo_documento: string;
+  numero_documento: string;
+  telefonos: string;
+  email: string;
+  direccion: string;
+  notas: string;
+  canal_notificaciones: string;
+};
+
+export function customerToFormValues(c?: Customer | null): CustomerFormValues {
+  return {
+    nombre: c?.nombre ?? "",
+    tipo_documento: c?.tipo_documento ?? "",
+    numero_documento: c?.numero_documento ?? "",
+    telefonos: (c?.telefonos ?? []).join(", "),
+    email: c?.email ?? "",
+    direccion: c?.direccion ?? "",
+    notas: c?.notas ?? "",
+    canal_notificaciones: c?.canal_notificaciones ?? "",
+  };
+}
+
+/** Body JSON para POST/PUT /api/customers */
+export function customerFormToBody(values: CustomerFormValues) {
+  return {
+    ...values,
+    telefonos: values.telefonos
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean),
+  };
+}
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/**
+ * Formulario de cliente (crear / editar). Los errores por campo vienen de la API.
+ */
+export default function CustomerForm({
+  initial,
+  errors,
+  saving,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial: CustomerFormValues;
+  errors: FieldErrors;
+  saving: boolean;
+  submitLabel: string;
+  onSubmit: (values: CustomerFormValues) => void;
+  onCancel?: () => void;
+}) {
+  const [values, setValues] = useState<CustomerFormValues>(initial);
+
+  function setField<K extends keyof CustomerFormValues>(key: K, value: CustomerFormValues[K]) {
+    setValues((p) => ({ ...p, [key]: value }));
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    onSubmit(values);
+  }
+
+  const fieldError = (key: string) =>
+    errors[key] ? <p className="text-xs text-red-600 mt-1">{errors[key]}</p> : null;
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div>
+        <label className="text-xs font-semibold text-slate-600">Nombre</label>
+        <input className={inputBase} value={values.nombre} onChange={(e) => setField("nombre", e.target.value)} />
+        {fieldError("nombre")}
+      </div>
+      <div>
+        <label className="text-xs font-semibold text-slate-600">Tipo de documento</label>
+        <select
+          className={inputBase}
+          value={values.tipo_documento}
+          onChange={(e) => setField("tipo_documento", e.target.value)}
+        >
+          <option value="">Sin documento</option>
+          {Object.entries(DIAN_TIPOS_DOCUMENTO).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {fieldError("tipo_documento")}
+      </div>
+      <div>
+        <label className="text-xs font-semibold text-slate-600">Número de documento</label>
+        <input
+          className={inputBase}
+          value={values.numero_documento}
+          onChange={(e) => setField("numero_documento", e.target.value)}
+        />
+        {fieldError("numero_documento")}
+      </div>
+      <div>
+        <label className="text-xs font-semibold text-slate-600">Teléfonos</label>
+        <input
+          className={inputBase}
+          value={values.telefonos}
+          onChange={(e) => setField("telefonos", e.target.value)}
+          placeholder="3001234567, 6041234567"
+        />
+        {Object.entries(errors)
+          .filter(([key]) => key === "telefonos" || key.startsWith("telefonos."))
+          .slice(0, 1)
+          .map(([key, message]) => (
+            <p key={key} className="text-xs text-red-600 mt-1">
+              {message}
+            </p>
+          ))}
+      </div>
+      <div>
+        <label className="text-xs font-semibold text-slate-600">Correo</label>
+        <input
+          type="email"
+          className={inputBase}
+          value={values.email}
+          onChange={(e) => setField("email", e.target.value)}
+        />
+        {fieldError("email")}
+      </div>
+      <div>
+        <label className="text-xs font-semibold text-slate-600">Dirección</label>
+        <input
+          className={inputBase}
+          value={values.direccion}
+          onChange={(e) => setField("direccion", e.target.value)}
+        />
+        {fieldError("direccion")}
+      </div>
+      <div>
+        <label className="text-xs font-semibold text-slate-600">Notificaciones</label>
+        <select
+          className={inputBase}
+          value={values.canal_notificaciones}
+          onChange={(e) => setField("canal_notificaciones", e.target.value)}
+        >
+          <option value="">No enviar</option>
+          {Object.entries(NOTIFICATION_CANAL_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-slate-500 mt-1">Solo si el cliente autorizó recibir avisos.</p>
+        {fieldError("canal_notificaciones")}
+      </div>
+      <div className="md:col-span-3">
+        <label className="text-xs font-semibold text-slate-600">Notas</label>
+        <textarea
+          className={inputBase}
+          rows={3}
+          value={values.notas}
+          onChange={(e) => setField("notas", e.target.value)}
+        />
+        {fieldError("notas")}
+      </div>
+      <div className="md:col-span-3 flex justify-end gap-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={saving}
+            className="rounded-md border border-red-500 text-red-600 bg-white hover:bg-red-50 px-4 py-2 text-sm font-semibold disabled:opacity-60"
+          >
+            Cancelar
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+        >
+          {saving ? "Guardando..." : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { Customer } from "../../lib/schemas/customer";
+
+const SEARCH_DELAY_MS = 250;
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * Campo "Cliente" con autocompletado desde el directorio (`/api/customers?q=`).
+ * Escribir un nombre nuevo deja el servicio sin cliente seleccionado
+ * (la API lo enlaza por teléfono o crea el cliente).
+ */
+export default function CustomerPicker({
+  value,
+  selectedId,
+  onTextChange,
+  onSelect,
+  className,
+}: {
+  value: string;
+  selectedId: string | null;
+  onTextChange: (text: string) => void;
+  onSelect: (customer: Customer) => void;
+  className: string;
+}) {
+  const [suggestions, setSuggestions] = useState<Customer[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const term = value.trim();
+    if (!open || selectedId || term.length < 2) return;
+
+    const current = ++requestId.current;
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: term, limit: String(MAX_SUGGESTIONS) });
+      const res = await fetch(`/api/customers?${params.toString()}`, { method: "GET" });
+      const json = await res.json().catch(() => ({}));
+      // Ignora respuestas de búsquedas anteriores
+      if (current !== requestId.current) return;
+      setSuggestions(res.ok ? json.customers ?? [] : []);
+      setHighlight(0);
+    }, SEARCH_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [value, open, selectedId]);
+
+  // Solo se muestran mientras se escribe un nombre sin cliente seleccionado
+  const visible = open && !selectedId && value.trim().length >= 2 ? suggestions : [];
+
+  function choose(customer: Customer) {
+    onSelect(customer);
+    setSuggestions([]);
+    setOpen(false);
+  }
+
+  function handleKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (!visible.length) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlight((h) => (h + 1) % visible.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlight((h) => (h - 1 + visible.length) % visible.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      choose(visible[Math.min(highlight, visible.length - 1)]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  }
+
+  return (
+    <div className="relative">
+      <input
+        className={className}
+        value={value}
+        onChange={(e) => {
+          onTextChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Deja terminar el clic en una sugerencia antes de cerrar
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        autoComplete="off"
+        placeholder="Buscar o escribir nombre"
+      />
+      {selectedId && (
+        <p className="mt-1 text-xs text-emerald-700">Cliente del directorio</p>
+      )}
+
+      {visible.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full max-h-60 overflow-y-auto rounded-md border border-slate-200 bg-white shadow-lg">
+          {visible.map((c, i) => (
+            <li key={c.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => choose(c)}
+                className={[
+                  "w-full px-3 py-2 text-left text-sm",
+                  i === highlight ? "bg-emerald-50" : "hover:bg-slate-50",
+                ].join(" ")}
+              >
+                <div className="font-medium text-slate-900">{c.nombre}</div>
+                <div className="text-xs text-slate-600">
+                  {[c.numero_documento, ...c.telefonos].filter(Boolean).join(" · ")}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
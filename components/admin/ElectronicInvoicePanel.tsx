@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  DIAN_TIPOS_DOCUMENTO,
+  type DianTipoDocumento,
+  type ElectronicInvoice,
+} from "../../lib/schemas/einvoice";
+import { formatApiError, type FieldErrors } from "../../lib/schemas/fieldErrors";
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/**
+ * Factura electrónica DIAN del servicio (`/api/services/[code]/einvoice`):
+ * muestra la factura emitida o el formulario con los datos del adquiriente.
+ */
+export default function ElectronicInvoicePanel({
+  code,
+  defaultNombre,
+  onIssued,
+  canIssue = true,
+}: {
+  code: string;
+  defaultNombre: string;
+  onIssued?: (invoice: ElectronicInvoice) => void;
+  /** Permiso `facturas.emitir` del usuario */
+  canIssue?: boolean;
+}) {
+  const [invoice, setInvoice] = useState<ElectronicInvoice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [issuing, setIssuing] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const [tipoDocumento, setTipoDocumento] = useState<DianTipoDocumento>("13");
+  const [documento, setDocumento] = useState("");
+  const [nombre, setNombre] = useState(defaultNombre);
+  const [email, setEmail] = useState("");
+
+  const url = `/api/services/${encodeURIComponent(code)}/einvoice`;
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(url, { method: "GET" });
+      const json = await res.json();
+      setInvoice(res.ok ? json.invoice : null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code]);
+
+  async function handleIssue(e: React.FormEvent) {
+    e.preventDefault();
+    const ok = confirm(
+      documento
+        ? "¿Emitir la factura electrónica? Esta acción no se puede deshacer."
+        : "¿Emitir la factura electrónica a consumidor final? Esta acción no se puede deshacer."
+    );
+    if (!ok) return;
+
+    try {
+      setIssuing(true);
+      setError("");
+      setErrors({});
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tipo_documento: tipoDocumento, documento, nombre, email }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json?.fields ?? {});
+        setError(json?.fields ? "" : formatApiError(json, "Error emitiendo factura electrónica"));
+        return;
+      }
+      setInvoice(json.invoice);
+      onIssued?.(json.invoice);
+    } finally {
+      setIssuing(false);
+    }
+  }
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="text-xs font-semibold text-slate-600">Factura electrónica (DIAN)</div>
+
+      {loading ? (
+        <div className="mt-2 text-sm text-slate-600">Cargando...</div>
+      ) : invoice ? (
+        <div className="mt-2 space-y-1 text-sm text-slate-900">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-semibold">{invoice.numero_factura}</span>
+            <span
+              className={[
+                "inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold",
+                invoice.estado === "Aceptada"
+                  ? "bg-emerald-100 text-emerald-800"
+                  : invoice.estado === "Rechazada"
+                  ? "bg-red-100 text-red-800"
+                  : "bg-amber-100 text-amber-800",
+              ].join(" ")}
+            >
+              {invoice.estado}
+            </span>
+          </div>
+          <div className="text-xs text-slate-600">
+            {invoice.adquiriente_nombre} · {invoice.adquiriente_documento}
+          </div>
+          <div className="text-xs text-slate-600 break-all">CUFE: {invoice.cufe}</div>
+          {invoice.dian_mensajes.length > 0 && (
+            <ul className="list-disc pl-5 text-xs text-slate-600">
+              {invoice.dian_mensajes.map((m, i) => (
+                <li key={i}>{m}</li>
+              ))}
+            </ul>
+          )}
+          <a
+            href={`${url}?format=xml`}
+            className="inline-block text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+          >
+            Descargar XML
+          </a>
+        </div>
+      ) : !canIssue ? (
+        <div className="mt-2 text-sm text-slate-500">Sin factura electrónica emitida.</div>
+      ) : (
+        <form onSubmit={handleIssue} className="mt-3 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Tipo de documento</label>
+            <select
+              className={inputBase}
+              value={tipoDocumento}
+              onChange={(e) => setTipoDocumento(e.target.value as DianTipoDocumento)}
+            >
+              {Object.entries(DIAN_TIPOS_DOCUMENTO).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Documento</label>
+            <input
+              className={inputBase}
+              value={documento}
+              onChange={(e) => setDocumento(e.target.value)}
+              placeholder="Vacío = consumidor final"
+            />
+            {errors.documento && <p className="text-xs text-red-600 mt-1">{errors.documento}</p>}
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Nombre / razón social</label>
+            <input className={inputBase} value={nombre} onChange={(e) => setNombre(e.target.value)} />
+            {errors.nombre && <p className="text-xs text-red-600 mt-1">{errors.nombre}</p>}
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Correo</label>
+            <input
+              type="email"
+              className={inputBase}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            {errors.email && <p className="text-xs text-red-600 mt-1">{errors.email}</p>}
+          </div>
+          {error && <div className="sm:col-span-2 lg:col-span-4 text-sm text-red-600">{error}</div>}
+          <div className="sm:col-span-2 lg:col-span-4 flex justify-end">
+            <button
+              type="submit"
+              disabled={issuing}
+              className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+            >
+              {issuing ? "Emitiendo..." : "Emitir factura electrónica"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,8 @@ export type ServiceFilters = {
   abonoMax: string;
   costoFinalMin: string;
   costoFinalMax: string;
+  vencidos: boolean;
+  orden: "" | "fecha_entrega.asc";
 };
 
 export default function FiltersBar({
@@ -32,10 +34,11 @@ export default function FiltersBar({
 }: {
   search: string;
   setSearch: (v: string) => void;
-  onNew: () => void;
+  /** Sin `onNew` / `onDeleteSelected` (rol sin permiso) no se muestra el botón */
+  onNew?: () => void;
 
   selectedCount: number;
-  onDeleteSelected: () => void;
+  onDeleteSelected?: () => void;
 
   filters: ServiceFilters;
   setFilters: (f: ServiceFilters) => void;
@@ -49,26 +52,30 @@ export default function FiltersBar({
     <div className="py-4 space-y-3">
       <div className="flex flex-col lg:flex-row lg:items-center gap-3">
         <div className="flex items-center gap-2">
-          <button
-            onClick={onNew}
-            className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold"
-          >
-            + Nuevo
-          </button>
+          {onNew && (
+            <button
+              onClick={onNew}
+              className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold"
+            >
+              + Nuevo
+            </button>
+          )}
 
-          <button
-            type="button"
-            onClick={onDeleteSelected}
-            disabled={selectedCount === 0}
-            className={[
-              "rounded-md border border-slate-200 bg-white px-3 py-2 text-sm hover:bg-slate-50",
-              "text-slate-800",
-              selectedCount === 0 ? "opacity-40 cursor-not-allowed" : "",
-            ].join(" ")}
-            title={selectedCount === 0 ? "Selecciona filas para eliminar" : `Eliminar (${selectedCount})`}
-          >
-            🗑️
-          </button>
+          {onDeleteSelected && (
+            <button
+              type="button"
+              onClick={onDeleteSelected}
+              disabled={selectedCount === 0}
+              className={[
+                "rounded-md border border-slate-200 bg-white px-3 py-2 text-sm hover:bg-slate-50",
+                "text-slate-800",
+                selectedCount === 0 ? "opacity-40 cursor-not-allowed" : "",
+              ].join(" ")}
+              title={selectedCount === 0 ? "Selecciona filas para eliminar" : `Eliminar (${selectedCount})`}
+            >
+              🗑️
+            </button>
+          )}
         </div>
 
         <div className="flex-1 flex flex-col sm:flex-row items-stretch sm:items-center gap-2">
@@ -155,6 +162,30 @@ export default function FiltersBar({
               </select>
             </div>
 
+            <div>
+              <label className="text-sm font-medium text-slate-800">Entrega</label>
+              <select
+                className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500"
+                value={filters.vencidos ? "vencidos" : ""}
+                onChange={(e) => setFilters({ ...filters, vencidos: e.target.value === "vencidos" })}
+              >
+                <option value="">Todas</option>
+                <option value="vencidos">Vencidos</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-slate-800">Ordenar por</label>
+              <select
+                className="mt-1 w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500"
+                value={filters.orden}
+                onChange={(e) => setFilters({ ...filters, orden: e.target.value as ServiceFilters["orden"] })}
+              >
+                <option value="">Más recientes</option>
+                <option value="fecha_entrega.asc">Fecha de entrega</option>
+              </select>
+            </div>
+
             <div>
               <label className="text-sm font-medium text-slate-800">Abono</label>
               <select
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import {
+  INVOICE_TEMPLATES,
+  INVOICE_TEMPLATE_LABELS,
+  type InvoicePaper,
+  type InvoiceTemplate,
+} from "../../lib/schemas/invoice";
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/**
+ * Vista previa de las plantillas del PDF (`/api/services/[code]/invoice`).
+ * El PDF se pide solo al abrir el panel; la vista previa no se audita como impresión.
+ */
+export default function InvoicePreviewPanel({ code }: { code: string }) {
+  const [open, setOpen] = useState(false);
+  const [template, setTemplate] = useState<InvoiceTemplate>("factura");
+  const [paper, setPaper] = useState<InvoicePaper>("letter");
+  // Cambia con "Actualizar" para volver a generar el PDF
+  const [version, setVersion] = useState(0);
+
+  const params = new URLSearchParams({ template });
+  if (template === "factura") params.set("paper", paper);
+  const url = `/api/services/${encodeURIComponent(code)}/invoice?${params}`;
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-slate-600">Vista previa de impresión</div>
+        <button
+          type="button"
+          onClick={() => setOpen((v) => !v)}
+          className="text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+        >
+          {open ? "Ocultar" : "Mostrar"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+            <div className="sm:col-span-2">
+              <label className="text-xs font-semibold text-slate-600">Formato</label>
+              <select
+                className={inputBase}
+                value={template}
+                onChange={(e) => setTemplate(e.target.value as InvoiceTemplate)}
+              >
+                {INVOICE_TEMPLATES.map((t) => (
+                  <option key={t} value={t}>
+                    {INVOICE_TEMPLATE_LABELS[t]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {template === "factura" && (
+              <div>
+                <label className="text-xs font-semibold text-slate-600">Papel</label>
+                <select
+                  className={inputBase}
+                  value={paper}
+                  onChange={(e) => setPaper(e.target.value as InvoicePaper)}
+                >
+                  <option value="letter">Carta</option>
+                  <option value="a4">A4</option>
+                </select>
+              </div>
+            )}
+            <div className="flex gap-2 sm:col-start-4 sm:justify-end">
+              <button
+                type="button"
+                onClick={() => setVersion((v) => v + 1)}
+                className="rounded-md border border-slate-300 bg-white hover:bg-slate-100 text-slate-800 px-3 py-2 text-sm font-semibold"
+              >
+                Actualizar
+              </button>
+              <button
+                type="button"
+                onClick={() => window.open(url, "_blank")}
+                className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2 text-sm font-semibold"
+              >
+                Imprimir
+              </button>
+            </div>
+          </div>
+
+          <iframe
+            key={`${url}-${version}`}
+            src={`${url}&preview=true`}
+            title="Vista previa del PDF"
+            className="w-full h-[32rem] rounded-md border border-slate-200 bg-slate-50"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
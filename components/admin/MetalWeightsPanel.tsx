@@ -0,0 +1,246 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SERVICE_MATERIALES, type ServiceMaterial } from "../../lib/schemas/service";
+import { formatGrams, type MetalWeight } from "../../lib/schemas/metal";
+import { formatApiError, type FieldErrors } from "../../lib/schemas/fieldErrors";
+
+type WeightField = "recibido_g" | "taller_g" | "final_g" | "merma_g";
+
+const WEIGHT_COLUMNS: { field: WeightField; label: string }[] = [
+  { field: "recibido_g", label: "Metal recibido" },
+  { field: "taller_g", label: "Metal del taller" },
+  { field: "final_g", label: "Peso final" },
+  { field: "merma_g", label: "Merma" },
+];
+
+type WeightFormRow = { material: ServiceMaterial } & Record<WeightField, string>;
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/** Una fila por material; los valores vacíos se muestran vacíos, no en 0 */
+function toForm(weights: MetalWeight[]): WeightFormRow[] {
+  return SERVICE_MATERIALES.map((material) => {
+    const saved = weights.find((w) => w.material === material);
+    const value = (field: WeightField) => (saved ? String(saved[field]) : "");
+    return {
+      material,
+      recibido_g: value("recibido_g"),
+      taller_g: value("taller_g"),
+      final_g: value("final_g"),
+      merma_g: value("merma_g"),
+    };
+  });
+}
+
+const isBlank = (row: WeightFormRow) =>
+  WEIGHT_COLUMNS.every(({ field }) => !row[field].trim() || Number(row[field].replace(",", ".")) === 0);
+
+/**
+ * Pesos de metal del servicio (`/api/services/[code]/metals`): gramos
+ * recibidos del cliente, puestos por el taller, peso final y merma por material.
+ */
+export default function MetalWeightsPanel({
+  code,
+  canEdit,
+}: {
+  code: string;
+  /** El rol puede modificarlos (lib/roles/permissions → metalWeightsLock) */
+  canEdit: boolean;
+}) {
+  const [weights, setWeights] = useState<MetalWeight[]>([]);
+  const [mermaMaxima, setMermaMaxima] = useState<number | null>(null);
+  const [form, setForm] = useState<WeightFormRow[]>(() => toForm([]));
+  const [editing, setEditing] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const url = `/api/services/${encodeURIComponent(code)}/metals`;
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(url, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando pesos de metal"));
+        return;
+      }
+      setWeights(json.pesos ?? []);
+      setMermaMaxima(typeof json.merma_maxima === "number" ? json.merma_maxima : null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code]);
+
+  function startEditing() {
+    setForm(toForm(weights));
+    setErrors({});
+    setError("");
+    setEditing(true);
+  }
+
+  function setCell(material: ServiceMaterial, field: WeightField, value: string) {
+    setForm((rows) => rows.map((r) => (r.material === material ? { ...r, [field]: value } : r)));
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+
+    // Los materiales sin ningún peso no se guardan
+    const pesos = form.filter((row) => !isBlank(row));
+
+    try {
+      setSaving(true);
+      const res = await fetch(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pesos }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        // Los errores vienen por índice del arreglo enviado (pesos.<i>.<campo>)
+        const fields: FieldErrors = {};
+        for (const [key, message] of Object.entries((json?.fields ?? {}) as FieldErrors)) {
+          const [, index, field] = key.split(".");
+          const material = pesos[Number(index)]?.material;
+          fields[material && field ? `${material}.${field}` : key] = message;
+        }
+        setErrors(fields);
+        setError(json?.fields ? "" : formatApiError(json, "Error guardando pesos de metal"));
+        return;
+      }
+      setWeights(json.pesos ?? []);
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const rowErrors = (material: ServiceMaterial) =>
+    WEIGHT_COLUMNS.map(({ field }) => errors[`${material}.${field}`]).filter(Boolean);
+  const generalErrors = Object.entries(errors)
+    .filter(([key]) => !SERVICE_MATERIALES.some((m) => key.startsWith(`${m}.`)))
+    .map(([, message]) => message);
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-slate-600">Pesos de metal (g)</div>
+        {canEdit && !editing && !loading && (
+          <button
+            type="button"
+            onClick={startEditing}
+            className="text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+          >
+            {weights.length ? "Editar pesos" : "Registrar pesos"}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+      {!editing ? (
+        <div className="mt-3 overflow-x-auto">
+          {loading ? (
+            <div className="text-sm text-slate-600">Cargando pesos...</div>
+          ) : weights.length === 0 ? (
+            <div className="text-sm text-slate-600">Aún no hay pesos registrados.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-slate-500">
+                <tr>
+                  <th className="py-2 pr-3 font-semibold">MATERIAL</th>
+                  {WEIGHT_COLUMNS.map(({ field, label }) => (
+                    <th key={field} className="py-2 pr-3 text-right font-semibold">
+                      {label.toUpperCase()}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="text-slate-900">
+                {weights.map((w) => (
+                  <tr key={w.material} className="border-t border-slate-100">
+                    <td className="py-2 pr-3">{w.material}</td>
+                    {WEIGHT_COLUMNS.map(({ field }) => (
+                      <td key={field} className="py-2 pr-3 text-right">
+                        {formatGrams(w[field])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSave} className="mt-3 space-y-3">
+          {form.map((row) => (
+            <div key={row.material}>
+              <div className="text-xs font-semibold text-slate-700">{row.material}</div>
+              <div className="mt-1 grid grid-cols-2 lg:grid-cols-4 gap-3">
+                {WEIGHT_COLUMNS.map(({ field, label }) => (
+                  <div key={field}>
+                    <label className="text-xs text-slate-500">{label}</label>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min="0"
+                      step="0.01"
+                      className={inputBase}
+                      value={row[field]}
+                      onChange={(e) => setCell(row.material, field, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </div>
+              {rowErrors(row.material).map((message) => (
+                <p key={message} className="text-xs text-red-600 mt-1">
+                  {message}
+                </p>
+              ))}
+            </div>
+          ))}
+
+          {generalErrors.map((message) => (
+            <p key={message} className="text-xs text-red-600">
+              {message}
+            </p>
+          ))}
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-slate-600">
+              El peso final más la merma no puede superar el metal recibido más el del taller
+              {mermaMaxima !== null && `; merma máxima ${mermaMaxima}%`}.
+            </p>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setEditing(false)}
+                className="rounded-md border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+              >
+                Cancelar
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+              >
+                {saving ? "Guardando..." : "Guardar pesos"}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,19 @@
 "use client";
 
 import { useMemo, useState } from "react";
+import {
+  emptyServiceForm,
+  SERVICE_INITIAL_ESTADOS,
+  serviceCreateSchema,
+  type NewServiceFormValues,
+  type ServiceFormValues,
+} from "../../lib/schemas/service";
+import { PAYMENT_METODOS } from "../../lib/schemas/payment";
+import type { QuoteRequest } from "../../lib/schemas/pricing";
+import CustomerPicker from "./CustomerPicker";
+import QuoteCalculator from "./QuoteCalculator";
+import { parseMoney } from "../../lib/schemas/fields";
+import { toFieldErrors, type FieldErrors } from "../../lib/schemas/fieldErrors";
 
 type Props = {
   open: boolean;
@@ -8,73 +21,33 @@ type Props = {
   onSubmit: (data: ServiceFormData) => void;
 };
 
-export type ServiceFormData = {
-  cliente: string;
-  telefono: string;
-  maquina: string;
-  fecha: string; // YYYY-MM-DD
-  hora: string;  // HH:mm
-  estado: "Pendiente" | "En fabricación" | "Garantía" | "Entregado";
-  descripcion: string;
-  material: string;
-  agente: string;
-  almacen: string;
-  prioridad: "24 horas" | "48 horas" | "72 horas" | "Normal";
-  abono: string; // money as string (se parsea en API)
-  abonoPagado: boolean;
-  costoFinal: string; // money as string (se parsea en API)
-  costoFinalPagado: boolean;
+export type ServiceFormData = NewServiceFormValues & {
   cotizacionFile: File | null;
+  /** Datos de la calculadora (la API guarda la cotización con las tarifas vigentes) */
+  cotizacion: QuoteRequest | null;
 };
 
 const inputBase =
   "w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 placeholder:text-slate-400 outline-none focus:ring-2 focus:ring-emerald-500";
 
 export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
-  const now = useMemo(() => new Date(), []);
-  const defaultFecha = useMemo(() => now.toISOString().slice(0, 10), [now]);
-  const defaultHora = useMemo(() => {
-    const h = String(now.getHours()).padStart(2, "0");
-    const m = String(now.getMinutes()).padStart(2, "0");
-    return `${h}:${m}`;
-  }, [now]);
-
-  const [data, setData] = useState<ServiceFormData>({
-    cliente: "",
-    telefono: "",
-    maquina: "",
-    fecha: defaultFecha,
-    hora: defaultHora,
-    estado: "Pendiente",
-    descripcion: "",
-    material: "",
-    agente: "",
-    almacen: "",
-    prioridad: "24 horas",
-    abono: "",
-    abonoPagado: false,
-    costoFinal: "",
-    costoFinalPagado: false,
+  const [data, setData] = useState<ServiceFormData>(() => ({
+    ...emptyServiceForm(),
     cotizacionFile: null,
-  });
+    cotizacion: null,
+  }));
 
-  const [errors, setErrors] = useState<Record<string, string>>({});
-
-  const parseMoney = (v: string) => {
-    const normalized = String(v ?? "").trim().replace(/\s+/g, "").replace(",", ".");
-    if (!normalized) return 0;
-    return Number(normalized);
-  };
+  const [errors, setErrors] = useState<FieldErrors>({});
 
   const pagoFinalPreview = useMemo(() => {
     // No mostrar hasta que ingresen costo final (evita negativos mientras está vacío/0 por defecto)
-    if (!String(data.costoFinal ?? "").trim()) return "";
+    if (!String(data.costo_final ?? "").trim()) return "";
     const abonoNum = parseMoney(data.abono);
-    const finalNum = parseMoney(data.costoFinal);
+    const finalNum = parseMoney(data.costo_final);
     if (!Number.isFinite(abonoNum) || !Number.isFinite(finalNum)) return "";
     const diff = finalNum - abonoNum;
     return String(Number.isFinite(diff) ? diff : "");
-  }, [data.abono, data.costoFinal]);
+  }, [data.abono, data.costo_final]);
 
   // Importante: no retornar antes de hooks (regla de hooks de React)
   if (!open) return null;
@@ -89,28 +62,10 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
   }
 
   function validate() {
-    const e: Record<string, string> = {};
-    if (!data.cliente.trim()) e.cliente = "Cliente es obligatorio";
-    if (!data.telefono.trim()) e.telefono = "Teléfono es obligatorio";
-    if (!data.maquina.trim()) e.maquina = "Máquina es obligatoria";
-    if (!data.fecha) e.fecha = "Fecha es obligatoria";
-    if (!data.hora) e.hora = "Hora es obligatoria";
-    if (!data.estado) e.estado = "Estado es obligatorio";
-    if (!data.descripcion.trim()) e.descripcion = "Descripción es obligatoria";
-    if (!data.material.trim()) e.material = "Material es obligatorio";
-    if (!data.agente.trim()) e.agente = "Agente es obligatorio";
-    if (!data.almacen.trim()) e.almacen = "Almacén es obligatorio";
-    if (!data.prioridad) e.prioridad = "Prioridad es obligatoria";
-    if (!String(data.costoFinal).trim()) e.costoFinal = "Costo final es obligatorio";
-
-    const abonoNum = parseMoney(data.abono);
-    const finalNum = parseMoney(data.costoFinal);
-    if (!Number.isFinite(finalNum) || finalNum < 0) e.costoFinal = "Costo final inválido";
-    if (String(data.abono).trim() && (!Number.isFinite(abonoNum) || abonoNum < 0)) e.abono = "Abono inválido";
-    if (Number.isFinite(abonoNum) && Number.isFinite(finalNum) && abonoNum > finalNum) {
-      e.abono = "El abono no puede ser mayor al costo final";
-    }
-    // 👉 si quieres que sea obligatoria, descomenta:
+    // Mismo esquema que usa la API (POST /api/services)
+    const parsed = serviceCreateSchema.safeParse(data);
+    const e = parsed.success ? {} : toFieldErrors(parsed.error);
+    // 👉 si quieres que la cotización sea obligatoria, descomenta:
     // if (!data.cotizacionFile) e.cotizacionFile = "La cotización es obligatoria";
 
     setErrors(e);
@@ -147,10 +102,19 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
               {/* Cliente */}
               <div>
                 <label className="text-sm font-medium text-slate-800">Cliente</label>
-                <input
+                <CustomerPicker
                   className={inputBase}
                   value={data.cliente}
-                  onChange={(e) => setField("cliente", e.target.value)}
+                  selectedId={data.customer_id}
+                  onTextChange={(text) => {
+                    setField("cliente", text);
+                    setField("customer_id", null);
+                  }}
+                  onSelect={(customer) => {
+                    setField("customer_id", customer.id);
+                    setField("cliente", customer.nombre);
+                    if (customer.telefonos[0]) setField("telefono", customer.telefonos[0]);
+                  }}
                 />
                 {errors.cliente && <p className="text-xs text-red-600 mt-1">{errors.cliente}</p>}
               </div>
@@ -186,6 +150,7 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                   value={data.fecha}
                   onChange={(e) => setField("fecha", e.target.value)}
                 />
+                {errors.fecha && <p className="text-xs text-red-600 mt-1">{errors.fecha}</p>}
               </div>
 
               {/* Hora */}
@@ -197,6 +162,7 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                   value={data.hora}
                   onChange={(e) => setField("hora", e.target.value)}
                 />
+                {errors.hora && <p className="text-xs text-red-600 mt-1">{errors.hora}</p>}
               </div>
 
               {/* Estado */}
@@ -205,13 +171,13 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                 <select
                   className={inputBase}
                   value={data.estado}
-                  onChange={(e) => setField("estado", e.target.value as ServiceFormData["estado"])}
+                  onChange={(e) => setField("estado", e.target.value as ServiceFormValues["estado"])}
                 >
-                  <option>Pendiente</option>
-                  <option>En fabricación</option>
-                  <option>Garantía</option>
-                  <option>Entregado</option>
+                  {SERVICE_INITIAL_ESTADOS.map((estado) => (
+                    <option key={estado}>{estado}</option>
+                  ))}
                 </select>
+                {errors.estado && <p className="text-xs text-red-600 mt-1">{errors.estado}</p>}
               </div>
 
               {/* Descripción */}
@@ -223,6 +189,7 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                   value={data.descripcion}
                   onChange={(e) => setField("descripcion", e.target.value)}
                 />
+                {errors.descripcion && <p className="text-xs text-red-600 mt-1">{errors.descripcion}</p>}
               </div>
 
               {/* Material */}
@@ -231,7 +198,7 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                 <select
                   className={inputBase}
                   value={data.material}
-                  onChange={(e) => setField("material", e.target.value)}
+                  onChange={(e) => setField("material", e.target.value as ServiceFormValues["material"])}
                   required
                 >
                   <option value="">Selecciona un material</option>
@@ -251,6 +218,7 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                   value={data.agente}
                   onChange={(e) => setField("agente", e.target.value)}
                 />
+                {errors.agente && <p className="text-xs text-red-600 mt-1">{errors.agente}</p>}
               </div>
 
               {/* Almacén */}
@@ -261,6 +229,7 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                   value={data.almacen}
                   onChange={(e) => setField("almacen", e.target.value)}
                 />
+                {errors.almacen && <p className="text-xs text-red-600 mt-1">{errors.almacen}</p>}
               </div>
 
               {/* Prioridad */}
@@ -270,7 +239,7 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                   className={inputBase}
                   value={data.prioridad}
                   onChange={(e) =>
-                    setField("prioridad", e.target.value as ServiceFormData["prioridad"])
+                    setField("prioridad", e.target.value as ServiceFormValues["prioridad"])
                   }
                 >
                   <option>24 horas</option>
@@ -297,8 +266,8 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                 <label className="mt-2 inline-flex items-center gap-2 text-sm text-slate-700">
                   <input
                     type="checkbox"
-                    checked={data.abonoPagado}
-                    onChange={(e) => setField("abonoPagado", e.target.checked)}
+                    checked={data.abono_pagado}
+                    onChange={(e) => setField("abono_pagado", e.target.checked)}
                   />
                   Abono pagado
                 </label>
@@ -313,19 +282,19 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                   min="0"
                   step="1"
                   className={inputBase}
-                  value={data.costoFinal}
-                  onChange={(e) => setField("costoFinal", e.target.value)}
+                  value={data.costo_final}
+                  onChange={(e) => setField("costo_final", e.target.value)}
                   placeholder="0"
                   required
                 />
-                {errors.costoFinal && (
-                  <p className="text-xs text-red-600 mt-1">{errors.costoFinal}</p>
+                {errors.costo_final && (
+                  <p className="text-xs text-red-600 mt-1">{errors.costo_final}</p>
                 )}
                 <label className="mt-2 inline-flex items-center gap-2 text-sm text-slate-700">
                   <input
                     type="checkbox"
-                    checked={data.costoFinalPagado}
-                    onChange={(e) => setField("costoFinalPagado", e.target.checked)}
+                    checked={data.costo_final_pagado}
+                    onChange={(e) => setField("costo_final_pagado", e.target.checked)}
                   />
                   Costo final pagado
                 </label>
@@ -346,6 +315,41 @@ export default function NewServiceModal({ open, onClose, onSubmit }: Props) {
                 </p>
               </div>
 
+              {/* Método de los pagos marcados como recibidos */}
+              {(data.abono_pagado || data.costo_final_pagado) && (
+                <div>
+                  <label className="text-sm font-medium text-slate-800">Método de pago</label>
+                  <select
+                    className={inputBase}
+                    value={data.metodo_pago}
+                    onChange={(e) =>
+                      setField("metodo_pago", e.target.value as ServiceFormData["metodo_pago"])
+                    }
+                  >
+                    {PAYMENT_METODOS.map((m) => (
+                      <option key={m}>{m}</option>
+                    ))}
+                  </select>
+                  {errors.metodo_pago && (
+                    <p className="text-xs text-red-600 mt-1">{errors.metodo_pago}</p>
+                  )}
+                  <p className="mt-1 text-xs text-slate-600">
+                    Se registra en el historial de pagos del servicio.
+                  </p>
+                </div>
+              )}
+
+              {/* Calculadora: propone el costo final con la tabla de precios */}
+              <div className="md:col-span-3">
+                <QuoteCalculator
+                  material={data.material}
+                  onApply={(total, request) => {
+                    setField("costo_final", String(total));
+                    setField("cotizacion", request);
+                  }}
+                />
+              </div>
+
               {/* Cotización */}
               <div className="md:col-span-3">
                 <label className="text-sm font-medium text-slate-800">Cotización (archivo)</label>
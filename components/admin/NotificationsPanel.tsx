@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  NOTIFICATION_CANAL_LABELS,
+  NOTIFICATION_EVENTO_LABELS,
+  READY_NOTICE_ESTADOS,
+  type NotificationEstado,
+  type NotificationLogEntry,
+} from "../../lib/schemas/notification";
+import type { ServiceEstado } from "../../lib/schemas/service";
+import { formatApiError } from "../../lib/schemas/fieldErrors";
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("es-CO", { dateStyle: "short", timeStyle: "short" });
+}
+
+const ESTADO_CLASSES: Record<NotificationEstado, string> = {
+  enviado: "text-emerald-700",
+  fallido: "text-red-600",
+  omitido: "text-slate-500",
+};
+
+/** El envío sale después de la respuesta: se vuelve a consultar al rato */
+const RELOAD_AFTER_SEND_MS = 3000;
+
+/**
+ * Notificaciones enviadas al cliente (`/api/services/[code]/notifications`):
+ * evento, canal, destino y resultado de cada envío, y el aviso manual de
+ * pieza lista para recoger.
+ */
+export default function NotificationsPanel({
+  code,
+  estado,
+  canNotify,
+  refreshKey,
+}: {
+  code: string;
+  estado: ServiceEstado;
+  /** El rol puede avisar que está lista (`estados.cambiar`) */
+  canNotify: boolean;
+  /** Al cambiar se vuelve a consultar (p. ej. después de un cambio de estado) */
+  refreshKey?: unknown;
+}) {
+  const [entries, setEntries] = useState<NotificationLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [notice, setNotice] = useState("");
+  const [error, setError] = useState("");
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(`/api/services/${encodeURIComponent(code)}/notifications`, {
+        method: "GET",
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando notificaciones"));
+        return;
+      }
+      setError("");
+      setEntries(json.notifications ?? []);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, refreshKey]);
+
+  async function handleReady() {
+    try {
+      setSending(true);
+      setError("");
+      setNotice("");
+      const res = await fetch(`/api/services/${encodeURIComponent(code)}/notifications`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ evento: "listo_para_recoger" }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error enviando el aviso"));
+        return;
+      }
+      setNotice("Aviso en camino al cliente");
+      setTimeout(load, RELOAD_AFTER_SEND_MS);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const canSendReady = canNotify && READY_NOTICE_ESTADOS.includes(estado);
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-slate-600">Notificaciones al cliente</div>
+        {canSendReady && (
+          <button
+            type="button"
+            onClick={handleReady}
+            disabled={sending}
+            className="rounded-md border border-slate-200 bg-white hover:bg-slate-50 px-3 py-1 text-xs font-semibold text-slate-900 disabled:opacity-60"
+          >
+            {sending ? "Enviando..." : "📣 Avisar que está lista"}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+      {notice && <div className="mt-2 text-sm text-emerald-700">{notice}</div>}
+
+      {loading && entries.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-600">Cargando...</div>
+      ) : entries.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-500">
+          Sin notificaciones (el cliente debe autorizarlas en su ficha).
+        </div>
+      ) : (
+        <ul className="mt-2 divide-y divide-slate-100">
+          {entries.map((n) => (
+            <li key={n.id} className="py-2 text-sm">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <span className="text-slate-900">
+                  <span className="font-semibold">{NOTIFICATION_EVENTO_LABELS[n.evento] ?? n.evento}</span>{" "}
+                  · {NOTIFICATION_CANAL_LABELS[n.canal] ?? n.canal}
+                  {n.destino ? ` · ${n.destino}` : ""}
+                </span>
+                <span className="text-xs text-slate-500">
+                  <span className={`font-semibold ${ESTADO_CLASSES[n.estado]}`}>{n.estado}</span> ·{" "}
+                  {formatDateTime(n.created_at)}
+                </span>
+              </div>
+              {n.error && <div className="mt-0.5 text-xs text-red-600 break-words">{n.error}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  PAYMENT_METODOS,
+  paymentCreateSchema,
+  paymentStatus,
+  type Payment,
+  type PaymentMetodo,
+  type ServiceBalance,
+} from "../../lib/schemas/payment";
+import { todayISODate } from "../../lib/schemas/fields";
+import { formatApiError, toFieldErrors, type FieldErrors } from "../../lib/schemas/fieldErrors";
+
+function formatDateDDMMYYYY(dateStr: string) {
+  const [yyyy, mm, dd] = String(dateStr).split("-");
+  if (yyyy && mm && dd) return `${dd}-${mm}-${yyyy}`;
+  return String(dateStr);
+}
+
+function formatCOP(value: number) {
+  const v = Number(value ?? 0);
+  if (!Number.isFinite(v)) return "CO$ 0";
+  try {
+    return new Intl.NumberFormat("es-CO", {
+      style: "currency",
+      currency: "COP",
+      maximumFractionDigits: 0,
+    }).format(v);
+  } catch {
+    return `CO$ ${Math.round(v)}`;
+  }
+}
+
+type PaymentFormValues = {
+  fecha: string;
+  monto: string;
+  metodo: PaymentMetodo;
+  agente: string;
+  referencia: string;
+};
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/**
+ * Historial de pagos de un servicio (`/api/services/[code]/payments`):
+ * lista, saldo pendiente y formulario para registrar un pago nuevo.
+ */
+export default function PaymentsPanel({
+  code,
+  defaultAgente,
+  onChange,
+  canRegister = true,
+  canDelete = true,
+  refreshKey,
+}: {
+  code: string;
+  defaultAgente: string;
+  onChange?: (balance: ServiceBalance) => void;
+  /** Permisos `pagos.registrar` / `pagos.eliminar` del usuario */
+  canRegister?: boolean;
+  canDelete?: boolean;
+  /** Al cambiar se vuelve a consultar (p. ej. si cambian las piedras y componentes) */
+  refreshKey?: unknown;
+}) {
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [balance, setBalance] = useState<ServiceBalance | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const emptyForm = (): PaymentFormValues => ({
+    fecha: todayISODate(),
+    monto: "",
+    metodo: "Efectivo",
+    agente: defaultAgente,
+    referencia: "",
+  });
+  const [form, setForm] = useState<PaymentFormValues>(emptyForm);
+
+  const url = `/api/services/${encodeURIComponent(code)}/payments`;
+
+  function setField<K extends keyof PaymentFormValues>(key: K, value: PaymentFormValues[K]) {
+    setForm((p) => ({ ...p, [key]: value }));
+  }
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(url, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando pagos"));
+        return;
+      }
+      setPayments(json.payments ?? []);
+      setBalance(json.balance ?? null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, refreshKey]);
+
+  async function handleAdd(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+
+    const parsed = paymentCreateSchema.safeParse(form);
+    if (!parsed.success) {
+      setErrors(toFieldErrors(parsed.error));
+      return;
+    }
+    setErrors({});
+
+    try {
+      setSaving(true);
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json?.fields ?? {});
+        setError(json?.fields ? "" : formatApiError(json, "Error registrando pago"));
+        return;
+      }
+      setForm(emptyForm());
+      await load();
+      onChange?.(json.balance);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(payment: Payment) {
+    const ok = confirm(`¿Eliminar el pago de ${formatCOP(payment.monto)} del ${formatDateDDMMYYYY(payment.fecha)}?`);
+    if (!ok) return;
+
+    const res = await fetch(`${url}/${encodeURIComponent(payment.id)}`, { method: "DELETE" });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(formatApiError(json, "Error eliminando pago"));
+      return;
+    }
+    await load();
+    onChange?.(json.balance);
+  }
+
+  const status = balance ? paymentStatus(balance) : null;
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-slate-600">Historial de pagos</div>
+        {status && (
+          <span
+            className={[
+              "inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold",
+              status === "Pagado"
+                ? "bg-emerald-100 text-emerald-800"
+                : status === "Parcial"
+                ? "bg-amber-100 text-amber-800"
+                : "bg-slate-100 text-slate-700",
+            ].join(" ")}
+          >
+            {status}
+          </span>
+        )}
+      </div>
+
+      {balance && (
+        <div className="mt-2 grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="rounded-md border border-slate-200 p-3">
+            <div className="text-xs text-slate-500">Total</div>
+            <div className="text-sm font-semibold text-slate-900">{formatCOP(balance.costo_final)}</div>
+          </div>
+          <div className="rounded-md border border-slate-200 p-3">
+            <div className="text-xs text-slate-500">Total pagado</div>
+            <div className="text-sm font-semibold text-slate-900">{formatCOP(balance.total_pagado)}</div>
+          </div>
+          <div className="rounded-md border border-slate-200 p-3">
+            <div className="text-xs text-slate-500">Saldo pendiente</div>
+            <div className="text-sm font-semibold text-slate-900">{formatCOP(balance.saldo)}</div>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+      <div className="mt-3 overflow-x-auto">
+        {loading ? (
+          <div className="text-sm text-slate-600">Cargando pagos...</div>
+        ) : payments.length === 0 ? (
+          <div className="text-sm text-slate-600">Aún no hay pagos registrados.</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-slate-500">
+              <tr>
+                <th className="py-2 pr-3 font-semibold">FECHA</th>
+                <th className="py-2 pr-3 text-right font-semibold">MONTO</th>
+                <th className="py-2 pr-3 font-semibold">MÉTODO</th>
+                <th className="py-2 pr-3 font-semibold">AGENTE</th>
+                <th className="py-2 pr-3 font-semibold">REFERENCIA</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="text-slate-900">
+              {payments.map((p) => (
+                <tr key={p.id} className="border-t border-slate-100">
+                  <td className="py-2 pr-3">{formatDateDDMMYYYY(p.fecha)}</td>
+                  <td className="py-2 pr-3 text-right font-semibold">{formatCOP(p.monto)}</td>
+                  <td className="py-2 pr-3">{p.metodo}</td>
+                  <td className="py-2 pr-3">{p.agente}</td>
+                  <td className="py-2 pr-3 break-words">{p.referencia ?? ""}</td>
+                  <td className="py-2 text-right">
+                    {canDelete && (
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(p)}
+                        className="text-xs font-semibold text-red-600 hover:text-red-700"
+                      >
+                        Eliminar
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canRegister && balance && balance.saldo > 0 && (
+        <form onSubmit={handleAdd} className="mt-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Fecha</label>
+            <input
+              type="date"
+              className={inputBase}
+              value={form.fecha}
+              onChange={(e) => setField("fecha", e.target.value)}
+            />
+            {errors.fecha && <p className="text-xs text-red-600 mt-1">{errors.fecha}</p>}
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Monto (COP)</label>
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="1"
+              className={inputBase}
+              value={form.monto}
+              onChange={(e) => setField("monto", e.target.value)}
+              placeholder={String(balance.saldo)}
+            />
+            {errors.monto && <p className="text-xs text-red-600 mt-1">{errors.monto}</p>}
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Método</label>
+            <select
+              className={inputBase}
+              value={form.metodo}
+              onChange={(e) => setField("metodo", e.target.value as PaymentMetodo)}
+            >
+              {PAYMENT_METODOS.map((m) => (
+                <option key={m}>{m}</option>
+              ))}
+            </select>
+            {errors.metodo && <p className="text-xs text-red-600 mt-1">{errors.metodo}</p>}
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Recibido por</label>
+            <input
+              className={inputBase}
+              value={form.agente}
+              onChange={(e) => setField("agente", e.target.value)}
+            />
+            {errors.agente && <p className="text-xs text-red-600 mt-1">{errors.agente}</p>}
+          </div>
+          <div>
+            <label className="text-xs font-semibold text-slate-600">Referencia</label>
+            <input
+              className={inputBase}
+              value={form.referencia}
+              onChange={(e) => setField("referencia", e.target.value)}
+              placeholder="Voucher, # transferencia..."
+            />
+            {errors.referencia && <p className="text-xs text-red-600 mt-1">{errors.referencia}</p>}
+          </div>
+          <div className="sm:col-span-2 lg:col-span-5 flex justify-end">
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+            >
+              {saving ? "Registrando..." : "Registrar pago"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
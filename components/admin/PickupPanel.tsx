@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ServiceEstado } from "../../lib/schemas/service";
+import type { ClaimStatus } from "../../lib/schemas/claim";
+import { formatApiError } from "../../lib/schemas/fieldErrors";
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("es-CO", { dateStyle: "short", timeStyle: "short" });
+}
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/**
+ * Retiro de la pieza (`/api/services/[code]/claim`): el cliente presenta el QR
+ * o el PIN de su tiquete y se verifica antes de pasar a "Entregado".
+ */
+export default function PickupPanel({
+  code,
+  estado,
+  onChange,
+  canManage = true,
+}: {
+  code: string;
+  estado: ServiceEstado;
+  onChange?: () => void;
+  /** false: solo se muestra el estado (rol sin `retiros.gestionar`) */
+  canManage?: boolean;
+}) {
+  const [claim, setClaim] = useState<ClaimStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [codigo, setCodigo] = useState("");
+
+  const url = `/api/services/${encodeURIComponent(code)}/claim`;
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(url, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando el tiquete de retiro"));
+        return;
+      }
+      setClaim(json.claim ?? null);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, estado]);
+
+  async function handleVerify() {
+    if (!codigo.trim()) {
+      setError("Escanea el QR o digita el PIN");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError("");
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ codigo }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error verificando el retiro"));
+        return;
+      }
+      setCodigo("");
+      setClaim(json.claim);
+      onChange?.();
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleReprint() {
+    window.open(`${url}/receipt`, "_blank");
+  }
+
+  const verified = Boolean(claim?.verified_at);
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-slate-600">Retiro</div>
+        {canManage && (
+          <button
+            type="button"
+            onClick={handleReprint}
+            className="rounded-md border border-slate-200 bg-white hover:bg-slate-50 px-3 py-1 text-xs font-semibold text-slate-900"
+          >
+            🎫 Reimprimir tiquete
+          </button>
+        )}
+      </div>
+
+      {loading && !claim ? (
+        <div className="mt-2 text-sm text-slate-600">Cargando...</div>
+      ) : claim?.verified_at ? (
+        <div className="mt-2 text-sm text-emerald-700">
+          ✅ Retiro verificado el {formatDateTime(claim.verified_at)}
+          {claim.verified_by ? ` · ${claim.verified_by}` : ""}
+        </div>
+      ) : estado === "Entregado" ? (
+        <div className="mt-2 text-sm text-slate-600">Entregado sin verificación registrada.</div>
+      ) : (
+        <div className="mt-2 text-sm text-slate-600">
+          Pendiente: se debe verificar el QR o el PIN del tiquete antes de entregar.
+        </div>
+      )}
+
+      {canManage && !verified && estado !== "Entregado" && (
+        <div className="mt-3 flex flex-col sm:flex-row gap-2">
+          <input
+            className={inputBase}
+            value={codigo}
+            onChange={(e) => setCodigo(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleVerify();
+              }
+            }}
+            placeholder="Escanea el QR o digita el PIN"
+            autoComplete="off"
+          />
+          <button
+            type="button"
+            disabled={saving}
+            onClick={handleVerify}
+            className="shrink-0 rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2 text-sm font-semibold disabled:opacity-60"
+          >
+            {saving ? "Verificando..." : "Verificar retiro"}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
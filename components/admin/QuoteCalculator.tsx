@@ -0,0 +1,307 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  computeQuote,
+  priceFor,
+  quoteRequestSchema,
+  type LaborRate,
+  type MetalPrice,
+  type QuoteRequest,
+} from "../../lib/schemas/pricing";
+import type { QuoteSnapshot } from "../../lib/schemas/quote";
+import type { ServiceMaterial } from "../../lib/schemas/service";
+import { formatApiError, toFieldErrors } from "../../lib/schemas/fieldErrors";
+
+function formatCOP(value: number) {
+  const v = Number(value ?? 0);
+  if (!Number.isFinite(v)) return "CO$ 0";
+  try {
+    return new Intl.NumberFormat("es-CO", {
+      style: "currency",
+      currency: "COP",
+      maximumFractionDigits: 0,
+    }).format(v);
+  } catch {
+    return `CO$ ${Math.round(v)}`;
+  }
+}
+
+function formatDateDDMMYYYY(dateStr: string) {
+  const [yyyy, mm, dd] = String(dateStr).split("-");
+  if (yyyy && mm && dd) return `${dd}-${mm}-${yyyy}`;
+  return String(dateStr);
+}
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+type EngasteRow = { tarifa_id: string; cantidad: string };
+
+/** Renglones de la cotización: metal, mano de obra y engastes */
+function QuoteLines({ quote }: { quote: QuoteSnapshot }) {
+  const lines: [string, number][] = [
+    [`${quote.material}: ${quote.peso_g} g × ${formatCOP(quote.precio_gramo)}`, quote.metal],
+    ...(quote.mano_obra ? [[quote.mano_obra.nombre, quote.mano_obra.valor] as [string, number]] : []),
+    ...quote.engastes.map(
+      (e) => [`${e.nombre} × ${e.cantidad}`, e.subtotal] as [string, number]
+    ),
+  ];
+
+  return (
+    <table className="w-full text-sm">
+      <tbody className="text-slate-900">
+        {lines.map(([label, value], i) => (
+          <tr key={i} className="border-t border-slate-100 first:border-t-0">
+            <td className="py-1 pr-3">{label}</td>
+            <td className="py-1 text-right">{formatCOP(value)}</td>
+          </tr>
+        ))}
+        <tr className="border-t border-slate-200">
+          <td className="py-1 pr-3 font-semibold">Total</td>
+          <td className="py-1 text-right font-semibold">{formatCOP(quote.total)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+/** Cotización guardada en el servicio (precios del día en que se cotizó) */
+export function QuoteSummary({ quote }: { quote: QuoteSnapshot }) {
+  return (
+    <div className="rounded-md border border-slate-200 p-3">
+      <div className="text-xs text-slate-500">
+        Cotización (precio del {formatDateDDMMYYYY(quote.fecha_precio)})
+      </div>
+      <div className="mt-1">
+        <QuoteLines quote={quote} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Calculadora de cotizaciones: peso × precio del gramo vigente + mano de obra
+ * + engastes (`/api/pricing`). Propone el costo final; el servidor recalcula
+ * con las mismas tarifas y guarda la copia en el servicio.
+ */
+export default function QuoteCalculator({
+  material,
+  initialPeso,
+  onApply,
+}: {
+  material: ServiceMaterial | "";
+  initialPeso?: number;
+  /** "Usar como costo final": total y datos que se envían en el campo `cotizacion` */
+  onApply: (total: number, request: QuoteRequest) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [precios, setPrecios] = useState<MetalPrice[]>([]);
+  const [tarifas, setTarifas] = useState<LaborRate[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState("");
+
+  const [peso, setPeso] = useState(initialPeso ? String(initialPeso) : "");
+  const [trabajoId, setTrabajoId] = useState("");
+  const [engastes, setEngastes] = useState<EngasteRow[]>([]);
+  const [applied, setApplied] = useState(false);
+
+  async function load() {
+    const res = await fetch("/api/pricing", { method: "GET" });
+    const json = await res.json();
+    if (!res.ok) {
+      setError(formatApiError(json, "Error cargando tarifas"));
+      return;
+    }
+    setPrecios(json.precios ?? []);
+    setTarifas(json.tarifas ?? []);
+    setLoaded(true);
+  }
+
+  useEffect(() => {
+    if (open && !loaded) load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const trabajos = tarifas.filter((t) => t.tipo === "trabajo");
+  const engasteRates = tarifas.filter((t) => t.tipo === "engaste");
+
+  const request = useMemo(
+    () =>
+      quoteRequestSchema.safeParse({
+        material,
+        peso_g: peso,
+        trabajo_id: trabajoId,
+        engastes: engastes.filter((e) => e.tarifa_id),
+      }),
+    [material, peso, trabajoId, engastes]
+  );
+
+  const result = useMemo(
+    () => (request.success ? computeQuote(request.data, precios, tarifas) : null),
+    [request, precios, tarifas]
+  );
+
+  const errors = request.success ? (result && !result.valid ? result.fields : {}) : toFieldErrors(request.error);
+  const price = material ? priceFor(precios, material) : undefined;
+
+  function setEngaste(index: number, patch: Partial<EngasteRow>) {
+    setEngastes((rows) => rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+    setApplied(false);
+  }
+
+  function handleApply() {
+    if (!request.success || !result?.valid) return;
+    onApply(result.quote.total, request.data);
+    setApplied(true);
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+      >
+        Calcular con la tabla de precios
+      </button>
+    );
+  }
+
+  return (
+    <div className="rounded-md border border-slate-200 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-slate-600">Calculadora de cotización</div>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+        >
+          Cerrar
+        </button>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {!loaded && !error ? (
+        <div className="text-sm text-slate-600">Cargando tarifas...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-semibold text-slate-600">Peso del metal (g)</label>
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.01"
+                className={inputBase}
+                value={peso}
+                onChange={(e) => {
+                  setPeso(e.target.value);
+                  setApplied(false);
+                }}
+              />
+              <p className="mt-1 text-xs text-slate-500">
+                {!material
+                  ? "Selecciona el material del servicio."
+                  : price
+                  ? `${material}: ${formatCOP(price.precio_gramo)}/g (desde el ${formatDateDDMMYYYY(price.fecha)})`
+                  : `No hay precio registrado para ${material}.`}
+              </p>
+              {errors.peso_g && <p className="text-xs text-red-600 mt-1">{errors.peso_g}</p>}
+            </div>
+            <div>
+              <label className="text-xs font-semibold text-slate-600">Mano de obra</label>
+              <select
+                className={inputBase}
+                value={trabajoId}
+                onChange={(e) => {
+                  setTrabajoId(e.target.value);
+                  setApplied(false);
+                }}
+              >
+                <option value="">Sin mano de obra</option>
+                {trabajos.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.nombre} ({formatCOP(t.valor)})
+                  </option>
+                ))}
+              </select>
+              {errors.trabajo_id && <p className="text-xs text-red-600 mt-1">{errors.trabajo_id}</p>}
+            </div>
+          </div>
+
+          {engasteRates.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs font-semibold text-slate-600">Engastes</div>
+              {engastes.map((row, i) => (
+                <div key={i} className="flex gap-2">
+                  <select
+                    className={inputBase}
+                    value={row.tarifa_id}
+                    onChange={(e) => setEngaste(i, { tarifa_id: e.target.value })}
+                  >
+                    <option value="">Selecciona el engaste</option>
+                    {engasteRates.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.nombre} ({formatCOP(t.valor)} c/u)
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    className={[inputBase, "w-24"].join(" ")}
+                    value={row.cantidad}
+                    onChange={(e) => setEngaste(i, { cantidad: e.target.value })}
+                    aria-label="Cantidad de piedras"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEngastes((rows) => rows.filter((_, j) => j !== i));
+                      setApplied(false);
+                    }}
+                    className="text-xs font-semibold text-red-600 hover:text-red-700"
+                  >
+                    Quitar
+                  </button>
+                </div>
+              ))}
+              {Object.entries(errors)
+                .filter(([key]) => key.startsWith("engastes"))
+                .map(([key, message]) => (
+                  <p key={key} className="text-xs text-red-600">
+                    {message}
+                  </p>
+                ))}
+              <button
+                type="button"
+                onClick={() => setEngastes((rows) => [...rows, { tarifa_id: "", cantidad: "1" }])}
+                className="text-xs font-semibold text-emerald-700 hover:text-emerald-800"
+              >
+                + Agregar engaste
+              </button>
+            </div>
+          )}
+
+          {result?.valid && <QuoteLines quote={result.quote} />}
+
+          <div className="flex items-center justify-end gap-3">
+            {applied && <span className="text-xs text-emerald-700">Aplicado al costo final.</span>}
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={!result?.valid}
+              className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+            >
+              Usar como costo final
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
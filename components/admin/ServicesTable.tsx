@@ -1,22 +1,26 @@
 "use client";
 
 import { useEffect, useMemo, useRef } from "react";
+import { serviceBalance, type Service } from "../../lib/schemas/service";
+import { paymentStatus, type PaymentStatus } from "../../lib/schemas/payment";
+import { slaStatus, type SlaEstado } from "../../lib/sla/due";
 
-export type ServiceRow = {
-  code: string;
-  client: string;
-  phone: string;
-  machine: string;
-  description: string;
-  material: string;
-  status: "Pendiente" | "En fabricación" | "Garantía" | "Entregado";
-  abono: number;
-  abonoPaid: boolean;
-  finalCost: number;
-  finalPaid: boolean;
-  finalPayment: number; // pago_final (costo final - abono)
-  date: string;
-};
+function formatDateDDMMYYYY(dateStr: string) {
+  const [yyyy, mm, dd] = String(dateStr).split("-");
+  if (yyyy && mm && dd) return `${dd}-${mm}-${yyyy}`;
+  return String(dateStr);
+}
+
+function formatDueDate(iso: string | null | undefined) {
+  if (!iso) return "—";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "—";
+  return d.toLocaleString("es-CO", {
+    timeZone: "America/Bogota",
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+}
 
 function formatCOP(value: number) {
   const v = Number(value ?? 0);
@@ -32,15 +36,33 @@ function formatCOP(value: number) {
   }
 }
 
-function PaidBadge({ paid }: { paid: boolean }) {
+function PaidBadge({ status }: { status: PaymentStatus }) {
   return (
     <span
       className={[
         "inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-semibold",
-        paid ? "bg-emerald-100 text-emerald-800" : "bg-slate-100 text-slate-700",
+        status === "Pagado"
+          ? "bg-emerald-100 text-emerald-800"
+          : status === "Parcial"
+          ? "bg-amber-100 text-amber-800"
+          : "bg-slate-100 text-slate-700",
       ].join(" ")}
     >
-      {paid ? "Pagado" : "Pendiente"}
+      {status}
+    </span>
+  );
+}
+
+function SlaBadge({ status }: { status: SlaEstado | null }) {
+  if (!status || status === "A tiempo") return null;
+  return (
+    <span
+      className={[
+        "inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-semibold",
+        status === "Vencido" ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800",
+      ].join(" ")}
+    >
+      {status}
     </span>
   );
 }
@@ -56,7 +78,7 @@ export default function ServicesTable({
   onPageChange,
   totalRecords = 0,
 }: {
-  rows: ServiceRow[];
+  rows: Service[];
   selectedCodes: Set<string>;
   onToggle: (code: string) => void;
   onToggleAll: () => void;
@@ -116,54 +138,59 @@ export default function ServicesTable({
                   <span
                     className={[
                       "inline-flex items-center rounded-full px-2.5 py-1 text-[11px] font-semibold shrink-0",
-                      r.status === "Pendiente"
+                      r.estado === "Pendiente"
                         ? "bg-amber-100 text-amber-800"
-                        : r.status === "En fabricación"
+                        : r.estado === "En fabricación"
                         ? "bg-blue-100 text-blue-800"
-                        : r.status === "Garantía"
+                        : r.estado === "Garantía"
                         ? "bg-purple-100 text-purple-800"
                         : "bg-emerald-100 text-emerald-800",
                     ].join(" ")}
                   >
-                    {r.status}
+                    {r.estado}
                   </span>
                 </div>
 
                 <div className="grid grid-cols-1 gap-1 text-xs text-slate-700 sm:grid-cols-2">
                   <div>
                     <span className="font-semibold">Cliente: </span>
-                    <span className="break-all">{r.client}</span>
+                    <span className="break-all">{r.cliente}</span>
                   </div>
                   <div>
                     <span className="font-semibold">Teléfono: </span>
-                    <span>{r.phone}</span>
+                    <span>{r.telefono}</span>
                   </div>
                   <div>
                     <span className="font-semibold">Máquina: </span>
-                    <span>{r.machine}</span>
+                    <span>{r.maquina}</span>
                   </div>
                   <div>
                     <span className="font-semibold">Fecha: </span>
-                    <span>{r.date}</span>
+                    <span>{formatDateDDMMYYYY(r.fecha)}</span>
+                  </div>
+                  <div>
+                    <span className="font-semibold">Entrega: </span>
+                    <span className="mr-2">{formatDueDate(r.fecha_entrega)}</span>
+                    <SlaBadge status={slaStatus(r)} />
                   </div>
                   <div>
                     <span className="font-semibold">Abono: </span>
                     <span className="mr-2">{formatCOP(r.abono)}</span>
-                    <PaidBadge paid={r.abonoPaid} />
+                    <PaidBadge status={r.abono_pagado ? "Pagado" : "Pendiente"} />
                   </div>
                   <div>
-                    <span className="font-semibold">Pago final: </span>
-                    <span className="mr-2">{formatCOP(r.finalPayment)}</span>
+                    <span className="font-semibold">Saldo: </span>
+                    <span className="mr-2">{formatCOP(serviceBalance(r).saldo)}</span>
                   </div>
                   <div>
                     <span className="font-semibold">Costo final: </span>
-                    <span className="mr-2">{formatCOP(r.finalCost)}</span>
-                    <PaidBadge paid={r.finalPaid} />
+                    <span className="mr-2">{formatCOP(r.costo_final)}</span>
+                    <PaidBadge status={paymentStatus(serviceBalance(r))} />
                   </div>
                   <div className="sm:col-span-2">
                     <span className="font-semibold">Descripción: </span>
-                    <span className="truncate-2-lines break-words block" title={r.description}>
-                      {r.description}
+                    <span className="truncate-2-lines break-words block" title={r.descripcion}>
+                      {r.descripcion}
                     </span>
                   </div>
                 </div>
@@ -175,7 +202,7 @@ export default function ServicesTable({
 
       {/* Vista escritorio: tabla */}
       <div className="hidden md:block overflow-x-auto">
-        <table className="min-w-full md:min-w-[1180px] w-full text-sm">
+        <table className="min-w-full md:min-w-[1300px] w-full text-sm">
           <thead className="bg-slate-50 text-slate-800 border-b border-slate-200">
             <tr className="text-left">
               <th className="p-3 w-10">
@@ -195,9 +222,10 @@ export default function ServicesTable({
               <th className="p-3 font-semibold">MATERIAL</th>
               <th className="p-3 font-semibold">ESTADO</th>
               <th className="p-3 text-right font-semibold">ABONO</th>
-              <th className="p-3 text-right font-semibold">PAGO FINAL</th>
+              <th className="p-3 text-right font-semibold">SALDO</th>
               <th className="p-3 text-right font-semibold">COSTO FINAL</th>
               <th className="p-3 font-semibold">FECHA</th>
+              <th className="p-3 font-semibold">ENTREGA</th>
             </tr>
           </thead>
 
@@ -223,12 +251,12 @@ export default function ServicesTable({
                   </td>
 
                   <td className="p-3 font-semibold text-slate-900">{r.code}</td>
-                  <td className="p-3 font-medium text-slate-900">{r.client}</td>
-                  <td className="p-3 text-slate-800">{r.phone}</td>
-                  <td className="p-3 text-slate-800">{r.machine}</td>
+                  <td className="p-3 font-medium text-slate-900">{r.cliente}</td>
+                  <td className="p-3 text-slate-800">{r.telefono}</td>
+                  <td className="p-3 text-slate-800">{r.maquina}</td>
                   <td className="p-3 text-slate-800 w-[360px]">
-                    <div className="truncate-2-lines break-words" title={r.description}>
-                      {r.description}
+                    <div className="truncate-2-lines break-words" title={r.descripcion}>
+                      {r.descripcion}
                     </div>
                   </td>
                   <td className="p-3 text-slate-800">{r.material}</td>
@@ -237,35 +265,41 @@ export default function ServicesTable({
                     <span
                       className={[
                         "inline-flex items-center rounded-full px-2.5 py-1 text-xs font-semibold",
-                        r.status === "Pendiente"
+                        r.estado === "Pendiente"
                           ? "bg-amber-100 text-amber-800"
-                          : r.status === "En fabricación"
+                          : r.estado === "En fabricación"
                           ? "bg-blue-100 text-blue-800"
-                          : r.status === "Garantía"
+                          : r.estado === "Garantía"
                           ? "bg-purple-100 text-purple-800"
                           : "bg-emerald-100 text-emerald-800",
                       ].join(" ")}
                     >
-                      {r.status}
+                      {r.estado}
                     </span>
                   </td>
 
                   <td className="p-3 text-right text-slate-800">
                     <div className="flex flex-col items-end gap-1">
                       <span className="font-semibold">{formatCOP(r.abono)}</span>
-                      <PaidBadge paid={r.abonoPaid} />
+                      <PaidBadge status={r.abono_pagado ? "Pagado" : "Pendiente"} />
                     </div>
                   </td>
                   <td className="p-3 text-right text-slate-800">
-                    <span className="font-semibold">{formatCOP(r.finalPayment)}</span>
+                    <span className="font-semibold">{formatCOP(serviceBalance(r).saldo)}</span>
                   </td>
                   <td className="p-3 text-right text-slate-800">
                     <div className="flex flex-col items-end gap-1">
-                      <span className="font-semibold">{formatCOP(r.finalCost)}</span>
-                      <PaidBadge paid={r.finalPaid} />
+                      <span className="font-semibold">{formatCOP(r.costo_final)}</span>
+                      <PaidBadge status={paymentStatus(serviceBalance(r))} />
+                    </div>
+                  </td>
+                  <td className="p-3 text-slate-800">{formatDateDDMMYYYY(r.fecha)}</td>
+                  <td className="p-3 text-slate-800">
+                    <div className="flex flex-col items-start gap-1">
+                      <span className="whitespace-nowrap">{formatDueDate(r.fecha_entrega)}</span>
+                      <SlaBadge status={slaStatus(r)} />
                     </div>
                   </td>
-                  <td className="p-3 text-slate-800">{r.date}</td>
                 </tr>
               );
             })}
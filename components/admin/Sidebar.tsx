@@ -4,6 +4,8 @@ import Image from "next/image";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useAuth } from "../../lib/hooks/useAuth";
+import { usePermissions } from "../../lib/hooks/usePermissions";
+import { ROLE_LABELS } from "../../lib/schemas/role";
 
 const NavItem = ({ label, href, active }: { label: string; href: string; active?: boolean }) => (
   <Link
@@ -22,6 +24,7 @@ const NavItem = ({ label, href, active }: { label: string; href: string; active?
 
 export default function Sidebar({ onClose }: { onClose?: () => void }) {
   const { user, signOut } = useAuth();
+  const { role, can } = usePermissions();
   const pathname = usePathname();
   const userInitial = user?.email?.charAt(0).toUpperCase() || "U";
 
@@ -82,8 +85,68 @@ export default function Sidebar({ onClose }: { onClose?: () => void }) {
               href="/app/historial" 
               active={pathname === "/app/historial"} 
             />
+            <NavItem
+              label="Clientes"
+              href="/app/clientes"
+              active={pathname.startsWith("/app/clientes")}
+            />
+            {can("papelera.gestionar") && (
+              <NavItem
+                label="Papelera"
+                href="/app/papelera"
+                active={pathname === "/app/papelera"}
+              />
+            )}
           </div>
         </div>
+
+        {can("inventario.ver") && (
+          <div>
+            <div className="px-3 text-xs font-semibold text-slate-400 uppercase tracking-wide mb-2">
+              Taller
+            </div>
+
+            <div className="space-y-1">
+              <NavItem
+                label="Inventario"
+                href="/app/inventario"
+                active={pathname === "/app/inventario"}
+              />
+            </div>
+          </div>
+        )}
+
+        {(can("usuarios.gestionar") || can("configuracion.gestionar") || can("tarifas.gestionar")) && (
+          <div>
+            <div className="px-3 text-xs font-semibold text-slate-400 uppercase tracking-wide mb-2">
+              Administración
+            </div>
+
+            <div className="space-y-1">
+              {can("usuarios.gestionar") && (
+                <NavItem
+                  label="Usuarios"
+                  href="/app/usuarios"
+                  active={pathname === "/app/usuarios"}
+                />
+              )}
+              {can("tarifas.gestionar") && (
+                <NavItem
+                  label="Tarifas"
+                  href="/app/tarifas"
+                  active={pathname === "/app/tarifas"}
+                />
+              )}
+              {can("configuracion.gestionar") && (
+                <NavItem
+                  label="Configuración"
+                  href="/app/configuracion"
+                  active={pathname === "/app/configuracion"}
+                />
+              )}
+            </div>
+          </div>
+        )}
       </nav>
 
       {/* Footer fijo abajo */}
@@ -94,6 +157,7 @@ export default function Sidebar({ onClose }: { onClose?: () => void }) {
           </div>
           <div className="flex-1 min-w-0">
             <div className="text-xs text-slate-300 truncate">{user?.email || "Usuario"}</div>
+            {role && <div className="text-xs text-slate-500 truncate">{ROLE_LABELS[role]}</div>}
           </div>
         </div>
         <button
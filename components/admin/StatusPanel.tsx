@@ -0,0 +1,153 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Service, ServiceEstado } from "../../lib/schemas/service";
+import type { StatusHistoryEntry } from "../../lib/schemas/status";
+import { formatApiError } from "../../lib/schemas/fieldErrors";
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("es-CO", { dateStyle: "short", timeStyle: "short" });
+}
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+/**
+ * Flujo de estados del servicio (`/api/services/[code]/status`):
+ * acciones de transición permitidas y línea de tiempo de cambios.
+ */
+export default function StatusPanel({
+  code,
+  estado,
+  onChange,
+  canChange = true,
+}: {
+  code: string;
+  estado: ServiceEstado;
+  onChange?: (service: Service) => void;
+  /** false: solo se muestra el historial (rol sin `estados.cambiar`) */
+  canChange?: boolean;
+}) {
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
+  const [transitions, setTransitions] = useState<ServiceEstado[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+  const [nota, setNota] = useState("");
+
+  const url = `/api/services/${encodeURIComponent(code)}/status`;
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(url, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando historial de estados"));
+        return;
+      }
+      setHistory(json.history ?? []);
+      setTransitions(json.transitions ?? []);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, estado]);
+
+  async function handleTransition(to: ServiceEstado) {
+    const ok = confirm(`¿Cambiar el estado a "${to}"?`);
+    if (!ok) return;
+
+    try {
+      setSaving(true);
+      setError("");
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ estado: to, nota }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cambiando estado"));
+        return;
+      }
+      setNota("");
+      setHistory((prev) => [...prev, json.entry]);
+      setTransitions(json.transitions ?? []);
+      onChange?.(json.service);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="text-xs font-semibold text-slate-600">Estado</div>
+      <div className="text-sm font-semibold text-slate-900">{estado}</div>
+
+      {canChange && transitions.length > 0 && (
+        <div className="mt-3 flex flex-col sm:flex-row gap-2">
+          <input
+            className={inputBase}
+            value={nota}
+            onChange={(e) => setNota(e.target.value)}
+            placeholder="Nota (opcional)"
+          />
+          <div className="flex flex-wrap gap-2 shrink-0">
+            {transitions.map((to) => (
+              <button
+                key={to}
+                type="button"
+                disabled={saving}
+                onClick={() => handleTransition(to)}
+                className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2 text-sm font-semibold disabled:opacity-60"
+              >
+                → {to}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+
+      <div className="mt-4 text-xs font-semibold text-slate-600">Historial</div>
+      {loading && history.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-600">Cargando...</div>
+      ) : history.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-500">Sin cambios de estado registrados.</div>
+      ) : (
+        <ol className="mt-2 space-y-2 border-l border-slate-200 pl-4">
+          {history
+            .slice()
+            .reverse()
+            .map((h) => (
+              <li key={h.id} className="text-sm">
+                <div className="text-slate-900">
+                  {h.de ? (
+                    <>
+                      {h.de} → <span className="font-semibold">{h.a}</span>
+                    </>
+                  ) : (
+                    <>
+                      Creado como <span className="font-semibold">{h.a}</span>
+                    </>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {formatDateTime(h.created_at)} · {h.usuario}
+                </div>
+                {h.nota && <div className="text-xs text-slate-600 whitespace-pre-wrap">{h.nota}</div>}
+              </li>
+            ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { Service, ServiceEstado } from "../../lib/schemas/service";
+import type { ServiceWarranty, WarrantyCoverage, WarrantyStatus } from "../../lib/schemas/warranty";
+import { formatApiError, type FieldErrors } from "../../lib/schemas/fieldErrors";
+
+function formatDateDDMMYYYY(dateStr: string) {
+  const [yyyy, mm, dd] = String(dateStr).split("-");
+  if (yyyy && mm && dd) return `${dd}-${mm}-${yyyy}`;
+  return String(dateStr);
+}
+
+const inputBase =
+  "w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-base sm:text-sm text-slate-900 outline-none focus:ring-2 focus:ring-emerald-500";
+
+const serviceHref = (code: string) => `/app/services/${encodeURIComponent(code)}`;
+
+type WarrantyInfo = {
+  garantia: ServiceWarranty | null;
+  estado: WarrantyStatus | null;
+  cobertura: WarrantyCoverage | null;
+  reclamos: Service[];
+};
+
+/**
+ * Garantía del servicio (`/api/services/[code]/warranty`): cobertura,
+ * vencimiento y reclamos. Un reclamo abre un servicio nuevo enlazado, sin costo.
+ */
+export default function WarrantyPanel({
+  code,
+  estado,
+  garantiaDe,
+  canClaim,
+  onClaimed,
+}: {
+  code: string;
+  estado: ServiceEstado;
+  /** Código del servicio original si este es un reclamo */
+  garantiaDe: string | null;
+  /** El rol puede reclamar (`garantias.reclamar`) */
+  canClaim: boolean;
+  /** Servicio creado por el reclamo */
+  onClaimed?: (service: Service) => void;
+}) {
+  const [info, setInfo] = useState<WarrantyInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [motivo, setMotivo] = useState("");
+  const [error, setError] = useState("");
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const url = `/api/services/${encodeURIComponent(code)}/warranty`;
+
+  async function load() {
+    try {
+      setLoading(true);
+      const res = await fetch(url, { method: "GET" });
+      const json = await res.json();
+      if (!res.ok) {
+        setError(formatApiError(json, "Error cargando la garantía"));
+        return;
+      }
+      setError("");
+      setInfo(json);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [code, estado]);
+
+  async function handleClaim(e: React.FormEvent) {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      setError("");
+      setErrors({});
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ motivo }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        setErrors(json?.fields ?? {});
+        setError(json?.fields ? "" : formatApiError(json, "Error reclamando la garantía"));
+        return;
+      }
+      setMotivo("");
+      setClaiming(false);
+      await load();
+      onClaimed?.(json.service);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const garantia = info?.garantia ?? null;
+  const vigente = info?.estado?.vigente ?? false;
+  const canOpenClaim = canClaim && !garantiaDe && estado === "Entregado" && vigente;
+
+  return (
+    <div className="rounded-md border border-slate-200 p-4 md:col-span-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-xs font-semibold text-slate-600">Garantía</div>
+        {canOpenClaim && !claiming && (
+          <button
+            type="button"
+            onClick={() => setClaiming(true)}
+            className="rounded-md border border-slate-200 bg-white hover:bg-slate-50 px-3 py-1 text-xs font-semibold text-slate-900"
+          >
+            🛠️ Reclamar garantía
+          </button>
+        )}
+      </div>
+
+      {loading && !info ? (
+        <div className="mt-2 text-sm text-slate-600">Cargando...</div>
+      ) : (
+        <div className="mt-2 space-y-1 text-sm text-slate-700">
+          {garantiaDe && (
+            <div>
+              Reclamo de garantía del servicio{" "}
+              <Link href={serviceHref(garantiaDe)} className="font-semibold text-emerald-700 hover:text-emerald-800">
+                {garantiaDe}
+              </Link>{" "}
+              (sin costo para el cliente).
+            </div>
+          )}
+
+          {garantia ? (
+            <div>
+              {garantia.dias} días
+              {garantia.tipo_trabajo ? ` por ${garantia.tipo_trabajo}` : ""} desde el{" "}
+              {formatDateDDMMYYYY(garantia.inicio)} ·{" "}
+              {vigente ? (
+                <span className="font-semibold text-emerald-700">
+                  Vigente hasta el {formatDateDDMMYYYY(garantia.vence)} ({info?.estado?.dias_restantes} días)
+                </span>
+              ) : (
+                <span className="font-semibold text-red-600">Vencida el {formatDateDDMMYYYY(garantia.vence)}</span>
+              )}
+            </div>
+          ) : info?.cobertura ? (
+            <div className="text-slate-600">
+              {info.cobertura.dias} días desde la entrega
+              {info.cobertura.tipo_trabajo ? ` por ${info.cobertura.tipo_trabajo}` : ""} (se registra al entregar).
+            </div>
+          ) : null}
+
+          {!!info?.reclamos.length && (
+            <div>
+              Reclamos:{" "}
+              {info.reclamos.map((r, i) => (
+                <span key={r.code}>
+                  {i > 0 && ", "}
+                  <Link href={serviceHref(r.code)} className="font-semibold text-emerald-700 hover:text-emerald-800">
+                    {r.code}
+                  </Link>{" "}
+                  ({r.estado})
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {claiming && (
+        <form onSubmit={handleClaim} className="mt-3 space-y-2">
+          <label className="text-xs text-slate-500">Motivo del reclamo</label>
+          <textarea
+            className={inputBase}
+            rows={3}
+            value={motivo}
+            placeholder="Qué falla presenta la pieza"
+            onChange={(e) => setMotivo(e.target.value)}
+          />
+          {errors.motivo && <p className="text-xs text-red-600">{errors.motivo}</p>}
+          <p className="text-xs text-slate-500">
+            Se abre un servicio nuevo en estado &quot;Garantía&quot;, sin costo y enlazado a este.
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setClaiming(false)}
+              className="rounded-md border border-slate-200 px-4 py-2 text-sm font-semibold text-slate-700 hover:bg-slate-50"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-md bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 text-sm font-semibold disabled:opacity-60"
+            >
+              {saving ? "Creando..." : "Abrir reclamo"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { buildAttachmentPath, buildThumbnailPath, getAttachmentRepository } from "../repositories";
+import type { AttachmentCategoria, ServiceAttachment } from "../schemas/attachment";
+import type { InspectedUpload } from "./inspect";
+
+/**
+ * Adjuntos del servicio: subida (archivo, miniatura y fila), eliminación con
+ * limpieza del bucket y purga de archivos huérfanos.
+ *
+ * Un archivo queda huérfano si se subió pero la fila no se guardó, si falló
+ * su borrado o si el servicio se eliminó definitivamente (las filas se borran
+ * en cascada). La purga los elimina pasados ADJUNTOS_HUERFANOS_DIAS (7 por
+ * defecto), para no tocar subidas en curso.
+ */
+
+const DEFAULT_ORPHAN_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Archivos que se borran del bucket por llamada */
+const REMOVE_BATCH = 100;
+
+/** Vigencia de las URLs firmadas (el bucket es privado) */
+export const SIGNED_URL_SECONDS = 60;
+
+/** Archivo y miniatura del adjunto */
+function attachmentFiles(attachment: Pick<ServiceAttachment, "path" | "thumb_path">) {
+  return attachment.thumb_path ? [attachment.path, attachment.thumb_path] : [attachment.path];
+}
+
+/** Sube el archivo ya revisado (inspectUpload) y registra el adjunto */
+export async function saveAttachment(
+  serviceCode: string,
+  upload: InspectedUpload,
+  categoria: AttachmentCategoria,
+  createdBy: string | null
+): Promise<ServiceAttachment> {
+  const attachments = getAttachmentRepository();
+  const path = buildAttachmentPath(upload.ext);
+  const thumb_path = upload.thumbnail ? buildThumbnailPath(path) : null;
+
+  // Si algo falla a mitad, lo subido queda huérfano y lo elimina la purga
+  await attachments.uploadFile(path, { bytes: upload.bytes, contentType: upload.contentType });
+  if (upload.thumbnail && thumb_path) {
+    await attachments.uploadFile(thumb_path, { bytes: upload.thumbnail, contentType: "image/jpeg" });
+  }
+
+  try {
+    return await attachments.create({
+      service_code: serviceCode,
+      categoria,
+      path,
+      thumb_path,
+      nombre: upload.nombre,
+      content_type: upload.contentType,
+      size: upload.bytes.byteLength,
+      created_by: createdBy,
+    });
+  } catch (err) {
+    await attachments.removeFiles(attachmentFiles({ path, thumb_path })).catch(() => undefined);
+    throw err;
+  }
+}
+
+/**
+ * Elimina el adjunto y su archivo. Si el bucket falla, el archivo queda
+ * huérfano y lo elimina la purga.
+ */
+export async function deleteAttachment(attachment: ServiceAttachment) {
+  const attachments = getAttachmentRepository();
+  const deleted = await attachments.delete(attachment.id);
+  if (!deleted) return false;
+
+  try {
+    await attachments.removeFiles(attachmentFiles(attachment));
+  } catch (err) {
+    console.error(`Error borrando el archivo ${attachment.path}:`, err);
+  }
+  return true;
+}
+
+/** Días que se conserva un archivo sin adjunto antes de purgarlo */
+export function orphanRetentionDays(env: NodeJS.ProcessEnv = process.env) {
+  const n = Number(env.ADJUNTOS_HUERFANOS_DIAS);
+  return env.ADJUNTOS_HUERFANOS_DIAS && Number.isInteger(n) && n > 0 ? n : DEFAULT_ORPHAN_DAYS;
+}
+
+/** Elimina del bucket los archivos sin adjunto más antiguos que la retención */
+export async function purgeOrphanFiles(now = new Date(), env: NodeJS.ProcessEnv = process.env) {
+  const attachments = getAttachmentRepository();
+  const cutoff = now.getTime() - orphanRetentionDays(env) * DAY_MS;
+
+  const candidates = (await attachments.listFiles())
+    .filter((f) => new Date(f.created_at).getTime() < cutoff)
+    .map((f) => f.path);
+  if (!candidates.length) return { eliminados: [] as string[] };
+
+  const referenced = await attachments.existingPaths(candidates);
+  const orphans = candidates.filter((path) => !referenced.has(path));
+
+  for (let i = 0; i < orphans.length; i += REMOVE_BATCH) {
+    await attachments.removeFiles(orphans.slice(i, i + REMOVE_BATCH));
+  }
+  return { eliminados: orphans };
+}
@@ -0,0 +1,46 @@
+import sharp from "sharp";
+import type { DetectedFileType } from "../security/fileType";
+
+/**
+ * Procesamiento de fotos subidas: se vuelven a codificar (sin EXIF, GPS ni
+ * otros metadatos), las grandes se reducen a tamaño web y se genera una
+ * miniatura JPEG para el detalle del servicio.
+ */
+
+/** Lado mayor de la versión web (las más pequeñas no se amplían) */
+const WEB_MAX_SIZE = 2048;
+/** Miniatura cuadrada */
+const THUMBNAIL_SIZE = 320;
+/** Píxeles máximos de la imagen original (evita bombas de descompresión) */
+const MAX_INPUT_PIXELS = 50_000_000;
+
+export type ProcessedImage = {
+  /** Versión web en el mismo formato (PNG o JPEG) */
+  bytes: Uint8Array;
+  thumbnail: Uint8Array;
+};
+
+export async function processImage(bytes: Uint8Array, type: DetectedFileType): Promise<ProcessedImage> {
+  // rotate() aplica la orientación EXIF antes de descartar los metadatos
+  const source = sharp(bytes, { failOn: "error", limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+
+  const resized = source.clone().resize({
+    width: WEB_MAX_SIZE,
+    height: WEB_MAX_SIZE,
+    fit: "inside",
+    withoutEnlargement: true,
+  });
+  const web =
+    type.ext === "png"
+      ? resized.png({ compressionLevel: 9 })
+      : resized.jpeg({ quality: 85, mozjpeg: true });
+
+  const thumbnail = source
+    .clone()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 75 });
+
+  const [webBytes, thumbnailBytes] = await Promise.all([web.toBuffer(), thumbnail.toBuffer()]);
+  return { bytes: new Uint8Array(webBytes), thumbnail: new Uint8Array(thumbnailBytes) };
+}
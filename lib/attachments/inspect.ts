@@ -0,0 +1,66 @@
+import { detectFileType } from "../security/fileType";
+import { findPdfActiveContent } from "../security/pdfScan";
+import { processImage } from "./images";
+
+/**
+ * Revisión del contenido de un archivo antes de guardarlo como adjunto
+ * (después de validateFile, que solo mira el tamaño):
+ * - el tipo se detecta por su firma, no por lo que declara el navegador
+ * - las imágenes se vuelven a codificar sin metadatos, con versión web y miniatura
+ * - los PDF con JavaScript, acciones, archivos incrustados o contenido que
+ *   no se puede revisar se rechazan
+ * - los DOC con macros se rechazan
+ */
+
+export type InspectedUpload = {
+  /** Nombre original (solo para mostrar y descargar) */
+  nombre: string;
+  /** Extensión y tipo según el contenido */
+  ext: string;
+  contentType: string;
+  bytes: Uint8Array;
+  /** Miniatura JPEG (solo imágenes) */
+  thumbnail: Uint8Array | null;
+};
+
+export type UploadInspection =
+  | { valid: true; upload: InspectedUpload }
+  | { valid: false; error: string };
+
+/** Nombre original con la extensión real (un .pdf que es PNG pasa a .png) */
+function displayName(name: string, ext: string) {
+  const base = name.trim().replace(/\.[^.]*$/, "") || "adjunto";
+  return `${base}.${ext}`;
+}
+
+export async function inspectUpload(file: File): Promise<UploadInspection> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const type = detectFileType(bytes);
+  if (!type) {
+    return {
+      valid: false,
+      error: "El contenido del archivo no es PDF, PNG, JPG, DOC ni DOCX",
+    };
+  }
+
+  const base = { nombre: displayName(file.name, type.ext), ext: type.ext, contentType: type.contentType };
+
+  if (type.kind === "pdf") {
+    const found = findPdfActiveContent(bytes);
+    if (found) {
+      return { valid: false, error: `El PDF no se acepta: contiene ${found}` };
+    }
+  }
+
+  if (type.kind === "image") {
+    try {
+      const image = await processImage(bytes, type);
+      return { valid: true, upload: { ...base, bytes: image.bytes, thumbnail: image.thumbnail } };
+    } catch (err) {
+      console.error(`Error procesando la imagen ${file.name}:`, err);
+      return { valid: false, error: "La imagen está dañada o no se puede procesar" };
+    }
+  }
+
+  return { valid: true, upload: { ...base, bytes, thumbnail: null } };
+}
@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { auditActor, clientIp, diffFields, recordAudit } from "./log";
+import { createMemoryAuditRepository, getAuditRepository, setAuditRepository } from "../repositories";
+import { auditListQuerySchema } from "../schemas/audit";
+
+const user = { id: "user-1", email: "ana@taller.co" };
+
+describe("cambios auditados", () => {
+  it("solo registra los campos que cambiaron", () => {
+    expect(
+      diffFields(
+        { cliente: "Ana", costo_final: 100_000, descripcion: null, updated_at: "a", saldo: 100_000 },
+        { cliente: "Ana", costo_final: 90_000, descripcion: undefined, updated_at: "b", saldo: 0 }
+      )
+    ).toEqual({ costo_final: { antes: 100_000, despues: 90_000 } });
+  });
+
+  it("la creación y la eliminación comparan contra null", () => {
+    expect(diffFields(null, { id: "p1", monto: 20_000 })).toEqual({ monto: { antes: null, despues: 20_000 } });
+    expect(diffFields({ monto: 20_000 }, null)).toEqual({ monto: { antes: 20_000, despues: null } });
+  });
+
+  it("compara objetos por valor", () => {
+    expect(diffFields({ cotizacion: { total: 1 } }, { cotizacion: { total: 1 } })).toEqual({});
+  });
+});
+
+describe("origen de la operación", () => {
+  it("toma la primera IP del proxy", () => {
+    const req = new Request("http://test", { headers: { "x-forwarded-for": "190.24.1.7, 10.0.0.1" } });
+    expect(clientIp(req)).toBe("190.24.1.7");
+    expect(clientIp(new Request("http://test", { headers: { "x-real-ip": "190.24.1.8" } }))).toBe("190.24.1.8");
+    expect(clientIp(new Request("http://test"))).toBeNull();
+  });
+
+  it("identifica al usuario por correo o, sin correo, por id", () => {
+    expect(auditActor(user)).toBe("ana@taller.co");
+    expect(auditActor({ id: "user-2", email: null })).toBe("user-2");
+  });
+});
+
+describe("registro de auditoría", () => {
+  beforeEach(() => {
+    setAuditRepository(createMemoryAuditRepository());
+  });
+
+  it("guarda actor, acción, servicio, cambios e IP", async () => {
+    const req = new Request("http://test", { headers: { "x-forwarded-for": "190.24.1.7" } });
+    await recordAudit(req, user, "actualizar", "SRV-0001", { cliente: { antes: "Ana", despues: "Ana María" } });
+
+    const [entry] = await getAuditRepository().list(auditListQuerySchema.parse({}));
+    expect(entry).toMatchObject({
+      actor: "ana@taller.co",
+      accion: "actualizar",
+      service_code: "SRV-0001",
+      cambios: { cliente: { antes: "Ana", despues: "Ana María" } },
+      ip: "190.24.1.7",
+    });
+  });
+
+  it("un fallo del registro no rompe la operación ya guardada", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    setAuditRepository({
+      list: async () => [],
+      append: async () => {
+        throw new Error("audit_log no disponible");
+      },
+    });
+
+    await expect(recordAudit(new Request("http://test"), user, "eliminar", "SRV-0001")).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,69 @@
+import { getAuditRepository } from "../repositories";
+import type { AuditAccion, AuditChanges } from "../schemas/audit";
+
+/**
+ * Registro de auditoría de las rutas API.
+ *
+ * Se llama después de que la operación se guardó: si el registro falla se
+ * reporta en el log del servidor pero no se revierte ni se cambia la
+ * respuesta de la operación.
+ */
+
+/** Campos calculados o de sistema que no se comparan */
+const IGNORED_FIELDS = new Set(["id", "created_at", "updated_at", "total_pagado", "saldo"]);
+
+/** Usuario autenticado (requireAuth) como texto legible */
+export function auditActor(user: { id: string; email?: string | null }) {
+  return user.email || user.id;
+}
+
+/** IP del cliente según los encabezados del proxy */
+export function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim() || null;
+  return req.headers.get("x-real-ip");
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Campos que cambiaron entre dos versiones de un registro.
+ * `before` vacío = creación; `after` vacío = eliminación.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key)) continue;
+    const antes = before?.[key] ?? null;
+    const despues = after?.[key] ?? null;
+    if (!sameValue(antes, despues)) changes[key] = { antes, despues };
+  }
+  return changes;
+}
+
+export async function recordAudit(
+  req: Request,
+  user: { id: string; email?: string | null },
+  accion: AuditAccion,
+  serviceCode: string | null,
+  cambios: AuditChanges = {}
+) {
+  try {
+    await getAuditRepository().append({
+      actor: auditActor(user),
+      accion,
+      service_code: serviceCode,
+      cambios,
+      ip: clientIp(req),
+    });
+  } catch (err) {
+    console.error(`Error registrando auditoría (${accion} ${serviceCode ?? ""}):`, err);
+  }
+}
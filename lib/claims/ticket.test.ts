@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { claimMatches, ensureClaim, generateClaimSecrets, isPickupVerified, trackingUrl, verifyPickup } from "./ticket";
+import { createMemoryClaimRepository, getClaimRepository, setClaimRepository } from "../repositories";
+import { CLAIM_LOCKOUT_MINUTES, CLAIM_MAX_ATTEMPTS, claimMismatchMessage } from "../schemas/claim";
+
+const secrets = { token: "q7Zk3V9mN2xR8tYb4LcW1pQs", pin: "042517" };
+
+describe("tiquete de retiro", () => {
+  beforeEach(async () => {
+    setClaimRepository(createMemoryClaimRepository());
+    await getClaimRepository().create("SRV-0001", secrets);
+  });
+
+  it("genera PIN de 6 dígitos y token para URL", () => {
+    const { pin, token } = generateClaimSecrets();
+    expect(pin).toMatch(/^[0-9]{6}$/);
+    expect(token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+  });
+
+  it("acepta el PIN, el token o la URL completa del QR", async () => {
+    const claim = await ensureClaim("SRV-0001");
+    expect(claimMatches(claim, " 042517 ")).toBe(true);
+    expect(claimMatches(claim, secrets.token)).toBe(true);
+    expect(claimMatches(claim, `${trackingUrl("https://taller.co", secrets.token)}?utm=qr`)).toBe(true);
+    expect(claimMatches(claim, "042518")).toBe(false);
+    expect(claimMatches(claim, "https://taller.co/seguimiento/otro")).toBe(false);
+  });
+
+  it("verifica el retiro con el PIN correcto", async () => {
+    const result = await verifyPickup("SRV-0001", "042517", "ana");
+    expect(result.ok).toBe(true);
+    expect(await isPickupVerified("SRV-0001")).toBe(true);
+  });
+
+  it("cuenta los intentos fallidos y bloquea al agotarlos", async () => {
+    const first = await verifyPickup("SRV-0001", "000000", "ana");
+    expect(first).toMatchObject({ ok: false, intentos_fallidos: 1, bloqueado_hasta: null });
+    expect(!first.ok && first.message).toBe(claimMismatchMessage(CLAIM_MAX_ATTEMPTS - 1));
+
+    for (let i = 2; i < CLAIM_MAX_ATTEMPTS; i++) await verifyPickup("SRV-0001", "000000", "ana");
+    const last = await verifyPickup("SRV-0001", "000000", "ana");
+    expect(last.ok).toBe(false);
+    expect(!last.ok && last.bloqueado_hasta).toBeTruthy();
+
+    // Bloqueado: ni el PIN correcto pasa, y no suma intentos
+    const locked = await verifyPickup("SRV-0001", "042517", "ana");
+    expect(locked).toMatchObject({ ok: false, intentos_fallidos: 0 });
+    expect(!locked.ok && locked.message).toMatch(/bloqueada hasta las \d{2}:\d{2}/);
+    expect(await isPickupVerified("SRV-0001")).toBe(false);
+
+    // Pasado el bloqueo se puede verificar y los intentos vuelven a cero
+    const later = new Date(Date.now() + (CLAIM_LOCKOUT_MINUTES + 1) * 60_000);
+    expect((await verifyPickup("SRV-0001", "042517", "ana", later)).ok).toBe(true);
+    expect(await getClaimRepository().getByServiceCode("SRV-0001")).toMatchObject({
+      intentos_fallidos: 0,
+      bloqueado_hasta: null,
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import { getClaimRepository } from "../repositories";
+import {
+  CLAIM_LOCKOUT_MINUTES,
+  CLAIM_MAX_ATTEMPTS,
+  CLAIM_PIN_LENGTH,
+  claimLockedMessage,
+  claimMismatchMessage,
+  type ClaimStatus,
+  type ServiceClaim,
+} from "../schemas/claim";
+
+/**
+ * Tiquete de retiro del servicio: token para el QR (URL de seguimiento) y PIN
+ * corto para digitar. La entrega exige verificar uno de los dos
+ * (lib/status/workflow). Tras CLAIM_MAX_ATTEMPTS intentos fallidos seguidos
+ * la verificación del servicio se bloquea CLAIM_LOCKOUT_MINUTES.
+ */
+
+const TRACKING_PATH = "/seguimiento/";
+
+export function generateClaimSecrets() {
+  return {
+    token: crypto.randomBytes(24).toString("base64url"),
+    pin: String(crypto.randomInt(0, 10 ** CLAIM_PIN_LENGTH)).padStart(CLAIM_PIN_LENGTH, "0"),
+  };
+}
+
+/** Tiquete del servicio; los servicios anteriores al tiquete lo reciben al pedirlo */
+export async function ensureClaim(serviceCode: string): Promise<ServiceClaim> {
+  const claims = getClaimRepository();
+  return (
+    (await claims.getByServiceCode(serviceCode)) ??
+    (await claims.create(serviceCode, generateClaimSecrets()))
+  );
+}
+
+/** Contenido del QR: página pública de seguimiento del servicio */
+export function trackingUrl(origin: string, token: string) {
+  return `${origin}${TRACKING_PATH}${encodeURIComponent(token)}`;
+}
+
+/** Lo que se muestra en el detalle (sin token ni PIN) */
+export function claimStatus(claim: ServiceClaim): ClaimStatus {
+  return {
+    created_at: claim.created_at,
+    verified_at: claim.verified_at,
+    verified_by: claim.verified_by,
+  };
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * ¿El texto escaneado o digitado corresponde al tiquete?
+ * Acepta el PIN, el token o la URL completa del QR (lectores que "escriben" el QR).
+ */
+export function claimMatches(claim: ServiceClaim, input: string) {
+  const value = input.trim();
+  if (safeEqual(value, claim.pin)) return true;
+
+  const index = value.indexOf(TRACKING_PATH);
+  const token = index >= 0 ? tokenFromPath(value.slice(index + TRACKING_PATH.length)) : value;
+  return safeEqual(token, claim.token);
+}
+
+/** Token al final de la URL de seguimiento (sin query ni hash) */
+function tokenFromPath(path: string) {
+  const segment = path.split(/[?#/]/)[0];
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/** ¿La verificación del servicio está bloqueada por intentos fallidos? */
+function lockedUntil(claim: ServiceClaim, now: Date) {
+  return claim.bloqueado_hasta && Date.parse(claim.bloqueado_hasta) > now.getTime() ? claim.bloqueado_hasta : null;
+}
+
+export type PickupVerification =
+  | { ok: true; claim: ServiceClaim }
+  | {
+      ok: false;
+      message: string;
+      /** Fin del bloqueo (ISO) si la verificación quedó o ya estaba bloqueada */
+      bloqueado_hasta: string | null;
+      /** Intentos fallidos seguidos (0 al bloquearse) */
+      intentos_fallidos: number;
+    };
+
+/**
+ * Verifica el QR o PIN. Cada fallo suma un intento; bloqueada, la
+ * verificación se rechaza sin comparar hasta que pase el bloqueo.
+ */
+export async function verifyPickup(
+  serviceCode: string,
+  input: string,
+  verifiedBy: string,
+  now: Date = new Date()
+): Promise<PickupVerification> {
+  const claims = getClaimRepository();
+  const claim = await ensureClaim(serviceCode);
+
+  const bloqueado = lockedUntil(claim, now);
+  if (bloqueado) {
+    return {
+      ok: false,
+      message: claimLockedMessage(bloqueado),
+      bloqueado_hasta: bloqueado,
+      intentos_fallidos: claim.intentos_fallidos,
+    };
+  }
+
+  if (!claimMatches(claim, input)) {
+    const failed = await claims.recordFailedAttempt(serviceCode, {
+      maxAttempts: CLAIM_MAX_ATTEMPTS,
+      lockoutMinutes: CLAIM_LOCKOUT_MINUTES,
+    });
+    const bloqueadoHasta = lockedUntil(failed, now);
+    return {
+      ok: false,
+      message: bloqueadoHasta
+        ? claimLockedMessage(bloqueadoHasta)
+        : claimMismatchMessage(CLAIM_MAX_ATTEMPTS - failed.intentos_fallidos),
+      bloqueado_hasta: bloqueadoHasta,
+      intentos_fallidos: failed.intentos_fallidos,
+    };
+  }
+
+  return { ok: true, claim: await claims.setVerified(serviceCode, verifiedBy) };
+}
+
+/** ¿Se verificó el retiro para la próxima entrega? */
+export async function isPickupVerified(serviceCode: string) {
+  const claim = await getClaimRepository().getByServiceCode(serviceCode);
+  return Boolean(claim?.verified_at);
+}
@@ -0,0 +1,30 @@
+import { getClaimRepository, getServiceRepository } from "../repositories";
+import { getLedger } from "../payments/ledger";
+import { getCompanySettings } from "../settings/company";
+import { CLAIM_TOKEN_PATTERN, type PublicTracking } from "../schemas/claim";
+
+/**
+ * Seguimiento público del servicio con el token del QR del tiquete de retiro.
+ * Devuelve null si el token no existe o el servicio está en la papelera.
+ */
+export async function getPublicTracking(token: string): Promise<PublicTracking | null> {
+  if (!CLAIM_TOKEN_PATTERN.test(token)) return null;
+
+  const claim = await getClaimRepository().getByToken(token);
+  if (!claim) return null;
+
+  const service = await getServiceRepository().getByCode(claim.service_code);
+  if (!service) return null;
+
+  const [{ balance }, company] = await Promise.all([getLedger(service), getCompanySettings()]);
+
+  // Campos copiados uno a uno: el servicio completo no sale de aquí
+  return {
+    code: service.code,
+    estado: service.estado,
+    fecha_entrega: service.fecha_entrega ?? null,
+    costo_final: balance.costo_final,
+    saldo: balance.saldo,
+    tienda: { nombre: company.nombre_comercial, telefonos: company.telefonos },
+  };
+}
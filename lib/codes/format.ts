@@ -0,0 +1,88 @@
+/**
+ * Formatos de numeración (códigos de servicio y números de factura).
+ *
+ * Un formato es texto fijo con marcadores:
+ * - {AAAA} año (2026) · {AA} año corto (26)
+ * - {SUC} código de la sucursal (almacén)
+ * - {N} consecutivo, {N:4} con ceros a la izquierda hasta 4 dígitos
+ *
+ * El consecutivo se lleva por "ámbito": el formato con todo resuelto menos
+ * {N}. Así, si el formato tiene {AAAA} la numeración vuelve a 1 cada año, y
+ * si tiene {SUC} cada sucursal lleva la suya. Ej.: "SER{AAAA}-{N:4}" →
+ * SER2026-0001, SER2026-0002… y SER2027-0001 al cambiar de año.
+ */
+
+const TOKEN_PATTERN = /\{(AAAA|AA|SUC|N(?::(\d{1,2}))?)\}/g;
+
+/** Texto fijo permitido en un formato (el código viaja en URLs y nombres de archivo) */
+const LITERAL_PATTERN = /^[A-Za-z0-9_-]*$/;
+
+/** Marca del consecutivo dentro del ámbito */
+const COUNTER_MARK = "#";
+
+export type CodeFormat = {
+  pattern: string;
+  /** Dígitos mínimos del consecutivo ({N:4} → 4; {N} → 1) */
+  padding: number;
+};
+
+export type CodeContext = {
+  year: number;
+  /** Código de la sucursal (solo se usa si el formato tiene {SUC}) */
+  branch: string;
+};
+
+/** Valida el formato; lanza Error con el motivo si no sirve */
+export function parseCodeFormat(pattern: string, label: string): CodeFormat {
+  const counters = [...pattern.matchAll(TOKEN_PATTERN)].filter((m) => m[1].startsWith("N"));
+  if (counters.length !== 1) {
+    throw new Error(`${label}: el formato debe tener exactamente un {N} (consecutivo)`);
+  }
+
+  const literal = pattern.replace(TOKEN_PATTERN, "");
+  if (!LITERAL_PATTERN.test(literal)) {
+    throw new Error(`${label}: solo se admiten letras, números, "-" y "_" fuera de los marcadores`);
+  }
+
+  const padding = Number(counters[0][2] ?? 1);
+  if (padding < 1 || padding > 12) {
+    throw new Error(`${label}: el relleno de {N:d} debe estar entre 1 y 12`);
+  }
+  return { pattern, padding };
+}
+
+function resolve(format: CodeFormat, context: CodeContext, counter: string) {
+  return format.pattern.replace(TOKEN_PATTERN, (_, token: string) => {
+    if (token === "AAAA") return String(context.year);
+    if (token === "AA") return String(context.year % 100).padStart(2, "0");
+    if (token === "SUC") return context.branch;
+    return counter;
+  });
+}
+
+/** Ámbito del consecutivo: el formato resuelto con "#" en lugar de {N} */
+export function codeScope(kind: string, format: CodeFormat, context: CodeContext) {
+  return `${kind}:${resolve(format, context, COUNTER_MARK)}`;
+}
+
+export function formatCode(format: CodeFormat, context: CodeContext, counter: number) {
+  return resolve(format, context, String(counter).padStart(format.padding, "0"));
+}
+
+/** Nombre de almacén comparable: sin tildes, sin espacios extremos y en mayúsculas */
+export function branchKey(almacen: string) {
+  return almacen
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toUpperCase();
+}
+
+/**
+ * Código de sucursal a partir del almacén: el configurado en `branches`
+ * (claves de branchKey) o las tres primeras letras ("Envigado" → ENV).
+ */
+export function branchCode(almacen: string, branches: Record<string, string> = {}) {
+  const key = branchKey(almacen);
+  return branches[key] ?? (key.replace(/[^A-Z0-9]/g, "").slice(0, 3) || "GEN");
+}
@@ -0,0 +1,21 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { nextServiceCode } from "./generate";
+import { createMemorySequenceRepository, setSequenceRepository } from "../repositories";
+
+describe("códigos de servicio", () => {
+  beforeEach(() => {
+    setSequenceRepository(createMemorySequenceRepository());
+  });
+
+  it("consecutivo por año", async () => {
+    const now = new Date("2026-06-01T15:00:00Z");
+    expect(await nextServiceCode("Centro", now)).toBe("SER2026-0001");
+    expect(await nextServiceCode("Centro", now)).toBe("SER2026-0002");
+  });
+
+  it("el año sale de la hora de Colombia, no de la del servidor", async () => {
+    // 31 de diciembre 23:30 en Colombia = 1 de enero 04:30 UTC
+    expect(await nextServiceCode("Centro", new Date("2027-01-01T04:30:00Z"))).toBe("SER2026-0001");
+    expect(await nextServiceCode("Centro", new Date("2027-01-01T05:00:00Z"))).toBe("SER2027-0001");
+  });
+});
@@ -0,0 +1,84 @@
+import { getSequenceRepository, getServiceRepository } from "../repositories";
+import type { Service } from "../schemas/service";
+import { colombiaDateTime } from "../sla/calendar";
+import { branchCode, branchKey, codeScope, formatCode, parseCodeFormat, type CodeFormat } from "./format";
+
+/**
+ * Numeración de la aplicación: códigos de servicio y números de factura
+ * (consecutivo propio, distinto del código del servicio y de la numeración
+ * DIAN de la factura electrónica).
+ *
+ * Variables (opcionales):
+ * - CODIGO_SERVICIO_FORMATO (por defecto "SER{AAAA}-{N:4}")
+ * - CODIGO_FACTURA_FORMATO (por defecto "FV{AAAA}-{N:6}")
+ * - CODIGO_SUCURSALES: códigos de {SUC} por almacén, "Envigado=ENV;El Poblado=POB"
+ *
+ * Los consecutivos los reserva la base de datos (`next_code_sequence`), así
+ * que dos servicios creados a la vez nunca reciben el mismo código.
+ */
+
+export type CodeConfig = {
+  servicio: CodeFormat;
+  factura: CodeFormat;
+  /** Código de sucursal por almacén (clave: branchKey) */
+  sucursales: Record<string, string>;
+};
+
+const DEFAULT_SERVICE_FORMAT = "SER{AAAA}-{N:4}";
+const DEFAULT_INVOICE_FORMAT = "FV{AAAA}-{N:6}";
+
+function parseBranches(value: string | undefined) {
+  const branches: Record<string, string> = {};
+  for (const entry of (value ?? "").split(";")) {
+    const [name, code] = entry.split("=").map((part) => part?.trim() ?? "");
+    if (!name || !code) continue;
+    if (!/^[A-Za-z0-9]{1,10}$/.test(code)) {
+      throw new Error(`CODIGO_SUCURSALES: código de sucursal inválido "${code}"`);
+    }
+    branches[branchKey(name)] = code.toUpperCase();
+  }
+  return branches;
+}
+
+export function loadCodeConfig(env: NodeJS.ProcessEnv = process.env): CodeConfig {
+  return {
+    servicio: parseCodeFormat(
+      env.CODIGO_SERVICIO_FORMATO?.trim() || DEFAULT_SERVICE_FORMAT,
+      "CODIGO_SERVICIO_FORMATO"
+    ),
+    factura: parseCodeFormat(
+      env.CODIGO_FACTURA_FORMATO?.trim() || DEFAULT_INVOICE_FORMAT,
+      "CODIGO_FACTURA_FORMATO"
+    ),
+    sucursales: parseBranches(env.CODIGO_SUCURSALES),
+  };
+}
+
+async function nextCode(kind: "servicio" | "factura", almacen: string, now: Date) {
+  const config = loadCodeConfig();
+  const format = config[kind];
+  // Año en hora de Colombia: el 31 de diciembre desde las 19:00 sigue siendo el año en curso
+  const year = Number(colombiaDateTime(now).fecha.slice(0, 4));
+  const context = { year, branch: branchCode(almacen, config.sucursales) };
+
+  const counter = await getSequenceRepository().next(codeScope(kind, format, context));
+  return formatCode(format, context, counter);
+}
+
+/** Código de un servicio nuevo (POST /api/services) */
+export async function nextServiceCode(almacen: string, now: Date = new Date()) {
+  return nextCode("servicio", almacen, now);
+}
+
+/**
+ * Número de factura del servicio: se asigna la primera vez que se imprime la
+ * factura y después se conserva. Si dos impresiones compiten, gana la primera
+ * y el número de la otra queda sin usar.
+ */
+export async function ensureInvoiceNumber(service: Service, now: Date = new Date()): Promise<Service> {
+  if (service.factura_numero) return service;
+
+  const numero = await nextCode("factura", service.almacen, now);
+  const factura_numero = await getServiceRepository().assignInvoiceNumber(service.code, numero);
+  return { ...service, factura_numero };
+}
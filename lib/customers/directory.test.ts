@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { CUSTOMER_NOT_FOUND_MESSAGE, getCustomerHistory, resolveServiceCustomer } from "./directory";
+import {
+  createMemoryCustomerRepository,
+  createMemoryPaymentRepository,
+  createMemoryServiceRepository,
+  getCustomerRepository,
+  getPaymentRepository,
+  setCustomerRepository,
+  setPaymentRepository,
+  setServiceRepository,
+} from "../repositories";
+import { DOCUMENTO_SIN_TIPO_MESSAGE, customerCreateSchema, customerListQuerySchema } from "../schemas/customer";
+import { toFieldErrors } from "../schemas/fieldErrors";
+import { customerFixture, serviceFixture } from "../../tests/fixtures";
+
+const ana = customerFixture({ telefonos: ["3001234567"] });
+
+describe("cliente del servicio nuevo", () => {
+  beforeEach(() => {
+    setCustomerRepository(createMemoryCustomerRepository([ana]));
+  });
+
+  it("enlaza el cliente enviado si existe", async () => {
+    expect(await resolveServiceCustomer({ customer_id: ana.id, cliente: "Otra", telefono: "" })).toEqual({
+      customerId: ana.id,
+    });
+    expect(
+      await resolveServiceCustomer({
+        customer_id: "0b9e3f7a-2c4d-4e5f-8a6b-7c8d9e0f1a2b",
+        cliente: "Ana",
+        telefono: "3001234567",
+      })
+    ).toEqual({ fields: { customer_id: CUSTOMER_NOT_FOUND_MESSAGE } });
+  });
+
+  it("sin cliente enviado busca por teléfono aunque se escriba con espacios", async () => {
+    const result = await resolveServiceCustomer({ customer_id: null, cliente: "Ana G.", telefono: "300 123-4567" });
+
+    expect(result).toEqual({ customerId: ana.id });
+    expect(await getCustomerRepository().list(customerListQuerySchema.parse({}))).toHaveLength(1);
+  });
+
+  it("crea el cliente si el teléfono es nuevo, sin autorizar notificaciones", async () => {
+    const result = await resolveServiceCustomer({ customer_id: null, cliente: "Luis Pérez", telefono: "(310) 555 0000" });
+    if (!("customerId" in result)) throw new Error("se esperaba un cliente");
+
+    expect(await getCustomerRepository().getById(result.customerId)).toMatchObject({
+      nombre: "Luis Pérez",
+      telefonos: ["3105550000"],
+      canal_notificaciones: null,
+    });
+  });
+});
+
+describe("ficha del cliente", () => {
+  beforeEach(() => {
+    setCustomerRepository(createMemoryCustomerRepository([ana]));
+    setPaymentRepository(createMemoryPaymentRepository());
+    setServiceRepository(
+      createMemoryServiceRepository([
+        serviceFixture({ code: "SRV-0001", customer_id: ana.id, costo_final: 100_000 }),
+        serviceFixture({
+          code: "SRV-0002",
+          customer_id: ana.id,
+          costo_final: 0,
+          estado: "Garantía",
+          garantia_de: "SRV-0001",
+        }),
+        serviceFixture({ code: "SRV-0003", customer_id: null, costo_final: 50_000 }),
+      ])
+    );
+  });
+
+  it("suma solo los servicios del cliente y separa las garantías", async () => {
+    await getPaymentRepository().create("SRV-0001", {
+      fecha: "2026-10-16",
+      monto: 40_000,
+      metodo: "Efectivo",
+      agente: "Carlos",
+      referencia: null,
+    });
+
+    const { services, resumen, garantias } = await getCustomerHistory(ana);
+
+    expect(services.map((s) => s.code).sort()).toEqual(["SRV-0001", "SRV-0002"]);
+    expect(resumen).toEqual({ servicios: 2, total_facturado: 100_000, total_pagado: 40_000, saldo: 60_000 });
+    expect(garantias.map((s) => s.code)).toEqual(["SRV-0002"]);
+  });
+});
+
+describe("esquema del cliente", () => {
+  it("normaliza y deduplica los teléfonos", () => {
+    const parsed = customerCreateSchema.parse({ nombre: "Ana", telefonos: ["300 123 4567", "300-123-4567"] });
+    expect(parsed.telefonos).toEqual(["3001234567"]);
+  });
+
+  it("el número de documento exige su tipo", () => {
+    const parsed = customerCreateSchema.safeParse({ nombre: "Ana", numero_documento: "1020304050" });
+    expect(parsed.success ? {} : toFieldErrors(parsed.error)).toEqual({ tipo_documento: DOCUMENTO_SIN_TIPO_MESSAGE });
+  });
+});
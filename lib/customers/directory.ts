@@ -0,0 +1,82 @@
+import { getCustomerRepository, getServiceRepository } from "../repositories";
+import { withBalances } from "../payments/ledger";
+import { normalizePhone, type Customer } from "../schemas/customer";
+import { serviceListQuerySchema, serviceTotal, type Service } from "../schemas/service";
+import type { FieldErrors } from "../schemas/fieldErrors";
+
+/** Máximo de servicios que se muestran en la ficha del cliente */
+const HISTORY_LIMIT = 500;
+
+export const CUSTOMER_NOT_FOUND_MESSAGE = "Cliente no encontrado";
+
+/**
+ * Cliente al que se enlaza un servicio nuevo:
+ * - `customer_id` enviado → debe existir
+ * - sin `customer_id` → cliente con el mismo teléfono o uno nuevo
+ */
+export async function resolveServiceCustomer(input: {
+  customer_id: string | null;
+  cliente: string;
+  telefono: string;
+}): Promise<{ customerId: string } | { fields: FieldErrors }> {
+  const customers = getCustomerRepository();
+
+  if (input.customer_id) {
+    const found = await customers.getById(input.customer_id);
+    if (!found) return { fields: { customer_id: CUSTOMER_NOT_FOUND_MESSAGE } };
+    return { customerId: found.id };
+  }
+
+  const phone = normalizePhone(input.telefono);
+  const byPhone = phone ? await customers.findByPhone(phone) : null;
+  if (byPhone) return { customerId: byPhone.id };
+
+  const created = await customers.create({
+    nombre: input.cliente,
+    tipo_documento: null,
+    numero_documento: null,
+    telefonos: phone ? [phone] : [],
+    email: null,
+    direccion: null,
+    notas: null,
+    // Sin autorización expresa del cliente no se le envían notificaciones
+    canal_notificaciones: null,
+  });
+  return { customerId: created.id };
+}
+
+export type CustomerSummary = {
+  servicios: number;
+  total_facturado: number;
+  total_pagado: number;
+  saldo: number;
+};
+
+/**
+ * Ficha del cliente: servicios (con saldo), totales y garantías.
+ */
+export async function getCustomerHistory(customer: Customer) {
+  const services = await withBalances(
+    await getServiceRepository().list(
+      serviceListQuerySchema.parse({
+        customer_id: customer.id,
+        limit: HISTORY_LIMIT,
+        order: "fecha.desc",
+      })
+    )
+  );
+
+  const resumen = services.reduce<CustomerSummary>(
+    (acc, s) => ({
+      servicios: acc.servicios + 1,
+      total_facturado: acc.total_facturado + serviceTotal(s),
+      total_pagado: acc.total_pagado + Number(s.total_pagado ?? 0),
+      saldo: acc.saldo + Number(s.saldo ?? 0),
+    }),
+    { servicios: 0, total_facturado: 0, total_pagado: 0, saldo: 0 }
+  );
+
+  const garantias: Service[] = services.filter((s) => s.estado === "Garantía");
+
+  return { services, resumen, garantias };
+}
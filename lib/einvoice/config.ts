@@ -0,0 +1,102 @@
+/**
+ * Configuración de facturación electrónica (variables de entorno, solo servidor).
+ *
+ * Obligatorias: DIAN_NIT, DIAN_SOFTWARE_ID, DIAN_SOFTWARE_PIN.
+ * El proveedor de firma y envío se elige con DIAN_GATEWAY (lib/einvoice/gateway).
+ * Los valores por defecto de la resolución corresponden al set de pruebas
+ * de habilitación de la DIAN (prefijo SETP, ambiente 2).
+ */
+
+export type DianAmbiente = "1" | "2"; // 1 = producción, 2 = pruebas
+
+export type DianConfig = {
+  emisor: {
+    nit: string;
+    dv: string;
+    razonSocial: string;
+    nombreComercial: string;
+    direccion: string;
+    ciudad: string;
+    codigoMunicipio: string;
+    departamento: string;
+    codigoDepartamento: string;
+    email: string | null;
+  };
+  resolucion: {
+    numero: string;
+    fechaDesde: string; // YYYY-MM-DD
+    fechaHasta: string;
+    prefijo: string;
+    desde: number;
+    hasta: number;
+    claveTecnica: string;
+  };
+  software: { id: string; pin: string };
+  ambiente: DianAmbiente;
+  /** Porcentaje de IVA incluido en el costo final (19 por defecto) */
+  ivaPorcentaje: number;
+};
+
+function requiredEnv(env: NodeJS.ProcessEnv, name: string) {
+  const v = env[name]?.trim();
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+function optionalEnv(env: NodeJS.ProcessEnv, name: string, fallback: string) {
+  return env[name]?.trim() || fallback;
+}
+
+function numberEnv(env: NodeJS.ProcessEnv, name: string, fallback: number) {
+  const n = Number(env[name]);
+  return env[name] && Number.isFinite(n) ? n : fallback;
+}
+
+/**
+ * Dígito de verificación del NIT (algoritmo módulo 11 de la DIAN)
+ */
+export function nitCheckDigit(nit: string) {
+  const weights = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+  const digits = nit.replace(/\D/g, "").split("").reverse();
+  const sum = digits.reduce((acc, d, i) => acc + Number(d) * (weights[i] ?? 0), 0);
+  const mod = sum % 11;
+  return String(mod > 1 ? 11 - mod : mod);
+}
+
+export function loadDianConfig(env: NodeJS.ProcessEnv = process.env): DianConfig {
+  const nit = requiredEnv(env, "DIAN_NIT").split("-")[0].replace(/\D/g, "");
+
+  return {
+    emisor: {
+      nit,
+      dv: nitCheckDigit(nit),
+      razonSocial: optionalEnv(env, "DIAN_RAZON_SOCIAL", "Joyeria Briolete"),
+      nombreComercial: optionalEnv(env, "DIAN_NOMBRE_COMERCIAL", "Joyeria Briolete"),
+      direccion: optionalEnv(env, "DIAN_DIRECCION", "Cra 45c # 38b sur - 64"),
+      ciudad: optionalEnv(env, "DIAN_CIUDAD", "Envigado"),
+      codigoMunicipio: optionalEnv(env, "DIAN_CODIGO_MUNICIPIO", "05266"),
+      departamento: optionalEnv(env, "DIAN_DEPARTAMENTO", "Antioquia"),
+      codigoDepartamento: optionalEnv(env, "DIAN_CODIGO_DEPARTAMENTO", "05"),
+      email: env.DIAN_EMAIL?.trim() || null,
+    },
+    resolucion: {
+      numero: optionalEnv(env, "DIAN_RESOLUCION", "18760000001"),
+      fechaDesde: optionalEnv(env, "DIAN_RESOLUCION_DESDE", "2019-01-19"),
+      fechaHasta: optionalEnv(env, "DIAN_RESOLUCION_HASTA", "2030-01-19"),
+      prefijo: optionalEnv(env, "DIAN_PREFIJO", "SETP"),
+      desde: numberEnv(env, "DIAN_RANGO_DESDE", 990000000),
+      hasta: numberEnv(env, "DIAN_RANGO_HASTA", 995000000),
+      claveTecnica: optionalEnv(
+        env,
+        "DIAN_CLAVE_TECNICA",
+        "fc8eac422eba16e22ffd8c6f94b3f40a6e38162c"
+      ),
+    },
+    software: {
+      id: requiredEnv(env, "DIAN_SOFTWARE_ID"),
+      pin: requiredEnv(env, "DIAN_SOFTWARE_PIN"),
+    },
+    ambiente: env.DIAN_AMBIENTE === "1" ? "1" : "2",
+    ivaPorcentaje: numberEnv(env, "DIAN_IVA_PORCENTAJE", 19),
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { computeCufe, formatAmount, splitIva } from "./cufe";
+
+describe("CUFE", () => {
+  it("coincide con el ejemplo del anexo técnico de la DIAN", () => {
+    const cufe = computeCufe({
+      numeroFactura: "323200000129",
+      fechaEmision: "2019-01-16",
+      horaEmision: "10:53:10-05:00",
+      subtotal: 1_500_000,
+      iva: 285_000,
+      total: 1_785_000,
+      nitEmisor: "700085371",
+      documentoAdquiriente: "800199436",
+      claveTecnica: "693ff6f2a553c3646a063436fd4dd9ded0311471",
+      ambiente: "1",
+    });
+    expect(cufe).toBe(
+      "8bb918b19ba22a694f1da11c643b5e9de39adf60311cf179179e9b33381030bcd4c3c3f156c506ed5908f9276f5bd9b4"
+    );
+  });
+
+  it("montos con dos decimales y el IVA incluido en el total", () => {
+    expect(formatAmount(1234.5)).toBe("1234.50");
+    expect(splitIva(119_000, 19)).toEqual({ subtotal: 100_000, iva: 19_000, total: 119_000 });
+    const { subtotal, iva, total } = splitIva(100_001, 19);
+    expect(subtotal + iva).toBeCloseTo(total, 2);
+  });
+});
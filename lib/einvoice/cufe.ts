@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import type { DianAmbiente } from "./config";
+
+/** Montos con 2 decimales y punto, como los exige el anexo técnico */
+export function formatAmount(value: number) {
+  return (Math.round(value * 100) / 100).toFixed(2);
+}
+
+/** Subtotal / IVA / total a partir de un total con IVA incluido */
+export function splitIva(totalConIva: number, ivaPorcentaje: number) {
+  const total = Math.round(totalConIva * 100) / 100;
+  const subtotal = Math.round((total / (1 + ivaPorcentaje / 100)) * 100) / 100;
+  const iva = Math.round((total - subtotal) * 100) / 100;
+  return { subtotal, iva, total };
+}
+
+export type CufeInput = {
+  numeroFactura: string; // NumFac (prefijo + número)
+  fechaEmision: string; // FecFac YYYY-MM-DD
+  horaEmision: string; // HorFac HH:mm:ss-05:00
+  subtotal: number; // ValFac
+  iva: number; // ValImp1 (código 01)
+  inc?: number; // ValImp2 (código 04)
+  ica?: number; // ValImp3 (código 03)
+  total: number; // ValTot
+  nitEmisor: string; // NitOFE (sin DV)
+  documentoAdquiriente: string; // NumAdq
+  claveTecnica: string; // ClTec
+  ambiente: DianAmbiente; // TipoAmbie
+};
+
+/**
+ * CUFE = SHA-384 de la concatenación definida en el anexo técnico de
+ * factura electrónica (NumFac + FecFac + HorFac + ValFac + 01 + ValImp1 +
+ * 04 + ValImp2 + 03 + ValImp3 + ValTot + NitOFE + NumAdq + ClTec + TipoAmbie).
+ */
+export function computeCufe(input: CufeInput) {
+  const source = [
+    input.numeroFactura,
+    input.fechaEmision,
+    input.horaEmision,
+    formatAmount(input.subtotal),
+    "01",
+    formatAmount(input.iva),
+    "04",
+    formatAmount(input.inc ?? 0),
+    "03",
+    formatAmount(input.ica ?? 0),
+    formatAmount(input.total),
+    input.nitEmisor,
+    input.documentoAdquiriente,
+    input.claveTecnica,
+    input.ambiente,
+  ].join("");
+
+  return crypto.createHash("sha384").update(source, "utf8").digest("hex");
+}
+
+/** SoftwareSecurityCode = SHA-384(Id software + PIN + número de factura) */
+export function computeSoftwareSecurityCode(softwareId: string, pin: string, numeroFactura: string) {
+  return crypto
+    .createHash("sha384")
+    .update(`${softwareId}${pin}${numeroFactura}`, "utf8")
+    .digest("hex");
+}
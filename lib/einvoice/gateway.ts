@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import type { EinvoiceEstado } from "../schemas/einvoice";
+import { SIGNATURE_PLACEHOLDER } from "./ubl";
+
+/**
+ * Firma y envío de la factura a la DIAN.
+ *
+ * La firma XAdES-EPES con el certificado digital y el envío al web service
+ * (SendBillSync) dependen del proveedor tecnológico; aquí solo se define el
+ * contrato. `createStubDianGateway` permite emitir facturas sin conexión
+ * (desarrollo y pruebas; nunca en producción).
+ */
+
+export type DianSubmission = {
+  numeroFactura: string;
+  cufe: string;
+};
+
+export type DianSubmissionResult = {
+  estado: EinvoiceEstado;
+  trackId: string | null;
+  mensajes: string[];
+};
+
+export interface DianGateway {
+  /** Devuelve el XML con la firma insertada en SIGNATURE_PLACEHOLDER */
+  sign(xml: string): Promise<string>;
+  submit(signedXml: string, meta: DianSubmission): Promise<DianSubmissionResult>;
+}
+
+/**
+ * Implementación simulada: inserta una firma de prueba (digest SHA-256 del
+ * documento, sin certificado) y marca la factura como aceptada.
+ */
+export function createStubDianGateway(): DianGateway {
+  return {
+    async sign(xml: string) {
+      const digest = crypto.createHash("sha256").update(xml, "utf8").digest("base64");
+      const signature = [
+        `<ds:Signature Id="stub-signature">`,
+        `<ds:SignedInfo><ds:Reference URI=""><ds:DigestValue>${digest}</ds:DigestValue></ds:Reference></ds:SignedInfo>`,
+        `<ds:SignatureValue>SIN-FIRMA-STUB</ds:SignatureValue>`,
+        `</ds:Signature>`,
+      ].join("");
+      return xml.replace(SIGNATURE_PLACEHOLDER, signature);
+    },
+
+    async submit(_signedXml: string, meta: DianSubmission) {
+      return {
+        estado: "Aceptada",
+        trackId: `STUB-${meta.cufe.slice(0, 16)}`,
+        mensajes: [`Documento ${meta.numeroFactura} validado (simulado, sin envío a la DIAN)`],
+      };
+    },
+  };
+}
+
+/** Proveedores disponibles para `DIAN_GATEWAY` */
+const DIAN_GATEWAYS: Record<string, () => DianGateway> = {
+  stub: createStubDianGateway,
+};
+
+export const DIAN_GATEWAY_MISSING_MESSAGE =
+  "No hay un proveedor tecnológico configurado para enviar facturas a la DIAN";
+
+/** Producción: NODE_ENV=production o ambiente DIAN 1 */
+function isProduction(env: NodeJS.ProcessEnv) {
+  return env.NODE_ENV === "production" || env.DIAN_AMBIENTE === "1";
+}
+
+/**
+ * Gateway según `DIAN_GATEWAY`. Sin valor se usa el stub fuera de producción.
+ * En producción el stub nunca se usa: sin proveedor real devuelve null y la
+ * emisión se rechaza (no se registran facturas "Aceptadas" sin envío).
+ */
+export function gatewayFromEnv(env: NodeJS.ProcessEnv = process.env): DianGateway | null {
+  const name = env.DIAN_GATEWAY?.trim().toLowerCase() || (isProduction(env) ? "" : "stub");
+  if (name === "stub" && isProduction(env)) return null;
+  return DIAN_GATEWAYS[name]?.() ?? null;
+}
+
+let dianGateway: DianGateway | null = null;
+
+/** Gateway usado por la emisión de facturas (null: no hay proveedor configurado) */
+export function getDianGateway(): DianGateway | null {
+  if (!dianGateway) dianGateway = gatewayFromEnv();
+  return dianGateway;
+}
+
+/** Reemplaza el gateway (p. ej. proveedor real o pruebas). `null` vuelve al de `DIAN_GATEWAY`. */
+export function setDianGateway(gateway: DianGateway | null) {
+  dianGateway = gateway;
+}
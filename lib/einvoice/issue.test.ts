@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EINVOICE_ALREADY_ISSUED_MESSAGE, issueElectronicInvoice, type InvoiceIssue } from "./issue";
+import { DIAN_GATEWAY_MISSING_MESSAGE, createStubDianGateway, gatewayFromEnv, setDianGateway } from "./gateway";
+import { createMemoryElectronicInvoiceRepository, setElectronicInvoiceRepository } from "../repositories";
+import type { EinvoiceCustomer } from "../schemas/einvoice";
+import { serviceFixture } from "../../tests/fixtures";
+
+function issuedInvoice(issued: InvoiceIssue) {
+  if (!issued.ok) throw new Error(issued.message);
+  return issued.invoice;
+}
+
+const customer: EinvoiceCustomer = {
+  tipo_documento: "13",
+  documento: "1020304050",
+  nombre: "Ana Gómez",
+  email: null,
+};
+
+describe("gateway de la DIAN", () => {
+  it("usa el stub solo fuera de producción", () => {
+    expect(gatewayFromEnv({ NODE_ENV: "development" })).not.toBeNull();
+    expect(gatewayFromEnv({ NODE_ENV: "production" })).toBeNull();
+    expect(gatewayFromEnv({ NODE_ENV: "production", DIAN_GATEWAY: "stub" })).toBeNull();
+    expect(gatewayFromEnv({ NODE_ENV: "development", DIAN_AMBIENTE: "1" })).toBeNull();
+    expect(gatewayFromEnv({ NODE_ENV: "development", DIAN_GATEWAY: "otro" })).toBeNull();
+  });
+});
+
+describe("emisión de la factura electrónica", () => {
+  beforeEach(() => {
+    vi.stubEnv("DIAN_NIT", "900123456");
+    vi.stubEnv("DIAN_SOFTWARE_ID", "software");
+    vi.stubEnv("DIAN_SOFTWARE_PIN", "12345");
+    setElectronicInvoiceRepository(createMemoryElectronicInvoiceRepository());
+    setDianGateway(null);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("sin proveedor configurado no reserva número", async () => {
+    vi.stubEnv("DIAN_AMBIENTE", "1");
+    await expect(issueElectronicInvoice(serviceFixture(), customer)).rejects.toThrow(DIAN_GATEWAY_MISSING_MESSAGE);
+
+    vi.stubEnv("DIAN_AMBIENTE", "2");
+    setDianGateway(createStubDianGateway());
+    const invoice = issuedInvoice(await issueElectronicInvoice(serviceFixture(), customer));
+    expect(invoice.numero).toBe(990000000);
+    // 10:30:45 en Colombia (UTC-5)
+    const at = issuedInvoice(
+      await issueElectronicInvoice(
+        serviceFixture({ code: "SRV-0002" }),
+        customer,
+        new Date("2026-07-01T15:30:45Z")
+      )
+    );
+    expect([at.fecha_emision, at.hora_emision]).toEqual(["2026-07-01", "10:30:45-05:00"]);
+  });
+
+  it("si la firma falla, el número lo toma la siguiente factura", async () => {
+    const stub = createStubDianGateway();
+    setDianGateway({
+      sign: async () => {
+        throw new Error("Certificado vencido");
+      },
+      submit: stub.submit,
+    });
+    await expect(issueElectronicInvoice(serviceFixture({ code: "SRV-0001" }), customer)).rejects.toThrow(
+      /Certificado vencido/
+    );
+
+    setDianGateway(stub);
+    const retry = issuedInvoice(await issueElectronicInvoice(serviceFixture({ code: "SRV-0001" }), customer));
+    expect(retry.numero_factura).toBe("SETP990000000");
+    expect(retry.estado).toBe("Aceptada");
+
+    const next = issuedInvoice(await issueElectronicInvoice(serviceFixture({ code: "SRV-0002" }), customer));
+    expect(next.numero).toBe(990000001);
+  });
+
+  it("si la DIAN rechaza el documento, el número vuelve al rango", async () => {
+    const stub = createStubDianGateway();
+    setDianGateway({
+      sign: stub.sign,
+      submit: async () => ({ estado: "Rechazada", trackId: "T-1", mensajes: ["FAD06: CUFE inválido"] }),
+    });
+    const rejected = await issueElectronicInvoice(serviceFixture({ code: "SRV-0001" }), customer);
+    expect(rejected).toEqual({ ok: false, status: 422, message: expect.stringContaining("FAD06") });
+
+    setDianGateway(stub);
+    const retry = issuedInvoice(await issueElectronicInvoice(serviceFixture({ code: "SRV-0001" }), customer));
+    expect(retry.numero).toBe(990000000);
+  });
+
+  it("si el envío falla sin respuesta, la factura queda pendiente con su número", async () => {
+    const stub = createStubDianGateway();
+    setDianGateway({
+      sign: stub.sign,
+      submit: async () => {
+        throw new Error("Sin conexión con la DIAN");
+      },
+    });
+    const pending = issuedInvoice(await issueElectronicInvoice(serviceFixture({ code: "SRV-0001" }), customer));
+    expect(pending.estado).toBe("Pendiente");
+    expect(pending.numero).toBe(990000000);
+    expect(pending.dian_mensajes[0]).toMatch(/Sin conexión/);
+
+    setDianGateway(stub);
+    const next = issuedInvoice(await issueElectronicInvoice(serviceFixture({ code: "SRV-0002" }), customer));
+    expect(next.numero).toBe(990000001);
+  });
+
+  it("dos emisiones simultáneas del mismo servicio registran una sola factura", async () => {
+    setDianGateway(createStubDianGateway());
+    const service = serviceFixture({ code: "SRV-0001" });
+    const [a, b] = await Promise.all([
+      issueElectronicInvoice(service, customer),
+      issueElectronicInvoice(service, customer),
+    ]);
+    expect([a.ok, b.ok].sort()).toEqual([false, true]);
+    expect(a.ok ? b : a).toEqual({ ok: false, status: 409, message: EINVOICE_ALREADY_ISSUED_MESSAGE });
+
+    // El número de la emisión descartada lo toma la siguiente factura
+    const next = issuedInvoice(await issueElectronicInvoice(serviceFixture({ code: "SRV-0002" }), customer));
+    expect(next.numero).toBe(990000001);
+  });
+});
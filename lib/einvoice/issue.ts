@@ -0,0 +1,194 @@
+import { getElectronicInvoiceRepository } from "../repositories";
+import { serviceTotal, type Service } from "../schemas/service";
+import type { EinvoiceCustomer, ElectronicInvoice } from "../schemas/einvoice";
+import { loadDianConfig, type DianConfig } from "./config";
+import { computeCufe, computeSoftwareSecurityCode, splitIva } from "./cufe";
+import { buildQrText } from "./qr";
+import { buildInvoiceXml } from "./ubl";
+import { DIAN_GATEWAY_MISSING_MESSAGE, getDianGateway, type DianSubmissionResult } from "./gateway";
+import { colombiaDateTime } from "../sla/calendar";
+
+export const EINVOICE_ALREADY_ISSUED_MESSAGE = "El servicio ya tiene factura electrónica";
+
+/** Mensaje cuando la DIAN rechaza el documento (el número vuelve al rango) */
+export function dianRejectedMessage(mensajes: string[]) {
+  return ["La DIAN rechazó la factura", ...mensajes].join(". ");
+}
+
+/** Hora de emisión HH:mm:ss-05:00 (el desfase de Colombia es de horas completas) */
+function emissionTime(now: Date) {
+  const { fecha, hora } = colombiaDateTime(now);
+  const segundos = String(now.getUTCSeconds()).padStart(2, "0");
+  return { fecha, hora: `${hora}:${segundos}-05:00` };
+}
+
+/** Texto de la resolución que se imprime en la representación gráfica */
+export function resolutionText(config: DianConfig) {
+  const { resolucion } = config;
+  return (
+    `Resolución DIAN No. ${resolucion.numero} del ${resolucion.fechaDesde}, ` +
+    `vigente hasta ${resolucion.fechaHasta}. ` +
+    `Numeración autorizada ${resolucion.prefijo}${resolucion.desde} al ${resolucion.prefijo}${resolucion.hasta}.`
+  );
+}
+
+export type InvoiceIssue =
+  | { ok: true; invoice: ElectronicInvoice }
+  | { ok: false; status: 409 | 422; message: string };
+
+/**
+ * Emite la factura electrónica del servicio:
+ * consecutivo → totales con IVA incluido → CUFE → XML UBL 2.1 → reserva →
+ * firma → envío. El total del servicio (costo final + piedras y componentes)
+ * se factura como una sola línea.
+ *
+ * La factura se registra "Pendiente" antes de firmarla: si el servicio ya
+ * tiene factura (otra emisión simultánea) se responde 409 sin enviar nada.
+ * El número se libera (y lo toma la siguiente factura, sin huecos en el
+ * rango autorizado) solo si la firma falla o la DIAN rechaza el documento.
+ * Si el envío falla sin respuesta de la DIAN no se sabe si el documento
+ * llegó: la factura queda "Pendiente" con el número reservado.
+ */
+export async function issueElectronicInvoice(
+  service: Service,
+  customer: EinvoiceCustomer,
+  now: Date = new Date()
+): Promise<InvoiceIssue> {
+  const config = loadDianConfig();
+  const invoices = getElectronicInvoiceRepository();
+  const gateway = getDianGateway();
+  if (!gateway) throw new Error(DIAN_GATEWAY_MISSING_MESSAGE);
+
+  const { prefijo, desde, hasta } = config.resolucion;
+  const numero = await invoices.nextNumber(prefijo, desde, hasta);
+  const numeroFactura = `${prefijo}${numero}`;
+  const { fecha, hora } = emissionTime(now);
+  const { subtotal, iva, total } = splitIva(serviceTotal(service), config.ivaPorcentaje);
+  const nombre = customer.nombre ?? service.cliente;
+
+  const cufe = computeCufe({
+    numeroFactura,
+    fechaEmision: fecha,
+    horaEmision: hora,
+    subtotal,
+    iva,
+    total,
+    nitEmisor: config.emisor.nit,
+    documentoAdquiriente: customer.documento,
+    claveTecnica: config.resolucion.claveTecnica,
+    ambiente: config.ambiente,
+  });
+
+  const qrText = buildQrText({
+    numeroFactura,
+    fechaEmision: fecha,
+    horaEmision: hora,
+    nitEmisor: config.emisor.nit,
+    documentoAdquiriente: customer.documento,
+    subtotal,
+    iva,
+    total,
+    cufe,
+    ambiente: config.ambiente,
+  });
+
+  const xml = buildInvoiceXml({
+    config,
+    numeroFactura,
+    fechaEmision: fecha,
+    horaEmision: hora,
+    cufe,
+    softwareSecurityCode: computeSoftwareSecurityCode(
+      config.software.id,
+      config.software.pin,
+      numeroFactura
+    ),
+    qrText,
+    nota: `Servicio ${service.code}`,
+    adquiriente: {
+      tipoDocumento: customer.tipo_documento,
+      documento: customer.documento,
+      nombre,
+      email: customer.email,
+    },
+    lineas: [
+      {
+        descripcion: `${service.descripcion} (${service.material})`,
+        cantidad: 1,
+        subtotal,
+        iva,
+      },
+    ],
+    subtotal,
+    iva,
+    total,
+  });
+
+  const reserved = await invoices.reserve({
+    service_code: service.code,
+    prefijo,
+    numero,
+    numero_factura: numeroFactura,
+    fecha_emision: fecha,
+    hora_emision: hora,
+    cufe,
+    qr_text: qrText,
+    adquiriente_tipo_documento: customer.tipo_documento,
+    adquiriente_documento: customer.documento,
+    adquiriente_nombre: nombre,
+    adquiriente_email: customer.email,
+    subtotal,
+    iva,
+    total,
+    xml,
+    estado: "Pendiente",
+    dian_track_id: null,
+    dian_mensajes: [],
+  });
+  if (!reserved) {
+    await invoices.releaseNumber(prefijo, numero);
+    return { ok: false, status: 409, message: EINVOICE_ALREADY_ISSUED_MESSAGE };
+  }
+
+  // El documento no llegó a la DIAN (o lo rechazó): la factura se descarta
+  // y el número vuelve al rango
+  const discard = async () => {
+    await invoices.remove(reserved.id);
+    await invoices.releaseNumber(prefijo, numero);
+  };
+
+  let signedXml: string;
+  try {
+    signedXml = await gateway.sign(xml);
+  } catch (err) {
+    await discard();
+    throw err;
+  }
+
+  let result: DianSubmissionResult;
+  try {
+    result = await gateway.submit(signedXml, { numeroFactura, cufe });
+  } catch (err) {
+    const detalle = err instanceof Error ? err.message : String(err);
+    const invoice = await invoices.update(reserved.id, {
+      xml: signedXml,
+      estado: "Pendiente",
+      dian_track_id: null,
+      dian_mensajes: [`Sin respuesta de la DIAN: ${detalle}`],
+    });
+    return { ok: true, invoice };
+  }
+
+  if (result.estado === "Rechazada") {
+    await discard();
+    return { ok: false, status: 422, message: dianRejectedMessage(result.mensajes) };
+  }
+
+  const invoice = await invoices.update(reserved.id, {
+    xml: signedXml,
+    estado: result.estado,
+    dian_track_id: result.trackId,
+    dian_mensajes: result.mensajes,
+  });
+  return { ok: true, invoice };
+}
@@ -0,0 +1,44 @@
+import QRCode from "qrcode";
+import type { DianAmbiente } from "./config";
+import { formatAmount } from "./cufe";
+
+/** Consulta pública del documento en el catálogo de la DIAN */
+export function dianDocumentUrl(cufe: string, ambiente: DianAmbiente) {
+  const host = ambiente === "1" ? "catalogo-vpfe.dian.gov.co" : "catalogo-vpfe-hab.dian.gov.co";
+  return `https://${host}/document/searchqr?documentkey=${cufe}`;
+}
+
+export type QrInput = {
+  numeroFactura: string;
+  fechaEmision: string;
+  horaEmision: string;
+  nitEmisor: string;
+  documentoAdquiriente: string;
+  subtotal: number;
+  iva: number;
+  total: number;
+  cufe: string;
+  ambiente: DianAmbiente;
+};
+
+/** Contenido del código QR de la representación gráfica */
+export function buildQrText(input: QrInput) {
+  return [
+    `NumFac: ${input.numeroFactura}`,
+    `FecFac: ${input.fechaEmision}`,
+    `HorFac: ${input.horaEmision}`,
+    `NitFac: ${input.nitEmisor}`,
+    `DocAdq: ${input.documentoAdquiriente}`,
+    `ValFac: ${formatAmount(input.subtotal)}`,
+    `ValIva: ${formatAmount(input.iva)}`,
+    `ValOtroIm: ${formatAmount(0)}`,
+    `ValTolFac: ${formatAmount(input.total)}`,
+    `CUFE: ${input.cufe}`,
+    `QRCode: ${dianDocumentUrl(input.cufe, input.ambiente)}`,
+  ].join("\n");
+}
+
+/** PNG del QR (para incrustar en el PDF con PDFKit) */
+export function renderQrPng(text: string): Promise<Buffer> {
+  return QRCode.toBuffer(text, { type: "png", errorCorrectionLevel: "M", margin: 1, width: 240 });
+}
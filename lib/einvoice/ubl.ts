@@ -0,0 +1,235 @@
+import { nitCheckDigit, type DianConfig } from "./config";
+import { formatAmount } from "./cufe";
+import type { DianTipoDocumento } from "../schemas/einvoice";
+
+/** Marcador donde el firmador inserta la firma XAdES-EPES (ds:Signature) */
+export const SIGNATURE_PLACEHOLDER = "<!-- ds:Signature -->";
+
+export type UblLine = {
+  descripcion: string;
+  cantidad: number;
+  subtotal: number; // valor de la línea sin IVA
+  iva: number;
+};
+
+export type UblInvoiceInput = {
+  config: DianConfig;
+  numeroFactura: string;
+  fechaEmision: string;
+  horaEmision: string;
+  cufe: string;
+  softwareSecurityCode: string;
+  qrText: string;
+  nota: string | null;
+  adquiriente: {
+    tipoDocumento: DianTipoDocumento;
+    documento: string;
+    nombre: string;
+    email: string | null;
+  };
+  lineas: UblLine[];
+  subtotal: number;
+  iva: number;
+  total: number;
+};
+
+function xmlEscape(input: unknown) {
+  return String(input ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+const amount = (value: number) => `currencyID="COP">${formatAmount(value)}`;
+
+function partyTaxScheme(
+  nombre: string,
+  documento: string,
+  tipoDocumento: DianTipoDocumento,
+  dv: string | null
+) {
+  const dvAttr = dv !== null ? ` schemeID="${dv}"` : "";
+  return `
+      <cac:PartyTaxScheme>
+        <cbc:RegistrationName>${xmlEscape(nombre)}</cbc:RegistrationName>
+        <cbc:CompanyID schemeAgencyID="195" schemeAgencyName="CO, DIAN (Dirección de Impuestos y Aduanas Nacionales)"${dvAttr} schemeName="${tipoDocumento}">${xmlEscape(documento)}</cbc:CompanyID>
+        <cbc:TaxLevelCode listName="49">R-99-PN</cbc:TaxLevelCode>
+        <cac:TaxScheme>
+          <cbc:ID>01</cbc:ID>
+          <cbc:Name>IVA</cbc:Name>
+        </cac:TaxScheme>
+      </cac:PartyTaxScheme>`;
+}
+
+function taxTotal(base: number, iva: number, porcentaje: number) {
+  return `
+  <cac:TaxTotal>
+    <cbc:TaxAmount ${amount(iva)}</cbc:TaxAmount>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount ${amount(base)}</cbc:TaxableAmount>
+      <cbc:TaxAmount ${amount(iva)}</cbc:TaxAmount>
+      <cac:TaxCategory>
+        <cbc:Percent>${formatAmount(porcentaje)}</cbc:Percent>
+        <cac:TaxScheme>
+          <cbc:ID>01</cbc:ID>
+          <cbc:Name>IVA</cbc:Name>
+        </cac:TaxScheme>
+      </cac:TaxCategory>
+    </cac:TaxSubtotal>
+  </cac:TaxTotal>`;
+}
+
+/**
+ * Genera el XML UBL 2.1 de la factura electrónica de venta (sin firmar).
+ * La firma se inserta después en SIGNATURE_PLACEHOLDER (ver DianGateway.sign).
+ */
+export function buildInvoiceXml(input: UblInvoiceInput) {
+  const { config, adquiriente } = input;
+  const { emisor, resolucion } = config;
+  const esNit = adquiriente.tipoDocumento === "31";
+  // 1 = persona jurídica, 2 = persona natural
+  const tipoPersona = esNit ? "1" : "2";
+
+  const lines = input.lineas
+    .map(
+      (l, i) => `
+  <cac:InvoiceLine>
+    <cbc:ID>${i + 1}</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="94">${l.cantidad}</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount ${amount(l.subtotal)}</cbc:LineExtensionAmount>${taxTotal(
+        l.subtotal,
+        l.iva,
+        config.ivaPorcentaje
+      )}
+    <cac:Item>
+      <cbc:Description>${xmlEscape(l.descripcion)}</cbc:Description>
+    </cac:Item>
+    <cac:Price>
+      <cbc:PriceAmount ${amount(l.subtotal / (l.cantidad || 1))}</cbc:PriceAmount>
+      <cbc:BaseQuantity unitCode="94">${l.cantidad}</cbc:BaseQuantity>
+    </cac:Price>
+  </cac:InvoiceLine>`
+    )
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"
+  xmlns:ds="http://www.w3.org/2000/09/xmldsig#"
+  xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"
+  xmlns:sts="dian:gov:co:facturaelectronica:Structures-2-1"
+  xmlns:xades="http://uri.etsi.org/01903/v1.3.2#">
+  <ext:UBLExtensions>
+    <ext:UBLExtension>
+      <ext:ExtensionContent>
+        <sts:DianExtensions>
+          <sts:InvoiceControl>
+            <sts:InvoiceAuthorization>${xmlEscape(resolucion.numero)}</sts:InvoiceAuthorization>
+            <sts:AuthorizationPeriod>
+              <cbc:StartDate>${resolucion.fechaDesde}</cbc:StartDate>
+              <cbc:EndDate>${resolucion.fechaHasta}</cbc:EndDate>
+            </sts:AuthorizationPeriod>
+            <sts:AuthorizedInvoices>
+              <sts:Prefix>${xmlEscape(resolucion.prefijo)}</sts:Prefix>
+              <sts:From>${resolucion.desde}</sts:From>
+              <sts:To>${resolucion.hasta}</sts:To>
+            </sts:AuthorizedInvoices>
+          </sts:InvoiceControl>
+          <sts:InvoiceSource>
+            <cbc:IdentificationCode listAgencyID="6" listAgencyName="United Nations Economic Commission for Europe" listSchemeURI="urn:oasis:names:specification:ubl:codelist:gc:CountryIdentificationCode-2.1">CO</cbc:IdentificationCode>
+          </sts:InvoiceSource>
+          <sts:SoftwareProvider>
+            <sts:ProviderID schemeAgencyID="195" schemeID="${emisor.dv}" schemeName="31">${emisor.nit}</sts:ProviderID>
+            <sts:SoftwareID schemeAgencyID="195">${xmlEscape(config.software.id)}</sts:SoftwareID>
+          </sts:SoftwareProvider>
+          <sts:SoftwareSecurityCode schemeAgencyID="195">${input.softwareSecurityCode}</sts:SoftwareSecurityCode>
+          <sts:AuthorizationProvider>
+            <sts:AuthorizationProviderID schemeAgencyID="195" schemeID="4" schemeName="31">800197268</sts:AuthorizationProviderID>
+          </sts:AuthorizationProvider>
+          <sts:QRCode>${xmlEscape(input.qrText)}</sts:QRCode>
+        </sts:DianExtensions>
+      </ext:ExtensionContent>
+    </ext:UBLExtension>
+    <ext:UBLExtension>
+      <ext:ExtensionContent>${SIGNATURE_PLACEHOLDER}</ext:ExtensionContent>
+    </ext:UBLExtension>
+  </ext:UBLExtensions>
+  <cbc:UBLVersionID>UBL 2.1</cbc:UBLVersionID>
+  <cbc:CustomizationID>10</cbc:CustomizationID>
+  <cbc:ProfileID>DIAN 2.1: Factura Electrónica de Venta</cbc:ProfileID>
+  <cbc:ProfileExecutionID>${config.ambiente}</cbc:ProfileExecutionID>
+  <cbc:ID>${xmlEscape(input.numeroFactura)}</cbc:ID>
+  <cbc:UUID schemeID="${config.ambiente}" schemeName="CUFE-SHA384">${input.cufe}</cbc:UUID>
+  <cbc:IssueDate>${input.fechaEmision}</cbc:IssueDate>
+  <cbc:IssueTime>${input.horaEmision}</cbc:IssueTime>
+  <cbc:InvoiceTypeCode>01</cbc:InvoiceTypeCode>${input.nota ? `
+  <cbc:Note>${xmlEscape(input.nota)}</cbc:Note>` : ""}
+  <cbc:DocumentCurrencyCode>COP</cbc:DocumentCurrencyCode>
+  <cbc:LineCountNumeric>${input.lineas.length}</cbc:LineCountNumeric>
+  <cac:AccountingSupplierParty>
+    <cbc:AdditionalAccountID>1</cbc:AdditionalAccountID>
+    <cac:Party>
+      <cac:PartyName>
+        <cbc:Name>${xmlEscape(emisor.nombreComercial)}</cbc:Name>
+      </cac:PartyName>
+      <cac:PhysicalLocation>
+        <cac:Address>
+          <cbc:ID>${emisor.codigoMunicipio}</cbc:ID>
+          <cbc:CityName>${xmlEscape(emisor.ciudad)}</cbc:CityName>
+          <cbc:CountrySubentity>${xmlEscape(emisor.departamento)}</cbc:CountrySubentity>
+          <cbc:CountrySubentityCode>${emisor.codigoDepartamento}</cbc:CountrySubentityCode>
+          <cac:AddressLine>
+            <cbc:Line>${xmlEscape(emisor.direccion)}</cbc:Line>
+          </cac:AddressLine>
+          <cac:Country>
+            <cbc:IdentificationCode>CO</cbc:IdentificationCode>
+          </cac:Country>
+        </cac:Address>
+      </cac:PhysicalLocation>${partyTaxScheme(emisor.razonSocial, emisor.nit, "31", emisor.dv)}
+      <cac:PartyLegalEntity>
+        <cbc:RegistrationName>${xmlEscape(emisor.razonSocial)}</cbc:RegistrationName>
+        <cbc:CompanyID schemeAgencyID="195" schemeID="${emisor.dv}" schemeName="31">${emisor.nit}</cbc:CompanyID>
+        <cac:CorporateRegistrationScheme>
+          <cbc:ID>${xmlEscape(resolucion.prefijo)}</cbc:ID>
+        </cac:CorporateRegistrationScheme>
+      </cac:PartyLegalEntity>${emisor.email ? `
+      <cac:Contact>
+        <cbc:ElectronicMail>${xmlEscape(emisor.email)}</cbc:ElectronicMail>
+      </cac:Contact>` : ""}
+    </cac:Party>
+  </cac:AccountingSupplierParty>
+  <cac:AccountingCustomerParty>
+    <cbc:AdditionalAccountID>${tipoPersona}</cbc:AdditionalAccountID>
+    <cac:Party>
+      <cac:PartyIdentification>
+        <cbc:ID${esNit ? ` schemeID="${nitCheckDigit(adquiriente.documento)}"` : ""} schemeName="${adquiriente.tipoDocumento}">${xmlEscape(adquiriente.documento)}</cbc:ID>
+      </cac:PartyIdentification>${partyTaxScheme(
+        adquiriente.nombre,
+        adquiriente.documento,
+        adquiriente.tipoDocumento,
+        esNit ? nitCheckDigit(adquiriente.documento) : null
+      )}
+      <cac:PartyLegalEntity>
+        <cbc:RegistrationName>${xmlEscape(adquiriente.nombre)}</cbc:RegistrationName>
+      </cac:PartyLegalEntity>${adquiriente.email ? `
+      <cac:Contact>
+        <cbc:ElectronicMail>${xmlEscape(adquiriente.email)}</cbc:ElectronicMail>
+      </cac:Contact>` : ""}
+    </cac:Party>
+  </cac:AccountingCustomerParty>
+  <cac:PaymentMeans>
+    <cbc:ID>1</cbc:ID>
+    <cbc:PaymentMeansCode>10</cbc:PaymentMeansCode>
+  </cac:PaymentMeans>${taxTotal(input.subtotal, input.iva, config.ivaPorcentaje)}
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount ${amount(input.subtotal)}</cbc:LineExtensionAmount>
+    <cbc:TaxExclusiveAmount ${amount(input.subtotal)}</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount ${amount(input.total)}</cbc:TaxInclusiveAmount>
+    <cbc:PayableAmount ${amount(input.total)}</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>${lines}
+</Invoice>
+`;
+}
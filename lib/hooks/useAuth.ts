@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { createSupabaseBrowserClient } from "../supabase/client";
 import type { User } from "@supabase/supabase-js";
+import { clearPermissionsCache } from "./usePermissions";
 
 /**
  * Hook personalizado para manejar autenticación en el cliente
@@ -41,6 +42,7 @@ export function useAuth() {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    clearPermissionsCache();
     router.push("/login");
     router.refresh();
   };
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { hasPermission, type Permission } from "../roles/permissions";
+import type { Role } from "../schemas/role";
+
+/** Una sola consulta a /api/me por sesión del navegador */
+let rolePromise: Promise<Role | null> | null = null;
+
+function fetchRole() {
+  if (!rolePromise) {
+    rolePromise = fetch("/api/me", { method: "GET" })
+      .then(async (res) => (res.ok ? ((await res.json()).role as Role) : null))
+      .catch(() => null)
+      .then((role) => {
+        if (!role) rolePromise = null; // reintentar en el próximo montaje
+        return role;
+      });
+  }
+  return rolePromise;
+}
+
+/** Olvida el rol consultado (al cerrar sesión) */
+export function clearPermissionsCache() {
+  rolePromise = null;
+}
+
+/**
+ * Rol del usuario actual (`/api/me`) para ocultar acciones en la UI.
+ * Mientras carga, `can()` devuelve false. La API verifica cada permiso
+ * de nuevo, así que esto no reemplaza los controles del servidor.
+ *
+ * Uso:
+ * ```typescript
+ * const { can } = usePermissions();
+ * {can("servicios.eliminar") && <button>Eliminar</button>}
+ * ```
+ */
+export function usePermissions() {
+  const [role, setRole] = useState<Role | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    fetchRole().then((r) => {
+      if (active) setRole(r);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return {
+    role,
+    can: (permission: Permission) => (role ? hasPermission(role, permission) : false),
+  };
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { registerMovement } from "./stock";
+import {
+  createMemoryInventoryRepository,
+  createMemoryMetalWeightRepository,
+  createMemoryServiceRepository,
+  getInventoryRepository,
+  setInventoryRepository,
+} from "../repositories";
+import type { MetalWeightEntry } from "../schemas/metal";
+import { serviceFixture } from "../../tests/fixtures";
+import { inventoryMovementListQuerySchema, type InventoryMovementCreate } from "../schemas/inventory";
+
+const movement = (overrides: Partial<InventoryMovementCreate>): InventoryMovementCreate => ({
+  tipo: "compra",
+  material: "Oro 18k",
+  almacen: "Centro",
+  almacen_destino: null,
+  sentido: undefined,
+  gramos: 10,
+  costo: 0,
+  nota: null,
+  ...overrides,
+});
+
+const salida = (gramos: number) => movement({ tipo: "ajuste", sentido: "salida", gramos, nota: "Conteo" });
+
+describe("existencias de metal", () => {
+  beforeEach(async () => {
+    setInventoryRepository(createMemoryInventoryRepository());
+    await registerMovement(movement({ gramos: 10 }), "ana");
+  });
+
+  it("una salida no puede superar la existencia", async () => {
+    const result = await registerMovement(salida(12), "ana");
+    expect(result).toEqual({ fields: { gramos: expect.stringMatching(/^Solo hay 10/) } });
+  });
+
+  it("dos salidas a la vez no dejan el almacén en negativo", async () => {
+    const results = await Promise.all([registerMovement(salida(7), "ana"), registerMovement(salida(7), "beto")]);
+
+    expect(results.filter((r) => "movimientos" in r)).toHaveLength(1);
+    const [row] = await getInventoryRepository().stock();
+    expect(row.gramos).toBe(3);
+  });
+
+  it("un traslado sin existencia no guarda ninguna de sus filas", async () => {
+    const result = await registerMovement(
+      movement({ tipo: "traslado", almacen_destino: "Norte", gramos: 15 }),
+      "ana"
+    );
+    expect("fields" in result).toBe(true);
+    expect(await getInventoryRepository().stock()).toEqual([{ material: "Oro 18k", almacen: "Centro", gramos: 10 }]);
+  });
+
+  it("el consumo que supera la existencia se registra marcado como sobregiro", async () => {
+    const services = createMemoryServiceRepository([serviceFixture({ almacen: "centro " })]);
+    const weights = createMemoryMetalWeightRepository(() => services, getInventoryRepository);
+    const taller = (taller_g: number): MetalWeightEntry[] => [
+      { material: "Oro 18k", recibido_g: 0, taller_g, final_g: 0, merma_g: 0 },
+    ];
+
+    const dentro = await weights.replaceForService("SRV-0001", taller(4), "ana");
+    expect(dentro.movimientos).toMatchObject([{ almacen: "Centro", gramos: -4, sobregiro: false }]);
+
+    const excedido = await weights.replaceForService("SRV-0001", taller(12), "ana");
+    expect(excedido.antes).toMatchObject([{ taller_g: 4 }]);
+    expect(excedido.movimientos).toMatchObject([{ gramos: -8, sobregiro: true }]);
+
+    const devolucion = await weights.replaceForService("SRV-0001", [], "ana");
+    expect(devolucion.movimientos).toMatchObject([{ gramos: 12, nota: expect.stringMatching(/^Devolución/) }]);
+    await weights.replaceForService("SRV-0001", taller(12), "ana");
+
+    const [row] = await getInventoryRepository().stock();
+    expect(row.gramos).toBe(-2);
+  });
+});
+
+describe("consulta de movimientos", () => {
+  it("limit y offset deben ser enteros", () => {
+    expect(inventoryMovementListQuerySchema.safeParse({ limit: "1.5" }).success).toBe(false);
+    expect(inventoryMovementListQuerySchema.safeParse({ offset: "2.5" }).success).toBe(false);
+    expect(inventoryMovementListQuerySchema.parse({ limit: "50" })).toMatchObject({ limit: 50, offset: 0 });
+    expect(inventoryMovementListQuerySchema.parse({ limit: "9999" }).limit).toBe(500);
+    expect(inventoryMovementListQuerySchema.parse({}).limit).toBe(100);
+  });
+});
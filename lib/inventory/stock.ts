@@ -0,0 +1,140 @@
+import crypto from "crypto";
+import { getInventoryRepository } from "../repositories";
+import type { FieldErrors } from "../schemas/fieldErrors";
+import {
+  resolveAlmacen,
+  roundGrams,
+  type InventoryMovement,
+  type InventoryMovementCreate,
+  type InventoryMovementInput,
+  type StockRow,
+} from "../schemas/inventory";
+import { formatGrams, sortByMaterial } from "../schemas/metal";
+import { SERVICE_MATERIALES, type ServiceMaterial } from "../schemas/service";
+
+/**
+ * Inventario de metal del taller: movimientos manuales y reporte de
+ * existencias con alertas de stock bajo. El consumo de los servicios se
+ * registra junto con sus pesos de metal (MetalWeightRepository.replaceForService).
+ *
+ * Variable (opcional):
+ * - INVENTARIO_STOCK_MINIMO: gramos mínimos por almacén de cada material,
+ *   "Oro 18k=50;Plata 925=200". Sin mínimo no hay alerta para ese material.
+ */
+
+export type StockMinimums = Partial<Record<ServiceMaterial, number>>;
+
+export function loadStockMinimums(env: NodeJS.ProcessEnv = process.env): StockMinimums {
+  const minimums: StockMinimums = {};
+  for (const entry of (env.INVENTARIO_STOCK_MINIMO ?? "").split(";")) {
+    const [name, value] = entry.split("=").map((part) => part?.trim() ?? "");
+    if (!name || !value) continue;
+    const material = SERVICE_MATERIALES.find((m) => m.toLowerCase() === name.toLowerCase());
+    const grams = Number(value.replace(",", "."));
+    if (!material) throw new Error(`INVENTARIO_STOCK_MINIMO: material desconocido "${name}"`);
+    if (!Number.isFinite(grams) || grams < 0) {
+      throw new Error(`INVENTARIO_STOCK_MINIMO: mínimo inválido para ${material} "${value}"`);
+    }
+    minimums[material] = grams;
+  }
+  return minimums;
+}
+
+export type StockReportRow = StockRow & { minimo: number | null; bajo: boolean };
+
+export type StockReport = {
+  existencias: StockReportRow[];
+  /** Total por material sumando todos los almacenes */
+  totales: { material: ServiceMaterial; gramos: number }[];
+  /** Existencias por debajo del mínimo (incluye las que están en 0 sin movimientos) */
+  alertas: StockReportRow[];
+};
+
+/**
+ * Existencias por material y almacén con su mínimo. Los almacenes son los
+ * que tienen movimientos; un material con mínimo que nunca entró a un
+ * almacén aparece en 0.
+ */
+export function buildStockReport(stock: StockRow[], minimums: StockMinimums): StockReport {
+  const almacenes = [...new Set(stock.map((row) => row.almacen))];
+  const rows: StockRow[] = [...stock];
+  for (const almacen of almacenes) {
+    for (const material of SERVICE_MATERIALES) {
+      if (minimums[material] === undefined) continue;
+      if (!rows.some((r) => r.almacen === almacen && r.material === material)) {
+        rows.push({ material, almacen, gramos: 0 });
+      }
+    }
+  }
+
+  const existencias = sortByMaterial(rows.sort((a, b) => a.almacen.localeCompare(b.almacen, "es"))).map(
+    (row) => {
+      const minimo = minimums[row.material] ?? null;
+      return { ...row, minimo, bajo: minimo !== null ? row.gramos < minimo : row.gramos < 0 };
+    }
+  );
+
+  const totales = SERVICE_MATERIALES.filter((m) => stock.some((r) => r.material === m)).map((material) => ({
+    material,
+    gramos: roundGrams(stock.filter((r) => r.material === material).reduce((acc, r) => acc + r.gramos, 0)),
+  }));
+
+  return { existencias, totales, alertas: existencias.filter((row) => row.bajo) };
+}
+
+/** Reporte de existencias con los mínimos configurados */
+export async function stockReport(env: NodeJS.ProcessEnv = process.env) {
+  return buildStockReport(await getInventoryRepository().stock(), loadStockMinimums(env));
+}
+
+function insufficientStockMessage(row: StockRow) {
+  return `Solo hay ${formatGrams(Math.max(row.gramos, 0))} de ${row.material} en ${row.almacen}`;
+}
+
+/**
+ * Registra una compra, un ajuste o un traslado. Las salidas (ajuste de
+ * salida y traslado) no pueden superar la existencia del almacén; el
+ * repositorio lo verifica al guardar.
+ */
+export async function registerMovement(
+  movement: InventoryMovementCreate,
+  createdBy: string
+): Promise<{ movimientos: InventoryMovement[] } | { fields: FieldErrors }> {
+  const inventory = getInventoryRepository();
+  const stock = await inventory.stock();
+  const almacen = resolveAlmacen(movement.almacen, stock);
+  const base = {
+    material: movement.material,
+    costo: null,
+    service_code: null,
+    traslado_id: null,
+    nota: movement.nota,
+    created_by: createdBy,
+  };
+
+  const isOutgoing = movement.tipo === "traslado" || (movement.tipo === "ajuste" && movement.sentido === "salida");
+
+  let rows: InventoryMovementInput[];
+  if (movement.tipo === "traslado") {
+    const traslado_id = crypto.randomUUID();
+    const destino = resolveAlmacen(movement.almacen_destino ?? "", stock);
+    rows = [
+      { ...base, tipo: "traslado", almacen, gramos: -movement.gramos, traslado_id },
+      { ...base, tipo: "traslado", almacen: destino, gramos: movement.gramos, traslado_id },
+    ];
+  } else {
+    rows = [
+      {
+        ...base,
+        tipo: movement.tipo,
+        almacen,
+        gramos: isOutgoing ? -movement.gramos : movement.gramos,
+        costo: movement.tipo === "compra" && movement.costo > 0 ? movement.costo : null,
+      },
+    ];
+  }
+
+  const result = await inventory.addMovements(rows);
+  if (!result.ok) return { fields: { gramos: insufficientStockMessage(result.insuficiente) } };
+  return { movimientos: result.movimientos };
+}
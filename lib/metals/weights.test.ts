@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { maxMermaPercent, validateMetalWeights } from "./weights";
+import { metalWeightsUpdateSchema, sortByMaterial, type MetalWeightEntry } from "../schemas/metal";
+import { toFieldErrors } from "../schemas/fieldErrors";
+
+function row(overrides: Partial<MetalWeightEntry> = {}): MetalWeightEntry {
+  return { material: "Oro 18k", recibido_g: 10, taller_g: 2, final_g: 11.5, merma_g: 0.5, ...overrides };
+}
+
+function env(MERMA_MAXIMA_PORCENTAJE?: string): NodeJS.ProcessEnv {
+  return { NODE_ENV: "test", MERMA_MAXIMA_PORCENTAJE };
+}
+
+describe("balance de metal", () => {
+  it("acepta un balance cuadrado y tolera el redondeo", () => {
+    expect(validateMetalWeights([row()], env())).toEqual({});
+    expect(validateMetalWeights([row({ final_g: 11.505 })], env())).toEqual({});
+  });
+
+  it("el peso final más la merma no supera el metal que entró", () => {
+    const plata = row({ material: "Plata 925", final_g: 12, merma_g: 0.5 });
+
+    expect(validateMetalWeights([row(), plata], env())).toEqual({
+      "pesos.1.final_g":
+        "Plata 925: el peso final más la merma (12,5 g) supera el metal recibido y del taller (12 g)",
+    });
+  });
+
+  it("la merma no supera el porcentaje configurado", () => {
+    const alta = row({ final_g: 11, merma_g: 1 });
+
+    expect(validateMetalWeights([alta], env())).toEqual({
+      "pesos.0.merma_g": "Oro 18k: la merma supera el 5% permitido (máximo 0,6 g)",
+    });
+    expect(validateMetalWeights([alta], env("10"))).toEqual({});
+  });
+
+  it("un porcentaje configurado inválido vuelve al 5%", () => {
+    expect(maxMermaPercent(env())).toBe(5);
+    expect(maxMermaPercent(env("0"))).toBe(0);
+    expect(maxMermaPercent(env("150"))).toBe(5);
+    expect(maxMermaPercent(env("mucho"))).toBe(5);
+  });
+});
+
+describe("esquema de los pesos", () => {
+  it("convierte los gramos escritos con coma", () => {
+    const parsed = metalWeightsUpdateSchema.parse({
+      pesos: [{ material: "Oro 18k", recibido_g: "3,25", taller_g: "", final_g: "3,1", merma_g: "0,15" }],
+    });
+    expect(parsed.pesos[0]).toEqual(row({ recibido_g: 3.25, taller_g: 0, final_g: 3.1, merma_g: 0.15 }));
+  });
+
+  it("cada material aparece una sola vez y los gramos no son negativos", () => {
+    const repetido = metalWeightsUpdateSchema.safeParse({ pesos: [row(), row()] });
+    expect(repetido.success ? {} : toFieldErrors(repetido.error)).toEqual({
+      pesos: "Cada material solo puede aparecer una vez",
+    });
+
+    const negativo = metalWeightsUpdateSchema.safeParse({ pesos: [row({ merma_g: -1 })] });
+    expect(negativo.success ? {} : toFieldErrors(negativo.error)).toEqual({
+      "pesos.0.merma_g": "Merma no puede ser negativo",
+    });
+  });
+
+  it("ordena los materiales como en el formulario", () => {
+    const rows = [row({ material: "Plata 950" }), row({ material: "Oro de 14k" }), row({ material: "Oro 18k" })];
+    expect(sortByMaterial(rows).map((r) => r.material)).toEqual(["Oro de 14k", "Oro 18k", "Plata 950"]);
+  });
+});
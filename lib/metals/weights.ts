@@ -0,0 +1,20 @@
+import { metalBalanceErrors, type MetalWeightEntry } from "../schemas/metal";
+
+/**
+ * Merma máxima permitida, en % del metal que entra al servicio
+ * (recibido + taller). Variable MERMA_MAXIMA_PORCENTAJE, por defecto 5.
+ */
+const DEFAULT_MAX_MERMA_PERCENT = 5;
+
+export function maxMermaPercent(env: NodeJS.ProcessEnv = process.env) {
+  const n = Number(env.MERMA_MAXIMA_PORCENTAJE);
+  return env.MERMA_MAXIMA_PORCENTAJE && Number.isFinite(n) && n >= 0 && n <= 100
+    ? n
+    : DEFAULT_MAX_MERMA_PERCENT;
+}
+
+/** Errores del balance con la merma máxima configurada */
+export function validateMetalWeights(rows: MetalWeightEntry[], env: NodeJS.ProcessEnv = process.env) {
+  return metalBalanceErrors(rows, maxMermaPercent(env));
+}
+
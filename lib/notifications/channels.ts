@@ -0,0 +1,76 @@
+import fs from "fs";
+import type { NotificationCanal } from "../schemas/notification";
+
+/**
+ * Contrato de los proveedores de envío de notificaciones (whatsapp.ts,
+ * sms.ts, smtp.ts) y adaptador de desarrollo.
+ */
+
+export type OutgoingNotification = {
+  /** Teléfono (whatsapp, sms) o correo (email) */
+  destino: string;
+  /** Solo se usa en el correo */
+  asunto: string;
+  mensaje: string;
+};
+
+export type NotificationSendResult = {
+  /** Id del mensaje según el proveedor (si lo devuelve) */
+  proveedorId: string | null;
+};
+
+export interface NotificationChannel {
+  /** Nombre que queda en `notification_log.proveedor` */
+  proveedor: string;
+  /** Lanza Error si el proveedor rechaza el envío */
+  send(notification: OutgoingNotification): Promise<NotificationSendResult>;
+}
+
+/** Adaptador de desarrollo y pruebas: no envía nada, solo deja el mensaje escrito */
+export function createDevNotificationChannel(
+  canal: NotificationCanal,
+  filePath: string | null = process.env.NOTIFICATIONS_LOG_FILE?.trim() || null
+): NotificationChannel {
+  return {
+    proveedor: filePath ? "archivo" : "consola",
+
+    async send(notification: OutgoingNotification) {
+      const record = { fecha: new Date().toISOString(), canal, ...notification };
+      if (filePath) {
+        await fs.promises.appendFile(filePath, `${JSON.stringify(record)}\n`, "utf8");
+      } else {
+        console.info(`[notificación ${canal}] → ${notification.destino}\n${notification.mensaje}`);
+      }
+      return { proveedorId: null };
+    },
+  };
+}
+
+/**
+ * Teléfono en formato internacional E.164 (sin "+") para WhatsApp y SMS.
+ * Los números locales de 10 dígitos reciben el indicativo del país
+ * (NOTIFICATIONS_COUNTRY_CODE, 57 por defecto).
+ */
+export function toInternationalPhone(phone: string) {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+")) return digits;
+  const countryCode = process.env.NOTIFICATIONS_COUNTRY_CODE?.replace(/\D/g, "") || "57";
+  return digits.length === 10 ? `${countryCode}${digits}` : digits;
+}
+
+/** Texto de error de la respuesta de un proveedor HTTP */
+export async function providerError(res: Response, proveedor: string) {
+  let detail = "";
+  try {
+    const json: unknown = await res.json();
+    if (json && typeof json === "object") {
+      const body = json as { error?: { message?: string } | string; message?: string };
+      detail =
+        (typeof body.error === "object" ? body.error?.message : body.error) ?? body.message ?? "";
+    }
+  } catch {
+    // respuesta sin JSON
+  }
+  return new Error(`${proveedor} respondió ${res.status}${detail ? `: ${detail}` : ""}`);
+}
@@ -0,0 +1,133 @@
+import {
+  getClaimRepository,
+  getCustomerRepository,
+  getNotificationRepository,
+} from "../repositories";
+import { getLedger } from "../payments/ledger";
+import { getCompanySettings } from "../settings/company";
+import { trackingUrl } from "../claims/ticket";
+import type { Customer } from "../schemas/customer";
+import type { Service } from "../schemas/service";
+import {
+  EVENTO_POR_ESTADO,
+  type NotificationCanal,
+  type NotificationEvento,
+} from "../schemas/notification";
+import { renderNotification } from "./templates";
+import { getNotificationChannel, notificationChannelMissingMessage } from "./providers";
+
+/**
+ * Envío de notificaciones al cliente desde las rutas API.
+ *
+ * Las rutas lo programan con `after` (next/server): el envío corre después
+ * de responder, así la operación no espera al proveedor (el SMTP puede
+ * tardar hasta 20 s). Nunca lanza: un proveedor caído queda como "fallido"
+ * en `notification_log`.
+ */
+
+/** Teléfono o correo del cliente según el canal elegido */
+function destinationFor(customer: Customer, canal: NotificationCanal) {
+  return canal === "email" ? customer.email : (customer.telefonos[0] ?? null);
+}
+
+async function notifyCustomer(
+  service: Service,
+  evento: NotificationEvento,
+  options: { origin: string; monto?: number }
+) {
+  if (!service.customer_id) return;
+
+  const customer = await getCustomerRepository().getById(service.customer_id);
+  const canal = customer?.canal_notificaciones;
+  if (!customer || !canal) return;
+
+  const [{ balance }, company, claim] = await Promise.all([
+    getLedger(service),
+    getCompanySettings(),
+    getClaimRepository().getByServiceCode(service.code),
+  ]);
+
+  const { asunto, mensaje } = renderNotification(evento, {
+    cliente: customer.nombre,
+    code: service.code,
+    tienda: company.nombre_comercial,
+    saldo: balance.saldo,
+    monto: options.monto,
+    seguimiento: claim ? trackingUrl(options.origin, claim.token) : null,
+  });
+
+  const destino = destinationFor(customer, canal);
+  const base = { service_code: service.code, customer_id: customer.id, evento, canal, destino, mensaje };
+  const notifications = getNotificationRepository();
+
+  if (!destino) {
+    await notifications.append({
+      ...base,
+      estado: "omitido",
+      proveedor: null,
+      proveedor_id: null,
+      error: canal === "email" ? "El cliente no tiene correo" : "El cliente no tiene teléfono",
+    });
+    return;
+  }
+
+  const channel = getNotificationChannel(canal);
+  if (!channel) {
+    await notifications.append({
+      ...base,
+      estado: "fallido",
+      proveedor: null,
+      proveedor_id: null,
+      error: notificationChannelMissingMessage(canal),
+    });
+    return;
+  }
+
+  try {
+    const result = await channel.send({ destino, asunto, mensaje });
+    await notifications.append({
+      ...base,
+      estado: "enviado",
+      proveedor: channel.proveedor,
+      proveedor_id: result.proveedorId,
+      error: null,
+    });
+  } catch (err) {
+    await notifications.append({
+      ...base,
+      estado: "fallido",
+      proveedor: channel.proveedor,
+      proveedor_id: null,
+      error: err instanceof Error ? err.message : String(err),
+    });
+  }
+}
+
+async function safely(label: string, task: () => Promise<void>) {
+  try {
+    await task();
+  } catch (err) {
+    console.error(`Error enviando notificación (${label}):`, err);
+  }
+}
+
+/** Después de una transición de estado (solo los estados con evento) */
+export async function notifyStatusChange(service: Service, origin: string) {
+  const evento = EVENTO_POR_ESTADO[service.estado];
+  if (!evento) return;
+  await safely(`${evento} ${service.code}`, () => notifyCustomer(service, evento, { origin }));
+}
+
+/** Aviso manual de que la pieza está lista para recoger */
+export async function notifyReadyForPickup(service: Service, origin: string) {
+  await safely(`listo_para_recoger ${service.code}`, () =>
+    notifyCustomer(service, "listo_para_recoger", { origin })
+  );
+}
+
+/** Después de registrar un pago */
+export async function notifyPayment(service: Service, monto: number, origin: string) {
+  await safely(`pago_registrado ${service.code}`, () =>
+    notifyCustomer(service, "pago_registrado", { origin, monto })
+  );
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { channelFromEnv } from "./providers";
+
+describe("proveedores de notificaciones", () => {
+  it("usa el proveedor real si está configurado", () => {
+    const env = { NODE_ENV: "production", SMTP_HOST: "smtp.taller.co", SMTP_FROM: "taller@taller.co" } as const;
+    expect(channelFromEnv("email", env)?.proveedor).toBe("smtp");
+  });
+
+  it("fuera de producción, sin configuración, escribe en consola o archivo", () => {
+    expect(channelFromEnv("whatsapp", { NODE_ENV: "development" })?.proveedor).toBe("consola");
+    expect(
+      channelFromEnv("sms", { NODE_ENV: "test", NOTIFICATIONS_LOG_FILE: "/tmp/notificaciones.jsonl" })?.proveedor
+    ).toBe("archivo");
+  });
+
+  it("en producción, sin configuración, no hay proveedor", () => {
+    for (const canal of ["whatsapp", "sms", "email"] as const) {
+      expect(channelFromEnv(canal, { NODE_ENV: "production" })).toBeNull();
+    }
+  });
+});
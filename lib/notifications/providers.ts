@@ -0,0 +1,62 @@
+import type { NotificationCanal } from "../schemas/notification";
+import { createDevNotificationChannel, type NotificationChannel } from "./channels";
+import { createWhatsAppCloudChannel, loadWhatsAppConfig } from "./whatsapp";
+import { createTwilioSmsChannel, loadTwilioConfig } from "./sms";
+import { createSmtpEmailChannel, loadSmtpConfig } from "./smtp";
+
+/**
+ * Proveedor de envío de cada canal.
+ *
+ * Cada canal usa su proveedor real si sus variables de entorno están
+ * configuradas. Si no, fuera de producción se usa el adaptador de desarrollo,
+ * que escribe el mensaje en NOTIFICATIONS_LOG_FILE (JSON por línea) o en la
+ * consola del servidor. En producción no hay adaptador de desarrollo: el
+ * envío queda "fallido" (nunca "enviado" sin que salga nada).
+ */
+
+export function notificationChannelMissingMessage(canal: NotificationCanal) {
+  return `No hay un proveedor configurado para el canal ${canal}`;
+}
+
+/** Proveedor real del canal según el entorno (null si no está configurado) */
+function providerFromEnv(canal: NotificationCanal, env: NodeJS.ProcessEnv): NotificationChannel | null {
+  switch (canal) {
+    case "whatsapp": {
+      const config = loadWhatsAppConfig(env);
+      return config ? createWhatsAppCloudChannel(config) : null;
+    }
+    case "sms": {
+      const config = loadTwilioConfig(env);
+      return config ? createTwilioSmsChannel(config) : null;
+    }
+    case "email": {
+      const config = loadSmtpConfig(env);
+      return config ? createSmtpEmailChannel(config) : null;
+    }
+  }
+}
+
+/** Proveedor del canal; sin configuración, el de desarrollo solo fuera de producción */
+export function channelFromEnv(
+  canal: NotificationCanal,
+  env: NodeJS.ProcessEnv = process.env
+): NotificationChannel | null {
+  const provider = providerFromEnv(canal, env);
+  if (provider) return provider;
+  if (env.NODE_ENV === "production") return null;
+  return createDevNotificationChannel(canal, env.NOTIFICATIONS_LOG_FILE?.trim() || null);
+}
+
+const channels = new Map<NotificationCanal, NotificationChannel | null>();
+
+/** Proveedor del canal (se crea con la configuración del entorno la primera vez; null: no hay) */
+export function getNotificationChannel(canal: NotificationCanal): NotificationChannel | null {
+  if (!channels.has(canal)) channels.set(canal, channelFromEnv(canal));
+  return channels.get(canal) ?? null;
+}
+
+/** Reemplaza el proveedor del canal (p. ej. en pruebas). `null` vuelve al configurado. */
+export function setNotificationChannel(canal: NotificationCanal, channel: NotificationChannel | null) {
+  if (channel) channels.set(canal, channel);
+  else channels.delete(canal);
+}
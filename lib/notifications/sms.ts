@@ -0,0 +1,56 @@
+import {
+  providerError,
+  toInternationalPhone,
+  type NotificationChannel,
+  type OutgoingNotification,
+} from "./channels";
+
+/**
+ * SMS con Twilio (API REST de mensajes).
+ *
+ * Variables: TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN y TWILIO_FROM (número
+ * remitente en formato +57...).
+ */
+
+export type TwilioConfig = {
+  accountSid: string;
+  authToken: string;
+  from: string;
+};
+
+/** null si el SMS no está configurado */
+export function loadTwilioConfig(env: NodeJS.ProcessEnv = process.env): TwilioConfig | null {
+  const accountSid = env.TWILIO_ACCOUNT_SID?.trim();
+  const authToken = env.TWILIO_AUTH_TOKEN?.trim();
+  const from = env.TWILIO_FROM?.trim();
+  if (!accountSid || !authToken || !from) return null;
+  return { accountSid, authToken, from };
+}
+
+export function createTwilioSmsChannel(config: TwilioConfig): NotificationChannel {
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${encodeURIComponent(config.accountSid)}/Messages.json`;
+  const credentials = Buffer.from(`${config.accountSid}:${config.authToken}`).toString("base64");
+
+  return {
+    proveedor: "twilio",
+
+    async send(notification: OutgoingNotification) {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          To: `+${toInternationalPhone(notification.destino)}`,
+          From: config.from,
+          Body: notification.mensaje,
+        }),
+      });
+      if (!res.ok) throw await providerError(res, "Twilio");
+
+      const json = (await res.json()) as { sid?: string };
+      return { proveedorId: json.sid ?? null };
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import net from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSmtpEmailChannel, type SmtpConfig } from "./smtp";
+
+/**
+ * Servidor SMTP de prueba (sin TLS): anuncia sus extensiones en una
+ * respuesta multilínea y guarda los comandos y el DATA recibidos.
+ */
+function fakeSmtpServer(extensions: string[]) {
+  const commands: string[] = [];
+  let data = "";
+
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 prueba ESMTP\r\n");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let index: number;
+      while ((index = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === ".") {
+            inData = false;
+            socket.write("250 2.0.0 Ok: queued as ABC123\r\n");
+          } else {
+            data += `${line}\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") {
+          const lines = ["prueba", ...extensions];
+          socket.write(lines.map((l, i) => `250${i < lines.length - 1 ? "-" : " "}${l}\r\n`).join(""));
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else if (verb === "STARTTLS") {
+          socket.write("454 TLS not available\r\n");
+        } else {
+          socket.write("250 Ok\r\n");
+        }
+      }
+    });
+  });
+
+  return {
+    commands,
+    data: () => data,
+    async listen() {
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      return (server.address() as net.AddressInfo).port;
+    },
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+const baseConfig = (port: number): SmtpConfig => ({
+  host: "127.0.0.1",
+  port,
+  secure: false,
+  user: null,
+  pass: null,
+  from: "Joyería <taller@joyeria.co>",
+});
+
+describe("correo por SMTP", () => {
+  let server: ReturnType<typeof fakeSmtpServer> | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it("no envía credenciales si el servidor no ofrece STARTTLS", async () => {
+    server = fakeSmtpServer(["AUTH PLAIN LOGIN"]);
+    const port = await server.listen();
+    const channel = createSmtpEmailChannel({ ...baseConfig(port), user: "taller", pass: "secreto" });
+
+    await expect(
+      channel.send({ destino: "ana@correo.co", asunto: "Hola", mensaje: "Prueba" })
+    ).rejects.toThrow();
+    expect(server.commands.some((c) => /^AUTH/i.test(c))).toBe(false);
+    expect(server.commands.some((c) => /^MAIL FROM/i.test(c))).toBe(false);
+  });
+
+  it("no envía credenciales si el servidor rechaza STARTTLS", async () => {
+    server = fakeSmtpServer(["STARTTLS", "AUTH PLAIN LOGIN"]);
+    const port = await server.listen();
+    const channel = createSmtpEmailChannel({ ...baseConfig(port), user: "taller", pass: "secreto" });
+
+    await expect(
+      channel.send({ destino: "ana@correo.co", asunto: "Hola", mensaje: "Prueba" })
+    ).rejects.toThrow();
+    expect(server.commands.some((c) => /^AUTH/i.test(c))).toBe(false);
+  });
+
+  it("lee respuestas multilínea, codifica encabezados UTF-8 y duplica los puntos iniciales", async () => {
+    server = fakeSmtpServer(["PIPELINING", "8BITMIME", "SIZE 10240000"]);
+    const port = await server.listen();
+    const channel = createSmtpEmailChannel(baseConfig(port));
+
+    const result = await channel.send({
+      destino: "ana@correo.co",
+      asunto: "Tu anillo está listo ✨",
+      mensaje: "Hola Ana\n.\n.línea con punto",
+    });
+
+    expect(result.proveedorId).toBeTruthy();
+    expect(server.commands).toContain("MAIL FROM:<taller@joyeria.co>");
+    expect(server.commands).toContain("RCPT TO:<ana@correo.co>");
+
+    const [headers, body] = server.data().split("\n\n");
+    expect(headers).toMatch(/^Subject: =\?UTF-8\?/m);
+    expect(/[^\x00-\x7F]/.test(headers)).toBe(false);
+    // Un "." al inicio de línea se envía duplicado (si no, terminaría el DATA)
+    const lines = body.split("\n");
+    expect(lines).toContain("..");
+    expect(lines.some((l) => l.startsWith("..l"))).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import nodemailer from "nodemailer";
+import type SMTPTransport from "nodemailer/lib/smtp-transport";
+import type { NotificationChannel, OutgoingNotification } from "./channels";
+
+/**
+ * Correo por SMTP con nodemailer (STARTTLS, AUTH, codificación de
+ * encabezados y del cuerpo en UTF-8).
+ *
+ * Variables: SMTP_HOST, SMTP_FROM ("Nombre <correo@dominio>") y opcionalmente
+ * SMTP_PORT (587 por defecto), SMTP_SECURE ("true": TLS directo, el
+ * predeterminado en el puerto 465), SMTP_USER y SMTP_PASS. Las credenciales
+ * nunca se envían sin TLS.
+ */
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** TLS desde la conexión (si no, se exige STARTTLS para autenticarse) */
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+};
+
+const TIMEOUT_MS = 20_000;
+
+/** null si el correo no está configurado */
+export function loadSmtpConfig(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  const host = env.SMTP_HOST?.trim();
+  const from = env.SMTP_FROM?.trim();
+  if (!host || !from) return null;
+
+  const port = Number(env.SMTP_PORT) || 587;
+  return {
+    host,
+    port,
+    secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+    user: env.SMTP_USER?.trim() || null,
+    pass: env.SMTP_PASS || null,
+    from,
+  };
+}
+
+export function createSmtpEmailChannel(config: SmtpConfig): NotificationChannel {
+  return {
+    proveedor: "smtp",
+
+    async send(notification: OutgoingNotification) {
+      return sendSmtpMail(config, notification);
+    },
+  };
+}
+
+/**
+ * Transporte de nodemailer: con credenciales exige TLS (STARTTLS o TLS
+ * directo); si el servidor no lo ofrece, falla antes de enviar AUTH.
+ */
+export function smtpTransportOptions(config: SmtpConfig): SMTPTransport.Options {
+  return {
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    requireTLS: !config.secure && !!config.user,
+    auth: config.user && config.pass ? { user: config.user, pass: config.pass } : undefined,
+    connectionTimeout: TIMEOUT_MS,
+    greetingTimeout: TIMEOUT_MS,
+    socketTimeout: TIMEOUT_MS,
+  };
+}
+
+async function sendSmtpMail(config: SmtpConfig, notification: OutgoingNotification) {
+  const transport = nodemailer.createTransport(smtpTransportOptions(config));
+  try {
+    const info = await transport.sendMail({
+      from: config.from,
+      to: notification.destino,
+      subject: notification.asunto,
+      text: notification.mensaje,
+    });
+    return { proveedorId: info.messageId || null };
+  } finally {
+    transport.close();
+  }
+}
@@ -0,0 +1,79 @@
+import type { NotificationEvento } from "../schemas/notification";
+
+/**
+ * Mensajes al cliente por evento. Van en texto plano (sirven igual para
+ * WhatsApp, SMS y correo); el asunto solo se usa en el correo.
+ */
+
+export type NotificationContext = {
+  cliente: string;
+  code: string;
+  tienda: string;
+  /** Saldo pendiente después del evento (COP) */
+  saldo: number;
+  /** Monto del pago (solo `pago_registrado`) */
+  monto?: number;
+  /** Página pública de seguimiento (null: el servicio no tiene tiquete) */
+  seguimiento: string | null;
+};
+
+function formatCOP(value: number) {
+  return new Intl.NumberFormat("es-CO", {
+    style: "currency",
+    currency: "COP",
+    maximumFractionDigits: 0,
+  }).format(Number.isFinite(value) ? value : 0);
+}
+
+function firstName(cliente: string) {
+  return cliente.trim().split(/\s+/)[0] || cliente;
+}
+
+const TEMPLATES: Record<
+  NotificationEvento,
+  (ctx: NotificationContext) => { asunto: string; lineas: string[] }
+> = {
+  en_fabricacion: (ctx) => ({
+    asunto: `Tu pieza ${ctx.code} está en fabricación`,
+    lineas: [`Hola ${firstName(ctx.cliente)}, tu pieza (servicio ${ctx.code}) ya está en fabricación.`],
+  }),
+  listo_para_recoger: (ctx) => ({
+    asunto: `Tu pieza ${ctx.code} está lista para recoger`,
+    lineas: [
+      `Hola ${firstName(ctx.cliente)}, tu pieza (servicio ${ctx.code}) está lista para recoger.`,
+      ctx.saldo > 0 ? `Saldo pendiente: ${formatCOP(ctx.saldo)}.` : "Tu servicio está totalmente pago.",
+      "Presenta tu tiquete de retiro al recogerla.",
+    ],
+  }),
+  garantia: (ctx) => ({
+    asunto: `Recibimos tu pieza ${ctx.code} por garantía`,
+    lineas: [
+      `Hola ${firstName(ctx.cliente)}, recibimos tu pieza (servicio ${ctx.code}) para revisión por garantía.`,
+      "Te avisaremos cuando esté lista.",
+    ],
+  }),
+  entregado: (ctx) => ({
+    asunto: `Tu pieza ${ctx.code} fue entregada`,
+    lineas: [
+      `Hola ${firstName(ctx.cliente)}, registramos la entrega de tu pieza (servicio ${ctx.code}).`,
+      "¡Gracias por confiar en nosotros!",
+    ],
+  }),
+  pago_registrado: (ctx) => ({
+    asunto: `Recibimos tu pago del servicio ${ctx.code}`,
+    lineas: [
+      `Hola ${firstName(ctx.cliente)}, recibimos tu pago de ${formatCOP(ctx.monto ?? 0)} para el servicio ${ctx.code}.`,
+      ctx.saldo > 0 ? `Saldo pendiente: ${formatCOP(ctx.saldo)}.` : "Tu servicio quedó totalmente pago.",
+    ],
+  }),
+};
+
+export function renderNotification(evento: NotificationEvento, ctx: NotificationContext) {
+  const { asunto, lineas } = TEMPLATES[evento](ctx);
+  const seguimiento =
+    ctx.seguimiento && evento !== "entregado" ? [`Consulta el estado en ${ctx.seguimiento}`] : [];
+  return {
+    asunto: `${asunto} · ${ctx.tienda}`,
+    mensaje: [...lineas, ...seguimiento, `— ${ctx.tienda}`].join("\n"),
+  };
+}
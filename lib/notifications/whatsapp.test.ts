@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createWhatsAppCloudChannel, loadWhatsAppConfig, templateParameter } from "./whatsapp";
+import { renderNotification } from "./templates";
+
+const { mensaje } = renderNotification("pago_registrado", {
+  cliente: "Ana Gómez",
+  code: "SRV-0001",
+  tienda: "Joyería Central",
+  saldo: 30_000,
+  monto: 50_000,
+  seguimiento: "https://taller.co/seguimiento/abc",
+});
+
+function captureFetch() {
+  const bodies: Record<string, unknown>[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (_url: string, init: RequestInit) => {
+      bodies.push(JSON.parse(String(init.body)));
+      return new Response(JSON.stringify({ messages: [{ id: "wamid.1" }] }), { status: 200 });
+    })
+  );
+  return bodies;
+}
+
+describe("WhatsApp Cloud API", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("el parámetro de la plantilla va en una sola línea, sin tabuladores ni espacios repetidos", () => {
+    expect(mensaje).toContain("\n");
+    const text = templateParameter(`${mensaje}\n\tNota:     con  espacios\n`);
+    expect(text).not.toMatch(/[\n\t]| {2,}/);
+    expect(text).toContain("recibimos tu pago de");
+    expect(text.split(" · ")).toHaveLength(mensaje.split("\n").length + 1);
+  });
+
+  it("con plantilla envía el mensaje aplanado como parámetro del cuerpo", async () => {
+    const bodies = captureFetch();
+    const config = loadWhatsAppConfig({
+      NODE_ENV: "test",
+      WHATSAPP_TOKEN: "token",
+      WHATSAPP_PHONE_NUMBER_ID: "123",
+      WHATSAPP_TEMPLATE: "estado_servicio",
+    })!;
+
+    const result = await createWhatsAppCloudChannel(config).send({ destino: "3001234567", asunto: "", mensaje });
+
+    expect(result).toEqual({ proveedorId: "wamid.1" });
+    expect(bodies[0]).toMatchObject({
+      to: "573001234567",
+      type: "template",
+      template: {
+        name: "estado_servicio",
+        language: { code: "es" },
+        components: [{ type: "body", parameters: [{ type: "text", text: templateParameter(mensaje) }] }],
+      },
+    });
+  });
+
+  it("sin plantilla envía el texto con sus saltos de línea", async () => {
+    const bodies = captureFetch();
+    const config = loadWhatsAppConfig({ NODE_ENV: "test", WHATSAPP_TOKEN: "token", WHATSAPP_PHONE_NUMBER_ID: "123" })!;
+
+    await createWhatsAppCloudChannel(config).send({ destino: "+57 300 123 4567", asunto: "", mensaje });
+
+    expect(bodies[0]).toMatchObject({ to: "573001234567", type: "text", text: { body: mensaje } });
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  providerError,
+  toInternationalPhone,
+  type NotificationChannel,
+  type OutgoingNotification,
+} from "./channels";
+
+/**
+ * WhatsApp Cloud API (Meta).
+ *
+ * Variables: WHATSAPP_TOKEN, WHATSAPP_PHONE_NUMBER_ID y opcionalmente
+ * WHATSAPP_API_VERSION. Fuera de la ventana de 24 horas Meta solo acepta
+ * plantillas aprobadas: con WHATSAPP_TEMPLATE (y WHATSAPP_TEMPLATE_LANG, "es"
+ * por defecto) el mensaje va como único parámetro del cuerpo de la plantilla,
+ * en una sola línea (ver templateParameter).
+ */
+
+export type WhatsAppConfig = {
+  token: string;
+  phoneNumberId: string;
+  apiVersion: string;
+  template: { name: string; language: string } | null;
+};
+
+/** null si WhatsApp no está configurado */
+export function loadWhatsAppConfig(env: NodeJS.ProcessEnv = process.env): WhatsAppConfig | null {
+  const token = env.WHATSAPP_TOKEN?.trim();
+  const phoneNumberId = env.WHATSAPP_PHONE_NUMBER_ID?.trim();
+  if (!token || !phoneNumberId) return null;
+
+  const template = env.WHATSAPP_TEMPLATE?.trim();
+  return {
+    token,
+    phoneNumberId,
+    apiVersion: env.WHATSAPP_API_VERSION?.trim() || "v21.0",
+    template: template
+      ? { name: template, language: env.WHATSAPP_TEMPLATE_LANG?.trim() || "es" }
+      : null,
+  };
+}
+
+/**
+ * Texto de un parámetro de plantilla: Meta rechaza parámetros con saltos de
+ * línea, tabuladores o más de cuatro espacios seguidos, así que las líneas
+ * del mensaje se unen con " · ".
+ */
+export function templateParameter(mensaje: string) {
+  return mensaje
+    .split(/\r?\n/)
+    .map((linea) => linea.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function createWhatsAppCloudChannel(config: WhatsAppConfig): NotificationChannel {
+  const url = `https://graph.facebook.com/${config.apiVersion}/${config.phoneNumberId}/messages`;
+
+  return {
+    proveedor: "whatsapp-cloud",
+
+    async send(notification: OutgoingNotification) {
+      const message = config.template
+        ? {
+            type: "template",
+            template: {
+              name: config.template.name,
+              language: { code: config.template.language },
+              components: [
+                { type: "body", parameters: [{ type: "text", text: templateParameter(notification.mensaje) }] },
+              ],
+            },
+          }
+        : { type: "text", text: { body: notification.mensaje } };
+
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${config.token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          messaging_product: "whatsapp",
+          to: toInternationalPhone(notification.destino),
+          ...message,
+        }),
+      });
+      if (!res.ok) throw await providerError(res, "WhatsApp");
+
+      const json = (await res.json()) as { messages?: { id?: string }[] };
+      return { proveedorId: json.messages?.[0]?.id ?? null };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { getLedger, recordInitialPayments, syncPaymentFlags, withBalances } from "./ledger";
+import {
+  createMemoryPaymentRepository,
+  createMemoryServiceRepository,
+  getPaymentRepository,
+  setPaymentRepository,
+  setServiceRepository,
+} from "../repositories";
+import { computeBalance, derivePaymentFlags, paymentStatus } from "../schemas/payment";
+import { serviceFixture } from "../../tests/fixtures";
+
+describe("saldo y banderas de pago", () => {
+  it("el saldo nunca es negativo", () => {
+    expect(computeBalance(100_000, 30_000)).toEqual({ costo_final: 100_000, total_pagado: 30_000, saldo: 70_000 });
+    expect(computeBalance(100_000, 120_000).saldo).toBe(0);
+    expect(computeBalance(Number.NaN, 10).costo_final).toBe(0);
+  });
+
+  it("deriva abono y costo final pagados del total pagado", () => {
+    expect(derivePaymentFlags(20_000, 100_000, 10_000)).toEqual({ abono_pagado: false, costo_final_pagado: false });
+    expect(derivePaymentFlags(20_000, 100_000, 20_000)).toEqual({ abono_pagado: true, costo_final_pagado: false });
+    expect(derivePaymentFlags(0, 100_000, 100_000)).toEqual({ abono_pagado: true, costo_final_pagado: true });
+  });
+
+  it("estado de pago para las insignias", () => {
+    expect(paymentStatus(computeBalance(100, 0))).toBe("Pendiente");
+    expect(paymentStatus(computeBalance(100, 40))).toBe("Parcial");
+    expect(paymentStatus(computeBalance(100, 100))).toBe("Pagado");
+  });
+});
+
+describe("libro de pagos (repositorios en memoria)", () => {
+  beforeEach(() => {
+    setPaymentRepository(createMemoryPaymentRepository());
+  });
+
+  it("el total incluye piedras y componentes", async () => {
+    const service = serviceFixture({ costo_final: 100_000, componentes_total: 50_000 });
+    setServiceRepository(createMemoryServiceRepository([service]));
+    await getPaymentRepository().create(service.code, {
+      fecha: "2026-10-16",
+      monto: 100_000,
+      metodo: "Efectivo",
+      agente: "Carlos",
+      referencia: null,
+    });
+
+    const { balance } = await getLedger(service);
+    expect(balance).toEqual({ costo_final: 150_000, total_pagado: 100_000, saldo: 50_000 });
+
+    const [withBalance] = await withBalances([service]);
+    expect(withBalance.saldo).toBe(50_000);
+
+    const synced = await syncPaymentFlags(service);
+    expect(synced.service.costo_final_pagado).toBe(false);
+  });
+
+  it("registra el abono y el resto al crear y sincroniza las banderas", async () => {
+    const service = serviceFixture({ abono: 20_000, costo_final: 100_000 });
+    setServiceRepository(createMemoryServiceRepository([service]));
+
+    const saved = await recordInitialPayments(service, {
+      abono_pagado: true,
+      costo_final_pagado: true,
+      metodo_pago: "Efectivo",
+    });
+
+    const payments = await getPaymentRepository().listByService(service.code);
+    expect(payments.map((p) => p.monto).sort()).toEqual([20_000, 80_000]);
+    expect(saved).toMatchObject({ abono_pagado: true, costo_final_pagado: true, saldo: 0 });
+  });
+});
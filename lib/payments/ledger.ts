@@ -0,0 +1,89 @@
+import { getPaymentRepository, getServiceRepository } from "../repositories";
+import { serviceTotal, type Service, type ServicePayload } from "../schemas/service";
+import {
+  computeBalance,
+  derivePaymentFlags,
+  sumPayments,
+  type Payment,
+  type ServiceBalance,
+} from "../schemas/payment";
+
+/**
+ * Libro de pagos de los servicios.
+ *
+ * El saldo nunca se guarda: se calcula como el total del servicio (costo
+ * final + piedras y componentes) - suma de pagos.
+ * Las banderas `abono_pagado` / `costo_final_pagado` de `services` se
+ * recalculan cada vez que cambian los pagos o los montos del servicio.
+ */
+
+/** Adjunta `total_pagado` y `saldo` a cada servicio (una sola consulta) */
+export async function withBalances(rows: Service[]): Promise<Service[]> {
+  if (!rows.length) return rows;
+  const totals = await getPaymentRepository().totalsByService(rows.map((s) => s.code));
+  return rows.map((s) => {
+    const balance = computeBalance(serviceTotal(s), totals[s.code] ?? 0);
+    return { ...s, total_pagado: balance.total_pagado, saldo: balance.saldo };
+  });
+}
+
+/** Pagos del servicio y su saldo */
+export async function getLedger(service: Service) {
+  const payments = await getPaymentRepository().listByService(service.code);
+  const balance = computeBalance(serviceTotal(service), sumPayments(payments));
+  return { payments, balance };
+}
+
+/**
+ * Recalcula las banderas de pago del servicio y las guarda si cambiaron.
+ * Devuelve el servicio (con el saldo adjunto) y el saldo.
+ */
+export async function syncPaymentFlags(
+  service: Service,
+  payments?: Payment[]
+): Promise<{ service: Service; balance: ServiceBalance }> {
+  const list = payments ?? (await getPaymentRepository().listByService(service.code));
+  const balance = computeBalance(serviceTotal(service), sumPayments(list));
+  const flags = derivePaymentFlags(
+    Number(service.abono ?? 0),
+    balance.costo_final,
+    balance.total_pagado
+  );
+
+  let current = service;
+  if (
+    flags.abono_pagado !== service.abono_pagado ||
+    flags.costo_final_pagado !== service.costo_final_pagado
+  ) {
+    current = await getServiceRepository().update(service.code, flags);
+  }
+
+  return {
+    service: { ...current, total_pagado: balance.total_pagado, saldo: balance.saldo },
+    balance,
+  };
+}
+
+/**
+ * Registra los pagos recibidos al crear el servicio (casillas "Abono pagado"
+ * y "Costo final pagado" del formulario) y sincroniza las banderas.
+ */
+export async function recordInitialPayments(
+  service: Service,
+  initial: Pick<ServicePayload, "abono_pagado" | "costo_final_pagado" | "metodo_pago">
+): Promise<Service> {
+  const payments = getPaymentRepository();
+  const abono = initial.abono_pagado ? Number(service.abono ?? 0) : 0;
+  const resto = initial.costo_final_pagado ? serviceTotal(service) - abono : 0;
+
+  const recorded: Payment[] = [];
+  const base = { fecha: service.fecha, metodo: initial.metodo_pago, agente: service.agente };
+  if (abono > 0) {
+    recorded.push(await payments.create(service.code, { ...base, monto: abono, referencia: "Abono inicial" }));
+  }
+  if (resto > 0) {
+    recorded.push(await payments.create(service.code, { ...base, monto: resto, referencia: "Pago final" }));
+  }
+
+  return (await syncPaymentFlags(service, recorded)).service;
+}
@@ -0,0 +1,75 @@
+import { drawRule, loadPdfFonts, renderRollPdf, ROLL_80MM_WIDTH, type PdfDoc } from "./document";
+import { formatDateDDMMYYYY, formatDueDate, formatTimeHHMM, sanitizePdfText } from "./format";
+import type { Service } from "../schemas/service";
+import type { CompanySettings } from "../schemas/settings";
+
+/**
+ * Tiquete de retiro (80mm) que se entrega al cliente al dejar la pieza:
+ * código del servicio, QR de seguimiento y PIN para reclamarla.
+ */
+
+const MARGIN = 10;
+
+export type ClaimTicketData = {
+  service: Service;
+  company: CompanySettings;
+  pin: string;
+  /** PNG del QR con la URL de seguimiento */
+  qr: Buffer;
+};
+
+export async function renderClaimTicket(data: ClaimTicketData): Promise<Buffer> {
+  const fonts = await loadPdfFonts();
+  return renderRollPdf(fonts, ROLL_80MM_WIDTH, MARGIN, (doc) => drawClaimTicket(doc, data));
+}
+
+function drawClaimTicket(doc: PdfDoc, data: ClaimTicketData) {
+  const { service, company, pin, qr } = data;
+  const left = MARGIN;
+  const width = ROLL_80MM_WIDTH - MARGIN * 2;
+  let y = MARGIN;
+
+  const center = (text: string, size: number, bold = false) => {
+    doc
+      .font(bold ? "Inter-Bold" : "Inter")
+      .fontSize(size)
+      .fillColor("#000000")
+      .text(text, left, y, { width, align: "center" });
+    y = doc.y + 1;
+  };
+
+  const separator = () => {
+    y += 4;
+    drawRule(doc, left, left + width, y, 0.5);
+    y += 5;
+  };
+
+  center(sanitizePdfText(company.nombre_comercial), 10, true);
+  center("TIQUETE DE RETIRO", 8);
+
+  separator();
+  center(sanitizePdfText(service.code), 14, true);
+  center(`Recibido: ${formatDateDDMMYYYY(service.fecha)} ${formatTimeHHMM(service.hora)}`, 8);
+  center(`Cliente: ${sanitizePdfText(service.cliente)}`, 8);
+  if (service.fecha_entrega) {
+    center(`Entrega estimada: ${formatDueDate(service.fecha_entrega)}`, 8);
+  }
+
+  y += 6;
+  const qrSize = 130;
+  doc.image(qr, left + (width - qrSize) / 2, y, { width: qrSize, height: qrSize });
+  y += qrSize + 4;
+  center("Escanea para ver el estado de tu pieza", 7);
+
+  separator();
+  center("PIN de retiro", 8);
+  center(pin.split("").join(" "), 20, true);
+
+  separator();
+  center(
+    "Presenta este tiquete (QR o PIN) para retirar la pieza. No lo compartas: quien lo tenga puede reclamarla.",
+    7
+  );
+
+  return y - MARGIN;
+}
@@ -0,0 +1,113 @@
+import PDFDocument from "pdfkit";
+import fs from "fs";
+import path from "path";
+
+/**
+ * Creación de documentos PDFKit con las fuentes Inter (evita Helvetica, que no
+ * trae todos los caracteres del español en algunos visores).
+ */
+
+export type PdfDoc = InstanceType<typeof PDFDocument>;
+
+/** Tamaño en puntos [ancho, alto] o nombre de PDFKit ("LETTER", "A4") */
+export type PdfPageSize = "LETTER" | "A4" | [number, number];
+
+const FONT_REGULAR_PATH = path.join(process.cwd(), "public", "fonts", "Inter-Regular.otf");
+const FONT_BOLD_PATH = path.join(process.cwd(), "public", "fonts", "Inter-Bold.otf");
+
+export type PdfFonts = { regular: Buffer; bold: Buffer };
+
+export async function loadPdfFonts(): Promise<PdfFonts> {
+  try {
+    const [regular, bold] = await Promise.all([
+      fs.promises.readFile(FONT_REGULAR_PATH),
+      fs.promises.readFile(FONT_BOLD_PATH),
+    ]);
+    return { regular, bold };
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    throw new Error(
+      `No se pudieron leer las fuentes del PDF (${FONT_REGULAR_PATH}, ${FONT_BOLD_PATH}): ${reason}`
+    );
+  }
+}
+
+/**
+ * Documento nuevo con las fuentes registradas ("Inter" / "Inter-Bold").
+ * `done` se resuelve con el PDF completo después de `doc.end()`.
+ */
+export function createPdfDocument(
+  fonts: PdfFonts,
+  size: PdfPageSize,
+  margin: number
+): { doc: PdfDoc; done: Promise<Buffer> } {
+  const doc = new PDFDocument({
+    size,
+    margins: { top: margin, left: margin, right: margin, bottom: margin },
+  });
+
+  const chunks: Buffer[] = [];
+  doc.on("data", (c: Buffer) => chunks.push(c));
+
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc.registerFont("Inter", fonts.regular);
+  doc.registerFont("Inter-Bold", fonts.bold);
+  doc.font("Inter");
+
+  return { doc, done };
+}
+
+/** Ancho del rollo de las impresoras térmicas de 80mm */
+export const ROLL_80MM_WIDTH = 226.77;
+
+const ROLL_MEASURE_HEIGHT = 10000;
+
+/**
+ * PDF para impresora térmica (rollo de ancho fijo y alto libre): `draw` dibuja
+ * desde el margen superior y devuelve el alto usado. Se dibuja una vez en una
+ * hoja muy alta para medir y luego se genera el PDF con el alto exacto.
+ */
+export async function renderRollPdf(
+  fonts: PdfFonts,
+  width: number,
+  margin: number,
+  draw: (doc: PdfDoc) => number
+): Promise<Buffer> {
+  const measure = createPdfDocument(fonts, [width, ROLL_MEASURE_HEIGHT], margin);
+  const contentHeight = draw(measure.doc);
+  measure.doc.end();
+  await measure.done;
+
+  const { doc, done } = createPdfDocument(fonts, [width, Math.ceil(contentHeight + margin * 2)], margin);
+  draw(doc);
+  doc.end();
+  return done;
+}
+
+/** Línea horizontal de separación */
+export function drawRule(doc: PdfDoc, x1: number, x2: number, y: number, width = 1) {
+  doc.moveTo(x1, y).lineTo(x2, y).lineWidth(width).strokeColor("#111111").stroke();
+}
+
+/** Imagen ya decodificada por PDFKit (se conocen sus dimensiones antes de dibujarla) */
+export type PdfImage = { width: number; height: number };
+
+// `openImage` existe en runtime, pero no está declarado en los tipos de pdfkit
+export function openPdfImage(doc: PdfDoc, src: Buffer): PdfImage {
+  return (doc as unknown as { openImage(src: Buffer): PdfImage }).openImage(src);
+}
+
+export function drawPdfImage(doc: PdfDoc, img: PdfImage, x: number, y: number, width: number) {
+  doc.image(img as unknown as Buffer, x, y, { width });
+}
+
+/** Error de una imagen que no se pudo dibujar: el documento sigue sin ella */
+export function logImageError(label: string, e: unknown) {
+  if (process.env.NODE_ENV === "development") {
+    console.error(`Error leyendo ${label}:`, e instanceof Error ? e.message : e);
+  }
+}
@@ -0,0 +1,68 @@
+import type { WarrantyTerms } from "../warranty/coverage";
+
+/**
+ * Formatos de texto compartidos por las plantillas PDF.
+ */
+
+/**
+ * PDFKit + algunos visores pueden renderizar caracteres de control / unicode raros
+ * como "cuadritos" o íconos (por ejemplo tabs, VT, etc.).
+ * Esto limpia el texto antes de enviarlo al PDF.
+ */
+export function sanitizePdfText(input: unknown) {
+  return String(input ?? "")
+    .replace(/\r\n/g, "\n")
+    .replace(/\t/g, " ")
+    // elimina caracteres de control (mantiene \n)
+    .replace(/[\u0000-\u0008\u000B-\u001F\u007F]/g, "")
+    // elimina separadores unicode que a veces rompen el layout
+    .replace(/[\u2028\u2029]/g, "\n")
+    .trimEnd();
+}
+
+export function formatDateDDMMYYYY(dateStr: string) {
+  const [yyyy, mm, dd] = String(dateStr || "").split("-");
+  if (yyyy && mm && dd) return `${dd}-${mm}-${yyyy}`;
+  return String(dateStr || "");
+}
+
+export function formatTimeHHMM(timeStr: string) {
+  if (!timeStr) return "";
+  return String(timeStr).slice(0, 5);
+}
+
+export function formatCOP(value: unknown) {
+  const v = Number(value ?? 0);
+  if (!Number.isFinite(v)) return "CO$ 0";
+  try {
+    return new Intl.NumberFormat("es-CO", {
+      style: "currency",
+      currency: "COP",
+      maximumFractionDigits: 0,
+    }).format(v);
+  } catch {
+    return `CO$ ${Math.round(v)}`;
+  }
+}
+
+/** Fecha de entrega comprometida (ISO UTC) en hora de Colombia */
+export function formatDueDate(iso: string | null | undefined) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("es-CO", {
+    timeZone: "America/Bogota",
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+}
+
+/** Renglón de la garantía: cobertura y vencimiento, o el servicio original si es un reclamo */
+export function formatWarranty(terms: WarrantyTerms) {
+  const hasta = terms.vence ? ` (hasta el ${formatDateDDMMYYYY(terms.vence)})` : "";
+  if (terms.garantia_de) {
+    return `Servicio en garantía de ${sanitizePdfText(terms.garantia_de)}, sin costo${hasta}`;
+  }
+  const trabajo = terms.tipo_trabajo ? ` · ${sanitizePdfText(terms.tipo_trabajo)}` : "";
+  return `${terms.dias} días desde la entrega${hasta}${trabajo}`;
+}
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { renderInvoicePdf } from "./invoice";
+import { loadInvoiceData } from "./invoiceData";
+import {
+  createMemoryPaymentRepository,
+  createMemoryServiceRepository,
+  createMemorySettingsRepository,
+  getPaymentRepository,
+  setPaymentRepository,
+  setServiceRepository,
+  setSettingsRepository,
+} from "../repositories";
+import { invoiceQuerySchema, type InvoicePaper, type InvoiceTemplate } from "../schemas/invoice";
+import { toFieldErrors } from "../schemas/fieldErrors";
+import { serviceFixture } from "../../tests/fixtures";
+
+const service = serviceFixture({ estado: "En fabricación" });
+
+/** Tamaño de la primera página según el diccionario de la página (no va comprimido) */
+function mediaBox(pdf: Buffer) {
+  const match = /\/MediaBox \[0 0 ([\d.]+) ([\d.]+)\]/.exec(pdf.toString("latin1"));
+  return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+async function render(template: InvoiceTemplate, paper: InvoicePaper = "letter") {
+  return renderInvoicePdf(await loadInvoiceData(service), template, paper);
+}
+
+describe("plantillas del PDF", () => {
+  beforeEach(async () => {
+    setServiceRepository(createMemoryServiceRepository([service]));
+    setSettingsRepository(createMemorySettingsRepository());
+    setPaymentRepository(createMemoryPaymentRepository());
+    await getPaymentRepository().create(service.code, {
+      fecha: "2026-10-16",
+      monto: 20_000,
+      metodo: "Efectivo",
+      agente: "Carlos",
+      referencia: null,
+    });
+  });
+
+  it("los datos comunes traen pagos, saldo y la empresa por defecto", async () => {
+    const data = await loadInvoiceData(service);
+
+    expect(data.balance).toEqual({ costo_final: 100_000, total_pagado: 20_000, saldo: 80_000 });
+    expect(data.payments).toHaveLength(1);
+    expect(data.company.nombre_comercial).toBe("Briolete");
+    expect(data.einvoice).toBeNull();
+    expect(data.photos).toEqual([]);
+  });
+
+  it("la factura sale en carta o en A4", async () => {
+    const carta = await render("factura", "letter");
+    expect(carta.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(mediaBox(carta)).toEqual([612, 792]);
+    expect(mediaBox(await render("factura", "a4"))).toEqual([595.28, 841.89]);
+  });
+
+  it("el tiquete usa el rollo de 80mm y la orden media carta, sin importar el papel", async () => {
+    expect(mediaBox(await render("ticket", "a4"))?.[0]).toBe(226.77);
+    expect(mediaBox(await render("orden-taller", "a4"))).toEqual([396, 612]);
+  });
+});
+
+describe("parámetros del PDF", () => {
+  it("por defecto factura en carta y sin vista previa", () => {
+    expect(invoiceQuerySchema.parse({})).toEqual({ template: "factura", paper: "letter", preview: false });
+    expect(invoiceQuerySchema.parse({ template: "ticket", paper: "A4", preview: "true" })).toEqual({
+      template: "ticket",
+      paper: "a4",
+      preview: true,
+    });
+  });
+
+  it("rechaza una plantilla desconocida", () => {
+    const parsed = invoiceQuerySchema.safeParse({ template: "recibo" });
+    expect(parsed.success ? {} : toFieldErrors(parsed.error).template).toMatch(/^Plantilla inválida/);
+  });
+});
@@ -0,0 +1,27 @@
+import { loadPdfFonts } from "./document";
+import type { InvoiceData } from "./invoiceData";
+import { renderFactura } from "./templates/factura";
+import { renderTicket } from "./templates/ticket";
+import { renderOrdenTaller } from "./templates/ordenTaller";
+import type { InvoicePaper, InvoiceTemplate } from "../schemas/invoice";
+
+/**
+ * Genera el PDF de la plantilla pedida. Para agregar un formato: nueva
+ * función en templates/ + entrada en INVOICE_TEMPLATES (lib/schemas/invoice).
+ */
+export async function renderInvoicePdf(
+  data: InvoiceData,
+  template: InvoiceTemplate,
+  paper: InvoicePaper
+): Promise<Buffer> {
+  const fonts = await loadPdfFonts();
+
+  switch (template) {
+    case "ticket":
+      return renderTicket(data, fonts);
+    case "orden-taller":
+      return renderOrdenTaller(data, fonts);
+    case "factura":
+      return renderFactura(data, fonts, paper);
+  }
+}
@@ -0,0 +1,97 @@
+import { getLedger } from "../payments/ledger";
+import {
+  getAttachmentRepository,
+  getComponentRepository,
+  getElectronicInvoiceRepository,
+  getMetalWeightRepository,
+} from "../repositories";
+import { loadDianConfig } from "../einvoice/config";
+import { resolutionText } from "../einvoice/issue";
+import { renderQrPng } from "../einvoice/qr";
+import { getCompanySettings, loadCompanyLogo } from "../settings/company";
+import { warrantyTerms, type WarrantyTerms } from "../warranty/coverage";
+import type { Service } from "../schemas/service";
+import type { Payment, ServiceBalance } from "../schemas/payment";
+import type { ElectronicInvoice } from "../schemas/einvoice";
+import type { CompanySettings } from "../schemas/settings";
+import type { MetalWeight } from "../schemas/metal";
+import type { ServiceComponent } from "../schemas/component";
+import { isImageAttachment, type AttachmentCategoria } from "../schemas/attachment";
+import { detectFileType } from "../security/fileType";
+
+/**
+ * Modelo de datos común a todas las plantillas de factura: cada plantilla
+ * decide qué muestra, pero todas leen lo mismo.
+ */
+export type InvoiceData = {
+  service: Service;
+  payments: Payment[];
+  balance: ServiceBalance;
+  company: CompanySettings;
+  logo: { bytes: Buffer; contentType: string } | null;
+  /** Factura electrónica emitida (CUFE + QR en la representación gráfica) */
+  einvoice: { invoice: ElectronicInvoice; qr: Buffer; resolution: string } | null;
+  /** Pesos de metal por material (recibido, taller, final y merma) */
+  metals: MetalWeight[];
+  /** Piedras y componentes (se suman al costo final) */
+  components: ServiceComponent[];
+  /** Garantía del trabajo (o del servicio original si es un reclamo) */
+  warranty: WarrantyTerms;
+  /** Fotos de referencia de la pieza (solo se cargan para la orden de taller) */
+  photos: Buffer[];
+};
+
+export async function loadInvoiceData(
+  service: Service,
+  options: { photos?: boolean } = {}
+): Promise<InvoiceData> {
+  const [{ payments, balance }, company, invoice, metals, components, warranty] = await Promise.all([
+    getLedger(service),
+    getCompanySettings(),
+    getElectronicInvoiceRepository().getByServiceCode(service.code),
+    getMetalWeightRepository().listByService(service.code),
+    getComponentRepository().listByService(service.code),
+    warrantyTerms(service),
+  ]);
+
+  const logo = await loadCompanyLogo(company);
+
+  const einvoice = invoice
+    ? {
+        invoice,
+        qr: await renderQrPng(invoice.qr_text),
+        resolution: resolutionText(loadDianConfig()),
+      }
+    : null;
+
+  const photos = options.photos ? await loadReferencePhotos(service) : [];
+
+  return { service, payments, balance, company, logo, einvoice, metals, components, warranty, photos };
+}
+
+/** PDFKit solo incrusta PNG y JPEG: se revisa la firma del archivo */
+function isEmbeddableImage(bytes: Uint8Array) {
+  return detectFileType(bytes)?.kind === "image";
+}
+
+/** Orden de las fotos de referencia: primero el diseño, luego la pieza recibida */
+const PHOTO_PRIORITY: AttachmentCategoria[] = ["diseno", "foto_ingreso", "cotizacion"];
+
+/** Fotos que se descargan (la orden de taller muestra dos) */
+const MAX_REFERENCE_PHOTOS = 2;
+
+/** Adjuntos que son imágenes (los PDF no se incrustan) */
+async function loadReferencePhotos(service: Service): Promise<Buffer[]> {
+  const attachments = getAttachmentRepository();
+  const candidates = (await attachments.listByService(service.code))
+    .filter((a) => isImageAttachment(a) && PHOTO_PRIORITY.includes(a.categoria))
+    .sort((a, b) => PHOTO_PRIORITY.indexOf(a.categoria) - PHOTO_PRIORITY.indexOf(b.categoria))
+    .slice(0, MAX_REFERENCE_PHOTOS);
+
+  const photos: Buffer[] = [];
+  for (const attachment of candidates) {
+    const file = await attachments.downloadFile(attachment.path);
+    if (file && isEmbeddableImage(file.bytes)) photos.push(Buffer.from(file.bytes));
+  }
+  return photos;
+}
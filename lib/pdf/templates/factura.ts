@@ -0,0 +1,442 @@
+import {
+  createPdfDocument,
+  drawPdfImage,
+  drawRule,
+  logImageError,
+  openPdfImage,
+  type PdfDoc,
+  type PdfFonts,
+} from "../document";
+import {
+  formatCOP,
+  formatDateDDMMYYYY,
+  formatTimeHHMM,
+  formatWarranty,
+  sanitizePdfText,
+} from "../format";
+import type { InvoiceData } from "../invoiceData";
+import type { InvoicePaper } from "../../schemas/invoice";
+import { formatGrams } from "../../schemas/metal";
+import { COMPONENT_APORTA_LABELS, componentLabel, componentSubtotal } from "../../schemas/component";
+import { companyHeaderLines } from "../../settings/company";
+
+/**
+ * Plantilla `factura`: hoja carta (o A4) para el cliente, con logo, pagos,
+ * descripción y la representación gráfica de la factura electrónica.
+ */
+export async function renderFactura(
+  data: InvoiceData,
+  fonts: PdfFonts,
+  paper: InvoicePaper
+): Promise<Buffer> {
+  const { service, payments, balance, company, logo, einvoice, metals, components, warranty } = data;
+  const { doc, done } = createPdfDocument(fonts, paper === "a4" ? "A4" : "LETTER", 36);
+
+  const pageWidth = doc.page.width;
+  // Usamos un "content box" más angosto y centrado para mejorar el centrado al imprimir
+  // (y para reducir el tamaño del contenido en la hoja).
+  const maxContentWidth = Math.min(520, pageWidth - 144); // ~72pt por lado (≈ 2.54cm)
+  const left = (pageWidth - maxContentWidth) / 2;
+  const right = left + maxContentWidth;
+
+  // ✅ LOGO + INFO EMPRESA (perfil configurable en /app/configuracion)
+  const headerTop = doc.page.margins.top;
+  const companyInfoWidth = 190;
+  const companyInfoX = right - (companyInfoWidth + 10);
+  const companyLines = companyHeaderLines(company).map(sanitizePdfText);
+  // Nombre en +0 (fontSize 12), cada renglón siguiente cada 13pt (fontSize 9)
+  const companyBlockHeight = 15 + companyLines.length * 13 + 10;
+
+  // Logo (solo si existe)
+  let logoHeight = 0;
+  if (logo) {
+    try {
+      // Columna derecha reservada para la info de empresa
+      const leftColumnRight = companyInfoX - 20;
+      const leftColumnWidth = Math.max(120, leftColumnRight - left);
+
+      // Logo más moderado, pero sin invadir la columna derecha
+      const desiredLogoWidth = 220;
+      const logoWidth = Math.min(desiredLogoWidth, leftColumnWidth);
+
+      const img = openPdfImage(doc, logo.bytes);
+      logoHeight = (logoWidth / img.width) * img.height;
+
+      // Más pegado a la esquina superior izquierda (sin centrado), alineado con el header
+      const logoX = left;
+      const logoY = headerTop + Math.max(0, (companyBlockHeight - logoHeight) / 2);
+
+      drawPdfImage(doc, img, logoX, logoY, logoWidth);
+    } catch (e) {
+      logoHeight = 0;
+      logImageError("logo", e);
+    }
+  }
+
+  // Info empresa derecha (alineada al margen superior visual)
+  doc
+    .font("Inter-Bold")
+    .fontSize(12)
+    .fillColor("#111111")
+    .text(sanitizePdfText(company.razon_social), companyInfoX, headerTop, {
+      width: companyInfoWidth,
+      align: "right",
+    });
+
+  companyLines.forEach((line, i) => {
+    doc
+      .font("Inter")
+      .fontSize(9)
+      .fillColor("#333333")
+      .text(line, companyInfoX, headerTop + 15 + i * 13, {
+        width: companyInfoWidth,
+        align: "right",
+      });
+  });
+
+  // ✅ CONTENIDO DEL PDF
+  const headerHeight = Math.max(companyBlockHeight, logoHeight);
+  const titleY = headerTop + headerHeight + 18;
+
+  doc
+    .font("Inter-Bold")
+    .fontSize(16)
+    .fillColor("#111111")
+    .text(`Servicio: ${sanitizePdfText(service.code)}`, left, titleY);
+
+  // Consecutivo de factura (lib/codes), distinto del código del servicio
+  if (service.factura_numero) {
+    doc
+      .font("Inter-Bold")
+      .fontSize(12)
+      .text(`Factura No. ${sanitizePdfText(service.factura_numero)}`, left, titleY + 3, {
+        width: right - left,
+        align: "right",
+      });
+  }
+
+  const titleSeparatorY = titleY + 22;
+  drawRule(doc, left, right, titleSeparatorY);
+
+  const topY = titleSeparatorY + 10;
+
+  // Bloque de datos en 3 columnas (evita solapamientos al hacer wrap y calcula alturas)
+  doc.font("Inter").fontSize(10).fillColor("#111111");
+
+  const availableW = right - left;
+  const colGap = 14;
+  const colW = (availableW - colGap * 2) / 3;
+  const col1X = left;
+  const col2X = left + colW + colGap;
+  const col3X = left + (colW + colGap) * 2;
+
+  const col1Line1 = `Fecha: ${sanitizePdfText(formatDateDDMMYYYY(service.fecha))}`;
+  const col2Line1 = `Hora: ${sanitizePdfText(formatTimeHHMM(service.hora))}`;
+  const col3Line1 = `Estado: ${sanitizePdfText(service.estado ?? "")}`;
+
+  const col1Line2 = `Cliente: ${sanitizePdfText(service.cliente ?? "")}`;
+  const col2Line2 = `Teléfono: ${sanitizePdfText(service.telefono ?? "")}`;
+  const col3Line2 = `Máquina: ${sanitizePdfText(service.maquina ?? "")}`;
+
+  const lineOpts = { width: colW as number };
+  const lineGap = 6;
+
+  const col1H =
+    doc.heightOfString(col1Line1, lineOpts) + lineGap + doc.heightOfString(col1Line2, lineOpts);
+  const col2H =
+    doc.heightOfString(col2Line1, lineOpts) + lineGap + doc.heightOfString(col2Line2, lineOpts);
+  const col3H =
+    doc.heightOfString(col3Line1, lineOpts) + lineGap + doc.heightOfString(col3Line2, lineOpts);
+
+  const rowH = Math.max(col1H, col2H, col3H);
+
+  doc.text(col1Line1, col1X, topY, lineOpts);
+  doc.text(col2Line1, col2X, topY, lineOpts);
+  doc.text(col3Line1, col3X, topY, lineOpts);
+
+  const line2Y =
+    topY +
+    Math.max(
+      doc.heightOfString(col1Line1, lineOpts),
+      doc.heightOfString(col2Line1, lineOpts),
+      doc.heightOfString(col3Line1, lineOpts)
+    ) +
+    lineGap;
+
+  doc.text(col1Line2, col1X, line2Y, lineOpts);
+  doc.text(col2Line2, col2X, line2Y, lineOpts);
+  doc.text(col3Line2, col3X, line2Y, lineOpts);
+
+  const afterTopBlockY = topY + rowH + 10;
+  drawRule(doc, left, right, afterTopBlockY);
+
+  // Totales según el libro de pagos
+  const pagosY = afterTopBlockY + 10;
+  doc.font("Inter").fontSize(10).fillColor("#111111");
+  // Con componentes, el total del libro de pagos ya los incluye (serviceTotal)
+  const totalLabel = components.length ? "Total" : "Costo final";
+  doc.text(`${totalLabel}: ${formatCOP(balance.costo_final)}`, col1X, pagosY, { width: colW });
+  doc.text(`Total pagado: ${formatCOP(balance.total_pagado)}`, col2X, pagosY, { width: colW });
+  doc.font("Inter-Bold");
+  doc.text(`Saldo: ${formatCOP(balance.saldo)}`, col3X, pagosY, { width: colW });
+
+  let sectionY = pagosY + 24;
+
+  // Detalle de pagos (fecha · método · referencia · monto)
+  if (payments.length) {
+    doc.font("Inter-Bold").fontSize(11).fillColor("#111111").text("Pagos", left, sectionY);
+    drawRule(doc, left, right, sectionY + 18);
+
+    let rowY = sectionY + 26;
+    const montoW = 110;
+    const detailW = right - left - montoW;
+    doc.font("Inter").fontSize(9).fillColor("#111111");
+    for (const p of payments) {
+      const detail = [
+        formatDateDDMMYYYY(p.fecha),
+        p.metodo,
+        p.referencia ? sanitizePdfText(p.referencia) : "",
+      ]
+        .filter(Boolean)
+        .join(" · ");
+      const h = doc.heightOfString(detail, { width: detailW });
+      doc.text(detail, left, rowY, { width: detailW });
+      doc.text(formatCOP(p.monto), right - montoW, rowY, { width: montoW, align: "right" });
+      rowY += h + 4;
+    }
+
+    sectionY = rowY + 14;
+  }
+
+  // Descripción: con piedras y componentes, una tabla (el trabajo y cada
+  // componente) que suma el total; sin ellos, el texto libre
+  doc.font("Inter-Bold").fontSize(11).fillColor("#111111").text("Descripción", left, sectionY);
+  drawRule(doc, left, right, sectionY + 18);
+
+  const descText = sanitizePdfText(service.descripcion ?? "");
+  let descEndY: number;
+  if (components.length) {
+    descEndY = drawComponentsTable(doc, left, right, sectionY + 26, descText, data);
+  } else {
+    doc
+      .font("Inter")
+      .fontSize(10)
+      .fillColor("#111111")
+      .text(descText, left, sectionY + 28, { width: right - left });
+    descEndY = sectionY + 28 + doc.heightOfString(descText, { width: right - left });
+  }
+
+  // Observaciones
+  const observacionesY = descEndY + 18;
+
+  doc
+    .font("Inter-Bold")
+    .fontSize(11)
+    .fillColor("#111111")
+    .text("Observaciones", left, observacionesY);
+  drawRule(doc, left, right, observacionesY + 18);
+
+  const obsText = sanitizePdfText(service.material ?? "");
+  doc
+    .font("Inter")
+    .fontSize(10)
+    .fillColor("#111111")
+    .text(obsText, left, observacionesY + 30, { width: right - left });
+
+  // Footer (debajo del contenido) para que la factura no ocupe toda la hoja
+  const obsH = doc.heightOfString(obsText, { width: right - left });
+  let footerY = observacionesY + 30 + obsH + 24;
+
+  // Pesos de metal por material
+  if (metals.length) {
+    const metalY = footerY - 6;
+    doc.font("Inter-Bold").fontSize(11).fillColor("#111111").text("Metal (g)", left, metalY);
+    drawRule(doc, left, right, metalY + 18);
+
+    const columns = ["Material", "Recibido", "Del taller", "Peso final", "Merma"];
+    const metalColW = (right - left) / columns.length;
+    let rowY = metalY + 26;
+    doc.font("Inter-Bold").fontSize(8).fillColor("#333333");
+    columns.forEach((column, i) => {
+      doc.text(column, left + i * metalColW, rowY, { width: metalColW, align: i ? "right" : "left" });
+    });
+    rowY += 14;
+
+    doc.font("Inter").fontSize(9).fillColor("#111111");
+    for (const m of metals) {
+      const cells = [m.material, ...[m.recibido_g, m.taller_g, m.final_g, m.merma_g].map(formatGrams)];
+      cells.forEach((cell, i) => {
+        doc.text(cell, left + i * metalColW, rowY, { width: metalColW, align: i ? "right" : "left" });
+      });
+      rowY += 14;
+    }
+
+    footerY = rowY + 18;
+  }
+
+  // Factura electrónica: QR a la izquierda, datos DIAN a la derecha
+  if (einvoice) {
+    const { invoice } = einvoice;
+    const qrSize = 96;
+    const einvoiceY = footerY - 6;
+
+    drawRule(doc, left, right, einvoiceY);
+    doc.image(einvoice.qr, left, einvoiceY + 10, { width: qrSize, height: qrSize });
+
+    const infoX = left + qrSize + 14;
+    const infoW = right - infoX;
+    doc
+      .font("Inter-Bold")
+      .fontSize(10)
+      .fillColor("#111111")
+      .text(
+        `Factura electrónica de venta No. ${sanitizePdfText(invoice.numero_factura)}`,
+        infoX,
+        einvoiceY + 10,
+        { width: infoW }
+      );
+
+    doc
+      .font("Inter")
+      .fontSize(8)
+      .fillColor("#333333")
+      .text(
+        [
+          `Emitida: ${formatDateDDMMYYYY(invoice.fecha_emision)} ${formatTimeHHMM(invoice.hora_emision)}`,
+          `Adquiriente: ${sanitizePdfText(invoice.adquiriente_nombre)} · ${sanitizePdfText(invoice.adquiriente_documento)}`,
+          `Subtotal: ${formatCOP(invoice.subtotal)} · IVA: ${formatCOP(invoice.iva)} · Total: ${formatCOP(invoice.total)}`,
+          `CUFE: ${invoice.cufe}`,
+          einvoice.resolution,
+        ].join("\n"),
+        infoX,
+        einvoiceY + 26,
+        { width: infoW, lineGap: 1 }
+      );
+
+    footerY = Math.max(einvoiceY + 10 + qrSize, doc.y) + 16;
+  }
+
+  // Garantía del trabajo (días por tipo de trabajo o la general) y sus condiciones
+  doc
+    .font("Inter-Bold")
+    .fontSize(9)
+    .fillColor("#111111")
+    .text("Garantía", left, footerY, { width: right - left });
+  doc
+    .font("Inter")
+    .fontSize(8)
+    .fillColor("#333333")
+    .text(formatWarranty(warranty), left, footerY + 14, { width: right - left });
+  if (warranty.terminos) {
+    doc.text(sanitizePdfText(warranty.terminos), left, doc.y + 2, { width: right - left });
+  }
+  footerY = doc.y + 12;
+
+  // Términos de la factura (configurables)
+  if (company.terminos_factura) {
+    doc
+      .font("Inter-Bold")
+      .fontSize(9)
+      .fillColor("#111111")
+      .text("Términos y condiciones", left, footerY, { width: right - left });
+    doc
+      .font("Inter")
+      .fontSize(8)
+      .fillColor("#333333")
+      .text(sanitizePdfText(company.terminos_factura), left, footerY + 14, {
+        width: right - left,
+      });
+    footerY = doc.y + 12;
+  }
+
+  // Pie legal (configurable)
+  if (company.pie_legal) {
+    doc
+      .font("Inter")
+      .fontSize(7)
+      .fillColor("#444444")
+      .text(sanitizePdfText(company.pie_legal), left, footerY, {
+        width: right - left,
+        align: "center",
+      });
+    footerY = doc.y + 6;
+  }
+
+  const generadoPor = `Generado por ${sanitizePdfText(company.nombre_comercial)}`;
+  doc
+    .font("Inter")
+    .fontSize(8)
+    .fillColor("#444444")
+    .text(
+      einvoice
+        ? `Representación gráfica de la factura electrónica · ${generadoPor}`
+        : `${generadoPor} · Sistema de Servicios`,
+      left,
+      footerY,
+      { width: right - left, align: "center" }
+    );
+
+  doc.end();
+  return done;
+}
+
+/**
+ * Líneas de la factura: el trabajo (descripción y costo final) y cada
+ * piedra o componente, con el total al pie. Devuelve la `y` final.
+ */
+function drawComponentsTable(
+  doc: PdfDoc,
+  left: number,
+  right: number,
+  top: number,
+  descText: string,
+  data: InvoiceData
+) {
+  const { service, components, balance } = data;
+  const fixed = [34, 64, 52, 76, 80]; // Cant. · Medida · Aporta · Vr. unitario · Subtotal
+  const widths = [right - left - fixed.reduce((a, b) => a + b, 0), ...fixed];
+  const xs = widths.map((_, i) => left + widths.slice(0, i).reduce((a, b) => a + b, 0));
+  const pageBottom = doc.page.height - doc.page.margins.bottom;
+  const costoFinal = Number(service.costo_final ?? 0);
+
+  const rows: string[][] = [
+    [descText || "Trabajo", "1", "", "", formatCOP(costoFinal), formatCOP(costoFinal)],
+    ...components.map((c) => [
+      sanitizePdfText(componentLabel(c)),
+      String(c.cantidad),
+      sanitizePdfText(c.medida ?? ""),
+      COMPONENT_APORTA_LABELS[c.aporta],
+      c.aporta === "cliente" ? "—" : formatCOP(c.precio_unitario),
+      formatCOP(componentSubtotal(c)),
+    ]),
+  ];
+
+  const drawRow = (cells: string[], y: number) => {
+    cells.forEach((cell, i) => {
+      doc.text(cell, xs[i] + (i ? 4 : 0), y, { width: widths[i] - (i ? 4 : 0), align: i > 3 ? "right" : "left" });
+    });
+  };
+
+  let y = top;
+  doc.font("Inter-Bold").fontSize(8).fillColor("#333333");
+  drawRow(["Descripción", "Cant.", "Medida", "Aporta", "Vr. unitario", "Subtotal"], y);
+  y += 14;
+
+  doc.font("Inter").fontSize(9).fillColor("#111111");
+  for (const cells of rows) {
+    const h = Math.max(...cells.map((cell, i) => doc.heightOfString(cell, { width: widths[i] - (i ? 4 : 0) })));
+    if (y + h > pageBottom) {
+      doc.addPage();
+      y = doc.page.margins.top;
+    }
+    drawRow(cells, y);
+    y += h + 5;
+  }
+
+  drawRule(doc, left, right, y);
+  doc
+    .font("Inter-Bold")
+    .fontSize(10)
+    .text(`Total: ${formatCOP(balance.costo_final)}`, left, y + 6, { width: right - left, align: "right" });
+  return y + 6 + 14;
+}
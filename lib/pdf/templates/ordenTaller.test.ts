@@ -0,0 +1,144 @@
+import PDFDocument from "pdfkit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { renderOrdenTaller } from "./ordenTaller";
+import { loadPdfFonts } from "../document";
+import { loadInvoiceData, type InvoiceData } from "../invoiceData";
+import {
+  createMemoryAttachmentRepository,
+  createMemoryServiceRepository,
+  getAttachmentRepository,
+  setAttachmentRepository,
+  setServiceRepository,
+} from "../../repositories";
+import { DEFAULT_COMPANY_SETTINGS } from "../../schemas/settings";
+import type { AttachmentCategoria, ServiceAttachment } from "../../schemas/attachment";
+import { serviceFixture } from "../../../tests/fixtures";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 2]);
+const PDF = new TextEncoder().encode("%PDF-1.7\n");
+
+const service = serviceFixture({ estado: "En fabricación", costo_final: 1_234_567, abono: 234_567 });
+
+/** Orden con montos en todas partes: pagos, saldo y piedras con precio */
+function orderData(): InvoiceData {
+  return {
+    service,
+    payments: [
+      {
+        id: "p1",
+        service_code: service.code,
+        fecha: "2026-10-16",
+        monto: 234_567,
+        metodo: "Efectivo",
+        agente: "Carlos",
+        referencia: null,
+      },
+    ],
+    balance: { costo_final: 1_234_567, total_pagado: 234_567, saldo: 1_000_000 },
+    company: DEFAULT_COMPANY_SETTINGS,
+    logo: null,
+    einvoice: null,
+    metals: [
+      {
+        service_code: service.code,
+        material: "Oro 18k",
+        recibido_g: 3.2,
+        taller_g: 1.5,
+        final_g: 4.4,
+        merma_g: 0.3,
+      },
+    ],
+    components: [
+      {
+        id: "c1",
+        service_code: service.code,
+        posicion: 0,
+        tipo: "Diamante",
+        descripcion: "Brillante",
+        cantidad: 2,
+        medida: "0,10 ct",
+        aporta: "joyeria",
+        precio_unitario: 345_678,
+      },
+    ],
+    warranty: { tipo_trabajo: null, dias: 90, terminos: null, vence: null, garantia_de: null },
+    photos: [],
+  };
+}
+
+describe("orden de trabajo del taller", () => {
+  const drawn: string[] = [];
+
+  beforeEach(() => {
+    drawn.length = 0;
+    const text = PDFDocument.prototype.text;
+    vi.spyOn(PDFDocument.prototype, "text").mockImplementation(function (this: PDFKit.PDFDocument, ...args) {
+      drawn.push(String(args[0]));
+      return text.apply(this, args as Parameters<typeof text>);
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("lleva la pieza, los pesos y las piedras, sin montos ni pagos", async () => {
+    const pdf = await renderOrdenTaller(orderData(), await loadPdfFonts());
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(drawn).toEqual(
+      expect.arrayContaining(["ORDEN DE TRABAJO", service.code, "Ajuste de talla", "4,4 g", "0,10 ct"])
+    );
+    const texto = drawn.join("\n");
+    expect(texto).not.toMatch(/\$|COP/);
+    for (const monto of ["1.234.567", "234.567", "1.000.000", "345.678", "345678"]) {
+      expect(texto).not.toContain(monto);
+    }
+    expect(texto).not.toMatch(/Saldo|Abono|Pagos/);
+  });
+});
+
+function attachment(categoria: AttachmentCategoria, path: string, content_type: string): ServiceAttachment {
+  return {
+    id: path,
+    service_code: service.code,
+    categoria,
+    path,
+    thumb_path: null,
+    nombre: path,
+    content_type,
+    size: 10,
+    created_at: "2026-10-16T15:00:00.000Z",
+    created_by: null,
+  };
+}
+
+describe("fotos de referencia de la orden", () => {
+  beforeEach(async () => {
+    setServiceRepository(createMemoryServiceRepository([service]));
+    setAttachmentRepository(
+      createMemoryAttachmentRepository([
+        attachment("cotizacion", "2026/cotizacion.pdf", "application/pdf"),
+        attachment("foto_entrega", "2026/entrega.png", "image/png"),
+        attachment("foto_ingreso", "2026/ingreso.jpg", "image/jpeg"),
+        attachment("diseno", "2026/diseno.png", "image/png"),
+      ])
+    );
+    const attachments = getAttachmentRepository();
+    await attachments.uploadFile("2026/cotizacion.pdf", { bytes: PDF, contentType: "application/pdf" });
+    await attachments.uploadFile("2026/entrega.png", { bytes: PNG, contentType: "image/png" });
+    await attachments.uploadFile("2026/ingreso.jpg", { bytes: JPEG, contentType: "image/jpeg" });
+    await attachments.uploadFile("2026/diseno.png", { bytes: PNG, contentType: "image/png" });
+  });
+
+  it("primero el diseño y luego la pieza recibida; nunca las fotos de entrega ni los PDF", async () => {
+    const { photos } = await loadInvoiceData(service, { photos: true });
+
+    expect(photos).toEqual([Buffer.from(PNG), Buffer.from(JPEG)]);
+  });
+
+  it("la factura no descarga las fotos", async () => {
+    expect((await loadInvoiceData(service)).photos).toEqual([]);
+  });
+});
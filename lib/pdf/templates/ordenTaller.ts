@@ -0,0 +1,243 @@
+import {
+  createPdfDocument,
+  drawRule,
+  logImageError,
+  type PdfDoc,
+  type PdfFonts,
+} from "../document";
+import {
+  formatDateDDMMYYYY,
+  formatDueDate,
+  formatTimeHHMM,
+  sanitizePdfText,
+} from "../format";
+import type { InvoiceData } from "../invoiceData";
+import { formatGrams } from "../../schemas/metal";
+import { COMPONENT_APORTA_LABELS, componentLabel } from "../../schemas/component";
+
+/**
+ * Plantilla `orden-taller`: orden de trabajo interna en media carta
+ * (/api/services/[code]/work-order). Lleva la pieza, pesos, piedras, fotos
+ * de referencia, la entrega comprometida y las firmas, sin montos ni pagos.
+ */
+
+const HALF_LETTER: [number, number] = [396, 612]; // 5.5 x 8.5 in
+const MARGIN = 28;
+const STONE_ROWS = 3;
+const MAX_PHOTOS = 2;
+
+export async function renderOrdenTaller(data: InvoiceData, fonts: PdfFonts): Promise<Buffer> {
+  const { service, company, metals, components, photos } = data;
+  const { doc, done } = createPdfDocument(fonts, HALF_LETTER, MARGIN);
+
+  const left = MARGIN;
+  const right = doc.page.width - MARGIN;
+  const width = right - left;
+  const bottom = doc.page.height - MARGIN - 14; // deja espacio para el pie
+  let y = MARGIN;
+
+  // Salta de página si el bloque no cabe
+  const ensureSpace = (height: number) => {
+    if (y + height <= bottom) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(40);
+    doc.font("Inter-Bold").fontSize(10).fillColor("#111111").text(title, left, y);
+    y = doc.y + 3;
+  };
+
+  // Encabezado: empresa a la izquierda, título y código a la derecha
+  doc
+    .font("Inter-Bold")
+    .fontSize(10)
+    .fillColor("#111111")
+    .text(sanitizePdfText(company.nombre_comercial), left, y, { width: width / 2 });
+
+  doc
+    .font("Inter-Bold")
+    .fontSize(12)
+    .text("ORDEN DE TRABAJO", left + width / 2, y, { width: width / 2, align: "right" });
+  doc
+    .font("Inter")
+    .fontSize(11)
+    .text(sanitizePdfText(service.code), left + width / 2, y + 16, {
+      width: width / 2,
+      align: "right",
+    });
+
+  y += 36;
+  drawRule(doc, left, right, y);
+  y += 8;
+
+  // Datos en dos columnas
+  const colGap = 12;
+  const colW = (width - colGap) / 2;
+  const rows: [string, string][] = [
+    [
+      `Recibido: ${formatDateDDMMYYYY(service.fecha)} ${formatTimeHHMM(service.hora)}`,
+      `Prioridad: ${sanitizePdfText(service.prioridad)}`,
+    ],
+    [
+      `Entrega: ${formatDueDate(service.fecha_entrega) || "Sin fecha"}`,
+      `Estado: ${sanitizePdfText(service.estado)}`,
+    ],
+    [`Cliente: ${sanitizePdfText(service.cliente)}`, `Máquina: ${sanitizePdfText(service.maquina)}`],
+    [`Agente: ${sanitizePdfText(service.agente)}`, `Almacén: ${sanitizePdfText(service.almacen)}`],
+  ];
+  // Reclamo de garantía: el taller necesita ver el trabajo original
+  if (service.garantia_de) {
+    rows.push([`Garantía de: ${sanitizePdfText(service.garantia_de)}`, "Sin costo para el cliente"]);
+  }
+
+  doc.font("Inter").fontSize(9).fillColor("#111111");
+  for (const [a, b] of rows) {
+    const h = Math.max(
+      doc.heightOfString(a, { width: colW }),
+      doc.heightOfString(b, { width: colW })
+    );
+    doc.text(a, left, y, { width: colW });
+    doc.text(b, left + colW + colGap, y, { width: colW });
+    y += h + 4;
+  }
+
+  y += 4;
+  drawRule(doc, left, right, y);
+  y += 8;
+
+  // Pieza
+  sectionTitle("Material");
+  doc.font("Inter").fontSize(10).text(sanitizePdfText(service.material) || "—", left, y, { width });
+  y = doc.y + 10;
+
+  sectionTitle("Descripción");
+  doc.font("Inter").fontSize(10).text(sanitizePdfText(service.descripcion), left, y, { width });
+  y = doc.y + 10;
+
+  // Pesos en gramos: los registrados o casillas para diligenciar a mano
+  const rowH = 15;
+  sectionTitle("Pesos (g)");
+  if (metals.length) {
+    const metalCols = ["Material", "Metal recibido", "Metal del taller", "Peso final", "Merma"];
+    const values = metals.map((m) => [
+      m.material,
+      ...[m.recibido_g, m.taller_g, m.final_g, m.merma_g].map(formatGrams),
+    ]);
+    ensureSpace(rowH * (values.length + 1));
+    drawTable(doc, left, y, width, rowH, metalCols, values.length, values);
+    y += rowH * (values.length + 1) + 10;
+  } else {
+    drawBoxes(doc, left, y, width, 26, ["Metal recibido", "Metal del taller", "Peso final", "Merma"]);
+    y += 26 + 10;
+  }
+
+  // Piedras y componentes: los registrados y, si sobran, filas vacías
+  sectionTitle("Piedras y componentes");
+  const stoneCols = ["Tipo", "Cantidad", "Medida / quilates", "Aporta"];
+  const stones = components.map((c) => [
+    componentLabel(c),
+    String(c.cantidad),
+    c.medida ?? "",
+    COMPONENT_APORTA_LABELS[c.aporta],
+  ]);
+  const stoneRows = Math.max(STONE_ROWS, stones.length);
+  ensureSpace(rowH * (stoneRows + 1));
+  drawTable(doc, left, y, width, rowH, stoneCols, stoneRows, stones);
+  y += rowH * (stoneRows + 1) + 10;
+
+  // Fotos de referencia (la cotización, si es una imagen)
+  if (photos.length) {
+    sectionTitle("Fotos de referencia");
+    const shown = photos.slice(0, MAX_PHOTOS);
+    const gap = 10;
+    const photoW = (width - gap * (shown.length - 1)) / shown.length;
+    const photoH = 90;
+    ensureSpace(photoH);
+    shown.forEach((photo, i) => {
+      try {
+        doc.image(photo, left + i * (photoW + gap), y, {
+          fit: [photoW, photoH],
+          align: "center",
+          valign: "center",
+        });
+      } catch (e) {
+        logImageError("foto de referencia", e);
+      }
+    });
+    y += photoH + 10;
+  }
+
+  // Firmas: recibe el joyero / revisa quien entrega al cliente
+  const signatureH = 44;
+  ensureSpace(signatureH);
+  y = Math.max(y, bottom - signatureH);
+  drawBoxes(doc, left, y, width, signatureH, ["Firma joyero", "Revisó (control de calidad)"]);
+
+  doc
+    .font("Inter")
+    .fontSize(7)
+    .fillColor("#444444")
+    .text(
+      `Generado por ${sanitizePdfText(company.nombre_comercial)} · Uso interno, sin valores`,
+      left,
+      bottom + 4,
+      { width, align: "center" }
+    );
+
+  doc.end();
+  return done;
+}
+
+/** Casillas en fila con la etiqueta arriba y espacio para escribir */
+function drawBoxes(doc: PdfDoc, x: number, y: number, width: number, height: number, labels: string[]) {
+  const boxW = width / labels.length;
+  labels.forEach((label, i) => {
+    const boxX = x + i * boxW;
+    doc.rect(boxX, y, boxW, height).lineWidth(0.75).strokeColor("#111111").stroke();
+    doc
+      .font("Inter")
+      .fontSize(7)
+      .fillColor("#444444")
+      .text(label, boxX + 4, y + 3, { width: boxW - 8 });
+  });
+}
+
+/**
+ * Tabla con encabezado: las celdas de `values` se llenan y el resto queda
+ * vacío para diligenciar a mano.
+ */
+function drawTable(
+  doc: PdfDoc,
+  x: number,
+  y: number,
+  width: number,
+  rowH: number,
+  columns: string[],
+  rows: number,
+  values: string[][] = []
+) {
+  const colW = width / columns.length;
+  for (let r = 0; r <= rows; r++) {
+    columns.forEach((column, c) => {
+      doc
+        .rect(x + c * colW, y + r * rowH, colW, rowH)
+        .lineWidth(0.75)
+        .strokeColor("#111111")
+        .stroke();
+      const text = r === 0 ? column : values[r - 1]?.[c];
+      if (text) {
+        doc
+          .font(r === 0 ? "Inter-Bold" : "Inter")
+          .fontSize(7)
+          .fillColor("#111111")
+          .text(sanitizePdfText(text), x + c * colW + 4, y + r * rowH + 4, {
+            width: colW - 8,
+            height: rowH - 4,
+            ellipsis: true,
+          });
+      }
+    });
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  drawPdfImage,
+  drawRule,
+  logImageError,
+  openPdfImage,
+  renderRollPdf,
+  ROLL_80MM_WIDTH,
+  type PdfDoc,
+  type PdfFonts,
+} from "../document";
+import {
+  formatCOP,
+  formatDateDDMMYYYY,
+  formatDueDate,
+  formatTimeHHMM,
+  formatWarranty,
+  sanitizePdfText,
+} from "../format";
+import type { InvoiceData } from "../invoiceData";
+import { formatGrams } from "../../schemas/metal";
+import { componentLabel, componentSubtotal } from "../../schemas/component";
+import { companyHeaderLines } from "../../settings/company";
+
+/**
+ * Plantilla `ticket`: tiquete para impresora térmica de 80mm (alto según el contenido).
+ */
+
+const TICKET_WIDTH = ROLL_80MM_WIDTH;
+const MARGIN = 10;
+
+export async function renderTicket(data: InvoiceData, fonts: PdfFonts): Promise<Buffer> {
+  return renderRollPdf(fonts, TICKET_WIDTH, MARGIN, (doc) => drawTicket(doc, data));
+}
+
+/** Dibuja el tiquete desde el margen superior y devuelve el alto usado */
+function drawTicket(doc: PdfDoc, data: InvoiceData) {
+  const { service, payments, balance, company, logo, einvoice, metals, components, warranty } = data;
+  const left = MARGIN;
+  const width = TICKET_WIDTH - MARGIN * 2;
+  const right = left + width;
+  let y = MARGIN;
+
+  const center = (text: string, size: number, bold = false) => {
+    doc
+      .font(bold ? "Inter-Bold" : "Inter")
+      .fontSize(size)
+      .fillColor("#000000")
+      .text(text, left, y, { width, align: "center" });
+    y = doc.y;
+  };
+
+  const line = (text: string, size = 8, bold = false) => {
+    doc
+      .font(bold ? "Inter-Bold" : "Inter")
+      .fontSize(size)
+      .fillColor("#000000")
+      .text(text, left, y, { width });
+    y = doc.y + 1;
+  };
+
+  // Etiqueta a la izquierda, monto a la derecha
+  const amount = (label: string, value: string, bold = false) => {
+    doc.font(bold ? "Inter-Bold" : "Inter").fontSize(8).fillColor("#000000");
+    const valueW = 80;
+    const labelH = doc.heightOfString(label, { width: width - valueW });
+    doc.text(label, left, y, { width: width - valueW });
+    doc.text(value, right - valueW, y, { width: valueW, align: "right" });
+    y += labelH + 1;
+  };
+
+  const separator = () => {
+    y += 4;
+    drawRule(doc, left, right, y, 0.5);
+    y += 5;
+  };
+
+  // Encabezado: logo pequeño centrado + empresa
+  if (logo) {
+    try {
+      const img = openPdfImage(doc, logo.bytes);
+      const logoWidth = Math.min(110, width);
+      const logoHeight = (logoWidth / img.width) * img.height;
+      drawPdfImage(doc, img, left + (width - logoWidth) / 2, y, logoWidth);
+      y += logoHeight + 4;
+    } catch (e) {
+      logImageError("logo", e);
+    }
+  }
+
+  center(sanitizePdfText(company.razon_social), 10, true);
+  for (const headerLine of companyHeaderLines(company)) {
+    center(sanitizePdfText(headerLine), 7);
+  }
+
+  separator();
+  center(`Servicio ${sanitizePdfText(service.code)}`, 11, true);
+  if (service.factura_numero) {
+    center(`Factura No. ${sanitizePdfText(service.factura_numero)}`, 8, true);
+  }
+  y += 3;
+  line(`Fecha: ${formatDateDDMMYYYY(service.fecha)} ${formatTimeHHMM(service.hora)}`);
+  line(`Cliente: ${sanitizePdfText(service.cliente)}`);
+  line(`Teléfono: ${sanitizePdfText(service.telefono)}`);
+  line(`Estado: ${sanitizePdfText(service.estado)}`);
+  if (service.fecha_entrega && service.estado !== "Entregado") {
+    line(`Entrega estimada: ${formatDueDate(service.fecha_entrega)}`);
+  }
+
+  separator();
+  line("Descripción", 8, true);
+  line(sanitizePdfText(service.descripcion), 8);
+  if (service.material) line(`Material: ${sanitizePdfText(service.material)}`);
+  for (const m of metals) {
+    line(`${m.material}: peso final ${formatGrams(m.final_g)} · merma ${formatGrams(m.merma_g)}`, 7);
+  }
+
+  // Piedras y componentes: se cobran junto con el costo final
+  if (components.length) {
+    separator();
+    for (const c of components) {
+      const detail = [componentLabel(c), c.medida].filter(Boolean).join(" ");
+      amount(sanitizePdfText(`${c.cantidad} × ${detail}`), formatCOP(componentSubtotal(c)));
+    }
+    amount("Trabajo", formatCOP(Number(service.costo_final ?? 0)));
+  }
+
+  separator();
+  for (const p of payments) {
+    amount(`${formatDateDDMMYYYY(p.fecha)} · ${p.metodo}`, formatCOP(p.monto));
+  }
+  if (payments.length) y += 3;
+  amount(components.length ? "Total" : "Costo final", formatCOP(balance.costo_final));
+  amount("Total pagado", formatCOP(balance.total_pagado));
+  amount("Saldo", formatCOP(balance.saldo), true);
+
+  // Factura electrónica: número, QR centrado, CUFE y resolución
+  if (einvoice) {
+    const { invoice } = einvoice;
+    separator();
+    center(`Factura electrónica No. ${sanitizePdfText(invoice.numero_factura)}`, 8, true);
+    center(
+      `Emitida: ${formatDateDDMMYYYY(invoice.fecha_emision)} ${formatTimeHHMM(invoice.hora_emision)}`,
+      7
+    );
+    center(`Total: ${formatCOP(invoice.total)} (IVA ${formatCOP(invoice.iva)})`, 7);
+    y += 4;
+    const qrSize = 100;
+    doc.image(einvoice.qr, left + (width - qrSize) / 2, y, { width: qrSize, height: qrSize });
+    y += qrSize + 4;
+    center(`CUFE: ${invoice.cufe}`, 5.5);
+    center(sanitizePdfText(einvoice.resolution), 6);
+  }
+
+  separator();
+  line(`Garantía: ${formatWarranty(warranty)}`, 7, true);
+  if (warranty.terminos) line(sanitizePdfText(warranty.terminos), 6.5);
+
+  if (company.terminos_factura) {
+    separator();
+    line(sanitizePdfText(company.terminos_factura), 6.5);
+  }
+
+  if (company.pie_legal) {
+    y += 3;
+    center(sanitizePdfText(company.pie_legal), 6);
+  }
+
+  y += 6;
+  center(`Generado por ${sanitizePdfText(company.nombre_comercial)}`, 6.5);
+
+  return y - MARGIN;
+}
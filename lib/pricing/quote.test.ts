@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { currentPricing } from "./quote";
+import { createMemoryPricingRepository, setPricingRepository } from "../repositories";
+
+describe("precios vigentes", () => {
+  it("usa el precio del día en Colombia, no el del servidor", async () => {
+    setPricingRepository(
+      createMemoryPricingRepository({
+        precios: [
+          { fecha: "2026-10-19", material: "Oro 18k", precio_gramo: 300_000 },
+          { fecha: "2026-10-20", material: "Oro 18k", precio_gramo: 310_000 },
+        ],
+      })
+    );
+
+    // 19 de octubre 21:00 en Colombia = 20 de octubre 02:00 UTC
+    const { fecha, precios } = await currentPricing(new Date("2026-10-20T02:00:00Z"));
+    expect(fecha).toBe("2026-10-19");
+    expect(precios.map((p) => p.precio_gramo)).toEqual([300_000]);
+  });
+});
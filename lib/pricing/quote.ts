@@ -0,0 +1,45 @@
+import { getPricingRepository } from "../repositories";
+import { colombiaDateTime } from "../sla/calendar";
+import { toFieldErrors, type FieldErrors } from "../schemas/fieldErrors";
+import { computeQuote, quoteRequestField } from "../schemas/pricing";
+import type { QuoteSnapshot } from "../schemas/quote";
+
+/**
+ * Cotización de los servicios en el servidor: el formulario envía los datos
+ * de la calculadora (campo `cotizacion`) y aquí se recalcula con las tarifas
+ * vigentes, para que la copia guardada no dependa de lo que diga el navegador.
+ */
+
+/** Precio vigente de cada material (según el día en Colombia) y tarifas de mano de obra y engaste */
+export async function currentPricing(now: Date = new Date()) {
+  const pricing = getPricingRepository();
+  const { fecha } = colombiaDateTime(now);
+  const [precios, tarifas] = await Promise.all([
+    pricing.currentMetalPrices(fecha),
+    pricing.listLaborRates(),
+  ]);
+  return { fecha, precios, tarifas };
+}
+
+function prefixed(fields: FieldErrors): FieldErrors {
+  return Object.fromEntries(
+    Object.entries(fields).map(([key, message]) => [key === "_" ? "cotizacion" : `cotizacion.${key}`, message])
+  );
+}
+
+/**
+ * Campo `cotizacion` del FormData → copia de la cotización (null si viene
+ * vacío) o errores por campo con prefijo `cotizacion.`.
+ */
+export async function quoteFromForm(
+  value: FormDataEntryValue | null,
+  now: Date = new Date()
+): Promise<{ quote: QuoteSnapshot | null } | { fields: FieldErrors }> {
+  const parsed = quoteRequestField.safeParse(value);
+  if (!parsed.success) return { fields: prefixed(toFieldErrors(parsed.error)) };
+  if (!parsed.data) return { quote: null };
+
+  const { precios, tarifas } = await currentPricing(now);
+  const result = computeQuote(parsed.data, precios, tarifas, now);
+  return result.valid ? { quote: result.quote } : { fields: prefixed(result.fields) };
+}
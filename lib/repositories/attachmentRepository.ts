@@ -0,0 +1,53 @@
+import crypto from "crypto";
+import type { AttachmentInput, ServiceAttachment } from "../schemas/attachment";
+
+/**
+ * Acceso a datos de los adjuntos del servicio: filas de
+ * `service_attachments` y archivos del bucket privado `cotizaciones`.
+ */
+
+/** Archivo del bucket */
+export type StoredFile = {
+  bytes: Uint8Array;
+  contentType: string;
+};
+
+/** Objeto del bucket (para la limpieza de huérfanos) */
+export type StoredObject = {
+  path: string;
+  created_at: string;
+};
+
+export interface AttachmentRepository {
+  /** Adjuntos del servicio, los más antiguos primero */
+  listByService(serviceCode: string): Promise<ServiceAttachment[]>;
+  getById(id: string): Promise<ServiceAttachment | null>;
+  create(input: AttachmentInput): Promise<ServiceAttachment>;
+  /** Borra la fila (el archivo se borra aparte con removeFiles) */
+  delete(id: string): Promise<boolean>;
+  /** Cuáles de `paths` tienen un adjunto que los referencia (archivo o miniatura) */
+  existingPaths(paths: string[]): Promise<Set<string>>;
+  uploadFile(path: string, file: StoredFile): Promise<void>;
+  /** null si el archivo no está en el bucket */
+  downloadFile(path: string): Promise<StoredFile | null>;
+  /**
+   * URL firmada que vence en `expiresInSeconds`. Con `downloadName` el
+   * archivo se descarga con ese nombre. null si el almacenamiento no firma
+   * URLs (memoria): el archivo se sirve con downloadFile.
+   */
+  signedUrl(path: string, expiresInSeconds: number, downloadName?: string): Promise<string | null>;
+  removeFiles(paths: string[]): Promise<void>;
+  /** Todos los objetos del bucket */
+  listFiles(): Promise<StoredObject[]>;
+}
+
+/** Ruta dentro del bucket `cotizaciones`: `<año>/<uuid>.<ext>` */
+export function buildAttachmentPath(ext: string) {
+  const year = new Date().getFullYear();
+  return `${year}/${crypto.randomUUID()}.${ext}`;
+}
+
+/** Ruta de la miniatura junto al archivo: `<año>/<uuid>.thumb.jpg` */
+export function buildThumbnailPath(path: string) {
+  return path.replace(/\.[^./]*$/, "") + ".thumb.jpg";
+}
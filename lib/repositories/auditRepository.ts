@@ -0,0 +1,11 @@
+import type { AuditEntry, AuditEntryInput, AuditListQuery } from "../schemas/audit";
+
+/**
+ * Acceso a datos del registro de auditoría (`audit_log`).
+ * Solo inserción: no hay actualización ni borrado.
+ */
+export interface AuditRepository {
+  /** Entradas más recientes primero */
+  list(query: AuditListQuery): Promise<AuditEntry[]>;
+  append(entry: AuditEntryInput): Promise<AuditEntry>;
+}
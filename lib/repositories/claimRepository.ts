@@ -0,0 +1,23 @@
+import type { ServiceClaim } from "../schemas/claim";
+
+/**
+ * Acceso a datos de los tiquetes de retiro (`service_claims`, uno por servicio).
+ */
+export interface ClaimRepository {
+  getByServiceCode(serviceCode: string): Promise<ServiceClaim | null>;
+  getByToken(token: string): Promise<ServiceClaim | null>;
+  create(serviceCode: string, secrets: { token: string; pin: string }): Promise<ServiceClaim>;
+  /**
+   * Marca el retiro como verificado y borra los intentos fallidos
+   * (`verifiedBy` null: vuelve a quedar pendiente)
+   */
+  setVerified(serviceCode: string, verifiedBy: string | null): Promise<ServiceClaim>;
+  /**
+   * Suma un intento fallido (atómico). Al llegar a `maxAttempts` bloquea la
+   * verificación `lockoutMinutes` y vuelve a contar desde cero.
+   */
+  recordFailedAttempt(
+    serviceCode: string,
+    lockout: { maxAttempts: number; lockoutMinutes: number }
+  ): Promise<ServiceClaim>;
+}
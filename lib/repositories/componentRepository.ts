@@ -0,0 +1,22 @@
+import type { ComponentEntry, ServiceComponent } from "../schemas/component";
+
+/**
+ * Piedras y componentes por servicio (`service_components`).
+ * Se guardan todos juntos: el formulario envía la lista completa, en orden.
+ */
+export interface ComponentRepository {
+  /** Líneas del servicio, en el orden en que se registraron */
+  listByService(serviceCode: string): Promise<ServiceComponent[]>;
+  /**
+   * Reemplaza las líneas del servicio y guarda su suma en
+   * `services.componentes_total`, todo o nada: si una línea falla quedan
+   * las anteriores y el total anterior.
+   */
+  replaceForService(serviceCode: string, rows: ComponentEntry[]): Promise<ComponentsReplaced>;
+}
+
+export type ComponentsReplaced = {
+  componentes: ServiceComponent[];
+  /** Nuevo `services.componentes_total` */
+  total: number;
+};
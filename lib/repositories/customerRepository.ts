@@ -0,0 +1,17 @@
+import type { Customer, CustomerListQuery, CustomerPayload } from "../schemas/customer";
+import type { DianTipoDocumento } from "../schemas/einvoice";
+
+/**
+ * Acceso a datos del directorio de clientes (`customers`).
+ */
+export interface CustomerRepository {
+  /** Búsqueda por nombre, documento, teléfono o correo (ordenado por nombre) */
+  list(query: CustomerListQuery): Promise<Customer[]>;
+  getById(id: string): Promise<Customer | null>;
+  findByDocument(tipo: DianTipoDocumento, numero: string): Promise<Customer | null>;
+  /** Teléfono normalizado (ver normalizePhone) */
+  findByPhone(phone: string): Promise<Customer | null>;
+  create(input: CustomerPayload): Promise<Customer>;
+  update(id: string, input: Partial<CustomerPayload>): Promise<Customer>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,37 @@
+import type { ElectronicInvoice } from "../schemas/einvoice";
+
+/** Campos que se guardan al emitir una factura electrónica */
+export type ElectronicInvoiceInput = Omit<ElectronicInvoice, "id" | "created_at">;
+
+/** Resultado del envío a la DIAN que se guarda sobre la factura reservada */
+export type ElectronicInvoiceUpdate = Pick<
+  ElectronicInvoice,
+  "xml" | "estado" | "dian_track_id" | "dian_mensajes"
+>;
+
+/**
+ * Acceso a datos de las facturas electrónicas (`electronic_invoices`)
+ * y al consecutivo autorizado por la resolución de facturación.
+ */
+export interface ElectronicInvoiceRepository {
+  getByServiceCode(serviceCode: string): Promise<ElectronicInvoice | null>;
+  /**
+   * Reserva el siguiente número del rango autorizado (atómico): primero el
+   * menor número liberado, después el consecutivo.
+   * Lanza un error si el rango está agotado.
+   */
+  nextNumber(prefijo: string, desde: number, hasta: number): Promise<number>;
+  /** Devuelve al rango un número reservado que no llegó a la DIAN */
+  releaseNumber(prefijo: string, numero: number): Promise<void>;
+  /**
+   * Registra la factura del servicio antes de firmarla y enviarla (atómico:
+   * una por servicio). Devuelve null si el servicio ya tiene factura.
+   */
+  reserve(input: ElectronicInvoiceInput): Promise<ElectronicInvoice | null>;
+  update(id: string, patch: ElectronicInvoiceUpdate): Promise<ElectronicInvoice>;
+  /** Elimina una factura reservada que no llegó a la DIAN (o que la DIAN rechazó) */
+  remove(id: string): Promise<void>;
+}
+
+export const INVOICE_RANGE_EXHAUSTED_MESSAGE =
+  "El rango de numeración autorizado por la DIAN está agotado";
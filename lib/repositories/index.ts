@@ -0,0 +1,396 @@
+import { createSupabaseAdminClient } from "../supabase/admin";
+import type { ServiceRepository } from "./serviceRepository";
+import { createSupabaseServiceRepository } from "./supabaseServiceRepository";
+import { createMemoryServiceRepository } from "./memoryServiceRepository";
+import type { PaymentRepository } from "./paymentRepository";
+import { createSupabasePaymentRepository } from "./supabasePaymentRepository";
+import { createMemoryPaymentRepository } from "./memoryPaymentRepository";
+import type { ElectronicInvoiceRepository } from "./electronicInvoiceRepository";
+import { createSupabaseElectronicInvoiceRepository } from "./supabaseElectronicInvoiceRepository";
+import { createMemoryElectronicInvoiceRepository } from "./memoryElectronicInvoiceRepository";
+import type { CustomerRepository } from "./customerRepository";
+import { createSupabaseCustomerRepository } from "./supabaseCustomerRepository";
+import { createMemoryCustomerRepository } from "./memoryCustomerRepository";
+import type { StatusHistoryRepository } from "./statusHistoryRepository";
+import { createSupabaseStatusHistoryRepository } from "./supabaseStatusHistoryRepository";
+import { createMemoryStatusHistoryRepository } from "./memoryStatusHistoryRepository";
+import type { AuditRepository } from "./auditRepository";
+import { createSupabaseAuditRepository } from "./supabaseAuditRepository";
+import { createMemoryAuditRepository } from "./memoryAuditRepository";
+import type { UserRoleRepository } from "./userRoleRepository";
+import { createSupabaseUserRoleRepository } from "./supabaseUserRoleRepository";
+import { createMemoryUserRoleRepository } from "./memoryUserRoleRepository";
+import type { SettingsRepository } from "./settingsRepository";
+import { createSupabaseSettingsRepository } from "./supabaseSettingsRepository";
+import { createMemorySettingsRepository } from "./memorySettingsRepository";
+import type { ClaimRepository } from "./claimRepository";
+import { createSupabaseClaimRepository } from "./supabaseClaimRepository";
+import { createMemoryClaimRepository } from "./memoryClaimRepository";
+import type { NotificationRepository } from "./notificationRepository";
+import { createSupabaseNotificationRepository } from "./supabaseNotificationRepository";
+import { createMemoryNotificationRepository } from "./memoryNotificationRepository";
+import type { AttachmentRepository } from "./attachmentRepository";
+import { createSupabaseAttachmentRepository } from "./supabaseAttachmentRepository";
+import { createMemoryAttachmentRepository } from "./memoryAttachmentRepository";
+import type { SequenceRepository } from "./sequenceRepository";
+import { createSupabaseSequenceRepository } from "./supabaseSequenceRepository";
+import { createMemorySequenceRepository } from "./memorySequenceRepository";
+import type { MetalWeightRepository } from "./metalWeightRepository";
+import { createSupabaseMetalWeightRepository } from "./supabaseMetalWeightRepository";
+import { createMemoryMetalWeightRepository } from "./memoryMetalWeightRepository";
+import type { PricingRepository } from "./pricingRepository";
+import { createSupabasePricingRepository } from "./supabasePricingRepository";
+import { createMemoryPricingRepository } from "./memoryPricingRepository";
+import type { InventoryRepository } from "./inventoryRepository";
+import { createSupabaseInventoryRepository } from "./supabaseInventoryRepository";
+import { createMemoryInventoryRepository } from "./memoryInventoryRepository";
+import type { ComponentRepository } from "./componentRepository";
+import { createSupabaseComponentRepository } from "./supabaseComponentRepository";
+import { createMemoryComponentRepository } from "./memoryComponentRepository";
+import type { WarrantyRepository } from "./warrantyRepository";
+import { createSupabaseWarrantyRepository } from "./supabaseWarrantyRepository";
+import { createMemoryWarrantyRepository } from "./memoryWarrantyRepository";
+
+export * from "./serviceRepository";
+export { createSupabaseServiceRepository } from "./supabaseServiceRepository";
+export { createMemoryServiceRepository } from "./memoryServiceRepository";
+export * from "./paymentRepository";
+export { createSupabasePaymentRepository } from "./supabasePaymentRepository";
+export { createMemoryPaymentRepository } from "./memoryPaymentRepository";
+export * from "./electronicInvoiceRepository";
+export { createSupabaseElectronicInvoiceRepository } from "./supabaseElectronicInvoiceRepository";
+export { createMemoryElectronicInvoiceRepository } from "./memoryElectronicInvoiceRepository";
+export * from "./customerRepository";
+export { createSupabaseCustomerRepository } from "./supabaseCustomerRepository";
+export { createMemoryCustomerRepository } from "./memoryCustomerRepository";
+export * from "./statusHistoryRepository";
+export { createSupabaseStatusHistoryRepository } from "./supabaseStatusHistoryRepository";
+export { createMemoryStatusHistoryRepository } from "./memoryStatusHistoryRepository";
+export * from "./auditRepository";
+export { createSupabaseAuditRepository } from "./supabaseAuditRepository";
+export { createMemoryAuditRepository } from "./memoryAuditRepository";
+export * from "./userRoleRepository";
+export { createSupabaseUserRoleRepository } from "./supabaseUserRoleRepository";
+export { createMemoryUserRoleRepository } from "./memoryUserRoleRepository";
+export * from "./settingsRepository";
+export { createSupabaseSettingsRepository } from "./supabaseSettingsRepository";
+export { createMemorySettingsRepository } from "./memorySettingsRepository";
+export * from "./claimRepository";
+export { createSupabaseClaimRepository } from "./supabaseClaimRepository";
+export { createMemoryClaimRepository } from "./memoryClaimRepository";
+export * from "./notificationRepository";
+export { createSupabaseNotificationRepository } from "./supabaseNotificationRepository";
+export { createMemoryNotificationRepository } from "./memoryNotificationRepository";
+export * from "./attachmentRepository";
+export { createSupabaseAttachmentRepository } from "./supabaseAttachmentRepository";
+export { createMemoryAttachmentRepository } from "./memoryAttachmentRepository";
+export * from "./sequenceRepository";
+export { createSupabaseSequenceRepository } from "./supabaseSequenceRepository";
+export { createMemorySequenceRepository } from "./memorySequenceRepository";
+export * from "./metalWeightRepository";
+export { createSupabaseMetalWeightRepository } from "./supabaseMetalWeightRepository";
+export { createMemoryMetalWeightRepository } from "./memoryMetalWeightRepository";
+export * from "./pricingRepository";
+export { createSupabasePricingRepository } from "./supabasePricingRepository";
+export { createMemoryPricingRepository } from "./memoryPricingRepository";
+export * from "./inventoryRepository";
+export { createSupabaseInventoryRepository } from "./supabaseInventoryRepository";
+export { createMemoryInventoryRepository } from "./memoryInventoryRepository";
+export * from "./componentRepository";
+export { createSupabaseComponentRepository } from "./supabaseComponentRepository";
+export { createMemoryComponentRepository } from "./memoryComponentRepository";
+export * from "./warrantyRepository";
+export { createSupabaseWarrantyRepository } from "./supabaseWarrantyRepository";
+export { createMemoryWarrantyRepository } from "./memoryWarrantyRepository";
+
+/**
+ * DATA_BACKEND=memory usa los repositorios en memoria (sin Supabase).
+ * Cualquier otro valor (o ausente) usa Supabase con SERVICE_ROLE_KEY.
+ */
+function isMemoryBackend() {
+  return process.env.DATA_BACKEND === "memory";
+}
+
+let serviceRepository: ServiceRepository | null = null;
+
+/**
+ * Repositorio de servicios compartido por todas las rutas API.
+ *
+ * Uso:
+ * ```typescript
+ * const services = getServiceRepository();
+ * const service = await services.getByCode(code);
+ * ```
+ */
+export function getServiceRepository(): ServiceRepository {
+  if (!serviceRepository) {
+    serviceRepository = isMemoryBackend()
+      ? createMemoryServiceRepository()
+      : createSupabaseServiceRepository(createSupabaseAdminClient());
+  }
+  return serviceRepository;
+}
+
+/** Reemplaza el repositorio (p. ej. en pruebas). `null` vuelve al de por defecto. */
+export function setServiceRepository(repository: ServiceRepository | null) {
+  serviceRepository = repository;
+}
+
+let paymentRepository: PaymentRepository | null = null;
+
+/** Repositorio del libro de pagos (`/api/services/[code]/payments`) */
+export function getPaymentRepository(): PaymentRepository {
+  if (!paymentRepository) {
+    paymentRepository = isMemoryBackend()
+      ? createMemoryPaymentRepository()
+      : createSupabasePaymentRepository(createSupabaseAdminClient());
+  }
+  return paymentRepository;
+}
+
+export function setPaymentRepository(repository: PaymentRepository | null) {
+  paymentRepository = repository;
+}
+
+let electronicInvoiceRepository: ElectronicInvoiceRepository | null = null;
+
+/** Repositorio de facturas electrónicas (`/api/services/[code]/einvoice`) */
+export function getElectronicInvoiceRepository(): ElectronicInvoiceRepository {
+  if (!electronicInvoiceRepository) {
+    electronicInvoiceRepository = isMemoryBackend()
+      ? createMemoryElectronicInvoiceRepository()
+      : createSupabaseElectronicInvoiceRepository(createSupabaseAdminClient());
+  }
+  return electronicInvoiceRepository;
+}
+
+export function setElectronicInvoiceRepository(repository: ElectronicInvoiceRepository | null) {
+  electronicInvoiceRepository = repository;
+}
+
+let customerRepository: CustomerRepository | null = null;
+
+/** Repositorio del directorio de clientes (`/api/customers`) */
+export function getCustomerRepository(): CustomerRepository {
+  if (!customerRepository) {
+    customerRepository = isMemoryBackend()
+      ? createMemoryCustomerRepository()
+      : createSupabaseCustomerRepository(createSupabaseAdminClient());
+  }
+  return customerRepository;
+}
+
+export function setCustomerRepository(repository: CustomerRepository | null) {
+  customerRepository = repository;
+}
+
+let statusHistoryRepository: StatusHistoryRepository | null = null;
+
+/** Repositorio del historial de estados (`/api/services/[code]/status`) */
+export function getStatusHistoryRepository(): StatusHistoryRepository {
+  if (!statusHistoryRepository) {
+    statusHistoryRepository = isMemoryBackend()
+      ? createMemoryStatusHistoryRepository()
+      : createSupabaseStatusHistoryRepository(createSupabaseAdminClient());
+  }
+  return statusHistoryRepository;
+}
+
+export function setStatusHistoryRepository(repository: StatusHistoryRepository | null) {
+  statusHistoryRepository = repository;
+}
+
+let auditRepository: AuditRepository | null = null;
+
+/** Registro de auditoría (`/api/audit`) */
+export function getAuditRepository(): AuditRepository {
+  if (!auditRepository) {
+    auditRepository = isMemoryBackend()
+      ? createMemoryAuditRepository()
+      : createSupabaseAuditRepository(createSupabaseAdminClient());
+  }
+  return auditRepository;
+}
+
+export function setAuditRepository(repository: AuditRepository | null) {
+  auditRepository = repository;
+}
+
+let userRoleRepository: UserRoleRepository | null = null;
+
+/**
+ * Roles de los empleados (requireRole / requirePermission).
+ * En memoria (desarrollo) los usuarios sin rol asignado son admin.
+ */
+export function getUserRoleRepository(): UserRoleRepository {
+  if (!userRoleRepository) {
+    userRoleRepository = isMemoryBackend()
+      ? createMemoryUserRoleRepository([], "admin")
+      : createSupabaseUserRoleRepository(createSupabaseAdminClient());
+  }
+  return userRoleRepository;
+}
+
+export function setUserRoleRepository(repository: UserRoleRepository | null) {
+  userRoleRepository = repository;
+}
+
+let settingsRepository: SettingsRepository | null = null;
+
+/** Perfil de la empresa y logo (`/api/settings`, PDF de la factura) */
+export function getSettingsRepository(): SettingsRepository {
+  if (!settingsRepository) {
+    settingsRepository = isMemoryBackend()
+      ? createMemorySettingsRepository()
+      : createSupabaseSettingsRepository(createSupabaseAdminClient());
+  }
+  return settingsRepository;
+}
+
+export function setSettingsRepository(repository: SettingsRepository | null) {
+  settingsRepository = repository;
+}
+
+let claimRepository: ClaimRepository | null = null;
+
+/** Tiquetes de retiro (QR + PIN) de los servicios */
+export function getClaimRepository(): ClaimRepository {
+  if (!claimRepository) {
+    claimRepository = isMemoryBackend()
+      ? createMemoryClaimRepository()
+      : createSupabaseClaimRepository(createSupabaseAdminClient());
+  }
+  return claimRepository;
+}
+
+export function setClaimRepository(repository: ClaimRepository | null) {
+  claimRepository = repository;
+}
+
+let notificationRepository: NotificationRepository | null = null;
+
+/** Registro de envíos de notificaciones al cliente */
+export function getNotificationRepository(): NotificationRepository {
+  if (!notificationRepository) {
+    notificationRepository = isMemoryBackend()
+      ? createMemoryNotificationRepository()
+      : createSupabaseNotificationRepository(createSupabaseAdminClient());
+  }
+  return notificationRepository;
+}
+
+export function setNotificationRepository(repository: NotificationRepository | null) {
+  notificationRepository = repository;
+}
+
+let attachmentRepository: AttachmentRepository | null = null;
+
+/** Adjuntos del servicio (tabla y bucket `cotizaciones`) */
+export function getAttachmentRepository(): AttachmentRepository {
+  if (!attachmentRepository) {
+    attachmentRepository = isMemoryBackend()
+      ? createMemoryAttachmentRepository()
+      : createSupabaseAttachmentRepository(createSupabaseAdminClient());
+  }
+  return attachmentRepository;
+}
+
+export function setAttachmentRepository(repository: AttachmentRepository | null) {
+  attachmentRepository = repository;
+}
+
+let sequenceRepository: SequenceRepository | null = null;
+
+/** Contadores de códigos de servicio y números de factura (lib/codes) */
+export function getSequenceRepository(): SequenceRepository {
+  if (!sequenceRepository) {
+    sequenceRepository = isMemoryBackend()
+      ? createMemorySequenceRepository()
+      : createSupabaseSequenceRepository(createSupabaseAdminClient());
+  }
+  return sequenceRepository;
+}
+
+export function setSequenceRepository(repository: SequenceRepository | null) {
+  sequenceRepository = repository;
+}
+
+let metalWeightRepository: MetalWeightRepository | null = null;
+
+/** Pesos de metal por servicio (`/api/services/[code]/metals`, PDF) */
+export function getMetalWeightRepository(): MetalWeightRepository {
+  if (!metalWeightRepository) {
+    metalWeightRepository = isMemoryBackend()
+      ? createMemoryMetalWeightRepository(getServiceRepository, getInventoryRepository)
+      : createSupabaseMetalWeightRepository(createSupabaseAdminClient());
+  }
+  return metalWeightRepository;
+}
+
+export function setMetalWeightRepository(repository: MetalWeightRepository | null) {
+  metalWeightRepository = repository;
+}
+
+let pricingRepository: PricingRepository | null = null;
+
+/** Precios del metal y tarifas de mano de obra (`/api/pricing`, lib/pricing) */
+export function getPricingRepository(): PricingRepository {
+  if (!pricingRepository) {
+    pricingRepository = isMemoryBackend()
+      ? createMemoryPricingRepository()
+      : createSupabasePricingRepository(createSupabaseAdminClient());
+  }
+  return pricingRepository;
+}
+
+export function setPricingRepository(repository: PricingRepository | null) {
+  pricingRepository = repository;
+}
+
+let inventoryRepository: InventoryRepository | null = null;
+
+/** Movimientos y existencias del inventario de metal (`/api/inventory`, lib/inventory) */
+export function getInventoryRepository(): InventoryRepository {
+  if (!inventoryRepository) {
+    inventoryRepository = isMemoryBackend()
+      ? createMemoryInventoryRepository()
+      : createSupabaseInventoryRepository(createSupabaseAdminClient());
+  }
+  return inventoryRepository;
+}
+
+export function setInventoryRepository(repository: InventoryRepository | null) {
+  inventoryRepository = repository;
+}
+
+let componentRepository: ComponentRepository | null = null;
+
+/** Piedras y componentes por servicio (`/api/services/[code]/components`, PDF) */
+export function getComponentRepository(): ComponentRepository {
+  if (!componentRepository) {
+    componentRepository = isMemoryBackend()
+      ? createMemoryComponentRepository(getServiceRepository)
+      : createSupabaseComponentRepository(createSupabaseAdminClient());
+  }
+  return componentRepository;
+}
+
+export function setComponentRepository(repository: ComponentRepository | null) {
+  componentRepository = repository;
+}
+
+let warrantyRepository: WarrantyRepository | null = null;
+
+/** Garantías de los servicios entregados (lib/warranty, `/api/services/[code]/warranty`) */
+export function getWarrantyRepository(): WarrantyRepository {
+  if (!warrantyRepository) {
+    warrantyRepository = isMemoryBackend()
+      ? createMemoryWarrantyRepository()
+      : createSupabaseWarrantyRepository(createSupabaseAdminClient());
+  }
+  return warrantyRepository;
+}
+
+export function setWarrantyRepository(repository: WarrantyRepository | null) {
+  warrantyRepository = repository;
+}
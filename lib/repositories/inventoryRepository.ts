@@ -0,0 +1,33 @@
+import type {
+  InventoryMovement,
+  InventoryMovementInput,
+  InventoryMovementListQuery,
+  StockRow,
+} from "../schemas/inventory";
+
+/**
+ * Resultado de `addMovements`: sin existencia suficiente no se guarda
+ * ninguna fila y `insuficiente` trae lo que había en el almacén.
+ */
+export type AddMovementsResult =
+  | { ok: true; movimientos: InventoryMovement[] }
+  | { ok: false; insuficiente: StockRow };
+
+/**
+ * Movimientos del inventario de metal (`inventory_movements`).
+ * Solo inserción: la existencia es la suma de los movimientos.
+ */
+export interface InventoryRepository {
+  /** Movimientos más recientes primero */
+  listMovements(query: InventoryMovementListQuery): Promise<InventoryMovement[]>;
+  /**
+   * Inserta los movimientos juntos (un traslado son dos filas), verificando
+   * la existencia en la misma operación (con dos salidas a la vez no se
+   * pasa de lo que hay):
+   * - las salidas manuales (ajuste, traslado) no pueden dejar el almacén en negativo
+   * - el consumo de un servicio se guarda igual, marcado con `sobregiro`
+   */
+  addMovements(rows: InventoryMovementInput[]): Promise<AddMovementsResult>;
+  /** Existencia por material y almacén (solo combinaciones con movimientos) */
+  stock(): Promise<StockRow[]>;
+}
@@ -0,0 +1,68 @@
+import crypto from "crypto";
+import type { AttachmentRepository, StoredFile } from "./attachmentRepository";
+import type { AttachmentInput, ServiceAttachment } from "../schemas/attachment";
+
+/**
+ * Implementación en memoria de AttachmentRepository (desarrollo y pruebas).
+ * Los archivos quedan en un Map indexado por ruta.
+ */
+export function createMemoryAttachmentRepository(
+  seed: ServiceAttachment[] = []
+): AttachmentRepository {
+  const rows = new Map(seed.map((a) => [a.id, { ...a }]));
+  const files = new Map<string, StoredFile & { created_at: string }>();
+
+  return {
+    async listByService(serviceCode: string) {
+      return [...rows.values()]
+        .filter((a) => a.service_code === serviceCode)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((a) => ({ ...a }));
+    },
+
+    async getById(id: string) {
+      const attachment = rows.get(id);
+      return attachment ? { ...attachment } : null;
+    },
+
+    async create(input: AttachmentInput) {
+      const created: ServiceAttachment = {
+        ...input,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      rows.set(created.id, created);
+      return { ...created };
+    },
+
+    async delete(id: string) {
+      return rows.delete(id);
+    },
+
+    async existingPaths(paths: string[]) {
+      const referenced = new Set([...rows.values()].flatMap((a) => [a.path, a.thumb_path]));
+      return new Set(paths.filter((p) => referenced.has(p)));
+    },
+
+    async uploadFile(path: string, file: StoredFile) {
+      files.set(path, { ...file, created_at: new Date().toISOString() });
+    },
+
+    async downloadFile(path: string) {
+      const file = files.get(path);
+      return file ? { bytes: file.bytes, contentType: file.contentType } : null;
+    },
+
+    async signedUrl() {
+      return null;
+    },
+
+    async removeFiles(paths: string[]) {
+      for (const path of paths) files.delete(path);
+    },
+
+    async listFiles() {
+      return [...files.entries()].map(([path, f]) => ({ path, created_at: f.created_at }));
+    },
+  };
+}
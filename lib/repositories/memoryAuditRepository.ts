@@ -0,0 +1,39 @@
+import crypto from "crypto";
+import type { AuditRepository } from "./auditRepository";
+import type { AuditEntry, AuditEntryInput, AuditListQuery } from "../schemas/audit";
+
+/**
+ * Implementación en memoria de AuditRepository (desarrollo y pruebas).
+ */
+export function createMemoryAuditRepository(seed: AuditEntry[] = []): AuditRepository {
+  const rows: AuditEntry[] = seed.map((e) => ({ ...e }));
+
+  function matches(e: AuditEntry, query: AuditListQuery) {
+    if (query.serviceCode && e.service_code !== query.serviceCode) return false;
+    if (query.actor && e.actor !== query.actor) return false;
+    if (query.accion && e.accion !== query.accion) return false;
+    if (query.desde && e.created_at.slice(0, 10) < query.desde) return false;
+    if (query.hasta && e.created_at.slice(0, 10) > query.hasta) return false;
+    return true;
+  }
+
+  return {
+    async list(query: AuditListQuery) {
+      return rows
+        .filter((e) => matches(e, query))
+        .reverse()
+        .slice(query.offset, query.offset + query.limit)
+        .map((e) => ({ ...e }));
+    },
+
+    async append(entry: AuditEntryInput) {
+      const created: AuditEntry = {
+        ...entry,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      rows.push(created);
+      return { ...created };
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import type { ClaimRepository } from "./claimRepository";
+import type { ServiceClaim } from "../schemas/claim";
+
+/**
+ * Implementación en memoria de ClaimRepository (desarrollo y pruebas).
+ */
+export function createMemoryClaimRepository(seed: ServiceClaim[] = []): ClaimRepository {
+  const rows = new Map(seed.map((c) => [c.service_code, { ...c }]));
+
+  function find(serviceCode: string) {
+    const claim = rows.get(serviceCode);
+    if (!claim) throw new Error(`Tiquete de retiro no encontrado: ${serviceCode}`);
+    return claim;
+  }
+
+  return {
+    async getByServiceCode(serviceCode: string) {
+      const claim = rows.get(serviceCode);
+      return claim ? { ...claim } : null;
+    },
+
+    async getByToken(token: string) {
+      const claim = [...rows.values()].find((c) => c.token === token);
+      return claim ? { ...claim } : null;
+    },
+
+    async create(serviceCode: string, secrets: { token: string; pin: string }) {
+      if (rows.has(serviceCode)) {
+        throw new Error(`El servicio ${serviceCode} ya tiene tiquete de retiro`);
+      }
+      const created: ServiceClaim = {
+        service_code: serviceCode,
+        ...secrets,
+        created_at: new Date().toISOString(),
+        verified_at: null,
+        verified_by: null,
+        intentos_fallidos: 0,
+        bloqueado_hasta: null,
+      };
+      rows.set(serviceCode, created);
+      return { ...created };
+    },
+
+    async setVerified(serviceCode: string, verifiedBy: string | null) {
+      const claim = find(serviceCode);
+      claim.verified_at = verifiedBy ? new Date().toISOString() : null;
+      claim.verified_by = verifiedBy;
+      if (verifiedBy) {
+        claim.intentos_fallidos = 0;
+        claim.bloqueado_hasta = null;
+      }
+      return { ...claim };
+    },
+
+    async recordFailedAttempt(serviceCode, { maxAttempts, lockoutMinutes }) {
+      const claim = find(serviceCode);
+      claim.intentos_fallidos += 1;
+      if (claim.intentos_fallidos >= maxAttempts) {
+        claim.intentos_fallidos = 0;
+        claim.bloqueado_hasta = new Date(Date.now() + lockoutMinutes * 60_000).toISOString();
+      }
+      return { ...claim };
+    },
+  };
+}
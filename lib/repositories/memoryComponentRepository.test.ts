@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryComponentRepository } from "./memoryComponentRepository";
+import { createMemoryServiceRepository } from "./memoryServiceRepository";
+import type { ComponentEntry } from "../schemas/component";
+import { serviceFixture } from "../../tests/fixtures";
+
+const entry = (overrides: Partial<ComponentEntry> = {}): ComponentEntry => ({
+  tipo: "Diamante",
+  descripcion: null,
+  cantidad: 2,
+  medida: "0.05 ct",
+  aporta: "joyeria",
+  precio_unitario: 150_000,
+  ...overrides,
+});
+
+function setup() {
+  const services = createMemoryServiceRepository([serviceFixture({ code: "SRV-0001" })]);
+  const components = createMemoryComponentRepository(() => services);
+  return { services, components };
+}
+
+describe("createMemoryComponentRepository", () => {
+  it("reemplaza las líneas en orden y guarda el total en el servicio", async () => {
+    const { services, components } = setup();
+
+    const result = await components.replaceForService("SRV-0001", [
+      entry(),
+      entry({ tipo: "Broche", cantidad: 1, precio_unitario: 20_000 }),
+    ]);
+
+    expect(result.total).toBe(320_000);
+    expect(result.componentes.map((c) => [c.posicion, c.tipo])).toEqual([
+      [0, "Diamante"],
+      [1, "Broche"],
+    ]);
+    expect((await services.getByCode("SRV-0001"))?.componentes_total).toBe(320_000);
+  });
+
+  it("si una línea falla quedan las líneas y el total anteriores", async () => {
+    const { services, components } = setup();
+    const { componentes: antes } = await components.replaceForService("SRV-0001", [entry()]);
+
+    await expect(
+      components.replaceForService("SRV-0001", [
+        entry({ cantidad: 5 }),
+        entry({ aporta: "cliente", precio_unitario: 10_000 }),
+      ])
+    ).rejects.toThrow(/posición 1/);
+
+    expect(await components.listByService("SRV-0001")).toEqual(antes);
+    expect((await services.getByCode("SRV-0001"))?.componentes_total).toBe(300_000);
+  });
+
+  it("no guarda líneas de un servicio que no existe", async () => {
+    const { components } = setup();
+
+    await expect(components.replaceForService("SRV-9999", [entry()])).rejects.toThrow(/no existe/);
+    expect(await components.listByService("SRV-9999")).toEqual([]);
+  });
+});
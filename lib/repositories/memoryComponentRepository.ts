@@ -0,0 +1,54 @@
+import crypto from "crypto";
+import type { ComponentRepository } from "./componentRepository";
+import type { ServiceRepository } from "./serviceRepository";
+import { COMPONENT_APORTA, COMPONENT_TIPOS, componentsTotal } from "../schemas/component";
+import type { ComponentEntry, ServiceComponent } from "../schemas/component";
+
+/** Mismas restricciones que la tabla `service_components` */
+function checkEntry(entry: ComponentEntry, posicion: number) {
+  const valid =
+    COMPONENT_TIPOS.includes(entry.tipo) &&
+    COMPONENT_APORTA.includes(entry.aporta) &&
+    Number.isInteger(entry.cantidad) &&
+    entry.cantidad >= 1 &&
+    entry.cantidad <= 1000 &&
+    entry.precio_unitario >= 0 &&
+    (entry.aporta === "joyeria" || entry.precio_unitario === 0);
+  if (!valid) throw new Error(`Componente inválido en la posición ${posicion}`);
+}
+
+/**
+ * Implementación en memoria de ComponentRepository (desarrollo y pruebas).
+ * El total se guarda en el repositorio de servicios que recibe.
+ */
+export function createMemoryComponentRepository(
+  services: () => ServiceRepository,
+  seed: ServiceComponent[] = []
+): ComponentRepository {
+  let rows: ServiceComponent[] = seed.map((c) => ({ ...c }));
+
+  return {
+    async listByService(serviceCode: string) {
+      return rows
+        .filter((c) => c.service_code === serviceCode)
+        .sort((a, b) => a.posicion - b.posicion)
+        .map((c) => ({ ...c }));
+    },
+
+    async replaceForService(serviceCode: string, entries: ComponentEntry[]) {
+      // Se valida todo antes de tocar nada: un error deja las líneas y el total anteriores
+      entries.forEach(checkEntry);
+      const total = componentsTotal(entries);
+      await services().update(serviceCode, { componentes_total: total });
+
+      const replaced: ServiceComponent[] = entries.map((entry, posicion) => ({
+        ...entry,
+        id: crypto.randomUUID(),
+        service_code: serviceCode,
+        posicion,
+      }));
+      rows = [...rows.filter((c) => c.service_code !== serviceCode), ...replaced];
+      return { componentes: replaced.map((c) => ({ ...c })), total };
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import crypto from "crypto";
+import type { CustomerRepository } from "./customerRepository";
+import type { Customer, CustomerListQuery, CustomerPayload } from "../schemas/customer";
+import type { DianTipoDocumento } from "../schemas/einvoice";
+
+/**
+ * Implementación en memoria de CustomerRepository (desarrollo y pruebas).
+ */
+export function createMemoryCustomerRepository(seed: Customer[] = []): CustomerRepository {
+  const rows = new Map<string, Customer>();
+  for (const c of seed) rows.set(c.id, { ...c, telefonos: [...c.telefonos] });
+
+  const copy = (c: Customer): Customer => ({ ...c, telefonos: [...c.telefonos] });
+
+  function matches(c: Customer, term: string) {
+    return [c.nombre, c.numero_documento, c.email, ...c.telefonos].some((v) =>
+      String(v ?? "").toLowerCase().includes(term)
+    );
+  }
+
+  return {
+    async list(query: CustomerListQuery) {
+      const term = query.q?.toLowerCase();
+      return [...rows.values()]
+        .filter((c) => !term || matches(c, term))
+        .sort((a, b) => a.nombre.localeCompare(b.nombre, "es"))
+        .slice(query.offset, query.offset + query.limit)
+        .map(copy);
+    },
+
+    async getById(id: string) {
+      const found = rows.get(id);
+      return found ? copy(found) : null;
+    },
+
+    async findByDocument(tipo: DianTipoDocumento, numero: string) {
+      for (const c of rows.values()) {
+        if (c.tipo_documento === tipo && c.numero_documento === numero) return copy(c);
+      }
+      return null;
+    },
+
+    async findByPhone(phone: string) {
+      for (const c of rows.values()) {
+        if (c.telefonos.includes(phone)) return copy(c);
+      }
+      return null;
+    },
+
+    async create(input: CustomerPayload) {
+      const created: Customer = {
+        ...input,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      rows.set(created.id, created);
+      return copy(created);
+    },
+
+    async update(id: string, input: Partial<CustomerPayload>) {
+      const existing = rows.get(id);
+      if (!existing) throw new Error(`Cliente ${id} no existe`);
+      const updated = { ...existing, ...input };
+      rows.set(id, updated);
+      return copy(updated);
+    },
+
+    async delete(id: string) {
+      return rows.delete(id);
+    },
+  };
+}
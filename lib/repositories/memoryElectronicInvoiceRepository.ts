@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import {
+  INVOICE_RANGE_EXHAUSTED_MESSAGE,
+  type ElectronicInvoiceInput,
+  type ElectronicInvoiceRepository,
+  type ElectronicInvoiceUpdate,
+} from "./electronicInvoiceRepository";
+import type { ElectronicInvoice } from "../schemas/einvoice";
+
+/**
+ * Implementación en memoria de ElectronicInvoiceRepository (desarrollo y pruebas).
+ */
+export function createMemoryElectronicInvoiceRepository(
+  seed: ElectronicInvoice[] = []
+): ElectronicInvoiceRepository {
+  const rows: ElectronicInvoice[] = seed.map((i) => ({ ...i }));
+  const counters = new Map<string, number>();
+  const released = new Map<string, Set<number>>();
+
+  return {
+    async getByServiceCode(serviceCode: string) {
+      const found = rows.find((i) => i.service_code === serviceCode);
+      return found ? { ...found } : null;
+    },
+
+    async nextNumber(prefijo: string, desde: number, hasta: number) {
+      const free = [...(released.get(prefijo) ?? [])].filter((n) => n >= desde && n <= hasta);
+      if (free.length) {
+        const reused = Math.min(...free);
+        released.get(prefijo)!.delete(reused);
+        return reused;
+      }
+
+      const last = counters.get(prefijo) ?? desde - 1;
+      const next = last + 1;
+      if (next > hasta) throw new Error(INVOICE_RANGE_EXHAUSTED_MESSAGE);
+      counters.set(prefijo, next);
+      return next;
+    },
+
+    async releaseNumber(prefijo: string, numero: number) {
+      if (rows.some((i) => i.prefijo === prefijo && i.numero === numero)) return;
+      if (!released.has(prefijo)) released.set(prefijo, new Set());
+      released.get(prefijo)!.add(numero);
+    },
+
+    async reserve(input: ElectronicInvoiceInput) {
+      if (rows.some((i) => i.service_code === input.service_code)) return null;
+      const created: ElectronicInvoice = {
+        ...input,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      rows.push(created);
+      return { ...created };
+    },
+
+    async update(id: string, patch: ElectronicInvoiceUpdate) {
+      const found = rows.find((i) => i.id === id);
+      if (!found) throw new Error("Factura electrónica no encontrada");
+      Object.assign(found, patch);
+      return { ...found };
+    },
+
+    async remove(id: string) {
+      const index = rows.findIndex((i) => i.id === id);
+      if (index >= 0) rows.splice(index, 1);
+    },
+  };
+}
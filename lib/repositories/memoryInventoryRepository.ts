@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import type { InventoryRepository } from "./inventoryRepository";
+import { sortByMaterial } from "../schemas/metal";
+import {
+  roundGrams,
+  type InventoryMovement,
+  type InventoryMovementInput,
+  type InventoryMovementListQuery,
+  type StockRow,
+} from "../schemas/inventory";
+
+/**
+ * Implementación en memoria de InventoryRepository (desarrollo y pruebas).
+ */
+export function createMemoryInventoryRepository(seed: InventoryMovement[] = []): InventoryRepository {
+  const movements: InventoryMovement[] = seed.map((m) => ({ ...m }));
+
+  const keyOf = (m: Pick<InventoryMovement, "material" | "almacen">) => `${m.material}\u0000${m.almacen}`;
+
+  function available(key: string) {
+    return roundGrams(movements.filter((m) => keyOf(m) === key).reduce((acc, m) => acc + m.gramos, 0));
+  }
+
+  return {
+    async listMovements(query: InventoryMovementListQuery) {
+      return movements
+        .filter((m) => {
+          if (query.material && m.material !== query.material) return false;
+          if (query.almacen && m.almacen !== query.almacen) return false;
+          if (query.tipo && m.tipo !== query.tipo) return false;
+          if (query.serviceCode && m.service_code !== query.serviceCode) return false;
+          return true;
+        })
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(query.offset, query.offset + query.limit)
+        .map((m) => ({ ...m }));
+    },
+
+    // Sin await entre la verificación y la inserción: equivale al bloqueo de Supabase
+    async addMovements(rows: InventoryMovementInput[]) {
+      const resulting = new Map<string, number>();
+      for (const row of rows) {
+        const key = keyOf(row);
+        resulting.set(key, roundGrams((resulting.get(key) ?? available(key)) + row.gramos));
+      }
+
+      for (const row of rows) {
+        if (row.tipo === "consumo" || row.gramos >= 0) continue;
+        if (resulting.get(keyOf(row))! < 0) {
+          const gramos = available(keyOf(row));
+          return { ok: false as const, insuficiente: { material: row.material, almacen: row.almacen, gramos } };
+        }
+      }
+
+      const created_at = new Date().toISOString();
+      const added = rows.map((row) => ({
+        ...row,
+        id: crypto.randomUUID(),
+        sobregiro: row.tipo === "consumo" && row.gramos < 0 && resulting.get(keyOf(row))! < 0,
+        created_at,
+      }));
+      movements.push(...added);
+      return { ok: true as const, movimientos: added.map((m) => ({ ...m })) };
+    },
+
+    async stock() {
+      const totals = new Map<string, StockRow>();
+      for (const m of movements) {
+        const key = keyOf(m);
+        const row = totals.get(key) ?? { material: m.material, almacen: m.almacen, gramos: 0 };
+        row.gramos = roundGrams(row.gramos + m.gramos);
+        totals.set(key, row);
+      }
+      return sortByMaterial([...totals.values()].sort((a, b) => a.almacen.localeCompare(b.almacen, "es")));
+    },
+  };
+}
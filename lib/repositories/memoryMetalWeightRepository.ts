@@ -0,0 +1,56 @@
+import type { MetalWeightRepository } from "./metalWeightRepository";
+import type { InventoryRepository } from "./inventoryRepository";
+import type { ServiceRepository } from "./serviceRepository";
+import { resolveAlmacen, serviceConsumptionMovements } from "../schemas/inventory";
+import { sortByMaterial, type MetalWeight, type MetalWeightEntry } from "../schemas/metal";
+
+/**
+ * Implementación en memoria de MetalWeightRepository (desarrollo y pruebas).
+ * El consumo se guarda en el repositorio de inventario que recibe.
+ */
+export function createMemoryMetalWeightRepository(
+  services: () => ServiceRepository,
+  inventory: () => InventoryRepository,
+  seed: MetalWeight[] = []
+): MetalWeightRepository {
+  let rows: MetalWeight[] = seed.map((w) => ({ ...w }));
+
+  return {
+    async listByService(serviceCode: string) {
+      return sortByMaterial(rows.filter((w) => w.service_code === serviceCode)).map((w) => ({ ...w }));
+    },
+
+    async replaceForService(serviceCode: string, entries: MetalWeightEntry[], updatedBy: string) {
+      const service = await services().getByCode(serviceCode);
+      if (!service) throw new Error(`Servicio ${serviceCode} no existe`);
+      const stock = await inventory().stock();
+
+      // Sin await entre la lectura y el reemplazo: equivale al bloqueo del
+      // servicio en Supabase (dos reemplazos a la vez no cuentan el mismo consumo)
+      const antes = sortByMaterial(rows.filter((w) => w.service_code === serviceCode));
+      const updated_at = new Date().toISOString();
+      const replaced: MetalWeight[] = entries.map((entry) => ({
+        ...entry,
+        service_code: serviceCode,
+        updated_by: updatedBy,
+        updated_at,
+      }));
+      rows = [...rows.filter((w) => w.service_code !== serviceCode), ...replaced];
+
+      const consumo = serviceConsumptionMovements(
+        { code: serviceCode, almacen: resolveAlmacen(service.almacen, stock) },
+        antes,
+        replaced,
+        updatedBy
+      );
+      // El consumo no se rechaza por existencia (ver addMovements)
+      const result = await inventory().addMovements(consumo);
+
+      return {
+        antes: antes.map((w) => ({ ...w })),
+        despues: sortByMaterial(replaced).map((w) => ({ ...w })),
+        movimientos: result.ok ? result.movimientos : [],
+      };
+    },
+  };
+}
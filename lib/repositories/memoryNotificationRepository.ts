@@ -0,0 +1,31 @@
+import crypto from "crypto";
+import type { NotificationRepository } from "./notificationRepository";
+import type { NotificationLogEntry, NotificationLogInput } from "../schemas/notification";
+
+/**
+ * Implementación en memoria de NotificationRepository (desarrollo y pruebas).
+ */
+export function createMemoryNotificationRepository(
+  seed: NotificationLogEntry[] = []
+): NotificationRepository {
+  const rows: NotificationLogEntry[] = seed.map((e) => ({ ...e }));
+
+  return {
+    async listByService(serviceCode: string) {
+      return rows
+        .filter((e) => e.service_code === serviceCode)
+        .reverse()
+        .map((e) => ({ ...e }));
+    },
+
+    async append(entry: NotificationLogInput) {
+      const created: NotificationLogEntry = {
+        ...entry,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      rows.push(created);
+      return { ...created };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import crypto from "crypto";
+import type { PaymentRepository } from "./paymentRepository";
+import type { Payment, PaymentPayload } from "../schemas/payment";
+
+/**
+ * Implementación en memoria de PaymentRepository (desarrollo y pruebas).
+ */
+export function createMemoryPaymentRepository(seed: Payment[] = []): PaymentRepository {
+  const rows: Payment[] = seed.map((p) => ({ ...p }));
+
+  return {
+    async listByService(serviceCode: string) {
+      return rows
+        .filter((p) => p.service_code === serviceCode)
+        .sort((a, b) => a.fecha.localeCompare(b.fecha) || String(a.created_at).localeCompare(String(b.created_at)))
+        .map((p) => ({ ...p }));
+    },
+
+    async create(serviceCode: string, input: PaymentPayload) {
+      const created: Payment = {
+        ...input,
+        id: crypto.randomUUID(),
+        service_code: serviceCode,
+        created_at: new Date().toISOString(),
+      };
+      rows.push(created);
+      return { ...created };
+    },
+
+    async delete(serviceCode: string, id: string) {
+      const index = rows.findIndex((p) => p.id === id && p.service_code === serviceCode);
+      if (index === -1) return false;
+      rows.splice(index, 1);
+      return true;
+    },
+
+    async totalsByService(serviceCodes: string[]) {
+      const wanted = new Set(serviceCodes);
+      const totals: Record<string, number> = {};
+      for (const p of rows) {
+        if (!wanted.has(p.service_code)) continue;
+        totals[p.service_code] = (totals[p.service_code] ?? 0) + p.monto;
+      }
+      return totals;
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import crypto from "crypto";
+import type { PricingRepository } from "./pricingRepository";
+import { sortByMaterial } from "../schemas/metal";
+import {
+  sortLaborRates,
+  type LaborRate,
+  type LaborRateEntry,
+  type MetalPrice,
+  type MetalPriceEntry,
+} from "../schemas/pricing";
+
+/**
+ * Implementación en memoria de PricingRepository (desarrollo y pruebas).
+ */
+export function createMemoryPricingRepository(
+  seed: { precios?: MetalPrice[]; tarifas?: LaborRate[] } = {}
+): PricingRepository {
+  let prices: MetalPrice[] = (seed.precios ?? []).map((p) => ({ ...p }));
+  let rates: LaborRate[] = (seed.tarifas ?? []).map((r) => ({ ...r }));
+
+  return {
+    async currentMetalPrices(fecha: string) {
+      const latest = new Map<string, MetalPrice>();
+      for (const p of prices) {
+        if (p.fecha > fecha) continue;
+        const current = latest.get(p.material);
+        if (!current || p.fecha > current.fecha) latest.set(p.material, p);
+      }
+      return sortByMaterial([...latest.values()]).map((p) => ({ ...p }));
+    },
+
+    async saveMetalPrices(fecha: string, entries: MetalPriceEntry[], updatedBy: string) {
+      const updated_at = new Date().toISOString();
+      const saved: MetalPrice[] = entries.map((e) => ({ ...e, fecha, updated_by: updatedBy, updated_at }));
+      prices = [
+        ...prices.filter((p) => !(p.fecha === fecha && saved.some((s) => s.material === p.material))),
+        ...saved,
+      ];
+      return sortByMaterial(saved).map((p) => ({ ...p }));
+    },
+
+    async listLaborRates() {
+      return sortLaborRates(rates).map((r) => ({ ...r }));
+    },
+
+    async replaceLaborRates(entries: LaborRateEntry[]) {
+      rates = entries.map((e) => ({ ...e, id: e.id ?? crypto.randomUUID() }));
+      return sortLaborRates(rates).map((r) => ({ ...r }));
+    },
+  };
+}
@@ -0,0 +1,19 @@
+import type { SequenceRepository } from "./sequenceRepository";
+
+/**
+ * Implementación en memoria de SequenceRepository (desarrollo y pruebas).
+ * `seed`: último número usado por ámbito.
+ */
+export function createMemorySequenceRepository(
+  seed: Record<string, number> = {}
+): SequenceRepository {
+  const counters = new Map(Object.entries(seed));
+
+  return {
+    async next(scope: string) {
+      const next = (counters.get(scope) ?? 0) + 1;
+      counters.set(scope, next);
+      return next;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryServiceRepository } from "./memoryServiceRepository";
+import { serviceListQuerySchema } from "../schemas/service";
+import { serviceCreateInput, serviceFixture } from "../../tests/fixtures";
+
+const query = (params: Record<string, string> = {}) => serviceListQuerySchema.parse(params);
+
+describe("createMemoryServiceRepository", () => {
+  it("busca por código exacto y, si no existe, sin distinguir mayúsculas", async () => {
+    const repo = createMemoryServiceRepository([serviceFixture({ code: "SRV-0001" })]);
+
+    expect((await repo.getByCode("SRV-0001"))?.code).toBe("SRV-0001");
+    expect((await repo.getByCode("srv-0001"))?.code).toBe("SRV-0001");
+    expect(await repo.getByCode("SRV-9999")).toBeNull();
+  });
+
+  it("filtra, busca con q y ordena como la consulta de Supabase", async () => {
+    const repo = createMemoryServiceRepository([
+      serviceFixture({ code: "SRV-0001", cliente: "Ana", estado: "Pendiente", fecha: "2026-10-01" }),
+      serviceFixture({ code: "SRV-0002", cliente: "Beto", estado: "Entregado", fecha: "2026-10-02" }),
+      serviceFixture({ code: "SRV-0003", cliente: "Carla", estado: "Pendiente", fecha: "2026-10-03" }),
+    ]);
+
+    const pendientes = await repo.list(query({ estado: "Pendiente", order: "fecha.asc" }));
+    expect(pendientes.map((s) => s.code)).toEqual(["SRV-0001", "SRV-0003"]);
+
+    const porNombre = await repo.list(query({ q: "beto" }));
+    expect(porNombre.map((s) => s.code)).toEqual(["SRV-0002"]);
+
+    const pagina = await repo.list(query({ order: "fecha.desc", limit: "1", offset: "1" }));
+    expect(pagina.map((s) => s.code)).toEqual(["SRV-0002"]);
+  });
+
+  it("no repite códigos al crear", async () => {
+    const repo = createMemoryServiceRepository();
+    await repo.create(serviceCreateInput());
+    await expect(repo.create(serviceCreateInput())).rejects.toThrow(/ya existe/);
+  });
+
+  it("la papelera oculta, restaura y solo elimina servicios en ella", async () => {
+    const repo = createMemoryServiceRepository([
+      serviceFixture({ code: "SRV-0001" }),
+      serviceFixture({ code: "SRV-0002" }),
+    ]);
+
+    expect(await repo.deleteMany(["SRV-0001"])).toEqual([]);
+
+    const moved = await repo.softDeleteMany(["SRV-0001"], "ana@taller.co");
+    expect(moved).toHaveLength(1);
+    expect(await repo.getByCode("SRV-0001")).toBeNull();
+    expect((await repo.list(query())).map((s) => s.code)).toEqual(["SRV-0002"]);
+
+    await repo.restoreMany(["SRV-0001"]);
+    expect(await repo.getByCode("SRV-0001")).not.toBeNull();
+
+    await repo.softDeleteMany(["SRV-0001"], "ana@taller.co");
+    expect(await repo.deleteMany(["SRV-0001"])).toEqual(["SRV-0001"]);
+    expect(await repo.listDeleted({ limit: 10, offset: 0 })).toEqual([]);
+  });
+
+  it("conserva el primer número de factura asignado", async () => {
+    const repo = createMemoryServiceRepository([serviceFixture()]);
+    expect(await repo.assignInvoiceNumber("SRV-0001", "FV-1")).toBe("FV-1");
+    expect(await repo.assignInvoiceNumber("SRV-0001", "FV-2")).toBe("FV-1");
+  });
+});
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import type {
+  ServiceCreateInput,
+  ServiceInput,
+  ServiceRepository,
+  TrashQuery,
+} from "./serviceRepository";
+import type { Service, ServiceListQuery } from "../schemas/service";
+
+/** Campos donde busca el parámetro `q` (igual que el OR con ilike de Supabase) */
+const SEARCH_FIELDS = [
+  "code",
+  "cliente",
+  "telefono",
+  "maquina",
+  "descripcion",
+  "material",
+  "agente",
+  "almacen",
+] as const;
+
+/**
+ * Implementación en memoria de ServiceRepository.
+ * Permite ejercitar toda la API sin un proyecto de Supabase
+ * (DATA_BACKEND=memory o setServiceRepository() en pruebas).
+ */
+export function createMemoryServiceRepository(seed: Service[] = []): ServiceRepository {
+  const rows = new Map<string, Service>();
+  for (const s of seed) rows.set(s.code, { ...s });
+
+  /** Código de un servicio activo (exacto o sin distinguir mayúsculas) */
+  function findCode(code: string) {
+    if (rows.has(code)) return rows.get(code)!.deleted_at ? null : code;
+    const lower = code.toLowerCase();
+    for (const [key, s] of rows) {
+      if (key.toLowerCase() === lower && !s.deleted_at) return key;
+    }
+    return null;
+  }
+
+  function matches(s: Service, query: ServiceListQuery) {
+    if (s.deleted_at) return false;
+    if (query.customerId && s.customer_id !== query.customerId) return false;
+    if (query.garantiaDe && s.garantia_de !== query.garantiaDe) return false;
+    if (query.estado && s.estado !== query.estado) return false;
+    if (query.maquina && s.maquina !== query.maquina) return false;
+    if (query.prioridad && s.prioridad !== query.prioridad) return false;
+    if (query.agente && s.agente !== query.agente) return false;
+    if (query.almacen && s.almacen !== query.almacen) return false;
+
+    if (query.desde && s.fecha < query.desde) return false;
+    if (query.hasta && s.fecha > query.hasta) return false;
+
+    if (query.abonoMin !== undefined && s.abono < query.abonoMin) return false;
+    if (query.abonoMax !== undefined && s.abono > query.abonoMax) return false;
+    if (query.costoFinalMin !== undefined && s.costo_final < query.costoFinalMin) return false;
+    if (query.costoFinalMax !== undefined && s.costo_final > query.costoFinalMax) return false;
+
+    if (query.abonoPagado !== undefined && s.abono_pagado !== query.abonoPagado) return false;
+    if (query.costoFinalPagado !== undefined && s.costo_final_pagado !== query.costoFinalPagado) {
+      return false;
+    }
+
+    if (query.vencidos) {
+      if (s.estado === "Entregado" || !s.fecha_entrega) return false;
+      if (new Date(s.fecha_entrega).getTime() >= Date.now()) return false;
+    }
+
+    if (query.q) {
+      const term = query.q.toLowerCase();
+      return SEARCH_FIELDS.some((f) => String(s[f] ?? "").toLowerCase().includes(term));
+    }
+    return true;
+  }
+
+  return {
+    async list(query: ServiceListQuery) {
+      const field = query.orderField;
+      const sorted = [...rows.values()]
+        .filter((s) => matches(s, query))
+        .sort((a, b) => {
+          const av = String(a[field] ?? "");
+          const bv = String(b[field] ?? "");
+          // Sin valor al final (como nullsFirst: false en Supabase)
+          if (!av || !bv) return av === bv ? 0 : av ? -1 : 1;
+          const cmp = av < bv ? -1 : av > bv ? 1 : 0;
+          return query.ascending ? cmp : -cmp;
+        });
+      return sorted.slice(query.offset, query.offset + query.limit).map((s) => ({ ...s }));
+    },
+
+    async getByCode(code: string) {
+      const key = findCode(code);
+      return key ? { ...rows.get(key)! } : null;
+    },
+
+    async create(input: ServiceCreateInput) {
+      if (rows.has(input.code)) throw new Error(`El código ${input.code} ya existe`);
+      const created: Service = {
+        ...input,
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      };
+      rows.set(created.code, created);
+      return { ...created };
+    },
+
+    async update(code: string, input: Partial<ServiceInput>) {
+      const key = findCode(code);
+      if (!key) throw new Error(`Servicio ${code} no existe`);
+      const updated = { ...rows.get(key)!, ...input };
+      rows.set(key, updated);
+      return { ...updated };
+    },
+
+    async assignInvoiceNumber(code: string, numero: string) {
+      const s = rows.get(code);
+      if (!s) throw new Error(`Servicio ${code} no existe`);
+      if (s.factura_numero) return s.factura_numero;
+      rows.set(code, { ...s, factura_numero: numero });
+      return numero;
+    },
+
+    async softDeleteMany(codes: string[], deletedBy: string) {
+      const deletedAt = new Date().toISOString();
+      const moved: Service[] = [];
+      for (const code of codes) {
+        const s = rows.get(code);
+        if (!s || s.deleted_at) continue;
+        const updated = { ...s, deleted_at: deletedAt, deleted_by: deletedBy };
+        rows.set(code, updated);
+        moved.push({ ...updated });
+      }
+      return moved;
+    },
+
+    async restoreMany(codes: string[]) {
+      const restored: Service[] = [];
+      for (const code of codes) {
+        const s = rows.get(code);
+        if (!s || !s.deleted_at) continue;
+        const updated = { ...s, deleted_at: null, deleted_by: null };
+        rows.set(code, updated);
+        restored.push({ ...updated });
+      }
+      return restored;
+    },
+
+    async listDeleted(query: TrashQuery) {
+      const wanted = query.codes ? new Set(query.codes) : null;
+      return [...rows.values()]
+        .filter((s) => s.deleted_at)
+        .filter((s) => !wanted || wanted.has(s.code))
+        .filter((s) => !query.deletedBefore || s.deleted_at! < query.deletedBefore)
+        .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+        .slice(query.offset, query.offset + query.limit)
+        .map((s) => ({ ...s }));
+    },
+
+    async deleteMany(codes: string[]) {
+      const deleted: string[] = [];
+      for (const code of codes) {
+        if (!rows.get(code)?.deleted_at) continue;
+        rows.delete(code);
+        deleted.push(code);
+      }
+      return deleted;
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import crypto from "crypto";
+import type { CompanySettingsInput, LogoUpload, SettingsRepository } from "./settingsRepository";
+import type { CompanySettings } from "../schemas/settings";
+
+/**
+ * Implementación en memoria de SettingsRepository (desarrollo y pruebas).
+ */
+export function createMemorySettingsRepository(seed: CompanySettings | null = null): SettingsRepository {
+  let settings: CompanySettings | null = seed ? { ...seed } : null;
+  const logos = new Map<string, LogoUpload>();
+
+  return {
+    async get() {
+      return settings ? { ...settings } : null;
+    },
+
+    async save(input: CompanySettingsInput) {
+      settings = { ...input, updated_at: new Date().toISOString() };
+      return { ...settings };
+    },
+
+    async uploadLogo(file: LogoUpload) {
+      const path = `logo/${crypto.randomUUID()}.${file.ext}`;
+      logos.set(path, file);
+      return path;
+    },
+
+    async readLogo(path: string) {
+      const logo = logos.get(path);
+      return logo ? { bytes: logo.bytes, contentType: logo.contentType } : null;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+import crypto from "crypto";
+import type { StatusHistoryInput, StatusHistoryRepository } from "./statusHistoryRepository";
+import type { StatusHistoryEntry } from "../schemas/status";
+
+/**
+ * Implementación en memoria de StatusHistoryRepository (desarrollo y pruebas).
+ */
+export function createMemoryStatusHistoryRepository(
+  seed: StatusHistoryEntry[] = []
+): StatusHistoryRepository {
+  const rows: StatusHistoryEntry[] = seed.map((e) => ({ ...e }));
+
+  return {
+    async listByService(serviceCode: string) {
+      return rows
+        .filter((e) => e.service_code === serviceCode)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((e) => ({ ...e }));
+    },
+
+    async create(serviceCode: string, input: StatusHistoryInput) {
+      const created: StatusHistoryEntry = {
+        ...input,
+        id: crypto.randomUUID(),
+        service_code: serviceCode,
+        created_at: new Date().toISOString(),
+      };
+      rows.push(created);
+      return { ...created };
+    },
+  };
+}
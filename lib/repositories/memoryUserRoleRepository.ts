@@ -0,0 +1,38 @@
+import type { UserRoleRepository } from "./userRoleRepository";
+import type { Role, UserRole } from "../schemas/role";
+
+/**
+ * Implementación en memoria de UserRoleRepository (desarrollo y pruebas).
+ * `fallbackRole`: rol de los usuarios sin fila (null = sin rol asignado).
+ */
+export function createMemoryUserRoleRepository(
+  seed: UserRole[] = [],
+  fallbackRole: Role | null = null
+): UserRoleRepository {
+  const rows = new Map<string, UserRole>();
+  for (const r of seed) rows.set(r.user_id, { ...r });
+
+  return {
+    async getRole(userId: string) {
+      return rows.get(userId)?.role ?? fallbackRole;
+    },
+
+    async list() {
+      return [...rows.values()]
+        .sort((a, b) => (a.email ?? a.user_id).localeCompare(b.email ?? b.user_id))
+        .map((r) => ({ ...r }));
+    },
+
+    async setRole(userId: string, role: Role, email?: string | null) {
+      const current = rows.get(userId);
+      const updated: UserRole = {
+        user_id: userId,
+        email: email ?? current?.email ?? null,
+        role,
+        updated_at: new Date().toISOString(),
+      };
+      rows.set(userId, updated);
+      return { ...updated };
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import type { WarrantyRepository } from "./warrantyRepository";
+import type { ServiceWarranty, WarrantyInput } from "../schemas/warranty";
+
+/**
+ * Implementación en memoria de WarrantyRepository (desarrollo y pruebas).
+ */
+export function createMemoryWarrantyRepository(seed: ServiceWarranty[] = []): WarrantyRepository {
+  const rows = new Map<string, ServiceWarranty>();
+  for (const w of seed) rows.set(w.service_code, { ...w });
+
+  return {
+    async getByServiceCode(serviceCode: string) {
+      const warranty = rows.get(serviceCode);
+      return warranty ? { ...warranty } : null;
+    },
+
+    async create(input: WarrantyInput) {
+      const existing = rows.get(input.service_code);
+      if (existing) return { ...existing };
+
+      const created: ServiceWarranty = { ...input, created_at: new Date().toISOString() };
+      rows.set(created.service_code, created);
+      return { ...created };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import type { InventoryMovement } from "../schemas/inventory";
+import type { MetalWeight, MetalWeightEntry } from "../schemas/metal";
+
+/** Resultado de `replaceForService`: pesos anteriores, nuevos y el consumo registrado */
+export type MetalWeightReplacement = {
+  antes: MetalWeight[];
+  despues: MetalWeight[];
+  movimientos: InventoryMovement[];
+};
+
+/**
+ * Pesos de metal por servicio y material (`service_metal_weights`).
+ * Se guardan todos juntos: el formulario envía la tabla completa.
+ */
+export interface MetalWeightRepository {
+  /** Pesos del servicio, en el orden de SERVICE_MATERIALES */
+  listByService(serviceCode: string): Promise<MetalWeight[]>;
+  /**
+   * Reemplaza los pesos del servicio (los materiales que no vienen se borran)
+   * y, en la misma operación, registra el consumo de inventario: si cambia el
+   * metal del taller (`taller_g`), la diferencia sale del almacén del servicio
+   * (o vuelve si bajó). El consumo se guarda aunque la existencia quede
+   * negativa (el metal ya se usó), marcado con `sobregiro`.
+   */
+  replaceForService(
+    serviceCode: string,
+    rows: MetalWeightEntry[],
+    updatedBy: string
+  ): Promise<MetalWeightReplacement>;
+}
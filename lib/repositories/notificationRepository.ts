@@ -0,0 +1,11 @@
+import type { NotificationLogEntry, NotificationLogInput } from "../schemas/notification";
+
+/**
+ * Acceso a datos del registro de envíos de notificaciones (`notification_log`).
+ * Solo inserción: cada intento (enviado, fallido u omitido) es una fila.
+ */
+export interface NotificationRepository {
+  /** Envíos del servicio, más recientes primero */
+  listByService(serviceCode: string): Promise<NotificationLogEntry[]>;
+  append(entry: NotificationLogInput): Promise<NotificationLogEntry>;
+}
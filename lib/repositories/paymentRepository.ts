@@ -0,0 +1,15 @@
+import type { Payment, PaymentPayload } from "../schemas/payment";
+
+/**
+ * Acceso a datos del libro de pagos (`service_payments`).
+ * Cada pago pertenece a un servicio identificado por su código.
+ */
+export interface PaymentRepository {
+  /** Pagos del servicio, del más antiguo al más reciente */
+  listByService(serviceCode: string): Promise<Payment[]>;
+  create(serviceCode: string, input: PaymentPayload): Promise<Payment>;
+  /** Devuelve false si el pago no existe o no pertenece al servicio */
+  delete(serviceCode: string, id: string): Promise<boolean>;
+  /** Total pagado por servicio (los servicios sin pagos no aparecen) */
+  totalsByService(serviceCodes: string[]): Promise<Record<string, number>>;
+}
@@ -0,0 +1,16 @@
+import type { LaborRate, LaborRateEntry, MetalPrice, MetalPriceEntry } from "../schemas/pricing";
+
+/**
+ * Tarifas para cotizar: precio del gramo por material y día (`metal_prices`)
+ * y tarifas de mano de obra y engaste (`labor_rates`).
+ */
+export interface PricingRepository {
+  /** Último precio de cada material con fecha ≤ `fecha` (YYYY-MM-DD); sin precio no aparece */
+  currentMetalPrices(fecha: string): Promise<MetalPrice[]>;
+  /** Guarda los precios del día (reemplaza los de esa fecha y material) */
+  saveMetalPrices(fecha: string, precios: MetalPriceEntry[], updatedBy: string): Promise<MetalPrice[]>;
+  /** Tarifas por tipo y nombre */
+  listLaborRates(): Promise<LaborRate[]>;
+  /** Reemplaza las tarifas: las que traen `id` se actualizan, las que faltan se borran */
+  replaceLaborRates(rates: LaborRateEntry[]): Promise<LaborRate[]>;
+}
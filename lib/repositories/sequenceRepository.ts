@@ -0,0 +1,9 @@
+/**
+ * Contadores de numeración (`code_sequences`): códigos de servicio y números
+ * de factura. Cada ámbito (p. ej. `servicio:SER2026-#`) lleva su propio
+ * consecutivo; ver lib/codes.
+ */
+export interface SequenceRepository {
+  /** Reserva el siguiente número del ámbito (1 la primera vez); seguro con concurrencia */
+  next(scope: string): Promise<number>;
+}
@@ -0,0 +1,64 @@
+import type { Service, ServiceFields, ServiceListQuery } from "../schemas/service";
+import type { QuoteSnapshot } from "../schemas/quote";
+
+/**
+ * Capa de acceso a datos para la entidad "servicio".
+ *
+ * Las rutas API no hablan directamente con Supabase: pasan por un
+ * `ServiceRepository`. Existen dos implementaciones:
+ * - `createSupabaseServiceRepository` (producción)
+ * - `createMemoryServiceRepository` (desarrollo local y pruebas, sin Supabase)
+ */
+
+/**
+ * Campos que se guardan al crear/actualizar un servicio.
+ * `abono_pagado` / `costo_final_pagado` los calcula el libro de pagos;
+ * `fecha_entrega`, la prioridad (lib/sla/due); `cotizacion`, lib/pricing;
+ * `componentes_total`, las piezas de `/api/services/[code]/components`;
+ * `garantia_de`, el reclamo de garantía (`/api/services/[code]/warranty`).
+ */
+export type ServiceInput = ServiceFields & {
+  fecha_entrega: string | null;
+  abono_pagado: boolean;
+  costo_final_pagado: boolean;
+  cotizacion?: QuoteSnapshot | null;
+  componentes_total?: number;
+  garantia_de?: string | null;
+};
+
+/** Alta de un servicio: el código lo genera lib/codes (nextServiceCode) */
+export type ServiceCreateInput = ServiceInput & { code: string };
+
+/** Consulta de la papelera */
+export type TrashQuery = {
+  codes?: string[];
+  /** Solo los enviados a la papelera antes de este instante (ISO) */
+  deletedBefore?: string;
+  limit: number;
+  offset: number;
+};
+
+/**
+ * `list` y `getByCode` solo ven servicios activos; los que están en la
+ * papelera (`deleted_at` no nulo) se consultan con `listDeleted`.
+ */
+export interface ServiceRepository {
+  list(query: ServiceListQuery): Promise<Service[]>;
+  /** Busca por código exacto y, si no existe, sin distinguir mayúsculas */
+  getByCode(code: string): Promise<Service | null>;
+  create(input: ServiceCreateInput): Promise<Service>;
+  update(code: string, input: Partial<ServiceInput>): Promise<Service>;
+  /**
+   * Guarda el número de factura solo si el servicio aún no tiene uno;
+   * devuelve el que quedó guardado.
+   */
+  assignInvoiceNumber(code: string, numero: string): Promise<string>;
+  /** Mueve servicios activos a la papelera y devuelve los que se movieron */
+  softDeleteMany(codes: string[], deletedBy: string): Promise<Service[]>;
+  /** Saca servicios de la papelera y devuelve los restaurados */
+  restoreMany(codes: string[]): Promise<Service[]>;
+  /** Servicios en la papelera, los eliminados más recientemente primero */
+  listDeleted(query: TrashQuery): Promise<Service[]>;
+  /** Elimina definitivamente (solo servicios en la papelera); devuelve los códigos eliminados */
+  deleteMany(codes: string[]): Promise<string[]>;
+}
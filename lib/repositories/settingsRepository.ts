@@ -0,0 +1,25 @@
+import type { CompanySettings } from "../schemas/settings";
+
+/** Campos que se guardan del perfil de la empresa */
+export type CompanySettingsInput = Omit<CompanySettings, "updated_at">;
+
+/** Logo listo para subir al bucket */
+export type LogoUpload = {
+  bytes: Uint8Array;
+  contentType: string;
+  ext: string;
+};
+
+/**
+ * Acceso a datos del perfil de la empresa (`company_settings`, una fila)
+ * y del logo (bucket privado `branding`).
+ */
+export interface SettingsRepository {
+  /** Perfil guardado, o null si nunca se configuró */
+  get(): Promise<CompanySettings | null>;
+  save(input: CompanySettingsInput): Promise<CompanySettings>;
+  /** Sube el logo y devuelve la ruta que se guarda en `logo_path` */
+  uploadLogo(file: LogoUpload): Promise<string>;
+  /** Bytes del logo, o null si la ruta no existe */
+  readLogo(path: string): Promise<{ bytes: Uint8Array; contentType: string } | null>;
+}
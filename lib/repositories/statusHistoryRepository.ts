@@ -0,0 +1,18 @@
+import type { ServiceEstado } from "../schemas/service";
+import type { StatusHistoryEntry } from "../schemas/status";
+
+export type StatusHistoryInput = {
+  de: ServiceEstado | null;
+  a: ServiceEstado;
+  usuario: string;
+  nota: string | null;
+};
+
+/**
+ * Acceso a datos del historial de estados (`service_status_history`).
+ */
+export interface StatusHistoryRepository {
+  /** Cambios de estado del servicio, del más antiguo al más reciente */
+  listByService(serviceCode: string): Promise<StatusHistoryEntry[]>;
+  create(serviceCode: string, input: StatusHistoryInput): Promise<StatusHistoryEntry>;
+}
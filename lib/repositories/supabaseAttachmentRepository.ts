@@ -0,0 +1,121 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AttachmentRepository, StoredFile, StoredObject } from "./attachmentRepository";
+import type { AttachmentInput, ServiceAttachment } from "../schemas/attachment";
+
+const TABLE = "service_attachments";
+const BUCKET = "cotizaciones";
+
+/** Página de `storage.list` y de los `in (...)` de rutas */
+const PAGE_SIZE = 1000;
+const PATHS_PER_QUERY = 200;
+
+/**
+ * Implementación de AttachmentRepository sobre Supabase (tabla
+ * `service_attachments` y bucket privado `cotizaciones`: los archivos se
+ * leen con el cliente de servicio o con URLs firmadas).
+ */
+export function createSupabaseAttachmentRepository(supabase: SupabaseClient): AttachmentRepository {
+  const bucket = () => supabase.storage.from(BUCKET);
+
+  /** Objetos bajo `prefix`, bajando por las carpetas (`<año>/`) */
+  async function listFolder(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await bucket().list(prefix, { limit: PAGE_SIZE, offset });
+      if (error) throw new Error(error.message);
+      const entries = data ?? [];
+
+      for (const entry of entries) {
+        const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+        // Las carpetas no tienen id
+        if (entry.id === null) objects.push(...(await listFolder(path)));
+        else objects.push({ path, created_at: entry.created_at });
+      }
+
+      if (entries.length < PAGE_SIZE) return objects;
+    }
+  }
+
+  return {
+    async listByService(serviceCode: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .eq("service_code", serviceCode)
+        .order("created_at", { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data ?? []) as ServiceAttachment[];
+    },
+
+    async getById(id: string) {
+      const { data, error } = await supabase.from(TABLE).select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as ServiceAttachment | null) ?? null;
+    },
+
+    async create(input: AttachmentInput) {
+      const { data, error } = await supabase.from(TABLE).insert(input).select("*").single();
+      if (error) throw new Error(error.message);
+      return data as ServiceAttachment;
+    },
+
+    async delete(id: string) {
+      const { data, error } = await supabase.from(TABLE).delete().eq("id", id).select("id");
+      if (error) throw new Error(error.message);
+      return (data ?? []).length > 0;
+    },
+
+    async existingPaths(paths: string[]) {
+      const found = new Set<string>();
+      for (let i = 0; i < paths.length; i += PATHS_PER_QUERY) {
+        const chunk = paths.slice(i, i + PATHS_PER_QUERY);
+        for (const column of ["path", "thumb_path"] as const) {
+          const { data, error } = await supabase.from(TABLE).select(column).in(column, chunk);
+          if (error) throw new Error(error.message);
+          for (const row of (data ?? []) as Partial<ServiceAttachment>[]) {
+            const value = row[column];
+            if (value) found.add(value);
+          }
+        }
+      }
+      return found;
+    },
+
+    async uploadFile(path: string, file: StoredFile) {
+      const { error } = await bucket().upload(path, file.bytes, {
+        contentType: file.contentType || "application/octet-stream",
+        upsert: false,
+      });
+      if (error) throw new Error(error.message);
+    },
+
+    async downloadFile(path: string) {
+      const { data, error } = await bucket().download(path);
+      if (error || !data) return null;
+      return {
+        bytes: new Uint8Array(await data.arrayBuffer()),
+        contentType: data.type || "application/octet-stream",
+      };
+    },
+
+    async signedUrl(path: string, expiresInSeconds: number, downloadName?: string) {
+      const { data, error } = await bucket().createSignedUrl(
+        path,
+        expiresInSeconds,
+        downloadName ? { download: downloadName } : undefined
+      );
+      if (error || !data) throw new Error(error?.message ?? "No se pudo firmar la URL del adjunto");
+      return data.signedUrl;
+    },
+
+    async removeFiles(paths: string[]) {
+      if (!paths.length) return;
+      const { error } = await bucket().remove(paths);
+      if (error) throw new Error(error.message);
+    },
+
+    async listFiles() {
+      return listFolder("");
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AuditRepository } from "./auditRepository";
+import type { AuditEntry, AuditEntryInput, AuditListQuery } from "../schemas/audit";
+
+const TABLE = "audit_log";
+
+/**
+ * Implementación de AuditRepository sobre Supabase (tabla `audit_log`).
+ */
+export function createSupabaseAuditRepository(supabase: SupabaseClient): AuditRepository {
+  return {
+    async list(query: AuditListQuery) {
+      let req = supabase
+        .from(TABLE)
+        .select("*")
+        .order("created_at", { ascending: false })
+        .range(query.offset, query.offset + query.limit - 1);
+
+      if (query.serviceCode) req = req.eq("service_code", query.serviceCode);
+      if (query.actor) req = req.eq("actor", query.actor);
+      if (query.accion) req = req.eq("accion", query.accion);
+      // Fechas en hora de Colombia
+      if (query.desde) req = req.gte("created_at", `${query.desde}T00:00:00-05:00`);
+      if (query.hasta) req = req.lte("created_at", `${query.hasta}T23:59:59.999-05:00`);
+
+      const { data, error } = await req;
+      if (error) throw new Error(error.message);
+      return (data ?? []) as AuditEntry[];
+    },
+
+    async append(entry: AuditEntryInput) {
+      const { data, error } = await supabase.from(TABLE).insert(entry).select("*").single();
+      if (error) throw new Error(error.message);
+      return data as AuditEntry;
+    },
+  };
+}
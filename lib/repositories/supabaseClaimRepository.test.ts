@@ -0,0 +1,39 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createSupabaseClaimRepository } from "./supabaseClaimRepository";
+import { createMigratedDatabase, insertService, rpcClient, type TestDatabase } from "../../tests/database";
+
+// record_claim_failure en Postgres (PGlite con las migraciones)
+describe("createSupabaseClaimRepository.recordFailedAttempt", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await createMigratedDatabase();
+    await insertService(db, "SRV-0001");
+    await db.query("insert into service_claims (service_code, token, pin) values ('SRV-0001', 'token-de-prueba-1234', '042517')");
+  }, 60_000);
+
+  afterAll(() => db.close());
+
+  it("suma intentos y bloquea al llegar al máximo", async () => {
+    const claims = createSupabaseClaimRepository(rpcClient(db));
+    const lockout = { maxAttempts: 3, lockoutMinutes: 15 };
+
+    expect(await claims.recordFailedAttempt("SRV-0001", lockout)).toMatchObject({
+      intentos_fallidos: 1,
+      bloqueado_hasta: null,
+    });
+    await claims.recordFailedAttempt("SRV-0001", lockout);
+    const locked = await claims.recordFailedAttempt("SRV-0001", lockout);
+
+    expect(locked.intentos_fallidos).toBe(0);
+    const minutes = (new Date(locked.bloqueado_hasta!).getTime() - Date.now()) / 60_000;
+    expect(minutes).toBeGreaterThan(14);
+    expect(minutes).toBeLessThanOrEqual(15);
+  });
+
+  it("registra el intento fallido en la auditoría", async () => {
+    await expect(
+      db.query("insert into audit_log (actor, accion, service_code, cambios) values ('ana', 'verificar_retiro_fallido', 'SRV-0001', '{}')")
+    ).resolves.toBeTruthy();
+  });
+});
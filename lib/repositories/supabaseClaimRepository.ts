@@ -0,0 +1,64 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ClaimRepository } from "./claimRepository";
+import type { ServiceClaim } from "../schemas/claim";
+
+const TABLE = "service_claims";
+
+/**
+ * Implementación de ClaimRepository sobre Supabase (tabla `service_claims`).
+ */
+export function createSupabaseClaimRepository(supabase: SupabaseClient): ClaimRepository {
+  return {
+    async getByServiceCode(serviceCode: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .eq("service_code", serviceCode)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as ServiceClaim | null) ?? null;
+    },
+
+    async getByToken(token: string) {
+      const { data, error } = await supabase.from(TABLE).select("*").eq("token", token).maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as ServiceClaim | null) ?? null;
+    },
+
+    async create(serviceCode: string, secrets: { token: string; pin: string }) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .insert({ service_code: serviceCode, ...secrets })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return data as ServiceClaim;
+    },
+
+    async setVerified(serviceCode: string, verifiedBy: string | null) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update({
+          verified_at: verifiedBy ? new Date().toISOString() : null,
+          verified_by: verifiedBy,
+          ...(verifiedBy ? { intentos_fallidos: 0, bloqueado_hasta: null } : {}),
+        })
+        .eq("service_code", serviceCode)
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return data as ServiceClaim;
+    },
+
+    async recordFailedAttempt(serviceCode, { maxAttempts, lockoutMinutes }) {
+      // Incremento y bloqueo en la base de datos: los intentos simultáneos también cuentan
+      const { data, error } = await supabase.rpc("record_claim_failure", {
+        p_service_code: serviceCode,
+        p_max_attempts: maxAttempts,
+        p_lockout_minutes: lockoutMinutes,
+      });
+      if (error) throw new Error(error.message);
+      return data as ServiceClaim;
+    },
+  };
+}
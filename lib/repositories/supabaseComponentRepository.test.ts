@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createSupabaseComponentRepository } from "./supabaseComponentRepository";
+import type { ComponentEntry } from "../schemas/component";
+import { createMigratedDatabase, insertService, rpcClient, type TestDatabase } from "../../tests/database";
+
+const entry = (overrides: Partial<ComponentEntry> = {}): ComponentEntry => ({
+  tipo: "Diamante",
+  descripcion: null,
+  cantidad: 2,
+  medida: "0.05 ct",
+  aporta: "joyeria",
+  precio_unitario: 150_000,
+  ...overrides,
+});
+
+// replace_service_components en Postgres (PGlite con las migraciones)
+describe("createSupabaseComponentRepository", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await createMigratedDatabase();
+    await insertService(db, "SRV-0001");
+  }, 60_000);
+
+  afterAll(() => db.close());
+
+  const repository = () => createSupabaseComponentRepository(rpcClient(db));
+  const lines = async () =>
+    (
+      await db.query<{ tipo: string; posicion: number }>(
+        "select tipo, posicion from service_components where service_code = 'SRV-0001' order by posicion"
+      )
+    ).rows;
+  const storedTotal = async () =>
+    Number(
+      (await db.query<{ componentes_total: string }>("select componentes_total from services where code = 'SRV-0001'"))
+        .rows[0].componentes_total
+    );
+
+  it("reemplaza las líneas en orden y guarda el total en el servicio", async () => {
+    const result = await repository().replaceForService("SRV-0001", [
+      entry(),
+      entry({ tipo: "Broche", cantidad: 1, precio_unitario: 20_000 }),
+    ]);
+
+    expect(result.total).toBe(320_000);
+    expect(result.componentes.map((c) => [c.posicion, c.tipo])).toEqual([
+      [0, "Diamante"],
+      [1, "Broche"],
+    ]);
+    expect(await lines()).toEqual([
+      { tipo: "Diamante", posicion: 0 },
+      { tipo: "Broche", posicion: 1 },
+    ]);
+    expect(await storedTotal()).toBe(320_000);
+  });
+
+  it("si una línea falla quedan las líneas y el total anteriores", async () => {
+    await expect(
+      repository().replaceForService("SRV-0001", [
+        entry({ cantidad: 5 }),
+        entry({ aporta: "cliente", precio_unitario: 10_000 }),
+      ])
+    ).rejects.toThrow(/service_components_cliente_sin_precio_check/);
+
+    expect(await lines()).toHaveLength(2);
+    expect(await storedTotal()).toBe(320_000);
+  });
+
+  it("una lista vacía quita las líneas y deja el total en cero", async () => {
+    expect(await repository().replaceForService("SRV-0001", [])).toEqual({ componentes: [], total: 0 });
+    expect(await lines()).toEqual([]);
+    expect(await storedTotal()).toBe(0);
+  });
+
+  it("no guarda líneas de un servicio que no existe", async () => {
+    await expect(repository().replaceForService("SRV-9999", [entry()])).rejects.toThrow(/no existe/);
+  });
+});
@@ -0,0 +1,35 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ComponentRepository } from "./componentRepository";
+import type { ComponentEntry, ServiceComponent } from "../schemas/component";
+
+const TABLE = "service_components";
+
+/**
+ * Implementación de ComponentRepository sobre Supabase (tabla `service_components`).
+ * El reemplazo usa la función `replace_service_components`: borra, inserta y
+ * actualiza `services.componentes_total` en una sola transacción.
+ */
+export function createSupabaseComponentRepository(supabase: SupabaseClient): ComponentRepository {
+  return {
+    async listByService(serviceCode: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .eq("service_code", serviceCode)
+        .order("posicion", { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data ?? []) as ServiceComponent[];
+    },
+
+    async replaceForService(serviceCode: string, entries: ComponentEntry[]) {
+      // Las líneas no tienen clave natural: se borran y se insertan de nuevo
+      const { data, error } = await supabase.rpc("replace_service_components", {
+        p_service_code: serviceCode,
+        p_rows: entries,
+      });
+      if (error) throw new Error(error.message);
+      const result = data as { componentes: ServiceComponent[] | null; total: number | string };
+      return { componentes: result.componentes ?? [], total: Number(result.total) };
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CustomerRepository } from "./customerRepository";
+import type { Customer, CustomerListQuery, CustomerPayload } from "../schemas/customer";
+import type { DianTipoDocumento } from "../schemas/einvoice";
+
+const TABLE = "customers";
+
+/**
+ * Implementación de CustomerRepository sobre Supabase (tabla `customers`).
+ */
+export function createSupabaseCustomerRepository(supabase: SupabaseClient): CustomerRepository {
+  return {
+    async list(query: CustomerListQuery) {
+      let req = supabase
+        .from(TABLE)
+        .select("*")
+        .order("nombre", { ascending: true })
+        .range(query.offset, query.offset + query.limit - 1);
+
+      if (query.q) {
+        const term = `%${query.q}%`;
+        req = req.or(
+          [
+            `nombre.ilike.${term}`,
+            `numero_documento.ilike.${term}`,
+            `email.ilike.${term}`,
+            // telefonos es text[]: se busca en su representación como texto
+            `telefonos_texto.ilike.${term}`,
+          ].join(",")
+        );
+      }
+
+      const { data, error } = await req;
+      if (error) throw new Error(error.message);
+      return (data ?? []) as Customer[];
+    },
+
+    async getById(id: string) {
+      const { data, error } = await supabase.from(TABLE).select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as Customer | null) ?? null;
+    },
+
+    async findByDocument(tipo: DianTipoDocumento, numero: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .eq("tipo_documento", tipo)
+        .eq("numero_documento", numero)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as Customer | null) ?? null;
+    },
+
+    async findByPhone(phone: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .contains("telefonos", [phone])
+        .order("created_at", { ascending: true })
+        .limit(1);
+      if (error) throw new Error(error.message);
+      return ((data ?? [])[0] as Customer | undefined) ?? null;
+    },
+
+    async create(input: CustomerPayload) {
+      const { data, error } = await supabase.from(TABLE).insert(input).select("*").single();
+      if (error) throw new Error(error.message);
+      return data as Customer;
+    },
+
+    async update(id: string, input: Partial<CustomerPayload>) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update(input)
+        .eq("id", id)
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return data as Customer;
+    },
+
+    async delete(id: string) {
+      const { data, error } = await supabase.from(TABLE).delete().eq("id", id).select("id");
+      if (error) throw new Error(error.message);
+      return (data ?? []).length > 0;
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ElectronicInvoiceInput,
+  ElectronicInvoiceRepository,
+  ElectronicInvoiceUpdate,
+} from "./electronicInvoiceRepository";
+import type { ElectronicInvoice } from "../schemas/einvoice";
+
+const TABLE = "electronic_invoices";
+
+/**
+ * Implementación sobre Supabase. El consecutivo se reserva con la función
+ * `next_invoice_number` (ver supabase/migrations), que bloquea la fila del
+ * prefijo y reutiliza primero los números de `invoice_number_releases`.
+ */
+export function createSupabaseElectronicInvoiceRepository(
+  supabase: SupabaseClient
+): ElectronicInvoiceRepository {
+  return {
+    async getByServiceCode(serviceCode: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .eq("service_code", serviceCode)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as ElectronicInvoice | null) ?? null;
+    },
+
+    async nextNumber(prefijo: string, desde: number, hasta: number) {
+      const { data, error } = await supabase.rpc("next_invoice_number", {
+        p_prefijo: prefijo,
+        p_desde: desde,
+        p_hasta: hasta,
+      });
+      if (error) throw new Error(error.message);
+      return Number(data);
+    },
+
+    async releaseNumber(prefijo: string, numero: number) {
+      const { error } = await supabase
+        .from("invoice_number_releases")
+        .upsert({ prefijo, numero }, { onConflict: "prefijo,numero", ignoreDuplicates: true });
+      if (error) throw new Error(error.message);
+    },
+
+    async reserve(input: ElectronicInvoiceInput) {
+      // on conflict (service_code) do nothing: dos emisiones simultáneas no duplican la factura
+      const { data, error } = await supabase
+        .from(TABLE)
+        .upsert(input, { onConflict: "service_code", ignoreDuplicates: true })
+        .select("*")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as ElectronicInvoice | null) ?? null;
+    },
+
+    async update(id: string, patch: ElectronicInvoiceUpdate) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update(patch)
+        .eq("id", id)
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return data as ElectronicInvoice;
+    },
+
+    async remove(id: string) {
+      const { error } = await supabase.from(TABLE).delete().eq("id", id);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
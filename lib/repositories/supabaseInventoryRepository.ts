@@ -0,0 +1,64 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { InventoryRepository } from "./inventoryRepository";
+import { sortByMaterial } from "../schemas/metal";
+import type {
+  InventoryMovement,
+  InventoryMovementInput,
+  InventoryMovementListQuery,
+  StockRow,
+} from "../schemas/inventory";
+
+const TABLE = "inventory_movements";
+const STOCK_VIEW = "inventory_stock";
+
+/** Error de `add_inventory_movements` cuando una salida supera la existencia */
+const INSUFFICIENT_STOCK_ERROR = "inventario_insuficiente";
+
+/**
+ * Implementación de InventoryRepository sobre Supabase
+ * (tabla `inventory_movements` y vista `inventory_stock`). Los movimientos se
+ * insertan con la función `add_inventory_movements`, que bloquea el material
+ * y almacén y verifica la existencia en la misma transacción.
+ */
+export function createSupabaseInventoryRepository(supabase: SupabaseClient): InventoryRepository {
+  return {
+    async listMovements(query: InventoryMovementListQuery) {
+      let req = supabase
+        .from(TABLE)
+        .select("*")
+        .order("created_at", { ascending: false })
+        .range(query.offset, query.offset + query.limit - 1);
+
+      if (query.material) req = req.eq("material", query.material);
+      if (query.almacen) req = req.eq("almacen", query.almacen);
+      if (query.tipo) req = req.eq("tipo", query.tipo);
+      if (query.serviceCode) req = req.eq("service_code", query.serviceCode);
+
+      const { data, error } = await req;
+      if (error) throw new Error(error.message);
+      return (data ?? []) as InventoryMovement[];
+    },
+
+    async addMovements(rows: InventoryMovementInput[]) {
+      if (!rows.length) return { ok: true as const, movimientos: [] };
+      // Una transacción: las filas de un traslado se guardan juntas o ninguna
+      const { data, error } = await supabase.rpc("add_inventory_movements", { p_rows: rows });
+      if (error) {
+        if (error.message === INSUFFICIENT_STOCK_ERROR && error.details) {
+          const row = JSON.parse(error.details) as StockRow;
+          return { ok: false as const, insuficiente: { ...row, gramos: Number(row.gramos) } };
+        }
+        throw new Error(error.message);
+      }
+      return { ok: true as const, movimientos: (data ?? []) as InventoryMovement[] };
+    },
+
+    async stock() {
+      const { data, error } = await supabase.from(STOCK_VIEW).select("*").order("almacen");
+      if (error) throw new Error(error.message);
+      return sortByMaterial(
+        ((data ?? []) as StockRow[]).map((row) => ({ ...row, gramos: Number(row.gramos) }))
+      );
+    },
+  };
+}
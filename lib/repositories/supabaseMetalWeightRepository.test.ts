@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createSupabaseMetalWeightRepository } from "./supabaseMetalWeightRepository";
+import type { MetalWeightEntry } from "../schemas/metal";
+import { createMigratedDatabase, insertService, rpcClient, type TestDatabase } from "../../tests/database";
+
+const entry = (overrides: Partial<MetalWeightEntry> = {}): MetalWeightEntry => ({
+  material: "Oro 18k",
+  recibido_g: 5,
+  taller_g: 2,
+  final_g: 6,
+  merma_g: 0.5,
+  ...overrides,
+});
+
+// replace_service_metal_weights en Postgres (PGlite con las migraciones)
+describe("createSupabaseMetalWeightRepository", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await createMigratedDatabase();
+    await insertService(db, "SRV-0001", { almacen: "centro " });
+    await db.query(
+      "insert into inventory_movements (material, almacen, tipo, gramos) values ('Oro 18k', 'Centro', 'compra', 10)"
+    );
+  }, 60_000);
+
+  afterAll(() => db.close());
+
+  const repository = () => createSupabaseMetalWeightRepository(rpcClient(db));
+  const stock = async () =>
+    (await db.query<{ material: string; almacen: string; gramos: string }>("select * from inventory_stock")).rows.map(
+      (row) => ({ ...row, gramos: Number(row.gramos) })
+    );
+
+  it("guarda los pesos y descuenta el metal del taller del almacén del servicio", async () => {
+    const result = await repository().replaceForService("SRV-0001", [entry()], "ana");
+
+    expect(result.antes).toEqual([]);
+    expect(result.despues).toMatchObject([{ material: "Oro 18k", taller_g: 2, updated_by: "ana" }]);
+    expect(result.movimientos).toMatchObject([
+      { material: "Oro 18k", almacen: "Centro", tipo: "consumo", gramos: -2, service_code: "SRV-0001" },
+    ]);
+    expect(await stock()).toEqual([{ material: "Oro 18k", almacen: "Centro", gramos: 8 }]);
+  });
+
+  it("descuenta solo la diferencia y devuelve el metal que se quita", async () => {
+    const more = await repository().replaceForService(
+      "SRV-0001",
+      [entry({ taller_g: 5 }), entry({ material: "Plata 925", recibido_g: 0, taller_g: 1, final_g: 1, merma_g: 0 })],
+      "ana"
+    );
+    expect(more.antes).toMatchObject([{ material: "Oro 18k", taller_g: 2 }]);
+    expect(more.movimientos.map((m) => [m.material, Number(m.gramos), m.sobregiro])).toEqual([
+      ["Oro 18k", -3, false],
+      ["Plata 925", -1, true],
+    ]);
+
+    const removed = await repository().replaceForService("SRV-0001", [entry({ taller_g: 5 })], "ana");
+    expect(removed.despues).toHaveLength(1);
+    expect(removed.movimientos).toMatchObject([
+      { material: "Plata 925", gramos: 1, nota: expect.stringMatching(/^Devolución/) },
+    ]);
+    expect(await stock()).toEqual(
+      expect.arrayContaining([
+        { material: "Oro 18k", almacen: "Centro", gramos: 5 },
+        { material: "Plata 925", almacen: "Centro", gramos: 0 },
+      ])
+    );
+  });
+
+  it("si los pesos no cuadran no cambian ni los pesos ni el inventario", async () => {
+    await expect(
+      repository().replaceForService("SRV-0001", [entry({ taller_g: 0, final_g: 50 })], "ana")
+    ).rejects.toThrow(/service_metal_weights_balance_check/);
+
+    const { rows } = await db.query<{ taller_g: string }>(
+      "select taller_g from service_metal_weights where service_code = 'SRV-0001'"
+    );
+    expect(rows.map((r) => Number(r.taller_g))).toEqual([5]);
+    expect(await stock()).toEqual(expect.arrayContaining([{ material: "Oro 18k", almacen: "Centro", gramos: 5 }]));
+  });
+
+  it("rechaza un servicio que no existe", async () => {
+    await expect(repository().replaceForService("SRV-9999", [entry()], "ana")).rejects.toThrow(/no existe/);
+  });
+});
@@ -0,0 +1,36 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MetalWeightReplacement, MetalWeightRepository } from "./metalWeightRepository";
+import type { InventoryMovement } from "../schemas/inventory";
+import { sortByMaterial, type MetalWeight, type MetalWeightEntry } from "../schemas/metal";
+
+const TABLE = "service_metal_weights";
+
+/**
+ * Implementación de MetalWeightRepository sobre Supabase (tabla `service_metal_weights`).
+ * El reemplazo usa la función `replace_service_metal_weights`: bloquea el
+ * servicio, reemplaza los pesos y registra el consumo en una sola transacción.
+ */
+export function createSupabaseMetalWeightRepository(supabase: SupabaseClient): MetalWeightRepository {
+  return {
+    async listByService(serviceCode: string) {
+      const { data, error } = await supabase.from(TABLE).select("*").eq("service_code", serviceCode);
+      if (error) throw new Error(error.message);
+      return sortByMaterial((data ?? []) as MetalWeight[]);
+    },
+
+    async replaceForService(serviceCode: string, entries: MetalWeightEntry[], updatedBy: string) {
+      const { data, error } = await supabase.rpc("replace_service_metal_weights", {
+        p_service_code: serviceCode,
+        p_rows: entries,
+        p_updated_by: updatedBy,
+      });
+      if (error) throw new Error(error.message);
+      const result = data as Record<keyof MetalWeightReplacement, unknown[] | null>;
+      return {
+        antes: sortByMaterial((result.antes ?? []) as MetalWeight[]),
+        despues: sortByMaterial((result.despues ?? []) as MetalWeight[]),
+        movimientos: (result.movimientos ?? []) as InventoryMovement[],
+      };
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NotificationRepository } from "./notificationRepository";
+import type { NotificationLogEntry, NotificationLogInput } from "../schemas/notification";
+
+const TABLE = "notification_log";
+
+/**
+ * Implementación de NotificationRepository sobre Supabase (tabla `notification_log`).
+ */
+export function createSupabaseNotificationRepository(
+  supabase: SupabaseClient
+): NotificationRepository {
+  return {
+    async listByService(serviceCode: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .eq("service_code", serviceCode)
+        .order("created_at", { ascending: false });
+      if (error) throw new Error(error.message);
+      return (data ?? []) as NotificationLogEntry[];
+    },
+
+    async append(entry: NotificationLogInput) {
+      const { data, error } = await supabase.from(TABLE).insert(entry).select("*").single();
+      if (error) throw new Error(error.message);
+      return data as NotificationLogEntry;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PaymentRepository } from "./paymentRepository";
+import type { Payment, PaymentPayload } from "../schemas/payment";
+
+const TABLE = "service_payments";
+
+/**
+ * Implementación de PaymentRepository sobre Supabase (tabla `service_payments`).
+ */
+export function createSupabasePaymentRepository(supabase: SupabaseClient): PaymentRepository {
+  return {
+    async listByService(serviceCode: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .eq("service_code", serviceCode)
+        .order("fecha", { ascending: true })
+        .order("created_at", { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data ?? []) as Payment[];
+    },
+
+    async create(serviceCode: string, input: PaymentPayload) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .insert({ ...input, service_code: serviceCode })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return data as Payment;
+    },
+
+    async delete(serviceCode: string, id: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .delete()
+        .eq("service_code", serviceCode)
+        .eq("id", id)
+        .select("id");
+      if (error) throw new Error(error.message);
+      return (data ?? []).length > 0;
+    },
+
+    async totalsByService(serviceCodes: string[]) {
+      const totals: Record<string, number> = {};
+      if (!serviceCodes.length) return totals;
+
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("service_code, monto")
+        .in("service_code", serviceCodes);
+      if (error) throw new Error(error.message);
+
+      for (const row of (data ?? []) as Pick<Payment, "service_code" | "monto">[]) {
+        totals[row.service_code] = (totals[row.service_code] ?? 0) + Number(row.monto ?? 0);
+      }
+      return totals;
+    },
+  };
+}
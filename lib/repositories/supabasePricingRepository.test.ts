@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createSupabasePricingRepository } from "./supabasePricingRepository";
+import type { LaborRateEntry } from "../schemas/pricing";
+import { createMigratedDatabase, rpcClient, type TestDatabase } from "../../tests/database";
+
+const rate = (overrides: Partial<LaborRateEntry> = {}): LaborRateEntry => ({
+  tipo: "trabajo",
+  nombre: "Soldadura",
+  valor: 40_000,
+  garantia_dias: null,
+  ...overrides,
+});
+
+// replace_labor_rates en Postgres (PGlite con las migraciones)
+describe("createSupabasePricingRepository.replaceLaborRates", () => {
+  let db: TestDatabase;
+
+  beforeAll(async () => {
+    db = await createMigratedDatabase();
+  }, 60_000);
+
+  afterAll(() => db.close());
+
+  const repository = () => createSupabasePricingRepository(rpcClient(db));
+  const stored = async () =>
+    (await db.query<{ nombre: string; valor: string }>("select nombre, valor from labor_rates order by nombre")).rows.map(
+      (r) => [r.nombre, Number(r.valor)]
+    );
+
+  it("actualiza las que traen id, inserta las nuevas y borra las que faltan", async () => {
+    const first = await repository().replaceLaborRates([
+      rate(),
+      rate({ nombre: "Pulido", valor: 15_000 }),
+      rate({ tipo: "engaste", nombre: "Grapa", valor: 8_000 }),
+    ]);
+    expect(first).toHaveLength(3);
+
+    const soldadura = first.find((r) => r.nombre === "Soldadura")!;
+    const grapa = first.find((r) => r.nombre === "Grapa")!;
+    const second = await repository().replaceLaborRates([
+      { ...rate({ valor: 45_000, garantia_dias: 30 }), id: soldadura.id },
+      { ...rate({ tipo: "engaste", nombre: "Grapa", valor: 8_000 }), id: grapa.id },
+      rate({ nombre: "Rodio", valor: 60_000 }),
+    ]);
+
+    expect(second.find((r) => r.nombre === "Soldadura")).toMatchObject({ id: soldadura.id, garantia_dias: 30 });
+    expect(await stored()).toEqual([
+      ["Grapa", 8_000],
+      ["Rodio", 60_000],
+      ["Soldadura", 45_000],
+    ]);
+  });
+
+  it("si una tarifa falla quedan las anteriores", async () => {
+    const before = await stored();
+    await expect(
+      repository().replaceLaborRates([rate({ nombre: "Nueva", valor: 10_000 }), rate({ nombre: "Inválida", valor: 0 })])
+    ).rejects.toThrow(/labor_rates_valor_check/);
+    expect(await stored()).toEqual(before);
+  });
+});
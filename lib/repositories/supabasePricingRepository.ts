@@ -0,0 +1,81 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PricingRepository } from "./pricingRepository";
+import { sortByMaterial } from "../schemas/metal";
+import { SERVICE_MATERIALES } from "../schemas/service";
+import {
+  sortLaborRates,
+  type LaborRate,
+  type LaborRateEntry,
+  type MetalPrice,
+  type MetalPriceEntry,
+} from "../schemas/pricing";
+
+const PRICES_TABLE = "metal_prices";
+const RATES_TABLE = "labor_rates";
+
+/**
+ * Implementación de PricingRepository sobre Supabase
+ * (tablas `metal_prices` y `labor_rates`). El reemplazo de tarifas usa la
+ * función `replace_labor_rates`: borra, actualiza e inserta en una sola transacción.
+ */
+export function createSupabasePricingRepository(supabase: SupabaseClient): PricingRepository {
+  async function listLaborRates() {
+    const { data, error } = await supabase.from(RATES_TABLE).select("id, tipo, nombre, valor, garantia_dias");
+    if (error) throw new Error(error.message);
+    return sortLaborRates((data ?? []) as LaborRate[]);
+  }
+
+  return {
+    async currentMetalPrices(fecha: string) {
+      // Un material a la vez: el último precio vigente de cada uno
+      const results = await Promise.all(
+        SERVICE_MATERIALES.map((material) =>
+          supabase
+            .from(PRICES_TABLE)
+            .select("*")
+            .eq("material", material)
+            .lte("fecha", fecha)
+            .order("fecha", { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        )
+      );
+
+      const prices: MetalPrice[] = [];
+      for (const { data, error } of results) {
+        if (error) throw new Error(error.message);
+        if (data) prices.push(data as MetalPrice);
+      }
+      return sortByMaterial(prices);
+    },
+
+    async saveMetalPrices(fecha: string, entries: MetalPriceEntry[], updatedBy: string) {
+      const updated_at = new Date().toISOString();
+      const { data, error } = await supabase
+        .from(PRICES_TABLE)
+        .upsert(
+          entries.map((e) => ({ ...e, fecha, updated_by: updatedBy, updated_at })),
+          { onConflict: "fecha,material" }
+        )
+        .select("*");
+      if (error) throw new Error(error.message);
+      return sortByMaterial((data ?? []) as MetalPrice[]);
+    },
+
+    listLaborRates,
+
+    async replaceLaborRates(entries: LaborRateEntry[]) {
+      const { data, error } = await supabase.rpc("replace_labor_rates", {
+        p_rows: entries.map((e) => ({
+          id: e.id ?? null,
+          tipo: e.tipo,
+          nombre: e.nombre,
+          valor: e.valor,
+          garantia_dias: e.garantia_dias,
+        })),
+      });
+      if (error) throw new Error(error.message);
+      return sortLaborRates((data ?? []) as LaborRate[]);
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { SequenceRepository } from "./sequenceRepository";
+
+/**
+ * Implementación de SequenceRepository sobre Supabase: la función
+ * `next_code_sequence` incrementa la fila del ámbito con bloqueo.
+ */
+export function createSupabaseSequenceRepository(supabase: SupabaseClient): SequenceRepository {
+  return {
+    async next(scope: string) {
+      const { data, error } = await supabase.rpc("next_code_sequence", { p_scope: scope });
+      if (error) throw new Error(error.message);
+      return Number(data);
+    },
+  };
+}
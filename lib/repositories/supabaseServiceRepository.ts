@@ -0,0 +1,184 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ServiceCreateInput,
+  ServiceInput,
+  ServiceRepository,
+  TrashQuery,
+} from "./serviceRepository";
+import type { Service, ServiceListQuery } from "../schemas/service";
+
+const TABLE = "services";
+
+/**
+ * Implementación de ServiceRepository sobre Supabase (tabla `services`).
+ * Los errores de Supabase se lanzan como `Error`
+ * para que la ruta los maneje con handleError().
+ */
+export function createSupabaseServiceRepository(supabase: SupabaseClient): ServiceRepository {
+  return {
+    async list(query: ServiceListQuery) {
+      let req = supabase
+        .from(TABLE)
+        .select("*")
+        .is("deleted_at", null)
+        .order(query.orderField, { ascending: query.ascending, nullsFirst: false })
+        .range(query.offset, query.offset + query.limit - 1);
+
+      // Filtros exactos
+      if (query.customerId) req = req.eq("customer_id", query.customerId);
+      if (query.garantiaDe) req = req.eq("garantia_de", query.garantiaDe);
+      if (query.estado) req = req.eq("estado", query.estado);
+      if (query.maquina) req = req.eq("maquina", query.maquina);
+      if (query.prioridad) req = req.eq("prioridad", query.prioridad);
+      if (query.agente) req = req.eq("agente", query.agente);
+      if (query.almacen) req = req.eq("almacen", query.almacen);
+
+      // Rango por fecha
+      if (query.desde) req = req.gte("fecha", query.desde);
+      if (query.hasta) req = req.lte("fecha", query.hasta);
+
+      // Rango por abono / costo_final
+      if (query.abonoMin !== undefined) req = req.gte("abono", query.abonoMin);
+      if (query.abonoMax !== undefined) req = req.lte("abono", query.abonoMax);
+      if (query.costoFinalMin !== undefined) req = req.gte("costo_final", query.costoFinalMin);
+      if (query.costoFinalMax !== undefined) req = req.lte("costo_final", query.costoFinalMax);
+
+      // Estado pagado / pendiente (boolean)
+      if (query.abonoPagado !== undefined) req = req.eq("abono_pagado", query.abonoPagado);
+      if (query.costoFinalPagado !== undefined) {
+        req = req.eq("costo_final_pagado", query.costoFinalPagado);
+      }
+
+      // Vencidos: no entregados con la fecha de entrega en el pasado
+      if (query.vencidos) {
+        req = req.neq("estado", "Entregado").lt("fecha_entrega", new Date().toISOString());
+      }
+
+      // Búsqueda libre en múltiples campos (OR con ilike)
+      if (query.q) {
+        const term = `%${query.q}%`;
+        req = req.or(
+          [
+            `code.ilike.${term}`,
+            `cliente.ilike.${term}`,
+            `telefono.ilike.${term}`,
+            `maquina.ilike.${term}`,
+            `descripcion.ilike.${term}`,
+            `material.ilike.${term}`,
+            `agente.ilike.${term}`,
+            `almacen.ilike.${term}`,
+          ].join(",")
+        );
+      }
+
+      const { data, error } = await req;
+      if (error) throw new Error(error.message);
+      return (data ?? []) as Service[];
+    },
+
+    async getByCode(code: string) {
+      // 1) exact match
+      const exact = await supabase
+        .from(TABLE)
+        .select("*")
+        .is("deleted_at", null)
+        .eq("code", code)
+        .maybeSingle();
+      if (exact.error) throw new Error(exact.error.message);
+      if (exact.data) return exact.data as Service;
+
+      // 2) fallback ilike
+      const fallback = await supabase
+        .from(TABLE)
+        .select("*")
+        .is("deleted_at", null)
+        .ilike("code", code)
+        .maybeSingle();
+      if (fallback.error) throw new Error(fallback.error.message);
+      return (fallback.data ?? null) as Service | null;
+    },
+
+    async create(input: ServiceCreateInput) {
+      const { data, error } = await supabase.from(TABLE).insert(input).select("*").single();
+      if (error) throw new Error(error.message);
+      return data as Service;
+    },
+
+    async update(code: string, input: Partial<ServiceInput>) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update(input)
+        .eq("code", code)
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return data as Service;
+    },
+
+    async assignInvoiceNumber(code: string, numero: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update({ factura_numero: numero })
+        .eq("code", code)
+        .is("factura_numero", null)
+        .select("factura_numero");
+      if (error) throw new Error(error.message);
+      if (data?.length) return numero;
+
+      // Otra impresión lo asignó primero
+      const current = await supabase.from(TABLE).select("factura_numero").eq("code", code).single();
+      if (current.error) throw new Error(current.error.message);
+      const stored = (current.data as Pick<Service, "factura_numero">).factura_numero;
+      if (!stored) throw new Error(`No se pudo asignar el número de factura de ${code}`);
+      return stored;
+    },
+
+    async softDeleteMany(codes: string[], deletedBy: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update({ deleted_at: new Date().toISOString(), deleted_by: deletedBy })
+        .in("code", codes)
+        .is("deleted_at", null)
+        .select("*");
+      if (error) throw new Error(error.message);
+      return (data ?? []) as Service[];
+    },
+
+    async restoreMany(codes: string[]) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .update({ deleted_at: null, deleted_by: null })
+        .in("code", codes)
+        .not("deleted_at", "is", null)
+        .select("*");
+      if (error) throw new Error(error.message);
+      return (data ?? []) as Service[];
+    },
+
+    async listDeleted(query: TrashQuery) {
+      let req = supabase
+        .from(TABLE)
+        .select("*")
+        .not("deleted_at", "is", null)
+        .order("deleted_at", { ascending: false })
+        .range(query.offset, query.offset + query.limit - 1);
+      if (query.codes) req = req.in("code", query.codes);
+      if (query.deletedBefore) req = req.lt("deleted_at", query.deletedBefore);
+
+      const { data, error } = await req;
+      if (error) throw new Error(error.message);
+      return (data ?? []) as Service[];
+    },
+
+    async deleteMany(codes: string[]) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .delete()
+        .in("code", codes)
+        .not("deleted_at", "is", null)
+        .select("code");
+      if (error) throw new Error(error.message);
+      return ((data ?? []) as Pick<Service, "code">[]).map((r) => r.code);
+    },
+  };
+}
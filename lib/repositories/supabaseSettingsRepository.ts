@@ -0,0 +1,54 @@
+import crypto from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CompanySettingsInput, LogoUpload, SettingsRepository } from "./settingsRepository";
+import type { CompanySettings } from "../schemas/settings";
+
+const TABLE = "company_settings";
+const BRANDING_BUCKET = "branding";
+/** La tabla tiene una sola fila */
+const ROW_ID = 1;
+const COLUMNS =
+  "razon_social, nombre_comercial, nit, direcciones, telefonos, redes, email, logo_path, pie_legal, terminos_factura, garantia_dias, terminos_garantia, updated_at";
+
+/**
+ * Implementación de SettingsRepository sobre Supabase
+ * (tabla `company_settings` y bucket privado `branding`).
+ */
+export function createSupabaseSettingsRepository(supabase: SupabaseClient): SettingsRepository {
+  return {
+    async get() {
+      const { data, error } = await supabase.from(TABLE).select(COLUMNS).eq("id", ROW_ID).maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data as CompanySettings | null) ?? null;
+    },
+
+    async save(input: CompanySettingsInput) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .upsert({ ...input, id: ROW_ID, updated_at: new Date().toISOString() }, { onConflict: "id" })
+        .select(COLUMNS)
+        .single();
+      if (error) throw new Error(error.message);
+      return data as CompanySettings;
+    },
+
+    async uploadLogo(file: LogoUpload) {
+      const path = `logo/${crypto.randomUUID()}.${file.ext}`;
+      const { error } = await supabase.storage.from(BRANDING_BUCKET).upload(path, file.bytes, {
+        contentType: file.contentType,
+        upsert: false,
+      });
+      if (error) throw new Error(error.message);
+      return path;
+    },
+
+    async readLogo(path: string) {
+      const { data, error } = await supabase.storage.from(BRANDING_BUCKET).download(path);
+      if (error || !data) return null;
+      return {
+        bytes: new Uint8Array(await data.arrayBuffer()),
+        contentType: data.type || "application/octet-stream",
+      };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StatusHistoryInput, StatusHistoryRepository } from "./statusHistoryRepository";
+import type { StatusHistoryEntry } from "../schemas/status";
+
+const TABLE = "service_status_history";
+
+/**
+ * Implementación de StatusHistoryRepository sobre Supabase (tabla `service_status_history`).
+ */
+export function createSupabaseStatusHistoryRepository(
+  supabase: SupabaseClient
+): StatusHistoryRepository {
+  return {
+    async listByService(serviceCode: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .eq("service_code", serviceCode)
+        .order("created_at", { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data ?? []) as StatusHistoryEntry[];
+    },
+
+    async create(serviceCode: string, input: StatusHistoryInput) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .insert({ ...input, service_code: serviceCode })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return data as StatusHistoryEntry;
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { UserRoleRepository } from "./userRoleRepository";
+import type { Role, UserRole } from "../schemas/role";
+
+const TABLE = "user_roles";
+
+/**
+ * Implementación de UserRoleRepository sobre Supabase (tabla `user_roles`).
+ */
+export function createSupabaseUserRoleRepository(supabase: SupabaseClient): UserRoleRepository {
+  return {
+    async getRole(userId: string) {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("role")
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return (data?.role as Role | undefined) ?? null;
+    },
+
+    async list() {
+      const { data, error } = await supabase
+        .from(TABLE)
+        .select("*")
+        .order("email", { ascending: true, nullsFirst: false });
+      if (error) throw new Error(error.message);
+      return (data ?? []) as UserRole[];
+    },
+
+    async setRole(userId: string, role: Role, email?: string | null) {
+      const row: Record<string, unknown> = { user_id: userId, role, updated_at: new Date().toISOString() };
+      if (email !== undefined) row.email = email;
+
+      const { data, error } = await supabase
+        .from(TABLE)
+        .upsert(row, { onConflict: "user_id" })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return data as UserRole;
+    },
+  };
+}
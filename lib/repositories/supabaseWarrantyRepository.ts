@@ -0,0 +1,36 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { WarrantyRepository } from "./warrantyRepository";
+import type { ServiceWarranty, WarrantyInput } from "../schemas/warranty";
+
+const TABLE = "service_warranties";
+
+/**
+ * Implementación de WarrantyRepository sobre Supabase (tabla `service_warranties`).
+ */
+export function createSupabaseWarrantyRepository(supabase: SupabaseClient): WarrantyRepository {
+  async function getByServiceCode(serviceCode: string) {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select("*")
+      .eq("service_code", serviceCode)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return (data as ServiceWarranty | null) ?? null;
+  }
+
+  return {
+    getByServiceCode,
+
+    async create(input: WarrantyInput) {
+      // Dos entregas simultáneas: gana la primera y la otra lee la que quedó
+      const { error } = await supabase
+        .from(TABLE)
+        .upsert(input, { onConflict: "service_code", ignoreDuplicates: true });
+      if (error) throw new Error(error.message);
+
+      const saved = await getByServiceCode(input.service_code);
+      if (!saved) throw new Error(`No se pudo registrar la garantía de ${input.service_code}`);
+      return saved;
+    },
+  };
+}
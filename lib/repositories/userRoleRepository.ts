@@ -0,0 +1,13 @@
+import type { Role, UserRole } from "../schemas/role";
+
+/**
+ * Acceso a datos de los roles de los empleados (`user_roles`).
+ */
+export interface UserRoleRepository {
+  /** Rol asignado al usuario, o null si no tiene fila */
+  getRole(userId: string): Promise<Role | null>;
+  /** Usuarios con rol asignado, ordenados por correo */
+  list(): Promise<UserRole[]>;
+  /** Asigna (o crea) el rol del usuario */
+  setRole(userId: string, role: Role, email?: string | null): Promise<UserRole>;
+}
@@ -0,0 +1,10 @@
+import type { ServiceWarranty, WarrantyInput } from "../schemas/warranty";
+
+/**
+ * Garantías de los servicios entregados (`service_warranties`, una por servicio).
+ */
+export interface WarrantyRepository {
+  getByServiceCode(serviceCode: string): Promise<ServiceWarranty | null>;
+  /** Registra la garantía; si el servicio ya tiene una, devuelve la existente sin cambiarla */
+  create(input: WarrantyInput): Promise<ServiceWarranty>;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  FIELD_ADMIN_AFTER_DELIVERY_MESSAGE,
+  FIELD_NOT_ALLOWED_MESSAGE,
+  changedServiceFields,
+  componentsLock,
+  hasPermission,
+  metalWeightsLock,
+  permissionsOf,
+  serviceFieldLock,
+  serviceFieldLockErrors,
+} from "./permissions";
+import { serviceFixture } from "../../tests/fixtures";
+
+const enFabricacion = { estado: "En fabricación" } as const;
+const entregado = { estado: "Entregado" } as const;
+
+describe("matriz de permisos", () => {
+  it("consulta solo puede ver", () => {
+    expect(permissionsOf("consulta")).toEqual(["servicios.ver", "clientes.ver"]);
+  });
+
+  it("el administrador tiene todos los permisos", () => {
+    expect(hasPermission("admin", "usuarios.gestionar")).toBe(true);
+    expect(hasPermission("vendedor", "usuarios.gestionar")).toBe(false);
+    expect(hasPermission("taller", "pagos.registrar")).toBe(false);
+  });
+});
+
+describe("bloqueos por campo del servicio", () => {
+  it("el taller solo completa los datos de fabricación", () => {
+    expect(serviceFieldLock("taller", enFabricacion, "descripcion")).toBeNull();
+    expect(serviceFieldLock("taller", enFabricacion, "cliente")).toBe(FIELD_NOT_ALLOWED_MESSAGE);
+    expect(serviceFieldLock("taller", enFabricacion, "costo_final")).toBe(FIELD_NOT_ALLOWED_MESSAGE);
+  });
+
+  it("consulta no modifica ningún campo", () => {
+    expect(serviceFieldLock("consulta", enFabricacion, "descripcion")).toBe(FIELD_NOT_ALLOWED_MESSAGE);
+    expect(metalWeightsLock("consulta", enFabricacion)).toBe(FIELD_NOT_ALLOWED_MESSAGE);
+  });
+
+  it("después de la entrega los montos solo los cambia un administrador", () => {
+    expect(serviceFieldLock("vendedor", enFabricacion, "costo_final")).toBeNull();
+    expect(serviceFieldLock("vendedor", entregado, "costo_final")).toBe(FIELD_ADMIN_AFTER_DELIVERY_MESSAGE);
+    expect(serviceFieldLock("vendedor", entregado, "abono")).toBe(FIELD_ADMIN_AFTER_DELIVERY_MESSAGE);
+    expect(serviceFieldLock("vendedor", entregado, "telefono")).toBeNull();
+    expect(serviceFieldLock("admin", entregado, "costo_final")).toBeNull();
+  });
+
+  it("piedras y componentes siguen las reglas del costo final", () => {
+    expect(componentsLock("vendedor", entregado)).toBe(FIELD_ADMIN_AFTER_DELIVERY_MESSAGE);
+    expect(componentsLock("taller", enFabricacion)).toBe(FIELD_NOT_ALLOWED_MESSAGE);
+    expect(componentsLock("admin", entregado)).toBeNull();
+  });
+
+  it("el taller registra pesos hasta la entrega; después solo el administrador", () => {
+    expect(metalWeightsLock("taller", enFabricacion)).toBeNull();
+    expect(metalWeightsLock("taller", entregado)).toBe(FIELD_ADMIN_AFTER_DELIVERY_MESSAGE);
+    expect(metalWeightsLock("vendedor", entregado)).toBe(FIELD_ADMIN_AFTER_DELIVERY_MESSAGE);
+    expect(metalWeightsLock("admin", entregado)).toBeNull();
+  });
+});
+
+describe("campos que cambia el PUT", () => {
+  const existing = serviceFixture({ hora: "10:00:00", costo_final: 100_000 });
+
+  it("los valores iguales al guardado no cuentan como cambio", () => {
+    expect(
+      changedServiceFields(existing, { cliente: existing.cliente, hora: "10:00", costo_final: 100_000 })
+    ).toEqual([]);
+    expect(changedServiceFields(existing, { cliente: "Ana María Gómez", costo_final: 120_000 })).toEqual([
+      "cliente",
+      "costo_final",
+    ]);
+  });
+
+  it("errores por campo solo para los cambios bloqueados", () => {
+    expect(serviceFieldLockErrors("taller", enFabricacion, ["descripcion", "cliente"])).toEqual({
+      cliente: FIELD_NOT_ALLOWED_MESSAGE,
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import type { Role } from "../schemas/role";
+import type { Service, ServiceFields } from "../schemas/service";
+import type { FieldErrors } from "../schemas/fieldErrors";
+
+/**
+ * Matriz de permisos por rol.
+ *
+ * Las rutas API la aplican con `requirePermission` (app/api/middleware/auth)
+ * y la UI la usa para ocultar las acciones que el usuario no puede hacer
+ * (lib/hooks/usePermissions). Módulo sin dependencias de servidor.
+ */
+
+const TODOS: readonly Role[] = ["admin", "vendedor", "taller", "consulta"];
+
+export const PERMISSIONS = {
+  "servicios.ver": TODOS,
+  "servicios.crear": ["admin", "vendedor"],
+  "servicios.editar": ["admin", "vendedor", "taller"],
+  "servicios.eliminar": ["admin"],
+  "papelera.gestionar": ["admin"],
+  "estados.cambiar": ["admin", "vendedor", "taller"],
+  "pagos.registrar": ["admin", "vendedor"],
+  "pagos.eliminar": ["admin"],
+  "facturas.imprimir": ["admin", "vendedor"],
+  "ordenes.imprimir": ["admin", "vendedor", "taller"],
+  "retiros.gestionar": ["admin", "vendedor"],
+  "facturas.emitir": ["admin", "vendedor"],
+  "adjuntos.subir": ["admin", "vendedor", "taller"],
+  "adjuntos.eliminar": ["admin", "vendedor"],
+  "clientes.ver": TODOS,
+  "clientes.editar": ["admin", "vendedor"],
+  "clientes.eliminar": ["admin"],
+  "auditoria.ver": ["admin"],
+  "usuarios.gestionar": ["admin"],
+  "configuracion.gestionar": ["admin"],
+  "tarifas.gestionar": ["admin"],
+  "inventario.ver": ["admin", "vendedor", "taller"],
+  "inventario.gestionar": ["admin"],
+  "garantias.reclamar": ["admin", "vendedor"],
+} as const satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function rolesWith(permission: Permission): readonly Role[] {
+  return PERMISSIONS[permission];
+}
+
+export function hasPermission(role: Role, permission: Permission) {
+  return rolesWith(permission).includes(role);
+}
+
+/** Permisos del rol (respuesta de /api/me) */
+export function permissionsOf(role: Role): Permission[] {
+  return (Object.keys(PERMISSIONS) as Permission[]).filter((p) => hasPermission(role, p));
+}
+
+/** Campos editables de un servicio (PUT /api/services/[code]) */
+export type ServiceEditableField = keyof ServiceFields;
+
+/** El taller solo completa los datos de fabricación */
+const TALLER_FIELDS: ReadonlySet<ServiceEditableField> = new Set(["maquina", "material", "descripcion"]);
+
+/** Montos que, una vez entregado el servicio, solo cambia un administrador */
+const PRICE_FIELDS: ReadonlySet<ServiceEditableField> = new Set(["abono", "costo_final"]);
+
+export const FIELD_ADMIN_AFTER_DELIVERY_MESSAGE =
+  "Solo un administrador puede modificarlo después de la entrega";
+export const FIELD_NOT_ALLOWED_MESSAGE = "Tu rol no puede modificar este campo";
+
+/**
+ * Motivo por el que `role` no puede modificar `field` del servicio,
+ * o null si puede.
+ */
+export function serviceFieldLock(
+  role: Role,
+  service: Pick<Service, "estado">,
+  field: ServiceEditableField
+): string | null {
+  if (role === "admin") return null;
+  if (!hasPermission(role, "servicios.editar")) return FIELD_NOT_ALLOWED_MESSAGE;
+  if (role === "taller" && !TALLER_FIELDS.has(field)) return FIELD_NOT_ALLOWED_MESSAGE;
+  if (service.estado === "Entregado" && PRICE_FIELDS.has(field)) return FIELD_ADMIN_AFTER_DELIVERY_MESSAGE;
+  return null;
+}
+
+/**
+ * Motivo por el que `role` no puede modificar los pesos de metal del
+ * servicio, o null si puede. Tras la entrega solo los corrige un administrador.
+ */
+export function metalWeightsLock(role: Role, service: Pick<Service, "estado">): string | null {
+  if (role === "admin") return null;
+  if (!hasPermission(role, "servicios.editar")) return FIELD_NOT_ALLOWED_MESSAGE;
+  if (service.estado === "Entregado") return FIELD_ADMIN_AFTER_DELIVERY_MESSAGE;
+  return null;
+}
+
+/**
+ * Motivo por el que `role` no puede modificar las piedras y componentes del
+ * servicio, o null si puede. Tienen precio y se suman al total: mismas
+ * reglas que el costo final.
+ */
+export function componentsLock(role: Role, service: Pick<Service, "estado">): string | null {
+  return serviceFieldLock(role, service, "costo_final");
+}
+
+function comparable(field: string, value: unknown) {
+  const text = String(value ?? "");
+  return field === "hora" ? text.slice(0, 5) : text; // HH:mm y HH:mm:ss son la misma hora
+}
+
+/**
+ * Campos del PUT que realmente cambian el servicio: la UI envía el
+ * formulario completo, así que los valores iguales no cuentan.
+ */
+export function changedServiceFields(
+  existing: Service,
+  changes: Partial<ServiceFields>
+): ServiceEditableField[] {
+  return (Object.keys(changes) as (keyof ServiceFields)[]).filter(
+    (field) => comparable(field, changes[field]) !== comparable(field, existing[field])
+  );
+}
+
+/** Errores por campo para los cambios que el rol no puede hacer */
+export function serviceFieldLockErrors(
+  role: Role,
+  service: Pick<Service, "estado">,
+  fields: ServiceEditableField[]
+): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const field of fields) {
+    const lock = serviceFieldLock(role, service, field);
+    if (lock) errors[field] = lock;
+  }
+  return errors;
+}
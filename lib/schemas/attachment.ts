@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { enumField } from "./fields";
+
+/**
+ * Adjuntos del servicio (cotizaciones, fotos y diseños). Los archivos van en
+ * el bucket `cotizaciones`; la tabla `service_attachments` guarda la ruta y
+ * los datos de cada uno.
+ */
+
+export const ATTACHMENT_CATEGORIAS = ["cotizacion", "foto_ingreso", "foto_entrega", "diseno"] as const;
+export type AttachmentCategoria = (typeof ATTACHMENT_CATEGORIAS)[number];
+
+export const ATTACHMENT_CATEGORIA_LABELS: Record<AttachmentCategoria, string> = {
+  cotizacion: "Cotización",
+  foto_ingreso: "Foto de ingreso",
+  foto_entrega: "Foto de entrega",
+  diseno: "Diseño",
+};
+
+/** Archivos por envío (POST /api/services/[code]/attachments) */
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+
+/** Fila de la tabla `service_attachments` */
+export const serviceAttachmentSchema = z.object({
+  id: z.string(),
+  service_code: z.string(),
+  categoria: z.enum(ATTACHMENT_CATEGORIAS),
+  /** Ruta dentro del bucket: `<año>/<uuid>.<ext>` */
+  path: z.string(),
+  /** Miniatura JPEG de las imágenes: `<año>/<uuid>.thumb.jpg` */
+  thumb_path: z.string().nullable(),
+  /** Nombre original del archivo (con la extensión de su tipo real) */
+  nombre: z.string(),
+  /** Tipo detectado por el contenido (lib/security/fileType) */
+  content_type: z.string(),
+  size: z.number(),
+  created_at: z.string(),
+  created_by: z.string().nullable(),
+});
+
+export type ServiceAttachment = z.infer<typeof serviceAttachmentSchema>;
+
+export type AttachmentInput = Omit<ServiceAttachment, "id" | "created_at">;
+
+/** Campos de texto del POST multipart (los archivos van en `files`) */
+export const attachmentUploadSchema = z.object({
+  categoria: enumField(ATTACHMENT_CATEGORIAS, "Categoría inválida"),
+});
+
+export function isImageAttachment(attachment: Pick<ServiceAttachment, "content_type">) {
+  return attachment.content_type.startsWith("image/");
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import { cleanText, dateString, emptyToUndefined, enumField } from "./fields";
+
+/**
+ * Registro de auditoría (solo inserción): quién hizo qué sobre cada servicio,
+ * con los campos que cambiaron y la IP de origen.
+ */
+
+export const AUDIT_ACCIONES = [
+  "crear",
+  "actualizar",
+  "eliminar",
+  "restaurar",
+  "purgar",
+  "imprimir_factura",
+  "imprimir_orden",
+  "imprimir_tiquete",
+  "verificar_retiro",
+  "verificar_retiro_fallido",
+  "registrar_pago",
+  "eliminar_pago",
+  "cambiar_estado",
+  "emitir_factura_electronica",
+  "subir_adjunto",
+  "eliminar_adjunto",
+] as const;
+
+export type AuditAccion = (typeof AUDIT_ACCIONES)[number];
+
+/** Etiquetas para la UI ("Actividad") */
+export const AUDIT_ACCION_LABELS: Record<AuditAccion, string> = {
+  crear: "Creó el servicio",
+  actualizar: "Actualizó el servicio",
+  eliminar: "Envió el servicio a la papelera",
+  restaurar: "Restauró el servicio",
+  purgar: "Eliminó el servicio definitivamente",
+  imprimir_factura: "Imprimió la factura",
+  imprimir_orden: "Imprimió la orden de trabajo",
+  imprimir_tiquete: "Imprimió el tiquete de retiro",
+  verificar_retiro: "Verificó el retiro (QR o PIN)",
+  verificar_retiro_fallido: "Intentó verificar el retiro con un QR o PIN errado",
+  registrar_pago: "Registró un pago",
+  eliminar_pago: "Eliminó un pago",
+  cambiar_estado: "Cambió el estado",
+  emitir_factura_electronica: "Emitió la factura electrónica",
+  subir_adjunto: "Subió adjuntos",
+  eliminar_adjunto: "Eliminó un adjunto",
+};
+
+/** Valor anterior y nuevo de un campo (null: no existía / se eliminó) */
+export const auditChangeSchema = z.object({
+  antes: z.unknown(),
+  despues: z.unknown(),
+});
+
+export type AuditChanges = Record<string, z.infer<typeof auditChangeSchema>>;
+
+/** Fila de la tabla `audit_log` */
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  actor: z.string(),
+  accion: z.enum(AUDIT_ACCIONES),
+  service_code: z.string().nullable(),
+  cambios: z.record(z.string(), auditChangeSchema),
+  ip: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+export type AuditEntryInput = Omit<AuditEntry, "id" | "created_at">;
+
+/** GET /api/audit */
+export const auditListQuerySchema = z
+  .object({
+    service_code: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    actor: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    accion: z.preprocess(emptyToUndefined, enumField(AUDIT_ACCIONES, "Acción inválida").optional()),
+    desde: z.preprocess(emptyToUndefined, dateString.optional()),
+    hasta: z.preprocess(emptyToUndefined, dateString.optional()),
+    // limit: default 100, max 500
+    limit: z.unknown().transform((v) => {
+      const n = Number(v ?? "100");
+      return Number.isFinite(n) ? Math.min(Math.max(n, 1), 500) : 100;
+    }),
+    offset: z.unknown().transform((v) => {
+      const n = Number(v ?? "0");
+      return Number.isFinite(n) ? Math.max(n, 0) : 0;
+    }),
+  })
+  .transform((p) => ({
+    serviceCode: p.service_code,
+    actor: p.actor,
+    accion: p.accion,
+    desde: p.desde,
+    hasta: p.hasta,
+    limit: p.limit,
+    offset: p.offset,
+  }));
+
+export type AuditListQuery = z.output<typeof auditListQuerySchema>;
@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { requiredText } from "./fields";
+import type { ServiceEstado } from "./service";
+import { colombiaDateTime } from "../sla/calendar";
+
+/**
+ * Tiquete de retiro: cada servicio recibe al crearse un token (va en el QR)
+ * y un PIN corto. Para entregar la pieza hay que escanear el QR o digitar
+ * el PIN (se verifica en cada entrega).
+ */
+
+export const CLAIM_PIN_LENGTH = 6;
+
+/**
+ * Intentos fallidos seguidos antes de bloquear la verificación del servicio
+ * (un PIN de 6 dígitos no resiste intentos ilimitados) y minutos de bloqueo.
+ */
+export const CLAIM_MAX_ATTEMPTS = 5;
+export const CLAIM_LOCKOUT_MINUTES = 15;
+
+export const RETIRO_SIN_VERIFICAR_MESSAGE =
+  "Verifica el tiquete de retiro (QR o PIN) antes de entregar el servicio";
+export const CLAIM_MISMATCH_MESSAGE = "El QR o el PIN no corresponden a este servicio";
+
+export function claimMismatchMessage(restantes: number) {
+  return `${CLAIM_MISMATCH_MESSAGE} (${restantes === 1 ? "queda 1 intento" : `quedan ${restantes} intentos`})`;
+}
+
+/** `hasta`: fin del bloqueo (ISO); se muestra en hora de Colombia */
+export function claimLockedMessage(hasta: string) {
+  return `Demasiados intentos fallidos: la verificación de este servicio está bloqueada hasta las ${
+    colombiaDateTime(new Date(hasta)).hora
+  }`;
+}
+
+/** Fila de la tabla `service_claims` */
+export const serviceClaimSchema = z.object({
+  service_code: z.string(),
+  /** Va en el QR (URL de seguimiento); no se adivina */
+  token: z.string(),
+  pin: z.string(),
+  created_at: z.string(),
+  /** Última verificación para la entrega (null: pendiente) */
+  verified_at: z.string().nullable(),
+  verified_by: z.string().nullable(),
+  /** Intentos fallidos seguidos desde la última verificación o bloqueo */
+  intentos_fallidos: z.coerce.number(),
+  /** Verificación bloqueada hasta (null: sin bloqueo) */
+  bloqueado_hasta: z.string().nullable(),
+});
+
+export type ServiceClaim = z.infer<typeof serviceClaimSchema>;
+
+/** Lo que ve la UI del detalle: el token y el PIN solo van impresos en el tiquete */
+export type ClaimStatus = Pick<ServiceClaim, "created_at" | "verified_at" | "verified_by">;
+
+/** POST /api/services/[code]/claim: contenido escaneado del QR o PIN digitado */
+export const claimVerifySchema = z.object({
+  codigo: requiredText("QR o PIN", 500),
+});
+
+/** Formato del token del QR (base64url); lo demás se rechaza sin consultar */
+export const CLAIM_TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+/**
+ * Respuesta pública de `/api/tracking/[token]` (página `/seguimiento/[token]`).
+ * Lista cerrada de campos: nada interno (agente, almacén, teléfono, notas).
+ */
+export type PublicTracking = {
+  code: string;
+  estado: ServiceEstado;
+  fecha_entrega: string | null;
+  costo_final: number;
+  saldo: number;
+  tienda: { nombre: string; telefonos: string[] };
+};
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { enumField, moneyValue, optionalText } from "./fields";
+
+/**
+ * Piedras y componentes de un servicio (diamantes, circones, broches…):
+ * una línea por tipo, con cantidad, medida o quilates, quién lo aporta y
+ * el precio unitario. La suma de las líneas se guarda en
+ * `services.componentes_total` y se cobra junto con el costo final.
+ */
+
+export const COMPONENT_TIPOS = [
+  "Diamante",
+  "Circón",
+  "Piedra preciosa",
+  "Piedra semipreciosa",
+  "Perla",
+  "Broche",
+  "Cadena",
+  "Otro",
+] as const;
+export type ComponentTipo = (typeof COMPONENT_TIPOS)[number];
+
+export const COMPONENT_APORTA = ["joyeria", "cliente"] as const;
+export type ComponentAporta = (typeof COMPONENT_APORTA)[number];
+
+export const COMPONENT_APORTA_LABELS: Record<ComponentAporta, string> = {
+  joyeria: "Joyería",
+  cliente: "Cliente",
+};
+
+const MAX_COMPONENTS = 50;
+
+/** Fila de la tabla `service_components` */
+export const serviceComponentSchema = z.object({
+  id: z.string(),
+  service_code: z.string(),
+  posicion: z.coerce.number(),
+  tipo: z.enum(COMPONENT_TIPOS),
+  descripcion: z.string().nullable(),
+  cantidad: z.coerce.number(),
+  medida: z.string().nullable(),
+  aporta: z.enum(COMPONENT_APORTA),
+  precio_unitario: z.coerce.number(),
+});
+
+export type ServiceComponent = z.infer<typeof serviceComponentSchema>;
+
+const componentEntrySchema = z
+  .object({
+    tipo: enumField(COMPONENT_TIPOS, "Tipo inválido"),
+    descripcion: optionalText("Descripción", 200),
+    cantidad: z.coerce
+      .number("Cantidad inválida")
+      .int("La cantidad debe ser un número entero")
+      .min(1, "La cantidad debe ser al menos 1")
+      .max(1000, "Cantidad demasiado alta"),
+    medida: optionalText("Medida", 50),
+    aporta: enumField(COMPONENT_APORTA, "Indica quién aporta el componente"),
+    precio_unitario: moneyValue("Precio unitario", false),
+  })
+  .refine((c) => c.aporta === "joyeria" || c.precio_unitario === 0, {
+    path: ["precio_unitario"],
+    message: "Lo que aporta el cliente no se cobra",
+  });
+
+export type ComponentEntry = z.output<typeof componentEntrySchema>;
+
+/** PUT /api/services/[code]/components (reemplaza todas las líneas, en orden) */
+export const componentsUpdateSchema = z.object({
+  componentes: z.array(componentEntrySchema).max(MAX_COMPONENTS, "Demasiados componentes"),
+});
+
+export function componentSubtotal(c: Pick<ComponentEntry, "cantidad" | "precio_unitario">) {
+  return Math.round(c.cantidad * c.precio_unitario);
+}
+
+/** Valor de las piedras y componentes que se suma al costo final */
+export function componentsTotal(rows: Pick<ComponentEntry, "cantidad" | "precio_unitario">[]) {
+  return rows.reduce((acc, c) => acc + componentSubtotal(c), 0);
+}
+
+/** "Diamante · talla brillante" */
+export function componentLabel(c: Pick<ComponentEntry, "tipo" | "descripcion">) {
+  return c.descripcion ? `${c.tipo} · ${c.descripcion}` : c.tipo;
+}
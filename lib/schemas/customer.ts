@@ -0,0 +1,103 @@
+import { z } from "zod";
+import {
+  MAX_DESCRIPTION_LENGTH,
+  cleanText,
+  emptyToUndefined,
+  enumField,
+  optionalText,
+  phoneString,
+  requiredText,
+} from "./fields";
+import { DIAN_TIPOS_DOCUMENTO, type DianTipoDocumento } from "./einvoice";
+import { NOTIFICATION_CANALES } from "./notification";
+
+/**
+ * Directorio de clientes. Los servicios se enlazan con `customer_id`;
+ * `cliente` / `telefono` del servicio quedan como copia del momento.
+ */
+
+const TIPO_DOCUMENTO_CODES = Object.keys(DIAN_TIPOS_DOCUMENTO) as [
+  DianTipoDocumento,
+  ...DianTipoDocumento[],
+];
+const MAX_PHONES = 5;
+
+/** Teléfono normalizado para comparar: sin espacios, guiones ni paréntesis */
+export function normalizePhone(phone: string) {
+  return String(phone ?? "").replace(/[\s\-()]/g, "");
+}
+
+/** Fila de la tabla `customers` */
+export const customerSchema = z.object({
+  id: z.string(),
+  nombre: z.string(),
+  tipo_documento: z.enum(TIPO_DOCUMENTO_CODES).nullable(),
+  numero_documento: z.string().nullable(),
+  telefonos: z.array(z.string()),
+  email: z.string().nullable(),
+  direccion: z.string().nullable(),
+  notas: z.string().nullable(),
+  /** Canal por el que acepta recibir notificaciones (null: no recibe) */
+  canal_notificaciones: z.enum(NOTIFICATION_CANALES).nullable(),
+  created_at: z.string().optional(),
+});
+
+export type Customer = z.infer<typeof customerSchema>;
+
+const customerFields = {
+  nombre: requiredText("Nombre"),
+  tipo_documento: z.preprocess(
+    emptyToUndefined,
+    enumField(TIPO_DOCUMENTO_CODES, "Tipo de documento inválido").nullable().default(null)
+  ),
+  numero_documento: optionalText("Número de documento", 20),
+  telefonos: z.preprocess(
+    (v) => (Array.isArray(v) ? v : v ? [v] : []),
+    z
+      .array(z.preprocess(String, phoneString).transform(normalizePhone))
+      .max(MAX_PHONES, `Máximo ${MAX_PHONES} teléfonos`)
+      .transform((list) => [...new Set(list)])
+  ),
+  email: z.preprocess(
+    emptyToUndefined,
+    z.email("Correo electrónico inválido").max(200).nullable().default(null)
+  ),
+  direccion: optionalText("Dirección"),
+  notas: optionalText("Notas", MAX_DESCRIPTION_LENGTH),
+  canal_notificaciones: z.preprocess(
+    emptyToUndefined,
+    enumField(NOTIFICATION_CANALES, "Canal de notificaciones inválido").nullable().default(null)
+  ),
+};
+
+export const DOCUMENTO_SIN_TIPO_MESSAGE = "Selecciona el tipo de documento";
+export const DOCUMENTO_DUPLICADO_MESSAGE = "Ya existe un cliente con ese documento";
+
+/** POST /api/customers (JSON) */
+export const customerCreateSchema = z
+  .object(customerFields)
+  .refine((c) => !c.numero_documento || c.tipo_documento, {
+    path: ["tipo_documento"],
+    message: DOCUMENTO_SIN_TIPO_MESSAGE,
+  });
+
+/** PUT /api/customers/[id]: solo los campos enviados */
+export const customerUpdateSchema = z.object(customerFields).partial();
+
+export type CustomerPayload = z.output<typeof customerCreateSchema>;
+export type CustomerUpdatePayload = z.output<typeof customerUpdateSchema>;
+
+/** GET /api/customers?q=&limit=&offset= */
+export const customerListQuerySchema = z.object({
+  q: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+  limit: z.unknown().transform((v) => {
+    const n = Number(v ?? "50");
+    return Number.isFinite(n) ? Math.min(Math.max(n, 1), 200) : 50;
+  }),
+  offset: z.unknown().transform((v) => {
+    const n = Number(v ?? "0");
+    return Number.isFinite(n) ? Math.max(n, 0) : 0;
+  }),
+});
+
+export type CustomerListQuery = z.output<typeof customerListQuerySchema>;
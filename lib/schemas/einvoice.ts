@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { emptyToUndefined, enumField, optionalText, toText } from "./fields";
+
+/**
+ * Factura electrónica de venta (DIAN, UBL 2.1).
+ * Una factura por servicio; el XML firmado se guarda junto al registro.
+ */
+
+/** Tipos de documento del adquiriente (tabla 13.2.1 del anexo técnico DIAN) */
+export const DIAN_TIPOS_DOCUMENTO = {
+  "13": "Cédula de ciudadanía",
+  "31": "NIT",
+  "22": "Cédula de extranjería",
+  "41": "Pasaporte",
+  "42": "Documento de identificación extranjero",
+} as const;
+
+export type DianTipoDocumento = keyof typeof DIAN_TIPOS_DOCUMENTO;
+const TIPO_DOCUMENTO_CODES = Object.keys(DIAN_TIPOS_DOCUMENTO) as [
+  DianTipoDocumento,
+  ...DianTipoDocumento[],
+];
+
+/** Documento que la DIAN usa para ventas a "consumidor final" */
+export const CONSUMIDOR_FINAL_DOCUMENTO = "222222222222";
+
+export const EINVOICE_ESTADOS = ["Aceptada", "Rechazada", "Pendiente"] as const;
+export type EinvoiceEstado = (typeof EINVOICE_ESTADOS)[number];
+
+/** Fila de la tabla `electronic_invoices` */
+export const electronicInvoiceSchema = z.object({
+  id: z.string(),
+  service_code: z.string(),
+  prefijo: z.string(),
+  numero: z.coerce.number(),
+  numero_factura: z.string(), // prefijo + número, p. ej. SETP990000001
+  fecha_emision: z.string(), // YYYY-MM-DD
+  hora_emision: z.string(), // HH:mm:ss-05:00
+  cufe: z.string(),
+  qr_text: z.string(), // contenido del QR de la representación gráfica
+  adquiriente_tipo_documento: z.enum(TIPO_DOCUMENTO_CODES),
+  adquiriente_documento: z.string(),
+  adquiriente_nombre: z.string(),
+  adquiriente_email: z.string().nullable(),
+  subtotal: z.coerce.number(),
+  iva: z.coerce.number(),
+  total: z.coerce.number(),
+  xml: z.string(),
+  estado: z.enum(EINVOICE_ESTADOS),
+  dian_track_id: z.string().nullable(),
+  dian_mensajes: z.array(z.string()),
+  created_at: z.string().optional(),
+});
+
+export type ElectronicInvoice = z.infer<typeof electronicInvoiceSchema>;
+
+/**
+ * POST /api/services/[code]/einvoice
+ * Sin documento se factura a consumidor final.
+ */
+export const einvoiceCreateSchema = z
+  .object({
+    tipo_documento: z.preprocess(
+      emptyToUndefined,
+      enumField(TIPO_DOCUMENTO_CODES, "Tipo de documento inválido").default("13")
+    ),
+    documento: z.preprocess(
+      toText,
+      z
+        .string()
+        .trim()
+        .max(20, "El documento es demasiado largo")
+        .regex(/^[0-9A-Za-z-]*$/, "Documento inválido")
+    ),
+    nombre: optionalText("Nombre"),
+    email: z.preprocess(
+      emptyToUndefined,
+      z.email("Correo electrónico inválido").max(200).optional()
+    ),
+  })
+  .transform((c) => ({
+    tipo_documento: c.documento ? c.tipo_documento : ("13" as DianTipoDocumento),
+    // NIT "900123456-7": el dígito de verificación se calcula, no se guarda
+    documento:
+      (c.tipo_documento === "31" ? c.documento.split("-")[0] : c.documento.replace(/-/g, "")) ||
+      CONSUMIDOR_FINAL_DOCUMENTO,
+    nombre: c.nombre,
+    email: c.email ?? null,
+  }));
+
+export type EinvoiceCustomer = z.output<typeof einvoiceCreateSchema>;
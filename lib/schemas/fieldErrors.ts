@@ -0,0 +1,31 @@
+import type { z } from "zod";
+
+/** Errores por campo: `{ cliente: "Cliente es requerido", ... }` */
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Convierte un ZodError en un mapa campo → primer mensaje de error.
+ * Lo usan tanto la API (respuesta 400) como los formularios.
+ */
+export function toFieldErrors(error: z.ZodError): FieldErrors {
+  const fields: FieldErrors = {};
+  for (const issue of error.issues) {
+    const key = issue.path.length ? issue.path.join(".") : "_";
+    if (!fields[key]) fields[key] = issue.message;
+  }
+  return fields;
+}
+
+/**
+ * Mensaje legible de una respuesta de error de la API
+ * (`{ error }` o `{ error, fields }`), para alert() o banners.
+ */
+export function formatApiError(json: unknown, fallback: string): string {
+  const body = (json ?? {}) as { error?: unknown; fields?: unknown };
+  const fields =
+    body.fields && typeof body.fields === "object"
+      ? Object.values(body.fields as FieldErrors).filter(Boolean)
+      : [];
+  if (fields.length) return fields.join("\n");
+  return typeof body.error === "string" && body.error ? body.error : fallback;
+}
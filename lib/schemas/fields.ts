@@ -0,0 +1,153 @@
+import { z } from "zod";
+
+/**
+ * Piezas reutilizables para los esquemas Zod (servicios, pagos, ...).
+ * Todos los mensajes de error están en español y son los que ve el usuario.
+ */
+
+export const MAX_STRING_LENGTH = 500;
+export const MAX_DESCRIPTION_LENGTH = 2000;
+const MAX_PHONE_LENGTH = 50;
+const MAX_MONEY_VALUE = 1_000_000_000; // 1B (ajusta si necesitas más)
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^([0-1][0-9]|2[0-3]):[0-5][0-9](:([0-5][0-9]))?$/;
+const PHONE_REGEX = /^[0-9+\-\s()]+$/;
+
+/**
+ * Convierte dinero escrito por el usuario a número.
+ * Soporta "," como decimal; vacío → 0; inválido → NaN.
+ */
+export function parseMoney(v: unknown) {
+  const normalized = String(v ?? "").trim().replace(/\s+/g, "").replace(",", ".");
+  if (!normalized) return 0;
+  return Number(normalized);
+}
+
+/** Elimina < y > básicos para prevenir XSS (equivalente al antiguo sanitizeString) */
+export function cleanText(input: string) {
+  return input.trim().replace(/[<>]/g, "");
+}
+
+/** Trata "", "undefined" y "null" (típicos de query strings) como ausentes */
+export function emptyToUndefined(v: unknown) {
+  const s = String(v ?? "").trim();
+  if (!s || s === "undefined" || s === "null") return undefined;
+  return s;
+}
+
+export const toText = (v: unknown) => (v === undefined || v === null ? "" : String(v));
+
+export function requiredText(label: string, max = MAX_STRING_LENGTH) {
+  return z.preprocess(
+    toText,
+    z
+      .string()
+      .transform(cleanText)
+      .pipe(
+        z
+          .string()
+          .min(1, `${label} es requerido`)
+          .max(max, `${label} es demasiado largo (máximo ${max} caracteres)`)
+      )
+  );
+}
+
+/** Texto opcional: vacío → null */
+export function optionalText(label: string, max = MAX_STRING_LENGTH) {
+  return z.preprocess(
+    toText,
+    z
+      .string()
+      .transform(cleanText)
+      .pipe(z.string().max(max, `${label} es demasiado largo (máximo ${max} caracteres)`))
+      .transform((v) => v || null)
+  );
+}
+
+export function enumField<const T extends readonly [string, ...string[]]>(
+  values: T,
+  invalidMessage: string
+) {
+  return z.enum(values, {
+    error: `${invalidMessage}. Debe ser uno de: ${values.join(", ")}`,
+  });
+}
+
+export const dateString = z
+  .string()
+  .trim()
+  .min(1, "La fecha es requerida")
+  .regex(DATE_REGEX, "Formato de fecha inválido. Debe ser YYYY-MM-DD")
+  .refine((s) => !isNaN(new Date(s).getTime()), "Fecha inválida");
+
+export const timeString = z
+  .string()
+  .trim()
+  .min(1, "La hora es requerida")
+  .regex(TIME_REGEX, "Formato de hora inválido. Debe ser HH:mm o HH:mm:ss")
+  // "13:00" -> "13:00:00"
+  .transform((t) => (t.length === 5 ? `${t}:00` : t.slice(0, 8)));
+
+export const phoneString = z
+  .string()
+  .trim()
+  .min(1, "El teléfono es requerido")
+  .max(MAX_PHONE_LENGTH, "El teléfono es demasiado largo")
+  .regex(PHONE_REGEX, "Formato de teléfono inválido");
+
+/** Dinero en COP (acepta número o texto). Vacío → 0, salvo que sea requerido. */
+export function moneyValue(label: string, required: boolean) {
+  return z.preprocess(toText, z.string()).transform((raw, ctx) => {
+    if (!raw.trim()) {
+      if (!required) return 0;
+      ctx.issues.push({ code: "custom", message: `${label} es requerido`, input: raw });
+      return z.NEVER;
+    }
+
+    const num = parseMoney(raw);
+    let message = "";
+    if (!Number.isFinite(num)) message = `${label} debe ser un número válido`;
+    else if (num < 0) message = `${label} no puede ser negativo`;
+    else if (num > MAX_MONEY_VALUE) message = `${label} es demasiado alto`;
+
+    if (message) {
+      ctx.issues.push({ code: "custom", message, input: raw });
+      return z.NEVER;
+    }
+    return num;
+  });
+}
+
+/** Checkbox enviado en FormData como "true" / "false" */
+export const formBoolean = z.preprocess(
+  (v) => String(v ?? "false").toLowerCase() === "true",
+  z.boolean()
+);
+
+/** Fecha local de hoy en formato YYYY-MM-DD */
+export function todayISODate(now: Date = new Date()) {
+  const y = now.getFullYear();
+  const m = String(now.getMonth() + 1).padStart(2, "0");
+  const d = String(now.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+const MAX_GRAMS_VALUE = 100_000; // 100 kg
+
+/** Peso en gramos (acepta "," como decimal). Vacío → 0; se redondea a centésimas. */
+export function gramsValue(label: string) {
+  return z.preprocess(toText, z.string()).transform((raw, ctx) => {
+    const num = parseMoney(raw);
+    let message = "";
+    if (!Number.isFinite(num)) message = `${label} debe ser un número válido`;
+    else if (num < 0) message = `${label} no puede ser negativo`;
+    else if (num > MAX_GRAMS_VALUE) message = `${label} es demasiado alto`;
+
+    if (message) {
+      ctx.issues.push({ code: "custom", message, input: raw });
+      return z.NEVER;
+    }
+    return Math.round(num * 100) / 100;
+  });
+}
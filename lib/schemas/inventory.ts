@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { cleanText, emptyToUndefined, enumField, gramsValue, moneyValue, optionalText, requiredText } from "./fields";
+import { SERVICE_MATERIALES, type Service, type ServiceMaterial } from "./service";
+import type { MetalWeight } from "./metal";
+
+/**
+ * Inventario de metal del taller, en gramos por material y almacén.
+ *
+ * La existencia es la suma de los movimientos (positivos: entradas,
+ * negativos: salidas); los movimientos no se modifican ni se borran, un
+ * error se corrige con un ajuste.
+ * - compra: entrada de metal comprado (con su costo)
+ * - ajuste: corrección por conteo físico, en cualquier sentido
+ * - traslado: dos movimientos con el mismo `traslado_id` (salida y entrada)
+ * - consumo: metal del taller usado en un servicio (lib/inventory/stock)
+ */
+
+export const INVENTORY_MOVEMENT_TIPOS = ["compra", "ajuste", "traslado", "consumo"] as const;
+export type InventoryMovementTipo = (typeof INVENTORY_MOVEMENT_TIPOS)[number];
+
+export const INVENTORY_MOVEMENT_TIPO_LABELS: Record<InventoryMovementTipo, string> = {
+  compra: "Compra",
+  ajuste: "Ajuste",
+  traslado: "Traslado",
+  consumo: "Consumo en servicio",
+};
+
+/** Movimientos que se registran a mano (el consumo lo escriben los pesos del servicio) */
+export const MANUAL_MOVEMENT_TIPOS = ["compra", "ajuste", "traslado"] as const;
+
+export const AJUSTE_SENTIDOS = ["entrada", "salida"] as const;
+
+/** Fila de la tabla `inventory_movements` */
+export const inventoryMovementSchema = z.object({
+  id: z.string(),
+  material: z.enum(SERVICE_MATERIALES),
+  almacen: z.string(),
+  tipo: z.enum(INVENTORY_MOVEMENT_TIPOS),
+  gramos: z.coerce.number(), // con signo
+  costo: z.coerce.number().nullable(),
+  service_code: z.string().nullable(),
+  traslado_id: z.string().nullable(),
+  nota: z.string().nullable(),
+  // Consumo registrado con más gramos de los que había en el almacén
+  sobregiro: z.boolean().default(false),
+  created_by: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type InventoryMovement = z.infer<typeof inventoryMovementSchema>;
+
+/** `sobregiro` lo calcula el repositorio al guardar */
+export type InventoryMovementInput = Omit<InventoryMovement, "id" | "created_at" | "sobregiro">;
+
+/** Existencia de un material en un almacén (vista `inventory_stock`) */
+export type StockRow = { material: ServiceMaterial; almacen: string; gramos: number };
+
+/**
+ * POST /api/inventory/movements
+ * - compra: gramos > 0 y costo opcional
+ * - ajuste: gramos > 0 con `sentido` (entrada/salida) y nota obligatoria
+ * - traslado: gramos > 0 de `almacen` a `almacen_destino`
+ */
+export const inventoryMovementCreateSchema = z
+  .object({
+    tipo: enumField(MANUAL_MOVEMENT_TIPOS, "Tipo de movimiento inválido"),
+    material: enumField(SERVICE_MATERIALES, "Material inválido"),
+    almacen: requiredText("Almacén"),
+    almacen_destino: optionalText("Almacén de destino"),
+    sentido: z.preprocess(emptyToUndefined, enumField(AJUSTE_SENTIDOS, "Sentido inválido").optional()),
+    gramos: gramsValue("Gramos"),
+    costo: moneyValue("Costo", false),
+    nota: optionalText("Nota"),
+  })
+  .superRefine((m, ctx) => {
+    const issue = (path: string, message: string) => ctx.addIssue({ code: "custom", path: [path], message });
+
+    if (m.gramos <= 0) issue("gramos", "Los gramos deben ser mayores a 0");
+    if (m.tipo === "ajuste") {
+      if (!m.sentido) issue("sentido", "Indica si el ajuste es una entrada o una salida");
+      if (!m.nota) issue("nota", "Explica el motivo del ajuste");
+    }
+    if (m.tipo === "traslado") {
+      if (!m.almacen_destino) issue("almacen_destino", "Almacén de destino es obligatorio");
+      else if (inventoryKey(m.almacen_destino) === inventoryKey(m.almacen)) {
+        issue("almacen_destino", "El destino debe ser otro almacén");
+      }
+    }
+  });
+
+export type InventoryMovementCreate = z.output<typeof inventoryMovementCreateSchema>;
+
+/** GET /api/inventory/movements */
+export const inventoryMovementListQuerySchema = z
+  .object({
+    material: z.preprocess(emptyToUndefined, enumField(SERVICE_MATERIALES, "Material inválido").optional()),
+    almacen: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    tipo: z.preprocess(emptyToUndefined, enumField(INVENTORY_MOVEMENT_TIPOS, "Tipo inválido").optional()),
+    service_code: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    // limit: default 100, max 500
+    limit: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number()
+        .int("Límite inválido")
+        .default(100)
+        .transform((n) => Math.min(Math.max(n, 1), 500))
+    ),
+    offset: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number()
+        .int("Desplazamiento inválido")
+        .default(0)
+        .transform((n) => Math.max(n, 0))
+    ),
+  })
+  .transform((p) => ({
+    material: p.material,
+    almacen: p.almacen,
+    tipo: p.tipo,
+    serviceCode: p.service_code,
+    limit: p.limit,
+    offset: p.offset,
+  }));
+
+export type InventoryMovementListQuery = z.output<typeof inventoryMovementListQuerySchema>;
+
+/** Almacén comparable: "el poblado " y "El Poblado" son el mismo */
+export function inventoryKey(almacen: string) {
+  return cleanText(almacen).toLowerCase();
+}
+
+/** Redondeo a centésimas de gramo (evita 0.30000000000000004) */
+export function roundGrams(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** Nombre del almacén como ya está en el inventario (o el recibido si es nuevo) */
+export function resolveAlmacen(almacen: string, stock: StockRow[]) {
+  return stock.find((row) => inventoryKey(row.almacen) === inventoryKey(almacen))?.almacen ?? almacen;
+}
+
+/** Nota del consumo negativo (bajó el metal del taller) */
+export const CONSUMO_DEVOLUCION_NOTA = "Devolución: bajó el metal del taller en el servicio";
+
+/**
+ * Movimientos de consumo de un servicio: por material, la diferencia de
+ * `taller_g` entre los pesos anteriores y los nuevos (sale del almacén si
+ * subió, vuelve si bajó). La misma cuenta hace `replace_service_metal_weights`.
+ */
+export function serviceConsumptionMovements(
+  service: Pick<Service, "code" | "almacen">,
+  antes: Pick<MetalWeight, "material" | "taller_g">[],
+  despues: Pick<MetalWeight, "material" | "taller_g">[],
+  createdBy: string
+): InventoryMovementInput[] {
+  const taller = (rows: Pick<MetalWeight, "material" | "taller_g">[], material: ServiceMaterial) =>
+    rows.find((r) => r.material === material)?.taller_g ?? 0;
+
+  return SERVICE_MATERIALES.map((material) => ({
+    material,
+    delta: roundGrams(taller(despues, material) - taller(antes, material)),
+  }))
+    .filter((c) => c.delta !== 0)
+    .map(({ material, delta }) => ({
+      material,
+      almacen: service.almacen,
+      tipo: "consumo" as const,
+      gramos: -delta,
+      costo: null,
+      service_code: service.code,
+      traslado_id: null,
+      nota: delta > 0 ? null : CONSUMO_DEVOLUCION_NOTA,
+      created_by: createdBy,
+    }));
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { emptyToUndefined, enumField } from "./fields";
+
+/**
+ * Plantillas del PDF de /api/services/[code]/invoice.
+ * Todas usan el mismo modelo de datos (lib/pdf/invoiceData); cambia el formato.
+ */
+export const INVOICE_TEMPLATES = ["factura", "ticket", "orden-taller"] as const;
+export type InvoiceTemplate = (typeof INVOICE_TEMPLATES)[number];
+
+export const INVOICE_TEMPLATE_LABELS: Record<InvoiceTemplate, string> = {
+  factura: "Factura (carta / A4)",
+  ticket: "Tiquete 80mm",
+  "orden-taller": "Orden de trabajo (media carta, sin valores)",
+};
+
+/** Papel de la plantilla `factura` (ticket y orden-taller tienen tamaño fijo) */
+export const INVOICE_PAPERS = ["letter", "a4"] as const;
+export type InvoicePaper = (typeof INVOICE_PAPERS)[number];
+
+/** GET /api/services/[code]/invoice?template=ticket&paper=a4&preview=true */
+export const invoiceQuerySchema = z.object({
+  template: z.preprocess(
+    emptyToUndefined,
+    enumField(INVOICE_TEMPLATES, "Plantilla inválida").default("factura")
+  ),
+  // Por defecto LETTER (suele imprimir mejor centrado en impresoras); cualquier otro valor → LETTER
+  paper: z.unknown().transform((v): InvoicePaper =>
+    String(v ?? "").toLowerCase() === "a4" ? "a4" : "letter"
+  ),
+  // preview=true: vista previa en el detalle del servicio (no se audita como impresión)
+  preview: z.preprocess(emptyToUndefined, z.enum(["true", "false"]).optional()).transform(
+    (v) => v === "true"
+  ),
+});
+
+export type InvoiceQuery = z.output<typeof invoiceQuerySchema>;
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { enumField, gramsValue } from "./fields";
+import type { FieldErrors } from "./fieldErrors";
+import { SERVICE_MATERIALES } from "./service";
+
+/**
+ * Pesos de metal de un servicio, en gramos y por material:
+ * - recibido: metal que entrega el cliente (piezas viejas, lingotes…)
+ * - taller: metal que pone la joyería
+ * - final: peso de la pieza terminada
+ * - merma: pérdida en el proceso (limaduras, fundición)
+ *
+ * Lo que sale (final + merma) no puede superar lo que entró, y la merma
+ * tiene un máximo permitido (porcentaje del metal que entró).
+ */
+
+/** Fila de la tabla `service_metal_weights` */
+export const metalWeightSchema = z.object({
+  service_code: z.string(),
+  material: z.enum(SERVICE_MATERIALES),
+  recibido_g: z.coerce.number(),
+  taller_g: z.coerce.number(),
+  final_g: z.coerce.number(),
+  merma_g: z.coerce.number(),
+  updated_by: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+
+export type MetalWeight = z.infer<typeof metalWeightSchema>;
+
+const metalWeightEntrySchema = z.object({
+  material: enumField(SERVICE_MATERIALES, "Material inválido"),
+  recibido_g: gramsValue("Metal recibido"),
+  taller_g: gramsValue("Metal del taller"),
+  final_g: gramsValue("Peso final"),
+  merma_g: gramsValue("Merma"),
+});
+
+export type MetalWeightEntry = z.output<typeof metalWeightEntrySchema>;
+
+/** PUT /api/services/[code]/metals (reemplaza todos los pesos del servicio) */
+export const metalWeightsUpdateSchema = z.object({
+  pesos: z
+    .array(metalWeightEntrySchema)
+    .max(SERVICE_MATERIALES.length, "Demasiados materiales")
+    .refine(
+      (rows) => new Set(rows.map((r) => r.material)).size === rows.length,
+      "Cada material solo puede aparecer una vez"
+    ),
+});
+
+/** Ordena por material como en SERVICE_MATERIALES (oro primero) */
+export function sortByMaterial<T extends { material: string }>(rows: T[]) {
+  const order = (m: string) => (SERVICE_MATERIALES as readonly string[]).indexOf(m);
+  return [...rows].sort((a, b) => order(a.material) - order(b.material));
+}
+
+/** Diferencias de redondeo que se toleran al comparar pesos (g) */
+const GRAMS_TOLERANCE = 0.01;
+
+export function formatGrams(value: number) {
+  return `${Number(value ?? 0).toLocaleString("es-CO", { maximumFractionDigits: 2 })} g`;
+}
+
+/**
+ * Errores del balance de cada material (`pesos.<i>.<campo>`):
+ * - final + merma ≤ recibido + taller
+ * - merma ≤ maxMermaPercent % de recibido + taller
+ */
+export function metalBalanceErrors(rows: MetalWeightEntry[], maxMermaPercent: number): FieldErrors {
+  const errors: FieldErrors = {};
+  rows.forEach((row, i) => {
+    const entrada = row.recibido_g + row.taller_g;
+    const salida = row.final_g + row.merma_g;
+    if (salida > entrada + GRAMS_TOLERANCE) {
+      errors[`pesos.${i}.final_g`] =
+        `${row.material}: el peso final más la merma (${formatGrams(salida)}) supera el metal recibido y del taller (${formatGrams(entrada)})`;
+    }
+
+    const maxMerma = (entrada * maxMermaPercent) / 100;
+    if (row.merma_g > maxMerma + GRAMS_TOLERANCE) {
+      errors[`pesos.${i}.merma_g`] =
+        `${row.material}: la merma supera el ${maxMermaPercent}% permitido (máximo ${formatGrams(maxMerma)})`;
+    }
+  });
+  return errors;
+}
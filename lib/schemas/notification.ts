@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { enumField } from "./fields";
+import type { ServiceEstado } from "./service";
+
+/**
+ * Notificaciones al cliente (WhatsApp, SMS o correo) por cambios de estado,
+ * pagos y el aviso de que la pieza está lista para recoger. Solo se envían a clientes del directorio que eligieron un canal
+ * (`customers.canal_notificaciones`); cada intento queda en `notification_log`.
+ */
+
+export const NOTIFICATION_CANALES = ["whatsapp", "sms", "email"] as const;
+export type NotificationCanal = (typeof NOTIFICATION_CANALES)[number];
+
+export const NOTIFICATION_CANAL_LABELS: Record<NotificationCanal, string> = {
+  whatsapp: "WhatsApp",
+  sms: "SMS",
+  email: "Correo",
+};
+
+export const NOTIFICATION_EVENTOS = [
+  "en_fabricacion",
+  "listo_para_recoger",
+  "garantia",
+  "entregado",
+  "pago_registrado",
+] as const;
+export type NotificationEvento = (typeof NOTIFICATION_EVENTOS)[number];
+
+export const NOTIFICATION_EVENTO_LABELS: Record<NotificationEvento, string> = {
+  en_fabricacion: "En fabricación",
+  listo_para_recoger: "Lista para recoger",
+  garantia: "Garantía",
+  entregado: "Entregado",
+  pago_registrado: "Pago registrado",
+};
+
+/** Estado al que pasa el servicio → evento que se notifica (Pendiente no avisa) */
+export const EVENTO_POR_ESTADO: Partial<Record<ServiceEstado, NotificationEvento>> = {
+  "En fabricación": "en_fabricacion",
+  Garantía: "garantia",
+  Entregado: "entregado",
+};
+
+/** Estados en los que se puede avisar que la pieza está lista (aún no entregada) */
+export const READY_NOTICE_ESTADOS: readonly ServiceEstado[] = ["En fabricación", "Garantía"];
+
+export const READY_NOTICE_ESTADO_MESSAGE = "Solo se avisa que está lista una pieza en fabricación o en garantía";
+export const NOTIFICATIONS_NOT_AUTHORIZED_MESSAGE =
+  "El cliente no autorizó notificaciones (se activan en su ficha del directorio)";
+
+/** Eventos que se envían a mano desde el servicio (los demás salen solos) */
+export const MANUAL_NOTIFICATION_EVENTOS = ["listo_para_recoger"] as const;
+
+/** POST /api/services/[code]/notifications */
+export const notificationSendSchema = z.object({
+  evento: enumField(MANUAL_NOTIFICATION_EVENTOS, "Evento inválido"),
+});
+
+/** enviado: el proveedor lo aceptó · fallido: error del proveedor · omitido: sin destino */
+export const NOTIFICATION_ESTADOS = ["enviado", "fallido", "omitido"] as const;
+export type NotificationEstado = (typeof NOTIFICATION_ESTADOS)[number];
+
+/** Fila de la tabla `notification_log` */
+export const notificationLogSchema = z.object({
+  id: z.string(),
+  service_code: z.string(),
+  customer_id: z.string().nullable(),
+  evento: z.enum(NOTIFICATION_EVENTOS),
+  canal: z.enum(NOTIFICATION_CANALES),
+  /** Teléfono o correo al que se envió (null: el cliente no tiene) */
+  destino: z.string().nullable(),
+  mensaje: z.string(),
+  estado: z.enum(NOTIFICATION_ESTADOS),
+  /** Adaptador que hizo el envío (whatsapp-cloud, twilio, smtp, consola, archivo) */
+  proveedor: z.string().nullable(),
+  /** Id del mensaje según el proveedor */
+  proveedor_id: z.string().nullable(),
+  error: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type NotificationLogEntry = z.infer<typeof notificationLogSchema>;
+
+export type NotificationLogInput = Omit<NotificationLogEntry, "id" | "created_at">;
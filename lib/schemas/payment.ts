@@ -0,0 +1,82 @@
+import { z } from "zod";
+import { dateString, enumField, moneyValue, optionalText, requiredText, toText } from "./fields";
+
+/**
+ * Pagos (abonos parciales) de un servicio.
+ * Un servicio puede tener varios pagos; el saldo pendiente se deriva
+ * de costo_final - suma de pagos.
+ */
+
+export const PAYMENT_METODOS = ["Efectivo", "Tarjeta", "Transferencia"] as const;
+export type PaymentMetodo = (typeof PAYMENT_METODOS)[number];
+
+/** Fila de la tabla `service_payments` */
+export const paymentSchema = z.object({
+  id: z.string(),
+  service_code: z.string(),
+  fecha: z.string(), // YYYY-MM-DD
+  monto: z.coerce.number(),
+  metodo: z.enum(PAYMENT_METODOS),
+  agente: z.string(),
+  referencia: z.string().nullable(),
+  created_at: z.string().optional(),
+});
+
+export type Payment = z.infer<typeof paymentSchema>;
+
+/** POST /api/services/[code]/payments */
+export const paymentCreateSchema = z.object({
+  fecha: z.preprocess(toText, dateString),
+  monto: moneyValue("Monto", true).refine((n) => n > 0, "Monto debe ser mayor a 0"),
+  metodo: enumField(PAYMENT_METODOS, "Método de pago inválido"),
+  agente: requiredText("Agente"),
+  referencia: optionalText("Referencia"),
+});
+
+export type PaymentPayload = z.output<typeof paymentCreateSchema>;
+
+/**
+ * Saldo de un servicio derivado de sus pagos.
+ * `costo_final` es el total a cobrar (incluye piedras y componentes: serviceTotal).
+ */
+export type ServiceBalance = {
+  costo_final: number;
+  total_pagado: number;
+  saldo: number;
+};
+
+export function computeBalance(costoFinal: number, totalPagado: number): ServiceBalance {
+  const costo = Number.isFinite(costoFinal) ? costoFinal : 0;
+  const pagado = Number.isFinite(totalPagado) ? totalPagado : 0;
+  return {
+    costo_final: costo,
+    total_pagado: pagado,
+    saldo: Math.max(costo - pagado, 0),
+  };
+}
+
+export function sumPayments(payments: Pick<Payment, "monto">[]) {
+  return payments.reduce((acc, p) => acc + Number(p.monto ?? 0), 0);
+}
+
+export const SALDO_EXCEEDED_MESSAGE = "El monto supera el saldo pendiente";
+export const COSTO_BELOW_PAID_MESSAGE = "El costo final no puede ser menor a lo ya pagado";
+
+/** Estado de pago para las insignias de la tabla y el detalle */
+export type PaymentStatus = "Pagado" | "Parcial" | "Pendiente";
+
+export function paymentStatus(balance: ServiceBalance): PaymentStatus {
+  if (balance.saldo <= 0) return "Pagado";
+  return balance.total_pagado > 0 ? "Parcial" : "Pendiente";
+}
+
+/**
+ * Banderas `abono_pagado` / `costo_final_pagado` derivadas del total pagado.
+ * Se guardan en `services` para que los filtros existentes sigan funcionando.
+ */
+export function derivePaymentFlags(abono: number, costoFinal: number, totalPagado: number) {
+  return {
+    abono_pagado: abono > 0 ? totalPagado >= abono : totalPagado > 0,
+    costo_final_pagado: totalPagado >= costoFinal,
+  };
+}
@@ -0,0 +1,210 @@
+import { z } from "zod";
+import { dateString, emptyToUndefined, enumField, gramsValue, moneyValue, requiredText, toText } from "./fields";
+import type { FieldErrors } from "./fieldErrors";
+import { SERVICE_MATERIALES, type ServiceMaterial } from "./service";
+import type { QuoteSnapshot } from "./quote";
+
+/**
+ * Tarifas para cotizar un servicio:
+ * - precio del gramo por material, uno por día (se usa el último vigente)
+ * - mano de obra por tipo de trabajo (valor fijo) y engastes (valor por piedra)
+ * - días de garantía por tipo de trabajo (vacío: la garantía general de
+ *   /app/configuracion, ver lib/warranty/coverage)
+ *
+ * La cotización propone el costo final; el servicio guarda una copia de los
+ * precios usados (`services.cotizacion`) para que cambios posteriores en las
+ * tarifas no alteren lo que se le cotizó al cliente.
+ */
+
+export const LABOR_RATE_TIPOS = ["trabajo", "engaste"] as const;
+export type LaborRateTipo = (typeof LABOR_RATE_TIPOS)[number];
+
+export const LABOR_RATE_TIPO_LABELS: Record<LaborRateTipo, string> = {
+  trabajo: "Mano de obra",
+  engaste: "Engaste (por piedra)",
+};
+
+/** Fila de la tabla `metal_prices` */
+export const metalPriceSchema = z.object({
+  fecha: z.string(), // YYYY-MM-DD desde la que rige
+  material: z.enum(SERVICE_MATERIALES),
+  precio_gramo: z.coerce.number(),
+  updated_by: z.string().nullable().optional(),
+  updated_at: z.string().optional(),
+});
+
+export type MetalPrice = z.infer<typeof metalPriceSchema>;
+
+/** Fila de la tabla `labor_rates` */
+export const laborRateSchema = z.object({
+  id: z.string(),
+  tipo: z.enum(LABOR_RATE_TIPOS),
+  nombre: z.string(),
+  valor: z.coerce.number(),
+  /** Solo mano de obra; null usa la garantía general */
+  garantia_dias: z.coerce.number().nullable(),
+});
+
+export type LaborRate = z.infer<typeof laborRateSchema>;
+
+const positiveMoney = (label: string) =>
+  moneyValue(label, true).refine((n) => n > 0, `${label} debe ser mayor a 0`);
+
+/** PUT /api/pricing/metals: precios del día (solo los materiales enviados) */
+export const metalPricesUpdateSchema = z.object({
+  fecha: z.preprocess(toText, dateString),
+  precios: z
+    .array(
+      z.object({
+        material: enumField(SERVICE_MATERIALES, "Material inválido"),
+        precio_gramo: positiveMoney("Precio por gramo"),
+      })
+    )
+    .min(1, "Ingresa al menos un precio")
+    .max(SERVICE_MATERIALES.length, "Demasiados materiales")
+    .refine(
+      (rows) => new Set(rows.map((r) => r.material)).size === rows.length,
+      "Cada material solo puede aparecer una vez"
+    ),
+});
+
+export type MetalPriceEntry = z.output<typeof metalPricesUpdateSchema>["precios"][number];
+
+const MAX_LABOR_RATES = 100;
+const MAX_WARRANTY_DAYS = 3650;
+
+/** Días de garantía: entero entre 0 y 10 años */
+export function warrantyDays(label: string) {
+  return z.coerce
+    .number(`${label} debe ser un número válido`)
+    .int(`${label} debe ser un número entero`)
+    .min(0, `${label} no puede ser negativo`)
+    .max(MAX_WARRANTY_DAYS, `${label} es demasiado alto`);
+}
+
+/** PUT /api/pricing/rates: reemplaza la lista de tarifas */
+export const laborRatesUpdateSchema = z.object({
+  tarifas: z
+    .array(
+      z.object({
+        id: z.preprocess(emptyToUndefined, z.uuid("Tarifa inválida").optional()),
+        tipo: enumField(LABOR_RATE_TIPOS, "Tipo de tarifa inválido"),
+        nombre: requiredText("Nombre", 100),
+        valor: positiveMoney("Valor"),
+        garantia_dias: z.preprocess(emptyToUndefined, warrantyDays("Días de garantía").nullable().default(null)),
+      })
+      // Los engastes no tienen garantía propia
+      .transform((r) => (r.tipo === "trabajo" ? r : { ...r, garantia_dias: null }))
+    )
+    .max(MAX_LABOR_RATES, "Demasiadas tarifas")
+    .refine(
+      (rows) => new Set(rows.map((r) => `${r.tipo}:${r.nombre.toLowerCase()}`)).size === rows.length,
+      "No puede haber dos tarifas del mismo tipo con el mismo nombre"
+    ),
+});
+
+export type LaborRateEntry = z.output<typeof laborRatesUpdateSchema>["tarifas"][number];
+
+/** Datos con los que se calcula una cotización (los envía el formulario) */
+export const quoteRequestSchema = z.object(
+  {
+    material: enumField(SERVICE_MATERIALES, "Material inválido"),
+    peso_g: gramsValue("Peso"),
+    trabajo_id: z.preprocess(emptyToUndefined, z.string().nullable().default(null)),
+    engastes: z
+      .array(
+        z.object({
+          tarifa_id: z.string().min(1, "Selecciona el engaste"),
+          cantidad: z.coerce
+            .number("Cantidad inválida")
+            .int("La cantidad debe ser un número entero")
+            .min(1, "La cantidad debe ser al menos 1")
+            .max(1000, "Cantidad demasiado alta"),
+        })
+      )
+      .max(20, "Demasiados engastes")
+      .default([]),
+  },
+  { error: "Cotización inválida" }
+);
+
+export type QuoteRequest = z.output<typeof quoteRequestSchema>;
+
+/**
+ * Campo `cotizacion` del FormData de servicios: JSON de QuoteRequest.
+ * Vacío → null (el servicio no se cotizó con la calculadora).
+ */
+export const quoteRequestField = z.preprocess((v) => {
+  const raw = emptyToUndefined(v);
+  if (raw === undefined) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}, quoteRequestSchema.nullable());
+
+export type QuoteResult = { valid: true; quote: QuoteSnapshot } | { valid: false; fields: FieldErrors };
+
+/** Precio vigente del material, o undefined si nunca se registró */
+export function priceFor(prices: MetalPrice[], material: ServiceMaterial) {
+  return prices.find((p) => p.material === material);
+}
+
+/**
+ * Cotización = peso × precio del gramo + mano de obra + engastes.
+ * Los errores usan las rutas de QuoteRequest (`engastes.0.tarifa_id`…).
+ * Los valores en pesos se redondean al peso.
+ */
+export function computeQuote(
+  request: QuoteRequest,
+  prices: MetalPrice[],
+  rates: LaborRate[],
+  now: Date = new Date()
+): QuoteResult {
+  const fields: FieldErrors = {};
+
+  const price = priceFor(prices, request.material);
+  if (!price) fields.material = `No hay precio registrado para ${request.material}`;
+
+  const trabajo = request.trabajo_id
+    ? rates.find((r) => r.id === request.trabajo_id && r.tipo === "trabajo")
+    : null;
+  if (request.trabajo_id && !trabajo) fields.trabajo_id = "La tarifa de mano de obra ya no existe";
+
+  const engastes = request.engastes.map((e, i) => {
+    const rate = rates.find((r) => r.id === e.tarifa_id && r.tipo === "engaste");
+    if (!rate) fields[`engastes.${i}.tarifa_id`] = "La tarifa de engaste ya no existe";
+    const valor = rate?.valor ?? 0;
+    return { nombre: rate?.nombre ?? "", valor, cantidad: e.cantidad, subtotal: Math.round(valor * e.cantidad) };
+  });
+
+  if (!price || Object.keys(fields).length > 0) return { valid: false, fields };
+
+  const metal = Math.round(request.peso_g * price.precio_gramo);
+  const mano_obra = trabajo
+    ? { nombre: trabajo.nombre, valor: trabajo.valor, garantia_dias: trabajo.garantia_dias }
+    : null;
+  const total = metal + (mano_obra?.valor ?? 0) + engastes.reduce((acc, e) => acc + e.subtotal, 0);
+
+  return {
+    valid: true,
+    quote: {
+      material: request.material,
+      fecha_precio: price.fecha,
+      precio_gramo: price.precio_gramo,
+      peso_g: request.peso_g,
+      metal,
+      mano_obra,
+      engastes,
+      total: Math.round(total),
+      calculada_at: now.toISOString(),
+    },
+  };
+}
+
+/** Orden de las tarifas: mano de obra primero, luego por nombre */
+export function sortLaborRates(rates: LaborRate[]) {
+  const order = (t: LaborRateTipo) => LABOR_RATE_TIPOS.indexOf(t);
+  return [...rates].sort((a, b) => order(a.tipo) - order(b.tipo) || a.nombre.localeCompare(b.nombre, "es"));
+}
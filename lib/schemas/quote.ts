@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+/**
+ * Copia de la cotización guardada en el servicio (`services.cotizacion`):
+ * precios y tarifas tal como estaban al cotizar (ver lib/schemas/pricing).
+ * Módulo aparte para que el esquema del servicio no dependa de las tarifas.
+ */
+export const quoteSnapshotSchema = z.object({
+  material: z.string(),
+  /** Día desde el que regía el precio usado */
+  fecha_precio: z.string(),
+  precio_gramo: z.number(),
+  peso_g: z.number(),
+  metal: z.number(),
+  /** Trabajo cotizado; `garantia_dias` es la cobertura que tenía al cotizar */
+  mano_obra: z
+    .object({ nombre: z.string(), valor: z.number(), garantia_dias: z.number().nullable().optional() })
+    .nullable(),
+  engastes: z.array(
+    z.object({ nombre: z.string(), valor: z.number(), cantidad: z.number(), subtotal: z.number() })
+  ),
+  total: z.number(),
+  calculada_at: z.string(),
+});
+
+export type QuoteSnapshot = z.infer<typeof quoteSnapshotSchema>;
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { enumField } from "./fields";
+
+/**
+ * Roles de los empleados. Se guardan en la tabla `user_roles` (solo la API
+ * con SERVICE_ROLE_KEY la modifica), no en `user_metadata`, que el propio
+ * usuario puede editar desde el cliente de Supabase.
+ */
+
+export const ROLES = ["admin", "vendedor", "taller", "consulta"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+/** Rol de un usuario sin fila en `user_roles`: solo lectura */
+export const DEFAULT_ROLE: Role = "consulta";
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: "Administrador",
+  vendedor: "Vendedor / agente",
+  taller: "Taller",
+  consulta: "Consulta",
+};
+
+export const LAST_ADMIN_MESSAGE = "Debe quedar al menos un administrador";
+
+/** Fila de la tabla `user_roles` */
+export const userRoleSchema = z.object({
+  user_id: z.string(),
+  email: z.string().nullable(),
+  role: z.enum(ROLES),
+  updated_at: z.string().optional(),
+});
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+/** PUT /api/users/[id]/role */
+export const userRoleUpdateSchema = z.object({
+  role: enumField(ROLES, "Rol inválido"),
+});
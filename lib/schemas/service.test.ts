@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  ABONO_EXCEEDS_COSTO_MESSAGE,
+  INITIAL_ESTADO_MESSAGE,
+  serviceCreateSchema,
+  serviceFormToFormData,
+  serviceListQuerySchema,
+  serviceToFormValues,
+  serviceUpdateSchema,
+} from "./service";
+import { formatApiError, toFieldErrors } from "./fieldErrors";
+import { serviceFixture, serviceForm } from "../../tests/fixtures";
+
+function createErrors(overrides: Record<string, string>) {
+  const parsed = serviceCreateSchema.safeParse(Object.fromEntries(serviceForm(overrides)));
+  return parsed.success ? {} : toFieldErrors(parsed.error);
+}
+
+describe("esquema de creación del servicio", () => {
+  it("normaliza el formulario: dinero, hora, texto y pagos iniciales", () => {
+    const parsed = serviceCreateSchema.parse(
+      Object.fromEntries(serviceForm({ abono: "20000,5", hora: "09:30", cliente: "  <Ana> Gómez " }))
+    );
+
+    expect(parsed).toMatchObject({
+      cliente: "Ana Gómez",
+      hora: "09:30:00",
+      abono: 20000.5,
+      costo_final: 100_000,
+      customer_id: null,
+      abono_pagado: false,
+      metodo_pago: "Efectivo",
+    });
+  });
+
+  it("devuelve un error por campo", () => {
+    expect(createErrors({ cliente: "", telefono: "abc", fecha: "16/10/2026", material: "Bronce" })).toEqual({
+      cliente: "Cliente es requerido",
+      telefono: "Formato de teléfono inválido",
+      fecha: "Formato de fecha inválido. Debe ser YYYY-MM-DD",
+      material: "Material inválido. Debe ser uno de: Oro de 14k, Oro 18k, Plata 925, Plata 950",
+    });
+  });
+
+  it("el costo final es requerido y el abono no lo supera", () => {
+    expect(createErrors({ costo_final: "" }).costo_final).toBe("Costo final es requerido");
+    expect(createErrors({ abono: "-1" }).abono).toBe("Abono no puede ser negativo");
+    expect(createErrors({ abono: "150000" })).toEqual({ abono: ABONO_EXCEEDS_COSTO_MESSAGE });
+  });
+
+  it("un servicio nuevo no se registra entregado ni en garantía", () => {
+    expect(createErrors({ estado: "En fabricación" })).toEqual({});
+    expect(createErrors({ estado: "Entregado" })).toEqual({ estado: INITIAL_ESTADO_MESSAGE });
+    expect(createErrors({ estado: "Garantía" })).toEqual({ estado: INITIAL_ESTADO_MESSAGE });
+  });
+});
+
+describe("esquema de actualización del servicio", () => {
+  it("solo valida los campos enviados", () => {
+    expect(serviceUpdateSchema.parse({ descripcion: "Pulido" })).toEqual({ descripcion: "Pulido" });
+    expect(serviceUpdateSchema.safeParse({ costo_final: "abc" }).success).toBe(false);
+  });
+
+  it("el formulario de edición vuelve a pasar la validación sin cambios", () => {
+    const service = serviceFixture({ hora: "10:00:00" });
+    const values = serviceToFormValues(service);
+    const parsed = serviceUpdateSchema.parse(Object.fromEntries(serviceFormToFormData(values)));
+
+    expect(parsed).toMatchObject({ hora: "10:00:00", costo_final: 100_000, customer_id: null });
+  });
+});
+
+describe("filtros del listado", () => {
+  it("acota la paginación y el orden a valores conocidos", () => {
+    const query = serviceListQuerySchema.parse({ limit: "9999", offset: "-5", order: "telefono.asc", estado: "" });
+
+    expect(query).toMatchObject({ limit: 500, offset: 0, orderField: "created_at", ascending: true });
+    expect(query.estado).toBeUndefined();
+  });
+});
+
+describe("mensajes de error de la API", () => {
+  it("prefiere los errores por campo al mensaje general", () => {
+    expect(formatApiError({ error: "Datos inválidos", fields: { cliente: "Cliente es requerido" } }, "x")).toBe(
+      "Cliente es requerido"
+    );
+    expect(formatApiError({ error: "Servicio no encontrado" }, "x")).toBe("Servicio no encontrado");
+    expect(formatApiError(null, "Error inesperado")).toBe("Error inesperado");
+  });
+});
@@ -0,0 +1,326 @@
+import { z } from "zod";
+import {
+  MAX_DESCRIPTION_LENGTH,
+  cleanText,
+  dateString,
+  emptyToUndefined,
+  enumField,
+  formBoolean,
+  moneyValue,
+  phoneString,
+  requiredText,
+  timeString,
+  toText,
+} from "./fields";
+import { PAYMENT_METODOS, computeBalance, type ServiceBalance } from "./payment";
+import { quoteSnapshotSchema } from "./quote";
+
+/**
+ * Esquema único de la entidad "servicio".
+ * Lo comparten la API (validación de payloads y query params),
+ * los formularios (NewServiceModal, detalle) y el PDF de factura.
+ */
+
+export const SERVICE_ESTADOS = ["Pendiente", "En fabricación", "Garantía", "Entregado"] as const;
+export const SERVICE_PRIORIDADES = ["24 horas", "48 horas", "72 horas", "Normal"] as const;
+export const SERVICE_MATERIALES = ["Oro de 14k", "Oro 18k", "Plata 925", "Plata 950"] as const;
+export const SERVICE_ORDER_FIELDS = ["created_at", "fecha", "fecha_entrega", "code", "cliente"] as const;
+
+export type ServiceEstado = (typeof SERVICE_ESTADOS)[number];
+export type ServicePrioridad = (typeof SERVICE_PRIORIDADES)[number];
+export type ServiceMaterial = (typeof SERVICE_MATERIALES)[number];
+export type ServiceOrderField = (typeof SERVICE_ORDER_FIELDS)[number];
+
+/**
+ * Entidad tal como la devuelve la API (fila de la tabla `services`).
+ */
+export const serviceSchema = z.object({
+  id: z.string().optional(),
+  code: z.string(),
+  customer_id: z.string().nullable().optional(), // directorio de clientes
+  cliente: z.string(),
+  telefono: z.string(),
+  maquina: z.string(),
+  fecha: z.string(), // YYYY-MM-DD
+  hora: z.string(), // HH:mm:ss o HH:mm
+  estado: z.enum(SERVICE_ESTADOS),
+  descripcion: z.string(),
+  material: z.string(),
+  agente: z.string(),
+  almacen: z.string(),
+  prioridad: z.enum(SERVICE_PRIORIDADES),
+  // Entrega comprometida según prioridad y horario del taller (lib/sla/due)
+  fecha_entrega: z.string().nullable().optional(),
+  // Consecutivo de factura (lib/codes), asignado al imprimirla por primera vez
+  factura_numero: z.string().nullable().optional(),
+  abono: z.coerce.number(),
+  costo_final: z.coerce.number(),
+  pago_final: z.coerce.number().nullable().optional(),
+  // Copia de la cotización con la calculadora (precios y tarifas usados)
+  cotizacion: quoteSnapshotSchema.nullable().optional(),
+  // Suma de piedras y componentes (`service_components`), se cobra con el costo final
+  componentes_total: z.coerce.number().optional(),
+  // Reclamo de garantía: código del servicio original (lib/warranty/coverage)
+  garantia_de: z.string().nullable().optional(),
+  // Derivados del libro de pagos (se sincronizan al registrar/eliminar pagos)
+  abono_pagado: z.boolean(),
+  costo_final_pagado: z.boolean(),
+  created_at: z.string().optional(),
+  // Papelera: null mientras el servicio está activo
+  deleted_at: z.string().nullable().optional(),
+  deleted_by: z.string().nullable().optional(),
+  // Calculados por la API a partir de `service_payments` (no son columnas)
+  total_pagado: z.coerce.number().optional(),
+  saldo: z.coerce.number().optional(),
+});
+
+export type Service = z.infer<typeof serviceSchema>;
+
+/** Campos editables por el usuario (payload de creación / actualización) */
+const serviceFields = {
+  // Vacío: la API enlaza (o crea) el cliente por teléfono
+  customer_id: z.preprocess(emptyToUndefined, z.uuid("Cliente inválido").nullable().default(null)),
+  cliente: requiredText("Cliente"),
+  telefono: z.preprocess(toText, phoneString),
+  maquina: requiredText("Máquina"),
+  fecha: z.preprocess(toText, dateString),
+  hora: z.preprocess(toText, timeString),
+  estado: enumField(SERVICE_ESTADOS, "Estado inválido"),
+  descripcion: requiredText("Descripción", MAX_DESCRIPTION_LENGTH),
+  material: enumField(SERVICE_MATERIALES, "Material inválido"),
+  agente: requiredText("Agente"),
+  almacen: requiredText("Almacén"),
+  prioridad: enumField(SERVICE_PRIORIDADES, "Prioridad inválida"),
+  abono: moneyValue("Abono", false),
+  costo_final: moneyValue("Costo final", true),
+};
+
+const serviceFieldsSchema = z.object(serviceFields);
+
+/**
+ * Pagos recibidos al crear el servicio. No son columnas: la ruta POST
+ * los registra como filas del libro de pagos.
+ */
+const initialPaymentFields = {
+  abono_pagado: formBoolean,
+  costo_final_pagado: formBoolean,
+  metodo_pago: z.preprocess(
+    emptyToUndefined,
+    enumField(PAYMENT_METODOS, "Método de pago inválido").default("Efectivo")
+  ),
+};
+
+export const ABONO_EXCEEDS_COSTO_MESSAGE = "El abono no puede ser mayor al costo final";
+export const INITIAL_ESTADO_MESSAGE =
+  "Un servicio nuevo se registra Pendiente o En fabricación (la garantía se reclama desde el servicio entregado)";
+
+/**
+ * Estados con los que se puede registrar un servicio (ver lib/schemas/status).
+ * "Garantía" no: esos servicios los abre el reclamo (lib/warranty/claim).
+ */
+export const SERVICE_INITIAL_ESTADOS = ["Pendiente", "En fabricación"] as const;
+
+/** POST /api/services */
+export const serviceCreateSchema = z
+  .object({ ...serviceFields, ...initialPaymentFields })
+  .refine((s) => s.abono <= s.costo_final, {
+    path: ["abono"],
+    message: ABONO_EXCEEDS_COSTO_MESSAGE,
+  })
+  .refine((s) => (SERVICE_INITIAL_ESTADOS as readonly string[]).includes(s.estado), {
+    path: ["estado"],
+    message: INITIAL_ESTADO_MESSAGE,
+  });
+
+/**
+ * PUT /api/services/[code]: solo se validan los campos enviados.
+ * La regla abono <= costo final se revisa en la ruta contra el servicio existente.
+ * `estado` solo se acepta sin cambios: se cambia con POST /api/services/[code]/status.
+ */
+export const serviceUpdateSchema = serviceFieldsSchema.partial();
+
+export type ServiceFields = z.output<typeof serviceFieldsSchema>;
+export type ServicePayload = z.output<typeof serviceCreateSchema>;
+export type ServiceUpdatePayload = z.output<typeof serviceUpdateSchema>;
+
+/**
+ * GET /api/services: query params → filtros listos para el repositorio.
+ */
+export const serviceListQuerySchema = z
+  .object({
+    q: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    customer_id: z.preprocess(emptyToUndefined, z.uuid("Cliente inválido").optional()),
+    // garantia_de=código: reclamos de garantía de ese servicio
+    garantia_de: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    estado: z.preprocess(emptyToUndefined, enumField(SERVICE_ESTADOS, "Estado inválido").optional()),
+    maquina: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    prioridad: z.preprocess(
+      emptyToUndefined,
+      enumField(SERVICE_PRIORIDADES, "Prioridad inválida").optional()
+    ),
+    agente: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    almacen: z.preprocess(emptyToUndefined, z.string().transform(cleanText).optional()),
+    desde: z.preprocess(emptyToUndefined, dateString.optional()),
+    hasta: z.preprocess(emptyToUndefined, dateString.optional()),
+    abono_min: z.preprocess(emptyToUndefined, moneyValue("Abono mínimo", false).optional()),
+    abono_max: z.preprocess(emptyToUndefined, moneyValue("Abono máximo", false).optional()),
+    costo_final_min: z.preprocess(
+      emptyToUndefined,
+      moneyValue("Costo final mínimo", false).optional()
+    ),
+    costo_final_max: z.preprocess(
+      emptyToUndefined,
+      moneyValue("Costo final máximo", false).optional()
+    ),
+    abono_pagado: z.preprocess(emptyToUndefined, z.enum(["true", "false"]).optional()),
+    costo_final_pagado: z.preprocess(emptyToUndefined, z.enum(["true", "false"]).optional()),
+    // vencidos=true: solo servicios no entregados con la fecha de entrega vencida
+    vencidos: z.preprocess(emptyToUndefined, z.enum(["true", "false"]).optional()),
+    // limit: default 200, max 500
+    limit: z.unknown().transform((v) => {
+      const n = Number(v ?? "200");
+      return Number.isFinite(n) ? Math.min(Math.max(n, 1), 500) : 200;
+    }),
+    offset: z.unknown().transform((v) => {
+      const n = Number(v ?? "0");
+      return Number.isFinite(n) ? Math.max(n, 0) : 0;
+    }),
+    // order=campo.asc|desc (default created_at.desc)
+    order: z.unknown().transform((v) => {
+      const [field, direction] = String(v ?? "created_at.desc").split(".");
+      return {
+        field: SERVICE_ORDER_FIELDS.find((f) => f === field) ?? "created_at",
+        ascending: direction === "asc",
+      };
+    }),
+  })
+  .transform((p) => ({
+    q: p.q,
+    customerId: p.customer_id,
+    garantiaDe: p.garantia_de,
+    estado: p.estado,
+    maquina: p.maquina,
+    prioridad: p.prioridad,
+    agente: p.agente,
+    almacen: p.almacen,
+    desde: p.desde,
+    hasta: p.hasta,
+    abonoMin: p.abono_min,
+    abonoMax: p.abono_max,
+    costoFinalMin: p.costo_final_min,
+    costoFinalMax: p.costo_final_max,
+    abonoPagado: p.abono_pagado === undefined ? undefined : p.abono_pagado === "true",
+    costoFinalPagado:
+      p.costo_final_pagado === undefined ? undefined : p.costo_final_pagado === "true",
+    vencidos: p.vencidos === "true",
+    limit: p.limit,
+    offset: p.offset,
+    orderField: p.order.field,
+    ascending: p.order.ascending,
+  }));
+
+export type ServiceListQuery = z.output<typeof serviceListQuerySchema>;
+
+/** GET /api/services/trash (papelera) */
+export const trashListQuerySchema = z.object({
+  // limit: default 200, max 500
+  limit: z.unknown().transform((v) => {
+    const n = Number(v ?? "200");
+    return Number.isFinite(n) ? Math.min(Math.max(n, 1), 500) : 200;
+  }),
+  offset: z.unknown().transform((v) => {
+    const n = Number(v ?? "0");
+    return Number.isFinite(n) ? Math.max(n, 0) : 0;
+  }),
+});
+
+/**
+ * Valores de los formularios de servicio (inputs HTML: dinero como texto,
+ * material vacío hasta que se selecciona).
+ */
+export type ServiceFormValues = Omit<ServiceFields, "material" | "abono" | "costo_final"> & {
+  material: ServiceMaterial | "";
+  abono: string;
+  costo_final: string;
+};
+
+/** Formulario de creación: además registra los pagos recibidos en el momento */
+export type NewServiceFormValues = ServiceFormValues &
+  Pick<ServicePayload, "abono_pagado" | "costo_final_pagado" | "metodo_pago">;
+
+/** Formulario vacío para un servicio nuevo (fecha/hora actuales) */
+export function emptyServiceForm(now: Date = new Date()): NewServiceFormValues {
+  const h = String(now.getHours()).padStart(2, "0");
+  const m = String(now.getMinutes()).padStart(2, "0");
+  return {
+    customer_id: null,
+    cliente: "",
+    telefono: "",
+    maquina: "",
+    fecha: now.toISOString().slice(0, 10),
+    hora: `${h}:${m}`,
+    estado: "Pendiente",
+    descripcion: "",
+    material: "",
+    agente: "",
+    almacen: "",
+    prioridad: "24 horas",
+    abono: "",
+    costo_final: "",
+    abono_pagado: false,
+    costo_final_pagado: false,
+    metodo_pago: "Efectivo",
+  };
+}
+
+/** Servicio guardado → valores del formulario de edición */
+export function serviceToFormValues(s: Service): ServiceFormValues {
+  return {
+    customer_id: s.customer_id ?? null,
+    cliente: s.cliente ?? "",
+    telefono: s.telefono ?? "",
+    maquina: s.maquina ?? "",
+    fecha: s.fecha ?? "",
+    hora: String(s.hora ?? "").slice(0, 5),
+    estado: s.estado ?? "Pendiente",
+    descripcion: s.descripcion ?? "",
+    material: (SERVICE_MATERIALES as readonly string[]).includes(s.material)
+      ? (s.material as ServiceMaterial)
+      : "",
+    agente: s.agente ?? "",
+    almacen: s.almacen ?? "",
+    prioridad: s.prioridad ?? "Normal",
+    abono: String(s.abono ?? ""),
+    costo_final: String(s.costo_final ?? ""),
+  };
+}
+
+/** Valores del formulario → FormData para POST/PUT (mismos nombres que el esquema) */
+export function serviceFormToFormData(values: ServiceFormValues): FormData {
+  const fd = new FormData();
+  for (const [key, value] of Object.entries(values)) {
+    fd.append(key, String(value));
+  }
+  return fd;
+}
+
+/** Pago final = costo final - abono (si no viene calculado desde la base de datos) */
+export function servicePagoFinal(s: Pick<Service, "abono" | "costo_final" | "pago_final">) {
+  const fromDb = Number(s.pago_final);
+  if (s.pago_final !== null && s.pago_final !== undefined && Number.isFinite(fromDb)) return fromDb;
+  const diff = Number(s.costo_final ?? 0) - Number(s.abono ?? 0);
+  return Number.isFinite(diff) ? diff : 0;
+}
+
+/** Total a cobrar: costo final + piedras y componentes */
+export function serviceTotal(s: Pick<Service, "costo_final" | "componentes_total">) {
+  const total = Number(s.costo_final ?? 0) + Number(s.componentes_total ?? 0);
+  return Number.isFinite(total) ? total : 0;
+}
+
+/** Saldo del servicio según los pagos que adjunta la API (`total_pagado`) */
+export function serviceBalance(
+  s: Pick<Service, "costo_final" | "componentes_total" | "total_pagado">
+): ServiceBalance {
+  return computeBalance(serviceTotal(s), Number(s.total_pagado ?? 0));
+}
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import {
+  MAX_DESCRIPTION_LENGTH,
+  cleanText,
+  emptyToUndefined,
+  formBoolean,
+  optionalText,
+  requiredText,
+} from "./fields";
+import { warrantyDays } from "./pricing";
+
+/**
+ * Perfil de la empresa y marca de los documentos impresos (factura PDF).
+ * Una sola fila en `company_settings`; sin fila se usan los valores por defecto.
+ */
+
+const MAX_LINES = 6;
+
+/** Valores de la tienda original (antes estaban fijos en la ruta del PDF) */
+export const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  razon_social: "Joyeria Briolete",
+  nombre_comercial: "Briolete",
+  nit: null,
+  direcciones: ["Dirección: Cra 45c # 38b sur - 64", "Envigado (Antioquia) Colombia", "Barrio Alcalá"],
+  telefonos: [],
+  redes: ["@joyeriabriolete"],
+  email: null,
+  logo_path: null,
+  pie_legal: null,
+  terminos_factura: null,
+  garantia_dias: 90,
+  terminos_garantia: null,
+};
+
+/** Fila de la tabla `company_settings` */
+export const companySettingsSchema = z.object({
+  razon_social: z.string(),
+  nombre_comercial: z.string(),
+  nit: z.string().nullable(),
+  direcciones: z.array(z.string()),
+  telefonos: z.array(z.string()),
+  redes: z.array(z.string()),
+  email: z.string().nullable(),
+  /** Ruta del logo en el bucket `branding` (null: logo por defecto de /public) */
+  logo_path: z.string().nullable(),
+  pie_legal: z.string().nullable(),
+  terminos_factura: z.string().nullable(),
+  /** Garantía de los trabajos sin días propios en las tarifas (lib/warranty/coverage) */
+  garantia_dias: z.coerce.number(),
+  terminos_garantia: z.string().nullable(),
+  updated_at: z.string().optional(),
+});
+
+export type CompanySettings = z.infer<typeof companySettingsSchema>;
+
+/** Texto de un textarea → una entrada por línea (sin vacías) */
+function textLines(label: string) {
+  return z.preprocess(
+    (v) =>
+      String(v ?? "")
+        .split(/\r?\n/)
+        .map((line) => cleanText(line))
+        .filter(Boolean),
+    z
+      .array(z.string().max(200, `${label}: cada línea admite máximo 200 caracteres`))
+      .max(MAX_LINES, `${label}: máximo ${MAX_LINES} líneas`)
+  );
+}
+
+/** PUT /api/settings (FormData; el logo llega como archivo `logoFile`) */
+export const companySettingsUpdateSchema = z.object({
+  razon_social: requiredText("Razón social", 200),
+  nombre_comercial: requiredText("Nombre comercial", 200),
+  nit: optionalText("NIT", 20),
+  direcciones: textLines("Direcciones"),
+  telefonos: textLines("Teléfonos"),
+  redes: textLines("Redes sociales"),
+  email: z.preprocess(
+    emptyToUndefined,
+    z.email("Correo electrónico inválido").max(200).nullable().default(null)
+  ),
+  pie_legal: optionalText("Pie legal", MAX_DESCRIPTION_LENGTH),
+  terminos_factura: optionalText("Términos de la factura", MAX_DESCRIPTION_LENGTH),
+  garantia_dias: z.preprocess(emptyToUndefined, warrantyDays("Días de garantía")),
+  terminos_garantia: optionalText("Condiciones de la garantía", MAX_DESCRIPTION_LENGTH),
+  // "true": volver al logo por defecto
+  quitar_logo: formBoolean,
+});
+
+export type CompanySettingsUpdate = z.output<typeof companySettingsUpdateSchema>;
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { enumField, optionalText } from "./fields";
+import { SERVICE_ESTADOS, type ServiceEstado } from "./service";
+
+/**
+ * Flujo de estados del servicio. El estado solo cambia con una transición
+ * permitida (POST /api/services/[code]/status) y cada cambio queda en
+ * `service_status_history`. "Entregado" es final: la garantía se reclama con
+ * POST /api/services/[code]/warranty, que abre un servicio enlazado.
+ */
+
+export const STATUS_TRANSITIONS: Record<ServiceEstado, readonly ServiceEstado[]> = {
+  Pendiente: ["En fabricación"],
+  "En fabricación": ["Pendiente", "Entregado"],
+  Entregado: [],
+  Garantía: ["En fabricación", "Entregado"],
+};
+
+export function allowedTransitions(from: ServiceEstado): readonly ServiceEstado[] {
+  return STATUS_TRANSITIONS[from] ?? [];
+}
+
+export function canTransition(from: ServiceEstado, to: ServiceEstado) {
+  return allowedTransitions(from).includes(to);
+}
+
+export const ESTADO_VIA_TRANSITION_MESSAGE = "El estado se cambia desde el flujo de estados del servicio";
+export const SALDO_PENDIENTE_MESSAGE = "No se puede entregar un servicio con saldo pendiente";
+
+export function invalidTransitionMessage(from: ServiceEstado, to: ServiceEstado) {
+  return `No se puede pasar de "${from}" a "${to}"`;
+}
+
+/** Fila de la tabla `service_status_history` */
+export const statusHistorySchema = z.object({
+  id: z.string(),
+  service_code: z.string(),
+  de: z.enum(SERVICE_ESTADOS).nullable(), // null: estado inicial
+  a: z.enum(SERVICE_ESTADOS),
+  usuario: z.string(),
+  nota: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type StatusHistoryEntry = z.infer<typeof statusHistorySchema>;
+
+/** POST /api/services/[code]/status */
+export const statusTransitionSchema = z.object({
+  estado: enumField(SERVICE_ESTADOS, "Estado inválido"),
+  nota: optionalText("Nota"),
+});
+
+export type StatusTransitionPayload = z.output<typeof statusTransitionSchema>;
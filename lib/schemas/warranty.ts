@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { requiredText } from "./fields";
+
+/**
+ * Garantía de un servicio entregado: se registra al pasar a "Entregado" con
+ * la cobertura del tipo de trabajo (tarifas de mano de obra) o la general
+ * de la empresa. Un reclamo abre un servicio nuevo enlazado al original
+ * (`services.garantia_de`), en estado "Garantía" y sin costo.
+ */
+
+/** Fila de la tabla `service_warranties` (una por servicio) */
+export const serviceWarrantySchema = z.object({
+  service_code: z.string(),
+  /** Mano de obra cotizada (null: servicio sin cotización, garantía general) */
+  tipo_trabajo: z.string().nullable(),
+  dias: z.coerce.number(),
+  inicio: z.string(), // YYYY-MM-DD (entrega)
+  vence: z.string(), // YYYY-MM-DD (último día cubierto)
+  terminos: z.string().nullable(),
+  created_at: z.string(),
+});
+
+export type ServiceWarranty = z.infer<typeof serviceWarrantySchema>;
+
+export type WarrantyInput = Omit<ServiceWarranty, "created_at">;
+
+/** Cobertura que aplica a un servicio (la de la factura antes de entregarlo) */
+export type WarrantyCoverage = Pick<ServiceWarranty, "tipo_trabajo" | "dias" | "terminos">;
+
+/** POST /api/services/[code]/warranty */
+export const warrantyClaimSchema = z.object({
+  motivo: requiredText("Motivo del reclamo", 1000),
+});
+
+export type WarrantyClaimPayload = z.output<typeof warrantyClaimSchema>;
+
+export const WARRANTY_NOT_DELIVERED_MESSAGE = "Solo se puede reclamar la garantía de un servicio entregado";
+
+export function warrantyOfClaimMessage(original: string) {
+  return `Este servicio ya es un reclamo de garantía: reclama desde el servicio original ${original}`;
+}
+
+export function warrantyExpiredMessage(vence: string) {
+  const [yyyy, mm, dd] = vence.split("-");
+  return `La garantía venció el ${dd}-${mm}-${yyyy}`;
+}
+
+/** YYYY-MM-DD + días (en UTC, sin corrimientos por horario) */
+export function addDays(fecha: string, dias: number) {
+  const date = new Date(`${fecha}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + dias);
+  return date.toISOString().slice(0, 10);
+}
+
+/** Días entre dos fechas YYYY-MM-DD */
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+/** Vigente hasta el día `vence` inclusive; `dias_restantes` es 0 el último día */
+export function warrantyStatus(warranty: Pick<ServiceWarranty, "vence">, today: string) {
+  const dias_restantes = daysBetween(today, warranty.vence);
+  return { vigente: dias_restantes >= 0, dias_restantes: Math.max(dias_restantes, 0) };
+}
+
+export type WarrantyStatus = ReturnType<typeof warrantyStatus>;
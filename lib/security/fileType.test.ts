@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { detectFileType } from "./fileType";
+
+const OLE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+/** Archivo OLE con las entradas de directorio dadas (nombres en UTF-16) */
+const ole = (...entries: string[]) =>
+  new Uint8Array(Buffer.concat([OLE_SIGNATURE, Buffer.alloc(504), ...entries.map((e) => Buffer.from(e, "utf16le"))]));
+
+describe("tipo de archivo por contenido", () => {
+  it("detecta PDF, PNG y JPEG por su firma, no por el nombre", () => {
+    expect(detectFileType(new Uint8Array(Buffer.from("%PDF-1.7\n")))?.ext).toBe("pdf");
+    expect(detectFileType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))?.ext).toBe("png");
+    expect(detectFileType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))?.ext).toBe("jpg");
+    expect(detectFileType(new Uint8Array(Buffer.from("<html>")))).toBeNull();
+  });
+
+  it("acepta un .doc de Word y rechaza los que traen macros", () => {
+    expect(detectFileType(ole("Root Entry", "WordDocument", "1Table"))?.ext).toBe("doc");
+    expect(detectFileType(ole("Root Entry", "Workbook"))).toBeNull();
+    expect(detectFileType(ole("Root Entry", "WordDocument", "Macros", "VBA", "_VBA_PROJECT"))).toBeNull();
+    expect(detectFileType(ole("Root Entry", "WordDocument", "_VBA_PROJECT_CUR", "VBA"))).toBeNull();
+  });
+
+  it("rechaza los DOCX con macros", () => {
+    const zip = (...parts: string[]) =>
+      new Uint8Array(Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from(parts.join("\n"))]));
+    expect(detectFileType(zip("[Content_Types].xml", "word/document.xml"))?.ext).toBe("docx");
+    expect(detectFileType(zip("[Content_Types].xml", "word/document.xml", "word/vbaProject.bin"))).toBeNull();
+  });
+});
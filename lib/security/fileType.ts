@@ -0,0 +1,64 @@
+/**
+ * Tipo real de un archivo según su contenido (firma o "magic bytes").
+ *
+ * El `type` y la extensión que envía el navegador los decide el cliente;
+ * lo que se guarda y se sirve usa siempre el tipo detectado aquí.
+ */
+
+export type DetectedFileType = {
+  contentType: string;
+  ext: string;
+  kind: "pdf" | "image" | "document";
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+const PDF_SIGNATURE = [0x25, 0x50, 0x44, 0x46, 0x2d]; // %PDF-
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]; // .doc (y otros de Office 97)
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+/** Entradas del directorio OLE de un .doc con macros */
+const OLE_MACRO_STORAGES = ["Macros", "_VBA_PROJECT"];
+
+export const PNG: DetectedFileType = { contentType: "image/png", ext: "png", kind: "image" };
+export const JPEG: DetectedFileType = { contentType: "image/jpeg", ext: "jpg", kind: "image" };
+const PDF: DetectedFileType = { contentType: "application/pdf", ext: "pdf", kind: "pdf" };
+const DOC: DetectedFileType = { contentType: "application/msword", ext: "doc", kind: "document" };
+const DOCX: DetectedFileType = {
+  contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ext: "docx",
+  kind: "document",
+};
+
+function startsWith(bytes: Uint8Array, signature: number[]) {
+  return signature.every((b, i) => bytes[i] === b);
+}
+
+function contains(bytes: Uint8Array, text: string, encoding: "latin1" | "utf16le" = "latin1") {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).includes(Buffer.from(text, encoding));
+}
+
+/**
+ * PDF, PNG, JPEG, DOC o DOCX; null si el contenido es otro.
+ * Los .doc deben tener el flujo `WordDocument` (no cualquier archivo OLE) y
+ * los .docx `word/document.xml`. Los documentos con macros se rechazan: en
+ * DOCX la parte vbaProject.bin, en DOC el almacenamiento `Macros` o el
+ * proyecto VBA (`_VBA_PROJECT`); los nombres del directorio OLE van en UTF-16.
+ */
+export function detectFileType(bytes: Uint8Array): DetectedFileType | null {
+  if (startsWith(bytes, PNG_SIGNATURE)) return PNG;
+  if (startsWith(bytes, JPEG_SIGNATURE)) return JPEG;
+  if (startsWith(bytes, PDF_SIGNATURE)) return PDF;
+
+  if (startsWith(bytes, OLE_SIGNATURE)) {
+    const hasMacros = OLE_MACRO_STORAGES.some((name) => contains(bytes, name, "utf16le"));
+    return contains(bytes, "WordDocument", "utf16le") && !hasMacros ? DOC : null;
+  }
+
+  if (startsWith(bytes, ZIP_SIGNATURE)) {
+    const isWord = contains(bytes, "[Content_Types].xml") && contains(bytes, "word/document.xml");
+    return isWord && !contains(bytes, "vbaProject.bin") ? DOCX : null;
+  }
+
+  return null;
+}
@@ -0,0 +1,54 @@
+import zlib from "zlib";
+import { describe, expect, it } from "vitest";
+import { findPdfActiveContent } from "./pdfScan";
+
+/** PDF mínimo con los objetos dados (texto) */
+const pdf = (...objects: (string | Buffer)[]) =>
+  new Uint8Array(
+    Buffer.concat([
+      Buffer.from("%PDF-1.7\n", "latin1"),
+      ...objects.map((o) => (typeof o === "string" ? Buffer.from(`${o}\n`, "latin1") : o)),
+      Buffer.from("%%EOF\n", "latin1"),
+    ])
+  );
+
+/** Flujo de objetos comprimido con Flate */
+const objectStream = (content: string) => {
+  const data = zlib.deflateSync(Buffer.from(content, "latin1"));
+  return Buffer.concat([
+    Buffer.from(`4 0 obj << /Type /ObjStm /Filter /FlateDecode /Length ${data.length} >> stream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream endobj\n", "latin1"),
+  ]);
+};
+
+const catalog = "1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj";
+
+describe("revisión de PDF", () => {
+  it("acepta un PDF con flujos Flate e imágenes JPEG", () => {
+    expect(findPdfActiveContent(pdf(catalog, objectStream("<< /Type /Page >>")))).toBeNull();
+    expect(
+      findPdfActiveContent(pdf(catalog, "5 0 obj << /Subtype /Image /Filter [/DCTDecode] >> stream\n\xff\xd8\nendstream endobj"))
+    ).toBeNull();
+  });
+
+  it("rechaza JavaScript y acciones, también codificados o dentro de flujos comprimidos", () => {
+    expect(findPdfActiveContent(pdf("1 0 obj << /Type /Catalog /OpenAction 3 0 R >> endobj"))).toBe("OpenAction");
+    expect(findPdfActiveContent(pdf("3 0 obj << /S /J#61vaScript >> endobj"))).toBe("JavaScript");
+    expect(findPdfActiveContent(pdf(catalog, objectStream("<< /S /Launch /F (calc.exe) >>")))).toBe("Launch");
+    expect(findPdfActiveContent(pdf("3 0 obj << /S /URI /URI (https://example.com) >> endobj"))).toBe("URI");
+    expect(findPdfActiveContent(pdf("3 0 obj << /S /SubmitForm >> endobj"))).toBe("SubmitForm");
+    expect(findPdfActiveContent(pdf(catalog, objectStream("<< /Type /EmbeddedFile >>")))).toBe("EmbeddedFile");
+  });
+
+  it("rechaza los filtros que no puede revisar y el cifrado", () => {
+    const hex = Buffer.from("<< /S /JavaScript >>", "latin1").toString("hex");
+    expect(findPdfActiveContent(pdf(`4 0 obj << /Type /ObjStm /Filter /ASCIIHexDecode >> stream\n${hex}>\nendstream endobj`))).toBe(
+      "un filtro que no se puede revisar (ASCIIHexDecode)"
+    );
+    expect(findPdfActiveContent(pdf("4 0 obj << /Filter [/A85 /FlateDecode] >> endobj"))).toMatch(/A85/);
+    expect(findPdfActiveContent(pdf("4 0 obj << /Fil#74er /LZWDecode >> endobj"))).toMatch(/LZWDecode/);
+    expect(findPdfActiveContent(pdf("4 0 obj << /Filter 6 0 R >> endobj"))).toBe("un filtro que no se puede revisar");
+    expect(findPdfActiveContent(pdf("trailer << /Root 1 0 R /Encrypt 7 0 R >>"))).toBe("contenido cifrado");
+  });
+});
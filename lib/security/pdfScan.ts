@@ -0,0 +1,109 @@
+import zlib from "zlib";
+
+/**
+ * Revisión de PDF subidos: busca JavaScript, acciones (abrir programas,
+ * enlaces, envío de formularios, acciones al abrir) y archivos incrustados.
+ *
+ * Se revisan los nombres del PDF (`/JavaScript`, `/Launch`, `/URI`...) tanto
+ * en el texto del archivo como dentro de los flujos comprimidos con Flate (los
+ * diccionarios pueden ir en flujos de objetos). Los nombres se comparan ya
+ * decodificados (`/J#61vaScript` es `/JavaScript`).
+ *
+ * Solo se descomprime Flate: un flujo con otro filtro que pueda guardar
+ * diccionarios (ASCIIHex, ASCII85, LZW, RunLength...) o un PDF cifrado no se
+ * puede revisar y se rechaza. Los filtros de imagen (JPEG, JPEG 2000, fax,
+ * JBIG2) se aceptan.
+ */
+
+const FORBIDDEN_NAMES = new Set([
+  "JavaScript",
+  "JS",
+  "Launch",
+  "OpenAction",
+  "URI",
+  "SubmitForm",
+  "EmbeddedFile",
+  "EmbeddedFiles",
+]);
+
+/** Filtros que se revisan (Flate) o que solo contienen imágenes; con nombre abreviado incluido */
+const SCANNABLE_FILTERS = new Set([
+  "FlateDecode",
+  "Fl",
+  "DCTDecode",
+  "DCT",
+  "JPXDecode",
+  "CCITTFaxDecode",
+  "CCF",
+  "JBIG2Decode",
+]);
+
+/** Bytes descomprimidos que se revisan como máximo (evita bombas de compresión) */
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+
+const NAME_PATTERN = /\/([^\s/[\]<>(){}%]+)/g;
+// Valor de `/Filter`: un nombre o un arreglo de nombres
+const FILTER_VALUE_PATTERN = /\s*(\[[^\]]*\]|\/[^\s/[\]<>(){}%]+)/y;
+const STREAM_PATTERN = /stream\r?\n/g;
+
+function decodeName(raw: string) {
+  return raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function findForbiddenName(text: string) {
+  for (const match of text.matchAll(NAME_PATTERN)) {
+    const name = decodeName(match[1]);
+    if (FORBIDDEN_NAMES.has(name)) return name;
+    if (name === "Encrypt") return "contenido cifrado";
+    if (name !== "Filter") continue;
+
+    FILTER_VALUE_PATTERN.lastIndex = match.index + match[0].length;
+    const value = FILTER_VALUE_PATTERN.exec(text)?.[1];
+    // Referencia indirecta (`/Filter 5 0 R`): el filtro no se ve aquí
+    if (!value) return "un filtro que no se puede revisar";
+    for (const filter of value.matchAll(NAME_PATTERN)) {
+      const filterName = decodeName(filter[1]);
+      if (!SCANNABLE_FILTERS.has(filterName)) return `un filtro que no se puede revisar (${filterName})`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Nombre prohibido encontrado (p. ej. "JavaScript") o null si el PDF está
+ * limpio. Lo que no se puede revisar también se devuelve como motivo: el
+ * contenido comprimido que supera el límite ("contenido comprimido
+ * excesivo"), un filtro distinto de Flate o de imagen y el cifrado.
+ */
+export function findPdfActiveContent(bytes: Uint8Array): string | null {
+  const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const text = buffer.toString("latin1");
+
+  const direct = findForbiddenName(text);
+  if (direct) return direct;
+
+  let budget = MAX_INFLATED_BYTES;
+  for (const match of text.matchAll(STREAM_PATTERN)) {
+    const start = match.index + match[0].length;
+    const end = text.indexOf("endstream", start);
+    if (end < 0) break;
+
+    let inflated: Buffer;
+    try {
+      inflated = zlib.inflateSync(buffer.subarray(start, end), { maxOutputLength: budget });
+    } catch (err) {
+      // Flujos sin Flate (imágenes JPEG, texto plano) no se descomprimen
+      if (err instanceof RangeError || (err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+        return "contenido comprimido excesivo";
+      }
+      continue;
+    }
+
+    budget -= inflated.byteLength;
+    const found = findForbiddenName(inflated.toString("latin1"));
+    if (found) return found;
+    if (budget <= 0) return "contenido comprimido excesivo";
+  }
+
+  return null;
+}
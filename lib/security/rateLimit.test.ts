@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter, rateLimitKey } from "./rateLimit";
+
+const request = (headers: Record<string, string>) => new Request("http://test/api/tracking/x", { headers });
+
+describe("límite de solicitudes", () => {
+  it("usa la IP que agregó el proxy, no la que envía el cliente", () => {
+    const env = { NODE_ENV: "test" } as const;
+    expect(rateLimitKey(request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" }), env)).toBe("203.0.113.7");
+    expect(rateLimitKey(request({ "x-forwarded-for": "9.9.9.9, 203.0.113.7" }), env)).toBe("203.0.113.7");
+    expect(rateLimitKey(request({ "x-forwarded-for": "203.0.113.7" }), env)).toBe("203.0.113.7");
+    expect(rateLimitKey(request({ "x-real-ip": "203.0.113.8" }), env)).toBe("203.0.113.8");
+  });
+
+  it("con proxies encadenados toma la entrada del primero de confianza", () => {
+    const env = { NODE_ENV: "test", TRUSTED_PROXY_HOPS: "2" } as const;
+    expect(rateLimitKey(request({ "x-forwarded-for": "1.1.1.1, 203.0.113.7, 10.0.0.2" }), env)).toBe(
+      "203.0.113.7"
+    );
+  });
+
+  it("rota la cabecera sin saltarse el límite", () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    const results = ["1.1.1.1", "2.2.2.2", "3.3.3.3"].map((spoofed) =>
+      limiter.check(rateLimitKey(request({ "x-forwarded-for": `${spoofed}, 203.0.113.7` }), { NODE_ENV: "test" }))
+    );
+    expect(results.map((r) => r.ok)).toEqual([true, true, false]);
+  });
+});
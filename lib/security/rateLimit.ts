@@ -0,0 +1,63 @@
+/**
+ * Límite de solicitudes por clave (IP) con ventana fija, en memoria del
+ * proceso. Con varias instancias cada una lleva su propio conteo: sirve para
+ * frenar a quien prueba tokens en masa, no como cuota exacta.
+ */
+
+export type RateLimitResult = { ok: true } | { ok: false; retryAfterSeconds: number };
+
+export type RateLimiter = {
+  check(key: string): RateLimitResult;
+};
+
+/** Claves guardadas antes de limpiar las ventanas vencidas */
+const MAX_KEYS = 10_000;
+
+export function createRateLimiter(options: { limit: number; windowMs: number }): RateLimiter {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  function prune(now: number) {
+    for (const [key, w] of windows) {
+      if (w.resetAt <= now) windows.delete(key);
+    }
+  }
+
+  return {
+    check(key: string) {
+      const now = Date.now();
+      if (windows.size >= MAX_KEYS) prune(now);
+
+      const current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        windows.set(key, { count: 1, resetAt: now + options.windowMs });
+        return { ok: true };
+      }
+
+      if (current.count >= options.limit) {
+        return { ok: false, retryAfterSeconds: Math.ceil((current.resetAt - now) / 1000) };
+      }
+
+      current.count += 1;
+      return { ok: true };
+    },
+  };
+}
+
+/**
+ * Clave del límite: la IP que agregó el proxy de confianza (último salto de
+ * X-Forwarded-For). La primera entrada la envía el cliente y puede cambiarla
+ * en cada solicitud. Con proxies encadenados, TRUSTED_PROXY_HOPS indica
+ * cuántos agregan su entrada (1 por defecto).
+ */
+export function rateLimitKey(req: Request, env: NodeJS.ProcessEnv = process.env) {
+  const hops = Number(env.TRUSTED_PROXY_HOPS);
+  const trusted = env.TRUSTED_PROXY_HOPS && Number.isInteger(hops) && hops > 0 ? hops : 1;
+
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+  if (forwarded.length) return forwarded[Math.max(forwarded.length - trusted, 0)];
+
+  return req.headers.get("x-real-ip")?.trim() || "desconocida";
+}
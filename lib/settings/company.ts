@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+import { getSettingsRepository } from "../repositories";
+import { DEFAULT_COMPANY_SETTINGS, type CompanySettings } from "../schemas/settings";
+
+/**
+ * Perfil de la empresa para los documentos impresos.
+ * Sin configuración guardada se usan DEFAULT_COMPANY_SETTINGS y el logo
+ * de /public, para que la factura siga funcionando en una instalación nueva.
+ */
+
+const DEFAULT_LOGO_PATH = path.join(process.cwd(), "public", "briolete-logo.png");
+
+export async function getCompanySettings(): Promise<CompanySettings> {
+  return (await getSettingsRepository().get()) ?? DEFAULT_COMPANY_SETTINGS;
+}
+
+/** Logo configurado (bucket) o el de /public; null si no hay ninguno */
+export async function loadCompanyLogo(
+  settings: CompanySettings
+): Promise<{ bytes: Buffer; contentType: string } | null> {
+  if (settings.logo_path) {
+    const logo = await getSettingsRepository().readLogo(settings.logo_path);
+    if (logo) return { bytes: Buffer.from(logo.bytes), contentType: logo.contentType };
+  }
+
+  try {
+    const bytes = await fs.promises.readFile(DEFAULT_LOGO_PATH);
+    return bytes.length > 0 ? { bytes, contentType: "image/png" } : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Renglones del encabezado debajo del nombre: NIT, direcciones, teléfonos, correo y redes */
+export function companyHeaderLines(settings: CompanySettings) {
+  return [
+    settings.nit ? `NIT ${settings.nit}` : "",
+    ...settings.direcciones,
+    settings.telefonos.length ? `Tel. ${settings.telefonos.join(" · ")}` : "",
+    settings.email ?? "",
+    ...settings.redes,
+  ].filter(Boolean);
+}
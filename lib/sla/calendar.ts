@@ -0,0 +1,195 @@
+/**
+ * Calendario laboral del taller (hora de Colombia, UTC-5 sin horario de verano).
+ *
+ * Las horas se manejan como "tiempo local": milisegundos de un Date.UTC con
+ * la hora de pared de Colombia. Solo al final se convierten al instante real.
+ */
+
+export const COLOMBIA_UTC_OFFSET_MINUTES = -5 * 60;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Apertura y cierre en minutos desde medianoche */
+export type WorkingWindow = { open: number; close: number };
+
+export type ShopCalendar = {
+  /** Horario por día de la semana (0 = domingo). Sin entrada: cerrado */
+  horario: Partial<Record<number, WorkingWindow>>;
+  /** Festivos adicionales (YYYY-MM-DD) a los nacionales */
+  festivosExtra: string[];
+};
+
+/** Lunes a viernes 9:00–18:00, sábado 9:00–13:00 */
+export const DEFAULT_SHOP_CALENDAR: ShopCalendar = {
+  horario: {
+    1: { open: 9 * 60, close: 18 * 60 },
+    2: { open: 9 * 60, close: 18 * 60 },
+    3: { open: 9 * 60, close: 18 * 60 },
+    4: { open: 9 * 60, close: 18 * 60 },
+    5: { open: 9 * 60, close: 18 * 60 },
+    6: { open: 9 * 60, close: 13 * 60 },
+  },
+  festivosExtra: [],
+};
+
+function isoDate(localMs: number) {
+  return new Date(localMs).toISOString().slice(0, 10);
+}
+
+/** Domingo de Pascua (algoritmo anónimo gregoriano) */
+function easterSunday(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return Date.UTC(year, month - 1, day);
+}
+
+/** Ley Emiliani: el festivo se traslada al lunes siguiente */
+function nextMonday(localMs: number) {
+  const dow = new Date(localMs).getUTCDay();
+  const shift = dow === 1 ? 0 : (8 - dow) % 7;
+  return localMs + shift * DAY_MS;
+}
+
+const holidayCache = new Map<number, Set<string>>();
+
+/** Festivos nacionales de Colombia del año (YYYY-MM-DD) */
+export function colombianHolidays(year: number): Set<string> {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const fixed = [
+    [1, 1], // Año nuevo
+    [5, 1], // Día del trabajo
+    [7, 20], // Independencia
+    [8, 7], // Batalla de Boyacá
+    [12, 8], // Inmaculada Concepción
+    [12, 25], // Navidad
+  ];
+  const movable = [
+    [1, 6], // Reyes Magos
+    [3, 19], // San José
+    [6, 29], // San Pedro y San Pablo
+    [8, 15], // Asunción
+    [10, 12], // Día de la Raza
+    [11, 1], // Todos los Santos
+    [11, 11], // Independencia de Cartagena
+  ];
+  const easter = easterSunday(year);
+
+  const days = [
+    ...fixed.map(([m, d]) => Date.UTC(year, m - 1, d)),
+    ...movable.map(([m, d]) => nextMonday(Date.UTC(year, m - 1, d))),
+    easter - 3 * DAY_MS, // Jueves Santo
+    easter - 2 * DAY_MS, // Viernes Santo
+    nextMonday(easter + 39 * DAY_MS), // Ascensión
+    nextMonday(easter + 60 * DAY_MS), // Corpus Christi
+    nextMonday(easter + 68 * DAY_MS), // Sagrado Corazón
+  ];
+
+  const set = new Set(days.map(isoDate));
+  holidayCache.set(year, set);
+  return set;
+}
+
+/** Horario del día (null si cerrado o festivo) */
+function windowFor(dayStart: number, calendar: ShopCalendar): WorkingWindow | null {
+  const date = isoDate(dayStart);
+  const year = Number(date.slice(0, 4));
+  if (colombianHolidays(year).has(date) || calendar.festivosExtra.includes(date)) return null;
+  return calendar.horario[new Date(dayStart).getUTCDay()] ?? null;
+}
+
+function startOfDay(localMs: number) {
+  return Math.floor(localMs / DAY_MS) * DAY_MS;
+}
+
+/** Tiempo local a partir de fecha (YYYY-MM-DD) y hora (HH:mm o HH:mm:ss) */
+export function toLocalMs(fecha: string, hora: string) {
+  const [y, m, d] = fecha.split("-").map(Number);
+  const [hh, mi] = String(hora || "00:00").split(":").map(Number);
+  return Date.UTC(y, m - 1, d, hh || 0, mi || 0);
+}
+
+export function localMsFromInstant(instant: Date) {
+  return instant.getTime() + COLOMBIA_UTC_OFFSET_MINUTES * MINUTE_MS;
+}
+
+export function instantFromLocalMs(localMs: number) {
+  return new Date(localMs - COLOMBIA_UTC_OFFSET_MINUTES * MINUTE_MS);
+}
+
+/**
+ * Fecha (YYYY-MM-DD) y hora (HH:mm) de pared en Colombia. El servidor corre
+ * en UTC: sus getters locales adelantan el día desde las 19:00.
+ */
+export function colombiaDateTime(now: Date = new Date()) {
+  const iso = new Date(localMsFromInstant(now)).toISOString();
+  return { fecha: iso.slice(0, 10), hora: iso.slice(11, 16) };
+}
+
+// Tope de búsqueda (evita ciclos infinitos con un horario vacío)
+const MAX_DAYS = 400;
+
+/**
+ * Suma minutos hábiles a un tiempo local. Si el inicio cae fuera del
+ * horario, se cuenta desde la siguiente apertura.
+ */
+export function addWorkingMinutes(
+  startLocal: number,
+  minutes: number,
+  calendar: ShopCalendar = DEFAULT_SHOP_CALENDAR
+) {
+  let t = startLocal;
+  let remaining = Math.max(minutes, 0);
+
+  for (let i = 0; i < MAX_DAYS; i++) {
+    const day = startOfDay(t);
+    const window = windowFor(day, calendar);
+    if (window) {
+      const from = Math.max(t, day + window.open * MINUTE_MS);
+      const close = day + window.close * MINUTE_MS;
+      if (from < close) {
+        const available = (close - from) / MINUTE_MS;
+        if (remaining <= available) return from + remaining * MINUTE_MS;
+        remaining -= available;
+      }
+    }
+    t = day + DAY_MS;
+  }
+  return t;
+}
+
+/** Minutos hábiles entre dos tiempos locales (0 si `to` es anterior) */
+export function workingMinutesBetween(
+  fromLocal: number,
+  toLocal: number,
+  calendar: ShopCalendar = DEFAULT_SHOP_CALENDAR
+) {
+  let total = 0;
+  let t = fromLocal;
+
+  for (let i = 0; i < MAX_DAYS && t < toLocal; i++) {
+    const day = startOfDay(t);
+    const window = windowFor(day, calendar);
+    if (window) {
+      const from = Math.max(t, day + window.open * MINUTE_MS);
+      const until = Math.min(toLocal, day + window.close * MINUTE_MS);
+      if (until > from) total += (until - from) / MINUTE_MS;
+    }
+    t = day + DAY_MS;
+  }
+  return total;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { computeFechaEntrega, slaStatus } from "./due";
+import { colombianHolidays } from "./calendar";
+
+describe("fecha de entrega por prioridad", () => {
+  it("salta el domingo y cuenta solo el horario del taller", () => {
+    // Viernes 17:00: 1 h el viernes, 4 h el sábado y 4 h el lunes
+    expect(computeFechaEntrega({ fecha: "2026-10-16", hora: "17:00", prioridad: "24 horas" })).toBe(
+      "2026-10-19T18:00:00.000Z"
+    );
+  });
+
+  it("salta los festivos trasladados al lunes (ley Emiliani)", () => {
+    expect(colombianHolidays(2026).has("2026-10-12")).toBe(true);
+    // Sábado 12:00: 1 h el sábado; el lunes 12 es festivo; 8 h el martes
+    expect(computeFechaEntrega({ fecha: "2026-10-10", hora: "12:00", prioridad: "24 horas" })).toBe(
+      "2026-10-13T22:00:00.000Z"
+    );
+  });
+
+  it("estado del plazo en hora de Colombia", () => {
+    const service = { estado: "Pendiente" as const, prioridad: "24 horas" as const, fecha_entrega: "2026-10-19T18:00:00.000Z" };
+    expect(slaStatus(service, new Date("2026-10-16T15:00:00Z"))).toBe("A tiempo");
+    expect(slaStatus(service, new Date("2026-10-19T19:00:00Z"))).toBe("Vencido");
+    expect(slaStatus({ ...service, estado: "Entregado" })).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import type { Service, ServicePrioridad } from "../schemas/service";
+import {
+  DEFAULT_SHOP_CALENDAR,
+  addWorkingMinutes,
+  instantFromLocalMs,
+  localMsFromInstant,
+  toLocalMs,
+  workingMinutesBetween,
+  type ShopCalendar,
+} from "./calendar";
+
+/**
+ * Fecha de entrega comprometida según la prioridad del servicio.
+ *
+ * Cada prioridad equivale a una cantidad de jornadas hábiles (9 horas);
+ * el plazo corre desde `fecha` + `hora` de recepción dentro del horario
+ * del taller, saltando domingos y festivos.
+ */
+
+const JORNADA_MINUTOS = 9 * 60;
+
+export const PRIORIDAD_JORNADAS: Record<ServicePrioridad, number> = {
+  "24 horas": 1,
+  "48 horas": 2,
+  "72 horas": 3,
+  Normal: 5,
+};
+
+/** Fracción del plazo restante por debajo de la cual el servicio está "En riesgo" */
+const RIESGO_FRACCION = 0.25;
+
+export const SLA_ESTADOS = ["A tiempo", "En riesgo", "Vencido"] as const;
+export type SlaEstado = (typeof SLA_ESTADOS)[number];
+
+export function slaMinutes(prioridad: ServicePrioridad) {
+  return (PRIORIDAD_JORNADAS[prioridad] ?? PRIORIDAD_JORNADAS.Normal) * JORNADA_MINUTOS;
+}
+
+/** Instante de entrega (ISO UTC) para guardar en `services.fecha_entrega` */
+export function computeFechaEntrega(
+  input: Pick<Service, "fecha" | "hora" | "prioridad">,
+  calendar: ShopCalendar = DEFAULT_SHOP_CALENDAR
+) {
+  const start = toLocalMs(input.fecha, input.hora);
+  const due = addWorkingMinutes(start, slaMinutes(input.prioridad), calendar);
+  return instantFromLocalMs(due).toISOString();
+}
+
+/**
+ * Estado del plazo. `null` para servicios entregados o sin fecha de entrega.
+ */
+export function slaStatus(
+  service: Pick<Service, "estado" | "prioridad" | "fecha_entrega">,
+  now: Date = new Date(),
+  calendar: ShopCalendar = DEFAULT_SHOP_CALENDAR
+): SlaEstado | null {
+  if (service.estado === "Entregado" || !service.fecha_entrega) return null;
+
+  const due = new Date(service.fecha_entrega);
+  if (Number.isNaN(due.getTime())) return null;
+  if (now.getTime() > due.getTime()) return "Vencido";
+
+  const remaining = workingMinutesBetween(
+    localMsFromInstant(now),
+    localMsFromInstant(due),
+    calendar
+  );
+  return remaining <= slaMinutes(service.prioridad) * RIESGO_FRACCION ? "En riesgo" : "A tiempo";
+}
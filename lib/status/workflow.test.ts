@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { checkTransition, getStatusTimeline, transitionService } from "./workflow";
+import { ensureClaim } from "../claims/ticket";
+import {
+  SALDO_PENDIENTE_MESSAGE,
+  STATUS_TRANSITIONS,
+  canTransition,
+  invalidTransitionMessage,
+} from "../schemas/status";
+import { RETIRO_SIN_VERIFICAR_MESSAGE } from "../schemas/claim";
+import { SERVICE_ESTADOS } from "../schemas/service";
+import {
+  createMemoryClaimRepository,
+  createMemoryPaymentRepository,
+  createMemoryServiceRepository,
+  createMemoryStatusHistoryRepository,
+  createMemoryWarrantyRepository,
+  getClaimRepository,
+  getPaymentRepository,
+  getServiceRepository,
+  getStatusHistoryRepository,
+  getWarrantyRepository,
+  setClaimRepository,
+  setPaymentRepository,
+  setServiceRepository,
+  setStatusHistoryRepository,
+  setWarrantyRepository,
+} from "../repositories";
+import { serviceFixture } from "../../tests/fixtures";
+
+const enFabricacion = serviceFixture({ estado: "En fabricación", costo_final: 100_000 });
+
+async function pagarTodo(code: string, monto = 100_000) {
+  await getPaymentRepository().create(code, {
+    fecha: "2026-10-18",
+    monto,
+    metodo: "Efectivo",
+    agente: "Carlos",
+    referencia: null,
+  });
+}
+
+async function verificarRetiro(code: string) {
+  await ensureClaim(code);
+  await getClaimRepository().setVerified(code, "ana@taller.co");
+}
+
+describe("transiciones permitidas", () => {
+  it("Entregado es final y todo estado tiene su lista de transiciones", () => {
+    for (const estado of SERVICE_ESTADOS) expect(STATUS_TRANSITIONS[estado]).toBeDefined();
+    expect(STATUS_TRANSITIONS.Entregado).toEqual([]);
+  });
+
+  it("no se salta la fabricación ni se vuelve a abrir un servicio entregado", () => {
+    expect(canTransition("Pendiente", "En fabricación")).toBe(true);
+    expect(canTransition("Pendiente", "Entregado")).toBe(false);
+    expect(canTransition("Entregado", "En fabricación")).toBe(false);
+    expect(canTransition("Entregado", "Garantía")).toBe(false);
+    expect(canTransition("Garantía", "En fabricación")).toBe(true);
+  });
+});
+
+describe("flujo de estados del servicio", () => {
+  beforeEach(() => {
+    setServiceRepository(createMemoryServiceRepository([enFabricacion]));
+    setPaymentRepository(createMemoryPaymentRepository());
+    setClaimRepository(createMemoryClaimRepository());
+    setStatusHistoryRepository(createMemoryStatusHistoryRepository());
+    setWarrantyRepository(createMemoryWarrantyRepository());
+  });
+
+  it("rechaza una transición fuera del flujo sin tocar el servicio", async () => {
+    const pendiente = serviceFixture({ estado: "Pendiente" });
+    setServiceRepository(createMemoryServiceRepository([pendiente]));
+
+    const result = await transitionService(pendiente, "Entregado", { usuario: "ana", nota: null });
+
+    expect(result).toEqual({ ok: false, message: invalidTransitionMessage("Pendiente", "Entregado") });
+    expect((await getServiceRepository().getByCode(pendiente.code))?.estado).toBe("Pendiente");
+    expect(await getStatusHistoryRepository().listByService(pendiente.code)).toEqual([]);
+  });
+
+  it("no entrega con saldo pendiente aunque el retiro esté verificado", async () => {
+    await pagarTodo(enFabricacion.code, 60_000);
+    await verificarRetiro(enFabricacion.code);
+
+    expect(await checkTransition(enFabricacion, "Entregado")).toBe(SALDO_PENDIENTE_MESSAGE);
+  });
+
+  it("no entrega sin verificar el tiquete de retiro", async () => {
+    await pagarTodo(enFabricacion.code);
+    await ensureClaim(enFabricacion.code);
+
+    expect(await checkTransition(enFabricacion, "Entregado")).toBe(RETIRO_SIN_VERIFICAR_MESSAGE);
+  });
+
+  it("las precondiciones de entrega no aplican a las demás transiciones", async () => {
+    expect(await checkTransition(enFabricacion, "Pendiente")).toBeNull();
+  });
+
+  it("entrega pagado y verificado: guarda el estado, el historial y la garantía", async () => {
+    await pagarTodo(enFabricacion.code);
+    await verificarRetiro(enFabricacion.code);
+
+    const result = await transitionService(enFabricacion, "Entregado", { usuario: "ana", nota: "Retira la hija" });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.service.estado).toBe("Entregado");
+    expect(result.entry).toMatchObject({ de: "En fabricación", a: "Entregado", usuario: "ana", nota: "Retira la hija" });
+    expect(await getWarrantyRepository().getByServiceCode(enFabricacion.code)).not.toBeNull();
+
+    const timeline = await getStatusTimeline(result.service);
+    expect(timeline.history).toHaveLength(1);
+    expect(timeline.transitions).toEqual([]);
+  });
+});
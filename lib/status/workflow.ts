@@ -0,0 +1,79 @@
+import { getServiceRepository, getStatusHistoryRepository } from "../repositories";
+import type { Service, ServiceEstado } from "../schemas/service";
+import {
+  SALDO_PENDIENTE_MESSAGE,
+  allowedTransitions,
+  canTransition,
+  invalidTransitionMessage,
+  type StatusHistoryEntry,
+} from "../schemas/status";
+import { getLedger } from "../payments/ledger";
+import { isPickupVerified } from "../claims/ticket";
+import { RETIRO_SIN_VERIFICAR_MESSAGE } from "../schemas/claim";
+import { colombiaDateTime } from "../sla/calendar";
+import { ensureWarranty } from "../warranty/coverage";
+
+/**
+ * Flujo de estados del servicio: valida la transición y sus precondiciones,
+ * actualiza `services.estado` y registra el cambio en el historial. La
+ * primera entrega registra la garantía del servicio (lib/warranty).
+ */
+
+export type TransitionResult =
+  | { ok: true; service: Service; entry: StatusHistoryEntry }
+  | { ok: false; message: string };
+
+/**
+ * Devuelve el motivo por el que no se permite la transición, o null.
+ */
+export async function checkTransition(service: Service, to: ServiceEstado): Promise<string | null> {
+  if (!canTransition(service.estado, to)) {
+    return invalidTransitionMessage(service.estado, to);
+  }
+
+  if (to === "Entregado") {
+    const { balance } = await getLedger(service);
+    if (balance.saldo > 0) return SALDO_PENDIENTE_MESSAGE;
+    if (!(await isPickupVerified(service.code))) return RETIRO_SIN_VERIFICAR_MESSAGE;
+  }
+
+  return null;
+}
+
+export async function transitionService(
+  service: Service,
+  to: ServiceEstado,
+  actor: { usuario: string; nota: string | null }
+): Promise<TransitionResult> {
+  const reason = await checkTransition(service, to);
+  if (reason) return { ok: false, message: reason };
+
+  const updated = await getServiceRepository().update(service.code, { estado: to });
+  const entry = await getStatusHistoryRepository().create(service.code, {
+    de: service.estado,
+    a: to,
+    usuario: actor.usuario,
+    nota: actor.nota,
+  });
+
+  // La garantía corre desde la primera entrega (las siguientes no la renuevan)
+  if (to === "Entregado") await ensureWarranty(updated, colombiaDateTime().fecha);
+
+  return { ok: true, service: updated, entry };
+}
+
+/** Primera entrada del historial al crear el servicio */
+export async function recordInitialStatus(service: Service, usuario: string) {
+  return getStatusHistoryRepository().create(service.code, {
+    de: null,
+    a: service.estado,
+    usuario,
+    nota: null,
+  });
+}
+
+/** Historial del servicio y estados a los que puede pasar */
+export async function getStatusTimeline(service: Service) {
+  const history = await getStatusHistoryRepository().listByService(service.code);
+  return { history, transitions: allowedTransitions(service.estado) };
+}
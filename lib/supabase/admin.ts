@@ -0,0 +1,18 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+function requiredEnv(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+/**
+ * Cliente de Supabase con SERVICE_ROLE_KEY (solo servidor).
+ * Se usa desde los repositorios para operaciones administrativas; la
+ * autenticación del usuario se verifica antes con requireAuth().
+ */
+export function createSupabaseAdminClient(): SupabaseClient {
+  const supabaseUrl = requiredEnv("NEXT_PUBLIC_SUPABASE_URL");
+  const serviceKey = requiredEnv("SUPABASE_SERVICE_ROLE_KEY");
+  return createClient(supabaseUrl, serviceKey);
+}
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  EINVOICE_BLOCKS_PURGE_MESSAGE,
+  INVOICE_NUMBER_BLOCKS_PURGE_MESSAGE,
+  PAYMENTS_BLOCK_PURGE_MESSAGE,
+  purgeExpiredTrash,
+  purgeServices,
+} from "./purge";
+import {
+  createMemoryElectronicInvoiceRepository,
+  createMemoryPaymentRepository,
+  createMemoryServiceRepository,
+  getElectronicInvoiceRepository,
+  getPaymentRepository,
+  getServiceRepository,
+  setElectronicInvoiceRepository,
+  setPaymentRepository,
+  setServiceRepository,
+} from "../repositories";
+import { serviceFixture } from "../../tests/fixtures";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+/** Servicio en la papelera hace más de 30 días; los de menor `i` son los más recientes */
+function expiredService(i: number) {
+  return serviceFixture({
+    code: `SRV-${String(i).padStart(4, "0")}`,
+    deleted_at: new Date(Date.UTC(2026, 7, 1) - i * 60_000).toISOString(),
+    deleted_by: "ana@taller.co",
+  });
+}
+
+async function issueInvoice(serviceCode: string, numero: number) {
+  await getElectronicInvoiceRepository().reserve({
+    service_code: serviceCode,
+    prefijo: "SETP",
+    numero,
+    numero_factura: `SETP${numero}`,
+    fecha_emision: "2026-07-01",
+    hora_emision: "10:00:00-05:00",
+    cufe: `cufe-${numero}`,
+    qr_text: "",
+    adquiriente_tipo_documento: "13",
+    adquiriente_documento: "222222222222",
+    adquiriente_nombre: "Consumidor final",
+    adquiriente_email: null,
+    subtotal: 0,
+    iva: 0,
+    total: 0,
+    xml: "",
+    estado: "Aceptada",
+    dian_track_id: null,
+    dian_mensajes: [],
+  });
+}
+
+describe("purga automática de la papelera", () => {
+  beforeEach(() => {
+    setElectronicInvoiceRepository(createMemoryElectronicInvoiceRepository());
+    setPaymentRepository(createMemoryPaymentRepository());
+  });
+
+  it("salta los bloqueados por factura electrónica y purga los siguientes", async () => {
+    const seed = Array.from({ length: 130 }, (_, i) => expiredService(i));
+    setServiceRepository(createMemoryServiceRepository(seed));
+    // Los 120 más recientes tienen factura: antes llenaban todo el lote
+    for (let i = 0; i < 120; i++) await issueInvoice(seed[i].code, 990000000 + i);
+
+    const result = await purgeExpiredTrash(now, { NODE_ENV: "test" });
+
+    expect(result.purgados.map((s) => s.code)).toEqual(seed.slice(120).map((s) => s.code));
+    expect(result.bloqueados).toHaveLength(120);
+    expect(result.bloqueados[0].motivo).toBe(EINVOICE_BLOCKS_PURGE_MESSAGE);
+    expect(await getServiceRepository().listDeleted({ limit: 500, offset: 0 })).toHaveLength(120);
+  });
+
+  it("no purga los que siguen dentro de la retención", async () => {
+    setServiceRepository(
+      createMemoryServiceRepository([serviceFixture({ deleted_at: "2026-10-10T12:00:00Z", deleted_by: "ana" })])
+    );
+    const result = await purgeExpiredTrash(now, { NODE_ENV: "test" });
+    expect(result.purgados).toEqual([]);
+  });
+});
+
+describe("eliminación definitiva", () => {
+  beforeEach(() => {
+    setElectronicInvoiceRepository(createMemoryElectronicInvoiceRepository());
+    setPaymentRepository(createMemoryPaymentRepository());
+  });
+
+  it("conserva los servicios con pagos o con número de factura", async () => {
+    setServiceRepository(
+      createMemoryServiceRepository([
+        expiredService(1),
+        expiredService(2),
+        { ...expiredService(3), factura_numero: "FAC-0007" },
+      ])
+    );
+    await getPaymentRepository().create("SRV-0002", {
+      fecha: "2026-07-01",
+      monto: 50_000,
+      metodo: "Efectivo",
+      agente: "Carlos",
+      referencia: null,
+    });
+
+    const result = await purgeServices(["SRV-0001", "SRV-0002", "SRV-0003"]);
+
+    expect(result.purgados.map((s) => s.code)).toEqual(["SRV-0001"]);
+    expect(result.bloqueados).toEqual(
+      expect.arrayContaining([
+        { code: "SRV-0002", motivo: PAYMENTS_BLOCK_PURGE_MESSAGE },
+        { code: "SRV-0003", motivo: INVOICE_NUMBER_BLOCKS_PURGE_MESSAGE },
+      ])
+    );
+    expect(await getPaymentRepository().listByService("SRV-0002")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  getAuditRepository,
+  getElectronicInvoiceRepository,
+  getPaymentRepository,
+  getServiceRepository,
+} from "../repositories";
+import type { Service } from "../schemas/service";
+import { diffFields } from "../audit/log";
+
+/**
+ * Papelera de servicios.
+ *
+ * Eliminar un servicio lo marca con `deleted_at` / `deleted_by`; desde la
+ * papelera se restaura o se elimina definitivamente. Pasados
+ * PAPELERA_RETENCION_DIAS (30 por defecto) se purga automáticamente.
+ *
+ * No se purgan (quedan en la papelera hasta que se restauren):
+ * - los que tienen factura electrónica: la factura debe conservarse y la
+ *   llave foránea lo impide (`on delete restrict`)
+ * - los que tienen número de factura o pagos registrados: borrar el
+ *   servicio borraría sus pagos (`on delete cascade`) y dejaría un hueco en
+ *   la numeración de facturas
+ */
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Servicios vencidos por consulta; cada ejecución purga hasta completar un lote */
+const PURGE_BATCH = 100;
+
+/** Actor de la auditoría para la purga automática */
+export const SYSTEM_ACTOR = "sistema";
+
+export const EINVOICE_BLOCKS_PURGE_MESSAGE =
+  "Tiene factura electrónica emitida; no se puede eliminar definitivamente";
+
+export const INVOICE_NUMBER_BLOCKS_PURGE_MESSAGE =
+  "Tiene número de factura asignado; no se puede eliminar definitivamente";
+
+export const PAYMENTS_BLOCK_PURGE_MESSAGE =
+  "Tiene pagos registrados; no se puede eliminar definitivamente";
+
+/** Días que un servicio permanece en la papelera antes de purgarse */
+export function retentionDays(env: NodeJS.ProcessEnv = process.env) {
+  const n = Number(env.PAPELERA_RETENCION_DIAS);
+  return env.PAPELERA_RETENCION_DIAS && Number.isInteger(n) && n > 0 ? n : DEFAULT_RETENTION_DAYS;
+}
+
+/** Instante (ISO) en que se purga un servicio enviado a la papelera en `deletedAt` */
+export function purgeDate(deletedAt: string, days: number) {
+  return new Date(new Date(deletedAt).getTime() + days * DAY_MS).toISOString();
+}
+
+export type PurgeResult = {
+  /** Servicios eliminados definitivamente (copia previa, para la auditoría) */
+  purgados: Service[];
+  /** Códigos que no se pudieron purgar y el motivo */
+  bloqueados: { code: string; motivo: string }[];
+};
+
+/**
+ * Elimina definitivamente servicios de la papelera.
+ * Los códigos que no están en la papelera se ignoran.
+ */
+export async function purgeServices(codes: string[]): Promise<PurgeResult> {
+  const services = getServiceRepository();
+  const invoices = getElectronicInvoiceRepository();
+
+  const trashed = await services.listDeleted({ codes, limit: codes.length, offset: 0 });
+  const pagado = trashed.length
+    ? await getPaymentRepository().totalsByService(trashed.map((s) => s.code))
+    : {};
+
+  const purgables: Service[] = [];
+  const bloqueados: PurgeResult["bloqueados"] = [];
+  for (const service of trashed) {
+    let motivo: string | null = null;
+    if (service.factura_numero) motivo = INVOICE_NUMBER_BLOCKS_PURGE_MESSAGE;
+    else if (pagado[service.code]) motivo = PAYMENTS_BLOCK_PURGE_MESSAGE;
+    else if (await invoices.getByServiceCode(service.code)) motivo = EINVOICE_BLOCKS_PURGE_MESSAGE;
+
+    if (motivo) {
+      bloqueados.push({ code: service.code, motivo });
+    } else {
+      purgables.push(service);
+    }
+  }
+
+  if (!purgables.length) return { purgados: [], bloqueados };
+
+  const deleted = new Set(await services.deleteMany(purgables.map((s) => s.code)));
+  return { purgados: purgables.filter((s) => deleted.has(s.code)), bloqueados };
+}
+
+/**
+ * Purga los servicios que superaron el tiempo de retención y lo registra en
+ * la auditoría como `SYSTEM_ACTOR`.
+ */
+export async function purgeExpiredTrash(now = new Date(), env: NodeJS.ProcessEnv = process.env) {
+  const deletedBefore = new Date(now.getTime() - retentionDays(env) * DAY_MS).toISOString();
+  const result: PurgeResult = { purgados: [], bloqueados: [] };
+
+  // Los bloqueados (factura o pagos) siguen en la papelera: se saltan con
+  // el offset para que no ocupen siempre el primer lote
+  let offset = 0;
+  while (result.purgados.length < PURGE_BATCH) {
+    const expired = await getServiceRepository().listDeleted({
+      deletedBefore,
+      limit: PURGE_BATCH,
+      offset,
+    });
+    if (!expired.length) break;
+
+    const page = await purgeServices(expired.map((s) => s.code));
+    result.purgados.push(...page.purgados);
+    result.bloqueados.push(...page.bloqueados);
+
+    if (expired.length < PURGE_BATCH) break;
+    offset += expired.length - page.purgados.length;
+  }
+
+  for (const service of result.purgados) {
+    try {
+      await getAuditRepository().append({
+        actor: SYSTEM_ACTOR,
+        accion: "purgar",
+        service_code: service.code,
+        cambios: diffFields(service, null),
+        ip: null,
+      });
+    } catch (err) {
+      console.error(`Error registrando auditoría (purgar ${service.code}):`, err);
+    }
+  }
+
+  return result;
+}
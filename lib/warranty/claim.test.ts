@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { checkWarrantyClaim, warrantyClaimService } from "./claim";
+import { ensureWarranty } from "./coverage";
+import { checkTransition } from "../status/workflow";
+import { invalidTransitionMessage } from "../schemas/status";
+import {
+  createMemoryStatusHistoryRepository,
+  createMemoryWarrantyRepository,
+  setStatusHistoryRepository,
+  setWarrantyRepository,
+} from "../repositories";
+import { serviceFixture } from "../../tests/fixtures";
+
+// 21:00 del 19 de octubre en Colombia (ya es 20 en UTC)
+const NOCHE = new Date("2026-10-20T02:00:00.000Z");
+
+const entregado = serviceFixture({ code: "SRV-0001", estado: "Entregado" });
+
+describe("garantía en hora de Colombia", () => {
+  beforeEach(() => {
+    setWarrantyRepository(createMemoryWarrantyRepository());
+    setStatusHistoryRepository(createMemoryStatusHistoryRepository());
+  });
+
+  it("el reclamo se recibe con la fecha y hora de Colombia", () => {
+    const claim = warrantyClaimService(entregado, "Se soltó la piedra", NOCHE);
+    expect(claim).toMatchObject({ fecha: "2026-10-19", hora: "21:00", garantia_de: "SRV-0001" });
+  });
+
+  it("el último día de la garantía se puede reclamar hasta la medianoche de Colombia", async () => {
+    setWarrantyRepository(
+      createMemoryWarrantyRepository([
+        {
+          service_code: "SRV-0001",
+          tipo_trabajo: null,
+          dias: 90,
+          inicio: "2026-07-21",
+          vence: "2026-10-19",
+          terminos: null,
+          created_at: "2026-07-21T15:00:00.000Z",
+        },
+      ])
+    );
+
+    expect((await checkWarrantyClaim(entregado, NOCHE)).ok).toBe(true);
+    expect(await checkWarrantyClaim(entregado, new Date("2026-10-20T05:00:00.000Z"))).toEqual({
+      ok: false,
+      message: "La garantía venció el 19-10-2026",
+    });
+  });
+
+  it("la garantía corre desde el día de la entrega en Colombia", async () => {
+    setStatusHistoryRepository(
+      createMemoryStatusHistoryRepository([
+        {
+          id: "h1",
+          service_code: "SRV-0001",
+          de: "En fabricación",
+          a: "Entregado",
+          usuario: "ana",
+          nota: null,
+          created_at: NOCHE.toISOString(),
+        },
+      ])
+    );
+
+    const warranty = await ensureWarranty(entregado);
+    expect(warranty).toMatchObject({ inicio: "2026-10-19" });
+  });
+
+  it("el servicio entregado solo pasa a garantía con un reclamo", async () => {
+    expect(await checkTransition(entregado, "Garantía")).toBe(invalidTransitionMessage("Entregado", "Garantía"));
+  });
+});
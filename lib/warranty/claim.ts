@@ -0,0 +1,61 @@
+import { computeFechaEntrega } from "../sla/due";
+import { ensureWarranty } from "./coverage";
+import { colombiaDateTime } from "../sla/calendar";
+import type { ServiceInput } from "../repositories";
+import type { Service } from "../schemas/service";
+import {
+  WARRANTY_NOT_DELIVERED_MESSAGE,
+  warrantyExpiredMessage,
+  warrantyOfClaimMessage,
+  warrantyStatus,
+  type ServiceWarranty,
+} from "../schemas/warranty";
+
+/**
+ * Reclamo de garantía: sobre un servicio entregado y con la garantía
+ * vigente se abre un servicio nuevo enlazado (`garantia_de`), sin costo.
+ */
+
+export type WarrantyClaimCheck = { ok: true; warranty: ServiceWarranty } | { ok: false; message: string };
+
+/** Valida que se pueda reclamar: entregado, no es otro reclamo y la garantía no ha vencido */
+export async function checkWarrantyClaim(service: Service, now: Date = new Date()): Promise<WarrantyClaimCheck> {
+  if (service.garantia_de) return { ok: false, message: warrantyOfClaimMessage(service.garantia_de) };
+  if (service.estado !== "Entregado") return { ok: false, message: WARRANTY_NOT_DELIVERED_MESSAGE };
+
+  const warranty = await ensureWarranty(service);
+  if (!warranty) return { ok: false, message: WARRANTY_NOT_DELIVERED_MESSAGE };
+  if (!warrantyStatus(warranty, colombiaDateTime(now).fecha).vigente) {
+    return { ok: false, message: warrantyExpiredMessage(warranty.vence) };
+  }
+  return { ok: true, warranty };
+}
+
+/**
+ * Servicio del reclamo: mismo cliente, pieza, material y almacén que el
+ * original, recibido ahora (fecha y hora de Colombia), en estado "Garantía" y con costo cero.
+ */
+export function warrantyClaimService(original: Service, motivo: string, now: Date = new Date()): ServiceInput {
+  const { fecha, hora } = colombiaDateTime(now);
+
+  return {
+    customer_id: original.customer_id ?? null,
+    cliente: original.cliente,
+    telefono: original.telefono,
+    maquina: original.maquina,
+    fecha,
+    hora,
+    estado: "Garantía",
+    descripcion: `Garantía de ${original.code}: ${motivo}`,
+    material: original.material as ServiceInput["material"], // ya se validó al registrar el original
+    agente: original.agente,
+    almacen: original.almacen,
+    prioridad: original.prioridad,
+    fecha_entrega: computeFechaEntrega({ fecha, hora, prioridad: original.prioridad }),
+    abono: 0,
+    costo_final: 0,
+    abono_pagado: false,
+    costo_final_pagado: false,
+    garantia_de: original.code,
+  };
+}
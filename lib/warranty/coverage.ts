@@ -0,0 +1,85 @@
+import { getPricingRepository, getStatusHistoryRepository, getWarrantyRepository } from "../repositories";
+import { getCompanySettings } from "../settings/company";
+import { colombiaDateTime } from "../sla/calendar";
+import type { Service } from "../schemas/service";
+import { addDays, type ServiceWarranty, type WarrantyCoverage } from "../schemas/warranty";
+
+/**
+ * Cobertura de garantía por tipo de trabajo:
+ * - días de la mano de obra cotizada (copia en `services.cotizacion`; las
+ *   cotizaciones anteriores a la garantía usan la tarifa vigente del mismo nombre)
+ * - sin días propios o sin cotización: `garantia_dias` de /app/configuracion
+ * Las condiciones (`terminos_garantia`) son las de la empresa.
+ */
+export async function warrantyCoverage(service: Pick<Service, "cotizacion">): Promise<WarrantyCoverage> {
+  const settings = await getCompanySettings();
+  const trabajo = service.cotizacion?.mano_obra ?? null;
+
+  let propios: number | null = null;
+  if (trabajo) {
+    propios = trabajo.garantia_dias !== undefined ? trabajo.garantia_dias : await currentRateDays(trabajo.nombre);
+  }
+
+  return {
+    tipo_trabajo: trabajo?.nombre ?? null,
+    dias: propios ?? settings.garantia_dias,
+    terminos: settings.terminos_garantia,
+  };
+}
+
+async function currentRateDays(nombre: string) {
+  const rates = await getPricingRepository().listLaborRates();
+  const rate = rates.find((r) => r.tipo === "trabajo" && r.nombre.toLowerCase() === nombre.toLowerCase());
+  return rate?.garantia_dias ?? null;
+}
+
+/** Día (en Colombia) de la última entrega según el historial (hoy si no hay registro) */
+async function deliveryDate(serviceCode: string) {
+  const history = await getStatusHistoryRepository().listByService(serviceCode);
+  const entrega = history.filter((entry) => entry.a === "Entregado").at(-1);
+  return colombiaDateTime(entrega ? new Date(entrega.created_at) : new Date()).fecha;
+}
+
+/**
+ * Garantía del servicio; la registra si aún no existe (al entregarlo, o al
+ * reclamar sobre un servicio entregado antes de que existieran las garantías).
+ * Los reclamos de garantía no tienen garantía propia: los cubre la del original.
+ */
+export async function ensureWarranty(
+  service: Pick<Service, "code" | "cotizacion" | "garantia_de">,
+  inicio?: string
+): Promise<ServiceWarranty | null> {
+  if (service.garantia_de) return null;
+
+  const warranties = getWarrantyRepository();
+  const existing = await warranties.getByServiceCode(service.code);
+  if (existing) return existing;
+
+  const coverage = await warrantyCoverage(service);
+  const start = inicio ?? (await deliveryDate(service.code));
+  return warranties.create({
+    service_code: service.code,
+    ...coverage,
+    inicio: start,
+    vence: addDays(start, coverage.dias),
+  });
+}
+
+/** Lo que imprime la factura: `vence` es null mientras no se haya entregado */
+export type WarrantyTerms = WarrantyCoverage & {
+  vence: string | null;
+  /** Código del servicio original si este es un reclamo de garantía */
+  garantia_de: string | null;
+};
+
+export async function warrantyTerms(
+  service: Pick<Service, "code" | "cotizacion" | "garantia_de">
+): Promise<WarrantyTerms> {
+  const garantia_de = service.garantia_de ?? null;
+  const warranty = await getWarrantyRepository().getByServiceCode(garantia_de ?? service.code);
+  if (warranty) {
+    const { tipo_trabajo, dias, terminos, vence } = warranty;
+    return { tipo_trabajo, dias, terminos, vence, garantia_de };
+  }
+  return { ...(await warrantyCoverage(service)), vence: null, garantia_de };
+}
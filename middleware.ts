@@ -1,6 +1,12 @@
 import { createServerClient } from "@supabase/ssr";
 import { NextResponse, type NextRequest } from "next/server";
 
+/**
+ * Rutas públicas (sin sesión): seguimiento del servicio con el token del QR
+ * del tiquete de retiro. No pasan por las redirecciones de abajo.
+ */
+const PUBLIC_PREFIXES = ["/seguimiento/", "/api/tracking/"];
+
 /**
  * Middleware de Next.js para proteger rutas
  * Redirige a /login si el usuario no está autenticado y trata de acceder a /app
@@ -8,6 +14,10 @@ import { NextResponse, type NextRequest } from "next/server";
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
+  if (PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+    return NextResponse.next();
+  }
+
   // Verificar que las variables de entorno estén disponibles
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
   const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
@@ -0,0 +1,32 @@
+-- Libro de pagos: varios pagos (abonos parciales) por servicio.
+-- El saldo se calcula como costo_final - suma(monto); abono_pagado y
+-- costo_final_pagado en `services` pasan a ser banderas derivadas.
+
+create table if not exists public.service_payments (
+  id uuid primary key default gen_random_uuid(),
+  service_code text not null references public.services (code) on update cascade on delete cascade,
+  fecha date not null default current_date,
+  monto numeric(14, 2) not null check (monto > 0),
+  metodo text not null check (metodo in ('Efectivo', 'Tarjeta', 'Transferencia')),
+  agente text not null,
+  referencia text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists service_payments_service_code_idx
+  on public.service_payments (service_code, fecha);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.service_payments enable row level security;
+
+-- Migrar los pagos marcados con las banderas anteriores
+insert into public.service_payments (service_code, fecha, monto, metodo, agente, referencia)
+select code, fecha, abono, 'Efectivo', agente, 'Abono inicial'
+from public.services
+where abono_pagado and abono > 0;
+
+insert into public.service_payments (service_code, fecha, monto, metodo, agente, referencia)
+select code, fecha, costo_final - (case when abono_pagado then abono else 0 end), 'Efectivo', agente, 'Pago final'
+from public.services
+where costo_final_pagado
+  and costo_final - (case when abono_pagado then abono else 0 end) > 0;
@@ -0,0 +1,57 @@
+-- Factura electrónica de venta (DIAN UBL 2.1): una por servicio.
+-- El consecutivo se toma del rango autorizado por la resolución de facturación.
+
+create table if not exists public.invoice_sequences (
+  prefijo text primary key,
+  ultimo bigint not null
+);
+
+alter table public.invoice_sequences enable row level security;
+
+-- Reserva el siguiente número del prefijo (bloquea la fila; seguro con concurrencia)
+create or replace function public.next_invoice_number(p_prefijo text, p_desde bigint, p_hasta bigint)
+returns bigint
+language plpgsql
+as $$
+declare
+  v_next bigint;
+begin
+  insert into public.invoice_sequences as s (prefijo, ultimo)
+  values (p_prefijo, p_desde)
+  on conflict (prefijo) do update set ultimo = s.ultimo + 1
+  returning ultimo into v_next;
+
+  if v_next > p_hasta then
+    raise exception 'El rango de numeración autorizado por la DIAN está agotado';
+  end if;
+
+  return v_next;
+end;
+$$;
+
+create table if not exists public.electronic_invoices (
+  id uuid primary key default gen_random_uuid(),
+  service_code text not null unique references public.services (code) on update cascade on delete restrict,
+  prefijo text not null,
+  numero bigint not null,
+  numero_factura text not null unique,
+  fecha_emision date not null,
+  hora_emision text not null,
+  cufe text not null unique,
+  qr_text text not null,
+  adquiriente_tipo_documento text not null,
+  adquiriente_documento text not null,
+  adquiriente_nombre text not null,
+  adquiriente_email text,
+  subtotal numeric(14, 2) not null,
+  iva numeric(14, 2) not null,
+  total numeric(14, 2) not null,
+  xml text not null,
+  estado text not null check (estado in ('Aceptada', 'Rechazada', 'Pendiente')),
+  dian_track_id text,
+  dian_mensajes jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  unique (prefijo, numero)
+);
+
+alter table public.electronic_invoices enable row level security;
@@ -0,0 +1,53 @@
+-- Directorio de clientes. Los servicios se enlazan con customer_id;
+-- cliente / telefono en `services` quedan como copia del momento.
+
+create or replace function public.customers_telefonos_texto(telefonos text[])
+returns text
+language sql
+immutable
+as $$ select array_to_string(telefonos, ' ') $$;
+
+create table if not exists public.customers (
+  id uuid primary key default gen_random_uuid(),
+  nombre text not null,
+  tipo_documento text check (tipo_documento in ('13', '31', '22', '41', '42')),
+  numero_documento text,
+  telefonos text[] not null default '{}',
+  -- Búsqueda por teléfono con ilike (PostgREST no filtra arrays por patrón)
+  telefonos_texto text generated always as (public.customers_telefonos_texto(telefonos)) stored,
+  email text,
+  direccion text,
+  notas text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint customers_documento_requiere_tipo check (numero_documento is null or tipo_documento is not null),
+  constraint customers_documento_unique unique (tipo_documento, numero_documento)
+);
+
+create index if not exists customers_telefonos_idx on public.customers using gin (telefonos);
+create index if not exists customers_nombre_idx on public.customers (lower(nombre));
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.customers enable row level security;
+
+alter table public.services
+  add column if not exists customer_id uuid references public.customers (id) on delete set null;
+
+create index if not exists services_customer_id_idx on public.services (customer_id);
+
+-- Crear un cliente por teléfono normalizado (nombre del servicio más reciente)
+insert into public.customers (nombre, telefonos)
+select distinct on (tel) cliente, array[tel]
+from (
+  select cliente, regexp_replace(telefono, '[\s\-()]', '', 'g') as tel, created_at
+  from public.services
+  where customer_id is null and coalesce(telefono, '') <> ''
+) s
+where tel <> ''
+order by tel, created_at desc;
+
+update public.services s
+set customer_id = c.id
+from public.customers c
+where s.customer_id is null
+  and regexp_replace(s.telefono, '[\s\-()]', '', 'g') = any (c.telefonos);
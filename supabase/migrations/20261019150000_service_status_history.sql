@@ -0,0 +1,23 @@
+-- Historial de estados: cada transición (quién, cuándo, de, a, nota).
+-- El estado de `services` solo cambia con POST /api/services/[code]/status.
+
+create table if not exists public.service_status_history (
+  id uuid primary key default gen_random_uuid(),
+  service_code text not null references public.services (code) on update cascade on delete cascade,
+  de text check (de in ('Pendiente', 'En fabricación', 'Garantía', 'Entregado')),
+  a text not null check (a in ('Pendiente', 'En fabricación', 'Garantía', 'Entregado')),
+  usuario text not null,
+  nota text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists service_status_history_service_code_idx
+  on public.service_status_history (service_code, created_at);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.service_status_history enable row level security;
+
+-- Estado actual de los servicios existentes como entrada inicial
+insert into public.service_status_history (service_code, de, a, usuario, nota, created_at)
+select code, null, estado, agente, 'Estado al activar el historial', coalesce(created_at, now())
+from public.services;
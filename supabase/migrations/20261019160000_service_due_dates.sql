@@ -0,0 +1,22 @@
+-- Fecha de entrega comprometida según la prioridad (lib/sla/due.ts):
+-- jornadas hábiles desde fecha + hora de recepción, con horario del taller
+-- y festivos de Colombia. La API la calcula al crear o editar el servicio.
+
+alter table public.services
+  add column if not exists fecha_entrega timestamptz;
+
+create index if not exists services_fecha_entrega_idx
+  on public.services (fecha_entrega)
+  where estado <> 'Entregado';
+
+-- Servicios existentes: aproximación en días calendario (sin horario ni
+-- festivos); se recalcula con la regla completa al editar el servicio.
+update public.services
+set fecha_entrega = ((fecha + hora::time) at time zone 'America/Bogota')
+  + case prioridad
+      when '24 horas' then interval '1 day'
+      when '48 horas' then interval '2 days'
+      when '72 horas' then interval '3 days'
+      else interval '7 days'
+    end
+where fecha_entrega is null;
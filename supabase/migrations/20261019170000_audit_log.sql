@@ -0,0 +1,42 @@
+-- Registro de auditoría (solo inserción): quién creó, modificó, eliminó o
+-- imprimió cada servicio, con los campos cambiados (antes/después) y la IP.
+
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor text not null,
+  accion text not null check (accion in (
+    'crear', 'actualizar', 'eliminar', 'imprimir_factura',
+    'registrar_pago', 'eliminar_pago', 'cambiar_estado', 'emitir_factura_electronica'
+  )),
+  -- Sin llave foránea: la entrada se conserva aunque el servicio se elimine
+  service_code text,
+  cambios jsonb not null default '{}'::jsonb,
+  ip text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_service_code_idx on public.audit_log (service_code, created_at desc);
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.audit_log enable row level security;
+
+-- Append-only: ni la API ni la consola pueden modificar o borrar entradas
+create or replace function public.audit_log_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'audit_log es de solo inserción';
+end;
+$$;
+
+drop trigger if exists audit_log_no_update on public.audit_log;
+create trigger audit_log_no_update
+  before update or delete on public.audit_log
+  for each row execute function public.audit_log_append_only();
+
+drop trigger if exists audit_log_no_truncate on public.audit_log;
+create trigger audit_log_no_truncate
+  before truncate on public.audit_log
+  for each statement execute function public.audit_log_append_only();
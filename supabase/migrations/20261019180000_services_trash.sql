@@ -0,0 +1,19 @@
+-- Papelera de servicios: eliminar marca el servicio en lugar de borrarlo.
+-- Desde la papelera se restaura o se elimina definitivamente; pasada la
+-- retención (PAPELERA_RETENCION_DIAS) se purga automáticamente.
+
+alter table public.services
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+-- Listado de la papelera y búsqueda de vencidos para la purga
+create index if not exists services_deleted_at_idx
+  on public.services (deleted_at)
+  where deleted_at is not null;
+
+-- Nuevas acciones de auditoría: restaurar y purgar
+alter table public.audit_log drop constraint if exists audit_log_accion_check;
+alter table public.audit_log add constraint audit_log_accion_check check (accion in (
+  'crear', 'actualizar', 'eliminar', 'restaurar', 'purgar', 'imprimir_factura',
+  'registrar_pago', 'eliminar_pago', 'cambiar_estado', 'emitir_factura_electronica'
+));
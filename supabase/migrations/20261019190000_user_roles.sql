@@ -0,0 +1,40 @@
+-- Roles de los empleados (admin, vendedor, taller, consulta).
+-- Se guardan aquí y no en user_metadata, que el propio usuario puede editar.
+-- Solo la API (SERVICE_ROLE_KEY) lee y modifica esta tabla.
+
+create table if not exists public.user_roles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  email text,
+  role text not null default 'consulta' check (role in ('admin', 'vendedor', 'taller', 'consulta')),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists user_roles_role_idx on public.user_roles (role);
+
+alter table public.user_roles enable row level security;
+
+-- Cada usuario nuevo entra como "consulta" (solo lectura)
+create or replace function public.user_roles_on_signup()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.user_roles (user_id, email)
+  values (new.id, new.email)
+  on conflict (user_id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_roles_on_signup on auth.users;
+create trigger user_roles_on_signup
+  after insert on auth.users
+  for each row execute function public.user_roles_on_signup();
+
+-- Los empleados existentes conservan el acceso que tenían (todo):
+-- quedan como admin y un administrador ajusta los roles desde /app/usuarios.
+insert into public.user_roles (user_id, email, role)
+select id, email, 'admin' from auth.users
+on conflict (user_id) do nothing;
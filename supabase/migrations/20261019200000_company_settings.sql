@@ -0,0 +1,26 @@
+-- Perfil de la empresa para los documentos impresos (una sola fila, id = 1).
+-- Sin fila, la API usa los valores por defecto (Joyería Briolete).
+
+create table if not exists public.company_settings (
+  id smallint primary key default 1 check (id = 1),
+  razon_social text not null,
+  nombre_comercial text not null,
+  nit text,
+  direcciones text[] not null default '{}',
+  telefonos text[] not null default '{}',
+  redes text[] not null default '{}',
+  email text,
+  -- Ruta dentro del bucket privado `branding`
+  logo_path text,
+  pie_legal text,
+  terminos_factura text,
+  updated_at timestamptz not null default now()
+);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.company_settings enable row level security;
+
+-- Logos: bucket privado, la API los sirve en /api/settings/logo
+insert into storage.buckets (id, name, public)
+values ('branding', 'branding', false)
+on conflict (id) do nothing;
@@ -0,0 +1,8 @@
+-- Orden de trabajo del taller (/api/services/[code]/work-order):
+-- cada impresión queda en la auditoría como `imprimir_orden`.
+
+alter table public.audit_log drop constraint if exists audit_log_accion_check;
+alter table public.audit_log add constraint audit_log_accion_check check (accion in (
+  'crear', 'actualizar', 'eliminar', 'restaurar', 'purgar', 'imprimir_factura', 'imprimir_orden',
+  'registrar_pago', 'eliminar_pago', 'cambiar_estado', 'emitir_factura_electronica'
+));
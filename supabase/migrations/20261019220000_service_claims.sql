@@ -0,0 +1,32 @@
+-- Tiquete de retiro: token (QR de seguimiento) y PIN por servicio.
+-- Para pasar a "Entregado" se verifica el QR o el PIN (verified_at);
+-- la verificación se borra si el servicio sale de "Entregado".
+
+create table if not exists public.service_claims (
+  service_code text primary key references public.services (code) on update cascade on delete cascade,
+  token text not null unique,
+  pin text not null check (pin ~ '^[0-9]{6}$'),
+  created_at timestamptz not null default now(),
+  verified_at timestamptz,
+  verified_by text
+);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.service_claims enable row level security;
+
+-- Tiquete para los servicios existentes (se reimprime desde el detalle)
+insert into public.service_claims (service_code, token, pin)
+select
+  code,
+  translate(encode(extensions.gen_random_bytes(24), 'base64'), '+/', '-_'),
+  lpad(((('x' || encode(extensions.gen_random_bytes(4), 'hex'))::bit(32)::bigint % 1000000))::text, 6, '0')
+from public.services
+on conflict (service_code) do nothing;
+
+-- Nuevas acciones de auditoría: tiquete impreso y retiro verificado
+alter table public.audit_log drop constraint if exists audit_log_accion_check;
+alter table public.audit_log add constraint audit_log_accion_check check (accion in (
+  'crear', 'actualizar', 'eliminar', 'restaurar', 'purgar', 'imprimir_factura', 'imprimir_orden',
+  'imprimir_tiquete', 'verificar_retiro', 'registrar_pago', 'eliminar_pago', 'cambiar_estado',
+  'emitir_factura_electronica'
+));
@@ -0,0 +1,28 @@
+-- Notificaciones al cliente (WhatsApp, SMS o correo) por cambios de estado y
+-- pagos. Solo se envían si el cliente eligió un canal (autorización expresa).
+
+alter table public.customers
+  add column if not exists canal_notificaciones text
+  check (canal_notificaciones in ('whatsapp', 'sms', 'email'));
+
+-- Registro de envíos: un intento por fila (solo inserción)
+create table if not exists public.notification_log (
+  id uuid primary key default gen_random_uuid(),
+  service_code text not null references public.services (code) on update cascade on delete cascade,
+  customer_id uuid references public.customers (id) on delete set null,
+  evento text not null check (evento in ('en_fabricacion', 'garantia', 'entregado', 'pago_registrado')),
+  canal text not null check (canal in ('whatsapp', 'sms', 'email')),
+  destino text,
+  mensaje text not null,
+  estado text not null check (estado in ('enviado', 'fallido', 'omitido')),
+  proveedor text,
+  proveedor_id text,
+  error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notification_log_service_code_idx
+  on public.notification_log (service_code, created_at desc);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.notification_log enable row level security;
@@ -0,0 +1,50 @@
+-- Varios adjuntos por servicio (cotizaciones, fotos de ingreso y entrega,
+-- diseños) en lugar de la única `services.cotizacion_url`. Los archivos
+-- siguen en el bucket `cotizaciones`; la tabla guarda la ruta de cada uno.
+
+create table if not exists public.service_attachments (
+  id uuid primary key default gen_random_uuid(),
+  service_code text not null references public.services (code) on update cascade on delete cascade,
+  categoria text not null check (categoria in ('cotizacion', 'foto_ingreso', 'foto_entrega', 'diseno')),
+  path text not null unique,
+  nombre text not null,
+  content_type text not null,
+  size bigint not null default 0,
+  created_at timestamptz not null default now(),
+  created_by text
+);
+
+create index if not exists service_attachments_service_code_idx
+  on public.service_attachments (service_code, created_at);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.service_attachments enable row level security;
+
+-- Las cotizaciones existentes pasan a ser adjuntos (la URL pública termina
+-- en `/cotizaciones/<ruta>`); tamaño y tipo se toman del objeto del bucket
+insert into public.service_attachments (service_code, categoria, path, nombre, content_type, size, created_at)
+select
+  s.code,
+  'cotizacion',
+  q.path,
+  regexp_replace(q.path, '^.*/', ''),
+  coalesce(o.metadata ->> 'mimetype', 'application/octet-stream'),
+  coalesce((o.metadata ->> 'size')::bigint, 0),
+  coalesce(o.created_at, s.created_at, now())
+from public.services s
+cross join lateral (
+  select split_part(s.cotizacion_url, '/cotizaciones/', 2) as path
+) q
+left join storage.objects o on o.bucket_id = 'cotizaciones' and o.name = q.path
+where s.cotizacion_url is not null and q.path <> ''
+on conflict (path) do nothing;
+
+alter table public.services drop column if exists cotizacion_url;
+
+-- Nuevas acciones de auditoría: subir y eliminar adjuntos
+alter table public.audit_log drop constraint if exists audit_log_accion_check;
+alter table public.audit_log add constraint audit_log_accion_check check (accion in (
+  'crear', 'actualizar', 'eliminar', 'restaurar', 'purgar', 'imprimir_factura', 'imprimir_orden',
+  'imprimir_tiquete', 'verificar_retiro', 'registrar_pago', 'eliminar_pago', 'cambiar_estado',
+  'emitir_factura_electronica', 'subir_adjunto', 'eliminar_adjunto'
+));
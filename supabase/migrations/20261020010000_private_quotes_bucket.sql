@@ -0,0 +1,34 @@
+-- Bucket `cotizaciones` privado: los adjuntos se leen solo a través de
+-- /api/services/[code]/attachments/[id], que redirige a una URL firmada de
+-- corta duración. Las URLs públicas guardadas antes dejan de funcionar.
+
+insert into storage.buckets (id, name, public)
+values ('cotizaciones', 'cotizaciones', false)
+on conflict (id) do update set public = false;
+
+-- Políticas de lectura del bucket (la API usa SERVICE_ROLE_KEY y no las necesita)
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname
+    from pg_policies
+    where schemaname = 'storage'
+      and tablename = 'objects'
+      and cmd in ('SELECT', 'ALL')
+      and coalesce(qual, '') like '%cotizaciones%'
+  loop
+    execute format('drop policy if exists %I on storage.objects', policy.policyname);
+  end loop;
+end $$;
+
+-- URLs públicas que hayan quedado como ruta
+-- (`https://…/storage/v1/object/public/cotizaciones/<año>/<uuid>.<ext>?…`)
+update public.service_attachments
+set path = regexp_replace(split_part(path, '/cotizaciones/', 2), '[?#].*$', '')
+where path like '%://%/cotizaciones/%'
+  and not exists (
+    select 1 from public.service_attachments other
+    where other.path = regexp_replace(split_part(service_attachments.path, '/cotizaciones/', 2), '[?#].*$', '')
+  );
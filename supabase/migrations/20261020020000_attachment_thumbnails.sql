@@ -0,0 +1,6 @@
+-- Miniaturas de las fotos adjuntas (JPEG junto al archivo: `<año>/<uuid>.thumb.jpg`).
+-- Las imágenes nuevas se guardan sin metadatos (EXIF/GPS) y en tamaño web;
+-- las anteriores se muestran completas hasta que se vuelvan a subir.
+
+alter table public.service_attachments
+  add column if not exists thumb_path text unique;
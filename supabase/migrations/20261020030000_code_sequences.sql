@@ -0,0 +1,42 @@
+-- Numeración generada por la aplicación (lib/codes): códigos de servicio y
+-- números de factura. Cada ámbito (formato resuelto con "#" en lugar del
+-- consecutivo, p. ej. 'servicio:SER2026-#') lleva su propio contador.
+
+create table if not exists public.code_sequences (
+  scope text primary key,
+  ultimo bigint not null
+);
+
+alter table public.code_sequences enable row level security;
+
+-- Reserva el siguiente número del ámbito (bloquea la fila; seguro con concurrencia)
+create or replace function public.next_code_sequence(p_scope text)
+returns bigint
+language plpgsql
+as $$
+declare
+  v_next bigint;
+begin
+  insert into public.code_sequences as s (scope, ultimo)
+  values (p_scope, 1)
+  on conflict (scope) do update set ultimo = s.ultimo + 1
+  returning ultimo into v_next;
+
+  return v_next;
+end;
+$$;
+
+-- Los contadores continúan desde los códigos existentes
+-- (SER2026-0042 → ámbito 'servicio:SER2026-#', último 42)
+insert into public.code_sequences (scope, ultimo)
+select 'servicio:' || substring(code from '^(.*?)[0-9]+$') || '#', max(substring(code from '([0-9]+)$')::bigint)
+from public.services
+where code ~ '[0-9]+$'
+group by 1
+on conflict (scope) do update set ultimo = greatest(public.code_sequences.ultimo, excluded.ultimo);
+
+-- El código ya no lo genera la base de datos
+alter table public.services alter column code drop default;
+
+-- Número de factura (se asigna al imprimir la factura por primera vez)
+alter table public.services add column if not exists factura_numero text unique;
@@ -0,0 +1,21 @@
+-- Pesos de metal por servicio y material, en gramos: metal recibido del
+-- cliente, metal puesto por el taller, peso final de la pieza y merma.
+-- El máximo de merma (MERMA_MAXIMA_PORCENTAJE) lo valida la API.
+
+create table if not exists public.service_metal_weights (
+  service_code text not null references public.services (code) on update cascade on delete cascade,
+  material text not null check (material in ('Oro de 14k', 'Oro 18k', 'Plata 925', 'Plata 950')),
+  recibido_g numeric(10, 2) not null default 0 check (recibido_g >= 0),
+  taller_g numeric(10, 2) not null default 0 check (taller_g >= 0),
+  final_g numeric(10, 2) not null default 0 check (final_g >= 0),
+  merma_g numeric(10, 2) not null default 0 check (merma_g >= 0),
+  updated_at timestamptz not null default now(),
+  updated_by text,
+  primary key (service_code, material),
+  -- Lo que sale no puede superar lo que entró
+  constraint service_metal_weights_balance_check
+    check (final_g + merma_g <= recibido_g + taller_g + 0.01)
+);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.service_metal_weights enable row level security;
@@ -0,0 +1,31 @@
+-- Tarifas para cotizar servicios: precio del gramo por material (uno por
+-- día; rige el último con fecha <= hoy) y tarifas de mano de obra/engaste.
+-- La cotización calculada se guarda en services.cotizacion con los precios
+-- usados, para que cambios posteriores en las tarifas no la alteren.
+
+create table if not exists public.metal_prices (
+  fecha date not null,
+  material text not null check (material in ('Oro de 14k', 'Oro 18k', 'Plata 925', 'Plata 950')),
+  precio_gramo numeric(12, 2) not null check (precio_gramo > 0),
+  updated_at timestamptz not null default now(),
+  updated_by text,
+  primary key (fecha, material)
+);
+
+create index if not exists metal_prices_material_fecha_idx
+  on public.metal_prices (material, fecha desc);
+
+create table if not exists public.labor_rates (
+  id uuid primary key default gen_random_uuid(),
+  -- trabajo: valor fijo por trabajo; engaste: valor por piedra
+  tipo text not null check (tipo in ('trabajo', 'engaste')),
+  nombre text not null,
+  valor numeric(12, 2) not null check (valor > 0),
+  unique (tipo, nombre)
+);
+
+alter table public.services add column if not exists cotizacion jsonb;
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.metal_prices enable row level security;
+alter table public.labor_rates enable row level security;
@@ -0,0 +1,39 @@
+-- Inventario de metal del taller, en gramos por material y almacén.
+-- La existencia es la suma de los movimientos (positivos: entradas,
+-- negativos: salidas). Los movimientos no se modifican ni se borran; un
+-- error se corrige con un ajuste.
+
+create table if not exists public.inventory_movements (
+  id uuid primary key default gen_random_uuid(),
+  material text not null check (material in ('Oro de 14k', 'Oro 18k', 'Plata 925', 'Plata 950')),
+  almacen text not null,
+  tipo text not null check (tipo in ('compra', 'ajuste', 'traslado', 'consumo')),
+  gramos numeric(10, 2) not null check (gramos <> 0),
+  -- Costo total de la compra (COP)
+  costo numeric(14, 2) check (costo is null or costo >= 0),
+  -- Consumo: servicio que usó el metal del taller
+  service_code text references public.services (code) on update cascade on delete set null,
+  -- Traslado: salida y entrada comparten el mismo id
+  traslado_id uuid,
+  nota text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists inventory_movements_created_at_idx
+  on public.inventory_movements (created_at desc);
+create index if not exists inventory_movements_material_almacen_idx
+  on public.inventory_movements (material, almacen);
+create index if not exists inventory_movements_service_code_idx
+  on public.inventory_movements (service_code)
+  where service_code is not null;
+
+-- Existencia por material y almacén
+create or replace view public.inventory_stock
+with (security_invoker = true) as
+select material, almacen, sum(gramos) as gramos
+from public.inventory_movements
+group by material, almacen;
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.inventory_movements enable row level security;
@@ -0,0 +1,31 @@
+-- Piedras y componentes por servicio (diamantes, circones, broches…): una
+-- línea por tipo con cantidad, medida o quilates, quién lo aporta y precio
+-- unitario. La suma se guarda en services.componentes_total y se cobra con
+-- el costo final (saldo = costo_final + componentes_total - pagos).
+
+create table if not exists public.service_components (
+  id uuid primary key default gen_random_uuid(),
+  service_code text not null references public.services (code) on update cascade on delete cascade,
+  posicion integer not null default 0,
+  tipo text not null check (
+    tipo in ('Diamante', 'Circón', 'Piedra preciosa', 'Piedra semipreciosa', 'Perla', 'Broche', 'Cadena', 'Otro')
+  ),
+  descripcion text,
+  cantidad integer not null check (cantidad between 1 and 1000),
+  medida text,
+  aporta text not null check (aporta in ('joyeria', 'cliente')),
+  precio_unitario numeric(14, 2) not null default 0 check (precio_unitario >= 0),
+  -- Lo que aporta el cliente no se cobra
+  constraint service_components_cliente_sin_precio_check
+    check (aporta = 'joyeria' or precio_unitario = 0)
+);
+
+create index if not exists service_components_service_code_idx
+  on public.service_components (service_code, posicion);
+
+alter table public.services
+  add column if not exists componentes_total numeric(14, 2) not null default 0
+  check (componentes_total >= 0);
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.service_components enable row level security;
@@ -0,0 +1,39 @@
+-- Garantías: cada servicio entregado registra su cobertura (días de la
+-- mano de obra cotizada o la garantía general de la empresa). Un reclamo
+-- abre un servicio nuevo enlazado al original con services.garantia_de.
+
+create table if not exists public.service_warranties (
+  service_code text primary key references public.services (code) on update cascade on delete cascade,
+  -- Mano de obra cotizada (null: garantía general)
+  tipo_trabajo text,
+  dias integer not null check (dias >= 0),
+  inicio date not null,
+  vence date not null,
+  terminos text,
+  created_at timestamptz not null default now(),
+  check (vence >= inicio)
+);
+
+create index if not exists service_warranties_vence_idx
+  on public.service_warranties (vence);
+
+alter table public.services
+  add column if not exists garantia_de text
+  references public.services (code) on update cascade on delete set null;
+
+create index if not exists services_garantia_de_idx
+  on public.services (garantia_de)
+  where garantia_de is not null;
+
+-- Días de garantía por tipo de trabajo (solo mano de obra; null: la general)
+alter table public.labor_rates
+  add column if not exists garantia_dias integer
+  check (garantia_dias is null or (tipo = 'trabajo' and garantia_dias between 0 and 3650));
+
+alter table public.company_settings
+  add column if not exists garantia_dias integer not null default 90
+  check (garantia_dias between 0 and 3650),
+  add column if not exists terminos_garantia text;
+
+-- Solo se accede con SERVICE_ROLE_KEY desde la API
+alter table public.service_warranties enable row level security;
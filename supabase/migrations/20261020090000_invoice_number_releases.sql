@@ -0,0 +1,53 @@
+-- Números de factura electrónica reservados que no llegaron a la DIAN
+-- (falló la firma o el envío). next_invoice_number los reutiliza antes de
+-- avanzar el consecutivo, para no dejar huecos en el rango autorizado.
+
+create table if not exists public.invoice_number_releases (
+  prefijo text not null,
+  numero bigint not null,
+  created_at timestamptz not null default now(),
+  primary key (prefijo, numero)
+);
+
+alter table public.invoice_number_releases enable row level security;
+
+create or replace function public.next_invoice_number(p_prefijo text, p_desde bigint, p_hasta bigint)
+returns bigint
+language plpgsql
+as $$
+declare
+  v_next bigint;
+begin
+  -- Primero el menor número liberado (skip locked: dos emisiones no toman el mismo)
+  delete from public.invoice_number_releases r
+  where (r.prefijo, r.numero) = (
+    select l.prefijo, l.numero
+    from public.invoice_number_releases l
+    where l.prefijo = p_prefijo
+      and l.numero between p_desde and p_hasta
+      and not exists (
+        select 1 from public.electronic_invoices i
+        where i.prefijo = l.prefijo and i.numero = l.numero
+      )
+    order by l.numero
+    limit 1
+    for update skip locked
+  )
+  returning r.numero into v_next;
+
+  if v_next is not null then
+    return v_next;
+  end if;
+
+  insert into public.invoice_sequences as s (prefijo, ultimo)
+  values (p_prefijo, p_desde)
+  on conflict (prefijo) do update set ultimo = s.ultimo + 1
+  returning ultimo into v_next;
+
+  if v_next > p_hasta then
+    raise exception 'El rango de numeración autorizado por la DIAN está agotado';
+  end if;
+
+  return v_next;
+end;
+$$;
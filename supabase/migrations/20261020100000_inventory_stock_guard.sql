@@ -0,0 +1,63 @@
+-- Existencia de metal verificada en la base de datos: los movimientos se
+-- insertan con add_inventory_movements, que bloquea cada material y almacén
+-- afectado y revisa la existencia en la misma transacción (dos salidas a la
+-- vez no pueden pasar ambas de lo que hay).
+-- - salidas manuales (ajuste, traslado): no dejan el almacén en negativo
+-- - consumo de un servicio: se guarda igual (el metal ya se usó), marcado
+--   con `sobregiro`
+
+alter table public.inventory_movements
+  add column if not exists sobregiro boolean not null default false;
+
+create or replace function public.add_inventory_movements(p_rows jsonb)
+returns setof public.inventory_movements
+language plpgsql
+as $$
+declare
+  v_key record;
+  v_actual numeric;
+  v_resultado numeric;
+  v_sobregiro text[] := '{}';
+begin
+  -- Bloqueo por material y almacén, en orden (sin interbloqueos)
+  for v_key in
+    select r.material, r.almacen, sum(r.gramos) as delta,
+      bool_or(r.gramos < 0 and r.tipo <> 'consumo') as salida_manual,
+      bool_or(r.gramos < 0 and r.tipo = 'consumo') as consumo
+    from jsonb_to_recordset(p_rows) as r(material text, almacen text, tipo text, gramos numeric)
+    group by r.material, r.almacen
+    order by r.material, r.almacen
+  loop
+    perform pg_advisory_xact_lock(hashtext('inventory_movements:' || v_key.material || ':' || v_key.almacen));
+
+    select coalesce(sum(m.gramos), 0) into v_actual
+    from public.inventory_movements m
+    where m.material = v_key.material and m.almacen = v_key.almacen;
+
+    v_resultado := v_actual + v_key.delta;
+    if v_resultado < 0 then
+      if v_key.salida_manual then
+        raise exception 'inventario_insuficiente'
+          using detail = json_build_object(
+            'material', v_key.material, 'almacen', v_key.almacen, 'gramos', v_actual
+          )::text;
+      end if;
+      if v_key.consumo then
+        v_sobregiro := v_sobregiro || (v_key.material || ':' || v_key.almacen);
+      end if;
+    end if;
+  end loop;
+
+  return query
+  insert into public.inventory_movements
+    (material, almacen, tipo, gramos, costo, service_code, traslado_id, nota, created_by, sobregiro)
+  select
+    r.material, r.almacen, r.tipo, r.gramos, r.costo, r.service_code, r.traslado_id, r.nota, r.created_by,
+    r.tipo = 'consumo' and r.gramos < 0 and (r.material || ':' || r.almacen) = any (v_sobregiro)
+  from jsonb_to_recordset(p_rows) as r(
+    material text, almacen text, tipo text, gramos numeric, costo numeric,
+    service_code text, traslado_id uuid, nota text, created_by text
+  )
+  returning *;
+end;
+$$;
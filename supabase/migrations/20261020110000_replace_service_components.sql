@@ -0,0 +1,46 @@
+-- Reemplazo de piedras y componentes en una sola transacción: borra las
+-- líneas del servicio, inserta las nuevas y guarda su suma en
+-- services.componentes_total. Si una línea falla (restricción, servicio
+-- inexistente) no cambia nada: quedan las líneas y el total anteriores.
+
+create or replace function public.replace_service_components(p_service_code text, p_rows jsonb)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_componentes jsonb;
+  v_total numeric(14, 2);
+begin
+  -- Bloquea el servicio: dos reemplazos a la vez no mezclan sus líneas
+  perform 1 from public.services where code = p_service_code for update;
+  if not found then
+    raise exception 'Servicio % no existe', p_service_code;
+  end if;
+
+  delete from public.service_components where service_code = p_service_code;
+
+  with inserted as (
+    insert into public.service_components
+      (service_code, posicion, tipo, descripcion, cantidad, medida, aporta, precio_unitario)
+    select
+      p_service_code, (r.ord - 1)::integer, r.tipo, r.descripcion, r.cantidad, r.medida, r.aporta, r.precio_unitario
+    from rows from (
+      jsonb_to_recordset(coalesce(p_rows, '[]'::jsonb)) as (
+        tipo text, descripcion text, cantidad integer, medida text, aporta text, precio_unitario numeric
+      )
+    ) with ordinality as r(tipo, descripcion, cantidad, medida, aporta, precio_unitario, ord)
+    returning *
+  )
+  select
+    coalesce(jsonb_agg(to_jsonb(i) order by i.posicion), '[]'::jsonb),
+    coalesce(sum(round(i.cantidad * i.precio_unitario)), 0)
+  into v_componentes, v_total
+  from inserted i;
+
+  update public.services
+  set componentes_total = v_total
+  where code = p_service_code and componentes_total is distinct from v_total;
+
+  return jsonb_build_object('componentes', v_componentes, 'total', v_total);
+end;
+$$;
@@ -0,0 +1,8 @@
+-- Aviso manual de pieza lista para recoger (POST /api/services/[code]/notifications)
+
+alter table public.notification_log
+  drop constraint if exists notification_log_evento_check;
+
+alter table public.notification_log
+  add constraint notification_log_evento_check
+  check (evento in ('en_fabricacion', 'listo_para_recoger', 'garantia', 'entregado', 'pago_registrado'));
@@ -0,0 +1,35 @@
+-- Bloqueo de la verificación del retiro: tras varios intentos fallidos
+-- seguidos (QR o PIN errados) la verificación del servicio se bloquea unos
+-- minutos. Los intentos fallidos quedan en la auditoría.
+
+alter table public.service_claims
+  add column if not exists intentos_fallidos integer not null default 0 check (intentos_fallidos >= 0),
+  add column if not exists bloqueado_hasta timestamptz;
+
+-- Suma el intento en la misma sentencia que lo lee: los intentos simultáneos
+-- también cuentan. Al llegar al máximo bloquea y vuelve a contar desde cero.
+create or replace function public.record_claim_failure(
+  p_service_code text,
+  p_max_attempts integer,
+  p_lockout_minutes integer
+)
+returns public.service_claims
+language sql
+as $$
+  update public.service_claims
+  set
+    intentos_fallidos = case when intentos_fallidos + 1 >= p_max_attempts then 0 else intentos_fallidos + 1 end,
+    bloqueado_hasta = case
+      when intentos_fallidos + 1 >= p_max_attempts then now() + make_interval(mins => p_lockout_minutes)
+      else bloqueado_hasta
+    end
+  where service_code = p_service_code
+  returning *;
+$$;
+
+alter table public.audit_log drop constraint if exists audit_log_accion_check;
+alter table public.audit_log add constraint audit_log_accion_check check (accion in (
+  'crear', 'actualizar', 'eliminar', 'restaurar', 'purgar', 'imprimir_factura', 'imprimir_orden',
+  'imprimir_tiquete', 'verificar_retiro', 'verificar_retiro_fallido', 'registrar_pago', 'eliminar_pago',
+  'cambiar_estado', 'emitir_factura_electronica', 'subir_adjunto', 'eliminar_adjunto'
+));
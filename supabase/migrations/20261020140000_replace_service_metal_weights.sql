@@ -0,0 +1,82 @@
+-- Pesos de metal y consumo de inventario en una sola transacción: bloquea
+-- el servicio, lee los pesos anteriores, los reemplaza y registra con
+-- add_inventory_movements la diferencia del metal del taller (taller_g) por
+-- material. Dos reemplazos a la vez no calculan el consumo sobre los mismos
+-- pesos anteriores, y si algo falla no cambian ni los pesos ni el inventario.
+
+create or replace function public.replace_service_metal_weights(
+  p_service_code text,
+  p_rows jsonb,
+  p_updated_by text
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  v_almacen text;
+  v_antes jsonb;
+  v_despues jsonb;
+  v_consumo jsonb;
+  v_movimientos jsonb := '[]'::jsonb;
+begin
+  -- Bloquea el servicio: el consumo se calcula sobre los pesos vigentes
+  select s.almacen into v_almacen from public.services s where s.code = p_service_code for update;
+  if not found then
+    raise exception 'Servicio % no existe', p_service_code;
+  end if;
+
+  select coalesce(jsonb_agg(to_jsonb(w)), '[]'::jsonb) into v_antes
+  from public.service_metal_weights w
+  where w.service_code = p_service_code;
+
+  delete from public.service_metal_weights where service_code = p_service_code;
+
+  with inserted as (
+    insert into public.service_metal_weights
+      (service_code, material, recibido_g, taller_g, final_g, merma_g, updated_by, updated_at)
+    select p_service_code, r.material, r.recibido_g, r.taller_g, r.final_g, r.merma_g, p_updated_by, now()
+    from jsonb_to_recordset(coalesce(p_rows, '[]'::jsonb)) as r(
+      material text, recibido_g numeric, taller_g numeric, final_g numeric, merma_g numeric
+    )
+    returning *
+  )
+  select coalesce(jsonb_agg(to_jsonb(i)), '[]'::jsonb) into v_despues from inserted i;
+
+  -- Almacén como ya está en el inventario ("el poblado " y "El Poblado" son el mismo)
+  select coalesce(
+    (
+      select m.almacen from public.inventory_movements m
+      where lower(btrim(regexp_replace(m.almacen, '[<>]', '', 'g')))
+        = lower(btrim(regexp_replace(v_almacen, '[<>]', '', 'g')))
+      order by m.created_at
+      limit 1
+    ),
+    v_almacen
+  ) into v_almacen;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'material', c.material,
+    'almacen', v_almacen,
+    'tipo', 'consumo',
+    'gramos', -c.delta,
+    'costo', null,
+    'service_code', p_service_code,
+    'traslado_id', null,
+    'nota', case when c.delta > 0 then null else 'Devolución: bajó el metal del taller en el servicio' end,
+    'created_by', p_updated_by
+  ) order by c.material), '[]'::jsonb) into v_consumo
+  from (
+    select material, round(coalesce(d.taller_g, 0) - coalesce(a.taller_g, 0), 2) as delta
+    from jsonb_to_recordset(v_antes) as a(material text, taller_g numeric)
+    full join jsonb_to_recordset(v_despues) as d(material text, taller_g numeric) using (material)
+  ) c
+  where c.delta <> 0;
+
+  if jsonb_array_length(v_consumo) > 0 then
+    select coalesce(jsonb_agg(to_jsonb(m)), '[]'::jsonb) into v_movimientos
+    from public.add_inventory_movements(v_consumo) m;
+  end if;
+
+  return jsonb_build_object('antes', v_antes, 'despues', v_despues, 'movimientos', v_movimientos);
+end;
+$$;
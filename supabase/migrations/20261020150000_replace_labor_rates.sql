@@ -0,0 +1,31 @@
+-- Reemplazo de las tarifas de mano de obra y engaste en una sola
+-- transacción: borra las que no vienen, actualiza las que traen id e inserta
+-- las nuevas. Si una tarifa falla (nombre repetido, valor inválido) no
+-- cambia nada: quedan las tarifas anteriores.
+
+create or replace function public.replace_labor_rates(p_rows jsonb)
+returns setof public.labor_rates
+language plpgsql
+as $$
+begin
+  -- Bloquea la tabla: dos reemplazos a la vez no mezclan sus tarifas
+  lock table public.labor_rates in share row exclusive mode;
+
+  delete from public.labor_rates l
+  where not exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_rows, '[]'::jsonb)) as r(id uuid)
+    where r.id = l.id
+  );
+
+  insert into public.labor_rates as l (id, tipo, nombre, valor, garantia_dias)
+  select coalesce(r.id, gen_random_uuid()), r.tipo, r.nombre, r.valor, r.garantia_dias
+  from jsonb_to_recordset(coalesce(p_rows, '[]'::jsonb)) as r(
+    id uuid, tipo text, nombre text, valor numeric, garantia_dias integer
+  )
+  on conflict (id) do update
+  set tipo = excluded.tipo, nombre = excluded.nombre, valor = excluded.valor, garantia_dias = excluded.garantia_dias;
+
+  return query select * from public.labor_rates;
+end;
+$$;
@@ -0,0 +1,28 @@
+-- Cotizaciones convertidas en adjuntos desde `services.cotizacion_url`
+-- (20261020000000) con la query string o el fragmento de la URL pública
+-- en la ruta (`<año>/<uuid>.<ext>?token=…`): el objeto del bucket no lleva
+-- el sufijo. Se corrigen la ruta y el nombre, y el tipo y el tamaño se
+-- toman del objeto, que con la ruta sin sufijo sí se encuentra.
+
+with fixed as (
+  select
+    a.id,
+    q.path,
+    row_number() over (partition by q.path order by a.created_at, a.id) as n
+  from public.service_attachments a
+  cross join lateral (select regexp_replace(a.path, '[?#].*$', '') as path) q
+  where a.path ~ '[?#]' and q.path <> ''
+)
+update public.service_attachments a
+set
+  path = f.path,
+  nombre = regexp_replace(f.path, '^.*/', ''),
+  content_type = coalesce(o.metadata ->> 'mimetype', a.content_type),
+  size = coalesce((o.metadata ->> 'size')::bigint, a.size)
+from fixed f
+left join storage.objects o on o.bucket_id = 'cotizaciones' and o.name = f.path
+where a.id = f.id
+  and f.n = 1
+  and not exists (
+    select 1 from public.service_attachments other where other.path = f.path
+  );
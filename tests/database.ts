@@ -0,0 +1,86 @@
+import { readFile, readdir } from "fs/promises";
+import path from "path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PGlite } from "@electric-sql/pglite";
+import { pgcrypto } from "@electric-sql/pglite/contrib/pgcrypto";
+
+const MIGRATIONS_DIR = path.join(__dirname, "..", "supabase", "migrations");
+
+/**
+ * Postgres en memoria (PGlite) con el esquema base de Supabase y todas las
+ * migraciones aplicadas en orden, para probar las funciones SQL que usan
+ * los repositorios de Supabase (`rpc`).
+ */
+export async function createMigratedDatabase() {
+  const db = new PGlite({ extensions: { pgcrypto } });
+  await db.exec(await readFile(path.join(__dirname, "supabase-base.sql"), "utf8"));
+
+  const files = (await readdir(MIGRATIONS_DIR)).filter((f) => f.endsWith(".sql")).sort();
+  for (const file of files) {
+    try {
+      await db.exec(await readFile(path.join(MIGRATIONS_DIR, file), "utf8"));
+    } catch (err) {
+      throw new Error(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return db;
+}
+
+export type TestDatabase = Awaited<ReturnType<typeof createMigratedDatabase>>;
+
+/** Inserta un servicio mínimo (columnas obligatorias de `services`) */
+export async function insertService(db: TestDatabase, code: string, overrides: Record<string, unknown> = {}) {
+  const row: Record<string, unknown> = {
+    code,
+    cliente: "Ana Gómez",
+    telefono: "3001234567",
+    maquina: "Anillo",
+    fecha: "2026-10-16",
+    hora: "10:00",
+    estado: "Pendiente",
+    descripcion: "Ajuste de talla",
+    material: "Oro 18k",
+    agente: "Carlos",
+    almacen: "Centro",
+    prioridad: "Normal",
+    costo_final: 100_000,
+    ...overrides,
+  };
+  const columns = Object.keys(row);
+  await db.query(
+    `insert into public.services (${columns.join(", ")}) values (${columns.map((_, i) => `$${i + 1}`).join(", ")})`,
+    Object.values(row)
+  );
+}
+
+/**
+ * Cliente con solo `rpc`, como lo expone PostgREST: llama la función con
+ * argumentos por nombre y devuelve `{ data, error }` (las filas si la función
+ * devuelve `setof`, la fila si devuelve un tipo compuesto y si no el valor).
+ */
+export function rpcClient(db: TestDatabase) {
+  return {
+    async rpc(fn: string, args: Record<string, unknown> = {}) {
+      const names = Object.keys(args);
+      const params = Object.values(args).map((v) => (v !== null && typeof v === "object" ? JSON.stringify(v) : v));
+      try {
+        const result = await db.query<Record<string, unknown>>(
+          `select * from public.${fn}(${names.map((n, i) => `${n} => $${i + 1}`).join(", ")})`,
+          params
+        );
+        const [{ proretset }] = (
+          await db.query<{ proretset: boolean }>(
+            "select proretset from pg_proc where proname = $1 and pronamespace = 'public'::regnamespace",
+            [fn]
+          )
+        ).rows;
+        if (proretset) return { data: result.rows, error: null };
+        const scalar = result.fields.length === 1 && result.fields[0].name === fn;
+        return { data: scalar ? (result.rows[0]?.[fn] ?? null) : (result.rows[0] ?? null), error: null };
+      } catch (err) {
+        const e = err as { message: string; detail?: string; code?: string };
+        return { data: null, error: { message: e.message, details: e.detail ?? null, code: e.code ?? null } };
+      }
+    },
+  } as unknown as SupabaseClient;
+}
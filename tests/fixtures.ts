@@ -0,0 +1,78 @@
+import type { ServiceCreateInput } from "../lib/repositories";
+import type { Service } from "../lib/schemas/service";
+import type { Customer } from "../lib/schemas/customer";
+
+/** Alta directa en el repositorio (lo que arma POST /api/services) */
+export function serviceCreateInput(overrides: Partial<ServiceCreateInput> = {}): ServiceCreateInput {
+  return {
+    code: "SRV-0001",
+    customer_id: null,
+    cliente: "Ana Gómez",
+    telefono: "3001234567",
+    maquina: "Anillo",
+    fecha: "2026-10-16",
+    hora: "10:00",
+    estado: "Pendiente",
+    descripcion: "Ajuste de talla",
+    material: "Oro 18k",
+    agente: "Carlos",
+    almacen: "Centro",
+    prioridad: "Normal",
+    fecha_entrega: null,
+    abono: 0,
+    costo_final: 100_000,
+    abono_pagado: false,
+    costo_final_pagado: false,
+    ...overrides,
+  };
+}
+
+/** Servicio válido para sembrar repositorios en memoria (el alta ya guardada) */
+export function serviceFixture(overrides: Partial<Service> = {}): Service {
+  return {
+    ...serviceCreateInput(),
+    created_at: "2026-10-16T15:00:00.000Z",
+    deleted_at: null,
+    deleted_by: null,
+    ...overrides,
+  };
+}
+
+/** Campos del formulario de NewServiceModal (POST /api/services) */
+export function serviceForm(overrides: Record<string, string> = {}) {
+  const form = new FormData();
+  const fields: Record<string, string> = {
+    cliente: "Ana Gómez",
+    telefono: "3001234567",
+    maquina: "Anillo",
+    fecha: "2026-10-16",
+    hora: "10:00",
+    estado: "Pendiente",
+    descripcion: "Ajuste de talla",
+    material: "Oro 18k",
+    agente: "Carlos",
+    almacen: "Centro",
+    prioridad: "Normal",
+    abono: "20000",
+    costo_final: "100000",
+    ...overrides,
+  };
+  for (const [key, value] of Object.entries(fields)) form.set(key, value);
+  return form;
+}
+
+/** Cliente del directorio que autorizó notificaciones por WhatsApp */
+export function customerFixture(overrides: Partial<Customer> = {}): Customer {
+  return {
+    id: "7f1c2a52-5d1e-4a8b-9a61-0c5f2b9e8d11",
+    nombre: "Ana Gómez",
+    tipo_documento: null,
+    numero_documento: null,
+    telefonos: ["3001234567"],
+    email: "ana@correo.co",
+    direccion: null,
+    notas: null,
+    canal_notificaciones: "whatsapp",
+    ...overrides,
+  };
+}
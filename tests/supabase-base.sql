@@ -0,0 +1,61 @@
+-- Lo que ya existe en el proyecto de Supabase antes de las migraciones:
+-- esquemas auth, storage y extensions, roles y la tabla `services`
+-- original (creada desde el panel). Solo para las pruebas con PGlite.
+
+create schema if not exists extensions;
+create extension if not exists pgcrypto schema extensions;
+
+do $$
+begin
+  if not exists (select 1 from pg_roles where rolname = 'anon') then create role anon; end if;
+  if not exists (select 1 from pg_roles where rolname = 'authenticated') then create role authenticated; end if;
+  if not exists (select 1 from pg_roles where rolname = 'service_role') then create role service_role; end if;
+end;
+$$;
+
+create schema if not exists auth;
+create table auth.users (
+  id uuid primary key default gen_random_uuid(),
+  email text,
+  raw_user_meta_data jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create schema if not exists storage;
+create table storage.buckets (
+  id text primary key,
+  name text not null,
+  public boolean not null default false,
+  created_at timestamptz not null default now()
+);
+create table storage.objects (
+  id uuid primary key default gen_random_uuid(),
+  bucket_id text references storage.buckets (id),
+  name text,
+  metadata jsonb,
+  created_at timestamptz not null default now()
+);
+alter table storage.objects enable row level security;
+
+create table public.services (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  cliente text not null,
+  telefono text not null,
+  maquina text not null,
+  fecha date not null,
+  hora time not null,
+  estado text not null,
+  descripcion text not null,
+  material text not null,
+  agente text not null,
+  almacen text not null,
+  prioridad text not null,
+  abono numeric(14, 2) not null default 0,
+  costo_final numeric(14, 2) not null default 0,
+  pago_final numeric(14, 2),
+  cotizacion_url text,
+  abono_pagado boolean not null default false,
+  costo_final_pagado boolean not null default false,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+/**
+ * Pruebas (`npm test`): corren contra los repositorios en memoria
+ * (DATA_BACKEND=memory), sin un proyecto de Supabase.
+ */
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    env: { DATA_BACKEND: "memory" },
+  },
+});